@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken, requireCapability } from '@/lib/server/auth';
+import { createCustomer } from '@/lib/server/customers';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { withTransaction } from '@/lib/server/store';
+
+/**
+ * POST /api/php/add_customer.php
+ * Da de alta un cliente. Cuerpo: `{ name, taxId?, phone?, email?, address?, notes? }`.
+ * Requiere una sesión con la capacidad `manage_customers`. Responde 201 con el cliente creado.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const customer = await withTransaction(db => {
+      const session = requireCapability(db, token, 'manage_customers');
+      return createCustomer(db, body, { userId: session.user.id, userName: session.user.name });
+    });
+    return NextResponse.json(customer, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error, 'Error al crear el cliente');
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { addOrRestockProduct } from '@/lib/server/inventory';
+import { withTransaction } from '@/lib/server/store';
+
+/**
+ * POST /api/php/add_product.php
+ * Añade un producto a un PDV o suma stock si ya existe. Cuerpo: `{ pointOfSale, product }`.
+ * Requiere una sesión con la capacidad `receive_stock` y acceso al PDV.
+ * Responde 201 con el producto resultante.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const result = await withTransaction(db => addOrRestockProduct(db, body, token));
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error, 'Error al añadir el producto');
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken, requireCapability } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { createPromotion } from '@/lib/server/promotions';
+import { withTransaction } from '@/lib/server/store';
+
+/**
+ * POST /api/php/add_promotion.php
+ * Crea una promoción. Cuerpo: `{ name, type, barcodes?, brand?, buyQuantity?, payQuantity?, bundlePrice?, percent?, pointOfSale?, startsAt?, endsAt?, active? }`.
+ * Requiere una sesión con la capacidad `manage_promotions`. Responde 201 con la promoción creada.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const promotion = await withTransaction(db => {
+      const session = requireCapability(db, token, 'manage_promotions');
+      return createPromotion(db, body, { userId: session.user.id, userName: session.user.name });
+    });
+    return NextResponse.json(promotion, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error, 'Error al crear la promoción');
+  }
+}
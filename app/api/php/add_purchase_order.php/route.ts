@@ -0,0 +1,21 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { createPurchaseOrder } from '@/lib/server/purchaseOrders';
+import { withTransaction } from '@/lib/server/store';
+
+/**
+ * POST /api/php/add_purchase_order.php
+ * Crea una orden de compra en borrador. Cuerpo: `{ supplierName, pointOfSale, items: [{ barcode, quantity, purchasePrice? }], notes? }`.
+ * Requiere una sesión con la capacidad `manage_purchase_orders` y acceso al PDV. Responde 201 con la orden creada.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const order = await withTransaction(db => createPurchaseOrder(db, body, token));
+    return NextResponse.json(order, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error, 'Error al crear la orden de compra');
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { createStockAdjustment } from '@/lib/server/stockAdjustments';
+import { withTransaction } from '@/lib/server/store';
+
+/**
+ * POST /api/php/add_stock_adjustment.php
+ * Registra un ajuste manual de stock. Cuerpo: `{ pointOfSale, barcode, quantity, reason, notes? }`; `quantity` es
+ * negativa para las bajas. Requiere una sesión con la capacidad `adjust_stock` y acceso al PDV.
+ * Responde 201 con el ajuste registrado.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const adjustment = await withTransaction(db => createStockAdjustment(db, body, token));
+    return NextResponse.json(adjustment, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error, 'Error al registrar el ajuste de stock');
+  }
+}
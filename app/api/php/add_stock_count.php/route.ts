@@ -0,0 +1,21 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { createStockCount } from '@/lib/server/stockCounts';
+import { withTransaction } from '@/lib/server/store';
+
+/**
+ * POST /api/php/add_stock_count.php
+ * Inicia un conteo físico de un PDV, o de una marca dentro de él. Cuerpo: `{ pointOfSale, brand?, notes? }`.
+ * Requiere una sesión con la capacidad `count_stock` y acceso al PDV. Responde 201 con el conteo iniciado.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const count = await withTransaction(db => createStockCount(db, body, token));
+    return NextResponse.json(count, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error, 'Error al iniciar el conteo');
+  }
+}
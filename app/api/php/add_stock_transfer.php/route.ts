@@ -0,0 +1,21 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { withTransaction } from '@/lib/server/store';
+import { createStockTransfer } from '@/lib/server/transfers';
+
+/**
+ * POST /api/php/add_stock_transfer.php
+ * Crea un traspaso en borrador, sin mover stock. Cuerpo: `{ origin, destination, items: [{ barcode, quantity }], notes? }`.
+ * Requiere una sesión con la capacidad `transfer_stock` y acceso al PDV de origen. Responde 201 con el traspaso creado.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const transfer = await withTransaction(db => createStockTransfer(db, body, token));
+    return NextResponse.json(transfer, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error, 'Error al crear el traspaso');
+  }
+}
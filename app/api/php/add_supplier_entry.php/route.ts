@@ -0,0 +1,23 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { addSupplierEntry } from '@/lib/server/suppliers';
+import { withTransaction } from '@/lib/server/store';
+
+/**
+ * POST /api/php/add_supplier_entry.php
+ * Registra una entrada de proveedor (stock, precios y datos de producto) en una sola transacción.
+ * Con `purchaseOrderId`, marca además esa orden de compra como recibida. Requiere una sesión con la capacidad
+ * `receive_stock` y acceso al PDV.
+ * Responde 201 con la entrada guardada, igual que `add_supplier_entry_example.php`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const result = await withTransaction(db => addSupplierEntry(db, body, token));
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error, 'Error al procesar la entrada del proveedor');
+  }
+}
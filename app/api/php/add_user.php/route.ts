@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken, requireCapability } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { withTransaction } from '@/lib/server/store';
+import { createUser } from '@/lib/server/users';
+
+/**
+ * POST /api/php/add_user.php
+ * Crea un usuario. Cuerpo: `{ name, username, password, role, allowedPOS }`.
+ * Requiere una sesión con la capacidad `manage_users`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const user = await withTransaction(db => {
+      requireCapability(db, token, 'manage_users');
+      return createUser(db, body);
+    });
+    return NextResponse.json(user);
+  } catch (error) {
+    return handleRouteError(error, 'Error al crear el usuario');
+  }
+}
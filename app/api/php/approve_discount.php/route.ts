@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { approveDiscount } from '@/lib/server/discounts';
+import { HttpError, handleRouteError, readJsonBody } from '@/lib/server/http';
+import { withTransaction } from '@/lib/server/store';
+
+/**
+ * POST /api/php/approve_discount.php
+ * Aprueba un descuento por encima del máximo del vendedor con las credenciales de un encargado
+ * `{ username, password, pointOfSale, discountPercent }`. Responde 201 con la aprobación, que la venta presenta
+ * como `discountApprovalId`; 401 si las credenciales no son válidas, 403 si el usuario no puede aprobar ese
+ * descuento en el PDV o 423 si la cuenta está bloqueada.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const result = await withTransaction(db => approveDiscount(db, body));
+    if (!result.ok) {
+      throw new HttpError(result.status, result.message);
+    }
+    return NextResponse.json(result.approval, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error, 'Error al aprobar el descuento');
+  }
+}
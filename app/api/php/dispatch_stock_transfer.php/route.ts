@@ -0,0 +1,21 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { withTransaction } from '@/lib/server/store';
+import { dispatchStockTransfer } from '@/lib/server/transfers';
+
+/**
+ * POST /api/php/dispatch_stock_transfer.php
+ * Despacha un traspaso en borrador: descuenta el stock del origen y lo deja en tránsito. Cuerpo: `{ id }`.
+ * Requiere una sesión con la capacidad `transfer_stock` y acceso al PDV de origen.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const transfer = await withTransaction(db => dispatchStockTransfer(db, body, token));
+    return NextResponse.json(transfer);
+  } catch (error) {
+    return handleRouteError(error, 'Error al despachar el traspaso');
+  }
+}
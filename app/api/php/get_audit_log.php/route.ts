@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { parseAuditLogFilters, queryAuditLog } from '@/lib/server/audit';
+import { getSessionToken, requireCapability } from '@/lib/server/auth';
+import { handleRouteError } from '@/lib/server/http';
+import { withTransaction } from '@/lib/server/store';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/php/get_audit_log.php
+ * Devuelve el registro de auditoría, de la entrada más reciente a la más antigua.
+ * Parámetros opcionales: `from` y `to` (fechas ISO 8601, inclusivas), `pointOfSale` y `action`.
+ * Requiere una sesión con la capacidad `view_audit`; solo se devuelven las entradas de los PDV
+ * a los que tiene acceso el usuario y las que no pertenecen a ningún PDV.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const filters = parseAuditLogFilters(searchParams);
+    const token = getSessionToken(request);
+    const entries = await withTransaction(db => {
+      const session = requireCapability(db, token, 'view_audit');
+      return queryAuditLog(db, filters, session.user);
+    });
+    return NextResponse.json(entries);
+  } catch (error) {
+    return handleRouteError(error, 'Error al obtener el registro de auditoría');
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken, requireCapability } from '@/lib/server/auth';
+import { listCustomers } from '@/lib/server/customers';
+import { handleRouteError } from '@/lib/server/http';
+import { withTransaction } from '@/lib/server/store';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/php/get_customers.php
+ * Devuelve el directorio de clientes ordenado por nombre. La caja lo usa para buscar el cliente de la venta.
+ * Requiere una sesión con la capacidad `manage_customers` (son datos de contacto).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = getSessionToken(request);
+    const customers = await withTransaction(db => {
+      requireCapability(db, token, 'manage_customers');
+      return listCustomers(db);
+    });
+    return NextResponse.json(customers);
+  } catch (error) {
+    return handleRouteError(error, 'Error al obtener los clientes');
+  }
+}
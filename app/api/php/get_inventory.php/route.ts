@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken, requireCapability } from '@/lib/server/auth';
+import { handleRouteError } from '@/lib/server/http';
+import { withTransaction } from '@/lib/server/store';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/php/get_inventory.php
+ * Devuelve el inventario completo agrupado por PDV y marca. Todos los PDV registrados aparecen, aunque estén vacíos.
+ * Requiere una sesión con la capacidad `view_inventory`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = getSessionToken(request);
+    const inventory = await withTransaction(db => {
+      requireCapability(db, token, 'view_inventory');
+      return Object.fromEntries(db.pointsOfSale.map(pos => [pos, db.inventory[pos] || {}]));
+    });
+    return NextResponse.json(inventory);
+  } catch (error) {
+    return handleRouteError(error, 'Error al cargar el inventario');
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken, requireSession } from '@/lib/server/auth';
+import { handleRouteError } from '@/lib/server/http';
+import { listPromotions } from '@/lib/server/promotions';
+import { withTransaction } from '@/lib/server/store';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/php/get_promotions.php
+ * Devuelve todas las promociones, activas o no, en el orden en que se aplican. El formulario de venta
+ * las usa para mostrar las promociones de cada línea antes de registrar la venta.
+ * Requiere una sesión (las usan la venta y la página de promociones).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = getSessionToken(request);
+    const promotions = await withTransaction(db => {
+      requireSession(db, token);
+      return listPromotions(db);
+    });
+    return NextResponse.json(promotions);
+  } catch (error) {
+    return handleRouteError(error, 'Error al obtener las promociones');
+  }
+}
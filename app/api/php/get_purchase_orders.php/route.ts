@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken, requireSession } from '@/lib/server/auth';
+import { handleRouteError } from '@/lib/server/http';
+import { parsePurchaseOrderFilters, queryPurchaseOrders } from '@/lib/server/purchaseOrders';
+import { withTransaction } from '@/lib/server/store';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/php/get_purchase_orders.php
+ * Devuelve las órdenes de compra, de la más reciente a la más antigua.
+ * Parámetros opcionales: `pointOfSale` (PDV de entrega) y `status`.
+ * Requiere una sesión (las usan la página de órdenes de compra y la recepción en entradas de proveedor).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const filters = parsePurchaseOrderFilters(searchParams);
+    const token = getSessionToken(request);
+    const orders = await withTransaction(db => {
+      requireSession(db, token);
+      return queryPurchaseOrders(db.purchaseOrders, filters);
+    });
+    return NextResponse.json(orders);
+  } catch (error) {
+    return handleRouteError(error, 'Error al cargar las órdenes de compra');
+  }
+}
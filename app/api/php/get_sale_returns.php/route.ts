@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken, requireSession } from '@/lib/server/auth';
+import { handleRouteError } from '@/lib/server/http';
+import { parseSaleReturnFilters, querySaleReturns } from '@/lib/server/returns';
+import { withTransaction } from '@/lib/server/store';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/php/get_sale_returns.php
+ * Devuelve las devoluciones de ventas minoristas y mayoristas, de la más reciente a la más antigua.
+ * Parámetros opcionales: `from` y `to` (fechas ISO 8601, inclusivas), `pointOfSale` y `saleId`.
+ * Requiere una sesión (las usan el historial de ventas, la caja y las gráficas).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const filters = parseSaleReturnFilters(searchParams);
+    const token = getSessionToken(request);
+    const saleReturns = await withTransaction(db => {
+      requireSession(db, token);
+      return querySaleReturns(db.saleReturns, filters);
+    });
+    return NextResponse.json(saleReturns);
+  } catch (error) {
+    return handleRouteError(error, 'Error al cargar las devoluciones');
+  }
+}
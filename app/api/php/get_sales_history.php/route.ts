@@ -0,0 +1,33 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken, requireSession } from '@/lib/server/auth';
+import { handleRouteError } from '@/lib/server/http';
+import { getSalesCollection, parseSalesHistoryFilters, parseSalesHistoryPagination, querySalesHistory } from '@/lib/server/sales';
+import { withTransaction } from '@/lib/server/store';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/php/get_sales_history.php
+ * Devuelve el historial de ventas minoristas, de la más reciente a la más antigua.
+ * Parámetros opcionales: `from` y `to` (fechas ISO 8601, inclusivas), `pointOfSale`, `paymentMethod`, `customerId`,
+ * `limit` (tamaño de página) y `cursor` (el `nextCursor` de la página anterior).
+ * Responde `{ items, nextCursor }`.
+ * Requiere una sesión (lo usan la venta, la caja, las gráficas y el bajo stock) y solo devuelve las ventas de los
+ * PDV del usuario; un `pointOfSale` sin acceso responde 403. Sin la capacidad `manage_customers`, las ventas se
+ * devuelven sin `customer` y el filtro `customerId` responde 403.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const filters = parseSalesHistoryFilters(searchParams);
+    const pagination = parseSalesHistoryPagination(searchParams);
+    const token = getSessionToken(request);
+    const page = await withTransaction(db => {
+      const session = requireSession(db, token);
+      return querySalesHistory(getSalesCollection(db, 'retail'), filters, pagination, session.user);
+    });
+    return NextResponse.json(page);
+  } catch (error) {
+    return handleRouteError(error, 'Error al cargar el historial de ventas');
+  }
+}
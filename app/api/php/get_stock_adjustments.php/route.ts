@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken, requireCapability } from '@/lib/server/auth';
+import { handleRouteError } from '@/lib/server/http';
+import { parseStockAdjustmentFilters, queryStockAdjustments } from '@/lib/server/stockAdjustments';
+import { withTransaction } from '@/lib/server/store';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/php/get_stock_adjustments.php
+ * Devuelve los ajustes manuales de stock, del más reciente al más antiguo.
+ * Parámetros opcionales: `from` y `to` (ISO 8601), `pointOfSale` y `reason`.
+ * Requiere una sesión con la capacidad `adjust_stock`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const filters = parseStockAdjustmentFilters(searchParams);
+    const token = getSessionToken(request);
+    const adjustments = await withTransaction(db => {
+      requireCapability(db, token, 'adjust_stock');
+      return queryStockAdjustments(db.stockAdjustments, filters);
+    });
+    return NextResponse.json(adjustments);
+  } catch (error) {
+    return handleRouteError(error, 'Error al cargar los ajustes de stock');
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken, requireCapability } from '@/lib/server/auth';
+import { handleRouteError } from '@/lib/server/http';
+import { parseStockCountFilters, queryStockCounts } from '@/lib/server/stockCounts';
+import { withTransaction } from '@/lib/server/store';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/php/get_stock_counts.php
+ * Devuelve los conteos físicos de stock, del más reciente al más antiguo.
+ * Parámetros opcionales: `pointOfSale` y `status`.
+ * Requiere una sesión con la capacidad `count_stock`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const filters = parseStockCountFilters(searchParams);
+    const token = getSessionToken(request);
+    const counts = await withTransaction(db => {
+      requireCapability(db, token, 'count_stock');
+      return queryStockCounts(db.stockCounts, filters);
+    });
+    return NextResponse.json(counts);
+  } catch (error) {
+    return handleRouteError(error, 'Error al cargar los conteos');
+  }
+}
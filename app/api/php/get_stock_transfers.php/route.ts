@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken, requireCapability } from '@/lib/server/auth';
+import { handleRouteError } from '@/lib/server/http';
+import { withTransaction } from '@/lib/server/store';
+import { parseStockTransferFilters, queryStockTransfers } from '@/lib/server/transfers';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/php/get_stock_transfers.php
+ * Devuelve los traspasos de stock entre PDV, del más reciente al más antiguo.
+ * Parámetros opcionales: `pointOfSale` (traspasos que salen de ese PDV o llegan a él) y `status`.
+ * Requiere una sesión con la capacidad `transfer_stock`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const filters = parseStockTransferFilters(searchParams);
+    const token = getSessionToken(request);
+    const transfers = await withTransaction(db => {
+      requireCapability(db, token, 'transfer_stock');
+      return queryStockTransfers(db.stockTransfers, filters);
+    });
+    return NextResponse.json(transfers);
+  } catch (error) {
+    return handleRouteError(error, 'Error al cargar los traspasos');
+  }
+}
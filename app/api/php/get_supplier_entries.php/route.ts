@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken, requireCapability } from '@/lib/server/auth';
+import { handleRouteError } from '@/lib/server/http';
+import { withTransaction } from '@/lib/server/store';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/php/get_supplier_entries.php
+ * Devuelve el historial de entradas de proveedores, de la más reciente a la más antigua.
+ * Requiere una sesión con la capacidad `receive_stock`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = getSessionToken(request);
+    const entries = await withTransaction(db => {
+      requireCapability(db, token, 'receive_stock');
+      return [...db.supplierEntries].sort((a, b) => b.dateTime.localeCompare(a.dateTime));
+    });
+    return NextResponse.json(entries);
+  } catch (error) {
+    return handleRouteError(error, 'Error al cargar el historial de proveedores');
+  }
+}
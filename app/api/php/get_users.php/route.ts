@@ -0,0 +1,25 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken, requireCapability } from '@/lib/server/auth';
+import { handleRouteError } from '@/lib/server/http';
+import { withTransaction } from '@/lib/server/store';
+import { listUsers } from '@/lib/server/users';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/php/get_users.php
+ * Devuelve todos los usuarios (sin credenciales) con su estado y último acceso.
+ * Requiere una sesión con la capacidad `manage_users`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = getSessionToken(request);
+    const users = await withTransaction(db => {
+      requireCapability(db, token, 'manage_users');
+      return listUsers(db);
+    });
+    return NextResponse.json(users);
+  } catch (error) {
+    return handleRouteError(error, 'Error al obtener los usuarios');
+  }
+}
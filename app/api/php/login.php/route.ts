@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { credentialsSchema } from '@/lib/domain';
+import { attemptLogin, setSessionCookie } from '@/lib/server/auth';
+import { HttpError, handleRouteError, parseJsonBody, readJsonBody } from '@/lib/server/http';
+import { setRoleCookie } from '@/lib/server/authCookies';
+import { withTransaction } from '@/lib/server/store';
+
+/**
+ * POST /api/php/login.php
+ * Comprueba las credenciales `{ username, password }` y abre una sesión en una cookie httpOnly,
+ * junto con la cookie de rol firmada que usa el middleware.
+ * Responde `{ user, expiresAt }`, 401 si las credenciales no son válidas, 403 si la cuenta está desactivada
+ * o 423 si está bloqueada.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { username, password } = parseJsonBody(credentialsSchema, await readJsonBody(request), 'Faltan campos requeridos: username, password.');
+    const result = await withTransaction(db => attemptLogin(db, username, password));
+    if (!result.ok) {
+      throw new HttpError(result.status, result.message);
+    }
+    const response = NextResponse.json(result.session);
+    setSessionCookie(response, result.token);
+    await setRoleCookie(response, result.session);
+    return response;
+  } catch (error) {
+    return handleRouteError(error, 'Error al iniciar sesión');
+  }
+}
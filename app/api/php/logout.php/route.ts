@@ -0,0 +1,20 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { clearSessionCookie, destroySession, getSessionToken } from '@/lib/server/auth';
+import { handleRouteError } from '@/lib/server/http';
+import { withTransaction } from '@/lib/server/store';
+
+/**
+ * POST /api/php/logout.php
+ * Cierra la sesión de la cookie actual y la borra. Responde `{ success: true }` aunque no hubiera sesión.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = getSessionToken(request);
+    await withTransaction(db => destroySession(db, token));
+    const response = NextResponse.json({ success: true });
+    clearSessionCookie(response);
+    return response;
+  } catch (error) {
+    return handleRouteError(error, 'Error al cerrar sesión');
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { postStockCount } from '@/lib/server/stockCounts';
+import { withTransaction } from '@/lib/server/store';
+
+/**
+ * POST /api/php/post_stock_count.php
+ * Contabiliza un conteo abierto: ajusta el stock de cada producto contado por su diferencia. Cuerpo: `{ id, reason }`.
+ * Requiere una sesión con la capacidad `post_stock_counts` y acceso al PDV.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const count = await withTransaction(db => postStockCount(db, body, token));
+    return NextResponse.json(count);
+  } catch (error) {
+    return handleRouteError(error, 'Error al contabilizar el conteo');
+  }
+}
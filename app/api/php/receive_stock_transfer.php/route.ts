@@ -0,0 +1,21 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { withTransaction } from '@/lib/server/store';
+import { receiveStockTransfer } from '@/lib/server/transfers';
+
+/**
+ * POST /api/php/receive_stock_transfer.php
+ * Recibe un traspaso en tránsito: suma el stock en el destino. Cuerpo: `{ id }`.
+ * Requiere una sesión con la capacidad `transfer_stock` y acceso al PDV de destino.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const transfer = await withTransaction(db => receiveStockTransfer(db, body, token));
+    return NextResponse.json(transfer);
+  } catch (error) {
+    return handleRouteError(error, 'Error al recibir el traspaso');
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { recordClientAuditEvent } from '@/lib/server/audit';
+import { getSessionToken } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { withTransaction } from '@/lib/server/store';
+
+/**
+ * POST /api/php/record_audit_event.php
+ * Añade al registro de auditoría una acción hecha en el cliente (altas y ediciones de facturas, ajustes de caja).
+ * Cuerpo: `{ action, entityId, pointOfSale?, before, after }`. Requiere una sesión con la capacidad que exige la acción.
+ * Responde 201 con la entrada guardada.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const entry = await withTransaction(db => recordClientAuditEvent(db, body, token));
+    return NextResponse.json(entry, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error, 'Error al registrar el evento de auditoría');
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { recordMixedSale } from '@/lib/server/sales';
+import { withTransaction } from '@/lib/server/store';
+
+/**
+ * POST /api/php/record_mixed_sale.php
+ * Registra las dos ventas de un carrito mixto en una sola transacción: si una falla, no se guarda ninguna.
+ * Cuerpo: `{ retail, wholesale }`, cada uno con los datos de `record_sale.php`. Requiere una sesión con las
+ * capacidades `sell` y `wholesale_sell` y acceso al PDV. Responde 201 con `{ retail, wholesale }`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const sales = await withTransaction(db => recordMixedSale(db, body, token));
+    return NextResponse.json(sales, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error, 'Error al registrar la venta mixta');
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { recordSaleReturn } from '@/lib/server/returns';
+import { withTransaction } from '@/lib/server/store';
+
+/**
+ * POST /api/php/record_sale_return.php
+ * Registra la devolución total o parcial de una venta minorista o mayorista y repone el stock en una sola transacción.
+ * Cuerpo: `{ saleId, saleKind, items: [{ barcode, quantity }], reason, refundMethod, notes? }`.
+ * Requiere una sesión con permiso de venta en el PDV de la venta. Responde 201 con la devolución guardada.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const saleReturn = await withTransaction(db => recordSaleReturn(db, body, token));
+    return NextResponse.json(saleReturn, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error, 'Error al registrar la devolución');
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { recordSale } from '@/lib/server/sales';
+import { withTransaction } from '@/lib/server/store';
+
+/**
+ * POST /api/php/record_wholesale_sale.php
+ * Registra una venta mayorista y descuenta el stock en una sola transacción. Requiere una sesión con la capacidad
+ * `wholesale_sell` y acceso al PDV; el vendedor es el usuario de la sesión. Responde 201 con la venta guardada.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const sale = await withTransaction(db => recordSale(db, body, 'wholesale', token));
+    return NextResponse.json(sale, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error, 'Error al registrar la venta por mayor');
+  }
+}
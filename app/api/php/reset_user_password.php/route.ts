@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken, requireCapability } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { withTransaction } from '@/lib/server/store';
+import { resetUserPassword } from '@/lib/server/users';
+
+/**
+ * POST /api/php/reset_user_password.php
+ * Asigna una contraseña nueva a un usuario, lo desbloquea y cierra sus sesiones. Cuerpo: `{ id, password }`.
+ * Requiere una sesión con la capacidad `manage_users`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const user = await withTransaction(db => {
+      requireCapability(db, token, 'manage_users');
+      return resetUserPassword(db, body);
+    });
+    return NextResponse.json(user);
+  } catch (error) {
+    return handleRouteError(error, 'Error al restablecer la contraseña');
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { clearSessionCookie, getSessionToken, setSessionCookie, touchSession } from '@/lib/server/auth';
+import { handleRouteError } from '@/lib/server/http';
+import { setRoleCookie } from '@/lib/server/authCookies';
+import { withTransaction } from '@/lib/server/store';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/php/session.php
+ * Devuelve la sesión de la cookie actual como `{ user, expiresAt }` y registra la actividad, reiniciando
+ * el plazo de inactividad, y renueva la cookie de rol (que así recoge los cambios de rol). Si no hay sesión o ha caducado,
+ * responde `{ user: null, expiresAt: null }`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = getSessionToken(request);
+    const session = await withTransaction(db => touchSession(db, token));
+    if (!session || !token) {
+      const response = NextResponse.json({ user: null, expiresAt: null });
+      if (token) clearSessionCookie(response);
+      return response;
+    }
+    const response = NextResponse.json(session);
+    setSessionCookie(response, token);
+    await setRoleCookie(response, session);
+    return response;
+  } catch (error) {
+    return handleRouteError(error, 'Error al comprobar la sesión');
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken, requireCapability } from '@/lib/server/auth';
+import { updateCustomer } from '@/lib/server/customers';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { withTransaction } from '@/lib/server/store';
+
+/**
+ * POST /api/php/update_customer.php
+ * Modifica los datos de un cliente. Cuerpo: `{ id, ...campos a cambiar }`.
+ * Requiere una sesión con la capacidad `manage_customers`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const customer = await withTransaction(db => {
+      const session = requireCapability(db, token, 'manage_customers');
+      return updateCustomer(db, body, { userId: session.user.id, userName: session.user.name });
+    });
+    return NextResponse.json(customer);
+  } catch (error) {
+    return handleRouteError(error, 'Error al actualizar el cliente');
+  }
+}
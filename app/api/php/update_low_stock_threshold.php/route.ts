@@ -0,0 +1,21 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { setLowStockThresholds } from '@/lib/server/inventory';
+import { withTransaction } from '@/lib/server/store';
+
+/**
+ * POST /api/php/update_low_stock_threshold.php
+ * Fija el umbral de bajo stock de productos de un PDV. Cuerpo: `{ pointOfSale, thresholds: [{ barcode, lowStockThreshold }] }`
+ * (null o 0 vuelve al umbral global). Requiere una sesión con la capacidad `receive_stock` y acceso al PDV.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const result = await withTransaction(db => setLowStockThresholds(db, body, token));
+    return NextResponse.json(result);
+  } catch (error) {
+    return handleRouteError(error, 'Error al actualizar el umbral de bajo stock');
+  }
+}
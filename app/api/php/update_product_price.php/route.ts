@@ -0,0 +1,21 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { setProductPrice } from '@/lib/server/inventory';
+import { withTransaction } from '@/lib/server/store';
+
+/**
+ * POST /api/php/update_product_price.php
+ * Cambia el precio de venta de un producto en un PDV. Cuerpo: `{ pointOfSale, barcode, newPrice }`.
+ * Requiere una sesión con la capacidad `edit_prices` y acceso al PDV.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const result = await withTransaction(db => setProductPrice(db, body, token));
+    return NextResponse.json(result);
+  } catch (error) {
+    return handleRouteError(error, 'Error al actualizar el precio del producto');
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { adjustProductQuantity } from '@/lib/server/inventory';
+import { withTransaction } from '@/lib/server/store';
+
+/**
+ * POST /api/php/update_product_quantity.php
+ * Repone stock de un producto en un PDV. Cuerpo: `{ pointOfSale, barcode, change }`, con `change` mayor que 0;
+ * las bajas se registran con `add_stock_adjustment.php`.
+ * Requiere una sesión con la capacidad `receive_stock` y acceso al PDV.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const result = await withTransaction(db => adjustProductQuantity(db, body, token));
+    return NextResponse.json(result);
+  } catch (error) {
+    return handleRouteError(error, 'Error al actualizar la cantidad del producto');
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken, requireCapability } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { updatePromotion } from '@/lib/server/promotions';
+import { withTransaction } from '@/lib/server/store';
+
+/**
+ * POST /api/php/update_promotion.php
+ * Modifica una promoción o la activa/desactiva. Cuerpo: `{ id, ...campos a cambiar }`.
+ * Requiere una sesión con la capacidad `manage_promotions`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const promotion = await withTransaction(db => {
+      const session = requireCapability(db, token, 'manage_promotions');
+      return updatePromotion(db, body, { userId: session.user.id, userName: session.user.name });
+    });
+    return NextResponse.json(promotion);
+  } catch (error) {
+    return handleRouteError(error, 'Error al actualizar la promoción');
+  }
+}
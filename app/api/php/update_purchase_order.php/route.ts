@@ -0,0 +1,21 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { updatePurchaseOrder } from '@/lib/server/purchaseOrders';
+import { withTransaction } from '@/lib/server/store';
+
+/**
+ * POST /api/php/update_purchase_order.php
+ * Modifica una orden de compra en borrador, o la marca como enviada (`status: "sent"`) o anulada (`status: "cancelled"`).
+ * Cuerpo: `{ id, supplierName?, pointOfSale?, items?, notes?, status? }`. Requiere una sesión con la capacidad `manage_purchase_orders` y acceso al PDV.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const order = await withTransaction(db => updatePurchaseOrder(db, body, token));
+    return NextResponse.json(order);
+  } catch (error) {
+    return handleRouteError(error, 'Error al actualizar la orden de compra');
+  }
+}
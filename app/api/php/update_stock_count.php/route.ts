@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { updateStockCount } from '@/lib/server/stockCounts';
+import { withTransaction } from '@/lib/server/store';
+
+/**
+ * POST /api/php/update_stock_count.php
+ * Carga cantidades contadas en un conteo abierto, cambia sus notas o lo anula.
+ * Cuerpo: `{ id, counts?: [{ barcode, countedQuantity }], notes?, status?: 'cancelled' }`.
+ * Requiere una sesión con la capacidad `count_stock` (`post_stock_counts` para anular) y acceso al PDV.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const count = await withTransaction(db => updateStockCount(db, body, token));
+    return NextResponse.json(count);
+  } catch (error) {
+    return handleRouteError(error, 'Error al actualizar el conteo');
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { withTransaction } from '@/lib/server/store';
+import { updateStockTransfer } from '@/lib/server/transfers';
+
+/**
+ * POST /api/php/update_stock_transfer.php
+ * Modifica o anula un traspaso en borrador; al anularlo no se mueve stock.
+ * Cuerpo: `{ id, origin?, destination?, items?, notes?, status?: 'cancelled' }`.
+ * Requiere una sesión con la capacidad `transfer_stock` y acceso al PDV de origen.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const transfer = await withTransaction(db => updateStockTransfer(db, body, token));
+    return NextResponse.json(transfer);
+  } catch (error) {
+    return handleRouteError(error, 'Error al actualizar el traspaso');
+  }
+}
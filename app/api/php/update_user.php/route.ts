@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSessionToken, requireCapability } from '@/lib/server/auth';
+import { handleRouteError, readJsonBody } from '@/lib/server/http';
+import { withTransaction } from '@/lib/server/store';
+import { updateUser } from '@/lib/server/users';
+
+/**
+ * POST /api/php/update_user.php
+ * Cambia el nombre, el rol, los PDV o el estado (activo/desactivado) de un usuario.
+ * Cuerpo: `{ id, name?, role?, allowedPOS?, active? }`. Requiere una sesión con la capacidad `manage_users`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const token = getSessionToken(request);
+    const user = await withTransaction(db => {
+      const session = requireCapability(db, token, 'manage_users');
+      return updateUser(db, body, session.user.id);
+    });
+    return NextResponse.json(user);
+  } catch (error) {
+    return handleRouteError(error, 'Error al actualizar el usuario');
+  }
+}
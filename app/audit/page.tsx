@@ -0,0 +1,267 @@
+
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableCaption } from "@/components/ui/table";
+import { Skeleton } from '@/components/ui/skeleton';
+import { ScrollText, FileDown } from 'lucide-react';
+import { useToast } from "@/hooks/use-toast";
+import { format, startOfDay, endOfDay } from 'date-fns';
+import { es } from 'date-fns/locale';
+import type { DateRange } from "react-day-picker";
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { DatePickerWithRange } from "@/components/DatePickerWithRange";
+import { useAuth } from '@/context/AuthContext';
+import { useInventoryContext } from '@/context/InventoryContext';
+import { getAuditLog } from '@/lib/api';
+import { auditActionSchema, getAuditActionLabel, type AuditAction, type AuditEntry } from '@/lib/domain';
+
+const ALL_FILTER = 'all';
+// Valor del filtro de usuario para las entradas sin usuario identificado.
+const UNKNOWN_USER_FILTER = 'unknown';
+
+/**
+ * Convierte los valores antes/después de una entrada en texto para la tabla y el PDF.
+ * @param {unknown} value - Los valores guardados.
+ * @returns {string} El JSON compacto, o '—' si no hay valores.
+ */
+function formatAuditValues(value: unknown): string {
+  return value === null || value === undefined ? '—' : JSON.stringify(value);
+}
+
+/**
+ * Página del registro de auditoría. Muestra quién cambió stock, precios, ventas, facturas o ajustes de caja,
+ * cuándo, en qué PDV y con qué valores antes y después, y permite filtrarlo y exportarlo a PDF.
+ * El registro es de solo lectura. Solo accesible con la capacidad `view_audit` (ver `ROUTE_PERMISSIONS`).
+ *
+ * @returns {JSX.Element} La interfaz de usuario de la página de auditoría.
+ */
+export default function AuditPage(): JSX.Element {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const { getPointsOfSaleForUser } = useInventoryContext();
+
+  const [isClient, setIsClient] = useState(false);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoadingEntries, setIsLoadingEntries] = useState(true);
+  const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined);
+  const [pointOfSaleFilter, setPointOfSaleFilter] = useState<string>(ALL_FILTER);
+  const [actionFilter, setActionFilter] = useState<AuditAction | typeof ALL_FILTER>(ALL_FILTER);
+  const [userFilter, setUserFilter] = useState<string>(ALL_FILTER);
+  const [entitySearch, setEntitySearch] = useState('');
+
+  const accessiblePOS = getPointsOfSaleForUser().filter(pos => can('view_audit', pos));
+
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  // Fecha, PDV y acción se filtran en el backend; usuario y entidad, sobre las entradas ya cargadas.
+  const serverFilters = useMemo(() => ({
+    from: dateRange?.from ? startOfDay(dateRange.from) : null,
+    to: dateRange?.from ? endOfDay(dateRange.to || dateRange.from) : null,
+    pointOfSale: pointOfSaleFilter === ALL_FILTER ? null : pointOfSaleFilter,
+    action: actionFilter === ALL_FILTER ? null : actionFilter,
+  }), [dateRange, pointOfSaleFilter, actionFilter]);
+
+  useEffect(() => {
+    if (!isClient) {
+      return;
+    }
+    let cancelled = false;
+    setIsLoadingEntries(true);
+    getAuditLog(serverFilters)
+      .then(result => {
+        if (!cancelled) setEntries(result);
+      })
+      .catch((error: any) => {
+        console.error("Error al cargar el registro de auditoría:", error);
+        if (!cancelled) {
+          toast({ variant: "destructive", title: "Error al Cargar Auditoría", description: error.message || "No se pudo obtener el registro de auditoría." });
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingEntries(false);
+      });
+    return () => { cancelled = true; };
+  }, [isClient, serverFilters, toast]);
+
+  // Usuarios que aparecen en las entradas cargadas, para el filtro de usuario.
+  const userOptions = useMemo(() => {
+    const names = new Map<string, string>();
+    entries.forEach(entry => {
+      if (entry.userId) names.set(entry.userId, entry.userName || entry.userId);
+    });
+    return Array.from(names, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [entries]);
+
+  const filteredEntries = useMemo(() => {
+    const search = entitySearch.trim().toLowerCase();
+    return entries.filter(entry =>
+      (userFilter === ALL_FILTER || (userFilter === UNKNOWN_USER_FILTER ? !entry.userId : entry.userId === userFilter))
+      && (!search || entry.entityId.toLowerCase().includes(search))
+    );
+  }, [entries, userFilter, entitySearch]);
+
+  const handleGeneratePdf = () => {
+    const doc = new jsPDF({ orientation: 'landscape' });
+    const rangeLabel = serverFilters.from && serverFilters.to
+      ? `(${format(serverFilters.from, "dd/MM/yy", { locale: es })} - ${format(serverFilters.to, "dd/MM/yy", { locale: es })})`
+      : '(Todas las Fechas)';
+    doc.setFontSize(18);
+    doc.text(`Registro de Auditoría ${rangeLabel}`, 14, 15);
+
+    autoTable(doc, {
+      head: [["Fecha y Hora", "Usuario", "PDV", "Acción", "Entidad", "Antes", "Después"]],
+      body: filteredEntries.map(entry => [
+        format(entry.dateTime, "dd/MM/yyyy HH:mm:ss", { locale: es }),
+        entry.userName || entry.userId || "Desconocido",
+        entry.pointOfSale || "—",
+        getAuditActionLabel(entry.action),
+        entry.entityId,
+        formatAuditValues(entry.before),
+        formatAuditValues(entry.after),
+      ]),
+      startY: 20,
+      theme: 'grid',
+      headStyles: { fillColor: [22, 160, 133] },
+      styles: { fontSize: 7, cellPadding: 1.5, overflow: 'linebreak' },
+      columnStyles: {
+        0: { cellWidth: 28 },
+        1: { cellWidth: 25 },
+        2: { cellWidth: 22 },
+        3: { cellWidth: 25 },
+        4: { cellWidth: 30 },
+        5: { cellWidth: 'auto' },
+        6: { cellWidth: 'auto' },
+      },
+    });
+    doc.save(`auditoria_${format(new Date(), "yyyyMMddHHmmss")}.pdf`);
+    toast({ title: "PDF Generado", description: "El registro de auditoría ha sido descargado." });
+  };
+
+  return (
+    <div className="space-y-8">
+      <Card className="shadow-md border border-border/60">
+        <CardHeader>
+          <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4">
+            <div>
+              <CardTitle className="text-2xl flex items-center gap-2">
+                <ScrollText className="h-6 w-6 text-primary" />
+                Registro de Auditoría
+              </CardTitle>
+              <CardDescription>Cambios de stock, precios, ventas, facturas y ajustes de caja, con sus valores antes y después.</CardDescription>
+            </div>
+            <div className="flex flex-wrap gap-2 items-center">
+              <DatePickerWithRange onDateChange={setDateRange} />
+              <Select value={pointOfSaleFilter} onValueChange={setPointOfSaleFilter}>
+                <SelectTrigger className="w-[170px]">
+                  <SelectValue placeholder="Punto de Venta" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_FILTER}>Todos los PDV</SelectItem>
+                  {accessiblePOS.map(pos => (
+                    <SelectItem key={pos} value={pos}>{pos}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={actionFilter} onValueChange={value => setActionFilter(value as AuditAction | typeof ALL_FILTER)}>
+                <SelectTrigger className="w-[190px]">
+                  <SelectValue placeholder="Acción" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_FILTER}>Todas las acciones</SelectItem>
+                  {auditActionSchema.options.map(action => (
+                    <SelectItem key={action} value={action}>{getAuditActionLabel(action)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={userFilter} onValueChange={setUserFilter}>
+                <SelectTrigger className="w-[170px]">
+                  <SelectValue placeholder="Usuario" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_FILTER}>Todos los usuarios</SelectItem>
+                  {userOptions.map(user => (
+                    <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+                  ))}
+                  <SelectItem value={UNKNOWN_USER_FILTER}>Desconocido</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                className="w-[200px]"
+                placeholder="Buscar entidad (código, ID)..."
+                value={entitySearch}
+                onChange={e => setEntitySearch(e.target.value)}
+              />
+              <Button onClick={handleGeneratePdf} disabled={filteredEntries.length === 0}>
+                <FileDown className="mr-2 h-4 w-4" />
+                Descargar PDF
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isClient && !isLoadingEntries ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableCaption>El registro de auditoría no se puede modificar ni borrar.</TableCaption>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[170px]">Fecha y Hora</TableHead>
+                    <TableHead>Usuario</TableHead>
+                    <TableHead>PDV</TableHead>
+                    <TableHead>Acción</TableHead>
+                    <TableHead>Entidad</TableHead>
+                    <TableHead>Antes</TableHead>
+                    <TableHead>Después</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredEntries.length > 0 ? filteredEntries.map(entry => (
+                    <TableRow key={entry.id} className="hover:bg-muted/30 align-top">
+                      <TableCell className="font-medium whitespace-nowrap text-sm">
+                        {format(entry.dateTime, "d MMM, yyyy HH:mm:ss", { locale: es })}
+                      </TableCell>
+                      <TableCell className="text-sm">{entry.userName || entry.userId || <span className="text-muted-foreground">Desconocido</span>}</TableCell>
+                      <TableCell className="text-sm">{entry.pointOfSale || '—'}</TableCell>
+                      <TableCell className="text-sm">
+                        <Badge variant="secondary" className="whitespace-nowrap">{getAuditActionLabel(entry.action)}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs font-mono">{entry.entityId}</TableCell>
+                      <TableCell>
+                        <pre className="text-xs whitespace-pre-wrap break-all max-h-32 max-w-xs overflow-auto">{formatAuditValues(entry.before)}</pre>
+                      </TableCell>
+                      <TableCell>
+                        <pre className="text-xs whitespace-pre-wrap break-all max-h-32 max-w-xs overflow-auto">{formatAuditValues(entry.after)}</pre>
+                      </TableCell>
+                    </TableRow>
+                  )) : (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground py-6">
+                        No hay entradas de auditoría con los filtros seleccionados.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="space-y-4 py-6">
+              <Skeleton className="h-8 w-full" />
+              <Skeleton className="h-8 w-full" />
+              <Skeleton className="h-8 w-full" />
+              <p className="text-center text-muted-foreground">Cargando registro de auditoría...</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -7,35 +7,13 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Banknote, TrendingUp, TrendingDown, ShieldCheck, ShieldX, CreditCard, ArrowRightLeft, CalendarDays, ClipboardList, HomeIcon, FileTextIcon, UsersIcon, Save, Edit, XCircle, PlusCircle, Trash2 } from 'lucide-react';
-import { format, isToday, startOfMonth, endOfMonth, parseISO, isValid } from 'date-fns';
+import { format, startOfDay, endOfDay, startOfMonth, endOfMonth, parseISO, isValid } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { useAuth } from '@/context/AuthContext';
-import { useRouter } from 'next/navigation';
 import { useToast } from "@/hooks/use-toast";
-
-interface SaleRecordItem {
-  barcode: string;
-  productName: string;
-  brandName: string;
-  quantity: number;
-  price: number;
-}
-
-interface SaleRecord {
-  id: string;
-  dateTime: string | Date;
-  pointOfSale: string;
-  items: SaleRecordItem[];
-  paymentMethod: "cash" | "card" | "transfer";
-  totalAmount: number;
-  receiptPdfDataUri?: string;
-}
-
-interface InvoiceRecord {
-  id: string;
-  invoiceDate: string; // "YYYY-MM-DD"
-  totalAmount: number;
-}
+import { useSalesHistory } from '@/hooks/useSalesHistory';
+import { recordAuditEvent } from '@/lib/api';
+import { getSalePaymentAmount, INVOICES_LOCAL_STORAGE_KEY, parseStoredInvoices, type PaymentMethod } from '@/lib/domain';
 
 interface FixedExpenseItem {
   id: string;
@@ -49,9 +27,6 @@ interface CajaSettings {
   fixedExpenses: FixedExpenseItem[];
 }
 
-const SALES_HISTORY_LOCAL_STORAGE_KEY = 'salesHistory';
-const WHOLESALE_SALES_HISTORY_LOCAL_STORAGE_KEY = 'wholesaleSalesHistory';
-const INVOICES_LOCAL_STORAGE_KEY = 'invoiceHistoryBeautyApp';
 const CAJA_SETTINGS_LOCAL_STORAGE_KEY = 'cajaSettingsBeautyApp';
 
 const defaultFixedExpenses: FixedExpenseItem[] = [
@@ -67,14 +42,14 @@ const defaultSettings: CajaSettings = {
 };
 
 export default function CajaPage(): JSX.Element {
-  const { currentUser, isLoading: authIsLoading } = useAuth();
-  const router = useRouter();
+  const { can, isLoading: authIsLoading } = useAuth();
   const { toast } = useToast();
 
   const [isClient, setIsClient] = useState(false);
   const [dailyCashIncome, setDailyCashIncome] = useState(0);
   const [dailyCardIncome, setDailyCardIncome] = useState(0);
   const [dailyTransferIncome, setDailyTransferIncome] = useState(0);
+  const [dailyRefunds, setDailyRefunds] = useState<Record<PaymentMethod, number>>({ cash: 0, card: 0, transfer: 0 });
   const [totalDailySalesIncome, setTotalDailySalesIncome] = useState(0);
   const [monthlyExpensesFromInvoices, setMonthlyExpensesFromInvoices] = useState(0);
 
@@ -86,7 +61,13 @@ export default function CajaPage(): JSX.Element {
 
   const [isEditingSettings, setIsEditingSettings] = useState(false);
 
-  const isAdmin = useMemo(() => currentUser?.allowedPOS.includes('*'), [currentUser]);
+  // Rango del día actual, fijado al montar la página.
+  const [todayRange] = useState(() => ({ from: startOfDay(new Date()), to: endOfDay(new Date()) }));
+  const { sales: todayRegularSales, wholesaleSales: todayWholesaleSales, saleReturns: todaySaleReturns, error: salesHistoryError } = useSalesHistory({
+    from: todayRange.from,
+    to: todayRange.to,
+    enabled: isClient,
+  });
 
   const loadSettings = useCallback(() => {
     const storedSettings = localStorage.getItem(CAJA_SETTINGS_LOCAL_STORAGE_KEY);
@@ -117,51 +98,37 @@ export default function CajaPage(): JSX.Element {
     setIsClient(true);
   }, []);
 
+  // El acceso a la página lo controla el mapa de permisos por ruta (capacidad 'view_caja').
   useEffect(() => {
-    if (isClient && !authIsLoading) {
-      if (!isAdmin) {
-        toast({
-          title: "Acceso Denegado",
-          description: "No tienes permiso para acceder a la sección de Caja.",
-          variant: "destructive",
-        });
-        router.push('/');
-      } else {
-        loadSettings();
-      }
+    if (isClient) {
+      loadSettings();
     }
-  }, [isClient, authIsLoading, isAdmin, router, toast, loadSettings]);
+  }, [isClient, loadSettings]);
 
+  // Ingresos netos del día por método de pago: ventas minoristas y mayoristas menos los reembolsos de devoluciones.
   useEffect(() => {
-    if (isClient && isAdmin) {
-      const regularSalesData = localStorage.getItem(SALES_HISTORY_LOCAL_STORAGE_KEY);
-      const wholesaleSalesData = localStorage.getItem(WHOLESALE_SALES_HISTORY_LOCAL_STORAGE_KEY);
-      
-      let allSales: SaleRecord[] = [];
-      if (regularSalesData) {
-        try { allSales = allSales.concat(JSON.parse(regularSalesData)); }
-        catch (e) { console.error("Error al analizar ventas regulares:", e); }
-      }
-      if (wholesaleSalesData) {
-        try { allSales = allSales.concat(JSON.parse(wholesaleSalesData)); }
-        catch (e) { console.error("Error al analizar ventas mayoristas:", e); }
-      }
-      
-      const todaySales = allSales.filter(sale => {
-        const saleDate = new Date(sale.dateTime);
-        return isValid(saleDate) && isToday(saleDate);
-      });
+    // Solo cuentan las ventas y devoluciones de los PDV a los que el usuario tiene acceso.
+    const todaySales = [...todayRegularSales, ...todayWholesaleSales].filter(s => can('view_caja', s.pointOfSale));
+    const todayReturns = todaySaleReturns.filter(r => can('view_caja', r.pointOfSale));
+    // Las ventas con pago dividido aportan a cada método solo su parte.
+    const salesTotal = (method: PaymentMethod) => todaySales.reduce((sum, s) => sum + getSalePaymentAmount(s, method), 0);
+    const refundsTotal = (method: PaymentMethod) => todayReturns.filter(r => r.refundMethod === method).reduce((sum, r) => sum + r.totalAmount, 0);
+    const refunds = { cash: refundsTotal('cash'), card: refundsTotal('card'), transfer: refundsTotal('transfer') };
+    setDailyRefunds(refunds);
+    setDailyCashIncome(salesTotal('cash') - refunds.cash);
+    setDailyCardIncome(salesTotal('card') - refunds.card);
+    setDailyTransferIncome(salesTotal('transfer') - refunds.transfer);
+  }, [todayRegularSales, todayWholesaleSales, todaySaleReturns, can]);
 
-      setDailyCashIncome(todaySales.filter(s => s.paymentMethod === 'cash').reduce((sum, s) => sum + s.totalAmount, 0));
-      setDailyCardIncome(todaySales.filter(s => s.paymentMethod === 'card').reduce((sum, s) => sum + s.totalAmount, 0));
-      setDailyTransferIncome(todaySales.filter(s => s.paymentMethod === 'transfer').reduce((sum, s) => sum + s.totalAmount, 0));
-      
-      const invoicesData = localStorage.getItem(INVOICES_LOCAL_STORAGE_KEY);
-      let allInvoices: InvoiceRecord[] = [];
-      if (invoicesData) {
-        try { allInvoices = JSON.parse(invoicesData); }
-        catch (e) { console.error("Error al analizar facturas:", e); }
-      }
+  useEffect(() => {
+    if (salesHistoryError) {
+      toast({ variant: "destructive", title: "Error al Cargar Ventas", description: salesHistoryError });
+    }
+  }, [salesHistoryError, toast]);
+
+  useEffect(() => {
+    if (isClient) {
+      const allInvoices = parseStoredInvoices(localStorage.getItem(INVOICES_LOCAL_STORAGE_KEY));
 
       const now = new Date();
       const firstDay = startOfMonth(now);
@@ -175,7 +142,7 @@ export default function CajaPage(): JSX.Element {
       });
       setMonthlyExpensesFromInvoices(currentMonthInvoices.reduce((sum, inv) => sum + inv.totalAmount, 0));
     }
-  }, [isClient, isAdmin]);
+  }, [isClient]);
 
   useEffect(() => {
     setTotalDailySalesIncome(dailyCashIncome + dailyCardIncome + dailyTransferIncome);
@@ -190,19 +157,35 @@ export default function CajaPage(): JSX.Element {
   const currentMonthYearFormatted = isClient ? format(new Date(), "MMMM 'de' yyyy", { locale: es }) : "Cargando mes...";
 
   const handleSaveSettings = useCallback(() => {
-    if (!isAdmin) return;
     const settingsToSave: CajaSettings = {
       saldoInicial,
       egresosDiarios,
       fixedExpenses: fixedExpenses.map(exp => ({...exp, amount: Number(exp.amount) || 0}))
     };
+    const previousSettings = localStorage.getItem(CAJA_SETTINGS_LOCAL_STORAGE_KEY);
     localStorage.setItem(CAJA_SETTINGS_LOCAL_STORAGE_KEY, JSON.stringify(settingsToSave));
+    // Los ajustes viven en el navegador; el cambio se anota aparte en el registro de auditoría.
+    let before: CajaSettings | null = null;
+    try {
+      before = previousSettings ? JSON.parse(previousSettings) : null;
+    } catch {
+      before = null;
+    }
+    recordAuditEvent({ action: 'caja_settings.update', entityId: CAJA_SETTINGS_LOCAL_STORAGE_KEY, before, after: settingsToSave })
+      .catch((error: any) => {
+        console.error("Error al registrar los ajustes de caja en la auditoría:", error);
+        toast({
+          variant: "destructive",
+          title: "Auditoría no Registrada",
+          description: error.message || "Los ajustes se guardaron, pero no se pudieron anotar en el registro de auditoría.",
+        });
+      });
     toast({
       title: "Ajustes Guardados",
       description: "Los ajustes de la caja han sido guardados exitosamente.",
     });
     setIsEditingSettings(false);
-  }, [isAdmin, saldoInicial, egresosDiarios, fixedExpenses, toast, setIsEditingSettings]);
+  }, [saldoInicial, egresosDiarios, fixedExpenses, toast, setIsEditingSettings]);
 
   const handleCancelEdit = useCallback(() => {
     loadSettings(); 
@@ -253,7 +236,7 @@ export default function CajaPage(): JSX.Element {
   }, [setFixedExpenses]);
 
 
-  if (authIsLoading || !isClient || !isAdmin) {
+  if (authIsLoading || !isClient) {
     return (
       <div className="flex items-center justify-center h-screen">
         <p>Cargando o verificando acceso...</p>
@@ -269,7 +252,7 @@ export default function CajaPage(): JSX.Element {
       </div>
       <p className="text-muted-foreground">
         Administra la apertura, cierre, movimientos y arqueo de tu caja diaria. Visualiza resúmenes de ingresos y gastos.
-        {isAdmin && " Puedes editar los valores base para los cálculos."}
+        Puedes editar los valores base para los cálculos.
       </p>
 
       <Card className="shadow-md border border-border/60">
@@ -298,7 +281,7 @@ export default function CajaPage(): JSX.Element {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div>
                   <p className="text-sm text-muted-foreground">Saldo Inicial</p>
-                  {isAdmin && isEditingSettings ? (
+                  {isEditingSettings ? (
                     <Input 
                       type="number" 
                       value={saldoInicial} 
@@ -311,7 +294,7 @@ export default function CajaPage(): JSX.Element {
                 </div>
                 <div>
                   <p className="text-sm text-muted-foreground">Egresos del Día (Estimado)</p>
-                  {isAdmin && isEditingSettings ? (
+                  {isEditingSettings ? (
                      <Input 
                        type="number" 
                        value={egresosDiarios} 
@@ -331,21 +314,30 @@ export default function CajaPage(): JSX.Element {
                         <Banknote className="h-6 w-6 text-green-600 mb-1" />
                         <p className="text-xs text-muted-foreground">Efectivo</p>
                         <p className="text-lg font-semibold text-green-600">${dailyCashIncome.toLocaleString('es-CL')}</p>
+                        {dailyRefunds.cash > 0 && (
+                          <p className="text-xs text-red-600">Devoluciones: -${dailyRefunds.cash.toLocaleString('es-CL')}</p>
+                        )}
                     </div>
                     <div className="flex flex-col items-center p-3 bg-accent/50 rounded-lg">
                         <CreditCard className="h-6 w-6 text-green-600 mb-1" />
                         <p className="text-xs text-muted-foreground">Tarjeta</p>
                         <p className="text-lg font-semibold text-green-600">${dailyCardIncome.toLocaleString('es-CL')}</p>
+                        {dailyRefunds.card > 0 && (
+                          <p className="text-xs text-red-600">Devoluciones: -${dailyRefunds.card.toLocaleString('es-CL')}</p>
+                        )}
                     </div>
                     <div className="flex flex-col items-center p-3 bg-accent/50 rounded-lg">
                         <ArrowRightLeft className="h-6 w-6 text-green-600 mb-1" />
                         <p className="text-xs text-muted-foreground">Transferencia</p>
                         <p className="text-lg font-semibold text-green-600">${dailyTransferIncome.toLocaleString('es-CL')}</p>
+                        {dailyRefunds.transfer > 0 && (
+                          <p className="text-xs text-red-600">Devoluciones: -${dailyRefunds.transfer.toLocaleString('es-CL')}</p>
+                        )}
                     </div>
                 </div>
               </div>
               <div className="col-span-2 md:col-span-3 flex flex-col items-center border-t pt-4 mt-4">
-                <p className="text-sm text-muted-foreground">Total Ingresos por Ventas (Hoy)</p>
+                <p className="text-sm text-muted-foreground">Total Ingresos por Ventas (Hoy, neto de devoluciones)</p>
                 <p className="text-xl font-semibold text-green-600">${totalDailySalesIncome.toLocaleString('es-CL')}</p>
               </div>
               
@@ -394,15 +386,14 @@ export default function CajaPage(): JSX.Element {
           <CardTitle className="flex items-center"><FileTextIcon className="mr-3 h-6 w-6 text-primary" />Detalle de Gastos Fijos Mensuales</CardTitle>
            <CardDescription className="flex items-center">
             <CalendarDays className="mr-2 h-4 w-4 text-muted-foreground" /> {currentMonthYearFormatted} 
-            {isAdmin && !isEditingSettings && " (Haz clic en 'Editar Ajustes' para modificar)"}
-            {isAdmin && isEditingSettings && " (Modo Edición Activo)"}
-            {!isAdmin && " (Valores Estimados)"}
+            {!isEditingSettings && " (Haz clic en 'Editar Ajustes' para modificar)"}
+            {isEditingSettings && " (Modo Edición Activo)"}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           {fixedExpenses.map((expense) => (
             <div key={expense.id} className="flex items-center justify-between p-3 bg-accent/30 rounded-lg">
-              {isEditingSettings && isAdmin ? (
+              {isEditingSettings ? (
                 <>
                   <Input
                     type="text"
@@ -433,7 +424,7 @@ export default function CajaPage(): JSX.Element {
             </div>
           ))}
 
-          {isEditingSettings && isAdmin && (
+          {isEditingSettings && (
             <Button variant="outline" onClick={handleAddFixedExpense} className="w-full mt-4">
               <PlusCircle className="mr-2 h-4 w-4" />
               Añadir Gasto Fijo
@@ -441,31 +432,29 @@ export default function CajaPage(): JSX.Element {
           )}
           
           <div className="pt-4 text-center border-t mt-4">
-            <p className="text-sm text-muted-foreground">Total Gastos Fijos {isAdmin && isEditingSettings ? "Editables" : "Estimados"}</p>
+            <p className="text-sm text-muted-foreground">Total Gastos Fijos {isEditingSettings ? "Editables" : "Estimados"}</p>
             <p className="text-2xl font-bold text-destructive mt-1">-${totalGastosFijos.toLocaleString('es-CL')}</p>
           </div>
 
-          {isAdmin && (
-            <div className="flex flex-col sm:flex-row justify-end gap-3 mt-6">
-              {!isEditingSettings ? (
-                <Button onClick={() => setIsEditingSettings(true)}>
-                  <Edit className="mr-2 h-4 w-4" />
-                  Editar Ajustes de Caja
+          <div className="flex flex-col sm:flex-row justify-end gap-3 mt-6">
+            {!isEditingSettings ? (
+              <Button onClick={() => setIsEditingSettings(true)}>
+                <Edit className="mr-2 h-4 w-4" />
+                Editar Ajustes de Caja
+              </Button>
+            ) : (
+              <>
+                <Button onClick={handleSaveSettings}>
+                  <Save className="mr-2 h-4 w-4" />
+                  Guardar Cambios
                 </Button>
-              ) : (
-                <>
-                  <Button onClick={handleSaveSettings}>
-                    <Save className="mr-2 h-4 w-4" />
-                    Guardar Cambios
-                  </Button>
-                  <Button variant="outline" onClick={handleCancelEdit}>
-                    <XCircle className="mr-2 h-4 w-4" />
-                    Cancelar Edición
-                  </Button>
-                </>
-              )}
-            </div>
-          )}
+                <Button variant="outline" onClick={handleCancelEdit}>
+                  <XCircle className="mr-2 h-4 w-4" />
+                  Cancelar Edición
+                </Button>
+              </>
+            )}
+          </div>
         </CardContent>
       </Card>
 
@@ -0,0 +1,232 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableCaption } from "@/components/ui/table";
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowLeft, Contact, Edit } from 'lucide-react';
+import CustomerFormDialog from '@/components/customers/CustomerFormDialog';
+import { useToast } from "@/hooks/use-toast";
+import * as api from '@/lib/api';
+import { formatSalePayments, getSaleKindLabel, type Customer, type SaleKind, type SaleRecord } from '@/lib/domain';
+
+/** Una venta del cliente con el historial del que proviene. */
+interface CustomerSale {
+  kind: SaleKind;
+  sale: SaleRecord;
+}
+
+/**
+ * Ficha de un cliente: sus datos de contacto y todas sus compras minoristas y mayoristas, que se piden a los
+ * endpoints de historial filtradas por `customerId`. Solo accesible con la capacidad `manage_customers`.
+ *
+ * @returns {JSX.Element} La interfaz de usuario de la ficha del cliente.
+ */
+export default function CustomerDetailPage(): JSX.Element {
+  const { toast } = useToast();
+  const params = useParams<{ id: string }>();
+  const customerId = params?.id ?? '';
+
+  const [isClient, setIsClient] = useState(false);
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [customerSales, setCustomerSales] = useState<CustomerSale[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  /**
+   * Carga el cliente y sus ventas de ambos historiales, de la más reciente a la más antigua.
+   */
+  const fetchCustomerData = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [customers, retailSales, wholesaleSales] = await Promise.all([
+        api.getCustomers(),
+        api.getAllSalesHistory({ customerId }),
+        api.getAllWholesaleSalesHistory({ customerId }),
+      ]);
+      setCustomer(customers.find(c => c.id === customerId) ?? null);
+      setCustomerSales([
+        ...retailSales.map((sale): CustomerSale => ({ kind: 'retail', sale })),
+        ...wholesaleSales.map((sale): CustomerSale => ({ kind: 'wholesale', sale })),
+      ].sort((a, b) => b.sale.dateTime.getTime() - a.sale.dateTime.getTime()));
+    } catch (error: any) {
+      console.error("Error al cargar la ficha del cliente:", error);
+      toast({ variant: "destructive", title: "Error al Cargar Cliente", description: error.message || "No se pudieron obtener los datos del cliente." });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customerId, toast]);
+
+  useEffect(() => {
+    if (isClient && customerId) {
+      fetchCustomerData();
+    }
+  }, [isClient, customerId, fetchCustomerData]);
+
+  const totals = useMemo(() => ({
+    retail: customerSales.filter(s => s.kind === 'retail').reduce((sum, s) => sum + s.sale.totalAmount, 0),
+    wholesale: customerSales.filter(s => s.kind === 'wholesale').reduce((sum, s) => sum + s.sale.totalAmount, 0),
+  }), [customerSales]);
+
+  const handleCustomerSaved = useCallback((savedCustomer: Customer) => {
+    setCustomer(savedCustomer);
+    setIsFormOpen(false);
+  }, []);
+
+  if (!isClient || isLoading) {
+    return (
+      <div className="space-y-8">
+        <Skeleton className="h-10 w-1/3 mb-6" />
+        <Skeleton className="h-40 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <div className="space-y-8">
+        <h1 className="text-3xl font-bold text-foreground mb-6">Cliente</h1>
+        <Card className="w-full text-center shadow-md border border-border/60">
+          <CardHeader>
+            <Contact className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <CardTitle>Cliente no Encontrado</CardTitle>
+            <CardDescription>No existe ningún cliente con el ID "{customerId}".</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" asChild>
+              <Link href="/customers"><ArrowLeft className="mr-2 h-4 w-4" /> Volver al Directorio</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const lastSale = customerSales[0]?.sale;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-foreground">{customer.name}</h1>
+        <Button variant="outline" asChild>
+          <Link href="/customers"><ArrowLeft className="mr-2 h-4 w-4" /> Directorio</Link>
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card className="shadow-md border border-border/60">
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center"><Contact className="mr-2 h-6 w-6 text-primary" />Datos del Cliente</CardTitle>
+                <CardDescription>Los recibos conservan el nombre e ID fiscal que tenía el cliente al comprar.</CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => setIsFormOpen(true)}>
+                <Edit className="mr-1 h-4 w-4" /> Editar
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+              <dt className="text-muted-foreground">ID Fiscal</dt><dd>{customer.taxId || '—'}</dd>
+              <dt className="text-muted-foreground">Teléfono</dt><dd>{customer.phone || '—'}</dd>
+              <dt className="text-muted-foreground">Correo</dt><dd>{customer.email || '—'}</dd>
+              <dt className="text-muted-foreground">Dirección</dt><dd>{customer.address || '—'}</dd>
+              <dt className="text-muted-foreground">Notas</dt><dd className="whitespace-pre-line">{customer.notes || '—'}</dd>
+            </dl>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-md border border-border/60">
+          <CardHeader>
+            <CardTitle>Resumen de Compras</CardTitle>
+            <CardDescription>Importes netos de promociones y descuentos, sin restar devoluciones.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+              <dt className="text-muted-foreground">Compras</dt><dd>{customerSales.length}</dd>
+              <dt className="text-muted-foreground">Total Minorista</dt><dd>${totals.retail.toFixed(3)}</dd>
+              <dt className="text-muted-foreground">Total Mayorista</dt><dd>${totals.wholesale.toFixed(3)}</dd>
+              <dt className="text-muted-foreground font-semibold">Total</dt><dd className="font-semibold">${(totals.retail + totals.wholesale).toFixed(3)}</dd>
+              <dt className="text-muted-foreground">Última Compra</dt>
+              <dd>{lastSale ? format(lastSale.dateTime, "d MMM, yyyy h:mm a", { locale: es }) : '—'}</dd>
+            </dl>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="shadow-md border border-border/60">
+        <CardHeader>
+          <CardTitle>Historial de Compras</CardTitle>
+          <CardDescription>Ventas minoristas y mayoristas asociadas al cliente, de la más reciente a la más antigua.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableCaption>{customerSales.length} venta(s).</TableCaption>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[180px]">Fecha y Hora</TableHead>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead>PDV</TableHead>
+                  <TableHead>Ítems Vendidos</TableHead>
+                  <TableHead>Pago</TableHead>
+                  <TableHead className="text-right w-[120px]">Monto Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {customerSales.length > 0 ? customerSales.map(({ kind, sale }) => (
+                  <TableRow key={sale.id}>
+                    <TableCell className="font-medium whitespace-nowrap text-sm">
+                      {format(sale.dateTime, "d MMM, yyyy h:mm a", { locale: es })}
+                      <div className="text-xs text-muted-foreground">N° {sale.id.slice(-6)}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={kind === 'wholesale' ? 'default' : 'secondary'}>{getSaleKindLabel(kind)}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{sale.pointOfSale}</TableCell>
+                    <TableCell>
+                      <ul className="list-none space-y-1">
+                        {sale.items.map((item, idx) => (
+                          <li key={`${sale.id}-item-${idx}-${item.barcode}`} className="text-xs">
+                            {item.productName} ({item.brandName}) - Cant: {item.quantity} @ ${item.price.toFixed(3)}
+                          </li>
+                        ))}
+                      </ul>
+                    </TableCell>
+                    <TableCell className="text-sm">{formatSalePayments(sale)}</TableCell>
+                    <TableCell className="text-right font-semibold text-sm">${sale.totalAmount.toFixed(3)}</TableCell>
+                  </TableRow>
+                )) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground py-6">
+                      El cliente aún no tiene compras registradas.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <CustomerFormDialog
+        open={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        onSaved={handleCustomerSaved}
+        customer={customer}
+      />
+    </div>
+  );
+}
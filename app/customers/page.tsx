@@ -0,0 +1,189 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableCaption } from "@/components/ui/table";
+import { Skeleton } from '@/components/ui/skeleton';
+import { Contact, Edit, History, PlusCircle, Search } from 'lucide-react';
+import CustomerFormDialog from '@/components/customers/CustomerFormDialog';
+import { useToast } from "@/hooks/use-toast";
+import * as api from '@/lib/api';
+import { matchesCustomerSearch, type Customer } from '@/lib/domain';
+
+/**
+ * Página del directorio de clientes: búsqueda mientras se escribe, alta y edición de clientes y acceso a la ficha
+ * de cada uno con sus compras. Los cajeros también pueden registrar clientes desde la caja.
+ * Solo accesible con la capacidad `manage_customers` (ver `ROUTE_PERMISSIONS`).
+ *
+ * @returns {JSX.Element} La interfaz de usuario del directorio de clientes.
+ */
+export default function CustomersPage(): JSX.Element {
+  const { toast } = useToast();
+
+  const [isClient, setIsClient] = useState(false);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [isLoadingCustomers, setIsLoadingCustomers] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  /**
+   * Carga el directorio de clientes desde el backend.
+   */
+  const fetchCustomers = useCallback(async () => {
+    setIsLoadingCustomers(true);
+    try {
+      setCustomers(await api.getCustomers());
+    } catch (error: any) {
+      console.error("Error al cargar los clientes:", error);
+      toast({ variant: "destructive", title: "Error al Cargar Clientes", description: error.message || "No se pudo obtener el directorio de clientes." });
+    } finally {
+      setIsLoadingCustomers(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (isClient) {
+      fetchCustomers();
+    }
+  }, [isClient, fetchCustomers]);
+
+  const filteredCustomers = useMemo(
+    () => customers.filter(customer => matchesCustomerSearch(customer, searchQuery)),
+    [customers, searchQuery]
+  );
+
+  const handleOpenNew = useCallback(() => {
+    setEditingCustomer(null);
+    setIsFormOpen(true);
+  }, []);
+
+  const handleEditCustomer = useCallback((customer: Customer) => {
+    setEditingCustomer(customer);
+    setIsFormOpen(true);
+  }, []);
+
+  const handleCloseForm = useCallback(() => {
+    setIsFormOpen(false);
+    setEditingCustomer(null);
+  }, []);
+
+  /**
+   * Sustituye un cliente de la lista por su versión guardada, o lo añade si es nuevo, manteniendo el orden por nombre.
+   * @param {Customer} savedCustomer - El cliente devuelto por el backend.
+   */
+  const handleCustomerSaved = useCallback((savedCustomer: Customer) => {
+    setCustomers(prev => [...prev.filter(c => c.id !== savedCustomer.id), savedCustomer].sort((a, b) => a.name.localeCompare(b.name, 'es')));
+    handleCloseForm();
+  }, [handleCloseForm]);
+
+  if (!isClient) {
+    return (
+      <div className="space-y-8">
+        <Skeleton className="h-10 w-1/3 mb-6" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-foreground">Clientes</h1>
+        <Contact className="h-8 w-8 text-primary" />
+      </div>
+      <p className="text-muted-foreground">
+        Los clientes se pueden asociar a las ventas desde la caja. Su ID fiscal se imprime en el recibo y cada ficha
+        reúne sus compras minoristas y mayoristas.
+      </p>
+
+      <Card className="shadow-md border border-border/60">
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <div>
+              <CardTitle>Directorio de Clientes</CardTitle>
+              <CardDescription>Busca por nombre, ID fiscal, teléfono o correo electrónico.</CardDescription>
+            </div>
+            <div className="flex flex-wrap gap-2 items-center">
+              <div className="relative w-[260px]">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+                <Input
+                  placeholder="Buscar cliente..."
+                  value={searchQuery}
+                  onChange={e => setSearchQuery(e.target.value)}
+                  className="pl-10"
+                  autoComplete="off"
+                />
+              </div>
+              <Button onClick={handleOpenNew}>
+                <PlusCircle className="mr-2 h-4 w-4" /> Nuevo Cliente
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoadingCustomers ? (
+            <Skeleton className="h-48 w-full" />
+          ) : (
+            <Table>
+              <TableCaption>
+                {searchQuery.trim()
+                  ? `${filteredCustomers.length} de ${customers.length} cliente(s).`
+                  : `${customers.length} cliente(s) registrado(s).`}
+              </TableCaption>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nombre</TableHead>
+                  <TableHead>ID Fiscal</TableHead>
+                  <TableHead>Teléfono</TableHead>
+                  <TableHead>Correo Electrónico</TableHead>
+                  <TableHead className="text-right">Acciones</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredCustomers.length > 0 ? filteredCustomers.map(customer => (
+                  <TableRow key={customer.id}>
+                    <TableCell className="font-medium">{customer.name}</TableCell>
+                    <TableCell>{customer.taxId || '—'}</TableCell>
+                    <TableCell>{customer.phone || '—'}</TableCell>
+                    <TableCell>{customer.email || '—'}</TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button variant="outline" size="sm" asChild>
+                        <Link href={`/customers/${customer.id}`}>
+                          <History className="mr-1 h-4 w-4" /> Compras
+                        </Link>
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleEditCustomer(customer)}>
+                        <Edit className="mr-1 h-4 w-4" /> Editar
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                )) : (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
+                      {searchQuery.trim() ? `Ningún cliente coincide con "${searchQuery.trim()}".` : 'Aún no hay clientes registrados.'}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <CustomerFormDialog
+        open={isFormOpen}
+        onClose={handleCloseForm}
+        onSaved={handleCustomerSaved}
+        customer={editingCustomer}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+import Forbidden from '@/components/layout/Forbidden';
+
+/**
+ * Página de acceso denegado. El middleware reescribe aquí (con estado 403) las peticiones a páginas
+ * cuya capacidad no tiene el rol del usuario, de modo que la página protegida nunca llega a enviarse.
+ *
+ * @returns {JSX.Element} La vista 403.
+ */
+export default function ForbiddenPage(): JSX.Element {
+  return <Forbidden />;
+}
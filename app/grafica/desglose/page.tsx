@@ -8,7 +8,7 @@ import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/
 import { LayersIcon, PackageSearchIcon, CalendarDaysIcon, BarChartIcon, XCircle } from 'lucide-react';
 import Image from 'next/image';
 import { MonthPicker } from "@/components/MonthPicker";
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, parseISO, isValid, subMonths } from 'date-fns';
+import { format, startOfMonth, endOfMonth, endOfDay, eachDayOfInterval, parseISO, isValid, subMonths } from 'date-fns';
 import { es } from 'date-fns/locale';
 import type { DateRange } from "react-day-picker";
 import { useInventoryContext, type Product as InventoryProduct, type InventoryData } from '@/context/InventoryContext';
@@ -17,29 +17,10 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { useSalesHistory } from '@/hooks/useSalesHistory';
 
 const placeholderSvg = "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTAiIGhlaWdodD0iNTAiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PHJlY3Qgd2lkdGg9IjEwMCUiIGhlaWdodD0iMTAwJSIgZmlsbD0iI2VlZSIvPjx0ZXh0IHg9IjUwJSIgeT0iNTAlIiBkb21pbmFudC1iYXNlbGluZT1taWRkbGUiIHRleHQtYW5jaG9yPSJtaWRkbGUiIGZpbGw9IiNhYWEiPk5vIEltYWdlPC90ZXh0Pjwvc3ZnPg==";
 
-interface SaleRecordItem {
-  barcode: string;
-  productName: string;
-  brandName: string;
-  quantity: number;
-  price: number;
-}
-
-interface SaleRecord {
-  id: string;
-  dateTime: Date;
-  pointOfSale: string;
-  items: SaleRecordItem[];
-  paymentMethod: "cash" | "card" | "transfer";
-  totalAmount: number;
-}
-
-const SALES_HISTORY_LOCAL_STORAGE_KEY = 'salesHistory';
-const WHOLESALE_SALES_HISTORY_LOCAL_STORAGE_KEY = 'wholesaleSalesHistory';
-
 interface ProductSalesMatrixRow {
   barcode: string;
   productName: string;
@@ -75,8 +56,14 @@ export default function DesgloseVentasPage(): JSX.Element {
     return { from: startOfMonth(now), to: endOfMonth(now) };
   });
 
-  const [allSalesData, setAllSalesData] = useState<SaleRecord[]>([]);
-  const [allWholesaleSalesData, setAllWholesaleSalesData] = useState<SaleRecord[]>([]);
+  // Solo se piden al backend las ventas del mes seleccionado.
+  const salesHistoryFrom = selectedMonthDateRange?.from ?? null;
+  const salesHistoryTo = selectedMonthDateRange?.from ? endOfDay(selectedMonthDateRange.to || selectedMonthDateRange.from) : null;
+  const { sales: allSalesData, wholesaleSales: allWholesaleSalesData } = useSalesHistory({
+    from: salesHistoryFrom,
+    to: salesHistoryTo,
+    enabled: isClient && !!salesHistoryFrom,
+  });
   const [productSalesMatrixByBrand, setProductSalesMatrixByBrand] = useState<GroupedProductSalesMatrix>({});
   const [brandsForAccordion, setBrandsForAccordion] = useState<string[]>([]);
 
@@ -88,19 +75,6 @@ export default function DesgloseVentasPage(): JSX.Element {
     setIsClient(true);
   }, []);
 
-  useEffect(() => {
-    if (isClient) {
-      const regularSalesRaw = localStorage.getItem(SALES_HISTORY_LOCAL_STORAGE_KEY);
-      const wholesaleSalesRaw = localStorage.getItem(WHOLESALE_SALES_HISTORY_LOCAL_STORAGE_KEY);
-      try {
-        setAllSalesData(regularSalesRaw ? JSON.parse(regularSalesRaw).map((s: SaleRecord) => ({ ...s, dateTime: new Date(s.dateTime) })) : []);
-      } catch (e) { console.error("Error al analizar ventas regulares para desglose:", e); setAllSalesData([]); }
-      try {
-        setAllWholesaleSalesData(wholesaleSalesRaw ? JSON.parse(wholesaleSalesRaw).map((s: SaleRecord) => ({ ...s, dateTime: new Date(s.dateTime) })) : []);
-      } catch (e) { console.error("Error al analizar ventas mayoristas para desglose:", e); setAllWholesaleSalesData([]); }
-    }
-  }, [isClient]);
-
   useEffect(() => {
     if (!selectedMonthDateRange?.from || !isClient || !isInventoryLoaded || Object.keys(inventory).length === 0) {
       setProductSalesMatrixByBrand({});
@@ -3,7 +3,7 @@
 
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { BarChart as BarChartIcon, CalendarIcon, PackageIcon, ShoppingCart, ReceiptText, LayersIcon, ExternalLinkIcon, Barcode, XCircle } from 'lucide-react';
+import { BarChart as BarChartIcon, CalendarIcon, PackageIcon, ShoppingCart, ReceiptText, LayersIcon, ExternalLinkIcon, Barcode, XCircle, Percent } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { MonthPicker } from "@/components/MonthPicker";
 import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Cell } from 'recharts'; // Importar Cell
@@ -15,36 +15,10 @@ import { useAuth } from '@/context/AuthContext';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
 import Link from 'next/link';
+import { useSalesHistory } from '@/hooks/useSalesHistory';
+import { getDiscountReasonLabel, INVOICES_LOCAL_STORAGE_KEY, parseStoredInvoices, type DiscountReason, type InvoiceRecord } from '@/lib/domain';
 
 
-// Interfaces
-interface SaleRecordItem {
-  barcode: string;
-  productName: string;
-  brandName: string;
-  quantity: number;
-  price: number;
-}
-
-interface SaleRecord {
-  id: string;
-  dateTime: Date;
-  pointOfSale: string;
-  items: SaleRecordItem[];
-  paymentMethod: "cash" | "card" | "transfer";
-  totalAmount: number;
-}
-
-interface InvoiceRecord {
-  id: string;
-  invoiceDate: string; // "YYYY-MM-DD"
-  supplierName?: string;
-  totalAmount: number;
-}
-
-const SALES_HISTORY_LOCAL_STORAGE_KEY = 'salesHistory';
-const WHOLESALE_SALES_HISTORY_LOCAL_STORAGE_KEY = 'wholesaleSalesHistory';
-const INVOICES_LOCAL_STORAGE_KEY = 'invoiceHistoryBeautyApp';
 
 interface ProductForSelector extends InventoryProduct {
   uniqueId: string; // ID único para el selector, usualmente el código de barras
@@ -60,6 +34,12 @@ interface MonthlySummaryDataPoint {
   name: string; // Nombre del mes (ej: "Ene 23")
   totalVentas?: number; // Ventas totales para gráficos de ventas
   totalGastos?: number; // Gastos totales para gráficos de gastos
+  totalDescuentos?: number; // Descuentos otorgados para gráficos de descuentos
+}
+
+interface DiscountReasonDataPoint {
+  reason: string; // Etiqueta del motivo de descuento
+  total: number; // Importe descontado con ese motivo
 }
 
 // Paleta de colores para el gráfico de arcoíris
@@ -94,9 +74,20 @@ export default function GraficaPage(): JSX.Element {
 
   const [monthlySalesChartData, setMonthlySalesChartData] = useState<MonthlySummaryDataPoint[]>([]);
   const [monthlyExpensesChartData, setMonthlyExpensesChartData] = useState<MonthlySummaryDataPoint[]>([]);
+  const [monthlyDiscountsChartData, setMonthlyDiscountsChartData] = useState<MonthlySummaryDataPoint[]>([]);
+  const [discountsByReasonChartData, setDiscountsByReasonChartData] = useState<DiscountReasonDataPoint[]>([]);
 
-  const [allSalesData, setAllSalesData] = useState<SaleRecord[]>([]);
-  const [allWholesaleSalesData, setAllWholesaleSalesData] = useState<SaleRecord[]>([]);
+  // Las ventas se piden al backend desde el inicio del resumen de 12 meses
+  // (o desde el inicio del rango del gráfico de producto, si es anterior).
+  const salesHistoryFrom = useMemo(() => {
+    const twelveMonthsAgo = startOfMonth(subMonths(new Date(), 11));
+    const productChartFrom = productChartDateRange?.from;
+    return productChartFrom && productChartFrom < twelveMonthsAgo ? productChartFrom : twelveMonthsAgo;
+  }, [productChartDateRange]);
+  const { sales: allSalesData, wholesaleSales: allWholesaleSalesData } = useSalesHistory({
+    from: salesHistoryFrom,
+    enabled: isClient,
+  });
   const [allInvoicesData, setAllInvoicesData] = useState<InvoiceRecord[]>([]);
 
   // Estados para el desglose de ventas diarias del mes seleccionado
@@ -136,21 +127,7 @@ export default function GraficaPage(): JSX.Element {
 
   useEffect(() => {
     if (isClient) {
-      const regularSalesRaw = localStorage.getItem(SALES_HISTORY_LOCAL_STORAGE_KEY);
-      const wholesaleSalesRaw = localStorage.getItem(WHOLESALE_SALES_HISTORY_LOCAL_STORAGE_KEY);
-      const invoicesRaw = localStorage.getItem(INVOICES_LOCAL_STORAGE_KEY);
-
-      try {
-        setAllSalesData(regularSalesRaw ? JSON.parse(regularSalesRaw).map((s: SaleRecord) => ({...s, dateTime: new Date(s.dateTime)})) : []);
-      } catch (e) { console.error("Error al analizar ventas regulares para gráficos:", e); setAllSalesData([]); }
-
-      try {
-        setAllWholesaleSalesData(wholesaleSalesRaw ? JSON.parse(wholesaleSalesRaw).map((s: SaleRecord) => ({...s, dateTime: new Date(s.dateTime)})) : []);
-      } catch (e) { console.error("Error al analizar ventas mayoristas para gráficos:", e); setAllWholesaleSalesData([]); }
-
-      try {
-        setAllInvoicesData(invoicesRaw ? JSON.parse(invoicesRaw) : []);
-      } catch (e) { console.error("Error al analizar facturas para gráficos:", e); setAllInvoicesData([]); }
+      setAllInvoicesData(parseStoredInvoices(localStorage.getItem(INVOICES_LOCAL_STORAGE_KEY)));
     }
   }, [isClient]);
 
@@ -230,6 +207,45 @@ export default function GraficaPage(): JSX.Element {
     setMonthlySalesChartData(data);
   }, [allSalesData, allWholesaleSalesData, isClient]);
 
+  // Efecto para calcular los descuentos otorgados por mes y por motivo (de línea y de carrito) en los últimos 12 meses
+  useEffect(() => {
+    if (!isClient || (allSalesData.length === 0 && allWholesaleSalesData.length === 0)) {
+      setMonthlyDiscountsChartData([]);
+      setDiscountsByReasonChartData([]);
+      return;
+    }
+    const combinedSales = [...allSalesData, ...allWholesaleSalesData];
+    const twelveMonthsAgo = startOfMonth(subMonths(new Date(), 11));
+    const currentMonthStart = startOfMonth(new Date());
+    const monthsInterval = eachMonthOfInterval({ start: twelveMonthsAgo, end: currentMonthStart });
+    const totalsByReason = new Map<DiscountReason, number>();
+
+    const data: MonthlySummaryDataPoint[] = monthsInterval.map(monthStart => {
+      let totalDiscountsMonth = 0;
+      const monthEnd = endOfMonth(monthStart);
+
+      combinedSales.forEach(sale => {
+        const saleDate = new Date(sale.dateTime);
+        if (!isValid(saleDate) || saleDate < monthStart || saleDate > monthEnd) return;
+        const discounts = [...sale.items.map(item => item.discount), sale.cartDiscount];
+        discounts.forEach(discount => {
+          if (!discount || discount.amount <= 0) return;
+          totalDiscountsMonth += discount.amount;
+          totalsByReason.set(discount.reason, (totalsByReason.get(discount.reason) || 0) + discount.amount);
+        });
+      });
+      return {
+        name: format(monthStart, 'MMM yy', { locale: es }),
+        totalDescuentos: totalDiscountsMonth,
+      };
+    });
+    setMonthlyDiscountsChartData(data.some(point => (point.totalDescuentos || 0) > 0) ? data : []);
+    setDiscountsByReasonChartData(
+      Array.from(totalsByReason, ([reason, total]) => ({ reason: getDiscountReasonLabel(reason), total }))
+        .sort((a, b) => b.total - a.total)
+    );
+  }, [allSalesData, allWholesaleSalesData, isClient]);
+
   // Efecto para calcular los datos del gráfico de resumen de gastos mensuales
   useEffect(() => {
     if (!isClient || allInvoicesData.length === 0) {
@@ -513,6 +529,60 @@ export default function GraficaPage(): JSX.Element {
         </Card>
       )}
 
+      <Card className="shadow-md border border-border/60">
+        <CardHeader>
+          <CardTitle className="flex items-center"><Percent className="mr-3 h-6 w-6 text-primary" />Descuentos Otorgados (Últimos 12 Meses)</CardTitle>
+          <CardDescription>
+            Importe descontado en ventas (normales y por mayor), por mes y por motivo. Las ventas mensuales ya se muestran netas de descuentos.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {monthlyDiscountsChartData.length > 0 ? (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="h-[350px] bg-muted p-4 rounded-md">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={monthlyDiscountsChartData} margin={{ top: 5, right: 20, left: -20, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--grid-line))" />
+                    <XAxis dataKey="name" fontSize={12} tickLine={false} axisLine={false} />
+                    <YAxis fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => `$${(value / 1000).toLocaleString('es-CL')}k`} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: 'hsl(var(--background))', border: '1px solid hsl(var(--border))', borderRadius: 'var(--radius)'}}
+                      labelStyle={{ color: 'hsl(var(--foreground))', fontWeight: 'bold' }}
+                      formatter={(value: number) => [`$${value.toLocaleString('es-CL', {minimumFractionDigits: 0, maximumFractionDigits: 0})}`, "Total Descuentos"]}
+                    />
+                    <Legend wrapperStyle={{fontSize: "12px"}}/>
+                    <Bar dataKey="totalDescuentos" fill="hsl(var(--chart-5))" name="Descuentos Mensuales" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="h-[350px] bg-muted p-4 rounded-md">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={discountsByReasonChartData} layout="vertical" margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--grid-line))" />
+                    <XAxis type="number" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => `$${(value / 1000).toLocaleString('es-CL')}k`} />
+                    <YAxis type="category" dataKey="reason" width={110} fontSize={12} tickLine={false} axisLine={false} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: 'hsl(var(--background))', border: '1px solid hsl(var(--border))', borderRadius: 'var(--radius)'}}
+                      labelStyle={{ color: 'hsl(var(--foreground))', fontWeight: 'bold' }}
+                      formatter={(value: number) => [`$${value.toLocaleString('es-CL', {minimumFractionDigits: 0, maximumFractionDigits: 0})}`, "Descontado"]}
+                    />
+                    <Bar dataKey="total" name="Descuentos por Motivo" radius={[0, 4, 4, 0]}>
+                      {discountsByReasonChartData.map((entry, index) => (
+                        <Cell key={`reason-cell-${index}`} fill={rainbowColors[index % rainbowColors.length]} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center justify-center h-[120px] bg-muted rounded-md">
+              <p className="text-muted-foreground">No hay descuentos otorgados en los últimos 12 meses.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
        <Card className="shadow-md border border-border/60">
         <CardHeader>
           <CardTitle className="flex items-center"><ReceiptText className="mr-3 h-6 w-6 text-primary" />Resumen de Gastos Mensuales (Últimos 12 Meses)</CardTitle>
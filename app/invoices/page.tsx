@@ -4,7 +4,6 @@
 import React, { useState, useEffect, type ChangeEvent, useRef, useCallback } from 'react';
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
-import * as z from "zod";
 import { Button } from "@/components/ui/button";
 import {
   Form,
@@ -24,29 +23,9 @@ import { useToast } from "@/hooks/use-toast";
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 import Image from 'next/image';
+import { recordAuditEvent } from '@/lib/api';
+import { INVOICES_LOCAL_STORAGE_KEY, invoiceFormSchema, parseStoredInvoices, serializeInvoiceRecord, toInvoiceAuditValues, type InvoiceFormValues, type InvoiceRecord } from '@/lib/domain';
 
-// Esquema Zod para una factura
-const invoiceSchema = z.object({
-  invoiceNumber: z.string().min(1, "El número de factura es requerido."),
-  supplierName: z.string().min(1, "El nombre del proveedor/marca es requerido."),
-  invoiceDate: z.string().min(1, "La fecha de la factura es requerida.").regex(/^\d{4}-\d{2}-\d{2}$/, "Formato de fecha debe ser YYYY-MM-DD"),
-  dueDate: z.string().min(1, "La fecha de vencimiento es requerida.").regex(/^\d{4}-\d{2}-\d{2}$/, "Formato de fecha debe ser YYYY-MM-DD"),
-  totalAmount: z.coerce.number().positive("El monto total debe ser un número positivo."),
-  status: z.enum(["pendiente", "parcialmente_pagada", "pagada"], { required_error: "El estado es requerido." }),
-  pdfFileName: z.string().optional().describe("Nombre del archivo PDF de la factura (opcional)"),
-  paymentProofDataUrl: z.string().optional().describe("Prueba de pago como Data URI (opcional)"),
-  notes: z.string().optional(),
-});
-
-type InvoiceFormValues = z.infer<typeof invoiceSchema>;
-
-interface InvoiceRecord extends InvoiceFormValues {
-  id: string;
-  registrationDate: Date; 
-  lastModifiedDate?: Date; 
-}
-
-const INVOICES_LOCAL_STORAGE_KEY = 'invoiceHistoryBeautyApp';
 const placeholderSvg = "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTAiIGhlaWdodD0iNTAiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PHJlY3Qgd2lkdGg9IjEwMCUiIGhlaWdodD0iMTAwJSIgZmlsbD0iI2VlZSIvPjx0ZXh0IHg9IjUwJSIgeT0iNTAlIiBkb21pbmFudC1iYXNlbGluZT1taWRkbGUiIHRleHQtYW5jaG9yPSJtaWRkbGUiIGZpbGw9IiNhYWEiPk5vIEltYWdlPC90ZXh0Pjwvc3ZnPg==";
 
 
@@ -60,30 +39,17 @@ export default function InvoicesPage(): JSX.Element {
 
   useEffect(() => {
     setIsClient(true);
-    const storedInvoices = localStorage.getItem(INVOICES_LOCAL_STORAGE_KEY);
-    if (storedInvoices) {
-      try {
-        const parsedInvoices = JSON.parse(storedInvoices).map((inv: any) => ({
-          ...inv,
-          registrationDate: new Date(inv.registrationDate),
-          lastModifiedDate: inv.lastModifiedDate ? new Date(inv.lastModifiedDate) : undefined,
-        }));
-        setInvoices(parsedInvoices);
-      } catch (error) {
-        console.error("Error al cargar facturas desde localStorage:", error);
-        localStorage.removeItem(INVOICES_LOCAL_STORAGE_KEY);
-      }
-    }
+    setInvoices(parseStoredInvoices(localStorage.getItem(INVOICES_LOCAL_STORAGE_KEY)));
   }, []);
 
   useEffect(() => {
     if (isClient) {
-      localStorage.setItem(INVOICES_LOCAL_STORAGE_KEY, JSON.stringify(invoices));
+      localStorage.setItem(INVOICES_LOCAL_STORAGE_KEY, JSON.stringify(invoices.map(serializeInvoiceRecord)));
     }
   }, [invoices, isClient]);
 
   const form = useForm<InvoiceFormValues>({
-    resolver: zodResolver(invoiceSchema),
+    resolver: zodResolver(invoiceFormSchema),
     defaultValues: {
       invoiceNumber: "",
       supplierName: "",
@@ -145,6 +111,24 @@ export default function InvoicesPage(): JSX.Element {
     setPaymentProofPreview(null);
   }, [setEditingInvoiceId, form, setPaymentProofPreview]);
 
+  // Las facturas se guardan en el navegador; el alta o la edición se anota aparte en el registro de auditoría.
+  // Si falla, el cambio se conserva y solo se avisa.
+  const recordInvoiceAudit = useCallback((action: 'invoice.create' | 'invoice.update', before: InvoiceRecord | null, after: InvoiceRecord) => {
+    recordAuditEvent({
+      action,
+      entityId: after.id,
+      before: before ? toInvoiceAuditValues(before) : null,
+      after: toInvoiceAuditValues(after),
+    }).catch((error: any) => {
+      console.error("Error al registrar la factura en la auditoría:", error);
+      toast({
+        variant: "destructive",
+        title: "Auditoría no Registrada",
+        description: error.message || "El cambio se guardó, pero no se pudo anotar en el registro de auditoría.",
+      });
+    });
+  }, [toast]);
+
   const onSubmit = (data: InvoiceFormValues) => {
     const now = new Date();
     if (editingInvoiceId) {
@@ -169,13 +153,15 @@ export default function InvoicesPage(): JSX.Element {
       
       const updatedNotes = editNote + (data.notes || ""); 
 
+      const updatedInvoice: InvoiceRecord = { ...originalInvoice, ...data, notes: updatedNotes, lastModifiedDate: now };
       setInvoices(prev => 
         prev.map(inv => 
           inv.id === editingInvoiceId 
-            ? { ...inv, ...data, notes: updatedNotes, lastModifiedDate: now }
+            ? updatedInvoice
             : inv
         ).sort((a, b) => new Date(b.invoiceDate).getTime() - new Date(a.invoiceDate).getTime())
       );
+      recordInvoiceAudit('invoice.update', originalInvoice, updatedInvoice);
       toast({
         title: "Factura Actualizada",
         description: `Factura N° ${data.invoiceNumber} de ${data.supplierName} actualizada con éxito.`,
@@ -187,6 +173,7 @@ export default function InvoicesPage(): JSX.Element {
         ...data,
       };
       setInvoices(prev => [newInvoice, ...prev].sort((a, b) => new Date(b.invoiceDate).getTime() - new Date(a.invoiceDate).getTime()));
+      recordInvoiceAudit('invoice.create', null, newInvoice);
       toast({
         title: "Factura Registrada",
         description: `Factura N° ${data.invoiceNumber} de ${data.supplierName} registrada con éxito.`,
@@ -8,9 +8,17 @@ import Header from '@/components/layout/Header';
 import { Toaster } from "@/components/ui/toaster";
 import { InventoryProvider } from '@/context/InventoryContext';
 import { AuthProvider, useAuth } from '@/context/AuthContext';
+import Forbidden from '@/components/layout/Forbidden';
+import { LOGIN_ROUTE, getRouteCapability, isPublicRoute } from '@/lib/routePermissions';
 import { useRouter, usePathname } from 'next/navigation'; // Importar useRouter y usePathname
 import React, { useEffect } from 'react'; // Importar useEffect
 
+/**
+ * Intervalo (ms) con el que se recarga el inventario en segundo plano.
+ * Mantiene sincronizadas varias cajas que venden sobre el mismo stock.
+ */
+const INVENTORY_POLL_INTERVAL_MS = 30000;
+
 /**
  * Metadatos para la aplicación.
  * Nota: El objeto Metadata en sí mismo no puede ser dinámico en la exportación de un componente cliente.
@@ -24,33 +32,44 @@ import React, { useEffect } from 'react'; // Importar useEffect
 
 
 /**
- * El componente ProtectedRoutes maneja la redirección para usuarios no autenticados.
- * Verifica el estado de autenticación y redirige a la página de inicio de sesión si es necesario.
+ * El componente ProtectedRoutes aplica en el cliente el mapa de permisos `ROUTE_PERMISSIONS`:
+ * redirige a la página de inicio de sesión si no hay usuario y muestra la vista 403 si su rol no tiene
+ * la capacidad que exige la ruta. No renderiza la página hasta haber comprobado ambas cosas, para que
+ * nunca se muestren datos protegidos antes de redirigir. El middleware hace la misma comprobación en el servidor.
  *
  * @param {Readonly<{ children: React.ReactNode }>} props - Las props para el componente.
  * @param {React.ReactNode} props.children - Los componentes hijos que se renderizarán.
- * @returns {JSX.Element | null} Los hijos si está autenticado, o null si está redirigiendo.
+ * @returns {JSX.Element | null} Los hijos si tiene acceso, la vista 403 si no tiene permiso, o null si está redirigiendo.
  */
 function ProtectedRoutes({ children }: Readonly<{ children: React.ReactNode }>): JSX.Element | null {
-  const { currentUser, isLoading } = useAuth();
+  const { currentUser, can, isLoading } = useAuth();
   const router = useRouter();
   const pathname = usePathname();
+  const isPublic = isPublicRoute(pathname);
+  const requiredCapability = getRouteCapability(pathname);
 
   useEffect(() => {
-    if (!isLoading && (!currentUser || currentUser.id === 'user-0') && pathname !== '/login') {
-      router.push('/login');
+    if (!isLoading && !currentUser && !isPublic) {
+      router.push(LOGIN_ROUTE);
     }
-  }, [currentUser, isLoading, router, pathname]);
+  }, [currentUser, isLoading, router, isPublic]);
 
-  // Mientras se carga, o si el usuario no está autenticado y está en la página de login, o si el usuario está autenticado
   if (isLoading) {
-    return <div className="flex items-center justify-center h-screen"><p>Cargando aplicación...</p></div>; // O un spinner de carga adecuado
+    return <div className="flex items-center justify-center h-[50vh]"><p>Cargando aplicación...</p></div>;
   }
 
-  if ((!currentUser || currentUser.id === 'user-0') && pathname !== '/login') {
+  if (isPublic) {
+    return <>{children}</>;
+  }
+
+  if (!currentUser) {
     return null; // No renderizar nada mientras se redirige
   }
 
+  if (requiredCapability && !can(requiredCapability)) {
+    return <Forbidden />;
+  }
+
   return <>{children}</>;
 }
 
@@ -59,7 +78,7 @@ function ProtectedRoutes({ children }: Readonly<{ children: React.ReactNode }>):
  * Componente de diseño raíz para la aplicación.
  * Este componente envuelve todas las páginas y proporciona elementos de diseño globales como
  * encabezado, pie de página y proveedores de contexto.
- * También incluye protección de rutas.
+ * También incluye protección de rutas: el contenido de cada página pasa por `ProtectedRoutes`.
  *
  * @param {Readonly<{ children: React.ReactNode }>} props - Las props para el componente.
  * @param {React.ReactNode} props.children - Los componentes hijos que se renderizarán dentro del diseño.
@@ -79,21 +98,21 @@ export default function RootLayout({
     <html lang="es">
       <body className={`${GeistSans.variable} font-sans antialiased`}>
         <AuthProvider>
-          <InventoryProvider>
-            <ProtectedRoutes>
-              <div className="flex flex-col min-h-screen">
-                  <Header />
-                  <main className="flex-grow container mx-auto px-4 py-10 md:py-12">
+          <InventoryProvider pollIntervalMs={INVENTORY_POLL_INTERVAL_MS}>
+            <div className="flex flex-col min-h-screen">
+                <Header />
+                <main className="flex-grow container mx-auto px-4 py-10 md:py-12">
+                  <ProtectedRoutes>
                     {children}
-                  </main>
-                  {/* Pie de página opcional
-                  <footer className="border-t py-4 text-center text-sm text-muted-foreground">
-                      © 2024 Centro de Inventario Belleza
-                  </footer>
-                  */}
-              </div>
-              <Toaster />
-            </ProtectedRoutes>
+                  </ProtectedRoutes>
+                </main>
+                {/* Pie de página opcional
+                <footer className="border-t py-4 text-center text-sm text-muted-foreground">
+                    © 2024 Centro de Inventario Belleza
+                </footer>
+                */}
+            </div>
+            <Toaster />
           </InventoryProvider>
         </AuthProvider>
       </body>
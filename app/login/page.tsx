@@ -14,7 +14,7 @@ import { LogIn } from 'lucide-react'; // Icono para iniciar sesión
  * El componente LoginPage proporciona un formulario para la autenticación de usuarios.
  * Los usuarios ingresan su nombre de usuario y contraseña para iniciar sesión.
  * Tras una autenticación exitosa, los usuarios son redirigidos a la página de inicio.
- * Muestra un mensaje de error para credenciales inválidas.
+ * Muestra un mensaje de error para credenciales inválidas o cuentas bloqueadas por intentos fallidos.
  *
  * @returns {JSX.Element} La interfaz de usuario de la página de inicio de sesión.
  */
@@ -22,12 +22,13 @@ export default function LoginPage(): JSX.Element {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const { login, isLoading, currentUser } = useAuth();
   const router = useRouter();
 
-  // Redirigir si el usuario ya ha iniciado sesión (y no es el 'user-0' predeterminado)
+  // Redirigir si el usuario ya ha iniciado sesión
   React.useEffect(() => {
-    if (currentUser && currentUser.id !== 'user-0') {
+    if (currentUser) {
       router.push('/');
     }
   }, [currentUser, router]);
@@ -35,19 +36,23 @@ export default function LoginPage(): JSX.Element {
   /**
    * Maneja el envío del formulario para el inicio de sesión.
    * Previene el envío predeterminado del formulario, llama a la función de inicio de sesión de AuthContext,
-   * y navega a la página de inicio en caso de éxito o establece un mensaje de error en caso de fallo.
+   * y navega a la página de inicio en caso de éxito o muestra el error del backend (credenciales
+   * incorrectas o cuenta bloqueada) en caso de fallo.
    * @param {FormEvent<HTMLFormElement>} event - El evento de envío del formulario.
    */
-  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setError(null); // Limpiar errores previos
+    setIsSubmitting(true);
 
-    const loginSuccess = login(username, password);
+    const result = await login(username, password);
+    setIsSubmitting(false);
 
-    if (loginSuccess) {
+    if (result.success) {
       router.push('/'); // Navegar a la página de inicio tras un inicio de sesión exitoso
     } else {
-      setError('Nombre de usuario o contraseña incorrectos. Por favor, inténtelo de nuevo.');
+      setError(result.error);
+      setPassword('');
     }
   };
 
@@ -73,7 +78,7 @@ export default function LoginPage(): JSX.Element {
                 onChange={(e) => setUsername(e.target.value)}
                 required
                 className="h-11"
-                disabled={isLoading}
+                disabled={isLoading || isSubmitting}
               />
             </div>
             <div className="space-y-2">
@@ -86,7 +91,7 @@ export default function LoginPage(): JSX.Element {
                 onChange={(e) => setPassword(e.target.value)}
                 required
                 className="h-11"
-                disabled={isLoading}
+                disabled={isLoading || isSubmitting}
               />
             </div>
             {error && (
@@ -94,8 +99,8 @@ export default function LoginPage(): JSX.Element {
                 {error}
               </p>
             )}
-            <Button type="submit" className="w-full h-11 text-base" disabled={isLoading}>
-              {isLoading ? 'Ingresando...' : 'Ingresar'}
+            <Button type="submit" className="w-full h-11 text-base" disabled={isLoading || isSubmitting}>
+              {isSubmitting ? 'Ingresando...' : 'Ingresar'}
             </Button>
           </form>
         </CardContent>
@@ -1,33 +1,144 @@
 
 'use client';
 
-import React, { useMemo, useState, useEffect } from 'react';
-import LowStockTable, { type GroupedLowStockProducts } from '@/components/inventory/LowStockTable';
+import React, { useMemo, useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { startOfDay, subDays } from 'date-fns';
+import LowStockTable, { type GroupedLowStockProducts, type LowStockProduct } from '@/components/inventory/LowStockTable';
 import { useInventoryContext } from '@/context/InventoryContext';
 import type { InventoryData, Product } from '@/context/InventoryContext';
 import { useAuth } from '@/context/AuthContext';
+import { useSalesHistory } from '@/hooks/useSalesHistory';
+import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from '@/components/ui/skeleton';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { AlertTriangle, Lock, PackageOpen, Search, Barcode } from 'lucide-react';
+import { Label } from "@/components/ui/label";
+import * as api from '@/lib/api';
+import {
+  DEFAULT_LOW_STOCK_THRESHOLD,
+  DEFAULT_REORDER_SETTINGS,
+  buildSalesVelocity,
+  getReorderMetrics,
+  type ReorderSettings,
+} from '@/lib/domain';
+import { AlertTriangle, Lock, PackageOpen, Search, Barcode, ClipboardList, Target } from 'lucide-react';
 
-const DEFAULT_LOW_STOCK_THRESHOLD = 5; // Umbral global por defecto
+const REORDER_SETTINGS_LOCAL_STORAGE_KEY = 'reorderSettingsBeautyApp';
+
+// Campos editables del punto de pedido, con su etiqueta y su valor mínimo.
+const REORDER_SETTING_FIELDS: { key: keyof ReorderSettings; label: string; min: number }[] = [
+  { key: 'salesWindowDays', label: 'Días de ventas analizados', min: 1 },
+  { key: 'leadTimeDays', label: 'Plazo de entrega (días)', min: 0 },
+  { key: 'safetyStockDays', label: 'Stock de seguridad (días)', min: 0 },
+  { key: 'orderCoverageDays', label: 'Días que cubre cada pedido', min: 0 },
+];
 
 /**
  * La página LowStockPage muestra todos los productos que tienen bajo stock
  * (cantidad <= umbral personalizado o global, y > 0)
  * en todos los puntos de venta accesibles para el usuario actual, agrupados por marca y filtrables por búsqueda.
+ * Con el historial de ventas calcula la venta media diaria de cada producto, sus días de cobertura, su punto de
+ * pedido y la cantidad sugerida a pedir, y permite usar el punto de pedido como umbral personalizado.
  *
  * @returns {JSX.Element} La interfaz de usuario de la página de bajo stock.
  */
 export default function LowStockPage(): JSX.Element {
-  const { inventory, isInventoryLoaded, getPointsOfSaleForUser } = useInventoryContext();
-  const { currentUser, isLoading: isAuthLoading } = useAuth();
+  const { inventory, isInventoryLoaded, getPointsOfSaleForUser, refetchInventory } = useInventoryContext();
+  const { currentUser, can, isLoading: isAuthLoading } = useAuth();
+  const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState("");
+  const [reorderSettings, setReorderSettings] = useState<ReorderSettings>(DEFAULT_REORDER_SETTINGS);
+  const [isApplyingThresholds, setIsApplyingThresholds] = useState(false);
   const searchInputRef = React.useRef<HTMLInputElement>(null);
 
-  const accessiblePointsOfSale = useMemo(() => getPointsOfSaleForUser(), [getPointsOfSaleForUser]);
+  const accessiblePointsOfSale = useMemo(() => getPointsOfSaleForUser().filter(pos => can('view_inventory', pos)), [getPointsOfSaleForUser, can]);
+  const canManagePurchaseOrders = accessiblePointsOfSale.some(pos => can('manage_purchase_orders', pos));
+  const canEditThreshold = useCallback((pos: string) => can('receive_stock', pos), [can]);
+
+  useEffect(() => {
+    const storedSettings = localStorage.getItem(REORDER_SETTINGS_LOCAL_STORAGE_KEY);
+    if (storedSettings) {
+      try {
+        setReorderSettings({ ...DEFAULT_REORDER_SETTINGS, ...JSON.parse(storedSettings) });
+      } catch (e) {
+        console.error("Error al analizar los ajustes del punto de pedido desde localStorage:", e);
+      }
+    }
+  }, []);
+
+  // Ventas de los últimos `salesWindowDays` días, hoy incluido.
+  const salesFrom = useMemo(() => startOfDay(subDays(new Date(), reorderSettings.salesWindowDays - 1)), [reorderSettings.salesWindowDays]);
+  const { sales, wholesaleSales, saleReturns, isLoading: isLoadingSales, error: salesError } = useSalesHistory({
+    from: salesFrom,
+    enabled: isInventoryLoaded && accessiblePointsOfSale.length > 0,
+  });
+  const salesVelocity = useMemo(
+    () => (isLoadingSales || salesError ? null : buildSalesVelocity([...sales, ...wholesaleSales], saleReturns, reorderSettings.salesWindowDays)),
+    [sales, wholesaleSales, saleReturns, isLoadingSales, salesError, reorderSettings.salesWindowDays]
+  );
+
+  /**
+   * Productos de los PDV donde el usuario puede cambiar umbrales cuyo punto de pedido difiere de su umbral actual,
+   * agrupados por PDV.
+   */
+  const thresholdUpdatesByPos = useMemo(() => {
+    const updates: Record<string, { barcode: string; lowStockThreshold: number }[]> = {};
+    if (!salesVelocity) return updates;
+    accessiblePointsOfSale.filter(canEditThreshold).forEach(pos => {
+      Object.values(inventory[pos] || {}).flat().forEach(product => {
+        const { reorderPoint } = getReorderMetrics(product.quantity, salesVelocity[pos]?.[product.barcode] ?? 0, reorderSettings);
+        if (reorderPoint !== null && reorderPoint !== product.lowStockThreshold) {
+          (updates[pos] || (updates[pos] = [])).push({ barcode: product.barcode, lowStockThreshold: reorderPoint });
+        }
+      });
+    });
+    return updates;
+  }, [salesVelocity, accessiblePointsOfSale, canEditThreshold, inventory, reorderSettings]);
+  const pendingThresholdUpdates = Object.values(thresholdUpdatesByPos).reduce((sum, updates) => sum + updates.length, 0);
+
+  /**
+   * Cambia un parámetro del punto de pedido y lo guarda en el navegador.
+   * @param {keyof ReorderSettings} key - El parámetro.
+   * @param {string} value - El valor escrito.
+   * @param {number} min - El valor mínimo admitido.
+   */
+  const handleSettingChange = useCallback((key: keyof ReorderSettings, value: string, min: number) => {
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed)) return;
+    setReorderSettings(prev => {
+      const next = { ...prev, [key]: Math.max(parsed, min) };
+      localStorage.setItem(REORDER_SETTINGS_LOCAL_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  /**
+   * Guarda umbrales de bajo stock por PDV y recarga el inventario.
+   * @param {Record<string, { barcode: string; lowStockThreshold: number }[]>} updatesByPos - Los umbrales por PDV.
+   */
+  const applyThresholds = useCallback(async (updatesByPos: Record<string, { barcode: string; lowStockThreshold: number }[]>) => {
+    setIsApplyingThresholds(true);
+    try {
+      let updated = 0;
+      for (const [pos, thresholds] of Object.entries(updatesByPos)) {
+        const result = await api.updateLowStockThresholds(pos, thresholds);
+        updated += result.products.length;
+      }
+      toast({ title: "Umbrales Actualizados", description: `Se usó el punto de pedido como umbral en ${updated} producto(s).` });
+    } catch (error: any) {
+      console.error("Error al actualizar los umbrales de bajo stock:", error);
+      toast({ variant: "destructive", title: "Error al Actualizar Umbrales", description: error.message || "No se pudieron guardar los umbrales." });
+    } finally {
+      setIsApplyingThresholds(false);
+      refetchInventory();
+    }
+  }, [toast, refetchInventory]);
+
+  const handleApplyReorderPoint = useCallback((product: LowStockProduct, reorderPoint: number) => {
+    applyThresholds({ [product.pointOfSale]: [{ barcode: product.barcode, lowStockThreshold: reorderPoint }] });
+  }, [applyThresholds]);
 
   /**
    * Objeto memoizado de productos con bajo stock, agrupados por marca y filtrados por searchTerm.
@@ -99,7 +210,7 @@ export default function LowStockPage(): JSX.Element {
     );
   }
 
-  if (accessiblePointsOfSale.length === 0 && currentUser && currentUser.id !== 'user-0') {
+  if (accessiblePointsOfSale.length === 0 && currentUser) {
     return (
       <div className="space-y-8">
         <h1 className="text-3xl font-bold text-foreground mb-6">Productos Casi Agotados</h1>
@@ -140,6 +251,52 @@ export default function LowStockPage(): JSX.Element {
       <p className="text-muted-foreground">
         Listado de productos con {DEFAULT_LOW_STOCK_THRESHOLD} unidades o menos (o según umbral personalizado), pero más de 0. Puedes buscar por nombre, código o marca.
       </p>
+      {canManagePurchaseOrders && (
+        <Button asChild variant="outline">
+          <Link href="/purchase-orders"><ClipboardList className="mr-2 h-4 w-4" /> Preparar Órdenes de Compra</Link>
+        </Button>
+      )}
+
+      <Card className="shadow-sm border border-border/60">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+            <div>
+              <CardTitle className="flex items-center text-lg"><Target className="mr-2 h-5 w-5 text-primary" />Punto de Pedido</CardTitle>
+              <CardDescription>
+                Con la venta media diaria de cada producto en su PDV: el punto de pedido cubre el plazo de entrega más el
+                stock de seguridad, y la cantidad sugerida repone además los días que cubre cada pedido.
+              </CardDescription>
+            </div>
+            {accessiblePointsOfSale.some(canEditThreshold) && (
+              <Button
+                variant="outline"
+                onClick={() => applyThresholds(thresholdUpdatesByPos)}
+                disabled={isApplyingThresholds || pendingThresholdUpdates === 0}
+              >
+                <Target className="mr-2 h-4 w-4" /> Usar como Umbral en Todos ({pendingThresholdUpdates})
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {REORDER_SETTING_FIELDS.map(({ key, label, min }) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`reorder-${key}`}>{label}</Label>
+                <Input
+                  id={`reorder-${key}`}
+                  type="number"
+                  min={min}
+                  step={1}
+                  value={reorderSettings[key]}
+                  onChange={(e) => handleSettingChange(key, e.target.value, min)}
+                />
+              </div>
+            ))}
+          </div>
+          {salesError && <p className="text-sm text-destructive mt-3">No se pudo cargar el historial de ventas: {salesError}</p>}
+        </CardContent>
+      </Card>
 
       <div className="flex gap-2 mb-6">
         <div className="relative flex-grow">
@@ -158,7 +315,12 @@ export default function LowStockPage(): JSX.Element {
         </Button>
       </div>
 
-      <LowStockTable productsByBrand={lowStockProductsByBrand} searchTerm={searchTerm} totalInitially={totalProductsInitiallyLowStock} defaultLowStockThreshold={DEFAULT_LOW_STOCK_THRESHOLD}/>
+      <LowStockTable productsByBrand={lowStockProductsByBrand} searchTerm={searchTerm} totalInitially={totalProductsInitiallyLowStock} defaultLowStockThreshold={DEFAULT_LOW_STOCK_THRESHOLD}
+        salesVelocity={salesVelocity}
+        reorderSettings={salesError ? undefined : reorderSettings}
+        onApplyReorderPoint={isApplyingThresholds ? undefined : handleApplyReorderPoint}
+        canApplyReorderPoint={canEditThreshold}
+      />
     </div>
   );
 }
@@ -2,6 +2,7 @@
 'use client';
 
 import React, { useMemo, useState, useEffect } from 'react';
+import Link from 'next/link';
 import OutOfStockTable, { type GroupedOutOfStockProducts } from '@/components/inventory/OutOfStockTable';
 import { useInventoryContext } from '@/context/InventoryContext';
 import type { InventoryData, Product } from '@/context/InventoryContext';
@@ -10,7 +11,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { PackageX, Lock, PackageOpen, Search, Barcode } from 'lucide-react';
+import { PackageX, Lock, PackageOpen, Search, Barcode, ClipboardList } from 'lucide-react';
 
 /**
  * La página OutOfStockPage muestra todos los productos que están actualmente agotados
@@ -20,11 +21,12 @@ import { PackageX, Lock, PackageOpen, Search, Barcode } from 'lucide-react';
  */
 export default function OutOfStockPage(): JSX.Element {
   const { inventory, isInventoryLoaded, getPointsOfSaleForUser } = useInventoryContext();
-  const { currentUser, isLoading: isAuthLoading } = useAuth();
+  const { currentUser, can, isLoading: isAuthLoading } = useAuth();
   const [searchTerm, setSearchTerm] = useState("");
   const searchInputRef = React.useRef<HTMLInputElement>(null);
 
-  const accessiblePointsOfSale = useMemo(() => getPointsOfSaleForUser(), [getPointsOfSaleForUser]);
+  const accessiblePointsOfSale = useMemo(() => getPointsOfSaleForUser().filter(pos => can('view_inventory', pos)), [getPointsOfSaleForUser, can]);
+  const canManagePurchaseOrders = accessiblePointsOfSale.some(pos => can('manage_purchase_orders', pos));
 
   /**
    * Objeto memoizado de productos agotados, agrupados por marca y filtrados por searchTerm.
@@ -91,7 +93,7 @@ export default function OutOfStockPage(): JSX.Element {
     );
   }
 
-  if (accessiblePointsOfSale.length === 0 && currentUser && currentUser.id !== 'user-0') {
+  if (accessiblePointsOfSale.length === 0 && currentUser) {
     return (
       <div className="space-y-8">
         <h1 className="text-3xl font-bold text-foreground mb-6">Productos Agotados</h1>
@@ -129,6 +131,11 @@ export default function OutOfStockPage(): JSX.Element {
       <p className="text-muted-foreground">
         Lista de productos actualmente sin stock. Puedes buscar por nombre, código o marca.
       </p>
+      {canManagePurchaseOrders && (
+        <Button asChild variant="outline">
+          <Link href="/purchase-orders"><ClipboardList className="mr-2 h-4 w-4" /> Preparar Órdenes de Compra</Link>
+        </Button>
+      )}
 
       <div className="flex gap-2 mb-6">
         <div className="relative flex-grow">
@@ -20,11 +20,11 @@ import { Lock } from 'lucide-react';
  */
 export default function Home(): JSX.Element {
   const { inventory, isInventoryLoaded, getPointsOfSaleForUser } = useInventoryContext();
-  const { currentUser, isLoading: isAuthLoading } = useAuth();
+  const { currentUser, can, isLoading: isAuthLoading } = useAuth();
   const [activeTab, setActiveTab] = useState<string | undefined>(undefined);
 
   // Obtener los puntos de venta accesibles para el usuario actual
-  const accessiblePointsOfSale = useMemo(() => getPointsOfSaleForUser(), [getPointsOfSaleForUser]);
+  const accessiblePointsOfSale = useMemo(() => getPointsOfSaleForUser().filter(pos => can('view_inventory', pos)), [getPointsOfSaleForUser, can]);
 
   /**
    * Hook useEffect para actualizar la pestaña activa cuando el usuario actual o sus
@@ -71,7 +71,7 @@ export default function Home(): JSX.Element {
             <Lock className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
             <CardTitle>Acceso Denegado o Sin Ubicaciones</CardTitle>
             <CardDescription>
-              {currentUser && currentUser.id !== 'user-0'
+              {currentUser
                 ? `El usuario "${currentUser.name}" no tiene acceso a ninguna ubicación de inventario.`
                 : "Por favor, inicie sesión con un usuario con permisos de acceso."}
             </CardDescription>
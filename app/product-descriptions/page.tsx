@@ -53,12 +53,12 @@ interface GroupedDescribedProducts {
  */
 export default function ProductDescriptionsPage(): JSX.Element {
   const { inventory, isInventoryLoaded, getPointsOfSaleForUser } = useInventoryContext();
-  const { currentUser, isLoading: isAuthLoading } = useAuth();
+  const { currentUser, can, isLoading: isAuthLoading } = useAuth();
   const [searchTerm, setSearchTerm] = useState("");
   const searchInputRef = React.useRef<HTMLInputElement>(null);
 
   // Lista memoizada de puntos de venta accesibles para el usuario actual.
-  const accessiblePointsOfSale = useMemo(() => getPointsOfSaleForUser(), [getPointsOfSaleForUser]);
+  const accessiblePointsOfSale = useMemo(() => getPointsOfSaleForUser().filter(pos => can('view_inventory', pos)), [getPointsOfSaleForUser, can]);
 
   /**
    * Lista memoizada y agrupada de productos que tienen descripciones, filtrada por searchTerm.
@@ -129,7 +129,7 @@ export default function ProductDescriptionsPage(): JSX.Element {
     );
   }
 
-  if (accessiblePointsOfSale.length === 0 && currentUser && currentUser.id !== 'user-0') {
+  if (accessiblePointsOfSale.length === 0 && currentUser) {
     return (
       <div className="space-y-8">
         <h1 className="text-3xl font-bold text-foreground mb-6">Descripciones de Productos</h1>
@@ -0,0 +1,544 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableCaption } from "@/components/ui/table";
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tag, PlusCircle, Edit, XCircle, PlayCircle, PauseCircle } from 'lucide-react';
+import { useToast } from "@/hooks/use-toast";
+import { format, startOfDay, endOfDay, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { useInventoryContext } from '@/context/InventoryContext';
+import * as api from '@/lib/api';
+import {
+  describePromotion,
+  getPromotionTypeLabel,
+  parseBarcodeList,
+  promotionFormSchema,
+  promotionTypeSchema,
+  type Promotion,
+  type PromotionFormValues,
+} from '@/lib/domain';
+
+// Valor del selector de PDV que aplica la promoción en todos los PDV.
+const ALL_POS = 'all';
+
+const emptyFormValues: PromotionFormValues = {
+  name: "",
+  type: "multi_buy",
+  barcodes: "",
+  brand: "",
+  buyQuantity: 3,
+  payQuantity: 2,
+  bundlePrice: 0,
+  percent: 10,
+  pointOfSale: ALL_POS,
+  startsAt: "",
+  endsAt: "",
+};
+
+/**
+ * Convierte los valores del formulario en los datos de la promoción, dejando en null los campos que no usa su tipo.
+ * Las fechas se toman desde el inicio del día de inicio hasta el final del día de fin.
+ * @param {PromotionFormValues} values - Los valores del formulario.
+ * @returns {Omit<api.PromotionPayload, 'active'>} Los datos de la promoción, sin el estado.
+ */
+function toPromotionPayload(values: PromotionFormValues): Omit<api.PromotionPayload, 'active'> {
+  return {
+    name: values.name,
+    type: values.type,
+    barcodes: values.type === 'brand_percent' ? [] : parseBarcodeList(values.barcodes),
+    brand: values.type === 'bundle' ? null : values.brand || null,
+    buyQuantity: values.type === 'multi_buy' ? values.buyQuantity : null,
+    payQuantity: values.type === 'multi_buy' ? values.payQuantity : null,
+    bundlePrice: values.type === 'bundle' ? values.bundlePrice : null,
+    percent: values.type === 'brand_percent' ? values.percent : null,
+    pointOfSale: values.pointOfSale === ALL_POS ? null : values.pointOfSale,
+    startsAt: values.startsAt ? startOfDay(parseISO(values.startsAt)) : null,
+    endsAt: values.endsAt ? endOfDay(parseISO(values.endsAt)) : null,
+  };
+}
+
+/**
+ * Describe el periodo de una promoción.
+ * @param {Promotion} promotion - La promoción.
+ * @returns {string} P. ej. '01/12/2025 - 31/12/2025', 'Desde 01/12/2025' o 'Sin límite'.
+ */
+function formatPromotionPeriod(promotion: Promotion): string {
+  const formatDay = (date: Date) => format(date, "dd/MM/yyyy", { locale: es });
+  if (promotion.startsAt && promotion.endsAt) return `${formatDay(promotion.startsAt)} - ${formatDay(promotion.endsAt)}`;
+  if (promotion.startsAt) return `Desde ${formatDay(promotion.startsAt)}`;
+  if (promotion.endsAt) return `Hasta ${formatDay(promotion.endsAt)}`;
+  return 'Sin límite';
+}
+
+/**
+ * Página de administración de promociones: "lleva N, paga M", packs a precio fijo y porcentajes por marca,
+ * con PDV y periodo opcionales. Las promociones activas se aplican solas en el formulario de ventas minoristas.
+ * Solo accesible con la capacidad `manage_promotions` (ver `ROUTE_PERMISSIONS`).
+ *
+ * @returns {JSX.Element} La interfaz de usuario de la página de promociones.
+ */
+export default function PromotionsPage(): JSX.Element {
+  const { toast } = useToast();
+  const { inventory, getAllPointsOfSale, getProductDetailsAnywhere, isInventoryLoaded } = useInventoryContext();
+
+  const [isClient, setIsClient] = useState(false);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [isLoadingPromotions, setIsLoadingPromotions] = useState(true);
+  const [editingPromotionId, setEditingPromotionId] = useState<string | null>(null);
+  const [updatingPromotionId, setUpdatingPromotionId] = useState<string | null>(null);
+  const formRef = React.useRef<HTMLDivElement>(null);
+
+  const allPointsOfSale = getAllPointsOfSale();
+  const allBrands = useMemo(
+    () => Array.from(new Set(Object.values(inventory).flatMap(brands => Object.keys(brands)))).sort((a, b) => a.localeCompare(b)),
+    [inventory]
+  );
+
+  const form = useForm<PromotionFormValues>({
+    resolver: zodResolver(promotionFormSchema),
+    defaultValues: emptyFormValues,
+    mode: "onChange",
+  });
+  const promotionType = form.watch("type");
+  const barcodeList = parseBarcodeList(form.watch("barcodes"));
+
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  /**
+   * Carga la lista de promociones desde el backend.
+   */
+  const fetchPromotions = useCallback(async () => {
+    setIsLoadingPromotions(true);
+    try {
+      setPromotions(await api.getPromotions());
+    } catch (error: any) {
+      console.error("Error al cargar las promociones:", error);
+      toast({ variant: "destructive", title: "Error al Cargar Promociones", description: error.message || "No se pudo obtener la lista de promociones." });
+    } finally {
+      setIsLoadingPromotions(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (isClient) {
+      fetchPromotions();
+    }
+  }, [isClient, fetchPromotions]);
+
+  /**
+   * Sustituye una promoción de la lista por su versión actualizada, o la añade al final si es nueva
+   * (el orden de la lista es el orden en que se aplican).
+   * @param {Promotion} savedPromotion - La promoción devuelta por el backend.
+   */
+  const upsertPromotion = useCallback((savedPromotion: Promotion) => {
+    setPromotions(prev => prev.some(p => p.id === savedPromotion.id)
+      ? prev.map(p => (p.id === savedPromotion.id ? savedPromotion : p))
+      : [...prev, savedPromotion]);
+  }, []);
+
+  const handleEditPromotion = useCallback((promotion: Promotion) => {
+    setEditingPromotionId(promotion.id);
+    form.reset({
+      name: promotion.name,
+      type: promotion.type,
+      barcodes: promotion.barcodes.join(', '),
+      brand: promotion.brand ?? "",
+      buyQuantity: promotion.buyQuantity ?? emptyFormValues.buyQuantity,
+      payQuantity: promotion.payQuantity ?? emptyFormValues.payQuantity,
+      bundlePrice: promotion.bundlePrice ?? emptyFormValues.bundlePrice,
+      percent: promotion.percent ?? emptyFormValues.percent,
+      pointOfSale: promotion.pointOfSale ?? ALL_POS,
+      startsAt: promotion.startsAt ? format(promotion.startsAt, "yyyy-MM-dd") : "",
+      endsAt: promotion.endsAt ? format(promotion.endsAt, "yyyy-MM-dd") : "",
+    });
+    formRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [form]);
+
+  const handleCancelEdit = useCallback(() => {
+    setEditingPromotionId(null);
+    form.reset(emptyFormValues);
+  }, [form]);
+
+  const onSubmit = async (data: PromotionFormValues) => {
+    try {
+      const payload = toPromotionPayload(data);
+      if (editingPromotionId) {
+        const savedPromotion = await api.updatePromotion({ id: editingPromotionId, ...payload });
+        upsertPromotion(savedPromotion);
+        toast({ title: "Promoción Actualizada", description: `Se actualizó "${savedPromotion.name}".` });
+      } else {
+        const savedPromotion = await api.addPromotion({ ...payload, active: true });
+        upsertPromotion(savedPromotion);
+        toast({ title: "Promoción Creada", description: `"${savedPromotion.name}" ya se aplica en las ventas de su periodo.` });
+      }
+      handleCancelEdit();
+    } catch (error: any) {
+      console.error("Error al guardar la promoción:", error);
+      toast({ variant: "destructive", title: "Error al Guardar Promoción", description: error.message || "No se pudo guardar la promoción. Intente de nuevo." });
+    }
+  };
+
+  /**
+   * Activa o desactiva una promoción.
+   * @param {Promotion} promotion - La promoción a cambiar.
+   */
+  const handleToggleActive = useCallback(async (promotion: Promotion) => {
+    setUpdatingPromotionId(promotion.id);
+    try {
+      const savedPromotion = await api.updatePromotion({ id: promotion.id, active: !promotion.active });
+      upsertPromotion(savedPromotion);
+      toast({
+        title: savedPromotion.active ? "Promoción Activada" : "Promoción Desactivada",
+        description: savedPromotion.active
+          ? `"${savedPromotion.name}" se aplica en las ventas de su periodo.`
+          : `"${savedPromotion.name}" ya no se aplica en las ventas.`,
+      });
+    } catch (error: any) {
+      console.error("Error al cambiar el estado de la promoción:", error);
+      toast({ variant: "destructive", title: "Error al Actualizar Promoción", description: error.message || "No se pudo cambiar el estado de la promoción." });
+    } finally {
+      setUpdatingPromotionId(null);
+    }
+  }, [upsertPromotion, toast]);
+
+  if (!isClient || !isInventoryLoaded) {
+    return (
+      <div className="space-y-8">
+        <Skeleton className="h-10 w-1/3 mb-6" />
+        <Skeleton className="h-64 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  const editingPromotion = editingPromotionId ? promotions.find(p => p.id === editingPromotionId) : undefined;
+  const now = new Date();
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-foreground">Promociones</h1>
+        <Tag className="h-8 w-8 text-primary" />
+      </div>
+      <p className="text-muted-foreground">
+        Define ofertas como 3x2, packs a precio fijo o porcentajes por marca. Se aplican solas al agregar productos en Ventas;
+        cada unidad recibe como mucho una promoción (primero los packs, después los "lleva N, paga M" y por último los porcentajes).
+      </p>
+
+      <div ref={formRef}>
+        <Card className="shadow-md border border-border/60">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              {editingPromotionId ? <Edit className="mr-2 h-6 w-6 text-primary" /> : <PlusCircle className="mr-2 h-6 w-6 text-primary" />}
+              {editingPromotionId ? `Editar Promoción ${editingPromotion ? `(${editingPromotion.name})` : ''}` : 'Crear Nueva Promoción'}
+            </CardTitle>
+            <CardDescription>
+              El PDV y las fechas son opcionales: sin ellos, la promoción vale en todos los PDV y sin límite de tiempo.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nombre</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Ej: 3x2 en cremas Nivea" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="type"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Tipo</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Seleccionar tipo" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {promotionTypeSchema.options.map(type => (
+                              <SelectItem key={type} value={type}>{getPromotionTypeLabel(type)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {promotionType !== 'brand_percent' && (
+                  <FormField
+                    control={form.control}
+                    name="barcodes"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Códigos de Barras</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Separados por comas. Ej: 7800000002001, 7800000002002" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          {promotionType === 'bundle'
+                            ? 'Una unidad de cada código forma el pack; repite un código si el pack lleva varias unidades.'
+                            : 'Los productos que suman para la promoción. Puedes indicar además una marca.'}
+                        </FormDescription>
+                        {barcodeList.length > 0 && (
+                          <div className="flex flex-wrap gap-2">
+                            {barcodeList.map((barcode, index) => {
+                              const product = getProductDetailsAnywhere(barcode);
+                              return (
+                                <Badge key={`${barcode}-${index}`} variant={product ? 'secondary' : 'destructive'}>
+                                  {product ? `${product.name} (${product.brand})` : `${barcode}: no encontrado`}
+                                </Badge>
+                              );
+                            })}
+                          </div>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  {promotionType !== 'bundle' && (
+                    <FormField
+                      control={form.control}
+                      name="brand"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Marca{promotionType === 'multi_buy' ? ' (opcional)' : ''}</FormLabel>
+                          <FormControl>
+                            <Input list="promotion-brands" placeholder="Ej: Nivea" {...field} />
+                          </FormControl>
+                          <datalist id="promotion-brands">
+                            {allBrands.map(brand => <option key={brand} value={brand} />)}
+                          </datalist>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  {promotionType === 'multi_buy' && (
+                    <>
+                      <FormField
+                        control={form.control}
+                        name="buyQuantity"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Lleva (unidades)</FormLabel>
+                            <FormControl>
+                              <Input type="number" min={2} step={1} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="payQuantity"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Paga (unidades)</FormLabel>
+                            <FormControl>
+                              <Input type="number" min={1} step={1} {...field} />
+                            </FormControl>
+                            <FormDescription>Las unidades gratis son las más baratas de cada grupo.</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </>
+                  )}
+                  {promotionType === 'bundle' && (
+                    <FormField
+                      control={form.control}
+                      name="bundlePrice"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Precio del Pack</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={0} step="any" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  {promotionType === 'brand_percent' && (
+                    <FormField
+                      control={form.control}
+                      name="percent"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Descuento (%)</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={0} max={100} step="any" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <FormField
+                    control={form.control}
+                    name="pointOfSale"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Punto de Venta</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={ALL_POS}>Todos los PDV</SelectItem>
+                            {allPointsOfSale.map(pos => (
+                              <SelectItem key={pos} value={pos}>{pos}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="startsAt"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Desde (opcional)</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="endsAt"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Hasta (opcional)</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="flex gap-4">
+                  <Button type="submit" disabled={form.formState.isSubmitting}>
+                    {editingPromotionId ? 'Guardar Cambios' : 'Crear Promoción'}
+                  </Button>
+                  {editingPromotionId && (
+                    <Button type="button" variant="outline" onClick={handleCancelEdit}>
+                      <XCircle className="mr-2 h-4 w-4" /> Cancelar Edición
+                    </Button>
+                  )}
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="shadow-md border border-border/60">
+        <CardHeader>
+          <CardTitle>Promociones Registradas</CardTitle>
+          <CardDescription>Las promociones desactivadas o fuera de su periodo no se aplican, pero se conservan en las ventas que ya las usaron.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingPromotions ? (
+            <Skeleton className="h-48 w-full" />
+          ) : (
+            <Table>
+              <TableCaption>{promotions.length} promoción(es) registrada(s).</TableCaption>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nombre</TableHead>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead>Regla</TableHead>
+                  <TableHead>PDV</TableHead>
+                  <TableHead>Periodo</TableHead>
+                  <TableHead>Estado</TableHead>
+                  <TableHead className="text-right">Acciones</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {promotions.map(promotion => {
+                  const isExpired = promotion.endsAt !== null && promotion.endsAt < now;
+                  const isScheduled = promotion.startsAt !== null && promotion.startsAt > now;
+                  return (
+                    <TableRow key={promotion.id} className={promotion.active && !isExpired ? undefined : 'opacity-60'}>
+                      <TableCell className="font-medium">{promotion.name}</TableCell>
+                      <TableCell>{getPromotionTypeLabel(promotion.type)}</TableCell>
+                      <TableCell>{describePromotion(promotion)}</TableCell>
+                      <TableCell>{promotion.pointOfSale ?? 'Todos'}</TableCell>
+                      <TableCell>{formatPromotionPeriod(promotion)}</TableCell>
+                      <TableCell>
+                        <Badge variant={promotion.active && !isExpired && !isScheduled ? 'default' : 'secondary'}>
+                          {!promotion.active ? 'Desactivada' : isExpired ? 'Vencida' : isScheduled ? 'Programada' : 'Vigente'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        <Button variant="outline" size="sm" onClick={() => handleEditPromotion(promotion)}>
+                          <Edit className="mr-1 h-4 w-4" /> Editar
+                        </Button>
+                        <Button
+                          variant={promotion.active ? 'destructive' : 'outline'}
+                          size="sm"
+                          disabled={updatingPromotionId === promotion.id}
+                          onClick={() => handleToggleActive(promotion)}
+                        >
+                          {promotion.active ? <PauseCircle className="mr-1 h-4 w-4" /> : <PlayCircle className="mr-1 h-4 w-4" />}
+                          {promotion.active ? 'Desactivar' : 'Activar'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
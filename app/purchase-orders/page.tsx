@@ -0,0 +1,671 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm, useFieldArray } from "react-hook-form";
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableCaption } from "@/components/ui/table";
+import { Skeleton } from '@/components/ui/skeleton';
+import { Ban, ClipboardList, Edit, FileText, MinusCircle, PackageCheck, PlusCircle, Send, Sparkles, XCircle } from 'lucide-react';
+import { useToast } from "@/hooks/use-toast";
+import { useInventoryContext } from '@/context/InventoryContext';
+import { useAuth } from '@/context/AuthContext';
+import * as api from '@/lib/api';
+import {
+  buildPurchaseOrderSuggestions,
+  getPurchaseOrderStatusLabel,
+  getPurchaseOrderTotal,
+  isPurchaseOrderOpen,
+  purchaseOrderFormSchema,
+  purchaseOrderStatusSchema,
+  type PurchaseOrder,
+  type PurchaseOrderFormValues,
+  type PurchaseOrderGrouping,
+  type PurchaseOrderStatus,
+  type PurchaseOrderSuggestion,
+  type SupplierRecord,
+} from '@/lib/domain';
+
+// Valor del filtro de estado que muestra todas las órdenes.
+const ALL_STATUSES = 'all';
+
+const emptyItem = { barcode: "", quantity: 1, purchasePrice: 0 };
+
+const STATUS_BADGE_VARIANTS: Record<PurchaseOrderStatus, 'secondary' | 'default' | 'outline' | 'destructive'> = {
+  draft: 'secondary',
+  sent: 'default',
+  received: 'outline',
+  cancelled: 'destructive',
+};
+
+/**
+ * Genera y descarga la orden de compra en PDF para enviar al proveedor.
+ * @param {PurchaseOrder} order - La orden.
+ */
+function downloadPurchaseOrderPdf(order: PurchaseOrder): void {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 14;
+
+  doc.setFontSize(18);
+  doc.text("ORDEN DE COMPRA", margin, 18);
+  doc.setFontSize(10);
+  doc.text(`N° ${order.id.slice(-10)}`, pageWidth - margin, 18, { align: 'right' });
+
+  const headerLines = [
+    `Proveedor: ${order.supplierName}`,
+    `Entregar en: ${order.pointOfSale}`,
+    `Fecha: ${format(order.sentAt ?? order.createdAt, "dd/MM/yyyy", { locale: es })}`,
+    `Solicitado por: ${order.createdBy.userName}`,
+  ];
+  headerLines.forEach((line, index) => doc.text(line, margin, 28 + index * 5));
+  let nextY = 28 + headerLines.length * 5;
+  if (order.notes) {
+    const notesLines = doc.splitTextToSize(`Notas: ${order.notes}`, pageWidth - margin * 2);
+    doc.text(notesLines, margin, nextY);
+    nextY += notesLines.length * 5;
+  }
+
+  const total = getPurchaseOrderTotal(order);
+  autoTable(doc, {
+    head: [["Código", "Producto", "Marca", "Cantidad", "Precio Ref.", "Subtotal"]],
+    body: [
+      ...order.items.map(item => [
+        item.barcode,
+        item.productName,
+        item.brandName,
+        item.quantity,
+        item.purchasePrice !== null ? `$${item.purchasePrice.toFixed(3)}` : 'A confirmar',
+        item.purchasePrice !== null ? `$${(item.purchasePrice * item.quantity).toFixed(3)}` : '-',
+      ]),
+      [
+        { content: 'Total estimado', colSpan: 3, styles: { fontStyle: 'bold' } },
+        order.items.reduce((sum, item) => sum + item.quantity, 0),
+        '',
+        { content: total > 0 ? `$${total.toFixed(3)}` : '-', styles: { fontStyle: 'bold' } },
+      ],
+    ],
+    startY: nextY + 2,
+    theme: 'grid',
+    headStyles: { fillColor: [22, 160, 133] },
+    styles: { fontSize: 9, cellPadding: 2, overflow: 'linebreak' },
+    columnStyles: {
+      0: { cellWidth: 32 },
+      1: { cellWidth: 'auto' },
+      2: { cellWidth: 28 },
+      3: { cellWidth: 20, halign: 'right' },
+      4: { cellWidth: 24, halign: 'right' },
+      5: { cellWidth: 24, halign: 'right' },
+    },
+  });
+
+  doc.save(`orden_compra_${order.supplierName.replace(/\s+/g, '_')}_${order.id.slice(-6)}.pdf`);
+}
+
+/**
+ * Página de órdenes de compra. Sugiere órdenes con los productos en su umbral de bajo stock o por debajo,
+ * agrupadas por marca o por el último proveedor de cada producto, permite editarlas como borrador, marcarlas como
+ * enviadas, descargarlas en PDF para el proveedor y recibirlas en la página de Proveedores.
+ * Solo accesible con la capacidad `manage_purchase_orders` (ver `ROUTE_PERMISSIONS`).
+ *
+ * @returns {JSX.Element} La interfaz de usuario de la página de órdenes de compra.
+ */
+export default function PurchaseOrdersPage(): JSX.Element {
+  const { toast } = useToast();
+  const { inventory, getPointsOfSaleForUser, getProductDetailsAnywhere, isInventoryLoaded } = useInventoryContext();
+  const { can } = useAuth();
+
+  const [isClient, setIsClient] = useState(false);
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [supplierEntries, setSupplierEntries] = useState<SupplierRecord[]>([]);
+  const [isLoadingOrders, setIsLoadingOrders] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | typeof ALL_STATUSES>(ALL_STATUSES);
+  const [grouping, setGrouping] = useState<PurchaseOrderGrouping>('supplier');
+  const [editingOrderId, setEditingOrderId] = useState<string | null>(null);
+  const [updatingOrderId, setUpdatingOrderId] = useState<string | null>(null);
+  const formRef = React.useRef<HTMLDivElement>(null);
+
+  // PDV para los que el usuario puede preparar órdenes de compra.
+  const managedPointsOfSale = useMemo(
+    () => getPointsOfSaleForUser().filter(pos => can('manage_purchase_orders', pos)),
+    [getPointsOfSaleForUser, can]
+  );
+
+  const form = useForm<PurchaseOrderFormValues>({
+    resolver: zodResolver(purchaseOrderFormSchema),
+    defaultValues: { supplierName: "", pointOfSale: "", items: [emptyItem], notes: "" },
+    mode: "onChange",
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "items" });
+  const items = form.watch("items");
+
+  const knownSuppliers = useMemo(
+    () => Array.from(new Set([...supplierEntries.map(e => e.supplierName), ...orders.map(o => o.supplierName)])).sort((a, b) => a.localeCompare(b, 'es')),
+    [supplierEntries, orders]
+  );
+  const allProducts = useMemo(() => {
+    const products = new Map<string, { barcode: string; name: string; brand: string }>();
+    Object.values(inventory).forEach(brands => Object.entries(brands).forEach(([brand, brandProducts]) => brandProducts.forEach(product => {
+      if (!products.has(product.barcode)) products.set(product.barcode, { barcode: product.barcode, name: product.name, brand });
+    })));
+    return Array.from(products.values()).sort((a, b) => a.name.localeCompare(b.name, 'es'));
+  }, [inventory]);
+
+  const suggestions = useMemo(
+    () => buildPurchaseOrderSuggestions(inventory, managedPointsOfSale, supplierEntries, orders, grouping),
+    [inventory, managedPointsOfSale, supplierEntries, orders, grouping]
+  );
+  const visibleOrders = useMemo(
+    () => orders.filter(order => managedPointsOfSale.includes(order.pointOfSale) && (statusFilter === ALL_STATUSES || order.status === statusFilter)),
+    [orders, managedPointsOfSale, statusFilter]
+  );
+
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  useEffect(() => {
+    if (!form.getValues("pointOfSale") && managedPointsOfSale.length > 0) {
+      form.setValue("pointOfSale", managedPointsOfSale[0]);
+    }
+  }, [managedPointsOfSale, form]);
+
+  /**
+   * Carga las órdenes de compra y las entradas de proveedor (para el último proveedor y precio de cada producto).
+   */
+  const fetchOrders = useCallback(async () => {
+    setIsLoadingOrders(true);
+    try {
+      const [loadedOrders, loadedEntries] = await Promise.all([api.getPurchaseOrders(), api.getSupplierEntries()]);
+      setOrders(loadedOrders);
+      setSupplierEntries(loadedEntries);
+    } catch (error: any) {
+      console.error("Error al cargar las órdenes de compra:", error);
+      toast({ variant: "destructive", title: "Error al Cargar Órdenes", description: error.message || "No se pudieron obtener las órdenes de compra." });
+    } finally {
+      setIsLoadingOrders(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (isClient) {
+      fetchOrders();
+    }
+  }, [isClient, fetchOrders]);
+
+  /**
+   * Sustituye una orden de la lista por su versión guardada, o la añade al principio si es nueva.
+   * @param {PurchaseOrder} savedOrder - La orden devuelta por el backend.
+   */
+  const upsertOrder = useCallback((savedOrder: PurchaseOrder) => {
+    setOrders(prev => prev.some(o => o.id === savedOrder.id)
+      ? prev.map(o => (o.id === savedOrder.id ? savedOrder : o))
+      : [savedOrder, ...prev]);
+  }, []);
+
+  const handleCancelEdit = useCallback(() => {
+    setEditingOrderId(null);
+    form.reset({ supplierName: "", pointOfSale: managedPointsOfSale[0] ?? "", items: [emptyItem], notes: "" });
+  }, [form, managedPointsOfSale]);
+
+  /**
+   * Carga una sugerencia en el formulario como orden nueva.
+   * @param {PurchaseOrderSuggestion} suggestion - La sugerencia.
+   */
+  const handleUseSuggestion = useCallback((suggestion: PurchaseOrderSuggestion) => {
+    setEditingOrderId(null);
+    form.reset({
+      supplierName: suggestion.supplierName,
+      pointOfSale: suggestion.pointOfSale,
+      items: suggestion.items.map(item => ({ barcode: item.barcode, quantity: item.quantity, purchasePrice: item.purchasePrice ?? 0 })),
+      notes: "",
+    });
+    formRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [form]);
+
+  const handleEditOrder = useCallback((order: PurchaseOrder) => {
+    setEditingOrderId(order.id);
+    form.reset({
+      supplierName: order.supplierName,
+      pointOfSale: order.pointOfSale,
+      items: order.items.map(item => ({ barcode: item.barcode, quantity: item.quantity, purchasePrice: item.purchasePrice ?? 0 })),
+      notes: order.notes ?? "",
+    });
+    formRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [form]);
+
+  const onSubmit = async (data: PurchaseOrderFormValues) => {
+    try {
+      const payload: api.PurchaseOrderPayload = {
+        supplierName: data.supplierName,
+        pointOfSale: data.pointOfSale,
+        items: data.items.map(item => ({ barcode: item.barcode, quantity: item.quantity, purchasePrice: item.purchasePrice > 0 ? item.purchasePrice : null })),
+        notes: data.notes?.trim() || undefined,
+      };
+      if (editingOrderId) {
+        const savedOrder = await api.updatePurchaseOrder({ id: editingOrderId, ...payload });
+        upsertOrder(savedOrder);
+        toast({ title: "Orden Actualizada", description: `Se guardaron los cambios de la orden N° ${savedOrder.id.slice(-6)}.` });
+      } else {
+        const savedOrder = await api.addPurchaseOrder(payload);
+        upsertOrder(savedOrder);
+        toast({ title: "Orden Creada", description: `Borrador N° ${savedOrder.id.slice(-6)} para ${savedOrder.supplierName}. Descargue el PDF y márquela como enviada al mandarla.` });
+      }
+      handleCancelEdit();
+    } catch (error: any) {
+      console.error("Error al guardar la orden de compra:", error);
+      toast({ variant: "destructive", title: "Error al Guardar Orden", description: error.message || "No se pudo guardar la orden de compra. Intente de nuevo." });
+    }
+  };
+
+  /**
+   * Marca una orden como enviada o anulada.
+   * @param {PurchaseOrder} order - La orden.
+   * @param {'sent' | 'cancelled'} status - El nuevo estado.
+   */
+  const handleChangeStatus = useCallback(async (order: PurchaseOrder, status: 'sent' | 'cancelled') => {
+    setUpdatingOrderId(order.id);
+    try {
+      const savedOrder = await api.updatePurchaseOrder({ id: order.id, status });
+      upsertOrder(savedOrder);
+      if (editingOrderId === savedOrder.id) {
+        handleCancelEdit();
+      }
+      toast({
+        title: status === 'sent' ? "Orden Enviada" : "Orden Anulada",
+        description: status === 'sent'
+          ? `La orden N° ${savedOrder.id.slice(-6)} queda a la espera de la mercadería.`
+          : `La orden N° ${savedOrder.id.slice(-6)} ya no se puede recibir.`,
+      });
+    } catch (error: any) {
+      console.error("Error al cambiar el estado de la orden de compra:", error);
+      toast({ variant: "destructive", title: "Error al Actualizar Orden", description: error.message || "No se pudo cambiar el estado de la orden." });
+    } finally {
+      setUpdatingOrderId(null);
+    }
+  }, [upsertOrder, editingOrderId, handleCancelEdit, toast]);
+
+  if (!isClient || !isInventoryLoaded) {
+    return (
+      <div className="space-y-8">
+        <Skeleton className="h-10 w-1/3 mb-6" />
+        <Skeleton className="h-64 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-foreground">Órdenes de Compra</h1>
+        <ClipboardList className="h-8 w-8 text-primary" />
+      </div>
+      <p className="text-muted-foreground">
+        Prepara los pedidos a proveedores a partir de lo que está por agotarse. La orden enviada se recibe desde
+        Proveedores, que carga sus productos en el formulario de entrada de stock.
+      </p>
+
+      <Card className="shadow-md border border-border/60">
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <div>
+              <CardTitle className="flex items-center"><Sparkles className="mr-2 h-6 w-6 text-primary" />Sugerencias de Compra</CardTitle>
+              <CardDescription>
+                Productos en su umbral de bajo stock o por debajo (agotados incluidos) que no están en una orden abierta.
+                Se sugiere pedir hasta el doble del umbral, al precio de la última entrada.
+              </CardDescription>
+            </div>
+            <Select value={grouping} onValueChange={value => setGrouping(value as PurchaseOrderGrouping)}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="supplier">Agrupar por proveedor</SelectItem>
+                <SelectItem value="brand">Agrupar por marca</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoadingOrders ? (
+            <Skeleton className="h-48 w-full" />
+          ) : suggestions.length > 0 ? (
+            <div className="space-y-4">
+              {suggestions.map(suggestion => (
+                <div key={suggestion.key} className="border border-border/60 rounded-lg p-4 space-y-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div>
+                      <p className="font-semibold">{suggestion.label}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Para {suggestion.pointOfSale}
+                        {grouping === 'brand' && suggestion.supplierName && ` · Último proveedor: ${suggestion.supplierName}`}
+                      </p>
+                    </div>
+                    <Button size="sm" onClick={() => handleUseSuggestion(suggestion)}>
+                      <PlusCircle className="mr-1 h-4 w-4" /> Preparar Orden
+                    </Button>
+                  </div>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Producto</TableHead>
+                        <TableHead className="text-center">Stock / Umbral</TableHead>
+                        <TableHead className="text-right">Pedir</TableHead>
+                        <TableHead className="text-right">Precio Ref.</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {suggestion.items.map(item => (
+                        <TableRow key={item.barcode}>
+                          <TableCell className="text-sm">
+                            {item.productName} <span className="text-muted-foreground">({item.brandName})</span>
+                            <div className="text-xs text-muted-foreground font-mono">{item.barcode}</div>
+                          </TableCell>
+                          <TableCell className="text-center">
+                            <Badge variant={item.currentQuantity === 0 ? 'destructive' : 'secondary'}>{item.currentQuantity} / {item.threshold}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right font-semibold">{item.quantity}</TableCell>
+                          <TableCell className="text-right text-sm">{item.purchasePrice !== null ? `$${item.purchasePrice.toFixed(3)}` : '—'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-muted-foreground text-center py-6">No hay productos por reponer en tus PDV.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <div ref={formRef}>
+        <Card className="shadow-md border border-border/60">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              {editingOrderId ? <Edit className="mr-2 h-6 w-6 text-primary" /> : <PlusCircle className="mr-2 h-6 w-6 text-primary" />}
+              {editingOrderId ? `Editar Orden N° ${editingOrderId.slice(-6)}` : 'Nueva Orden de Compra'}
+            </CardTitle>
+            <CardDescription>Un precio de referencia en 0 figura como "a confirmar" en el PDF.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <FormField
+                    control={form.control}
+                    name="supplierName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Proveedor</FormLabel>
+                        <FormControl>
+                          <Input list="purchase-order-suppliers" placeholder="Ej: Distribuidora Central" autoComplete="off" {...field} />
+                        </FormControl>
+                        <datalist id="purchase-order-suppliers">
+                          {knownSuppliers.map(supplier => <option key={supplier} value={supplier} />)}
+                        </datalist>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="pointOfSale"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Entregar en</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Seleccionar PDV" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {managedPointsOfSale.map(pos => (
+                              <SelectItem key={pos} value={pos}>{pos}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <div className="grid grid-cols-[1fr_110px_140px_auto] gap-3 text-sm font-medium">
+                    <span>Producto</span>
+                    <span>Cantidad</span>
+                    <span>Precio Ref.</span>
+                    <span className="w-10" />
+                  </div>
+                  <datalist id="purchase-order-products">
+                    {allProducts.map(product => (
+                      <option key={product.barcode} value={product.barcode}>{`${product.name} (${product.brand})`}</option>
+                    ))}
+                  </datalist>
+                  {fields.map((field, index) => {
+                    const barcode = items[index]?.barcode?.trim() ?? '';
+                    const product = barcode ? getProductDetailsAnywhere(barcode) : null;
+                    return (
+                      <div key={field.id} className="grid grid-cols-[1fr_110px_140px_auto] gap-3 items-start">
+                        <FormField
+                          control={form.control}
+                          name={`items.${index}.barcode`}
+                          render={({ field: barcodeField }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input list="purchase-order-products" placeholder="Código de barras" autoComplete="off" {...barcodeField} />
+                              </FormControl>
+                              {product ? (
+                                <p className="text-xs text-muted-foreground">{product.name} ({product.brand})</p>
+                              ) : barcode ? (
+                                <p className="text-xs text-destructive">Producto no encontrado.</p>
+                              ) : null}
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`items.${index}.quantity`}
+                          render={({ field: quantityField }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input type="number" min={1} step={1} {...quantityField} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`items.${index}.purchasePrice`}
+                          render={({ field: priceField }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input type="number" min={0} step="0.001" {...priceField} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} disabled={fields.length === 1} aria-label="Quitar línea">
+                          <MinusCircle className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                  <Button type="button" variant="outline" size="sm" onClick={() => append({ ...emptyItem })}>
+                    <PlusCircle className="mr-2 h-4 w-4" /> Añadir Producto
+                  </Button>
+                  {form.formState.errors.items?.message && (
+                    <p className="text-sm font-medium text-destructive">{form.formState.errors.items.message}</p>
+                  )}
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Notas (opcional)</FormLabel>
+                      <FormControl>
+                        <Textarea placeholder="Ej: entregar por la mañana" className="min-h-[60px]" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex gap-4">
+                  <Button type="submit" disabled={form.formState.isSubmitting || managedPointsOfSale.length === 0}>
+                    {editingOrderId ? 'Guardar Cambios' : 'Crear Borrador'}
+                  </Button>
+                  {editingOrderId && (
+                    <Button type="button" variant="outline" onClick={handleCancelEdit}>
+                      <XCircle className="mr-2 h-4 w-4" /> Cancelar Edición
+                    </Button>
+                  )}
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="shadow-md border border-border/60">
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <div>
+              <CardTitle>Órdenes de Compra</CardTitle>
+              <CardDescription>Las de tus PDV, de la más reciente a la más antigua.</CardDescription>
+            </div>
+            <Select value={statusFilter} onValueChange={value => setStatusFilter(value as PurchaseOrderStatus | typeof ALL_STATUSES)}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_STATUSES}>Todos los estados</SelectItem>
+                {purchaseOrderStatusSchema.options.map(status => (
+                  <SelectItem key={status} value={status}>{getPurchaseOrderStatusLabel(status)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoadingOrders ? (
+            <Skeleton className="h-48 w-full" />
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableCaption>{visibleOrders.length} orden(es) de compra.</TableCaption>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[180px]">Fecha</TableHead>
+                    <TableHead>Proveedor</TableHead>
+                    <TableHead>PDV</TableHead>
+                    <TableHead>Productos</TableHead>
+                    <TableHead className="text-right">Total Estimado</TableHead>
+                    <TableHead>Estado</TableHead>
+                    <TableHead className="text-right">Acciones</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleOrders.length > 0 ? visibleOrders.map(order => {
+                    const isUpdating = updatingOrderId === order.id;
+                    return (
+                      <TableRow key={order.id}>
+                        <TableCell className="font-medium whitespace-nowrap text-sm">
+                          {format(order.createdAt, "d MMM, yyyy h:mm a", { locale: es })}
+                          <div className="text-xs text-muted-foreground">N° {order.id.slice(-6)} · {order.createdBy.userName}</div>
+                        </TableCell>
+                        <TableCell className="text-sm">{order.supplierName}</TableCell>
+                        <TableCell className="text-sm">{order.pointOfSale}</TableCell>
+                        <TableCell>
+                          <ul className="list-none space-y-1">
+                            {order.items.map(item => (
+                              <li key={`${order.id}-${item.barcode}`} className="text-xs">
+                                {item.productName} ({item.brandName}) - Cant: {item.quantity}
+                              </li>
+                            ))}
+                          </ul>
+                          {order.notes && <p className="text-xs text-muted-foreground italic mt-1">{order.notes}</p>}
+                        </TableCell>
+                        <TableCell className="text-right text-sm">${getPurchaseOrderTotal(order).toFixed(3)}</TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_BADGE_VARIANTS[order.status]}>{getPurchaseOrderStatusLabel(order.status)}</Badge>
+                          {order.sentAt && (
+                            <div className="text-xs text-muted-foreground mt-1">Enviada el {format(order.sentAt, "d MMM, h:mm a", { locale: es })}</div>
+                          )}
+                          {order.receivedAt && (
+                            <div className="text-xs text-muted-foreground">Recibida el {format(order.receivedAt, "d MMM, h:mm a", { locale: es })}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex flex-wrap justify-end gap-2">
+                            {order.status === 'draft' && (
+                              <>
+                                <Button variant="outline" size="sm" onClick={() => handleEditOrder(order)} disabled={isUpdating}>
+                                  <Edit className="mr-1 h-4 w-4" /> Editar
+                                </Button>
+                                <Button size="sm" onClick={() => handleChangeStatus(order, 'sent')} disabled={isUpdating}>
+                                  <Send className="mr-1 h-4 w-4" /> Marcar Enviada
+                                </Button>
+                              </>
+                            )}
+                            {isPurchaseOrderOpen(order) && can('receive_stock', order.pointOfSale) && (
+                              <Button variant="outline" size="sm" asChild>
+                                <Link href={`/suppliers?purchaseOrder=${order.id}`}>
+                                  <PackageCheck className="mr-1 h-4 w-4" /> Recibir
+                                </Link>
+                              </Button>
+                            )}
+                            {isPurchaseOrderOpen(order) && (
+                              <Button variant="destructive" size="sm" onClick={() => handleChangeStatus(order, 'cancelled')} disabled={isUpdating}>
+                                <Ban className="mr-1 h-4 w-4" /> Anular
+                              </Button>
+                            )}
+                            <Button variant="outline" size="sm" onClick={() => downloadPurchaseOrderPdf(order)}>
+                              <FileText className="mr-1 h-4 w-4" /> PDF
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  }) : (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground py-6">
+                        {statusFilter === ALL_STATUSES ? 'Aún no hay órdenes de compra.' : 'No hay órdenes en este estado.'}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,534 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import Image from 'next/image';
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { format, startOfDay, endOfDay } from 'date-fns';
+import { es } from 'date-fns/locale';
+import type { DateRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableCaption } from "@/components/ui/table";
+import { Skeleton } from '@/components/ui/skeleton';
+import { DatePickerWithRange } from "@/components/DatePickerWithRange";
+import { PackageMinus, PieChart, Search, XCircle } from 'lucide-react';
+import { useToast } from "@/hooks/use-toast";
+import { useInventoryContext, type Product as InventoryProduct } from '@/context/InventoryContext';
+import { useAuth } from '@/context/AuthContext';
+import * as api from '@/lib/api';
+import {
+  buildShrinkageReport,
+  getStockAdjustmentReasonLabel,
+  searchProductsInPos,
+  stockAdjustmentFormSchema,
+  stockAdjustmentReasonSchema,
+  type StockAdjustment,
+  type StockAdjustmentFormValues,
+} from '@/lib/domain';
+
+// Valor del filtro de PDV que muestra todos los PDV del usuario.
+const ALL_POINTS_OF_SALE = 'all';
+
+const placeholderSvg = "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTAiIGhlaWdodD0iNTAiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PHJlY3Qgd2lkdGg9IjEwMCUiIGhlaWdodD0iMTAwJSIgZmlsbD0iI2VlZSIvPjx0ZXh0IHg9IjUwJSIgeT0iNTAlIiBkb21pbmFudC1iYXNlbGluZT1taWRkbGUiIHRleHQtYW5jaG9yPSJtaWRkbGUiIGZpbGw9IiNhYWEiPk5vIEltYWdlPC90ZXh0Pjwvc3ZnPg==";
+
+/**
+ * Formatea una cantidad con su signo.
+ * @param {number} quantity - La cantidad.
+ * @returns {string} La cantidad con "+" si es positiva.
+ */
+function formatSignedQuantity(quantity: number): string {
+  return quantity > 0 ? `+${quantity}` : String(quantity);
+}
+
+/**
+ * Página de ajustes de stock. Da de baja (o de alta) unidades de un producto en un PDV por rotura, robo,
+ * vencimiento o tester, sin registrarlas como venta, y muestra el informe de mermas por motivo y marca.
+ * Solo accesible con la capacidad `adjust_stock` (ver `ROUTE_PERMISSIONS`).
+ *
+ * @returns {JSX.Element} La interfaz de usuario de la página de ajustes de stock.
+ */
+export default function StockAdjustmentsPage(): JSX.Element {
+  const { toast } = useToast();
+  const { inventory, getPointsOfSaleForUser, getProductDetailsInPos, isInventoryLoaded, refetchInventory } = useInventoryContext();
+  const { can } = useAuth();
+
+  const [isClient, setIsClient] = useState(false);
+  const [adjustments, setAdjustments] = useState<StockAdjustment[]>([]);
+  const [isLoadingAdjustments, setIsLoadingAdjustments] = useState(true);
+  const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined);
+  const [pointOfSaleFilter, setPointOfSaleFilter] = useState<string>(ALL_POINTS_OF_SALE);
+  const [productQuery, setProductQuery] = useState("");
+  const [isSuggestionsOpen, setIsSuggestionsOpen] = useState(false);
+  const [activeSuggestionIndex, setActiveSuggestionIndex] = useState(-1);
+
+  // PDV en los que el usuario puede ajustar stock.
+  const adjustingPointsOfSale = useMemo(
+    () => getPointsOfSaleForUser().filter(pos => can('adjust_stock', pos)),
+    [getPointsOfSaleForUser, can]
+  );
+
+  const form = useForm<StockAdjustmentFormValues>({
+    resolver: zodResolver(stockAdjustmentFormSchema),
+    defaultValues: { pointOfSale: "", barcode: "", quantity: -1, reason: undefined, notes: "" },
+  });
+  const selectedPointOfSale = form.watch("pointOfSale");
+  const selectedBarcode = form.watch("barcode");
+  const quantity = form.watch("quantity");
+
+  const selectedProduct = useMemo(
+    () => (selectedPointOfSale && selectedBarcode ? getProductDetailsInPos(selectedPointOfSale, selectedBarcode) : null),
+    [getProductDetailsInPos, selectedPointOfSale, selectedBarcode]
+  );
+  const suggestions = useMemo(
+    () => (productQuery.trim() && !selectedProduct ? searchProductsInPos(inventory[selectedPointOfSale], productQuery.trim()) : []),
+    [inventory, selectedPointOfSale, productQuery, selectedProduct]
+  );
+  const resultingQuantity = selectedProduct && Number.isInteger(Number(quantity)) ? selectedProduct.quantity + Number(quantity) : null;
+
+  const visibleAdjustments = useMemo(
+    () => adjustments.filter(adjustment => adjustingPointsOfSale.includes(adjustment.pointOfSale)),
+    [adjustments, adjustingPointsOfSale]
+  );
+  const shrinkageReport = useMemo(() => buildShrinkageReport(visibleAdjustments), [visibleAdjustments]);
+  const shrinkageTotals = useMemo(
+    () => shrinkageReport.reduce((totals, group) => ({ units: totals.units + group.units, value: totals.value + group.value }), { units: 0, value: 0 }),
+    [shrinkageReport]
+  );
+
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  useEffect(() => {
+    if (!form.getValues("pointOfSale") && adjustingPointsOfSale.length > 0) {
+      form.setValue("pointOfSale", adjustingPointsOfSale[0]);
+    }
+  }, [adjustingPointsOfSale, form]);
+
+  /**
+   * Carga los ajustes del período y el PDV elegidos.
+   */
+  const fetchAdjustments = useCallback(async () => {
+    setIsLoadingAdjustments(true);
+    try {
+      setAdjustments(await api.getStockAdjustments({
+        from: dateRange?.from ? startOfDay(dateRange.from) : null,
+        to: dateRange?.from ? endOfDay(dateRange.to || dateRange.from) : null,
+        pointOfSale: pointOfSaleFilter === ALL_POINTS_OF_SALE ? null : pointOfSaleFilter,
+      }));
+    } catch (error: any) {
+      console.error("Error al cargar los ajustes de stock:", error);
+      toast({ variant: "destructive", title: "Error al Cargar Ajustes", description: error.message || "No se pudieron obtener los ajustes de stock." });
+    } finally {
+      setIsLoadingAdjustments(false);
+    }
+  }, [dateRange, pointOfSaleFilter, toast]);
+
+  useEffect(() => {
+    if (isClient) {
+      fetchAdjustments();
+    }
+  }, [isClient, fetchAdjustments]);
+
+  /**
+   * Elige el producto a ajustar y cierra las sugerencias.
+   * @param {InventoryProduct} product - El producto.
+   */
+  const handleSelectProduct = useCallback((product: InventoryProduct) => {
+    form.setValue("barcode", product.barcode, { shouldValidate: true });
+    setProductQuery(product.name);
+    setIsSuggestionsOpen(false);
+    setActiveSuggestionIndex(-1);
+    setTimeout(() => form.setFocus("quantity"), 0);
+  }, [form]);
+
+  const handleClearProduct = useCallback(() => {
+    form.setValue("barcode", "");
+    setProductQuery("");
+    setActiveSuggestionIndex(-1);
+  }, [form]);
+
+  /**
+   * Navega las sugerencias con el teclado. Enter elige la sugerencia activa o, si el texto es un código de barras
+   * exacto (p. ej., leído con el escáner), ese producto.
+   * @param {React.KeyboardEvent<HTMLInputElement>} event - El evento de teclado del buscador.
+   */
+  const handleSearchKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' && suggestions.length > 0) {
+      event.preventDefault();
+      setIsSuggestionsOpen(true);
+      setActiveSuggestionIndex(prev => (prev + 1) % suggestions.length);
+    } else if (event.key === 'ArrowUp' && suggestions.length > 0) {
+      event.preventDefault();
+      setActiveSuggestionIndex(prev => (prev - 1 + suggestions.length) % suggestions.length);
+    } else if (event.key === 'Escape') {
+      setIsSuggestionsOpen(false);
+      setActiveSuggestionIndex(-1);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      const exactMatch = suggestions.find(product => product.barcode === productQuery.trim());
+      const product = suggestions[activeSuggestionIndex] ?? exactMatch;
+      if (product) {
+        handleSelectProduct(product);
+      }
+    }
+  };
+
+  const onSubmit = async (data: StockAdjustmentFormValues) => {
+    try {
+      const savedAdjustment = await api.addStockAdjustment({
+        pointOfSale: data.pointOfSale,
+        barcode: data.barcode,
+        quantity: data.quantity,
+        reason: data.reason,
+        notes: data.notes?.trim() || undefined,
+      });
+      form.reset({ pointOfSale: data.pointOfSale, barcode: "", quantity: -1, reason: data.reason, notes: "" });
+      setProductQuery("");
+      toast({
+        title: "Ajuste Registrado",
+        description: `${savedAdjustment.productName}: ${formatSignedQuantity(savedAdjustment.quantity)} por ${getStockAdjustmentReasonLabel(savedAdjustment.reason).toLowerCase()}. Stock: ${savedAdjustment.quantityBefore} → ${savedAdjustment.quantityAfter}.`,
+      });
+      await Promise.all([refetchInventory(), fetchAdjustments()]);
+    } catch (error: any) {
+      console.error("Error al registrar el ajuste de stock:", error);
+      toast({ variant: "destructive", title: "Error al Registrar Ajuste", description: error.message || "No se pudo registrar el ajuste. Intente de nuevo." });
+    }
+  };
+
+  if (!isClient || !isInventoryLoaded) {
+    return (
+      <div className="space-y-8">
+        <Skeleton className="h-10 w-1/3 mb-6" />
+        <Skeleton className="h-64 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-foreground">Ajustes de Stock</h1>
+        <PackageMinus className="h-8 w-8 text-primary" />
+      </div>
+      <p className="text-muted-foreground">
+        Da de baja los productos rotos, robados, vencidos o usados como tester sin registrarlos como venta, para que
+        no alteren los informes de ventas. Cada ajuste queda en el historial con su motivo.
+      </p>
+
+      <Card className="shadow-md border border-border/60">
+        <CardHeader>
+          <CardTitle>Nuevo Ajuste</CardTitle>
+          <CardDescription>Una cantidad negativa da de baja unidades; una positiva las repone (p. ej., un tester que vuelve a la venta).</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FormField
+                  control={form.control}
+                  name="pointOfSale"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Punto de Venta</FormLabel>
+                      <Select
+                        onValueChange={value => {
+                          field.onChange(value);
+                          handleClearProduct();
+                        }}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Seleccionar PDV" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {adjustingPointsOfSale.map(pos => (
+                            <SelectItem key={pos} value={pos}>{pos}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="barcode"
+                  render={() => (
+                    <FormItem>
+                      <FormLabel>Producto</FormLabel>
+                      <div className="relative">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                        <FormControl>
+                          <Input
+                            value={productQuery}
+                            onChange={e => {
+                              setProductQuery(e.target.value);
+                              setIsSuggestionsOpen(true);
+                              setActiveSuggestionIndex(-1);
+                              if (form.getValues("barcode")) {
+                                form.setValue("barcode", "");
+                              }
+                            }}
+                            onKeyDown={handleSearchKeyDown}
+                            onBlur={() => setIsSuggestionsOpen(false)}
+                            placeholder="Escanear o buscar producto/código..."
+                            className="pl-10"
+                            autoComplete="off"
+                            disabled={!selectedPointOfSale}
+                          />
+                        </FormControl>
+                        {isSuggestionsOpen && suggestions.length > 0 && (
+                          <div className="absolute z-10 mt-1 w-full rounded-md border bg-popover shadow-md max-h-60 overflow-y-auto" role="listbox">
+                            {suggestions.map((product, index) => (
+                              <button
+                                key={product.id}
+                                type="button"
+                                className={`flex items-center w-full px-4 py-2 text-sm focus:outline-none ${activeSuggestionIndex === index ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/80'}`}
+                                onClick={() => handleSelectProduct(product)}
+                                onMouseDown={e => e.preventDefault()}
+                                role="option"
+                                aria-selected={activeSuggestionIndex === index}
+                              >
+                                <Image
+                                  src={product.imageUrl || `https://placehold.co/30x30.png`}
+                                  alt={product.name || "Imagen del producto"}
+                                  width={30} height={30}
+                                  className="rounded-sm object-cover mr-3 border border-border/30"
+                                  data-ai-hint={product['data-ai-hint'] || "producto belleza"}
+                                  onError={e => {
+                                    const target = e.target as HTMLImageElement;
+                                    if (target.src !== placeholderSvg) { target.src = placeholderSvg; }
+                                    target.onerror = null;
+                                  }}
+                                />
+                                <div className="flex-grow text-left">
+                                  <span className="font-medium">{product.name}</span>
+                                  <span className="text-xs text-muted-foreground ml-2">({product.brand})</span>
+                                </div>
+                                <span className="text-xs text-muted-foreground ml-auto mr-2">{product.barcode}</span>
+                                <Badge variant="outline" className="text-xs px-1.5 py-0.5">Stock: {product.quantity}</Badge>
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      {selectedProduct && (
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                          <span>{selectedProduct.brand} · {selectedProduct.barcode} · Stock: {selectedProduct.quantity}</span>
+                          <Button type="button" variant="ghost" size="sm" className="h-auto p-0 text-xs" onClick={handleClearProduct}>
+                            <XCircle className="h-3 w-3 mr-1" /> Cambiar
+                          </Button>
+                        </div>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="quantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Cantidad</FormLabel>
+                      <FormControl>
+                        <Input type="number" step={1} {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        {resultingQuantity !== null
+                          ? `Stock resultante: ${resultingQuantity}${resultingQuantity < 0 ? ' (no puede quedar negativo)' : ''}`
+                          : 'Negativa para dar de baja.'}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="reason"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Motivo</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Seleccionar motivo" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {stockAdjustmentReasonSchema.options.map(reason => (
+                            <SelectItem key={reason} value={reason}>{getStockAdjustmentReasonLabel(reason)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notas (opcional)</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Ej: frasco roto al reponer la góndola" className="min-h-[60px]" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" disabled={form.formState.isSubmitting || adjustingPointsOfSale.length === 0}>
+                {form.formState.isSubmitting ? 'Registrando...' : 'Registrar Ajuste'}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-md border border-border/60">
+        <CardHeader>
+          <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4">
+            <div>
+              <CardTitle className="flex items-center"><PieChart className="mr-2 h-6 w-6 text-primary" />Informe de Mermas</CardTitle>
+              <CardDescription>
+                Unidades perdidas por motivo y marca, valoradas al precio de venta del momento del ajuste. Las altas
+                descuentan de las bajas del mismo motivo y marca.
+              </CardDescription>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <DatePickerWithRange onDateChange={setDateRange} />
+              <Select value={pointOfSaleFilter} onValueChange={setPointOfSaleFilter}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_POINTS_OF_SALE}>Todos mis PDV</SelectItem>
+                  {adjustingPointsOfSale.map(pos => (
+                    <SelectItem key={pos} value={pos}>{pos}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoadingAdjustments ? (
+            <Skeleton className="h-48 w-full" />
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableCaption>
+                  Total: {shrinkageTotals.units} unidad(es) · ${shrinkageTotals.value.toFixed(3)}
+                </TableCaption>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Motivo / Marca</TableHead>
+                    <TableHead className="text-right">Ajustes</TableHead>
+                    <TableHead className="text-right">Unidades</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {shrinkageReport.length > 0 ? shrinkageReport.map(group => (
+                    <React.Fragment key={group.reason}>
+                      <TableRow className="bg-muted/40 font-semibold">
+                        <TableCell>{getStockAdjustmentReasonLabel(group.reason)}</TableCell>
+                        <TableCell className="text-right">{group.adjustments}</TableCell>
+                        <TableCell className="text-right">{group.units}</TableCell>
+                        <TableCell className="text-right">${group.value.toFixed(3)}</TableCell>
+                      </TableRow>
+                      {group.brands.map(row => (
+                        <TableRow key={`${group.reason}-${row.brandName}`}>
+                          <TableCell className="pl-8 text-sm">{row.brandName}</TableCell>
+                          <TableCell className="text-right text-sm">{row.adjustments}</TableCell>
+                          <TableCell className="text-right text-sm">{row.units}</TableCell>
+                          <TableCell className="text-right text-sm">${row.value.toFixed(3)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </React.Fragment>
+                  )) : (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground py-6">No hay ajustes en el período.</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-md border border-border/60">
+        <CardHeader>
+          <CardTitle>Ajustes Registrados</CardTitle>
+          <CardDescription>Los del período y PDV del informe, del más reciente al más antiguo.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingAdjustments ? (
+            <Skeleton className="h-48 w-full" />
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableCaption>{visibleAdjustments.length} ajuste(s).</TableCaption>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[180px]">Fecha</TableHead>
+                    <TableHead>PDV</TableHead>
+                    <TableHead>Producto</TableHead>
+                    <TableHead>Motivo</TableHead>
+                    <TableHead className="text-right">Cantidad</TableHead>
+                    <TableHead className="text-center">Stock</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleAdjustments.length > 0 ? visibleAdjustments.map(adjustment => (
+                    <TableRow key={adjustment.id}>
+                      <TableCell className="font-medium whitespace-nowrap text-sm">
+                        {format(adjustment.createdAt, "d MMM, yyyy h:mm a", { locale: es })}
+                        <div className="text-xs text-muted-foreground">{adjustment.createdBy.userName}</div>
+                      </TableCell>
+                      <TableCell className="text-sm">{adjustment.pointOfSale}</TableCell>
+                      <TableCell className="text-sm">
+                        {adjustment.productName} <span className="text-muted-foreground">({adjustment.brandName})</span>
+                        <div className="text-xs text-muted-foreground font-mono">{adjustment.barcode}</div>
+                        {adjustment.notes && <p className="text-xs text-muted-foreground italic mt-1">{adjustment.notes}</p>}
+                      </TableCell>
+                      <TableCell><Badge variant="secondary">{getStockAdjustmentReasonLabel(adjustment.reason)}</Badge></TableCell>
+                      <TableCell className="text-right">
+                        <Badge variant={adjustment.quantity < 0 ? 'destructive' : 'outline'}>{formatSignedQuantity(adjustment.quantity)}</Badge>
+                      </TableCell>
+                      <TableCell className="text-center text-sm whitespace-nowrap">{adjustment.quantityBefore} → {adjustment.quantityAfter}</TableCell>
+                    </TableRow>
+                  )) : (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground py-6">No hay ajustes en el período.</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,793 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableCaption } from "@/components/ui/table";
+import { Skeleton } from '@/components/ui/skeleton';
+import { Ban, Barcode, CheckCircle2, ClipboardCheck, FileSpreadsheet, FileText, FolderOpen, PlusCircle, Save, XCircle } from 'lucide-react';
+import { useToast } from "@/hooks/use-toast";
+import { useInventoryContext } from '@/context/InventoryContext';
+import { useAuth } from '@/context/AuthContext';
+import * as api from '@/lib/api';
+import {
+  getStockCountStatusLabel,
+  getStockCountSummary,
+  getStockCountVariance,
+  stockCountFormSchema,
+  stockCountStatusSchema,
+  type StockCount,
+  type StockCountFormValues,
+  type StockCountItem,
+  type StockCountStatus,
+} from '@/lib/domain';
+
+// Valor del filtro de estado que muestra todos los conteos.
+const ALL_STATUSES = 'all';
+
+// Valor del selector de marca que cuenta todo el PDV.
+const ALL_BRANDS = 'all';
+
+/** Líneas visibles del conteo abierto. */
+type ItemFilter = 'all' | 'pending' | 'variance';
+
+const STATUS_BADGE_VARIANTS: Record<StockCountStatus, 'secondary' | 'default' | 'outline' | 'destructive'> = {
+  counting: 'secondary',
+  posted: 'default',
+  cancelled: 'destructive',
+};
+
+/**
+ * Formatea una diferencia con su signo.
+ * @param {number | null} variance - La diferencia.
+ * @returns {string} La diferencia con signo, o un guion si la línea no se contó.
+ */
+function formatVariance(variance: number | null): string {
+  if (variance === null) return '-';
+  return variance > 0 ? `+${variance}` : String(variance);
+}
+
+/**
+ * Nombre base de los archivos exportados de un conteo.
+ * @param {StockCount} count - El conteo.
+ * @returns {string} El nombre sin extensión.
+ */
+function getStockCountFileName(count: StockCount): string {
+  return `conteo_${count.pointOfSale.replace(/\s+/g, '_')}_${format(count.createdAt, "yyyyMMdd")}_${count.id.slice(-6)}`;
+}
+
+/**
+ * Genera y descarga el conteo en PDF, con la cantidad del sistema, la contada y la diferencia de cada producto.
+ * @param {StockCount} count - El conteo.
+ */
+function downloadStockCountPdf(count: StockCount): void {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 14;
+  const summary = getStockCountSummary(count);
+
+  doc.setFontSize(18);
+  doc.text("CONTEO DE STOCK", margin, 18);
+  doc.setFontSize(10);
+  doc.text(`N° ${count.id.slice(-10)}`, pageWidth - margin, 18, { align: 'right' });
+
+  const headerLines = [
+    `Punto de venta: ${count.pointOfSale}`,
+    `Marca: ${count.brand ?? 'Todas'}`,
+    `Iniciado: ${format(count.createdAt, "dd/MM/yyyy HH:mm", { locale: es })} por ${count.createdBy.userName}`,
+    `Estado: ${getStockCountStatusLabel(count.status)}`,
+    ...(count.postedAt && count.postedBy
+      ? [`Contabilizado: ${format(count.postedAt, "dd/MM/yyyy HH:mm", { locale: es })} por ${count.postedBy.userName}`]
+      : []),
+    ...(count.reason ? [`Motivo: ${count.reason}`] : []),
+    `Contados: ${summary.counted} de ${count.items.length} · Con diferencia: ${summary.withVariance} · Diferencia total: ${formatVariance(summary.unitsVariance)}`,
+  ];
+  headerLines.forEach((line, index) => doc.text(line, margin, 28 + index * 5));
+  let nextY = 28 + headerLines.length * 5;
+  if (count.notes) {
+    const notesLines = doc.splitTextToSize(`Notas: ${count.notes}`, pageWidth - margin * 2);
+    doc.text(notesLines, margin, nextY);
+    nextY += notesLines.length * 5;
+  }
+
+  autoTable(doc, {
+    head: [["Código", "Producto", "Marca", "Sistema", "Contado", "Diferencia"]],
+    body: count.items.map(item => [
+      item.barcode,
+      item.productName,
+      item.brandName,
+      item.expectedQuantity,
+      item.countedQuantity ?? 'Sin contar',
+      formatVariance(getStockCountVariance(item)),
+    ]),
+    startY: nextY + 2,
+    theme: 'grid',
+    headStyles: { fillColor: [22, 160, 133] },
+    styles: { fontSize: 9, cellPadding: 2, overflow: 'linebreak' },
+    columnStyles: {
+      0: { cellWidth: 32 },
+      1: { cellWidth: 'auto' },
+      2: { cellWidth: 28 },
+      3: { cellWidth: 20, halign: 'right' },
+      4: { cellWidth: 22, halign: 'right' },
+      5: { cellWidth: 22, halign: 'right' },
+    },
+  });
+
+  doc.save(`${getStockCountFileName(count)}.pdf`);
+}
+
+/**
+ * Genera y descarga el conteo en CSV (separado por punto y coma, con BOM para que Excel respete los acentos).
+ * @param {StockCount} count - El conteo.
+ */
+function downloadStockCountCsv(count: StockCount): void {
+  const escapeCell = (value: string | number) => {
+    const text = String(value);
+    return /[";\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows: (string | number)[][] = [
+    ["Código", "Producto", "Marca", "Sistema", "Contado", "Diferencia", "Ajuste"],
+    ...count.items.map(item => [
+      item.barcode,
+      item.productName,
+      item.brandName,
+      item.expectedQuantity,
+      item.countedQuantity ?? '',
+      getStockCountVariance(item) ?? '',
+      item.adjustment ?? '',
+    ]),
+  ];
+  const csv = rows.map(row => row.map(escapeCell).join(';')).join('\n');
+  const url = URL.createObjectURL(new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${getStockCountFileName(count)}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Página de conteos de stock. Inicia conteos por PDV (o por marca dentro de un PDV) con la cantidad del sistema como
+ * esperada, permite cargar lo contado escaneando códigos de barras o a mano, muestra las diferencias y deja que un
+ * encargado las contabilice con un motivo. Los conteos se descargan en PDF o CSV.
+ * Solo accesible con la capacidad `count_stock` (ver `ROUTE_PERMISSIONS`); contabilizar y anular requieren
+ * `post_stock_counts`.
+ *
+ * @returns {JSX.Element} La interfaz de usuario de la página de conteos de stock.
+ */
+export default function StockCountsPage(): JSX.Element {
+  const { toast } = useToast();
+  const { inventory, getPointsOfSaleForUser, isInventoryLoaded, refetchInventory } = useInventoryContext();
+  const { can } = useAuth();
+
+  const [isClient, setIsClient] = useState(false);
+  const [counts, setCounts] = useState<StockCount[]>([]);
+  const [isLoadingCounts, setIsLoadingCounts] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<StockCountStatus | typeof ALL_STATUSES>(ALL_STATUSES);
+  const [activeCountId, setActiveCountId] = useState<string | null>(null);
+  // Cantidades cargadas en pantalla y aún no guardadas, por código de barras.
+  const [pendingCounts, setPendingCounts] = useState<Record<string, number | null>>({});
+  const [scanValue, setScanValue] = useState("");
+  const [lastScanned, setLastScanned] = useState<string | null>(null);
+  const [itemFilter, setItemFilter] = useState<ItemFilter>('all');
+  const [reason, setReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isPosting, setIsPosting] = useState(false);
+  const [updatingCountId, setUpdatingCountId] = useState<string | null>(null);
+  const activeCountRef = React.useRef<HTMLDivElement>(null);
+  const scanInputRef = React.useRef<HTMLInputElement>(null);
+
+  // PDV en los que el usuario puede contar.
+  const countingPointsOfSale = useMemo(
+    () => getPointsOfSaleForUser().filter(pos => can('count_stock', pos)),
+    [getPointsOfSaleForUser, can]
+  );
+
+  const form = useForm<StockCountFormValues>({
+    resolver: zodResolver(stockCountFormSchema),
+    defaultValues: { pointOfSale: "", brand: ALL_BRANDS, notes: "" },
+  });
+  const selectedPointOfSale = form.watch("pointOfSale");
+  const brandsInPointOfSale = useMemo(
+    () => Object.keys(inventory[selectedPointOfSale] || {}).sort((a, b) => a.localeCompare(b, 'es')),
+    [inventory, selectedPointOfSale]
+  );
+
+  const visibleCounts = useMemo(
+    () => counts.filter(count => countingPointsOfSale.includes(count.pointOfSale) && (statusFilter === ALL_STATUSES || count.status === statusFilter)),
+    [counts, countingPointsOfSale, statusFilter]
+  );
+  const activeCount = useMemo(() => counts.find(count => count.id === activeCountId) ?? null, [counts, activeCountId]);
+
+  // El conteo abierto con las cantidades aún no guardadas aplicadas.
+  const activeItems = useMemo<StockCountItem[]>(
+    () => (activeCount?.items ?? []).map(item => (item.barcode in pendingCounts ? { ...item, countedQuantity: pendingCounts[item.barcode] } : item)),
+    [activeCount, pendingCounts]
+  );
+  const activeSummary = useMemo(() => getStockCountSummary({ items: activeItems }), [activeItems]);
+  const visibleItems = useMemo(
+    () => activeItems.filter(item => {
+      if (itemFilter === 'pending') return item.countedQuantity === null;
+      if (itemFilter === 'variance') {
+        const variance = getStockCountVariance(item);
+        return variance !== null && variance !== 0;
+      }
+      return true;
+    }),
+    [activeItems, itemFilter]
+  );
+  const hasPendingChanges = Object.keys(pendingCounts).length > 0;
+  const isActiveCountOpen = activeCount?.status === 'counting';
+
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  useEffect(() => {
+    if (!form.getValues("pointOfSale") && countingPointsOfSale.length > 0) {
+      form.setValue("pointOfSale", countingPointsOfSale[0]);
+    }
+  }, [countingPointsOfSale, form]);
+
+  /**
+   * Carga los conteos de stock.
+   */
+  const fetchCounts = useCallback(async () => {
+    setIsLoadingCounts(true);
+    try {
+      setCounts(await api.getStockCounts());
+    } catch (error: any) {
+      console.error("Error al cargar los conteos de stock:", error);
+      toast({ variant: "destructive", title: "Error al Cargar Conteos", description: error.message || "No se pudieron obtener los conteos de stock." });
+    } finally {
+      setIsLoadingCounts(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (isClient) {
+      fetchCounts();
+    }
+  }, [isClient, fetchCounts]);
+
+  /**
+   * Sustituye un conteo de la lista por su versión guardada, o lo añade al principio si es nuevo.
+   * @param {StockCount} savedCount - El conteo devuelto por el backend.
+   */
+  const upsertCount = useCallback((savedCount: StockCount) => {
+    setCounts(prev => prev.some(c => c.id === savedCount.id)
+      ? prev.map(c => (c.id === savedCount.id ? savedCount : c))
+      : [savedCount, ...prev]);
+  }, []);
+
+  /**
+   * Abre un conteo en el panel de carga, descartando lo no guardado del anterior.
+   * @param {string | null} countId - El ID del conteo, o null para cerrar el panel.
+   */
+  const openCount = useCallback((countId: string | null) => {
+    setActiveCountId(countId);
+    setPendingCounts({});
+    setLastScanned(null);
+    setScanValue("");
+    setReason("");
+    setItemFilter('all');
+    if (countId) {
+      setTimeout(() => {
+        activeCountRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        scanInputRef.current?.focus();
+      }, 0);
+    }
+  }, []);
+
+  const onSubmit = async (data: StockCountFormValues) => {
+    try {
+      const savedCount = await api.addStockCount({
+        pointOfSale: data.pointOfSale,
+        brand: data.brand && data.brand !== ALL_BRANDS ? data.brand : null,
+        notes: data.notes?.trim() || undefined,
+      });
+      upsertCount(savedCount);
+      form.reset({ pointOfSale: data.pointOfSale, brand: ALL_BRANDS, notes: "" });
+      openCount(savedCount.id);
+      toast({ title: "Conteo Iniciado", description: `${savedCount.items.length} producto(s) a contar en ${savedCount.pointOfSale}.` });
+    } catch (error: any) {
+      console.error("Error al iniciar el conteo:", error);
+      toast({ variant: "destructive", title: "Error al Iniciar Conteo", description: error.message || "No se pudo iniciar el conteo. Intente de nuevo." });
+    }
+  };
+
+  /**
+   * Cambia la cantidad contada de una línea en pantalla; se guarda con "Guardar Conteo".
+   * @param {string} barcode - El código de barras.
+   * @param {number | null} countedQuantity - La cantidad contada, o null para dejarla sin contar.
+   */
+  const setCountedQuantity = useCallback((barcode: string, countedQuantity: number | null) => {
+    setPendingCounts(prev => ({ ...prev, [barcode]: countedQuantity }));
+  }, []);
+
+  /**
+   * Suma una unidad al producto escaneado. Los lectores de códigos de barras escriben el código y pulsan Enter.
+   * @param {React.KeyboardEvent<HTMLInputElement>} event - El evento de teclado del campo de escaneo.
+   */
+  const handleScanKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key !== 'Enter') return;
+    event.preventDefault();
+    const barcode = scanValue.trim();
+    if (!barcode) return;
+    const item = activeItems.find(i => i.barcode === barcode);
+    setScanValue("");
+    if (!item) {
+      toast({ variant: "destructive", title: "Producto Fuera del Conteo", description: `El código ${barcode} no forma parte de este conteo.` });
+      return;
+    }
+    setCountedQuantity(barcode, (item.countedQuantity ?? 0) + 1);
+    setLastScanned(barcode);
+  };
+
+  /**
+   * Guarda en el backend las cantidades cargadas en pantalla.
+   * @returns {Promise<boolean>} true si se guardó (o no había cambios).
+   */
+  const saveActiveCount = useCallback(async (): Promise<boolean> => {
+    if (!activeCount || !hasPendingChanges) return true;
+    setIsSaving(true);
+    try {
+      const savedCount = await api.updateStockCount({
+        id: activeCount.id,
+        counts: Object.entries(pendingCounts).map(([barcode, countedQuantity]) => ({ barcode, countedQuantity })),
+      });
+      upsertCount(savedCount);
+      setPendingCounts({});
+      return true;
+    } catch (error: any) {
+      console.error("Error al guardar el conteo:", error);
+      toast({ variant: "destructive", title: "Error al Guardar Conteo", description: error.message || "No se pudieron guardar las cantidades contadas." });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [activeCount, hasPendingChanges, pendingCounts, upsertCount, toast]);
+
+  const handleSave = async () => {
+    if (await saveActiveCount()) {
+      toast({ title: "Conteo Guardado", description: "Las cantidades contadas quedaron guardadas." });
+    }
+  };
+
+  /**
+   * Guarda lo pendiente y contabiliza el conteo abierto: el backend ajusta el stock por las diferencias.
+   */
+  const handlePost = async () => {
+    if (!activeCount) return;
+    if (!reason.trim()) {
+      toast({ variant: "destructive", title: "Falta el Motivo", description: "Indique el motivo de los ajustes antes de contabilizar." });
+      return;
+    }
+    if (!(await saveActiveCount())) return;
+    setIsPosting(true);
+    try {
+      const postedCount = await api.postStockCount(activeCount.id, reason.trim());
+      upsertCount(postedCount);
+      setReason("");
+      const adjustedLines = postedCount.items.filter(item => item.adjustment !== null && item.adjustment !== 0).length;
+      toast({ title: "Conteo Contabilizado", description: `Se ajustó el stock de ${adjustedLines} producto(s) en ${postedCount.pointOfSale}.` });
+      await refetchInventory();
+    } catch (error: any) {
+      console.error("Error al contabilizar el conteo:", error);
+      toast({ variant: "destructive", title: "Error al Contabilizar", description: error.message || "No se pudo contabilizar el conteo." });
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  /**
+   * Anula un conteo abierto sin tocar el stock.
+   * @param {StockCount} count - El conteo.
+   */
+  const handleCancelCount = useCallback(async (count: StockCount) => {
+    setUpdatingCountId(count.id);
+    try {
+      const savedCount = await api.updateStockCount({ id: count.id, status: 'cancelled' });
+      upsertCount(savedCount);
+      if (activeCountId === savedCount.id) {
+        setPendingCounts({});
+      }
+      toast({ title: "Conteo Anulado", description: `El conteo N° ${savedCount.id.slice(-6)} se anuló sin ajustar el stock.` });
+    } catch (error: any) {
+      console.error("Error al anular el conteo:", error);
+      toast({ variant: "destructive", title: "Error al Anular Conteo", description: error.message || "No se pudo anular el conteo." });
+    } finally {
+      setUpdatingCountId(null);
+    }
+  }, [activeCountId, upsertCount, toast]);
+
+  if (!isClient || !isInventoryLoaded) {
+    return (
+      <div className="space-y-8">
+        <Skeleton className="h-10 w-1/3 mb-6" />
+        <Skeleton className="h-48 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  const lastScannedItem = lastScanned ? activeItems.find(item => item.barcode === lastScanned) : undefined;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-foreground">Conteos de Stock</h1>
+        <ClipboardCheck className="h-8 w-8 text-primary" />
+      </div>
+      <p className="text-muted-foreground">
+        Recuento físico de un punto de venta o de una marca. Al iniciarlo se toma la cantidad del sistema; al
+        contabilizarlo el stock se ajusta por la diferencia, sin perder las ventas hechas mientras se contaba.
+      </p>
+
+      <Card className="shadow-md border border-border/60">
+        <CardHeader>
+          <CardTitle className="flex items-center"><PlusCircle className="mr-2 h-6 w-6 text-primary" />Nuevo Conteo</CardTitle>
+          <CardDescription>Sin marca se cuentan todos los productos del PDV.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FormField
+                  control={form.control}
+                  name="pointOfSale"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Punto de Venta</FormLabel>
+                      <Select
+                        onValueChange={value => {
+                          field.onChange(value);
+                          form.setValue("brand", ALL_BRANDS);
+                        }}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Seleccionar PDV" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {countingPointsOfSale.map(pos => (
+                            <SelectItem key={pos} value={pos}>{pos}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="brand"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Marca</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={ALL_BRANDS}>Todas las marcas</SelectItem>
+                          {brandsInPointOfSale.map(brand => (
+                            <SelectItem key={brand} value={brand}>{brand}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notas (opcional)</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Ej: conteo mensual de la góndola principal" className="min-h-[60px]" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" disabled={form.formState.isSubmitting || countingPointsOfSale.length === 0}>
+                Iniciar Conteo
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      {activeCount && (
+        <div ref={activeCountRef}>
+          <Card className="shadow-md border border-border/60">
+            <CardHeader>
+              <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+                <div>
+                  <CardTitle className="flex items-center gap-3">
+                    Conteo N° {activeCount.id.slice(-6)}
+                    <Badge variant={STATUS_BADGE_VARIANTS[activeCount.status]}>{getStockCountStatusLabel(activeCount.status)}</Badge>
+                  </CardTitle>
+                  <CardDescription>
+                    {activeCount.pointOfSale} · {activeCount.brand ?? 'Todas las marcas'} · Iniciado el{' '}
+                    {format(activeCount.createdAt, "d MMM, yyyy h:mm a", { locale: es })} por {activeCount.createdBy.userName}
+                  </CardDescription>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => openCount(null)}>
+                  <XCircle className="mr-1 h-4 w-4" /> Cerrar
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline">Contados: {activeSummary.counted} de {activeItems.length}</Badge>
+                <Badge variant="outline">Pendientes: {activeSummary.pending}</Badge>
+                <Badge variant={activeSummary.withVariance > 0 ? 'destructive' : 'outline'}>Con diferencia: {activeSummary.withVariance}</Badge>
+                <Badge variant="outline">Diferencia total: {formatVariance(activeSummary.unitsVariance)} u.</Badge>
+                {hasPendingChanges && <Badge variant="secondary">Cambios sin guardar</Badge>}
+              </div>
+
+              {isActiveCountOpen && (
+                <div className="space-y-2">
+                  <Label htmlFor="stock-count-scan">Escanear producto</Label>
+                  <div className="relative max-w-md">
+                    <Barcode className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      id="stock-count-scan"
+                      ref={scanInputRef}
+                      value={scanValue}
+                      onChange={e => setScanValue(e.target.value)}
+                      onKeyDown={handleScanKeyDown}
+                      placeholder="Escanear o ingresar código y pulsar Enter..."
+                      className="pl-10"
+                      autoComplete="off"
+                    />
+                  </div>
+                  {lastScannedItem && (
+                    <p className="text-sm text-muted-foreground">
+                      Último: {lastScannedItem.productName} ({lastScannedItem.brandName}) · contados {lastScannedItem.countedQuantity}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <Select value={itemFilter} onValueChange={value => setItemFilter(value as ItemFilter)}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todos los productos</SelectItem>
+                    <SelectItem value="pending">Sin contar</SelectItem>
+                    <SelectItem value="variance">Con diferencia</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableCaption>{visibleItems.length} producto(s).</TableCaption>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Producto</TableHead>
+                      <TableHead>Marca</TableHead>
+                      <TableHead className="text-right">Sistema</TableHead>
+                      <TableHead className="text-right w-[130px]">Contado</TableHead>
+                      <TableHead className="text-center">Diferencia</TableHead>
+                      {activeCount.status === 'posted' && <TableHead className="text-right">Ajuste</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleItems.length > 0 ? visibleItems.map(item => {
+                      const variance = getStockCountVariance(item);
+                      return (
+                        <TableRow key={item.barcode} className={item.barcode === lastScanned ? 'bg-muted/40' : undefined}>
+                          <TableCell className="text-sm">
+                            {item.productName}
+                            <div className="text-xs text-muted-foreground font-mono">{item.barcode}</div>
+                          </TableCell>
+                          <TableCell className="text-sm">{item.brandName}</TableCell>
+                          <TableCell className="text-right text-sm">{item.expectedQuantity}</TableCell>
+                          <TableCell className="text-right">
+                            {isActiveCountOpen ? (
+                              <Input
+                                type="number"
+                                min={0}
+                                step={1}
+                                className="h-8 text-right"
+                                value={item.countedQuantity ?? ''}
+                                onChange={e => {
+                                  const value = e.target.value;
+                                  setCountedQuantity(item.barcode, value === '' ? null : Math.max(Math.floor(Number(value)), 0));
+                                }}
+                                aria-label={`Cantidad contada de ${item.productName}`}
+                              />
+                            ) : (
+                              <span className="text-sm">{item.countedQuantity ?? '-'}</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-center">
+                            {variance === null ? (
+                              <span className="text-xs text-muted-foreground">Sin contar</span>
+                            ) : (
+                              <Badge variant={variance === 0 ? 'outline' : variance < 0 ? 'destructive' : 'secondary'}>{formatVariance(variance)}</Badge>
+                            )}
+                          </TableCell>
+                          {activeCount.status === 'posted' && <TableCell className="text-right text-sm">{formatVariance(item.adjustment)}</TableCell>}
+                        </TableRow>
+                      );
+                    }) : (
+                      <TableRow>
+                        <TableCell colSpan={activeCount.status === 'posted' ? 6 : 5} className="text-center text-muted-foreground py-6">
+                          {itemFilter === 'pending' ? 'Todos los productos están contados.' : 'No hay productos con diferencia.'}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {activeCount.status === 'posted' && activeCount.postedAt && activeCount.postedBy && (
+                <p className="text-sm text-muted-foreground">
+                  Contabilizado el {format(activeCount.postedAt, "d MMM, yyyy h:mm a", { locale: es })} por {activeCount.postedBy.userName}.
+                  {activeCount.reason && ` Motivo: ${activeCount.reason}`}
+                </p>
+              )}
+
+              {isActiveCountOpen && (
+                <div className="flex flex-col gap-4 border-t pt-6">
+                  <Button type="button" variant="outline" className="self-start" onClick={handleSave} disabled={!hasPendingChanges || isSaving || isPosting}>
+                    <Save className="mr-2 h-4 w-4" /> {isSaving ? 'Guardando...' : 'Guardar Conteo'}
+                  </Button>
+                  {can('post_stock_counts', activeCount.pointOfSale) ? (
+                    <div className="space-y-2 max-w-xl">
+                      <Label htmlFor="stock-count-reason">Motivo de los ajustes</Label>
+                      <Input
+                        id="stock-count-reason"
+                        value={reason}
+                        onChange={e => setReason(e.target.value)}
+                        placeholder="Ej: conteo mensual, roturas no registradas"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Solo se ajustan los productos contados; los que quedan sin contar no cambian.
+                      </p>
+                      <Button type="button" onClick={handlePost} disabled={isSaving || isPosting || activeSummary.counted === 0 || !reason.trim()}>
+                        <CheckCircle2 className="mr-2 h-4 w-4" /> {isPosting ? 'Contabilizando...' : 'Contabilizar Diferencias'}
+                      </Button>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Un encargado debe contabilizar las diferencias.</p>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Card className="shadow-md border border-border/60">
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <div>
+              <CardTitle>Conteos</CardTitle>
+              <CardDescription>Los de tus PDV, del más reciente al más antiguo.</CardDescription>
+            </div>
+            <Select value={statusFilter} onValueChange={value => setStatusFilter(value as StockCountStatus | typeof ALL_STATUSES)}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_STATUSES}>Todos los estados</SelectItem>
+                {stockCountStatusSchema.options.map(status => (
+                  <SelectItem key={status} value={status}>{getStockCountStatusLabel(status)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoadingCounts ? (
+            <Skeleton className="h-48 w-full" />
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableCaption>{visibleCounts.length} conteo(s).</TableCaption>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[180px]">Fecha</TableHead>
+                    <TableHead>PDV</TableHead>
+                    <TableHead>Marca</TableHead>
+                    <TableHead>Avance</TableHead>
+                    <TableHead>Estado</TableHead>
+                    <TableHead className="text-right">Acciones</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleCounts.length > 0 ? visibleCounts.map(count => {
+                    const summary = getStockCountSummary(count);
+                    const isUpdating = updatingCountId === count.id;
+                    return (
+                      <TableRow key={count.id} className={count.id === activeCountId ? 'bg-muted/30' : undefined}>
+                        <TableCell className="font-medium whitespace-nowrap text-sm">
+                          {format(count.createdAt, "d MMM, yyyy h:mm a", { locale: es })}
+                          <div className="text-xs text-muted-foreground">N° {count.id.slice(-6)} · {count.createdBy.userName}</div>
+                        </TableCell>
+                        <TableCell className="text-sm">{count.pointOfSale}</TableCell>
+                        <TableCell className="text-sm">{count.brand ?? 'Todas'}</TableCell>
+                        <TableCell className="text-sm">
+                          {summary.counted} de {count.items.length} contados
+                          {summary.withVariance > 0 && (
+                            <div className="text-xs text-muted-foreground">{summary.withVariance} con diferencia ({formatVariance(summary.unitsVariance)} u.)</div>
+                          )}
+                          {count.notes && <p className="text-xs text-muted-foreground italic mt-1">{count.notes}</p>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_BADGE_VARIANTS[count.status]}>{getStockCountStatusLabel(count.status)}</Badge>
+                          {count.postedAt && (
+                            <div className="text-xs text-muted-foreground mt-1">Contabilizado el {format(count.postedAt, "d MMM, h:mm a", { locale: es })}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex flex-wrap justify-end gap-2">
+                            <Button variant={count.status === 'counting' ? 'default' : 'outline'} size="sm" onClick={() => openCount(count.id)} disabled={count.id === activeCountId}>
+                              <FolderOpen className="mr-1 h-4 w-4" /> {count.status === 'counting' ? 'Contar' : 'Ver'}
+                            </Button>
+                            {count.status === 'counting' && can('post_stock_counts', count.pointOfSale) && (
+                              <Button variant="destructive" size="sm" onClick={() => handleCancelCount(count)} disabled={isUpdating}>
+                                <Ban className="mr-1 h-4 w-4" /> Anular
+                              </Button>
+                            )}
+                            <Button variant="outline" size="sm" onClick={() => downloadStockCountPdf(count)}>
+                              <FileText className="mr-1 h-4 w-4" /> PDF
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => downloadStockCountCsv(count)}>
+                              <FileSpreadsheet className="mr-1 h-4 w-4" /> CSV
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  }) : (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground py-6">
+                        {statusFilter === ALL_STATUSES ? 'Aún no hay conteos.' : 'No hay conteos en este estado.'}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm, useFieldArray } from "react-hook-form";
+import { useSearchParams } from 'next/navigation';
 import * as z from "zod";
 import { Button } from "@/components/ui/button";
 import {
@@ -27,7 +28,7 @@ import {
 } from "@/components/ui/table";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { PlusCircle, MinusCircle, Barcode, DollarSign, Building, Image as ImageIcon, Info, Lock, Search, FileText, Layers, AlertCircle } from 'lucide-react';
+import { PlusCircle, MinusCircle, Barcode, DollarSign, Building, Image as ImageIcon, Info, Lock, Search, FileText, AlertCircle, ClipboardList } from 'lucide-react';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { useToast } from "@/hooks/use-toast";
@@ -39,6 +40,9 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Badge } from '@/components/ui/badge';
 import Image from 'next/image';
+import { addSupplierEntry, getPurchaseOrders, getSupplierEntries } from '@/lib/api';
+import { formatPriceTier, isPurchaseOrderOpen, validatePriceTiers, type PurchaseOrder, type SupplierRecord } from '@/lib/domain';
+import PriceTiersField from '@/components/suppliers/PriceTiersField';
 
 const placeholderSvg = "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTAiIGhlaWdodD0iNTAiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PHJlY3Qgd2lkdGg9IjEwMCUiIGhlaWdodD0iMTAwJSIgZmlsbD0iI2VlZSIvPjx0ZXh0IHg9IjUwJSIgeT0iNTAlIiBkb21pbmFudC1iYXNlbGluZT1taWRkbGUiIHRleHQtYW5jaG9yPSJtaWRkbGUiIGZpbGw9IiNhYWEiPk5vIEltYWdlPC90ZXh0Pjwvc3ZnPg==";
 
@@ -54,8 +58,10 @@ const supplierProductSchema = z.object({
   description: z.string().optional().or(z.literal("")).nullable(),
   aiHint: z.string().optional().nullable(),
   isKnownProduct: z.boolean().optional().default(false),
-  wholesaleQuantityThreshold: z.coerce.number().min(1, "Debe ser al menos 1 si se especifica.").optional().nullable(),
-  wholesalePrice: z.coerce.number().positive("Debe ser positivo si se especifica.").optional().nullable(),
+  priceTiers: z.array(z.object({ minQuantity: z.number(), price: z.number() })).default([]).superRefine((tiers, ctx) => {
+    const error = validatePriceTiers(tiers);
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }),
   lowStockThreshold: z.coerce.number().min(0, "Debe ser 0 o mayor si se especifica.").optional().nullable(),
 });
 
@@ -71,28 +77,8 @@ const supplierFormSchema = z.object({
 
 type SupplierFormValues = z.infer<typeof supplierFormSchema>;
 
-export interface SupplierRecordProduct {
-    barcode: string;
-    productName: string;
-    brandName: string;
-    quantity: number;
-    purchasePrice: number;
-    description?: string | null;
-    oldSellingPrice?: number;
-    newSellingPrice?: number | null;
-    wholesaleQuantityThreshold?: number | null;
-    wholesalePrice?: number | null;
-    lowStockThreshold?: number | null;
-}
-export interface SupplierRecord {
-  id: string;
-  dateTime: string; // Cambiado a string para ser compatible con lo que vendría de un backend JSON
-  supplierName: string;
-  pointOfSale: string;
-  userId: string | null;
-  userName?: string;
-  products: SupplierRecordProduct[];
-}
+// Valor del selector de orden de compra para una entrada sin orden.
+const NO_PURCHASE_ORDER = 'none';
 
 // const SUPPLIER_HISTORY_LOCAL_STORAGE_KEY = 'supplierHistory'; // Ya no se usará directamente aquí
 
@@ -105,8 +91,9 @@ export default function SuppliersPage(): JSX.Element {
       // Las funciones updateProductQuantity, addProduct, updateProductPrice ahora se manejarían en el backend
       getPointsOfSaleForUser,
       inventory, // Aún se podría usar para obtener detalles de productos existentes para autocompletar
+      refetchInventory,
   } = useInventoryContext(); // El contexto necesitará ser adaptado si también obtiene datos del backend
-  const { currentUser, isLoading: isAuthLoading } = useAuth();
+  const { currentUser, can, isLoading: isAuthLoading } = useAuth();
 
   const [supplierHistory, setSupplierHistory] = useState<SupplierRecord[]>([]);
   const [isLoadingHistory, setIsLoadingHistory] = useState(false);
@@ -117,10 +104,18 @@ export default function SuppliersPage(): JSX.Element {
   const [identifierInputRefs, setIdentifierInputRefs] = useState<Array<React.RefObject<HTMLInputElement>>>([]);
   const initialFocusDoneRef = useRef(false);
   const [isSuggestionsOpen, setIsSuggestionsOpenState] = useState(false);
-
-  const accessiblePOS = useMemo(() => getPointsOfSaleForUser(), [getPointsOfSaleForUser]);
+  const [openPurchaseOrders, setOpenPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  // Orden de compra que se recibe con esta entrada; null para una entrada sin orden.
+  const [receivingOrderId, setReceivingOrderId] = useState<string | null>(null);
+  // `?purchaseOrder=<id>` llega desde "Recibir" en la página de órdenes de compra.
+  const requestedOrderId = useSearchParams().get('purchaseOrder');
+  const requestedOrderLoadedRef = useRef(false);
+
+  // PDV accesibles en los que el rol del usuario permite operar en esta página.
+  const accessiblePOS = useMemo(() => getPointsOfSaleForUser().filter(pos => can('receive_stock', pos)), [getPointsOfSaleForUser, can]);
   const canUserAddStock = accessiblePOS.length > 0;
   const accessiblePOSKey = useMemo(() => [...accessiblePOS].sort().join(','), [accessiblePOS]);
+  const receivableOrders = useMemo(() => openPurchaseOrders.filter(order => accessiblePOS.includes(order.pointOfSale)), [openPurchaseOrders, accessiblePOS]);
 
   // Cargar historial de proveedores desde el backend al montar
   useEffect(() => {
@@ -128,20 +123,14 @@ export default function SuppliersPage(): JSX.Element {
     const fetchSupplierHistory = async () => {
       setIsLoadingHistory(true);
       try {
-        // TODO USUARIO: Reemplaza '/api/php/get_supplier_entries.php' con la URL real de tu endpoint PHP
-        const response = await fetch('/api/php/get_supplier_entries.php'); // Endpoint hipotético
-        if (!response.ok) {
-          throw new Error(`Error del servidor: ${response.status}`);
-        }
-        const data: SupplierRecord[] = await response.json();
-        // Asegúrate de que dateTime se convierta a Date si es necesario (aunque para la tabla se puede usar string)
+        const data: SupplierRecord[] = await getSupplierEntries();
         setSupplierHistory(data.sort((a,b) => new Date(b.dateTime).getTime() - new Date(a.dateTime).getTime()));
-      } catch (error) {
+      } catch (error: any) {
         console.error("Falló al cargar el historial de proveedores desde el backend:", error);
         toast({
           variant: "destructive",
           title: "Error al Cargar Historial",
-          description: "No se pudo cargar el historial de proveedores. Verifica tu conexión o el backend.",
+          description: error.message || "No se pudo cargar el historial de proveedores. Verifica tu conexión o el backend.",
         });
         setSupplierHistory([]); // Establecer a vacío en caso de error
       } finally {
@@ -154,22 +143,78 @@ export default function SuppliersPage(): JSX.Element {
     }
   }, [isClient, toast, canUserAddStock]); // No se necesita `supplierHistory` como dependencia aquí
 
+  // Cargar las órdenes de compra abiertas, que se pueden recibir con esta entrada.
+  useEffect(() => {
+    if (!isClient || !canUserAddStock) return;
+    getPurchaseOrders()
+      .then(orders => setOpenPurchaseOrders(orders.filter(isPurchaseOrderOpen)))
+      .catch((error: any) => {
+        console.error("Falló al cargar las órdenes de compra:", error);
+        toast({ variant: "destructive", title: "Error al Cargar Órdenes de Compra", description: error.message || "No se pudieron obtener las órdenes de compra abiertas." });
+      });
+  }, [isClient, toast, canUserAddStock]);
+
 
   const form = useForm<SupplierFormValues>({
     resolver: zodResolver(supplierFormSchema),
     defaultValues: {
       supplierName: "",
       pointOfSale: accessiblePOS[0] || "",
-      products: [{ identifier: "", barcode: "", productName: "", brandName:"", quantity: 1, purchasePrice: 0.001, sellingPrice: null, imageUrl: null, description: null, aiHint: null, isKnownProduct: false, wholesaleQuantityThreshold: null, wholesalePrice: null, lowStockThreshold: null }],
+      products: [{ identifier: "", barcode: "", productName: "", brandName:"", quantity: 1, purchasePrice: 0.001, sellingPrice: null, imageUrl: null, description: null, aiHint: null, isKnownProduct: false, priceTiers: [], lowStockThreshold: null }],
     },
      mode: "onChange",
   });
 
+  // Fijar precios de venta requiere la capacidad 'edit_prices' en el PDV seleccionado.
+  const canEditPrices = can('edit_prices', form.watch("pointOfSale"));
+
   const { fields, append, remove, update } = useFieldArray({
     control: form.control,
     name: "products",
   });
 
+  /**
+   * Carga una orden de compra en el formulario: su proveedor, su PDV y sus líneas, con los datos actuales de los
+   * productos ya conocidos. El precio de compra sin referencia queda en el mínimo para que se complete al recibir.
+   * @param {PurchaseOrder} order - La orden que se recibe.
+   */
+  const handleLoadPurchaseOrder = useCallback((order: PurchaseOrder) => {
+    setReceivingOrderId(order.id);
+    form.reset({
+      supplierName: order.supplierName,
+      pointOfSale: order.pointOfSale,
+      products: order.items.map(item => {
+        const product = getProductDetailsInPos(order.pointOfSale, item.barcode) ?? getProductDetailsAnywhere(item.barcode);
+        return {
+          identifier: product?.name ?? item.productName,
+          barcode: item.barcode,
+          productName: product?.name ?? item.productName,
+          brandName: item.brandName,
+          quantity: item.quantity,
+          purchasePrice: item.purchasePrice ?? 0.001,
+          sellingPrice: product?.price ?? null,
+          imageUrl: product?.imageUrl || null,
+          description: product?.description || null,
+          aiHint: product?.['data-ai-hint'] || null,
+          isKnownProduct: !!product,
+          priceTiers: product?.priceTiers ?? [],
+          lowStockThreshold: product?.lowStockThreshold ?? null,
+        };
+      }),
+    });
+    setSuggestions([]);
+    setActiveSuggestionIndex(-1);
+  }, [form, getProductDetailsInPos, getProductDetailsAnywhere]);
+
+  useEffect(() => {
+    if (!requestedOrderId || requestedOrderLoadedRef.current || !isInventoryLoaded) return;
+    const requestedOrder = receivableOrders.find(order => order.id === requestedOrderId);
+    if (requestedOrder) {
+      requestedOrderLoadedRef.current = true;
+      handleLoadPurchaseOrder(requestedOrder);
+    }
+  }, [requestedOrderId, receivableOrders, isInventoryLoaded, handleLoadPurchaseOrder]);
+
   useEffect(() => {
     setIdentifierInputRefs(prevRefs =>
       Array(fields.length)
@@ -192,7 +237,7 @@ export default function SuppliersPage(): JSX.Element {
                 ...formItemValues,
                 identifier: "", barcode: "", productName: "",
                 brandName: "", sellingPrice: null, imageUrl: null, description: null, aiHint: null, isKnownProduct: false,
-                wholesaleQuantityThreshold: null, wholesalePrice: null, lowStockThreshold: null,
+                priceTiers: [], lowStockThreshold: null,
                 quantity: formItemValues.quantity || 1,
                 purchasePrice: formItemValues.purchasePrice || 0.001,
             });
@@ -245,7 +290,7 @@ export default function SuppliersPage(): JSX.Element {
                 ...formItemValues,
                 barcode: "", productName: "", brandName: "", description: null,
                 sellingPrice: null, imageUrl: null, aiHint: null, isKnownProduct: false,
-                wholesaleQuantityThreshold: null, wholesalePrice: null, lowStockThreshold: null,
+                priceTiers: [], lowStockThreshold: null,
             });
         }
     } else {
@@ -273,8 +318,7 @@ export default function SuppliersPage(): JSX.Element {
             imageUrl: product.imageUrl || null,
             description: product.description || null,
             aiHint: product['data-ai-hint'] || null,
-            wholesaleQuantityThreshold: product.wholesaleQuantityThreshold ?? null,
-            wholesalePrice: product.wholesalePrice ?? null,
+            priceTiers: product.priceTiers ?? [],
             lowStockThreshold: product.lowStockThreshold ?? null,
             isKnownProduct: true,
             quantity: form.getValues(`products.${index}.quantity`) || 1,
@@ -336,7 +380,7 @@ export default function SuppliersPage(): JSX.Element {
              }
         } else {
             if (index === fields.length - 1) {
-                append({ identifier: "", barcode: "", productName: "", brandName: "", quantity: 1, purchasePrice: 0.001, sellingPrice: null, imageUrl:null, description: null, aiHint:null, isKnownProduct: false, wholesaleQuantityThreshold: null, wholesalePrice: null, lowStockThreshold: null });
+                append({ identifier: "", barcode: "", productName: "", brandName: "", quantity: 1, purchasePrice: 0.001, sellingPrice: null, imageUrl:null, description: null, aiHint:null, isKnownProduct: false, priceTiers: [], lowStockThreshold: null });
                 setTimeout(() => { const nextIndex = fields.length; if (identifierInputRefs[nextIndex]?.current) { identifierInputRefs[nextIndex]?.current?.focus(); setCurrentFocusIndex(nextIndex);}}, 0);
             } else { identifierInputRefs[index + 1]?.current?.focus(); setCurrentFocusIndex(index + 1); }
         }
@@ -350,12 +394,12 @@ export default function SuppliersPage(): JSX.Element {
         if ( (currentPOSInForm && !accessiblePOS.includes(currentPOSInForm) && defaultPOS) || (!currentPOSInForm && defaultPOS) ) resetNeeded = true;
         else if (currentPOSInForm && accessiblePOS.length === 0) resetNeeded = true;
         if (resetNeeded) {
-            form.reset({ supplierName: form.getValues("supplierName") || "", pointOfSale: defaultPOS, products: [{ identifier: "", barcode: "", productName: "", brandName: "", quantity: 1, purchasePrice: 0.001, sellingPrice: null, imageUrl: null, description: null, aiHint:null, isKnownProduct: false, wholesaleQuantityThreshold: null, wholesalePrice: null, lowStockThreshold: null }]});
+            form.reset({ supplierName: form.getValues("supplierName") || "", pointOfSale: defaultPOS, products: [{ identifier: "", barcode: "", productName: "", brandName: "", quantity: 1, purchasePrice: 0.001, sellingPrice: null, imageUrl: null, description: null, aiHint:null, isKnownProduct: false, priceTiers: [], lowStockThreshold: null }]});
             initialFocusDoneRef.current = false;
         }
         const items = form.getValues("products");
         if (!items || items.length === 0 || (items.length === 1 && !items[0].identifier && !items[0].barcode) ) {
-             const defaultProduct = { identifier: "", barcode: "", productName: "", brandName: "", quantity: 1, purchasePrice: 0.001, sellingPrice: null, imageUrl: null, description: null, aiHint:null, isKnownProduct: false, wholesaleQuantityThreshold: null, wholesalePrice: null, lowStockThreshold: null };
+             const defaultProduct = { identifier: "", barcode: "", productName: "", brandName: "", quantity: 1, purchasePrice: 0.001, sellingPrice: null, imageUrl: null, description: null, aiHint:null, isKnownProduct: false, priceTiers: [], lowStockThreshold: null };
             if (items.length === 0 || JSON.stringify(items[0]) !== JSON.stringify(defaultProduct) ) form.setValue("products", [defaultProduct]);
         }
         setSuggestions([]); setActiveSuggestionIndex(-1);
@@ -370,24 +414,24 @@ export default function SuppliersPage(): JSX.Element {
          toast({ variant: "destructive", title: "Acceso Denegado", description: "No tienes permiso para añadir stock a esta ubicación." });
          return;
      }
+    // Sin 'edit_prices' los precios no se envían y el backend conserva los actuales.
+    const canSetPrices = can('edit_prices', data.pointOfSale);
 
     const newEntryPayload = {
       supplierName: data.supplierName,
       pointOfSale: data.pointOfSale,
-      userId: currentUser.id,
-      userName: currentUser.name,
+      purchaseOrderId: receivingOrderId,
       products: data.products.filter(p => p.barcode && p.productName && p.brandName && p.quantity > 0).map(p => ({
         barcode: p.barcode,
         productName: p.productName,
         brandName: p.brandName,
         quantity: p.quantity,
         purchasePrice: p.purchasePrice,
-        sellingPrice: p.sellingPrice,
+        sellingPrice: canSetPrices ? p.sellingPrice : null,
         imageUrl: p.imageUrl,
         description: p.description,
         aiHint: p.aiHint,
-        wholesaleQuantityThreshold: p.wholesaleQuantityThreshold,
-        wholesalePrice: p.wholesalePrice,
+        priceTiers: canSetPrices ? p.priceTiers : null,
         lowStockThreshold: p.lowStockThreshold,
         // Campos para el backend sobre el estado del producto antes de esta entrada
         isKnownProductInPos: !!getProductDetailsInPos(data.pointOfSale, p.barcode),
@@ -401,34 +445,26 @@ export default function SuppliersPage(): JSX.Element {
         return;
     }
 
-    // TODO USUARIO: Reemplaza '/api/php/add_supplier_entry.php' con la URL real de tu endpoint PHP
     try {
-      const response = await fetch('/api/php/add_supplier_entry.php', { // Endpoint hipotético
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(newEntryPayload),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ message: `Error del servidor: ${response.status}` }));
-        throw new Error(errorData.message || `Error del servidor: ${response.status}`);
-      }
-
-      const savedEntry: SupplierRecord = await response.json(); // Asume que el backend devuelve la entrada guardada
+      const savedEntry: SupplierRecord = await addSupplierEntry(newEntryPayload);
 
       // Actualizar el historial local (opcional, podrías recargar desde el backend)
       setSupplierHistory(prev => [savedEntry, ...prev].sort((a,b) => new Date(b.dateTime).getTime() - new Date(a.dateTime).getTime()));
 
       toast({
         title: "Entrada de Proveedor Registrada",
-        description: `${newEntryPayload.products.length} línea(s) de producto de ${data.supplierName} procesadas para ${data.pointOfSale}.`,
+        description: `${newEntryPayload.products.length} línea(s) de producto de ${data.supplierName} procesadas para ${data.pointOfSale}.${savedEntry.purchaseOrderId ? ` Orden de compra N° ${savedEntry.purchaseOrderId.slice(-6)} recibida.` : ''}`,
       });
+      if (savedEntry.purchaseOrderId) {
+        setOpenPurchaseOrders(prev => prev.filter(order => order.id !== savedEntry.purchaseOrderId));
+        setReceivingOrderId(null);
+      }
 
       // Resetear formulario
       form.reset({
          supplierName: data.supplierName,
          pointOfSale: data.pointOfSale,
-         products: [{ identifier: "", barcode: "", productName: "", brandName: "", quantity: 1, purchasePrice: 0.001, sellingPrice: null, imageUrl: null, description: null, aiHint:null, isKnownProduct: false, wholesaleQuantityThreshold: null, wholesalePrice: null, lowStockThreshold: null }],
+         products: [{ identifier: "", barcode: "", productName: "", brandName: "", quantity: 1, purchasePrice: 0.001, sellingPrice: null, imageUrl: null, description: null, aiHint:null, isKnownProduct: false, priceTiers: [], lowStockThreshold: null }],
       });
       initialFocusDoneRef.current = false;
       setSuggestions([]);
@@ -436,8 +472,8 @@ export default function SuppliersPage(): JSX.Element {
       if (identifierInputRefs[0]?.current) {
           setTimeout(()=> { if(identifierInputRefs[0].current) { identifierInputRefs[0].current.focus(); setCurrentFocusIndex(0); initialFocusDoneRef.current = true; }},0);
       }
-       // Aquí podrías llamar a una función del InventoryContext para invalidar y recargar el inventario si es necesario
-       // ej: inventoryContext.refreshInventoryForPos(data.pointOfSale);
+       // El backend ya sumó el stock recibido; recargar el inventario para reflejarlo en pantalla.
+       refetchInventory();
 
     } catch (error: any) {
       console.error("Error al guardar la entrada de proveedor:", error);
@@ -469,10 +505,37 @@ export default function SuppliersPage(): JSX.Element {
           <TooltipProvider delayDuration={200}>
               <Form {...form}>
                 <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
-                   <Card className="bg-card p-6 rounded-lg shadow-sm border">
+                   <Card className="bg-card p-6 rounded-lg shadow-sm border space-y-6">
+                       {(receivableOrders.length > 0 || receivingOrderId) && (
+                         <div className="space-y-2">
+                           <FormLabel className="flex items-center"><ClipboardList className="mr-2 h-4 w-4 text-muted-foreground" />Orden de Compra (opcional)</FormLabel>
+                           <Select
+                             value={receivingOrderId ?? NO_PURCHASE_ORDER}
+                             onValueChange={(value) => {
+                               const order = receivableOrders.find(o => o.id === value);
+                               if (order) handleLoadPurchaseOrder(order);
+                               else setReceivingOrderId(null);
+                             }}
+                             disabled={!canUserAddStock}
+                           >
+                             <SelectTrigger className="md:w-1/2">
+                               <SelectValue />
+                             </SelectTrigger>
+                             <SelectContent>
+                               <SelectItem value={NO_PURCHASE_ORDER}>Sin orden de compra</SelectItem>
+                               {receivableOrders.map(order => (
+                                 <SelectItem key={order.id} value={order.id}>
+                                   N° {order.id.slice(-6)} · {order.supplierName} · {order.pointOfSale} ({format(order.createdAt, "d MMM", { locale: es })})
+                                 </SelectItem>
+                               ))}
+                             </SelectContent>
+                           </Select>
+                           <p className="text-xs text-muted-foreground">Carga los productos de la orden; ajuste cantidades y precios a lo realmente recibido. Al registrar la entrada la orden queda recibida.</p>
+                         </div>
+                       )}
                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-end">
                            <FormField control={form.control} name="supplierName" render={({ field }) => ( <FormItem> <FormLabel>Proveedor</FormLabel> <FormControl> <div className="relative"> <Building className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" /> <Input placeholder="Escriba el nombre del proveedor..." {...field} className="pl-10" disabled={!canUserAddStock}/> </div> </FormControl> <FormMessage /> </FormItem> )}/>
-                            <FormField control={form.control} name="pointOfSale" render={({ field }) => ( <FormItem> <FormLabel>Punto de Venta Destino</FormLabel> <Select onValueChange={(value) => { field.onChange(value); form.reset({ ...form.getValues(), pointOfSale: value, products: [{ identifier: "", barcode: "", productName: "", brandName: "", quantity: 1, purchasePrice: 0.001, sellingPrice: null, imageUrl: null, description: null, aiHint:null, isKnownProduct: false, wholesaleQuantityThreshold: null, wholesalePrice: null, lowStockThreshold: null }]}); initialFocusDoneRef.current = false; setTimeout(() => { if(identifierInputRefs[0]?.current) { identifierInputRefs[0]?.current.focus(); setCurrentFocusIndex(0); initialFocusDoneRef.current = true; }},0);}} value={field.value || ""} disabled={!canUserAddStock || accessiblePOS.length <=1}> <FormControl> <SelectTrigger> <Building className="h-4 w-4 mr-2 inline-block text-muted-foreground" /> <SelectValue placeholder="Seleccionar destino accesible..." /> </SelectTrigger> </FormControl> <SelectContent> {accessiblePOS.map(pos => ( <SelectItem key={pos} value={pos}>{pos}</SelectItem> ))} </SelectContent> </Select> <FormMessage /> </FormItem> )}/>
+                            <FormField control={form.control} name="pointOfSale" render={({ field }) => ( <FormItem> <FormLabel>Punto de Venta Destino</FormLabel> <Select onValueChange={(value) => { field.onChange(value); setReceivingOrderId(null); form.reset({ ...form.getValues(), pointOfSale: value, products: [{ identifier: "", barcode: "", productName: "", brandName: "", quantity: 1, purchasePrice: 0.001, sellingPrice: null, imageUrl: null, description: null, aiHint:null, isKnownProduct: false, priceTiers: [], lowStockThreshold: null }]}); initialFocusDoneRef.current = false; setTimeout(() => { if(identifierInputRefs[0]?.current) { identifierInputRefs[0]?.current.focus(); setCurrentFocusIndex(0); initialFocusDoneRef.current = true; }},0);}} value={field.value || ""} disabled={!canUserAddStock || accessiblePOS.length <=1}> <FormControl> <SelectTrigger> <Building className="h-4 w-4 mr-2 inline-block text-muted-foreground" /> <SelectValue placeholder="Seleccionar destino accesible..." /> </SelectTrigger> </FormControl> <SelectContent> {accessiblePOS.map(pos => ( <SelectItem key={pos} value={pos}>{pos}</SelectItem> ))} </SelectContent> </Select> <FormMessage /> </FormItem> )}/>
                        </div>
                    </Card>
                   <div className="space-y-6">
@@ -490,15 +553,12 @@ export default function SuppliersPage(): JSX.Element {
                                    <FormField control={form.control} name={`products.${index}.brandName`} render={({ field: brandNameField }) => ( <FormItem> <FormLabel>Nombre de la Marca</FormLabel> <FormControl> <Input id={`products.${index}.brandName`} placeholder="Ej: L'Oréal" {...brandNameField} value={brandNameField.value || ''} disabled={!canUserAddStock || (currentItem.isKnownProduct && !!brandNameField.value)} onChange={(e) => { brandNameField.onChange(e); if (currentItem.isKnownProduct) form.setValue(`products.${index}.isKnownProduct`, false); }}/> </FormControl> <FormMessage /> </FormItem> )}/>
                             </div>
                              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 items-end">
-                                  <FormField control={form.control} name={`products.${index}.quantity`} render={({ field : quantityField }) => ( <FormItem> <FormLabel>Cantidad Recibida</FormLabel> <FormControl> <Input type="number" min="1" placeholder="Cant" id={`products.${index}.quantity`} value={quantityField.value === undefined || quantityField.value === null || isNaN(quantityField.value) ? '' : String(quantityField.value)} onChange={e => quantityField.onChange(e.target.value === '' ? undefined : parseInt(e.target.value, 10))} disabled={!canUserAddStock || (!form.watch(`products.${index}.barcode`) && !currentItem.isKnownProduct)} onFocus={(e) => e.target.select()}/> </FormControl> <FormMessage /> </FormItem> )}/>
-                                  <FormField control={form.control} name={`products.${index}.purchasePrice`} render={({ field : purchasePriceField }) => ( <FormItem> <FormLabel>Precio Compra / Ud.</FormLabel> <FormControl> <div className="relative"> <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" /> <Input type="number" step="0.001" min="0.001" placeholder="Precio pagado" className="pl-8" value={purchasePriceField.value === undefined || purchasePriceField.value === null || isNaN(purchasePriceField.value) ? '' : String(purchasePriceField.value)} onChange={e => purchasePriceField.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))} disabled={!canUserAddStock || (!form.watch(`products.${index}.barcode`) && !currentItem.isKnownProduct)} onFocus={(e) => e.target.select()}/> </div> </FormControl> <FormMessage /> </FormItem> )}/>
-                                   <FormField control={form.control} name={`products.${index}.sellingPrice`} render={({ field : sellingPriceField }) => ( <FormItem> <FormLabel> Precio Venta / Ud. <Tooltip><TooltipTrigger asChild><Info className="h-3 w-3 ml-1 inline-block text-muted-foreground cursor-help" /></TooltipTrigger><TooltipContent><p>Opcional. Establecer/actualizar precio para el PDV. Si está en blanco en un producto nuevo, toma el precio de compra.</p></TooltipContent></Tooltip> </FormLabel> <FormControl> <div className="relative"> <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" /> <Input type="number" step="0.001" min="0" placeholder="Establecer/Act. precio" className="pl-8" value={sellingPriceField.value === undefined || sellingPriceField.value === null || isNaN(sellingPriceField.value) ? '' : String(sellingPriceField.value)} onChange={e => sellingPriceField.onChange(e.target.value === '' ? null : parseFloat(e.target.value))} disabled={!canUserAddStock || (!form.watch(`products.${index}.barcode`) && !currentItem.isKnownProduct)} onFocus={(e) => e.target.select()}/> </div> </FormControl> <FormMessage /> </FormItem> )}/>
+                                  <FormField control={form.control} name={`products.${index}.quantity`} render={({ field : quantityField }) => ( <FormItem> <FormLabel>Cantidad Recibida</FormLabel> <FormControl> <Input type="number" min="1" placeholder="Cant" id={`products.${index}.quantity`} value={quantityField.value === undefined || quantityField.value === null || isNaN(quantityField.value) ? '' : String(quantityField.value)} onChange={e => quantityField.onChange(e.target.value === '' ? undefined : parseInt(e.target.value, 10))} disabled={!canUserAddStock || !canEditPrices || (!form.watch(`products.${index}.barcode`) && !currentItem.isKnownProduct)} onFocus={(e) => e.target.select()}/> </FormControl> <FormMessage /> </FormItem> )}/>
+                                  <FormField control={form.control} name={`products.${index}.purchasePrice`} render={({ field : purchasePriceField }) => ( <FormItem> <FormLabel>Precio Compra / Ud.</FormLabel> <FormControl> <div className="relative"> <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" /> <Input type="number" step="0.001" min="0.001" placeholder="Precio pagado" className="pl-8" value={purchasePriceField.value === undefined || purchasePriceField.value === null || isNaN(purchasePriceField.value) ? '' : String(purchasePriceField.value)} onChange={e => purchasePriceField.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))} disabled={!canUserAddStock || !canEditPrices || (!form.watch(`products.${index}.barcode`) && !currentItem.isKnownProduct)} onFocus={(e) => e.target.select()}/> </div> </FormControl> <FormMessage /> </FormItem> )}/>
+                                   <FormField control={form.control} name={`products.${index}.sellingPrice`} render={({ field : sellingPriceField }) => ( <FormItem> <FormLabel> Precio Venta / Ud. <Tooltip><TooltipTrigger asChild><Info className="h-3 w-3 ml-1 inline-block text-muted-foreground cursor-help" /></TooltipTrigger><TooltipContent><p>Opcional. Establecer/actualizar precio para el PDV. Si está en blanco en un producto nuevo, toma el precio de compra.</p></TooltipContent></Tooltip> </FormLabel> <FormControl> <div className="relative"> <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" /> <Input type="number" step="0.001" min="0" placeholder="Establecer/Act. precio" className="pl-8" value={sellingPriceField.value === undefined || sellingPriceField.value === null || isNaN(sellingPriceField.value) ? '' : String(sellingPriceField.value)} onChange={e => sellingPriceField.onChange(e.target.value === '' ? null : parseFloat(e.target.value))} disabled={!canUserAddStock || !canEditPrices || (!form.watch(`products.${index}.barcode`) && !currentItem.isKnownProduct)} onFocus={(e) => e.target.select()}/> </div> </FormControl> <FormMessage /> </FormItem> )}/>
                                    <FormField control={form.control} name={`products.${index}.lowStockThreshold`} render={({ field : lowStockField }) => ( <FormItem> <FormLabel> Umbral Bajo Stock <Tooltip><TooltipTrigger asChild><Info className="h-3 w-3 ml-1 inline-block text-muted-foreground cursor-help" /></TooltipTrigger><TooltipContent><p>Opcional. Si se deja vacío o 0, se usa el umbral global (ej: 5).</p></TooltipContent></Tooltip> </FormLabel> <FormControl> <div className="relative"> <AlertCircle className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" /> <Input type="number" min="0" placeholder="Global (ej: 5)" className="pl-8" value={lowStockField.value === undefined || lowStockField.value === null || isNaN(lowStockField.value) ? '' : String(lowStockField.value)} onChange={e => lowStockField.onChange(e.target.value === '' ? null : parseInt(e.target.value, 10))} disabled={!canUserAddStock || (!form.watch(`products.${index}.barcode`) && !currentItem.isKnownProduct)}/> </div> </FormControl> <FormMessage /> </FormItem> )}/>
                              </div>
-                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                                  <FormField control={form.control} name={`products.${index}.wholesaleQuantityThreshold`} render={({ field }) => ( <FormItem> <FormLabel> Cant. Mín. Por Mayor <span className='text-xs text-muted-foreground ml-1'>(Opcional)</span> </FormLabel> <FormControl> <div className="relative"> <Layers className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" /> <Input  type="number"  min="1"  placeholder="Ej: 10"  {...field}  value={field.value === undefined || field.value === null || isNaN(field.value) ? '' : String(field.value)} onChange={e => field.onChange(e.target.value === '' ? null : parseInt(e.target.value, 10))} className="pl-8"  disabled={!canUserAddStock || (!form.watch(`products.${index}.barcode`) && !currentItem.isKnownProduct)}/> </div> </FormControl> <FormMessage /> </FormItem> )}/>
-                                  <FormField control={form.control} name={`products.${index}.wholesalePrice`} render={({ field }) => ( <FormItem> <FormLabel> Precio Por Mayor / Ud. <span className='text-xs text-muted-foreground ml-1'>(Opcional)</span> </FormLabel> <FormControl> <div className="relative"> <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" /> <Input  type="number"  step="0.001"  min="0"  placeholder="Ej: 15.000"  {...field}  value={field.value === undefined || field.value === null || isNaN(field.value) ? '' : String(field.value)} onChange={e => field.onChange(e.target.value === '' ? null : parseFloat(e.target.value))} className="pl-8"  disabled={!canUserAddStock || (!form.watch(`products.${index}.barcode`) && !currentItem.isKnownProduct) || !form.watch(`products.${index}.wholesaleQuantityThreshold`)}/> </div> </FormControl> <FormMessage /> </FormItem> )}/>
-                             </div>
+                             <FormField control={form.control} name={`products.${index}.priceTiers`} render={({ field }) => ( <FormItem> <FormLabel> Precios Por Mayor (Tramos) <Tooltip><TooltipTrigger asChild><Info className="h-3 w-3 ml-1 inline-block text-muted-foreground cursor-help" /></TooltipTrigger><TooltipContent><p>Opcional. Cada tramo fija el precio por unidad desde una cantidad mínima (ej: 12+, 48+, 144+). La venta al por mayor exige al menos la cantidad del primer tramo.</p></TooltipContent></Tooltip> </FormLabel> <FormControl> <PriceTiersField value={field.value ?? []} onChange={field.onChange} disabled={!canUserAddStock || !canEditPrices || (!form.watch(`products.${index}.barcode`) && !currentItem.isKnownProduct)}/> </FormControl> <FormMessage /> </FormItem> )}/>
                              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                                   <FormField control={form.control} name={`products.${index}.imageUrl`} render={({ field: imageUrlField }) => ( <FormItem> <FormLabel> URL de Imagen <span className='text-xs text-muted-foreground ml-1'>(Opcional)</span> </FormLabel> <FormControl> <div className="relative"> <ImageIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" /> <Input type="url" placeholder="https://..." {...imageUrlField} value={imageUrlField.value || ''} className="pl-8" disabled={!canUserAddStock || (!form.watch(`products.${index}.barcode`) && !currentItem.isKnownProduct)}/> </div> </FormControl> <FormMessage /> </FormItem> )}/>
                                    <FormField control={form.control} name={`products.${index}.aiHint`} render={({ field: aiHintField }) => ( <FormItem> <FormLabel> Pista IA Imagen <span className='text-xs text-muted-foreground ml-1'>(Opcional, 1-2 palabras)</span> </FormLabel> <FormControl> <div className="relative"> <Info className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" /> <Input placeholder="Ej: tubo labial rojo" {...aiHintField} value={aiHintField.value || ''} className="pl-8" disabled={!canUserAddStock || (!form.watch(`products.${index}.barcode`) && !currentItem.isKnownProduct)}/> </div> </FormControl> <FormMessage /> </FormItem> )}/>
@@ -507,7 +567,7 @@ export default function SuppliersPage(): JSX.Element {
                         </Card>
                         );
                      })}
-                     <Button type="button" variant="outline" size="sm" onClick={() => { append({ identifier: "", barcode: "", productName: "", brandName: "", quantity: 1, purchasePrice: 0.001, sellingPrice: null, imageUrl:null, description:null, aiHint:null, isKnownProduct: false, wholesaleQuantityThreshold: null, wholesalePrice: null, lowStockThreshold: null }); setTimeout(() => { const newIndex = fields.length; if(identifierInputRefs[newIndex]?.current) { identifierInputRefs[newIndex].current.focus(); setCurrentFocusIndex(newIndex); }}, 0);}} disabled={!isInventoryLoaded || !canUserAddStock || !form.watch("pointOfSale")}> <PlusCircle className="mr-2 h-4 w-4" /> Añadir Otra Línea de Producto </Button>
+                     <Button type="button" variant="outline" size="sm" onClick={() => { append({ identifier: "", barcode: "", productName: "", brandName: "", quantity: 1, purchasePrice: 0.001, sellingPrice: null, imageUrl:null, description:null, aiHint:null, isKnownProduct: false, priceTiers: [], lowStockThreshold: null }); setTimeout(() => { const newIndex = fields.length; if(identifierInputRefs[newIndex]?.current) { identifierInputRefs[newIndex].current.focus(); setCurrentFocusIndex(newIndex); }}, 0);}} disabled={!isInventoryLoaded || !canUserAddStock || !form.watch("pointOfSale")}> <PlusCircle className="mr-2 h-4 w-4" /> Añadir Otra Línea de Producto </Button>
                      {form.formState.errors.products?.root?.message && ( <p className="text-sm font-medium text-destructive pt-2">{form.formState.errors.products.root.message}</p> )}
                      {form.formState.errors.products?.message && typeof form.formState.errors.products.message === 'string' && ( <p className="text-sm font-medium text-destructive pt-2">{form.formState.errors.products.message}</p> )}
                     {form.formState.errors.products && !form.formState.errors.products.root && !(typeof form.formState.errors.products.message === 'string') && Object.values(form.formState.errors.products).some(err => err?.message) && ( <p className="text-sm font-medium text-destructive pt-2">Por favor, compruebe los detalles individuales del producto en busca de errores arriba.</p> )}
@@ -543,7 +603,10 @@ export default function SuppliersPage(): JSX.Element {
                      {supplierHistory.map((entry) => (
                        <TableRow key={entry.id} className="hover:bg-muted/30">
                          <TableCell className="font-medium whitespace-nowrap text-sm"> {format(new Date(entry.dateTime), "d MMM, yyyy h:mm a", { locale: es })} </TableCell>
-                         <TableCell className="text-sm">{entry.supplierName}</TableCell>
+                         <TableCell className="text-sm">
+                           {entry.supplierName}
+                           {entry.purchaseOrderId && <div className="text-xs text-muted-foreground">OC N° {entry.purchaseOrderId.slice(-6)}</div>}
+                         </TableCell>
                          <TableCell className="text-sm">{entry.pointOfSale}</TableCell>
                          <TableCell className="text-sm">{entry.userName || entry.userId || 'N/A'}</TableCell>
                          <TableCell>
@@ -551,7 +614,7 @@ export default function SuppliersPage(): JSX.Element {
                              {entry.products.map((p, index) => {
                                const sellingPriceChanged = p.newSellingPrice !== undefined && p.newSellingPrice !== null && p.newSellingPrice !== p.oldSellingPrice && p.oldSellingPrice !== undefined;
                                const isNewProductToPOS = p.oldSellingPrice === undefined && p.newSellingPrice !== undefined && p.newSellingPrice !== null;
-                               return ( <li key={`${entry.id}-item-${index}-${p.barcode}`} className="border-b border-border/40 pb-2 last:border-b-0"> <span className='font-medium'>{p.productName}</span> ({p.brandName}) - Cant: <span className='font-semibold'>{p.quantity}</span> {p.description && <p className="text-xs text-muted-foreground italic mt-0.5">"{p.description}"</p>} <div className="text-xs text-muted-foreground mt-1 space-y-0.5"> <div> <span>Comp: <span className="text-foreground">${p.purchasePrice.toFixed(3)}</span></span> {sellingPriceChanged && ( <span className="text-orange-600 dark:text-orange-400 ml-3"> PVP: ${p.oldSellingPrice?.toFixed(3)} → <span className='font-bold'>${p.newSellingPrice?.toFixed(3)}</span> </span> )} {!sellingPriceChanged && p.newSellingPrice !== undefined && p.newSellingPrice !== null && ( <span className="ml-3"> PVP: <span className="text-foreground">${p.newSellingPrice?.toFixed(3)}</span> {isNewProductToPOS && <span className="text-green-600 dark:text-green-400 ml-1">(Nuevo en PDV)</span>} </span> )} {!sellingPriceChanged && (p.newSellingPrice === undefined || p.newSellingPrice === null) && p.oldSellingPrice !== undefined && ( <span className="ml-3"> PVP: <span className="text-foreground">${p.oldSellingPrice.toFixed(3)}</span> (Sin cambios) </span> )} </div> {(p.wholesaleQuantityThreshold !== undefined && p.wholesaleQuantityThreshold !== null && p.wholesalePrice !== undefined && p.wholesalePrice !== null) && ( <div> <span className="text-blue-600 dark:text-blue-400"> Por Mayor: {p.wholesaleQuantityThreshold}+ uds. a ${p.wholesalePrice.toFixed(3)} c/u </span> </div> )} {(p.lowStockThreshold !== undefined && p.lowStockThreshold !== null && p.lowStockThreshold > 0) && ( <div> <span className="text-amber-600 dark:text-amber-400"> Alerta Bajo Stock: {p.lowStockThreshold} uds. </span> </div> )} </div> </li> );
+                               return ( <li key={`${entry.id}-item-${index}-${p.barcode}`} className="border-b border-border/40 pb-2 last:border-b-0"> <span className='font-medium'>{p.productName}</span> ({p.brandName}) - Cant: <span className='font-semibold'>{p.quantity}</span> {p.description && <p className="text-xs text-muted-foreground italic mt-0.5">"{p.description}"</p>} <div className="text-xs text-muted-foreground mt-1 space-y-0.5"> <div> <span>Comp: <span className="text-foreground">${p.purchasePrice.toFixed(3)}</span></span> {sellingPriceChanged && ( <span className="text-orange-600 dark:text-orange-400 ml-3"> PVP: ${p.oldSellingPrice?.toFixed(3)} → <span className='font-bold'>${p.newSellingPrice?.toFixed(3)}</span> </span> )} {!sellingPriceChanged && p.newSellingPrice !== undefined && p.newSellingPrice !== null && ( <span className="ml-3"> PVP: <span className="text-foreground">${p.newSellingPrice?.toFixed(3)}</span> {isNewProductToPOS && <span className="text-green-600 dark:text-green-400 ml-1">(Nuevo en PDV)</span>} </span> )} {!sellingPriceChanged && (p.newSellingPrice === undefined || p.newSellingPrice === null) && p.oldSellingPrice !== undefined && ( <span className="ml-3"> PVP: <span className="text-foreground">${p.oldSellingPrice.toFixed(3)}</span> (Sin cambios) </span> )} </div> {p.priceTiers && p.priceTiers.length > 0 && ( <div> <span className="text-blue-600 dark:text-blue-400"> Por Mayor: {p.priceTiers.map(formatPriceTier).join(' · ')} c/u </span> </div> )} {(p.lowStockThreshold !== undefined && p.lowStockThreshold !== null && p.lowStockThreshold > 0) && ( <div> <span className="text-amber-600 dark:text-amber-400"> Alerta Bajo Stock: {p.lowStockThreshold} uds. </span> </div> )} </div> </li> );
                              })}
                            </ul>
                          </TableCell>
@@ -0,0 +1,576 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm, useFieldArray } from "react-hook-form";
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableCaption } from "@/components/ui/table";
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowLeftRight, Ban, Edit, FileText, MinusCircle, PackageCheck, PlusCircle, Send, XCircle } from 'lucide-react';
+import { useToast } from "@/hooks/use-toast";
+import { useInventoryContext } from '@/context/InventoryContext';
+import { useAuth } from '@/context/AuthContext';
+import * as api from '@/lib/api';
+import {
+  getStockTransferStatusLabel,
+  getStockTransferUnits,
+  stockTransferFormSchema,
+  stockTransferStatusSchema,
+  type StockTransfer,
+  type StockTransferFormValues,
+  type StockTransferStatus,
+} from '@/lib/domain';
+
+// Valor del filtro de estado que muestra todos los traspasos.
+const ALL_STATUSES = 'all';
+
+const emptyItem = { barcode: "", quantity: 1 };
+
+const STATUS_BADGE_VARIANTS: Record<StockTransferStatus, 'secondary' | 'default' | 'outline' | 'destructive'> = {
+  draft: 'secondary',
+  in_transit: 'default',
+  received: 'outline',
+  cancelled: 'destructive',
+};
+
+/**
+ * Genera y descarga el remito de un traspaso: origen, destino, líneas con una columna en blanco para anotar
+ * lo recibido y las firmas de quien despacha y quien recibe.
+ * @param {StockTransfer} transfer - El traspaso.
+ */
+function downloadPackingSlipPdf(transfer: StockTransfer): void {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 14;
+
+  doc.setFontSize(18);
+  doc.text("REMITO DE TRASPASO", margin, 18);
+  doc.setFontSize(10);
+  doc.text(`N° ${transfer.id.slice(-10)}`, pageWidth - margin, 18, { align: 'right' });
+
+  const headerLines = [
+    `Origen: ${transfer.origin}`,
+    `Destino: ${transfer.destination}`,
+    `Estado: ${getStockTransferStatusLabel(transfer.status)}`,
+    `Creado: ${format(transfer.createdAt, "dd/MM/yyyy HH:mm", { locale: es })} por ${transfer.createdBy.userName}`,
+    ...(transfer.dispatchedAt && transfer.dispatchedBy
+      ? [`Despachado: ${format(transfer.dispatchedAt, "dd/MM/yyyy HH:mm", { locale: es })} por ${transfer.dispatchedBy.userName}`]
+      : []),
+    ...(transfer.receivedAt && transfer.receivedBy
+      ? [`Recibido: ${format(transfer.receivedAt, "dd/MM/yyyy HH:mm", { locale: es })} por ${transfer.receivedBy.userName}`]
+      : []),
+  ];
+  headerLines.forEach((line, index) => doc.text(line, margin, 28 + index * 5));
+  let nextY = 28 + headerLines.length * 5;
+  if (transfer.notes) {
+    const notesLines = doc.splitTextToSize(`Notas: ${transfer.notes}`, pageWidth - margin * 2);
+    doc.text(notesLines, margin, nextY);
+    nextY += notesLines.length * 5;
+  }
+
+  autoTable(doc, {
+    head: [["Código", "Producto", "Marca", "Cantidad", "Recibido"]],
+    body: [
+      ...transfer.items.map(item => [item.barcode, item.productName, item.brandName, item.quantity, '']),
+      [{ content: 'Total de unidades', colSpan: 3, styles: { fontStyle: 'bold' } }, getStockTransferUnits(transfer), ''],
+    ],
+    startY: nextY + 2,
+    theme: 'grid',
+    headStyles: { fillColor: [22, 160, 133] },
+    styles: { fontSize: 9, cellPadding: 2, overflow: 'linebreak' },
+    columnStyles: {
+      0: { cellWidth: 35 },
+      1: { cellWidth: 'auto' },
+      2: { cellWidth: 35 },
+      3: { cellWidth: 22, halign: 'right' },
+      4: { cellWidth: 22 },
+    },
+  });
+
+  const finalY = (doc as any).lastAutoTable.finalY || nextY + 20;
+  const signatureY = finalY + 30;
+  const signatureWidth = 70;
+  doc.setLineWidth(0.2);
+  doc.line(margin, signatureY, margin + signatureWidth, signatureY);
+  doc.line(pageWidth - margin - signatureWidth, signatureY, pageWidth - margin, signatureY);
+  doc.setFontSize(9);
+  doc.text(`Despachado por${transfer.dispatchedBy ? `: ${transfer.dispatchedBy.userName}` : ''}`, margin, signatureY + 5);
+  doc.text(`Recibido por${transfer.receivedBy ? `: ${transfer.receivedBy.userName}` : ''}`, pageWidth - margin - signatureWidth, signatureY + 5);
+
+  doc.save(`remito_traspaso_${transfer.id.slice(-6)}.pdf`);
+}
+
+/**
+ * Página de traspasos de stock entre PDV. Un traspaso se prepara como borrador, se despacha desde el origen
+ * (que descuenta su stock) y se recibe en el destino (que suma el stock). Cada paso exige la capacidad
+ * `transfer_stock` en el PDV correspondiente; la lista solo muestra los traspasos de los PDV del usuario.
+ *
+ * @returns {JSX.Element} La interfaz de usuario de la página de traspasos.
+ */
+export default function TransfersPage(): JSX.Element {
+  const { toast } = useToast();
+  const { inventory, getAllPointsOfSale, getPointsOfSaleForUser, isInventoryLoaded, refetchInventory } = useInventoryContext();
+  const { can } = useAuth();
+
+  const [isClient, setIsClient] = useState(false);
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [isLoadingTransfers, setIsLoadingTransfers] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<StockTransferStatus | typeof ALL_STATUSES>(ALL_STATUSES);
+  const [editingTransferId, setEditingTransferId] = useState<string | null>(null);
+  const [updatingTransferId, setUpdatingTransferId] = useState<string | null>(null);
+  const formRef = React.useRef<HTMLDivElement>(null);
+
+  const allPointsOfSale = getAllPointsOfSale();
+  const userPointsOfSale = useMemo(() => getPointsOfSaleForUser(), [getPointsOfSaleForUser]);
+  // PDV desde los que el usuario puede preparar y despachar traspasos.
+  const originPointsOfSale = useMemo(() => userPointsOfSale.filter(pos => can('transfer_stock', pos)), [userPointsOfSale, can]);
+
+  const form = useForm<StockTransferFormValues>({
+    resolver: zodResolver(stockTransferFormSchema),
+    defaultValues: { origin: "", destination: "", items: [emptyItem], notes: "" },
+    mode: "onChange",
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "items" });
+  const origin = form.watch("origin");
+  const items = form.watch("items");
+
+  // Productos del PDV de origen por código de barras, para sugerirlos y mostrar su stock.
+  const originProducts = useMemo(
+    () => new Map(Object.values(inventory[origin] ?? {}).flat().map(product => [product.barcode, product])),
+    [inventory, origin]
+  );
+
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  useEffect(() => {
+    if (!form.getValues("origin") && originPointsOfSale.length > 0) {
+      form.setValue("origin", originPointsOfSale[0]);
+    }
+  }, [originPointsOfSale, form]);
+
+  /**
+   * Carga los traspasos del estado elegido desde el backend.
+   */
+  const fetchTransfers = useCallback(async () => {
+    setIsLoadingTransfers(true);
+    try {
+      setTransfers(await api.getStockTransfers({ status: statusFilter === ALL_STATUSES ? null : statusFilter }));
+    } catch (error: any) {
+      console.error("Error al cargar los traspasos:", error);
+      toast({ variant: "destructive", title: "Error al Cargar Traspasos", description: error.message || "No se pudo obtener la lista de traspasos." });
+    } finally {
+      setIsLoadingTransfers(false);
+    }
+  }, [statusFilter, toast]);
+
+  useEffect(() => {
+    if (isClient) {
+      fetchTransfers();
+    }
+  }, [isClient, fetchTransfers]);
+
+  const visibleTransfers = useMemo(
+    () => transfers.filter(t => userPointsOfSale.includes(t.origin) || userPointsOfSale.includes(t.destination)),
+    [transfers, userPointsOfSale]
+  );
+
+  /**
+   * Sustituye un traspaso de la lista por su versión guardada, o lo añade al principio si es nuevo.
+   * @param {StockTransfer} savedTransfer - El traspaso devuelto por el backend.
+   */
+  const upsertTransfer = useCallback((savedTransfer: StockTransfer) => {
+    setTransfers(prev => prev.some(t => t.id === savedTransfer.id)
+      ? prev.map(t => (t.id === savedTransfer.id ? savedTransfer : t))
+      : [savedTransfer, ...prev]);
+  }, []);
+
+  const handleCancelEdit = useCallback(() => {
+    setEditingTransferId(null);
+    form.reset({ origin: originPointsOfSale[0] ?? "", destination: "", items: [emptyItem], notes: "" });
+  }, [form, originPointsOfSale]);
+
+  const handleEditTransfer = useCallback((transfer: StockTransfer) => {
+    setEditingTransferId(transfer.id);
+    form.reset({
+      origin: transfer.origin,
+      destination: transfer.destination,
+      items: transfer.items.map(item => ({ barcode: item.barcode, quantity: item.quantity })),
+      notes: transfer.notes ?? "",
+    });
+    formRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [form]);
+
+  const onSubmit = async (data: StockTransferFormValues) => {
+    try {
+      const payload = { ...data, notes: data.notes?.trim() || undefined };
+      if (editingTransferId) {
+        const savedTransfer = await api.updateStockTransfer({ id: editingTransferId, ...payload });
+        upsertTransfer(savedTransfer);
+        toast({ title: "Traspaso Actualizado", description: `Se guardaron los cambios del borrador N° ${savedTransfer.id.slice(-6)}.` });
+      } else {
+        const savedTransfer = await api.addStockTransfer(payload);
+        upsertTransfer(savedTransfer);
+        toast({ title: "Traspaso Creado", description: `Borrador N° ${savedTransfer.id.slice(-6)} de ${savedTransfer.origin} a ${savedTransfer.destination}. Despáchelo cuando salga la mercadería.` });
+      }
+      handleCancelEdit();
+    } catch (error: any) {
+      console.error("Error al guardar el traspaso:", error);
+      toast({ variant: "destructive", title: "Error al Guardar Traspaso", description: error.message || "No se pudo guardar el traspaso. Intente de nuevo." });
+    }
+  };
+
+  /**
+   * Despacha o recibe un traspaso y recarga el inventario, que cambia en el origen o en el destino.
+   * @param {StockTransfer} transfer - El traspaso.
+   * @param {'dispatch' | 'receive'} step - El paso a registrar.
+   */
+  const handleAdvanceTransfer = useCallback(async (transfer: StockTransfer, step: 'dispatch' | 'receive') => {
+    setUpdatingTransferId(transfer.id);
+    try {
+      const savedTransfer = step === 'dispatch'
+        ? await api.dispatchStockTransfer(transfer.id)
+        : await api.receiveStockTransfer(transfer.id);
+      upsertTransfer(savedTransfer);
+      if (editingTransferId === savedTransfer.id) {
+        handleCancelEdit();
+      }
+      toast({
+        title: step === 'dispatch' ? "Traspaso Despachado" : "Traspaso Recibido",
+        description: step === 'dispatch'
+          ? `Se descontaron ${getStockTransferUnits(savedTransfer)} unidad(es) de ${savedTransfer.origin}.`
+          : `Se sumaron ${getStockTransferUnits(savedTransfer)} unidad(es) a ${savedTransfer.destination}.`,
+      });
+      await refetchInventory();
+    } catch (error: any) {
+      console.error("Error al actualizar el traspaso:", error);
+      toast({ variant: "destructive", title: "Error al Actualizar Traspaso", description: error.message || "No se pudo actualizar el traspaso." });
+    } finally {
+      setUpdatingTransferId(null);
+    }
+  }, [upsertTransfer, editingTransferId, handleCancelEdit, refetchInventory, toast]);
+
+  /**
+   * Anula un traspaso en borrador sin mover stock.
+   * @param {StockTransfer} transfer - El traspaso.
+   */
+  const handleCancelTransfer = useCallback(async (transfer: StockTransfer) => {
+    setUpdatingTransferId(transfer.id);
+    try {
+      const savedTransfer = await api.updateStockTransfer({ id: transfer.id, status: 'cancelled' });
+      upsertTransfer(savedTransfer);
+      if (editingTransferId === savedTransfer.id) {
+        handleCancelEdit();
+      }
+      toast({ title: "Traspaso Anulado", description: `El borrador N° ${savedTransfer.id.slice(-6)} se anuló sin mover stock.` });
+    } catch (error: any) {
+      console.error("Error al anular el traspaso:", error);
+      toast({ variant: "destructive", title: "Error al Anular Traspaso", description: error.message || "No se pudo anular el traspaso." });
+    } finally {
+      setUpdatingTransferId(null);
+    }
+  }, [upsertTransfer, editingTransferId, handleCancelEdit, toast]);
+
+  if (!isClient || !isInventoryLoaded) {
+    return (
+      <div className="space-y-8">
+        <Skeleton className="h-10 w-1/3 mb-6" />
+        <Skeleton className="h-64 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  const canCreateTransfers = originPointsOfSale.length > 0;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-foreground">Traspasos entre PDV</h1>
+        <ArrowLeftRight className="h-8 w-8 text-primary" />
+      </div>
+      <p className="text-muted-foreground">
+        Mueve mercadería entre puntos de venta. El stock sale del origen al despachar el traspaso y entra en el destino
+        cuando allí se confirma la recepción; mientras tanto figura como en tránsito.
+      </p>
+
+      {canCreateTransfers && (
+        <div ref={formRef}>
+          <Card className="shadow-md border border-border/60">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                {editingTransferId ? <Edit className="mr-2 h-6 w-6 text-primary" /> : <PlusCircle className="mr-2 h-6 w-6 text-primary" />}
+                {editingTransferId ? `Editar Borrador N° ${editingTransferId.slice(-6)}` : 'Nuevo Traspaso'}
+              </CardTitle>
+              <CardDescription>El borrador no mueve stock; se puede corregir hasta que se despacha.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <FormField
+                      control={form.control}
+                      name="origin"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>PDV de Origen</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Seleccionar origen" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {originPointsOfSale.map(pos => (
+                                <SelectItem key={pos} value={pos}>{pos}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="destination"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>PDV de Destino</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Seleccionar destino" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {allPointsOfSale.filter(pos => pos !== origin).map(pos => (
+                                <SelectItem key={pos} value={pos}>{pos}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <div className="space-y-3">
+                    <FormLabel>Productos</FormLabel>
+                    <datalist id="transfer-origin-products">
+                      {Array.from(originProducts.values()).map(product => (
+                        <option key={product.barcode} value={product.barcode}>{`${product.name} (${product.brand})`}</option>
+                      ))}
+                    </datalist>
+                    {fields.map((field, index) => {
+                      const product = originProducts.get(items[index]?.barcode?.trim() ?? '');
+                      const quantity = Number(items[index]?.quantity) || 0;
+                      return (
+                        <div key={field.id} className="grid grid-cols-[1fr_120px_auto] gap-3 items-start">
+                          <FormField
+                            control={form.control}
+                            name={`items.${index}.barcode`}
+                            render={({ field: barcodeField }) => (
+                              <FormItem>
+                                <FormControl>
+                                  <Input list="transfer-origin-products" placeholder="Código de barras" autoComplete="off" {...barcodeField} />
+                                </FormControl>
+                                {product ? (
+                                  <p className={`text-xs ${quantity > product.quantity ? 'text-destructive' : 'text-muted-foreground'}`}>
+                                    {product.name} ({product.brand}) · Stock en {origin}: {product.quantity}
+                                  </p>
+                                ) : items[index]?.barcode?.trim() ? (
+                                  <p className="text-xs text-destructive">El producto no existe en {origin}.</p>
+                                ) : null}
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name={`items.${index}.quantity`}
+                            render={({ field: quantityField }) => (
+                              <FormItem>
+                                <FormControl>
+                                  <Input type="number" min={1} step={1} {...quantityField} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} disabled={fields.length === 1} aria-label="Quitar línea">
+                            <MinusCircle className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      );
+                    })}
+                    <Button type="button" variant="outline" size="sm" onClick={() => append({ ...emptyItem })}>
+                      <PlusCircle className="mr-2 h-4 w-4" /> Añadir Producto
+                    </Button>
+                    {form.formState.errors.items?.message && (
+                      <p className="text-sm font-medium text-destructive">{form.formState.errors.items.message}</p>
+                    )}
+                  </div>
+
+                  <FormField
+                    control={form.control}
+                    name="notes"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Notas (opcional)</FormLabel>
+                        <FormControl>
+                          <Textarea placeholder="Ej: reposición semanal, caja 2 de 3" className="min-h-[60px]" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="flex gap-4">
+                    <Button type="submit" disabled={form.formState.isSubmitting}>
+                      {editingTransferId ? 'Guardar Cambios' : 'Crear Borrador'}
+                    </Button>
+                    {editingTransferId && (
+                      <Button type="button" variant="outline" onClick={handleCancelEdit}>
+                        <XCircle className="mr-2 h-4 w-4" /> Cancelar Edición
+                      </Button>
+                    )}
+                  </div>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Card className="shadow-md border border-border/60">
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <div>
+              <CardTitle>Traspasos</CardTitle>
+              <CardDescription>Los que salen de tus PDV o llegan a ellos, del más reciente al más antiguo.</CardDescription>
+            </div>
+            <Select value={statusFilter} onValueChange={value => setStatusFilter(value as StockTransferStatus | typeof ALL_STATUSES)}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_STATUSES}>Todos los estados</SelectItem>
+                {stockTransferStatusSchema.options.map(status => (
+                  <SelectItem key={status} value={status}>{getStockTransferStatusLabel(status)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoadingTransfers ? (
+            <Skeleton className="h-48 w-full" />
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableCaption>{visibleTransfers.length} traspaso(s).</TableCaption>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[180px]">Fecha</TableHead>
+                    <TableHead>Origen → Destino</TableHead>
+                    <TableHead>Productos</TableHead>
+                    <TableHead>Estado</TableHead>
+                    <TableHead className="text-right">Acciones</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleTransfers.length > 0 ? visibleTransfers.map(transfer => {
+                    const canManageOrigin = can('transfer_stock', transfer.origin);
+                    const canReceive = can('transfer_stock', transfer.destination);
+                    const isUpdating = updatingTransferId === transfer.id;
+                    return (
+                      <TableRow key={transfer.id}>
+                        <TableCell className="font-medium whitespace-nowrap text-sm">
+                          {format(transfer.createdAt, "d MMM, yyyy h:mm a", { locale: es })}
+                          <div className="text-xs text-muted-foreground">N° {transfer.id.slice(-6)} · {transfer.createdBy.userName}</div>
+                        </TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">{transfer.origin} → {transfer.destination}</TableCell>
+                        <TableCell>
+                          <ul className="list-none space-y-1">
+                            {transfer.items.map(item => (
+                              <li key={`${transfer.id}-${item.barcode}`} className="text-xs">
+                                {item.productName} ({item.brandName}) - Cant: {item.quantity}
+                              </li>
+                            ))}
+                          </ul>
+                          {transfer.notes && <p className="text-xs text-muted-foreground italic mt-1">{transfer.notes}</p>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_BADGE_VARIANTS[transfer.status]}>{getStockTransferStatusLabel(transfer.status)}</Badge>
+                          {transfer.dispatchedAt && transfer.dispatchedBy && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              Despachó {transfer.dispatchedBy.userName} el {format(transfer.dispatchedAt, "d MMM, h:mm a", { locale: es })}
+                            </div>
+                          )}
+                          {transfer.receivedAt && transfer.receivedBy && (
+                            <div className="text-xs text-muted-foreground">
+                              Recibió {transfer.receivedBy.userName} el {format(transfer.receivedAt, "d MMM, h:mm a", { locale: es })}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex flex-wrap justify-end gap-2">
+                            {transfer.status === 'draft' && canManageOrigin && (
+                              <>
+                                <Button variant="outline" size="sm" onClick={() => handleEditTransfer(transfer)} disabled={isUpdating}>
+                                  <Edit className="mr-1 h-4 w-4" /> Editar
+                                </Button>
+                                <Button size="sm" onClick={() => handleAdvanceTransfer(transfer, 'dispatch')} disabled={isUpdating}>
+                                  <Send className="mr-1 h-4 w-4" /> Despachar
+                                </Button>
+                                <Button variant="destructive" size="sm" onClick={() => handleCancelTransfer(transfer)} disabled={isUpdating}>
+                                  <Ban className="mr-1 h-4 w-4" /> Anular
+                                </Button>
+                              </>
+                            )}
+                            {transfer.status === 'in_transit' && canReceive && (
+                              <Button size="sm" onClick={() => handleAdvanceTransfer(transfer, 'receive')} disabled={isUpdating}>
+                                <PackageCheck className="mr-1 h-4 w-4" /> Recibir
+                              </Button>
+                            )}
+                            <Button variant="outline" size="sm" onClick={() => downloadPackingSlipPdf(transfer)}>
+                              <FileText className="mr-1 h-4 w-4" /> Remito PDF
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  }) : (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
+                        {statusFilter === ALL_STATUSES ? 'Aún no hay traspasos.' : 'No hay traspasos en este estado.'}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,387 @@
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableCaption } from "@/components/ui/table";
+import { Skeleton } from '@/components/ui/skeleton';
+import { Users, PlusCircle, Edit, XCircle, UserCheck, UserX } from 'lucide-react';
+import { useToast } from "@/hooks/use-toast";
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { useAuth } from '@/context/AuthContext';
+import { useInventoryContext } from '@/context/InventoryContext';
+import * as api from '@/lib/api';
+import { getRoleLabel, roleSchema, userFormSchema, type ManagedUser, type UserFormValues } from '@/lib/domain';
+
+// Valor de `allowedPOS` que da acceso a todos los PDV.
+const ALL_POS = '*';
+
+const emptyFormValues: UserFormValues = {
+  name: "",
+  username: "",
+  password: "",
+  role: "cashier",
+  allowedPOS: [],
+};
+
+/**
+ * Página de administración de usuarios. Permite crear usuarios, editar su nombre, rol y PDV,
+ * restablecer su contraseña y activarlos o desactivarlos. Todos los cambios se guardan en el backend.
+ * Solo accesible con la capacidad `manage_users` (ver `ROUTE_PERMISSIONS`).
+ *
+ * @returns {JSX.Element} La interfaz de usuario de la página de usuarios.
+ */
+export default function UsersPage(): JSX.Element {
+  const { toast } = useToast();
+  const { currentUser, isLoading: isAuthLoading } = useAuth();
+  const { getAllPointsOfSale, isInventoryLoaded } = useInventoryContext();
+
+  const [isClient, setIsClient] = useState(false);
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [isLoadingUsers, setIsLoadingUsers] = useState(true);
+  const [editingUserId, setEditingUserId] = useState<string | null>(null);
+  const [updatingUserId, setUpdatingUserId] = useState<string | null>(null);
+  const formRef = React.useRef<HTMLDivElement>(null);
+
+  const allPointsOfSale = getAllPointsOfSale();
+
+  const form = useForm<UserFormValues>({
+    resolver: zodResolver(userFormSchema),
+    defaultValues: emptyFormValues,
+    mode: "onChange",
+  });
+
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  /**
+   * Carga la lista de usuarios desde el backend.
+   */
+  const fetchUsers = useCallback(async () => {
+    setIsLoadingUsers(true);
+    try {
+      setUsers(await api.getUsers());
+    } catch (error: any) {
+      console.error("Error al cargar los usuarios:", error);
+      toast({ variant: "destructive", title: "Error al Cargar Usuarios", description: error.message || "No se pudo obtener la lista de usuarios." });
+    } finally {
+      setIsLoadingUsers(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (isClient) {
+      fetchUsers();
+    }
+  }, [isClient, fetchUsers]);
+
+  /**
+   * Sustituye un usuario de la lista por su versión actualizada (o lo añade si es nuevo), manteniendo el orden por nombre.
+   * @param {ManagedUser} savedUser - El usuario devuelto por el backend.
+   */
+  const upsertUser = useCallback((savedUser: ManagedUser) => {
+    setUsers(prev => [...prev.filter(u => u.id !== savedUser.id), savedUser].sort((a, b) => a.name.localeCompare(b.name)));
+  }, []);
+
+  const handleEditUser = useCallback((user: ManagedUser) => {
+    setEditingUserId(user.id);
+    form.reset({ name: user.name, username: user.username, password: "", role: user.role, allowedPOS: user.allowedPOS });
+    formRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [form]);
+
+  const handleCancelEdit = useCallback(() => {
+    setEditingUserId(null);
+    form.reset(emptyFormValues);
+  }, [form]);
+
+  const onSubmit = async (data: UserFormValues) => {
+    try {
+      if (editingUserId) {
+        let savedUser = await api.updateUser({ id: editingUserId, name: data.name, role: data.role, allowedPOS: data.allowedPOS });
+        if (data.password) {
+          savedUser = await api.resetUserPassword(editingUserId, data.password);
+        }
+        upsertUser(savedUser);
+        toast({
+          title: "Usuario Actualizado",
+          description: data.password
+            ? `Se actualizó "${savedUser.name}" y se restableció su contraseña.`
+            : `Se actualizó "${savedUser.name}".`,
+        });
+      } else {
+        if (!data.password) {
+          form.setError("password", { message: "La contraseña es requerida para un usuario nuevo." });
+          return;
+        }
+        const savedUser = await api.addUser(data);
+        upsertUser(savedUser);
+        toast({ title: "Usuario Creado", description: `El usuario "${savedUser.username}" fue creado con éxito.` });
+      }
+      handleCancelEdit();
+    } catch (error: any) {
+      console.error("Error al guardar el usuario:", error);
+      toast({ variant: "destructive", title: "Error al Guardar Usuario", description: error.message || "No se pudo guardar el usuario. Intente de nuevo." });
+    }
+  };
+
+  /**
+   * Activa o desactiva un usuario. Desactivarlo cierra sus sesiones abiertas.
+   * @param {ManagedUser} user - El usuario a cambiar.
+   */
+  const handleToggleActive = useCallback(async (user: ManagedUser) => {
+    setUpdatingUserId(user.id);
+    try {
+      const savedUser = await api.updateUser({ id: user.id, active: !user.active });
+      upsertUser(savedUser);
+      toast({
+        title: savedUser.active ? "Usuario Activado" : "Usuario Desactivado",
+        description: savedUser.active
+          ? `"${savedUser.name}" puede volver a iniciar sesión.`
+          : `"${savedUser.name}" ya no puede iniciar sesión y sus sesiones abiertas se cerraron.`,
+      });
+    } catch (error: any) {
+      console.error("Error al cambiar el estado del usuario:", error);
+      toast({ variant: "destructive", title: "Error al Actualizar Usuario", description: error.message || "No se pudo cambiar el estado del usuario." });
+    } finally {
+      setUpdatingUserId(null);
+    }
+  }, [upsertUser, toast]);
+
+  /**
+   * Marca o desmarca un PDV en el formulario. Marcar "Todos" sustituye la selección por '*'.
+   * @param {string[]} current - La selección actual.
+   * @param {string} pos - El PDV (o '*').
+   * @param {boolean} checked - Si se marca o se desmarca.
+   * @returns {string[]} La nueva selección.
+   */
+  const togglePointOfSale = (current: string[], pos: string, checked: boolean): string[] => {
+    if (pos === ALL_POS) {
+      return checked ? [ALL_POS] : [];
+    }
+    return checked ? [...current.filter(p => p !== ALL_POS), pos] : current.filter(p => p !== pos);
+  };
+
+  if (isAuthLoading || !isClient || !isInventoryLoaded) {
+    return (
+      <div className="space-y-8">
+        <Skeleton className="h-10 w-1/3 mb-6" />
+        <Skeleton className="h-64 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  const editingUser = editingUserId ? users.find(u => u.id === editingUserId) : undefined;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-foreground">Gestión de Usuarios</h1>
+        <Users className="h-8 w-8 text-primary" />
+      </div>
+      <p className="text-muted-foreground">
+        Crea usuarios, asigna su rol y los Puntos de Venta a los que tienen acceso, restablece contraseñas y desactiva cuentas.
+      </p>
+
+      <div ref={formRef}>
+        <Card className="shadow-md border border-border/60">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              {editingUserId ? <Edit className="mr-2 h-6 w-6 text-primary" /> : <PlusCircle className="mr-2 h-6 w-6 text-primary" />}
+              {editingUserId ? `Editar Usuario ${editingUser ? `(${editingUser.username})` : ''}` : 'Crear Nuevo Usuario'}
+            </CardTitle>
+            <CardDescription>
+              {editingUserId
+                ? 'Modifica el nombre, el rol o los PDV. Escribe una contraseña nueva solo si quieres restablecerla.'
+                : 'Completa los datos del nuevo usuario y su contraseña inicial.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nombre</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Ej: Ana Pérez" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nombre de Usuario</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Ej: ana.perez" autoComplete="off" disabled={!!editingUserId} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{editingUserId ? 'Restablecer Contraseña' : 'Contraseña'}</FormLabel>
+                        <FormControl>
+                          <Input type="password" autoComplete="new-password" placeholder={editingUserId ? 'Dejar en blanco para no cambiarla' : ''} {...field} />
+                        </FormControl>
+                        {editingUserId && <FormDescription>Al restablecerla se cierran las sesiones abiertas del usuario.</FormDescription>}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="role"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Rol</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Seleccionar rol" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {roleSchema.options.map(role => (
+                              <SelectItem key={role} value={role}>{getRoleLabel(role)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="allowedPOS"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Puntos de Venta</FormLabel>
+                      <div className="flex flex-wrap gap-x-6 gap-y-3 pt-1">
+                        {[ALL_POS, ...allPointsOfSale].map(pos => (
+                          <label key={pos} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={field.value.includes(pos)}
+                              disabled={pos !== ALL_POS && field.value.includes(ALL_POS)}
+                              onCheckedChange={checked => field.onChange(togglePointOfSale(field.value, pos, checked === true))}
+                            />
+                            {pos === ALL_POS ? 'Todos los PDV' : pos}
+                          </label>
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex gap-4">
+                  <Button type="submit" disabled={form.formState.isSubmitting}>
+                    {editingUserId ? 'Guardar Cambios' : 'Crear Usuario'}
+                  </Button>
+                  {editingUserId && (
+                    <Button type="button" variant="outline" onClick={handleCancelEdit}>
+                      <XCircle className="mr-2 h-4 w-4" /> Cancelar Edición
+                    </Button>
+                  )}
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="shadow-md border border-border/60">
+        <CardHeader>
+          <CardTitle>Usuarios Registrados</CardTitle>
+          <CardDescription>Los usuarios desactivados no pueden iniciar sesión, pero se conservan en el historial.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingUsers ? (
+            <Skeleton className="h-48 w-full" />
+          ) : (
+            <Table>
+              <TableCaption>{users.length} usuario(s) registrado(s).</TableCaption>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nombre</TableHead>
+                  <TableHead>Usuario</TableHead>
+                  <TableHead>Rol</TableHead>
+                  <TableHead>Puntos de Venta</TableHead>
+                  <TableHead>Último Acceso</TableHead>
+                  <TableHead>Estado</TableHead>
+                  <TableHead className="text-right">Acciones</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map(user => {
+                  const isCurrentUser = user.id === currentUser?.id;
+                  return (
+                    <TableRow key={user.id} className={user.active ? undefined : 'opacity-60'}>
+                      <TableCell className="font-medium">{user.name}</TableCell>
+                      <TableCell>{user.username}</TableCell>
+                      <TableCell>{getRoleLabel(user.role)}</TableCell>
+                      <TableCell>{user.allowedPOS.includes(ALL_POS) ? 'Todos' : user.allowedPOS.join(', ')}</TableCell>
+                      <TableCell>{user.lastLoginAt ? format(user.lastLoginAt, "dd/MM/yyyy HH:mm", { locale: es }) : 'Nunca'}</TableCell>
+                      <TableCell>
+                        <Badge variant={user.active ? 'default' : 'secondary'}>{user.active ? 'Activo' : 'Desactivado'}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        <Button variant="outline" size="sm" onClick={() => handleEditUser(user)}>
+                          <Edit className="mr-1 h-4 w-4" /> Editar
+                        </Button>
+                        <Button
+                          variant={user.active ? 'destructive' : 'outline'}
+                          size="sm"
+                          disabled={isCurrentUser || updatingUserId === user.id}
+                          title={isCurrentUser ? 'No puedes desactivar tu propia cuenta.' : undefined}
+                          onClick={() => handleToggleActive(user)}
+                        >
+                          {user.active ? <UserX className="mr-1 h-4 w-4" /> : <UserCheck className="mr-1 h-4 w-4" />}
+                          {user.active ? 'Desactivar' : 'Activar'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
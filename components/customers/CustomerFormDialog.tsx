@@ -0,0 +1,189 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { Contact } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import * as api from '@/lib/api';
+import { customerFormSchema, type Customer, type CustomerFormValues } from '@/lib/domain';
+
+const emptyFormValues: CustomerFormValues = {
+  name: "",
+  taxId: "",
+  phone: "",
+  email: "",
+  address: "",
+  notes: "",
+};
+
+interface CustomerFormDialogProps {
+  /** Si el diálogo está abierto. */
+  open: boolean;
+  /** Se llama al cerrar el diálogo sin guardar. */
+  onClose: () => void;
+  /** Se llama con el cliente guardado por el backend. */
+  onSaved: (customer: Customer) => void;
+  /** El cliente a editar; sin él, el diálogo da de alta uno nuevo. */
+  customer?: Customer | null;
+  /** Nombre con el que empieza el formulario de alta (p. ej., lo que se buscó en la caja). */
+  initialName?: string;
+}
+
+/**
+ * Diálogo de alta y edición de un cliente del directorio: nombre, ID fiscal y datos de contacto.
+ *
+ * @param {CustomerFormDialogProps} props - Las props para el componente.
+ * @returns {JSX.Element} El diálogo del formulario de cliente.
+ */
+export default function CustomerFormDialog({ open, onClose, onSaved, customer = null, initialName = '' }: CustomerFormDialogProps): JSX.Element {
+  const { toast } = useToast();
+  const form = useForm<CustomerFormValues>({
+    resolver: zodResolver(customerFormSchema),
+    defaultValues: emptyFormValues,
+    mode: "onChange",
+  });
+
+  // Cada apertura empieza con los datos del cliente editado, o con el formulario vacío.
+  useEffect(() => {
+    if (open) {
+      form.reset(customer
+        ? { name: customer.name, taxId: customer.taxId, phone: customer.phone, email: customer.email, address: customer.address, notes: customer.notes }
+        : { ...emptyFormValues, name: initialName });
+    }
+  }, [open, customer, initialName, form]);
+
+  const onSubmit = async (data: CustomerFormValues) => {
+    try {
+      const savedCustomer = customer
+        ? await api.updateCustomer({ id: customer.id, ...data })
+        : await api.addCustomer(data);
+      toast({
+        title: customer ? "Cliente Actualizado" : "Cliente Registrado",
+        description: customer ? `Se actualizaron los datos de "${savedCustomer.name}".` : `"${savedCustomer.name}" se añadió al directorio.`,
+      });
+      onSaved(savedCustomer);
+    } catch (error: any) {
+      console.error("Error al guardar el cliente:", error);
+      toast({ variant: "destructive", title: "Error al Guardar Cliente", description: error.message || "No se pudo guardar el cliente. Intente de nuevo." });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => { if (!isOpen) onClose(); }}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Contact className="h-5 w-5 text-primary" />
+            {customer ? `Editar Cliente (${customer.name})` : 'Nuevo Cliente'}
+          </DialogTitle>
+          <DialogDescription>
+            El ID fiscal se imprime en los recibos de las ventas del cliente. Los demás datos son opcionales.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          {/* El diálogo puede abrirse desde el formulario de la venta: el envío no debe propagarse a él. */}
+          <form
+            onSubmit={e => {
+              e.stopPropagation();
+              form.handleSubmit(onSubmit)(e);
+            }}
+            className="space-y-4"
+          >
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nombre o Razón Social</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Ej: Perfumería Sol" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="taxId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>ID Fiscal (opcional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Ej: 30-71234567-8" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Teléfono</FormLabel>
+                    <FormControl>
+                      <Input type="tel" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Correo Electrónico</FormLabel>
+                    <FormControl>
+                      <Input type="email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Dirección</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notas</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} placeholder="Ej: entrega los martes, pide factura" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose} disabled={form.formState.isSubmitting}>Cancelar</Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Guardando...' : customer ? 'Guardar Cambios' : 'Registrar Cliente'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
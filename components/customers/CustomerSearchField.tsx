@@ -0,0 +1,180 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Contact, PlusCircle, Search, XCircle } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import CustomerFormDialog from '@/components/customers/CustomerFormDialog';
+import { useToast } from "@/hooks/use-toast";
+import * as api from '@/lib/api';
+import { matchesCustomerSearch, type Customer } from '@/lib/domain';
+
+// Máximo de coincidencias que se muestran mientras se escribe.
+const MAX_SUGGESTIONS = 8;
+
+interface CustomerSearchFieldProps {
+  /** El cliente elegido, o null si la venta no tiene cliente. */
+  value: Customer | null;
+  /** Se llama con el cliente elegido, o con null al quitarlo. */
+  onChange: (customer: Customer | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Buscador del cliente de una venta: filtra el directorio por nombre, ID fiscal, teléfono o correo mientras
+ * se escribe y permite registrar un cliente nuevo sin salir de la caja.
+ *
+ * @param {CustomerSearchFieldProps} props - Las props para el componente.
+ * @returns {JSX.Element} El campo de búsqueda de clientes.
+ */
+export default function CustomerSearchField({ value, onChange, disabled = false }: CustomerSearchFieldProps): JSX.Element {
+  const { toast } = useToast();
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  /**
+   * Carga el directorio de clientes. Si falla, la venta se puede registrar igual, sin cliente.
+   */
+  const fetchCustomers = useCallback(async () => {
+    try {
+      setCustomers(await api.getCustomers());
+    } catch (error: any) {
+      console.error("Error al cargar los clientes:", error);
+      toast({ variant: "destructive", title: "Error al Cargar Clientes", description: error.message || "No se pudo obtener el directorio de clientes." });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchCustomers();
+  }, [fetchCustomers]);
+
+  const suggestions = useMemo(
+    () => (query.trim() ? customers.filter(customer => matchesCustomerSearch(customer, query)).slice(0, MAX_SUGGESTIONS) : []),
+    [customers, query]
+  );
+
+  const selectCustomer = useCallback((customer: Customer) => {
+    onChange(customer);
+    setQuery('');
+    setIsOpen(false);
+    setActiveIndex(-1);
+  }, [onChange]);
+
+  const handleCustomerCreated = useCallback((customer: Customer) => {
+    setCustomers(prev => [...prev, customer].sort((a, b) => a.name.localeCompare(b.name, 'es')));
+    setIsFormOpen(false);
+    selectCustomer(customer);
+  }, [selectCustomer]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex(prev => (prev + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex(prev => (prev <= 0 ? suggestions.length - 1 : prev - 1));
+    } else if (e.key === 'Enter') {
+      // El Enter no debe enviar el formulario de la venta.
+      e.preventDefault();
+      const customer = suggestions[activeIndex] ?? (suggestions.length === 1 ? suggestions[0] : undefined);
+      if (customer) {
+        selectCustomer(customer);
+      }
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+      setActiveIndex(-1);
+    }
+  };
+
+  if (value) {
+    return (
+      <div className="flex items-center gap-2 rounded-md border border-input px-3 py-2 text-sm">
+        <Contact className="h-4 w-4 text-primary shrink-0" />
+        <div className="flex-grow min-w-0">
+          <p className="font-medium truncate">{value.name}</p>
+          <p className="text-xs text-muted-foreground truncate">
+            {[value.taxId && `ID fiscal: ${value.taxId}`, value.phone].filter(Boolean).join(' · ') || 'Sin ID fiscal'}
+          </p>
+        </div>
+        <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={() => onChange(null)} disabled={disabled} aria-label="Quitar el cliente de la venta">
+          <XCircle className="h-4 w-4 text-destructive" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Popover open={isOpen && query.trim() !== ''} onOpenChange={setIsOpen}>
+        <PopoverTrigger asChild>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+            <Input
+              placeholder="Buscar cliente por nombre, ID fiscal o teléfono (opcional)..."
+              value={query}
+              onChange={e => {
+                setQuery(e.target.value);
+                setIsOpen(true);
+                setActiveIndex(-1);
+              }}
+              onFocus={() => setIsOpen(true)}
+              onKeyDown={handleKeyDown}
+              className="pl-10"
+              disabled={disabled}
+              autoComplete="off"
+              aria-label="Buscar cliente"
+            />
+          </div>
+        </PopoverTrigger>
+        <PopoverContent
+          className="w-[--radix-popover-trigger-width] p-0"
+          align="start"
+          sideOffset={5}
+          onOpenAutoFocus={e => e.preventDefault()}
+        >
+          <div className="max-h-60 overflow-y-auto">
+            {suggestions.map((customer, index) => (
+              <button
+                key={customer.id}
+                type="button"
+                className={`flex items-center w-full px-4 py-2 text-sm focus:outline-none ${activeIndex === index ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/80'}`}
+                onClick={() => selectCustomer(customer)}
+                onMouseDown={e => e.preventDefault()}
+                role="option"
+                aria-selected={activeIndex === index}
+              >
+                <span className="font-medium text-left flex-grow">{customer.name}</span>
+                {customer.taxId && <span className="text-xs text-muted-foreground ml-2">{customer.taxId}</span>}
+              </button>
+            ))}
+            {suggestions.length === 0 && (
+              <p className="px-4 py-2 text-sm text-muted-foreground">Ningún cliente coincide con "{query.trim()}".</p>
+            )}
+            <button
+              type="button"
+              className="flex items-center w-full px-4 py-2 text-sm border-t border-border/60 text-primary hover:bg-accent/80"
+              onClick={() => {
+                setIsOpen(false);
+                setIsFormOpen(true);
+              }}
+              onMouseDown={e => e.preventDefault()}
+            >
+              <PlusCircle className="mr-2 h-4 w-4" /> Registrar cliente nuevo
+            </button>
+          </div>
+        </PopoverContent>
+      </Popover>
+      <CustomerFormDialog
+        open={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        onSaved={handleCustomerCreated}
+        initialName={query.trim()}
+      />
+    </>
+  );
+}
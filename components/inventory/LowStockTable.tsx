@@ -17,9 +17,11 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 import Image from 'next/image';
-import { AlertTriangle, PackageOpen, Search } from "lucide-react";
+import { AlertTriangle, PackageOpen, Search, Target } from "lucide-react";
 import type { Product } from '@/context/InventoryContext';
+import { getReorderMetrics, type ReorderSettings, type SalesVelocity } from '@/lib/domain';
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"; // Importar Tooltip
 
@@ -38,22 +40,54 @@ interface LowStockTableProps {
   searchTerm: string;
   totalInitially: number;
   defaultLowStockThreshold: number; // Umbral global por defecto
+  /** Venta media diaria por PDV y producto; null mientras se carga o si no se pudo calcular. */
+  salesVelocity?: SalesVelocity | null;
+  /** Parámetros del punto de pedido. */
+  reorderSettings?: ReorderSettings;
+  /** Si se indica, cada fila ofrece usar su punto de pedido como umbral personalizado. */
+  onApplyReorderPoint?: (product: LowStockProduct, reorderPoint: number) => void;
+  /** Indica si el usuario puede cambiar umbrales en un PDV. */
+  canApplyReorderPoint?: (pointOfSale: string) => boolean;
+}
+
+/**
+ * Formatea los días de cobertura para la tabla.
+ * @param {number} days - Los días.
+ * @returns {string} Los días con un decimal por debajo de 10, o redondeados.
+ */
+function formatDays(days: number): string {
+  return days < 10 ? days.toFixed(1) : String(Math.round(days));
 }
 
 /**
  * El componente LowStockTable muestra una lista de productos que tienen baja cantidad,
  * agrupados por marca en un acordeón.
  * Muestra detalles como la imagen del producto, nombre, código de barras, su punto de venta y la cantidad actual.
- * Considera umbrales de bajo stock personalizados.
+ * Considera umbrales de bajo stock personalizados. Con la venta media diaria muestra además los días de cobertura,
+ * el punto de pedido y la cantidad sugerida a pedir, y puede ofrecer usar el punto de pedido como umbral.
  *
  * @param {LowStockTableProps} props - Las props para el componente.
  * @param {GroupedLowStockProducts} props.productsByBrand - Los productos con bajo stock agrupados por marca.
  * @param {string} props.searchTerm - El término de búsqueda actual.
  * @param {number} props.totalInitially - El número total de productos inicialmente con bajo stock.
  * @param {number} props.defaultLowStockThreshold - El umbral global por defecto para bajo stock.
+ * @param {SalesVelocity | null} [props.salesVelocity] - La venta media diaria por PDV y producto.
+ * @param {ReorderSettings} [props.reorderSettings] - Los parámetros del punto de pedido.
+ * @param {Function} [props.onApplyReorderPoint] - Callback para usar el punto de pedido como umbral.
+ * @param {Function} [props.canApplyReorderPoint] - Indica si el usuario puede cambiar umbrales en un PDV.
  * @returns {JSX.Element} La interfaz de usuario de la tabla de bajo stock con acordeones.
  */
-export default function LowStockTable({ productsByBrand, searchTerm, totalInitially, defaultLowStockThreshold }: LowStockTableProps): JSX.Element {
+export default function LowStockTable({
+  productsByBrand,
+  searchTerm,
+  totalInitially,
+  defaultLowStockThreshold,
+  salesVelocity,
+  reorderSettings,
+  onApplyReorderPoint,
+  canApplyReorderPoint,
+}: LowStockTableProps): JSX.Element {
+  const showReorderColumns = !!reorderSettings;
   const brandsWithLowStockProducts = Object.keys(productsByBrand).filter(
     brand => productsByBrand[brand] && productsByBrand[brand].length > 0
   );
@@ -97,7 +131,15 @@ export default function LowStockTable({ productsByBrand, searchTerm, totalInitia
                       <TableHead>Nombre Producto</TableHead>
                       <TableHead>Código Barras</TableHead>
                       <TableHead>Punto de Venta</TableHead>
-                      <TableHead className="text-center pr-6 w-[150px]">Cantidad (Umbral)</TableHead>
+                      <TableHead className={`text-center w-[150px] ${showReorderColumns ? '' : 'pr-6'}`}>Cantidad (Umbral)</TableHead>
+                      {showReorderColumns && (
+                        <>
+                          <TableHead className="text-right">Venta/Día</TableHead>
+                          <TableHead className="text-center">Cobertura</TableHead>
+                          <TableHead className="text-center">Punto de Pedido</TableHead>
+                          <TableHead className="text-right pr-6">Sugerido Pedir</TableHead>
+                        </>
+                      )}
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -106,6 +148,12 @@ export default function LowStockTable({ productsByBrand, searchTerm, totalInitia
                         ? product.lowStockThreshold
                         : defaultLowStockThreshold;
                       const isCustomThreshold = product.lowStockThreshold != null && product.lowStockThreshold > 0;
+                      const metrics = reorderSettings && salesVelocity
+                        ? getReorderMetrics(product.quantity, salesVelocity[product.pointOfSale]?.[product.barcode] ?? 0, reorderSettings)
+                        : null;
+                      const reorderPoint = metrics?.reorderPoint ?? null;
+                      const canApply = reorderPoint !== null && reorderPoint !== product.lowStockThreshold
+                        && (!canApplyReorderPoint || canApplyReorderPoint(product.pointOfSale));
 
                       return (
                         <TableRow key={`${product.id}-${product.pointOfSale}`} className="hover:bg-muted/20">
@@ -129,7 +177,7 @@ export default function LowStockTable({ productsByBrand, searchTerm, totalInitia
                           <TableCell className="font-medium">{product.name}</TableCell>
                           <TableCell className="text-muted-foreground font-mono text-xs">{product.barcode}</TableCell>
                           <TableCell>{product.pointOfSale}</TableCell>
-                          <TableCell className="text-center pr-6">
+                          <TableCell className={`text-center ${showReorderColumns ? '' : 'pr-6'}`}>
                             <Tooltip>
                               <TooltipTrigger asChild>
                                 <Badge variant="destructive" className="px-1.5 py-0.5 text-xs cursor-default">
@@ -142,6 +190,31 @@ export default function LowStockTable({ productsByBrand, searchTerm, totalInitia
                               </TooltipContent>
                             </Tooltip>
                           </TableCell>
+                          {reorderSettings && (
+                            !metrics ? (
+                              <TableCell colSpan={4} className="text-center text-xs text-muted-foreground pr-6">Calculando...</TableCell>
+                            ) : metrics.daysOfCover === null ? (
+                              <TableCell colSpan={4} className="text-center text-xs text-muted-foreground pr-6">Sin ventas en los últimos {reorderSettings.salesWindowDays} días</TableCell>
+                            ) : (
+                              <>
+                                <TableCell className="text-right text-sm">{metrics.dailySales.toFixed(2)}</TableCell>
+                                <TableCell className="text-center">
+                                  <Badge variant={metrics.daysOfCover < reorderSettings.leadTimeDays ? "destructive" : "secondary"} className="text-xs">
+                                    {formatDays(metrics.daysOfCover)} días
+                                  </Badge>
+                                </TableCell>
+                                <TableCell className="text-center text-sm">
+                                  <div>{reorderPoint}</div>
+                                  {onApplyReorderPoint && canApply && reorderPoint !== null && (
+                                    <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => onApplyReorderPoint?.(product, reorderPoint)}>
+                                      <Target className="h-3 w-3 mr-1" /> Usar como umbral
+                                    </Button>
+                                  )}
+                                </TableCell>
+                                <TableCell className="text-right pr-6 font-semibold">{metrics.suggestedOrderQuantity}</TableCell>
+                              </>
+                            )
+                          )}
                         </TableRow>
                       );
                     })}
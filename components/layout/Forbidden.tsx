@@ -0,0 +1,34 @@
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ShieldX } from 'lucide-react';
+
+/**
+ * Vista de acceso denegado (error 403). La muestran `ProtectedRoutes` y la página `/forbidden`,
+ * a la que el middleware reescribe las peticiones a rutas para las que el rol del usuario no tiene permiso.
+ *
+ * @returns {JSX.Element} La interfaz de usuario de la vista 403.
+ */
+export default function Forbidden(): JSX.Element {
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[calc(100vh-12rem)] text-center px-4 py-10">
+      <Card className="w-full max-w-lg shadow-xl border border-border/60">
+        <CardHeader className="items-center">
+          <ShieldX className="h-16 w-16 text-destructive mb-6" />
+          <CardTitle className="text-4xl font-bold text-foreground">Error 403</CardTitle>
+          <CardDescription className="text-xl text-muted-foreground pt-2">
+            Acceso Denegado
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col items-center gap-6 pt-2 pb-8">
+          <p className="text-muted-foreground max-w-sm">
+            Tu rol no tiene permiso para acceder a esta sección. Si crees que es un error, contacta con un administrador.
+          </p>
+          <Button asChild size="lg" className="mt-4">
+            <Link href="/">Volver al Inicio</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,12 +3,13 @@
 
 import Link from 'next/link';
 import { useRouter } from 'next/navigation'; 
-import { Package, ShoppingCart, Truck, Menu, Store, LogOut, LogIn, PackageSearch, Layers, Receipt, PackageIcon, Banknote, AlertTriangle, BarChart } from 'lucide-react';
+import { Package, ShoppingCart, Truck, Menu, Store, LogOut, LogIn, PackageSearch, Layers, Receipt, PackageIcon, Banknote, AlertTriangle, BarChart, Users, ScrollText, Tag, Contact, ArrowLeftRight, ClipboardList, ClipboardCheck, PackageMinus } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetClose, SheetTrigger } from "@/components/ui/sheet";
 import { useAuth } from '@/context/AuthContext'; 
+import { getRouteCapability } from '@/lib/routePermissions';
 import { Separator } from '@/components/ui/separator';
-import React, { useMemo } from 'react';
+import React from 'react';
 
 /**
  * Componente de encabezado para la aplicación.
@@ -16,31 +17,41 @@ import React, { useMemo } from 'react';
  * Incluye un botón de Cerrar Sesión si un usuario está autenticado.
  */
 export default function Header(): JSX.Element {
-  const { currentUser, logout, isLoading } = useAuth(); 
+  const { currentUser, logout, can, isLoading } = useAuth(); 
   const router = useRouter(); 
 
-  const isAdmin = useMemo(() => currentUser?.allowedPOS.includes('*'), [currentUser]);
-
   const navItems = [
-    { href: "/", label: "Inventario", icon: Package, adminOnly: false },
-    { href: "/product-descriptions", label: "Descripciones", icon: PackageIcon, adminOnly: false },
-    { href: "/out-of-stock", label: "Agotados", icon: PackageSearch, adminOnly: false },
-    { href: "/low-stock", label: "Casi Agotados", icon: AlertTriangle, adminOnly: false },
-    { href: "/sales", label: "Ventas", icon: ShoppingCart, adminOnly: false },
-    { href: "/wholesale-sales", label: "Ventas al Por Mayor", icon: Layers, adminOnly: false },
-    { href: "/suppliers", label: "Proveedores", icon: Truck, adminOnly: false },
-    { href: "/invoices", label: "Facturas", icon: Receipt, adminOnly: false }, 
-    { href: "/caja", label: "Caja", icon: Banknote, adminOnly: true },
-    { href: "/grafica", label: "Gráfica", icon: BarChart, adminOnly: false },
+    { href: "/", label: "Inventario", icon: Package },
+    { href: "/product-descriptions", label: "Descripciones", icon: PackageIcon },
+    { href: "/out-of-stock", label: "Agotados", icon: PackageSearch },
+    { href: "/low-stock", label: "Casi Agotados", icon: AlertTriangle },
+    { href: "/sales", label: "Ventas", icon: ShoppingCart },
+    { href: "/wholesale-sales", label: "Ventas al Por Mayor", icon: Layers },
+    { href: "/suppliers", label: "Proveedores", icon: Truck },
+    { href: "/transfers", label: "Traspasos", icon: ArrowLeftRight },
+    { href: "/purchase-orders", label: "Compras", icon: ClipboardList },
+    { href: "/stock-counts", label: "Conteos", icon: ClipboardCheck },
+    { href: "/stock-adjustments", label: "Ajustes", icon: PackageMinus },
+    { href: "/invoices", label: "Facturas", icon: Receipt }, 
+    { href: "/caja", label: "Caja", icon: Banknote },
+    { href: "/grafica", label: "Gráfica", icon: BarChart },
+    { href: "/promotions", label: "Promociones", icon: Tag },
+    { href: "/customers", label: "Clientes", icon: Contact },
+    { href: "/users", label: "Usuarios", icon: Users },
+    { href: "/audit", label: "Auditoría", icon: ScrollText },
   ];
 
-  const visibleNavItems = navItems.filter(item => !item.adminOnly || (item.adminOnly && isAdmin));
+  // Solo se muestran los enlaces cuya ruta permite el rol del usuario, según `ROUTE_PERMISSIONS`.
+  const visibleNavItems = navItems.filter(item => {
+    const capability = getRouteCapability(item.href);
+    return !capability || can(capability);
+  });
 
   const handleLogout = () => {
     logout(); 
   };
 
-  const isAuthenticated = currentUser && currentUser.id !== 'user-0';
+  const isAuthenticated = currentUser !== null;
 
   return (
     <header className="sticky top-0 z-50 w-full border-b border-border/40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 shadow-sm">
@@ -0,0 +1,1437 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm, useFieldArray } from "react-hook-form";
+import * as z from "zod";
+import Image from 'next/image';
+import { PlusCircle, MinusCircle, Barcode, DollarSign, Store, Search, Tag, Layers, Receipt } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TooltipProvider } from '@/components/ui/tooltip';
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Badge } from '@/components/ui/badge';
+import DiscountApprovalDialog, { type DiscountApprovalRequest } from '@/components/sales/DiscountApprovalDialog';
+import SaleDiscountFields from '@/components/sales/SaleDiscountFields';
+import SalePaymentsFields from '@/components/sales/SalePaymentsFields';
+import { generateSaleReceiptPdf, getSaleReceiptFileName } from '@/components/sales/saleReceiptPdf';
+import CustomerSearchField from '@/components/customers/CustomerSearchField';
+import { useToast } from "@/hooks/use-toast";
+import { useInventoryContext, type Product as InventoryProduct } from '@/context/InventoryContext';
+import { useAuth } from '@/context/AuthContext';
+import * as api from '@/lib/api';
+import {
+  allocateSalePayments,
+  applyPromotions,
+  approvalCoversDiscount,
+  calculateSaleTotals,
+  computeDiscountAmount,
+  customerSchema,
+  discountFormSchema,
+  formatPriceTier,
+  getDiscountableLineAmount,
+  getMinimumTierQuantity,
+  getPriceTierForQuantity,
+  getSaleKindLabel,
+  priceTierSchema,
+  requiresDiscountApproval,
+  ROLE_MAX_DISCOUNT_PERCENT,
+  saleKindSchema,
+  salePaymentFormSchema,
+  searchProductsInPos,
+  sortPriceTiers,
+  splitCartDiscount,
+  summarizeSalePayments,
+  type DiscountApproval,
+  type DiscountFormValues,
+  type Promotion,
+  type SaleItemPromotion,
+  type SaleKind,
+  type SaleRecord,
+  type SaleTotals,
+} from '@/lib/domain';
+
+const placeholderSvg = "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTAiIGhlaWdodD0iNTAiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PHJlY3Qgd2lkdGg9IjEwMCUiIGhlaWdodD0iMTAwJSIgZmlsbD0iI2VlZSIvPjx0ZXh0IHg9IjUwJSIgeT0iNTAlIiBkb21pbmFudC1iYXNlbGluZT1taWRkbGUiIHRleHQtYW5jaG9yPSJtaWRkbGUiIGZpbGw9IiNhYWEiPk5vIEltYWdlPC90ZXh0Pjwvc3ZnPg==";
+
+/**
+ * Esquema de una línea del carrito. `pricingMode` decide con qué precio se vende: el de lista (minorista, con promociones)
+ * o el del tramo que alcanza la cantidad (mayorista, que exige llegar al primer tramo).
+ */
+const checkoutItemSchema = z.object({
+  identifier: z.string().min(1, "Identificador de producto requerido.").or(z.literal("")),
+  barcode: z.string().min(1, "El código de barras es requerido."),
+  productName: z.string().min(1, "El nombre del producto es requerido."),
+  brandName: z.string().min(1, "La marca es requerida."),
+  quantity: z.coerce.number().min(1, "La cantidad debe ser al menos 1.").default(1),
+  price: z.coerce.number().nonnegative("El precio no puede ser negativo.").default(0),
+  originalPrice: z.coerce.number().optional().nullable(),
+  isKnownProduct: z.boolean().optional().default(false),
+  stock: z.number().optional().default(0),
+  discount: discountFormSchema.nullish(),
+  pricingMode: saleKindSchema.default('retail'),
+  priceTiers: z.array(priceTierSchema).optional().default([]),
+}).refine(
+  (data) => {
+    if (!data.isKnownProduct || data.pricingMode !== 'wholesale') {
+      return true;
+    }
+    const minimum = getMinimumTierQuantity(data.priceTiers);
+    return minimum !== null && data.quantity >= minimum;
+  },
+  (data) => ({
+    message: getMinimumTierQuantity(data.priceTiers) === null
+      ? "El producto no tiene precio por mayor."
+      : `La cantidad debe ser al menos ${getMinimumTierQuantity(data.priceTiers)} para el precio mayorista.`,
+    path: ["quantity"],
+  })
+);
+
+const checkoutFormSchema = z.object({
+  pointOfSale: z.string().min(1, "El Punto de Venta es requerido."),
+  payments: z.array(salePaymentFormSchema).min(1, "Se requiere al menos un pago."),
+  cashTendered: z.number().nonnegative().nullable(),
+  cartDiscount: discountFormSchema.nullable(),
+  customer: customerSchema.nullable(),
+  items: z.array(checkoutItemSchema).min(1, "Se requiere al menos un ítem para la venta.")
+    .refine(items => items.every(item => item.barcode && item.barcode.trim() !== "" && item.productName && item.productName.trim() !== "" && item.quantity > 0), {
+        message: "Asegúrese de que todos los ítems tengan código de barras, nombre y cantidad válidos.",
+        path: ["items"],
+    })
+    .refine(items => items.every(item => item.isKnownProduct ? item.quantity <= (item.stock ?? 0) : true), {
+        message: "Uno o más ítems exceden el stock disponible. Por favor, ajuste las cantidades.",
+        path: ["items"],
+    }),
+});
+
+type CheckoutFormValues = z.infer<typeof checkoutFormSchema>;
+export type CheckoutItemForm = z.infer<typeof checkoutItemSchema>;
+
+/**
+ * Una de las ventas en que se registra el carrito: la minorista y la mayorista van a sus propios endpoints e historiales.
+ * @interface CheckoutPart
+ */
+interface CheckoutPart<T extends CheckoutItemForm> {
+  kind: SaleKind;
+  /** Posición en el formulario de cada línea de la venta. */
+  indexes: number[];
+  /** Las líneas, con sus promociones (las mayoristas no reciben ninguna). */
+  items: (T & { promotions: SaleItemPromotion[] })[];
+  /** La parte del descuento del carrito que corresponde a esta venta. */
+  cartDiscount: DiscountFormValues | null;
+  totals: SaleTotals;
+}
+
+/**
+ * Devuelve una línea vacía del carrito. El modo de precio se fija al elegir el producto.
+ * @returns {CheckoutItemForm} La línea vacía.
+ */
+function createEmptyItem(): CheckoutItemForm {
+  return { identifier: "", barcode: "", productName: "", brandName: "", quantity: 1, price: 0, originalPrice: null, isKnownProduct: false, stock: 0, discount: null, pricingMode: 'retail', priceTiers: [] };
+}
+
+/**
+ * Devuelve el precio por unidad de una línea: el de lista en el modo minorista y, en el mayorista, el del tramo
+ * que alcanza la cantidad o, por debajo del primer tramo, el de ese tramo (la validación del formulario exige llegar a él).
+ * @param {Pick<CheckoutItemForm, 'pricingMode' | 'quantity' | 'originalPrice' | 'priceTiers'>} line - La línea.
+ * @returns {number} El precio por unidad, o 0 si la línea no tiene el precio de su modo.
+ */
+function getLinePrice(line: Pick<CheckoutItemForm, 'pricingMode' | 'quantity' | 'originalPrice' | 'priceTiers'>): number {
+  if (line.pricingMode === 'retail') {
+    return line.originalPrice ?? 0;
+  }
+  return (getPriceTierForQuantity(line.priceTiers, line.quantity) ?? sortPriceTiers(line.priceTiers)[0])?.price ?? 0;
+}
+
+/**
+ * Calcula los campos de una línea con un producto del inventario en un modo de precio: sus datos, su stock en el PDV,
+ * sus tramos y su precio. Sin cantidad indicada, el modo mayorista propone la mínima del primer tramo.
+ * @param {InventoryProduct} product - El producto del inventario.
+ * @param {SaleKind} pricingMode - El modo de precio de la línea.
+ * @param {number | null} [quantity] - La cantidad que ya tenía la línea.
+ * @returns {CheckoutItemForm} Los campos de la línea, sin descuento.
+ */
+function getProductLineFields(product: InventoryProduct, pricingMode: SaleKind, quantity?: number | null): CheckoutItemForm {
+  const priceTiers = sortPriceTiers(product.priceTiers);
+  const lineQuantity = quantity || (pricingMode === 'wholesale' ? getMinimumTierQuantity(priceTiers) : null) || 1;
+  return {
+    identifier: product.name,
+    barcode: product.barcode,
+    productName: product.name,
+    brandName: product.brand,
+    isKnownProduct: true,
+    stock: product.quantity,
+    originalPrice: product.price,
+    priceTiers,
+    pricingMode,
+    quantity: lineQuantity,
+    price: getLinePrice({ pricingMode, priceTiers, originalPrice: product.price, quantity: lineQuantity }),
+  };
+}
+
+/**
+ * Separa las líneas del carrito en una venta por modo de precio (primero la minorista) y calcula los totales de cada una:
+ * las promociones solo se aplican a la minorista y el descuento del carrito se reparte con `splitCartDiscount`.
+ * @template T
+ * @param {T[]} items - Las líneas del carrito.
+ * @param {DiscountFormValues | null} cartDiscount - El descuento del carrito.
+ * @param {Promotion[]} promotions - Las promociones.
+ * @param {string} pointOfSale - El PDV de la venta.
+ * @returns {CheckoutPart<T>[]} Las ventas con al menos una línea.
+ */
+function splitCheckout<T extends CheckoutItemForm>(items: T[], cartDiscount: DiscountFormValues | null, promotions: Promotion[], pointOfSale: string): CheckoutPart<T>[] {
+  const parts = saleKindSchema.options.map(kind => {
+    const indexes = items.flatMap((item, index) => (item.pricingMode === kind ? [index] : []));
+    const kindItems = indexes.map(index => items[index]);
+    return {
+      kind,
+      indexes,
+      items: kind === 'retail'
+        ? applyPromotions(kindItems, promotions, pointOfSale)
+        : kindItems.map(item => ({ ...item, promotions: [] as SaleItemPromotion[] })),
+    };
+  }).filter(part => part.items.length > 0);
+  const cartDiscounts = splitCartDiscount(cartDiscount, parts.map(part => calculateSaleTotals(part.items, null).total));
+  return parts.map((part, index) => ({
+    ...part,
+    cartDiscount: cartDiscounts[index],
+    totals: calculateSaleTotals(part.items, cartDiscounts[index]),
+  }));
+}
+
+/**
+ * Suma los totales de las ventas del carrito. El porcentaje máximo de descuento es el mayor de ellas.
+ * @param {SaleTotals[]} totals - Los totales de cada venta.
+ * @returns {SaleTotals} Los totales del carrito.
+ */
+function sumSaleTotals(totals: SaleTotals[]): SaleTotals {
+  return totals.reduce((sum, saleTotals) => ({
+    subtotal: sum.subtotal + saleTotals.subtotal,
+    promotionTotal: sum.promotionTotal + saleTotals.promotionTotal,
+    lineDiscountTotal: sum.lineDiscountTotal + saleTotals.lineDiscountTotal,
+    cartDiscountAmount: sum.cartDiscountAmount + saleTotals.cartDiscountAmount,
+    total: sum.total + saleTotals.total,
+    maxDiscountPercent: Math.max(sum.maxDiscountPercent, saleTotals.maxDiscountPercent),
+  }), { subtotal: 0, promotionTotal: 0, lineDiscountTotal: 0, cartDiscountAmount: 0, total: 0, maxDiscountPercent: 0 });
+}
+
+/**
+ * Recibo de una venta del último cobro, listo para descargar.
+ * @interface SaleReceipt
+ */
+interface SaleReceipt {
+  kind: SaleKind;
+  saleId: string;
+  fileName: string;
+  /** El PDF generado por `generateSaleReceiptPdf`, como Data URI. */
+  dataUri: string;
+}
+
+interface CheckoutProps {
+  /** Modo de precio inicial de los ítems nuevos: el de la página desde la que se vende. */
+  defaultPricingMode: SaleKind;
+  /** Se llama por cada venta registrada (un carrito mixto registra una minorista y una mayorista). */
+  onSaleRecorded: (kind: SaleKind) => void;
+}
+
+/**
+ * Caja para registrar ventas minoristas y mayoristas desde un mismo carrito. Cada ítem se vende al precio de lista
+ * (con promociones) o al del tramo por volumen, según su modo de precio; al completar la venta, el carrito se registra
+ * como una venta por modo, cada una en su historial, con los pagos y el descuento del carrito repartidos. Un carrito
+ * mixto se registra con `recordMixedSale`, en una sola transacción.
+ *
+ * @param {CheckoutProps} props - Las props para el componente.
+ * @returns {JSX.Element} La tarjeta de la caja.
+ */
+export default function Checkout({ defaultPricingMode, onSaleRecorded }: CheckoutProps): JSX.Element {
+  const { toast } = useToast();
+  const {
+    isInventoryLoaded,
+    getProductDetailsInPos,
+    getPointsOfSaleForUser,
+    inventory,
+    refetchInventory,
+  } = useInventoryContext();
+  const { currentUser, can, isLoading: isAuthLoading } = useAuth();
+
+  const [pricingMode, setPricingMode] = useState<SaleKind>(defaultPricingMode);
+  const [discountApprovalRequest, setDiscountApprovalRequest] = useState<DiscountApprovalRequest | null>(null);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  // Recibos de las ventas del último cobro (uno por tipo de venta); se reemplazan al registrar la siguiente.
+  const [lastReceipts, setLastReceipts] = useState<SaleReceipt[]>([]);
+
+  const [suggestions, setSuggestions] = useState<Array<InventoryProduct>>([]);
+  const [activeSuggestionIndex, setActiveSuggestionIndex] = useState(-1);
+  const [currentFocusIndex, setCurrentFocusIndex] = useState<number | null>(null);
+  const [identifierInputRefs, setIdentifierInputRefs] = useState<Array<React.RefObject<HTMLInputElement>>>([]);
+  const initialFocusDoneRef = useRef(false);
+  const [isSuggestionsOpen, setIsSuggestionsOpen] = useState(false);
+  const processingBarcodeRef = useRef(false);
+  // Aprobaciones de encargado de la venta en curso, una por tipo de venta (cada aprobación sirve para una sola venta);
+  // se descartan al reiniciar el formulario.
+  const discountApprovalsRef = useRef<Partial<Record<SaleKind, DiscountApproval>>>({});
+
+  // PDV en los que el rol del usuario permite vender, al por menor o al por mayor.
+  const accessiblePOS = useMemo(
+    () => getPointsOfSaleForUser().filter(pos => can('sell', pos) || can('wholesale_sell', pos)),
+    [getPointsOfSaleForUser, can]
+  );
+  const canUserSell = accessiblePOS.length > 0;
+  const accessiblePOSKey = useMemo(() => [...accessiblePOS].sort().join(','), [accessiblePOS]);
+
+  const form = useForm<CheckoutFormValues>({
+    resolver: zodResolver(checkoutFormSchema),
+    defaultValues: {
+      pointOfSale: accessiblePOS[0] || "",
+      payments: [{ method: "cash", amount: 0 }],
+      cashTendered: null,
+      cartDiscount: null,
+      customer: null,
+      items: [createEmptyItem()],
+    },
+    mode: "onChange",
+  });
+
+  const { fields, append, remove, update } = useFieldArray({
+    control: form.control,
+    name: "items",
+  });
+
+  // Modos de precio que el rol permite en el PDV elegido; si solo hay uno, todos los ítems nuevos lo usan.
+  const watchedPointOfSale = form.watch("pointOfSale");
+  const canSellRetailHere = !!watchedPointOfSale && can('sell', watchedPointOfSale);
+  const canSellWholesaleHere = !!watchedPointOfSale && can('wholesale_sell', watchedPointOfSale);
+  const checkoutPricingMode: SaleKind = canSellRetailHere && canSellWholesaleHere ? pricingMode : canSellRetailHere ? 'retail' : 'wholesale';
+
+  const resetSaleFormAndFocus = useCallback((currentData: CheckoutFormValues) => {
+    form.reset({
+      pointOfSale: currentData.pointOfSale,
+      payments: [{ method: currentData.payments[0]?.method ?? "cash", amount: 0 }],
+      cashTendered: null,
+      cartDiscount: null,
+      customer: null,
+      items: [createEmptyItem()],
+    });
+    discountApprovalsRef.current = {};
+    initialFocusDoneRef.current = false;
+    setSuggestions([]);
+    setActiveSuggestionIndex(-1);
+    setCurrentFocusIndex(null);
+    if (identifierInputRefs[0]?.current) {
+        setTimeout(()=> {
+          if(identifierInputRefs[0].current) {
+              identifierInputRefs[0].current.focus();
+              setCurrentFocusIndex(0);
+              initialFocusDoneRef.current = true;
+          }
+        },0);
+    }
+  }, [form, identifierInputRefs]);
+
+  /**
+   * Carga las promociones, que se aplican a las líneas minoristas igual que lo hará el backend al registrar la venta.
+   * Si fallan, la venta se puede registrar igual: el backend aplica las promociones vigentes.
+   */
+  const fetchPromotions = useCallback(async () => {
+    try {
+      setPromotions(await api.getPromotions());
+    } catch (error: any) {
+      console.error("Error al cargar las promociones:", error);
+      toast({ variant: "destructive", title: "Error al Cargar Promociones", description: error.message || "Las promociones se aplicarán al registrar la venta." });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (canUserSell) {
+      fetchPromotions();
+    }
+  }, [canUserSell, fetchPromotions]);
+
+  useEffect(() => {
+    setIdentifierInputRefs(prevRefs =>
+      Array(fields.length)
+        .fill(null)
+        .map((_, i) => prevRefs[i] || React.createRef<HTMLInputElement>())
+    );
+  }, [fields.length]);
+
+  /**
+   * Elige el modo de precio de un producto al añadirlo: el de la caja, salvo que el producto no tenga tramos
+   * (se vende al por menor, avisando) o el rol no permita ese modo en el PDV.
+   * @param {InventoryProduct} product - El producto elegido.
+   * @param {string} pointOfSale - El PDV de la venta.
+   * @returns {SaleKind | null} El modo de la línea, o null si el producto no se puede vender en el PDV.
+   */
+  const resolvePricingMode = useCallback((product: InventoryProduct, pointOfSale: string): SaleKind | null => {
+    const canRetail = can('sell', pointOfSale);
+    const canWholesale = can('wholesale_sell', pointOfSale);
+    const hasTiers = getMinimumTierQuantity(product.priceTiers) !== null;
+    const requestedMode = canRetail && canWholesale ? pricingMode : canRetail ? 'retail' : 'wholesale';
+    if (requestedMode === 'wholesale' && hasTiers) {
+      return 'wholesale';
+    }
+    if (canRetail) {
+      if (requestedMode === 'wholesale') {
+        toast({ title: "Sin Precio por Mayor", description: `"${product.name}" no tiene tramos de precio: se vende a precio minorista.` });
+      }
+      return 'retail';
+    }
+    toast({ variant: "destructive", title: "No Configurado para Por Mayor", description: `El producto "${product.name}" no tiene tramos de precio para venta al por mayor.` });
+    return null;
+  }, [can, pricingMode, toast]);
+
+  const handleIdentifierChange = useCallback((index: number, identifierValue: string) => {
+    setCurrentFocusIndex(index);
+    form.setValue(`items.${index}.identifier`, identifierValue, { shouldValidate: true, shouldDirty: true });
+    const formItemValues = form.getValues(`items.${index}`);
+    const targetPos = form.getValues("pointOfSale");
+
+    if (!identifierValue.trim() || !targetPos || !isInventoryLoaded || !currentUser || isAuthLoading) {
+        setSuggestions([]);
+        setActiveSuggestionIndex(-1);
+        setIsSuggestionsOpen(false);
+        if (!identifierValue.trim() && formItemValues.isKnownProduct) {
+            update(index, {
+                ...createEmptyItem(),
+                quantity: formItemValues.quantity || 1,
+            });
+        }
+        return;
+    }
+    form.clearErrors(`items.${index}.identifier`);
+
+    const productInfo = getProductDetailsInPos(targetPos, identifierValue);
+    const lineMode = productInfo ? resolvePricingMode(productInfo, targetPos) : null;
+
+    if (productInfo && !lineMode) {
+        update(index, { ...createEmptyItem(), identifier: identifierValue, quantity: formItemValues.quantity || 1 });
+        setSuggestions([]);
+        setIsSuggestionsOpen(false);
+        setActiveSuggestionIndex(-1);
+        return;
+    }
+
+    if (productInfo && lineMode && identifierValue === productInfo.barcode) {
+        processingBarcodeRef.current = true;
+        update(index, getProductLineFields(productInfo, lineMode));
+        setSuggestions([]);
+        setIsSuggestionsOpen(false);
+        setActiveSuggestionIndex(-1);
+        form.trigger(`items.${index}`);
+
+        if (index === fields.length - 1) {
+            append(createEmptyItem());
+            setTimeout(() => {
+                const newIndex = fields.length -1;
+                if (identifierInputRefs[newIndex]?.current) {
+                    identifierInputRefs[newIndex].current?.focus();
+                    setCurrentFocusIndex(newIndex);
+                }
+                processingBarcodeRef.current = false;
+            }, 0);
+        } else {
+            identifierInputRefs[index + 1]?.current?.focus();
+            setCurrentFocusIndex(index + 1);
+            processingBarcodeRef.current = false;
+        }
+        return;
+    }
+
+    if (productInfo && lineMode) {
+      update(index, {
+        ...formItemValues,
+        ...getProductLineFields(productInfo, lineMode, form.getValues(`items.${index}.quantity`)),
+      });
+      setSuggestions([]);
+      setIsSuggestionsOpen(false);
+      setActiveSuggestionIndex(-1);
+      form.trigger(`items.${index}`);
+      setTimeout(() => document.getElementById(`items.${index}.quantity`)?.focus(), 0);
+    } else {
+      // Si el rol solo permite vender al por mayor en el PDV, solo se sugieren productos con tramos.
+      const wholesaleOnly = !can('sell', targetPos);
+      const excludedBarcode = formItemValues.isKnownProduct ? formItemValues.barcode : '';
+      const newSuggestions = searchProductsInPos(inventory[targetPos], identifierValue, product =>
+          (!wholesaleOnly || getMinimumTierQuantity(product.priceTiers) !== null) && (!excludedBarcode || product.barcode !== excludedBarcode));
+      setSuggestions(newSuggestions);
+      setActiveSuggestionIndex(-1);
+      setIsSuggestionsOpen(newSuggestions.length > 0 && identifierValue.trim().length > 0 && !formItemValues.isKnownProduct);
+
+      if (formItemValues.isKnownProduct && (identifierValue.toLowerCase() !== formItemValues.productName.toLowerCase() && identifierValue !== formItemValues.barcode)) {
+          update(index, {
+              ...createEmptyItem(),
+              identifier: identifierValue,
+              quantity: formItemValues.quantity || 1,
+              discount: formItemValues.discount,
+          });
+      }
+    }
+     form.trigger(`items.${index}.identifier`);
+  }, [getProductDetailsInPos, resolvePricingMode, can, update, form, isInventoryLoaded, currentUser, isAuthLoading, inventory, fields.length, identifierInputRefs, append]);
+
+  const handleSuggestionClick = (index: number, product: InventoryProduct) => {
+    const lineMode = resolvePricingMode(product, form.getValues("pointOfSale"));
+    if (!lineMode) {
+        setIsSuggestionsOpen(false);
+        setSuggestions([]);
+        setActiveSuggestionIndex(-1);
+        return;
+    }
+    form.setValue(`items.${index}.identifier`, product.name, { shouldValidate: true });
+    update(index, {
+        ...form.getValues(`items.${index}`),
+        ...getProductLineFields(product, lineMode),
+    });
+    setIsSuggestionsOpen(false);
+    setSuggestions([]);
+    setActiveSuggestionIndex(-1);
+    form.trigger(`items.${index}`);
+
+    setTimeout(() => {
+        const quantityInput = document.getElementById(`items.${index}.quantity`);
+        if (quantityInput) {
+            quantityInput.focus();
+            if (typeof (quantityInput as HTMLInputElement).select === 'function') {
+                (quantityInput as HTMLInputElement).select();
+            }
+        } else {
+            const nextIdentifierInput = identifierInputRefs[index + 1]?.current;
+            if (nextIdentifierInput) {
+                nextIdentifierInput.focus();
+                setCurrentFocusIndex(index + 1);
+            } else {
+                 append(createEmptyItem());
+                 setTimeout(() => {
+                    const newAppendedIndex = fields.length -1;
+                    if(identifierInputRefs[newAppendedIndex]?.current) {
+                        identifierInputRefs[newAppendedIndex].current?.focus();
+                        setCurrentFocusIndex(newAppendedIndex);
+                    }
+                 }, 0);
+            }
+        }
+    }, 0);
+  };
+
+ const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>, index: number) => {
+    if (processingBarcodeRef.current && event.key === 'Enter') {
+        processingBarcodeRef.current = false;
+        event.preventDefault();
+        return;
+    }
+
+    const isCurrentItemFocused = currentFocusIndex === index;
+    const currentIdentifierValue = form.getValues(`items.${index}.identifier`);
+    const currentItemIsKnown = form.getValues(`items.${index}.isKnownProduct`);
+
+    if (isSuggestionsOpen && isCurrentItemFocused && suggestions.length > 0 && currentIdentifierValue && currentIdentifierValue.trim() !== "" && !currentItemIsKnown) {
+        switch (event.key) {
+            case 'ArrowDown':
+                event.preventDefault();
+                setActiveSuggestionIndex(prev => (prev + 1) % suggestions.length);
+                break;
+            case 'ArrowUp':
+                event.preventDefault();
+                setActiveSuggestionIndex(prev => (prev - 1 + suggestions.length) % suggestions.length);
+                break;
+            case 'Enter':
+                if (activeSuggestionIndex >= 0 && suggestions[activeSuggestionIndex]) {
+                    event.preventDefault();
+                    handleSuggestionClick(index, suggestions[activeSuggestionIndex]);
+                    return;
+                }
+                setIsSuggestionsOpen(false);
+                setSuggestions([]);
+                setActiveSuggestionIndex(-1);
+                break;
+            case 'Escape':
+                event.preventDefault();
+                setIsSuggestionsOpen(false);
+                setSuggestions([]);
+                setActiveSuggestionIndex(-1);
+                break;
+        }
+        if (event.key === 'ArrowDown' || event.key === 'ArrowUp' || event.key === 'Escape') {
+            return;
+        }
+    }
+
+    if (event.key === 'Enter' && identifierInputRefs[index]?.current === document.activeElement) {
+        event.preventDefault();
+        if(isSuggestionsOpen && activeSuggestionIndex >= 0 && suggestions[activeSuggestionIndex]) {
+            handleSuggestionClick(index, suggestions[activeSuggestionIndex]);
+            return;
+        }
+
+        setIsSuggestionsOpen(false);
+        setSuggestions([]);
+        setActiveSuggestionIndex(-1);
+
+        const currentIdentifier = form.getValues(`items.${index}.identifier`).trim();
+        const targetPos = form.getValues("pointOfSale");
+
+        if (currentIdentifier && targetPos) {
+            const productInfo = getProductDetailsInPos(targetPos, currentIdentifier);
+            if (productInfo) {
+                const lineMode = resolvePricingMode(productInfo, targetPos);
+                if (!lineMode) {
+                    return;
+                }
+                update(index, getProductLineFields(productInfo, lineMode, form.getValues(`items.${index}.quantity`)));
+                form.trigger(`items.${index}`);
+
+                if (currentIdentifier === productInfo.barcode) {
+                    processingBarcodeRef.current = true;
+                    if (index === fields.length - 1) {
+                        append(createEmptyItem());
+                        setTimeout(() => {
+                            const nextIndex = fields.length -1;
+                            identifierInputRefs[nextIndex]?.current?.focus();
+                            setCurrentFocusIndex(nextIndex);
+                            processingBarcodeRef.current = false;
+                        }, 0);
+                    } else {
+                        identifierInputRefs[index + 1]?.current?.focus();
+                        setCurrentFocusIndex(index + 1);
+                        processingBarcodeRef.current = false;
+                    }
+                } else {
+                    const quantityInput = document.getElementById(`items.${index}.quantity`);
+                    if (quantityInput) { quantityInput.focus(); if(typeof (quantityInput as HTMLInputElement).select === 'function') (quantityInput as HTMLInputElement).select(); }
+                }
+            } else {
+                toast({ variant:"destructive", title: "Producto no encontrado", description: `No se encontró "${currentIdentifier}" en ${targetPos}. Añada manualmente si es un producto que no está en el inventario de este PDV o es completamente nuevo.` });
+            }
+        } else {
+            if (index === fields.length - 1) {
+                append(createEmptyItem());
+                setTimeout(() => {
+                    const nextAppendedIndex = fields.length -1;
+                    if(identifierInputRefs[nextAppendedIndex]?.current) {
+                        identifierInputRefs[nextAppendedIndex].current?.focus();
+                        setCurrentFocusIndex(nextAppendedIndex);
+                    }
+                }, 0);
+            } else {
+                identifierInputRefs[index + 1]?.current?.focus();
+                setCurrentFocusIndex(index + 1);
+            }
+        }
+    }
+ };
+
+  /**
+   * Cambia el modo de precio de una línea y la vuelve a tasar. Al pasar al mayorista, la cantidad sube
+   * a la mínima del primer tramo si no la alcanza.
+   * @param {number} index - La posición de la línea.
+   * @param {SaleKind} mode - El nuevo modo de precio.
+   */
+  const handleLinePricingModeChange = (index: number, mode: SaleKind) => {
+    const line = form.getValues(`items.${index}`);
+    const minimumQuantity = getMinimumTierQuantity(line.priceTiers);
+    if (mode === 'wholesale' && minimumQuantity === null) {
+      toast({ variant: "destructive", title: "Sin Precio por Mayor", description: `"${line.productName}" no tiene tramos de precio para venta al por mayor.` });
+      return;
+    }
+    const quantity = mode === 'wholesale' ? Math.max(line.quantity || 1, minimumQuantity ?? 1) : line.quantity;
+    update(index, { ...line, pricingMode: mode, quantity, price: getLinePrice({ ...line, pricingMode: mode, quantity }) });
+    form.trigger(`items.${index}`);
+  };
+
+   useEffect(() => {
+    const currentPointOfSale = form.getValues("pointOfSale");
+    const defaultPOS = accessiblePOS.length > 0 ? accessiblePOS[0] : "";
+
+    let needsReset = false;
+    if (accessiblePOS.length > 0 && (!currentPointOfSale || !accessiblePOS.includes(currentPointOfSale))) {
+        needsReset = true;
+    }
+    else if (accessiblePOS.length === 0 && currentPointOfSale) {
+        needsReset = true;
+    }
+
+    if (needsReset) {
+        form.reset({
+            pointOfSale: defaultPOS,
+            payments: [{ method: form.getValues("payments.0.method") || "cash", amount: 0 }],
+            cashTendered: null,
+            cartDiscount: null,
+            customer: null,
+            items: [createEmptyItem()],
+        });
+        discountApprovalsRef.current = {};
+        initialFocusDoneRef.current = false;
+    }
+    else if (!currentPointOfSale && defaultPOS) {
+        form.setValue("pointOfSale", defaultPOS);
+         if (form.getValues("items").length === 0 || (form.getValues("items").length === 1 && !form.getValues("items.0.identifier"))) {
+            form.setValue("items", [createEmptyItem()]);
+        }
+        initialFocusDoneRef.current = false;
+    }
+
+    setSuggestions([]);
+    setActiveSuggestionIndex(-1);
+
+    const posToFocus = form.getValues("pointOfSale") || defaultPOS;
+    if (posToFocus && fields.length > 0 && identifierInputRefs[0]?.current && !initialFocusDoneRef.current) {
+      setTimeout(() => {
+        if (identifierInputRefs[0]?.current) {
+            identifierInputRefs[0].current?.focus();
+            setCurrentFocusIndex(0);
+            initialFocusDoneRef.current = true;
+        }
+      }, 100);
+    } else if (!posToFocus) {
+        initialFocusDoneRef.current = false;
+    }
+  }, [currentUser?.id, accessiblePOSKey, form, fields.length, identifierInputRefs]);
+
+  const onSubmit = async (data: CheckoutFormValues) => {
+    if (!currentUser || !canUserSell || !accessiblePOS.includes(data.pointOfSale)) {
+      toast({ variant: "destructive", title: "Acceso Denegado", description: "No tienes permiso para registrar ventas en esta ubicación." });
+      return;
+    }
+
+    const itemsToProcess = data.items.filter(item =>
+        item.isKnownProduct &&
+        item.barcode && item.barcode.trim() !== "" &&
+        item.productName && item.productName.trim() !== "" &&
+        item.quantity > 0
+    );
+
+    if (itemsToProcess.length === 0) {
+        toast({ variant: "destructive", title: "Venta Vacía", description: "No hay ítems válidos para vender." });
+        return;
+    }
+
+    const forbiddenItem = itemsToProcess.find(item => !can(item.pricingMode === 'wholesale' ? 'wholesale_sell' : 'sell', data.pointOfSale));
+    if (forbiddenItem) {
+        toast({ variant: "destructive", title: "Acceso Denegado", description: `No tienes permiso para vender "${forbiddenItem.productName}" al precio ${getSaleKindLabel(forbiddenItem.pricingMode).toLowerCase()} en ${data.pointOfSale}.` });
+        return;
+    }
+
+    // Validar stock antes de enviar al backend (el backend también lo valida). Un producto puede ir en dos líneas,
+    // una minorista y otra mayorista: se compara la suma.
+    const quantityByBarcode = new Map<string, number>();
+    itemsToProcess.forEach(item => quantityByBarcode.set(item.barcode, (quantityByBarcode.get(item.barcode) ?? 0) + item.quantity));
+    for (const [barcode, quantity] of Array.from(quantityByBarcode)) {
+        const productInStock = getProductDetailsInPos(data.pointOfSale, barcode);
+        if (!productInStock || productInStock.quantity < quantity) {
+            const itemIndexInFullForm = data.items.findIndex(i => i.barcode === barcode);
+            toast({
+                variant: "destructive",
+                title: "Stock Insuficiente",
+                description: `No hay suficiente stock para "${data.items[itemIndexInFullForm]?.productName ?? barcode}" (${barcode}) en ${data.pointOfSale}. Disponible: ${productInStock?.quantity || 0}.`
+            });
+            if (itemIndexInFullForm !== -1) {
+                form.setError(`items.${itemIndexInFullForm}.quantity`, { type: "manual", message: `Stock: ${productInStock?.quantity || 0}` });
+            }
+            return;
+        }
+    }
+
+    // Los pagos deben cubrir el total; el excedente solo puede salir del efectivo y se entrega como vuelto.
+    const parts = splitCheckout(itemsToProcess, data.cartDiscount, promotions, data.pointOfSale);
+    const totalAmount = sumSaleTotals(parts.map(part => part.totals)).total;
+    const paymentSummary = summarizeSalePayments(data.payments, totalAmount, data.cashTendered);
+    if (paymentSummary.pending > 0) {
+      form.setError("payments", { type: "manual", message: `Faltan $${paymentSummary.pending.toFixed(3)} por cubrir.` });
+      return;
+    }
+    if (paymentSummary.changeExceedsCash) {
+      form.setError("payments", { type: "manual", message: "Solo el efectivo puede dar vuelto: el excedente supera lo pagado en efectivo." });
+      return;
+    }
+    if (paymentSummary.cashTenderedShort) {
+      form.setError("payments", { type: "manual", message: "El efectivo recibido no alcanza para la parte pagada en efectivo." });
+      return;
+    }
+
+    // Un descuento por encima del máximo del rol necesita la aprobación de un encargado para cada venta que lo supere;
+    // al aprobarse, la venta se reenvía y se pide la siguiente aprobación, si hace falta.
+    for (const part of parts) {
+      const discountApproval = discountApprovalsRef.current[part.kind];
+      if (requiresDiscountApproval(currentUser.role, part.totals.maxDiscountPercent)
+        && !(discountApproval && approvalCoversDiscount(discountApproval, data.pointOfSale, part.totals.maxDiscountPercent))) {
+        setDiscountApprovalRequest({
+          pointOfSale: data.pointOfSale,
+          discountPercent: part.totals.maxDiscountPercent,
+          sellerLimitPercent: ROLE_MAX_DISCOUNT_PERCENT[currentUser.role],
+          saleKind: part.kind,
+        });
+        return;
+      }
+    }
+
+    const allocations = allocateSalePayments(paymentSummary.payments, paymentSummary.cashTendered, parts.map(part => part.totals.total));
+    const salePayloads = parts.map((part, partIndex) => ({
+      kind: part.kind,
+      payload: {
+        pointOfSale: data.pointOfSale,
+        payments: allocations[partIndex].payments,
+        cashTendered: allocations[partIndex].cashTendered,
+        // Las promociones y los tramos se envían como referencia: el backend los recalcula.
+        items: part.items.map(item => ({
+          barcode: item.barcode,
+          productName: item.productName,
+          brandName: item.brandName,
+          quantity: item.quantity,
+          price: item.price,
+          ...(part.kind === 'wholesale'
+            ? { priceTier: getPriceTierForQuantity(item.priceTiers, item.quantity) }
+            : { promotions: item.promotions }),
+          discount: item.discount ? { ...item.discount, amount: computeDiscountAmount(item.discount, getDiscountableLineAmount(item)) } : null,
+        })),
+        cartDiscount: part.cartDiscount ? { ...part.cartDiscount, amount: part.totals.cartDiscountAmount } : null,
+        discountApprovalId: discountApprovalsRef.current[part.kind]?.id ?? null,
+        customerId: data.customer?.id ?? null,
+        totalAmount: part.totals.total,
+      },
+    }));
+
+    let savedSales: { kind: SaleKind; sale: SaleRecord }[];
+    try {
+      if (salePayloads.length === 1) {
+        const [{ kind, payload }] = salePayloads;
+        savedSales = [{ kind, sale: await (kind === 'wholesale' ? api.recordWholesaleSale : api.recordSale)(payload) }];
+      } else {
+        // Un carrito mixto se registra en una sola transacción: si una de las ventas falla, no se guarda ninguna.
+        const [retail, wholesale] = salePayloads;
+        const result = await api.recordMixedSale({ retail: retail.payload, wholesale: wholesale.payload });
+        savedSales = [{ kind: 'retail', sale: result.retail }, { kind: 'wholesale', sale: result.wholesale }];
+      }
+    } catch (error: any) {
+      console.error("Error al registrar la venta:", error);
+      // Si las promociones cambiaron, el total del formulario no coincide con el del backend: se recargan para el próximo intento.
+      fetchPromotions();
+      toast({
+        variant: "destructive",
+        title: "Error al Registrar Venta",
+        description: `${salePayloads.length > 1 ? "No se registró ninguna de las dos ventas. " : ""}${error.message || "No se pudo registrar la venta. Intente de nuevo."}`,
+      });
+      return;
+    }
+
+    const receipts: SaleReceipt[] = savedSales.map(({ kind, sale }) => ({
+      kind,
+      saleId: sale.id,
+      fileName: getSaleReceiptFileName(sale, kind),
+      dataUri: generateSaleReceiptPdf(sale, kind),
+    }));
+    savedSales.forEach(({ kind }) => {
+      delete discountApprovalsRef.current[kind];
+      onSaleRecorded(kind);
+    });
+
+    // El backend ya descontó el stock; recargar el inventario para reflejarlo en pantalla.
+    refetchInventory();
+    setLastReceipts(receipts);
+
+    toast({
+      title: "Venta Registrada",
+      description: `${savedSales.length === 1
+        ? `Venta N° ${savedSales[0].sale.id.slice(-6)} procesada.`
+        : `Ventas ${savedSales.map(saved => `N° ${saved.sale.id.slice(-6)} (${getSaleKindLabel(saved.kind).toLowerCase()})`).join(' y ')} procesadas.`}${paymentSummary.change > 0 ? ` Vuelto: $${paymentSummary.change.toFixed(3)}.` : ''} Descargue el recibo con «Ver recibo».`,
+    });
+    resetSaleFormAndFocus(data);
+  };
+
+  const handleCloseDiscountApproval = useCallback(() => setDiscountApprovalRequest(null), []);
+
+  const handleDiscountApproved = (approval: DiscountApproval) => {
+    if (discountApprovalRequest?.saleKind) {
+      discountApprovalsRef.current[discountApprovalRequest.saleKind] = approval;
+    }
+    setDiscountApprovalRequest(null);
+    toast({ title: "Descuento Aprobado", description: `Aprobado por ${approval.approverName}. Registrando la venta...` });
+    form.handleSubmit(onSubmit)();
+  };
+
+  // Ventas en que se registrará el carrito, con sus totales; el total a cobrar es la suma de todas.
+  const formParts = splitCheckout(form.watch("items"), form.watch("cartDiscount"), promotions, form.watch("pointOfSale"));
+  const formSaleTotals = sumSaleTotals(formParts.map(part => part.totals));
+  // Línea con sus promociones, por posición en el formulario.
+  const promotedFormItems = new Map(formParts.flatMap(part => part.indexes.map((formIndex, i) => [formIndex, part.items[i]] as const)));
+
+  return (
+    <>
+    <Card className="shadow-md border border-border/60">
+      <CardHeader>
+        <CardTitle>Nueva Venta</CardTitle>
+        <CardDescription>
+          Añada productos y elija para cada uno el precio minorista o el mayorista por volumen. Un carrito mixto se registra
+          como una venta minorista y otra mayorista, cada una en su historial. El stock se deducirá de la ubicación seleccionada a través del backend.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <TooltipProvider delayDuration={200}>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-start">
+                <div className="space-y-6">
+                  <FormField
+                    control={form.control}
+                    name="pointOfSale"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Punto de Venta</FormLabel>
+                        <Select
+                          onValueChange={(value) => {
+                            field.onChange(value);
+                            form.reset({
+                              ...form.getValues(),
+                              pointOfSale: value,
+                              items: [createEmptyItem()],
+                            });
+                            discountApprovalsRef.current = {};
+                            setSuggestions([]);
+                            setActiveSuggestionIndex(-1);
+                            setCurrentFocusIndex(null);
+                          }}
+                          value={field.value || ""}
+                          disabled={!canUserSell || accessiblePOS.length <= 1}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <Store className="h-4 w-4 mr-2 inline-block text-muted-foreground" />
+                              <SelectValue placeholder="Seleccionar punto de venta..." />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {accessiblePOS.map(pos => (
+                              <SelectItem key={pos} value={pos}>{pos}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormItem>
+                    <FormLabel>Precio de los Ítems Nuevos</FormLabel>
+                    <Select
+                      value={checkoutPricingMode}
+                      onValueChange={value => setPricingMode(value as SaleKind)}
+                      disabled={!canSellRetailHere || !canSellWholesaleHere}
+                    >
+                      <SelectTrigger>
+                        <Layers className="h-4 w-4 mr-2 inline-block text-muted-foreground" />
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {saleKindSchema.options.map(kind => (
+                          <SelectItem key={kind} value={kind}>{getSaleKindLabel(kind)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                  {can('manage_customers') && (
+                    <FormField
+                      control={form.control}
+                      name="customer"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Cliente</FormLabel>
+                          <CustomerSearchField
+                            value={field.value}
+                            onChange={field.onChange}
+                            disabled={!canUserSell || !form.watch("pointOfSale")}
+                          />
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+                 <FormField
+                  control={form.control}
+                  name="payments"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Pago</FormLabel>
+                      <SalePaymentsFields
+                        value={field.value}
+                        onChange={field.onChange}
+                        totalAmount={formSaleTotals.total}
+                        cashTendered={form.watch("cashTendered")}
+                        onCashTenderedChange={value => form.setValue("cashTendered", value)}
+                        disabled={!canUserSell || !form.watch("pointOfSale")}
+                      />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="space-y-6">
+                <FormLabel className="text-xl font-semibold text-foreground">Ítems de la Venta</FormLabel>
+                {fields.map((itemField, index) => {
+                  const currentItem = form.watch(`items.${index}`);
+                  const showSuggestionsForThisItem = currentFocusIndex === index &&
+                                                     isSuggestionsOpen &&
+                                                     suggestions.length > 0 &&
+                                                     !!form.getValues("pointOfSale") &&
+                                                     !!currentItem.identifier &&
+                                                     !currentItem.isKnownProduct;
+                  const isWholesaleLine = currentItem.pricingMode === 'wholesale';
+                  // Tramo que fija el precio de una línea mayorista y el siguiente (o el primero, si aún no se alcanza).
+                  const appliedTier = isWholesaleLine ? getPriceTierForQuantity(currentItem.priceTiers, currentItem.quantity) : null;
+                  const nextTier = isWholesaleLine
+                    ? sortPriceTiers(currentItem.priceTiers).find(tier => tier.minQuantity > (currentItem.quantity || 0))
+                    : undefined;
+                  const lineHasTiers = getMinimumTierQuantity(currentItem.priceTiers) !== null;
+
+                  return (
+                    <Card key={itemField.id} className="border p-5 rounded-lg space-y-4 relative shadow-sm bg-card overflow-hidden">
+                      <div className="flex justify-between items-start gap-2">
+                          <p className="text-lg font-medium text-primary">Ítem #{index + 1}</p>
+                          <div className="flex items-center gap-2">
+                            {currentItem.isKnownProduct && (
+                              <Select
+                                value={currentItem.pricingMode}
+                                onValueChange={value => handleLinePricingModeChange(index, value as SaleKind)}
+                                disabled={!canSellRetailHere || !canSellWholesaleHere || (!lineHasTiers && !isWholesaleLine)}
+                              >
+                                <SelectTrigger className="h-8 w-[140px]" aria-label={`Precio del ítem ${index + 1}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {saleKindSchema.options.map(kind => (
+                                    <SelectItem key={kind} value={kind}>{getSaleKindLabel(kind)}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                            {fields.length > 1 && (
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => remove(index)}
+                                    className="text-destructive hover:text-destructive-foreground hover:bg-destructive/90 h-7 w-7"
+                                    aria-label="Quitar ítem de la venta"
+                                    disabled={!canUserSell}
+                                >
+                                    <MinusCircle className="h-4 w-4" />
+                                </Button>
+                            )}
+                          </div>
+                      </div>
+
+                      <FormField
+                        control={form.control}
+                        name={`items.${index}.identifier`}
+                        render={({ field: identifierField }) => (
+                          <FormItem>
+                            <FormLabel>Buscar/Ingresar Producto (Nombre o Código)</FormLabel>
+                            <Popover
+                              open={showSuggestionsForThisItem}
+                              onOpenChange={(open) => {
+                                if (!open && currentFocusIndex === index) {
+                                  setTimeout(() => {
+                                    if (!document.activeElement?.closest(`#item-${index}-suggestions-checkout`) &&
+                                        document.activeElement !== identifierInputRefs[index]?.current) {
+                                      setIsSuggestionsOpen(false);
+                                    }
+                                  }, 50);
+                                } else if (open && identifierField.value && !form.watch(`items.${index}.isKnownProduct`)) {
+                                   handleIdentifierChange(index, identifierField.value);
+                                } else {
+                                  setIsSuggestionsOpen(open);
+                                }
+                              }}
+                            >
+                              <PopoverTrigger asChild>
+                                <div className="flex items-center">
+                                  <div className="relative flex-grow">
+                                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+                                    <FormControl>
+                                      <Input
+                                        placeholder="Escanear o ingresar producto/código..."
+                                        {...identifierField}
+                                        value={identifierField.value || ''}
+                                        ref={(e) => {
+                                          identifierField.ref(e);
+                                          if(e && (!identifierInputRefs[index] || identifierInputRefs[index].current !== e)) {
+                                            const currentRefs = [...identifierInputRefs];
+                                            currentRefs[index] = { current: e };
+                                            setIdentifierInputRefs(currentRefs);
+                                          }
+                                        }}
+                                        onChange={(e) => {
+                                          identifierField.onChange(e);
+                                          handleIdentifierChange(index, e.target.value);
+                                        }}
+                                        onFocus={() => {
+                                          setCurrentFocusIndex(index);
+                                          const currentIdVal = form.getValues(`items.${index}.identifier`);
+                                          const isProdKnown = form.getValues(`items.${index}.isKnownProduct`);
+                                          if (currentIdVal && !isProdKnown) {
+                                            handleIdentifierChange(index, currentIdVal);
+                                          } else if (currentIdVal && isProdKnown) {
+                                            const knownProduct = getProductDetailsInPos(form.getValues("pointOfSale"), form.getValues(`items.${index}.barcode`) || "");
+                                            if (knownProduct && currentIdVal.toLowerCase() !== knownProduct.name.toLowerCase() && currentIdVal !== knownProduct.barcode) {
+                                              handleIdentifierChange(index, currentIdVal);
+                                            } else if (!knownProduct && currentIdVal) {
+                                              handleIdentifierChange(index, currentIdVal);
+                                            } else {
+                                              setIsSuggestionsOpen(false);
+                                              setSuggestions([]);
+                                            }
+                                          } else {
+                                            setIsSuggestionsOpen(false);
+                                            setSuggestions([]);
+                                          }
+                                        }}
+                                        onKeyDown={(e) => handleKeyDown(e, index)}
+                                        className="pl-10 pr-2 w-full rounded-r-none"
+                                        disabled={!canUserSell || !form.watch("pointOfSale")}
+                                        autoComplete="off"
+                                      />
+                                    </FormControl>
+                                  </div>
+                                  <Button
+                                    type="button"
+                                    variant="outline"
+                                    className="h-10 px-3 border-l-0 rounded-l-none"
+                                    aria-label="Escanear código de barras"
+                                    onClick={() => {
+                                      identifierInputRefs[index]?.current?.focus();
+                                    }}
+                                    disabled={!canUserSell || !form.watch("pointOfSale")}
+                                  >
+                                    <Barcode className="h-4 w-4" />
+                                  </Button>
+                                </div>
+                              </PopoverTrigger>
+                              <PopoverContent
+                                key={`popover-checkout-${index}-${suggestions.map(s=>s.id).join('-')}`}
+                                id={`item-${index}-suggestions-checkout`}
+                                className="w-[--radix-popover-trigger-width] p-0"
+                                align="start"
+                                sideOffset={5}
+                                onOpenAutoFocus={(e) => {
+                                    e.preventDefault();
+                                    identifierInputRefs[index]?.current?.focus();
+                                }}
+                                onInteractOutside={(e) => {
+                                    if (identifierInputRefs[index]?.current && identifierInputRefs[index].current.contains(e.target as Node)) {
+                                        e.preventDefault();
+                                    } else if (!document.activeElement?.closest(`#item-${index}-suggestions-checkout`)) {
+                                        setIsSuggestionsOpen(false);
+                                    }
+                                }}
+                              >
+                                <div className="max-h-60 overflow-y-auto">
+                                  {suggestions.map((product, suggIndex) => (
+                                    <button
+                                      key={`${product.id}-${suggIndex}`}
+                                      type="button"
+                                      className={`flex items-center w-full px-4 py-2 text-sm focus:outline-none ${activeSuggestionIndex === suggIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/80'}`}
+                                      onClick={() => handleSuggestionClick(index, product)}
+                                      onMouseDown={(e) => e.preventDefault()}
+                                      role="option"
+                                      aria-selected={activeSuggestionIndex === suggIndex}
+                                    >
+                                      <Image
+                                        src={product.imageUrl || `https://placehold.co/30x30.png`}
+                                        alt={product.name || "Imagen del producto"}
+                                        width={30} height={30}
+                                        className="rounded-sm object-cover mr-3 border border-border/30"
+                                        data-ai-hint={product['data-ai-hint'] || "producto belleza"}
+                                        onError={(e) => {
+                                          const target = e.target as HTMLImageElement;
+                                          if (target.src !== placeholderSvg) { target.src = placeholderSvg; }
+                                          target.onerror = null;
+                                        }}
+                                      />
+                                      <div className="flex-grow text-left">
+                                        <span className="font-medium">{product.name}</span>
+                                        <span className="text-xs text-muted-foreground ml-2">({product.brand})</span>
+                                      </div>
+                                      <span className="text-xs text-muted-foreground ml-auto mr-2">{product.barcode}</span>
+                                      <Badge variant="outline" className="text-xs px-1.5 py-0.5">Stock: {product.quantity}</Badge>
+                                      {canSellWholesaleHere && sortPriceTiers(product.priceTiers).map(tier => (
+                                         <Badge key={tier.minQuantity} variant="default" className="text-xs px-1.5 py-0.5 ml-1 bg-green-600 hover:bg-green-700">
+                                              {tier.minQuantity}+ / ${tier.price.toFixed(3)}
+                                          </Badge>
+                                      ))}
+                                    </button>
+                                  ))}
+                                </div>
+                              </PopoverContent>
+                            </Popover>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-[1fr_1fr_100px_120px] gap-4 items-end">
+                        <FormField
+                          control={form.control}
+                          name={`items.${index}.productName`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Nombre Producto</FormLabel>
+                              <FormControl>
+                                <Input placeholder="Nombre del producto" {...field} value={field.value || ''} disabled id={`items.${index}.productName`} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                         <FormField
+                          control={form.control}
+                          name={`items.${index}.brandName`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Marca</FormLabel>
+                              <FormControl>
+                                <Input placeholder="Marca del producto" {...field} value={field.value || ''} disabled id={`items.${index}.brandName`} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`items.${index}.quantity`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Cantidad</FormLabel>
+                              <FormControl>
+                               <Input
+                                  type="number" min="1" placeholder="Cant."
+                                  {...field}
+                                  id={`items.${index}.quantity`}
+                                  value={field.value === undefined || field.value === null || isNaN(field.value) ? '' : String(field.value)}
+                                  onChange={e => {
+                                      const val = e.target.value === '' ? undefined : parseInt(e.target.value, 10);
+                                      field.onChange(val);
+                                      // En una línea mayorista, el precio sigue al tramo que alcanza la nueva cantidad.
+                                      if (val !== undefined && form.getValues(`items.${index}.isKnownProduct`)) {
+                                          form.setValue(`items.${index}.price`, getLinePrice({ ...form.getValues(`items.${index}`), quantity: val }));
+                                      }
+                                      const stock = form.getValues(`items.${index}.stock`) ?? 0;
+                                      if (val !== undefined && val > stock && form.getValues(`items.${index}.isKnownProduct`)) {
+                                          form.setError(`items.${index}.quantity`, { type: "manual", message: `Máx: ${stock}`});
+                                      } else {
+                                          form.clearErrors(`items.${index}.quantity`);
+                                          form.trigger(`items.${index}`);
+                                      }
+                                  }}
+                                  disabled={!canUserSell || !form.watch(`items.${index}.isKnownProduct`)}
+                                  onFocus={(e) => e.target.select()}
+                              />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`items.${index}.price`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>{isWholesaleLine ? 'Precio Mayorista / Ud.' : 'Precio / Ud.'}</FormLabel>
+                              <FormControl>
+                                <div className="relative">
+                                    <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+                                    <Input
+                                      type="number" step="0.001" placeholder="Precio"
+                                      {...field}
+                                      id={`items.${index}.price`}
+                                      value={field.value === undefined || field.value === null || isNaN(field.value) ? '' : String(field.value)}
+                                      onChange={e => field.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))}
+                                      disabled={true}
+                                      className="pl-8"
+                                      onFocus={(e) => e.target.select()}
+                                    />
+                                </div>
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                      <FormField
+                        control={form.control}
+                        name={`items.${index}.discount`}
+                        render={({ field }) => {
+                          const promotedItem = promotedFormItems.get(index);
+                          const linePromotions = promotedItem?.promotions ?? [];
+                          const lineAmount = promotedItem ? getDiscountableLineAmount(promotedItem) : 0;
+                          return (
+                            <FormItem className="flex flex-wrap items-center gap-3 space-y-0">
+                              {linePromotions.map(promotion => (
+                                <Badge key={promotion.promotionId} className="text-xs">
+                                  <Tag className="mr-1 h-3 w-3" />
+                                  {promotion.name}: -${promotion.amount.toFixed(3)}
+                                </Badge>
+                              ))}
+                              <SaleDiscountFields
+                                value={field.value}
+                                onChange={field.onChange}
+                                baseAmount={lineAmount}
+                                label="Descuento de línea"
+                                disabled={!canUserSell || !currentItem.isKnownProduct}
+                              />
+                              {(field.value || linePromotions.length > 0) && (
+                                <span className="text-sm text-muted-foreground">
+                                  Subtotal ítem: ${(lineAmount - computeDiscountAmount(field.value, lineAmount)).toFixed(3)}
+                                </span>
+                              )}
+                            </FormItem>
+                          );
+                        }}
+                      />
+                       {currentItem.isKnownProduct && (
+                           <Badge variant="secondary" className="mt-2 text-xs">
+                              Stock disponible en {form.getValues("pointOfSale") || 'PDV'}: {currentItem.stock}
+                           </Badge>
+                       )}
+                       {currentItem.isKnownProduct && appliedTier && (
+                           <Badge variant="outline" className="mt-2 ml-2 text-xs">
+                              <Layers className="mr-1 h-3 w-3" />
+                              Tramo: {formatPriceTier(appliedTier)}
+                           </Badge>
+                       )}
+                       {currentItem.isKnownProduct && nextTier && (
+                           <Badge variant="outline" className="mt-2 ml-2 text-xs text-muted-foreground">
+                              {appliedTier ? 'Siguiente' : 'Mín. por mayor'}: {formatPriceTier(nextTier)}
+                           </Badge>
+                       )}
+                       {currentItem.isKnownProduct && !isWholesaleLine && lineHasTiers && canSellWholesaleHere && (
+                           <Badge variant="outline" className="mt-2 ml-2 text-xs text-muted-foreground">
+                              Por mayor: {sortPriceTiers(currentItem.priceTiers).map(tier => formatPriceTier(tier)).join(' · ')}
+                           </Badge>
+                       )}
+                    </Card>
+                  );
+                })}
+
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    append(createEmptyItem());
+                     setTimeout(() => {
+                          const newIndex = fields.length;
+                          if (identifierInputRefs[newIndex]?.current) {
+                             identifierInputRefs[newIndex].current.focus();
+                             setCurrentFocusIndex(newIndex);
+                          }
+                      }, 0);
+                  }}
+                  disabled={!isInventoryLoaded || !canUserSell || !form.watch("pointOfSale")}
+                >
+                  <PlusCircle className="mr-2 h-4 w-4" />
+                  Añadir Otro Ítem
+                </Button>
+
+                {form.formState.errors.items?.root?.message && (
+                    <p className="text-sm font-medium text-destructive pt-2">{form.formState.errors.items.root.message}</p>
+                )}
+                 {form.formState.errors.items?.message && typeof form.formState.errors.items.message === 'string' && (
+                     <p className="text-sm font-medium text-destructive pt-2">{form.formState.errors.items.message}</p>
+                 )}
+                {form.formState.errors.items && !form.formState.errors.items.root && !(typeof form.formState.errors.items.message === 'string') && Object.values(form.formState.errors.items).some(err => err?.message) && (
+                     <p className="text-sm font-medium text-destructive pt-2">Por favor, compruebe los detalles individuales del producto en busca de errores arriba.</p>
+                 )}
+              </div>
+
+              <div className="flex flex-col sm:flex-row justify-between items-center mt-8 pt-6 border-t">
+                  <div className="space-y-2 mb-4 sm:mb-0">
+                      <FormField
+                        control={form.control}
+                        name="cartDiscount"
+                        render={({ field }) => (
+                          <FormItem className="space-y-0">
+                            <SaleDiscountFields
+                              value={field.value}
+                              onChange={field.onChange}
+                              baseAmount={formSaleTotals.subtotal - formSaleTotals.promotionTotal - formSaleTotals.lineDiscountTotal}
+                              label="Descuento al total"
+                              disabled={!canUserSell || !form.watch("pointOfSale")}
+                            />
+                          </FormItem>
+                        )}
+                      />
+                      {formSaleTotals.total < formSaleTotals.subtotal && (
+                        <p className="text-sm text-muted-foreground">
+                          Subtotal: ${formSaleTotals.subtotal.toFixed(3)}
+                          {formSaleTotals.promotionTotal > 0 && ` · Promociones: -$${formSaleTotals.promotionTotal.toFixed(3)}`}
+                          {formSaleTotals.total < formSaleTotals.subtotal - formSaleTotals.promotionTotal
+                            && ` · Descuentos: -$${(formSaleTotals.subtotal - formSaleTotals.promotionTotal - formSaleTotals.total).toFixed(3)}`}
+                        </p>
+                      )}
+                      {formParts.length > 1 && (
+                        <p className="text-sm text-muted-foreground">
+                          Se registrarán dos ventas: {formParts.map(part => `${getSaleKindLabel(part.kind)} $${part.totals.total.toFixed(3)}`).join(' · ')}
+                        </p>
+                      )}
+                      {currentUser && requiresDiscountApproval(currentUser.role, formSaleTotals.maxDiscountPercent) && (
+                        <p className="text-sm font-medium text-destructive">
+                          El descuento ({formSaleTotals.maxDiscountPercent.toFixed(1)}%) supera su máximo del {ROLE_MAX_DISCOUNT_PERCENT[currentUser.role]}%: requerirá la aprobación de un encargado.
+                        </p>
+                      )}
+                      <div className="text-2xl font-bold text-foreground">
+                          Total Venta: ${formSaleTotals.total.toFixed(3)}
+                      </div>
+                  </div>
+                  <Button
+                      type="submit"
+                      size="lg"
+                      disabled={
+                          !form.formState.isValid ||
+                          summarizeSalePayments(form.watch("payments"), formSaleTotals.total).pending > 0 ||
+                          form.formState.isSubmitting ||
+                          !isInventoryLoaded ||
+                          !canUserSell ||
+                          form.getValues("items").filter(p => p.isKnownProduct && p.barcode && p.quantity > 0).length === 0
+                      }
+                      className="w-full sm:w-auto"
+                  >
+                      {form.formState.isSubmitting ? "Procesando..." : "Completar Venta"}
+                  </Button>
+              </div>
+              {lastReceipts.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 mt-4">
+                  <span className="text-sm text-muted-foreground">Última venta:</span>
+                  {lastReceipts.map(receipt => (
+                    <Button key={receipt.saleId} variant="outline" size="sm" asChild>
+                      <a href={receipt.dataUri} download={receipt.fileName}>
+                        <Receipt className="mr-1 h-4 w-4" />
+                        Ver recibo N° {receipt.saleId.slice(-6)}{lastReceipts.length > 1 && ` (${getSaleKindLabel(receipt.kind).toLowerCase()})`}
+                      </a>
+                    </Button>
+                  ))}
+                </div>
+              )}
+              {!isInventoryLoaded && <p className="text-sm text-muted-foreground mt-2">Cargando datos de inventario, por favor espera...</p>}
+              {!canUserSell && <p className="text-sm text-destructive mt-2">No tienes permiso para registrar ventas en esta ubicación.</p>}
+            </form>
+          </Form>
+        </TooltipProvider>
+      </CardContent>
+    </Card>
+
+    <DiscountApprovalDialog
+      request={discountApprovalRequest}
+      onClose={handleCloseDiscountApproval}
+      onApproved={handleDiscountApproved}
+    />
+    </>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import React, { useState, useEffect, type FormEvent } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import * as api from '@/lib/api';
+import { getSaleKindLabel, type DiscountApproval, type SaleKind } from '@/lib/domain';
+
+/**
+ * Descuento que hay que aprobar.
+ * @interface DiscountApprovalRequest
+ */
+export interface DiscountApprovalRequest {
+  pointOfSale: string;
+  /** Mayor porcentaje descontado en la venta. */
+  discountPercent: number;
+  /** Máximo que el vendedor puede aplicar sin aprobación. */
+  sellerLimitPercent: number;
+  /** La venta del carrito (minorista o mayorista) que necesita la aprobación: cada aprobación sirve para una sola venta. */
+  saleKind?: SaleKind;
+}
+
+interface DiscountApprovalDialogProps {
+  /** El descuento a aprobar, o null con el diálogo cerrado. */
+  request: DiscountApprovalRequest | null;
+  /** Se llama al cerrar el diálogo sin aprobación. */
+  onClose: () => void;
+  /** Se llama con la aprobación concedida. */
+  onApproved: (approval: DiscountApproval) => void;
+}
+
+/**
+ * Diálogo en el que un encargado ingresa sus credenciales para aprobar un descuento que supera el máximo
+ * del vendedor. La aprobación vale para una sola venta del PDV.
+ *
+ * @param {DiscountApprovalDialogProps} props - Las props para el componente.
+ * @returns {JSX.Element} El diálogo de aprobación.
+ */
+export default function DiscountApprovalDialog({ request, onClose, onApproved }: DiscountApprovalDialogProps): JSX.Element {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Cada solicitud empieza con el formulario vacío.
+  useEffect(() => {
+    setUsername('');
+    setPassword('');
+    setError(null);
+  }, [request]);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!request) return;
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      const approval = await api.approveDiscount({
+        username: username.trim(),
+        password,
+        pointOfSale: request.pointOfSale,
+        discountPercent: request.discountPercent,
+      });
+      onApproved(approval);
+    } catch (err: any) {
+      setError(err.message || 'No se pudo aprobar el descuento.');
+      setPassword('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={request !== null} onOpenChange={open => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><ShieldCheck className="h-5 w-5 text-primary" />Aprobación de Descuento</DialogTitle>
+          <DialogDescription>
+            {request && `La venta${request.saleKind ? ` ${getSaleKindLabel(request.saleKind).toLowerCase()}` : ''} descuenta un ${request.discountPercent.toFixed(1)}% y su máximo es del ${request.sellerLimitPercent}%. `}
+            Un encargado de {request?.pointOfSale} debe ingresar sus credenciales para aprobarlo.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="approver-username">Usuario del Encargado</Label>
+            <Input
+              id="approver-username"
+              value={username}
+              onChange={e => setUsername(e.target.value)}
+              autoComplete="off"
+              required
+              disabled={isSubmitting}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="approver-password">Contraseña</Label>
+            <Input
+              id="approver-password"
+              type="password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              autoComplete="off"
+              required
+              disabled={isSubmitting}
+            />
+          </div>
+          {error && (
+            <p className="text-sm font-medium text-destructive bg-destructive/10 p-3 rounded-md border border-destructive/30">{error}</p>
+          )}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>Cancelar</Button>
+            <Button type="submit" disabled={isSubmitting}>{isSubmitting ? 'Verificando...' : 'Aprobar y Registrar Venta'}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import React from 'react';
+import { Percent, X } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  computeDiscountAmount,
+  discountReasonSchema,
+  formatDiscount,
+  getDiscountReasonLabel,
+  type DiscountFormValues,
+  type DiscountReason,
+  type DiscountType,
+} from '@/lib/domain';
+
+interface SaleDiscountFieldsProps {
+  /** El descuento actual, o null/undefined si no hay. */
+  value: DiscountFormValues | null | undefined;
+  /** Se llama con el descuento modificado, o null al quitarlo. */
+  onChange: (discount: DiscountFormValues | null) => void;
+  /** Importe sobre el que se aplica el descuento (subtotal de la línea o total del carrito). */
+  baseAmount: number;
+  /** Texto del botón cuando no hay descuento. */
+  label: string;
+  /** Deshabilita la edición (p. ej., línea sin producto). */
+  disabled?: boolean;
+}
+
+/**
+ * Botón con un panel para aplicar un descuento de línea o de carrito: primero el motivo y después
+ * el porcentaje o el importe fijo. Muestra el descuento aplicado y el importe que descuenta.
+ *
+ * @param {SaleDiscountFieldsProps} props - Las props para el componente.
+ * @returns {JSX.Element} El control de descuento.
+ */
+export default function SaleDiscountFields({ value, onChange, baseAmount, label, disabled = false }: SaleDiscountFieldsProps): JSX.Element {
+  const discountAmount = computeDiscountAmount(value, baseAmount);
+
+  // Sin descuento, elegir el motivo lo crea: así ningún descuento queda sin motivo.
+  const handleReasonChange = (reason: DiscountReason) => {
+    onChange(value ? { ...value, reason } : { type: 'percent', value: 0, reason });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant={value ? "secondary" : "outline"} size="sm" disabled={disabled}>
+          <Percent className="mr-2 h-4 w-4" />
+          {value ? `${formatDiscount(value)} -$${discountAmount.toFixed(3)}` : label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="start">
+        <Select value={value?.reason ?? ''} onValueChange={reason => handleReasonChange(reason as DiscountReason)}>
+          <SelectTrigger>
+            <SelectValue placeholder="Motivo del descuento..." />
+          </SelectTrigger>
+          <SelectContent>
+            {discountReasonSchema.options.map(reason => (
+              <SelectItem key={reason} value={reason}>{getDiscountReasonLabel(reason)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {value && (
+          <>
+            <div className="flex items-center gap-2">
+              <Select value={value.type} onValueChange={type => onChange({ ...value, type: type as DiscountType })}>
+                <SelectTrigger className="w-[110px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percent">%</SelectItem>
+                  <SelectItem value="fixed">$ fijo</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                step="any"
+                min={0}
+                max={value.type === 'percent' ? 100 : undefined}
+                className="flex-1"
+                value={value.value}
+                onChange={e => onChange({ ...value, value: parseFloat(e.target.value) || 0 })}
+                onFocus={e => e.target.select()}
+                aria-label="Valor del descuento"
+              />
+            </div>
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">Descuenta: ${discountAmount.toFixed(3)}</span>
+              <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)}>
+                <X className="mr-1 h-4 w-4" />
+                Quitar
+              </Button>
+            </div>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { PlusCircle, MinusCircle, CreditCard, Banknote } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  getPaymentMethodLabel,
+  paymentMethodSchema,
+  summarizeSalePayments,
+  type SalePaymentFormValues,
+} from '@/lib/domain';
+
+interface SalePaymentsFieldsProps {
+  /** Las líneas de pago actuales. */
+  value: SalePaymentFormValues[];
+  /** Se llama con las líneas de pago modificadas. */
+  onChange: (payments: SalePaymentFormValues[]) => void;
+  /** El total de la venta a cubrir. */
+  totalAmount: number;
+  /** El efectivo que entregó el cliente, o null si no se anotó. */
+  cashTendered: number | null;
+  /** Se llama con el efectivo recibido modificado (null al vaciar el campo). */
+  onCashTenderedChange: (cashTendered: number | null) => void;
+  /** Deshabilita la edición (p. ej., sin PDV seleccionado). */
+  disabled?: boolean;
+}
+
+// Billetes de los botones rápidos de efectivo recibido: cada clic suma el billete a lo recibido.
+const CASH_DENOMINATIONS = [1000, 2000, 5000, 10000, 20000];
+
+/**
+ * Campos de pago del formulario de venta: una o varias líneas de método e importe (pago dividido),
+ * con lo que falta por cubrir. Con una sola línea, su importe sigue al total de la venta. Si hay pago en efectivo,
+ * muestra el efectivo recibido (con botones rápidos por billete) y el vuelto a entregar.
+ *
+ * @param {SalePaymentsFieldsProps} props - Las props para el componente.
+ * @returns {JSX.Element} Los campos de pago.
+ */
+export default function SalePaymentsFields({
+  value,
+  onChange,
+  totalAmount,
+  cashTendered,
+  onCashTenderedChange,
+  disabled = false,
+}: SalePaymentsFieldsProps): JSX.Element {
+  const summary = summarizeSalePayments(value, totalAmount, cashTendered);
+  const cashDue = summary.payments.find(payment => payment.method === 'cash')?.amount ?? 0;
+
+  // Con un único pago, su importe acompaña al total mientras se cargan los ítems.
+  useEffect(() => {
+    if (value.length === 1 && value[0].amount !== totalAmount) {
+      onChange([{ ...value[0], amount: totalAmount }]);
+    }
+    // Solo al cambiar el total: no pisar el importe que el cajero escribe a mano.
+  }, [totalAmount]);
+
+  const updatePayment = (index: number, changes: Partial<SalePaymentFormValues>) => {
+    onChange(value.map((payment, i) => (i === index ? { ...payment, ...changes } : payment)));
+  };
+
+  // La línea nueva cubre lo que falte; si no falta nada, el cajero reparte el importe entre las líneas.
+  const handleAddPayment = () => {
+    const unusedMethod = paymentMethodSchema.options.find(method => !value.some(payment => payment.method === method)) ?? 'cash';
+    onChange([...value, { method: unusedMethod, amount: Number(summary.pending.toFixed(3)) }]);
+  };
+
+  const handleRemovePayment = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.map((payment, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Select
+            value={payment.method}
+            onValueChange={method => updatePayment(index, { method: method as SalePaymentFormValues['method'] })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-[170px]">
+              <CreditCard className="h-4 w-4 mr-2 inline-block text-muted-foreground" />
+              <SelectValue placeholder="Método de pago..." />
+            </SelectTrigger>
+            <SelectContent>
+              {paymentMethodSchema.options.map(method => (
+                <SelectItem key={method} value={method}>{getPaymentMethodLabel(method)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            step="any"
+            min={0}
+            className="flex-1"
+            value={payment.amount}
+            onChange={e => updatePayment(index, { amount: parseFloat(e.target.value) || 0 })}
+            disabled={disabled}
+            aria-label={`Importe en ${getPaymentMethodLabel(payment.method)}`}
+          />
+          {value.length > 1 && (
+            <Button type="button" variant="ghost" size="icon" onClick={() => handleRemovePayment(index)} disabled={disabled} title="Quitar pago">
+              <MinusCircle className="h-4 w-4 text-destructive" />
+            </Button>
+          )}
+        </div>
+      ))}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleAddPayment} disabled={disabled || value.length >= paymentMethodSchema.options.length}>
+          <PlusCircle className="mr-2 h-4 w-4" />
+          Dividir Pago
+        </Button>
+        <div className="text-sm text-right">
+          {summary.pending > 0 && (
+            <p className="font-medium text-destructive">Falta cubrir: ${summary.pending.toFixed(3)}</p>
+          )}
+          {summary.changeExceedsCash && (
+            <p className="font-medium text-destructive">El excedente supera el efectivo: solo el efectivo da vuelto.</p>
+          )}
+        </div>
+      </div>
+      {summary.cashTendered !== null && (
+        <div className="space-y-2 rounded-lg border p-3 bg-accent/30">
+          <div className="flex items-center gap-2">
+            <Banknote className="h-4 w-4 text-muted-foreground shrink-0" />
+            <span className="text-sm whitespace-nowrap">Efectivo Recibido</span>
+            <Input
+              type="number"
+              step="any"
+              min={0}
+              className="flex-1"
+              placeholder={cashDue.toFixed(3)}
+              value={cashTendered ?? ''}
+              onChange={e => onCashTenderedChange(e.target.value === '' ? null : parseFloat(e.target.value) || 0)}
+              disabled={disabled}
+            />
+          </div>
+          <div className="flex flex-wrap gap-1">
+            <Button type="button" variant="secondary" size="sm" onClick={() => onCashTenderedChange(Number(cashDue.toFixed(3)))} disabled={disabled}>
+              Exacto
+            </Button>
+            {CASH_DENOMINATIONS.map(denomination => (
+              <Button
+                key={denomination}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => onCashTenderedChange((cashTendered ?? 0) + denomination)}
+                disabled={disabled}
+              >
+                +${denomination.toLocaleString('es-CL')}
+              </Button>
+            ))}
+            <Button type="button" variant="ghost" size="sm" onClick={() => onCashTenderedChange(null)} disabled={disabled || cashTendered === null}>
+              Limpiar
+            </Button>
+          </div>
+          {summary.cashTenderedShort ? (
+            <p className="text-sm font-medium text-destructive">El efectivo recibido no alcanza: faltan ${(cashDue - (summary.cashTendered ?? 0)).toFixed(3)}.</p>
+          ) : (
+            <p className="text-lg font-semibold text-green-600">Vuelto: ${summary.change.toFixed(3)}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
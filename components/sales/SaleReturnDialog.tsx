@@ -0,0 +1,377 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Undo2, Ban } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from "@/hooks/use-toast";
+import * as api from '@/lib/api';
+import {
+  getPaymentMethodLabel,
+  getNetUnitPrices,
+  getReturnableQuantities,
+  getReturnReasonLabel,
+  paymentMethodSchema,
+  returnReasonSchema,
+  saleReturnFormSchema,
+  type SaleKind,
+  type SaleRecord,
+  type SaleRecordItem,
+  type SaleReturn,
+  type SaleReturnFormValues,
+} from '@/lib/domain';
+
+interface SaleReturnDialogProps {
+  /** La venta sobre la que se registra la devolución, o null con el diálogo cerrado. */
+  sale: SaleRecord | null;
+  /** Tipo de la venta (minorista o mayorista). */
+  saleKind: SaleKind;
+  /** Se llama al cerrar el diálogo. */
+  onClose: () => void;
+  /** Se llama con la devolución guardada (p. ej., para recargar el inventario). */
+  onReturnRecorded: (saleReturn: SaleReturn) => void;
+}
+
+/**
+ * Genera y descarga la nota de crédito de una devolución, con el mismo formato de ticket que el recibo de venta.
+ * @param {SaleReturn} saleReturn - La devolución guardada.
+ */
+function downloadCreditNotePdf(saleReturn: SaleReturn): void {
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: [55, 200]
+  });
+
+  const actualPageWidth = doc.internal.pageSize.getWidth();
+  const margin = 3;
+  const contentWidth = actualPageWidth - (margin * 2);
+
+  doc.setFontSize(12);
+  doc.text("NOTA DE CRÉDITO", actualPageWidth / 2, 10, { align: 'center' });
+
+  doc.setFontSize(7);
+  const headerLines = [
+    `ID: ${saleReturn.id.slice(-10)}`,
+    `Fecha: ${format(saleReturn.dateTime, "dd/MM/yy HH:mm", { locale: es })}`,
+    `PDV: ${saleReturn.pointOfSale}`,
+    `Venta original: ${saleReturn.saleId.slice(-10)}`,
+    ...(saleReturn.userName ? [`Atendió: ${saleReturn.userName}`] : []),
+    `Motivo: ${getReturnReasonLabel(saleReturn.reason)}`,
+    `Reembolso: ${getPaymentMethodLabel(saleReturn.refundMethod)}`,
+  ];
+  headerLines.forEach((line, index) => doc.text(line, margin, 16 + index * 3));
+
+  const startYForTable = 16 + headerLines.length * 3;
+  doc.setLineWidth(0.1);
+  doc.line(margin, startYForTable - 1, actualPageWidth - margin, startYForTable - 1);
+
+  const prodW = contentWidth * 0.45;
+  const cantW = contentWidth * 0.15;
+  const precioW = contentWidth * 0.20;
+  const subtotalW = contentWidth - prodW - cantW - precioW;
+
+  autoTable(doc, {
+    head: [["Producto", "Cant.", "Precio", "Subtotal"]],
+    body: saleReturn.items.map(item => [
+      item.productName,
+      item.quantity,
+      `$${item.price.toFixed(3)}`,
+      `$${(item.price * item.quantity).toFixed(3)}`,
+    ]),
+    startY: startYForTable + 1,
+    theme: 'plain',
+    styles: { fontSize: 6.5, cellPadding: 0.5, overflow: 'linebreak' },
+    headStyles: { fontSize: 6.5, fontStyle: 'bold', fillColor: [240, 240, 240], textColor: 20, cellPadding: {top:1, right:0.5, bottom:1, left:0.5} },
+    columnStyles: {
+      0: { cellWidth: prodW, fontStyle: 'bold' },
+      1: { cellWidth: cantW, halign: 'center' },
+      2: { cellWidth: precioW, halign: 'right' },
+      3: { cellWidth: subtotalW, halign: 'right' },
+    },
+    margin: { top: 5, right: margin, bottom: 5, left: margin },
+    tableWidth: contentWidth,
+  });
+
+  const finalY = (doc as any).lastAutoTable.finalY || startYForTable + 20;
+  doc.setLineWidth(0.1);
+  doc.line(margin, finalY + 2, actualPageWidth - margin, finalY + 2);
+
+  doc.setFontSize(8);
+  doc.setFont("helvetica", "bold");
+  doc.text(`TOTAL REEMBOLSADO: -$${saleReturn.totalAmount.toFixed(3)}`, actualPageWidth - margin, finalY + 6, { align: 'right' });
+
+  doc.setFontSize(6.5);
+  doc.setFont("helvetica", "normal");
+  if (saleReturn.notes) {
+    doc.text(doc.splitTextToSize(`Notas: ${saleReturn.notes}`, contentWidth), margin, finalY + 10);
+  }
+
+  doc.save(`nota_credito_${saleReturn.id.slice(-6)}.pdf`);
+}
+
+/**
+ * Diálogo para devolver total o parcialmente una venta del historial, o anularla.
+ * Muestra cuántas unidades de cada producto quedan por devolver (descontando devoluciones anteriores),
+ * pide el motivo y la forma de reembolso, registra la devolución en el backend (que repone el stock)
+ * y descarga la nota de crédito en PDF.
+ *
+ * @param {SaleReturnDialogProps} props - Las props para el componente.
+ * @returns {JSX.Element} El diálogo de devolución.
+ */
+export default function SaleReturnDialog({ sale, saleKind, onClose, onReturnRecorded }: SaleReturnDialogProps): JSX.Element {
+  const { toast } = useToast();
+  const [previousReturns, setPreviousReturns] = useState<SaleReturn[] | null>(null);
+
+  // Una línea por producto (la venta puede repetir un código de barras en varias líneas), a precio neto de promociones y descuentos.
+  const saleLines = useMemo(() => {
+    const lines = new Map<string, SaleRecordItem>();
+    const netUnitPrices = sale ? getNetUnitPrices(sale) : {};
+    sale?.items.forEach(item => {
+      const existing = lines.get(item.barcode);
+      lines.set(item.barcode, existing
+        ? { ...existing, quantity: existing.quantity + item.quantity }
+        : { ...item, price: netUnitPrices[item.barcode], promotions: [], discount: null });
+    });
+    return Array.from(lines.values());
+  }, [sale]);
+
+  const returnable = useMemo(
+    () => (sale && previousReturns ? getReturnableQuantities(sale, previousReturns) : {}),
+    [sale, previousReturns]
+  );
+
+  const form = useForm<SaleReturnFormValues>({
+    resolver: zodResolver(saleReturnFormSchema),
+    defaultValues: { items: [], reason: 'defective', refundMethod: 'cash', notes: '' },
+  });
+
+  // Al abrir el diálogo con otra venta: reiniciar el formulario y cargar sus devoluciones anteriores.
+  useEffect(() => {
+    if (!sale) {
+      return;
+    }
+    form.reset({
+      items: saleLines.map(line => ({ barcode: line.barcode, quantity: 0 })),
+      reason: 'defective',
+      refundMethod: sale.paymentMethod,
+      notes: '',
+    });
+    let cancelled = false;
+    setPreviousReturns(null);
+    api.getSaleReturns({ saleId: sale.id })
+      .then(result => {
+        if (!cancelled) setPreviousReturns(result);
+      })
+      .catch((error: any) => {
+        console.error("Error al cargar las devoluciones de la venta:", error);
+        if (!cancelled) {
+          toast({ variant: "destructive", title: "Error al Cargar Devoluciones", description: error.message || "No se pudieron obtener las devoluciones anteriores de la venta." });
+          onClose();
+        }
+      });
+    return () => { cancelled = true; };
+  }, [sale, saleLines, form, toast, onClose]);
+
+  const watchedItems = form.watch('items');
+  const refundTotal = saleLines.reduce((sum, line, index) => sum + (Number(watchedItems?.[index]?.quantity) || 0) * line.price, 0);
+  const hasReturnableUnits = Object.values(returnable).some(quantity => quantity > 0);
+
+  /**
+   * Marca todas las unidades pendientes para devolver y el motivo de anulación.
+   */
+  const handleVoidSale = () => {
+    saleLines.forEach((line, index) => {
+      form.setValue(`items.${index}.quantity`, returnable[line.barcode] ?? 0, { shouldValidate: true });
+    });
+    form.setValue('reason', 'sale_error');
+  };
+
+  const onSubmit = async (data: SaleReturnFormValues) => {
+    if (!sale) return;
+    let exceedsReturnable = false;
+    data.items.forEach((item, index) => {
+      const maxQuantity = returnable[item.barcode] ?? 0;
+      if (item.quantity > maxQuantity) {
+        form.setError(`items.${index}.quantity`, { type: "manual", message: `Máx.: ${maxQuantity}` });
+        exceedsReturnable = true;
+      }
+    });
+    if (exceedsReturnable) return;
+
+    try {
+      const saleReturn = await api.recordSaleReturn({
+        saleId: sale.id,
+        saleKind,
+        items: data.items.filter(item => item.quantity > 0),
+        reason: data.reason,
+        refundMethod: data.refundMethod,
+        notes: data.notes,
+      });
+      downloadCreditNotePdf(saleReturn);
+      toast({
+        title: "Devolución Registrada",
+        description: `Se repuso el stock en ${saleReturn.pointOfSale} y se reembolsaron $${saleReturn.totalAmount.toFixed(3)} (${getPaymentMethodLabel(saleReturn.refundMethod)}). La nota de crédito se descargó.`,
+      });
+      onReturnRecorded(saleReturn);
+      onClose();
+    } catch (error: any) {
+      console.error("Error al registrar la devolución:", error);
+      toast({
+        variant: "destructive",
+        title: "Error al Registrar Devolución",
+        description: error.message || "No se pudo registrar la devolución. Intente de nuevo.",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={sale !== null} onOpenChange={open => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><Undo2 className="h-5 w-5 text-primary" />Devolución de Venta</DialogTitle>
+          <DialogDescription>
+            {sale && `Venta N° ${sale.id.slice(-6)} del ${format(sale.dateTime, "d MMM, yyyy h:mm a", { locale: es })} en ${sale.pointOfSale}. `}
+            Indica las unidades que devuelve el cliente; el stock se repone en el PDV de la venta.
+          </DialogDescription>
+        </DialogHeader>
+        {previousReturns === null ? (
+          <div className="space-y-3 py-4">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Producto</TableHead>
+                    <TableHead className="text-center">Vendidas</TableHead>
+                    <TableHead className="text-center">Pendientes</TableHead>
+                    <TableHead className="w-[110px]">A devolver</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {saleLines.map((line, index) => (
+                    <TableRow key={line.barcode}>
+                      <TableCell className="text-sm">
+                        {line.productName} <span className="text-muted-foreground">({line.brandName})</span>
+                        <div className="text-xs text-muted-foreground">${line.price.toFixed(3)} c/u</div>
+                      </TableCell>
+                      <TableCell className="text-center text-sm">{line.quantity}</TableCell>
+                      <TableCell className="text-center text-sm">{returnable[line.barcode] ?? 0}</TableCell>
+                      <TableCell>
+                        <FormField
+                          control={form.control}
+                          name={`items.${index}.quantity`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input type="number" min={0} max={returnable[line.barcode] ?? 0} disabled={!returnable[line.barcode]} {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {form.formState.errors.items?.root?.message || form.formState.errors.items?.message ? (
+                <p className="text-sm font-medium text-destructive">{form.formState.errors.items?.root?.message || form.formState.errors.items?.message}</p>
+              ) : null}
+              {!hasReturnableUnits && (
+                <p className="text-sm text-muted-foreground">Todas las unidades de esta venta ya fueron devueltas.</p>
+              )}
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="reason"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Motivo</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Seleccionar motivo..." />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {returnReasonSchema.options.map(reason => (
+                            <SelectItem key={reason} value={reason}>{getReturnReasonLabel(reason)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="refundMethod"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Forma de Reembolso</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Seleccionar forma de reembolso..." />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {paymentMethodSchema.options.map(method => (
+                            <SelectItem key={method} value={method}>{getPaymentMethodLabel(method)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notas (Opcional)</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Detalles de la devolución..." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <p className="text-right text-lg font-semibold">Total a reembolsar: ${refundTotal.toFixed(3)}</p>
+              <DialogFooter className="gap-2">
+                <Button type="button" variant="outline" onClick={handleVoidSale} disabled={!hasReturnableUnits || form.formState.isSubmitting}>
+                  <Ban className="mr-2 h-4 w-4" />
+                  Anular Venta
+                </Button>
+                <Button type="submit" disabled={!hasReturnableUnits || form.formState.isSubmitting}>
+                  <Undo2 className="mr-2 h-4 w-4" />
+                  {form.formState.isSubmitting ? "Procesando..." : "Registrar Devolución"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,353 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { format, startOfDay, endOfDay } from 'date-fns';
+import { es } from 'date-fns/locale';
+import type { DateRange } from "react-day-picker";
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import Link from 'next/link';
+import { FileDown, Receipt, Undo2 } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { DatePickerWithRange } from "@/components/DatePickerWithRange";
+import SaleReturnDialog from '@/components/sales/SaleReturnDialog';
+import { downloadSaleReceiptPdf } from '@/components/sales/saleReceiptPdf';
+import { useToast } from "@/hooks/use-toast";
+import { useInventoryContext } from '@/context/InventoryContext';
+import { useAuth } from '@/context/AuthContext';
+import { usePaginatedSalesHistory } from '@/hooks/usePaginatedSalesHistory';
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll';
+import * as api from '@/lib/api';
+import {
+  formatSalePayments,
+  getPaymentMethodLabel,
+  getSaleDiscountTotal,
+  getSalePromotionTotal,
+  paymentMethodSchema,
+  type PaymentMethod,
+  type SaleKind,
+  type SaleRecord,
+} from '@/lib/domain';
+
+// Valor de los selectores de filtro del historial que equivale a "sin filtro".
+const ALL_HISTORY_FILTER = 'all';
+
+/** Textos del historial de cada tipo de venta. */
+const HISTORY_TEXTS: Record<SaleKind, { title: string; description: string; noun: string; pdfFileName: string }> = {
+  retail: {
+    title: 'Historial de Ventas',
+    description: 'Un registro de todas las ventas pasadas.',
+    noun: 'ventas',
+    pdfFileName: 'historial_ventas',
+  },
+  wholesale: {
+    title: 'Historial de Ventas al Por Mayor',
+    description: 'Un registro de todas las ventas al por mayor pasadas.',
+    noun: 'ventas al por mayor',
+    pdfFileName: 'historial_ventas_pormayor',
+  },
+};
+
+interface SalesHistoryCardProps {
+  /** El historial a mostrar: ventas minoristas o mayoristas. */
+  kind: SaleKind;
+  /** Al cambiar, se recarga la primera página (p. ej., tras registrar una venta de este tipo). */
+  refreshKey: number;
+}
+
+/**
+ * Tarjeta con el historial paginado de las ventas de un tipo: filtros por fecha, PDV y método de pago,
+ * descarga en PDF de todas las ventas filtradas y devoluciones desde cada fila.
+ *
+ * @param {SalesHistoryCardProps} props - Las props para el componente.
+ * @returns {JSX.Element} La tarjeta del historial.
+ */
+export default function SalesHistoryCard({ kind, refreshKey }: SalesHistoryCardProps): JSX.Element {
+  const { toast } = useToast();
+  const { getPointsOfSaleForUser, refetchInventory } = useInventoryContext();
+  const { can } = useAuth();
+  const texts = HISTORY_TEXTS[kind];
+  const capability = kind === 'wholesale' ? 'wholesale_sell' : 'sell';
+
+  const [historyDateRange, setHistoryDateRange] = useState<DateRange | undefined>(undefined);
+  const [historyPointOfSale, setHistoryPointOfSale] = useState<string>(ALL_HISTORY_FILTER);
+  const [historyPaymentMethod, setHistoryPaymentMethod] = useState<PaymentMethod | typeof ALL_HISTORY_FILTER>(ALL_HISTORY_FILTER);
+  const [saleToReturn, setSaleToReturn] = useState<SaleRecord | null>(null);
+  const [isClient, setIsClient] = useState(false);
+
+  // PDV en los que el rol del usuario permite registrar (y por tanto consultar) ventas de este tipo.
+  const accessiblePOS = useMemo(() => getPointsOfSaleForUser().filter(pos => can(capability, pos)), [getPointsOfSaleForUser, can, capability]);
+
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  // Filtros del historial, aplicados en el backend. El rango de fechas incluye los días completos.
+  const historyFilters = useMemo(() => ({
+    from: historyDateRange?.from ? startOfDay(historyDateRange.from) : null,
+    to: historyDateRange?.from ? endOfDay(historyDateRange.to || historyDateRange.from) : null,
+    pointOfSale: historyPointOfSale === ALL_HISTORY_FILTER ? null : historyPointOfSale,
+    paymentMethod: historyPaymentMethod === ALL_HISTORY_FILTER ? null : historyPaymentMethod,
+  }), [historyDateRange, historyPointOfSale, historyPaymentMethod]);
+  const hasHistoryFilters = Object.values(historyFilters).some(value => value !== null);
+
+  // Historial paginado: la primera página se carga al montar o al cambiar los filtros; las siguientes, con el scroll.
+  const {
+    sales: salesHistory,
+    isLoading: isLoadingHistory,
+    isLoadingMore: isLoadingMoreHistory,
+    hasMore: hasMoreHistory,
+    error: historyError,
+    loadMore: loadMoreHistory,
+    refetch: refetchHistory,
+  } = usePaginatedSalesHistory(kind, { ...historyFilters, enabled: isClient && accessiblePOS.length > 0 });
+  const historySentinelRef = useInfiniteScroll(loadMoreHistory, { enabled: hasMoreHistory && !isLoadingHistory && !isLoadingMoreHistory });
+
+  useEffect(() => {
+    if (historyError) {
+      toast({
+        variant: "destructive",
+        title: "Error al Cargar Historial",
+        description: historyError,
+      });
+    }
+  }, [historyError, toast]);
+
+  // Solo los cambios de `refreshKey` recargan el historial; los de filtros ya los atiende el hook.
+  const lastRefreshKeyRef = useRef(refreshKey);
+  useEffect(() => {
+    if (refreshKey !== lastRefreshKeyRef.current) {
+      lastRefreshKeyRef.current = refreshKey;
+      refetchHistory();
+    }
+  }, [refreshKey, refetchHistory]);
+
+  // Estable para que el diálogo de devolución no recargue sus datos en cada render.
+  const handleCloseReturnDialog = useCallback(() => setSaleToReturn(null), []);
+
+  const handleGenerateHistoryPdf = async () => {
+    // La tabla solo tiene las páginas ya cargadas; el PDF incluye todas las ventas que cumplen los filtros.
+    let salesForPdf: SaleRecord[];
+    try {
+      salesForPdf = await (kind === 'wholesale' ? api.getAllWholesaleSalesHistory : api.getAllSalesHistory)(historyFilters);
+    } catch (error: any) {
+      console.error("Error al descargar el historial para el PDF:", error);
+      toast({ variant: "destructive", title: "Error al Generar PDF", description: error.message || "No se pudo descargar el historial de ventas." });
+      return;
+    }
+
+    const doc = new jsPDF();
+    const tableColumn = ["Fecha y Hora", "PDV", "Usuario", "Ítems", "Método Pago", "Monto Total"];
+    const tableRows: any[][] = [];
+
+    const title = `${texts.title} ${historyDateRange?.from ? `(${format(historyDateRange.from, "dd/MM/yy", { locale: es })} - ${historyDateRange.to ? format(historyDateRange.to, "dd/MM/yy", { locale: es }) : format(historyDateRange.from, "dd/MM/yy", { locale: es })})` : '(Todas las Fechas)'}`;
+    doc.setFontSize(18);
+    doc.text(title, 14, 15);
+    doc.setFontSize(11);
+    doc.setTextColor(100);
+
+    salesForPdf.forEach(sale => {
+      const itemsString = sale.items?.map(item => `${item.productName} (${item.brandName}) x${item.quantity} @ $${item.price.toFixed(3)}`).join("\n") || "N/A";
+      const saleData = [
+        format(new Date(sale.dateTime), "dd/MM/yyyy HH:mm", { locale: es }),
+        sale.pointOfSale,
+        sale.customer ? `${sale.userName || sale.userId || "N/A"}\nCliente: ${sale.customer.name}` : sale.userName || sale.userId || "N/A",
+        itemsString,
+        formatSalePayments(sale),
+        `$${typeof sale.totalAmount === 'number' ? sale.totalAmount.toFixed(3) : '0.000'}`
+      ];
+      tableRows.push(saleData);
+    });
+
+    autoTable(doc, {
+      head: [tableColumn],
+      body: tableRows,
+      startY: 20,
+      theme: 'grid',
+      headStyles: { fillColor: [22, 160, 133] },
+      styles: { fontSize: 8, cellPadding: 2, overflow: 'linebreak' },
+      columnStyles: {
+        0: { cellWidth: 30 },
+        1: { cellWidth: 25 },
+        2: { cellWidth: 25 },
+        3: { cellWidth: 'auto' },
+        4: { cellWidth: 20 },
+        5: { cellWidth: 20, halign: 'right' },
+      }
+    });
+    doc.save(`${texts.pdfFileName}_${format(new Date(), "yyyyMMddHHmmss")}.pdf`);
+    toast({ title: "PDF Generado", description: `El historial de ${texts.noun} ha sido descargado.` });
+  };
+
+  return (
+    <>
+      <Card className="shadow-md border border-border/60">
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <div>
+                <CardTitle>{texts.title}</CardTitle>
+                <CardDescription>{texts.description}</CardDescription>
+            </div>
+            <div className="flex flex-wrap gap-2 items-center">
+                 <DatePickerWithRange onDateChange={setHistoryDateRange} />
+                 <Select value={historyPointOfSale} onValueChange={setHistoryPointOfSale}>
+                    <SelectTrigger className="w-[170px]">
+                      <SelectValue placeholder="Punto de Venta" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_HISTORY_FILTER}>Todos los PDV</SelectItem>
+                      {accessiblePOS.map(pos => (
+                        <SelectItem key={pos} value={pos}>{pos}</SelectItem>
+                      ))}
+                    </SelectContent>
+                 </Select>
+                 <Select value={historyPaymentMethod} onValueChange={value => setHistoryPaymentMethod(value as PaymentMethod | typeof ALL_HISTORY_FILTER)}>
+                    <SelectTrigger className="w-[170px]">
+                      <SelectValue placeholder="Método de Pago" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_HISTORY_FILTER}>Todos los métodos</SelectItem>
+                      {paymentMethodSchema.options.map(method => (
+                        <SelectItem key={method} value={method}>{getPaymentMethodLabel(method)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                 </Select>
+                 <Button onClick={handleGenerateHistoryPdf} disabled={salesHistory.length === 0}>
+                    <FileDown className="mr-2 h-4 w-4" />
+                    Descargar PDF
+                </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isClient && !isLoadingHistory ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableCaption>Una lista de {texts.noun} recientes.</TableCaption>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[180px]">Fecha y Hora</TableHead>
+                    <TableHead>PDV</TableHead>
+                    <TableHead>Usuario</TableHead>
+                    <TableHead>Ítems Vendidos</TableHead>
+                    <TableHead className="w-[120px]">Método Pago</TableHead>
+                    <TableHead className="text-right w-[120px]">Monto Total</TableHead>
+                    <TableHead className="w-[200px]"><span className="sr-only">Acciones</span></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {salesHistory.length > 0 ? salesHistory.map((sale) => (
+                    <TableRow key={sale.id} className="hover:bg-muted/30">
+                      <TableCell className="font-medium whitespace-nowrap text-sm">
+                        {format(new Date(sale.dateTime), "d MMM, yyyy h:mm a", { locale: es })}
+                      </TableCell>
+                      <TableCell className="text-sm">{sale.pointOfSale}</TableCell>
+                      <TableCell className="text-sm">
+                        {sale.userName || sale.userId || 'N/A'}
+                        {sale.customer && (
+                          <div className="text-xs text-muted-foreground">
+                            Cliente:{' '}
+                            {can('manage_customers') ? (
+                              <Link href={`/customers/${sale.customer.id}`} className="underline hover:text-foreground">{sale.customer.name}</Link>
+                            ) : sale.customer.name}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <ul className="list-none space-y-1 text-sm">
+                          {sale.items && Array.isArray(sale.items) && sale.items.length > 0 ? sale.items.map((item, idx) => (
+                            <li key={`${sale.id}-item-${idx}-${item.barcode}`} className="text-xs">
+                              {item.productName} ({item.brandName}) - Cant: {item.quantity} @ ${item.price ? item.price.toFixed(3) : '0.000'}
+                              {item.priceTier && <span className="text-muted-foreground"> (tramo {item.priceTier.minQuantity}+)</span>}
+                            </li>
+                          )) : (
+                            <li className="text-xs text-muted-foreground">No hay ítems en esta venta.</li>
+                          )}
+                        </ul>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                         <div className="flex flex-wrap gap-1">
+                           {sale.payments.map(payment => (
+                             <Badge key={payment.method} variant={
+                                 payment.method === 'cash' ? 'default'
+                               : payment.method === 'card' ? 'secondary'
+                               : 'outline'
+                             } className="capitalize whitespace-nowrap">
+                               {getPaymentMethodLabel(payment.method)}{sale.payments.length > 1 ? ` $${payment.amount.toFixed(3)}` : ''}
+                             </Badge>
+                           ))}
+                         </div>
+                      </TableCell>
+                      <TableCell className="text-right font-semibold text-sm">
+                        ${typeof sale.totalAmount === 'number' ? sale.totalAmount.toFixed(3) : '0.000'}
+                        {getSalePromotionTotal(sale) > 0 && (
+                          <div className="text-xs font-normal text-muted-foreground">Promo. -${getSalePromotionTotal(sale).toFixed(3)}</div>
+                        )}
+                        {getSaleDiscountTotal(sale) > 0 && (
+                          <div className="text-xs font-normal text-muted-foreground">Desc. -${getSaleDiscountTotal(sale).toFixed(3)}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button variant="outline" size="sm" onClick={() => downloadSaleReceiptPdf(sale, kind)}>
+                            <Receipt className="mr-1 h-4 w-4" />
+                            Recibo
+                          </Button>
+                          {can(capability, sale.pointOfSale) && (
+                            <Button variant="outline" size="sm" onClick={() => setSaleToReturn(sale)}>
+                              <Undo2 className="mr-1 h-4 w-4" />
+                              Devolver
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )) : (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground py-6">
+                        {hasHistoryFilters ? `No hay ${texts.noun} con los filtros seleccionados.` : `Aún no hay ${texts.noun}.`}
+                        </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+              {/* Centinela del scroll infinito: al entrar en pantalla se carga la página siguiente. */}
+              <div ref={historySentinelRef} aria-hidden="true" />
+              {isLoadingMoreHistory && (
+                <p className="text-center text-sm text-muted-foreground py-4">Cargando más {texts.noun}...</p>
+              )}
+            </div>
+          ) : (
+             <div className="space-y-4 py-6">
+                <Skeleton className="h-8 w-full" />
+                <Skeleton className="h-8 w-full" />
+                <Skeleton className="h-8 w-full" />
+                <p className="text-center text-muted-foreground">Cargando historial de {texts.noun}...</p>
+             </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* La devolución repone el stock del PDV en el backend; se recarga el inventario para reflejarlo. */}
+      <SaleReturnDialog
+        sale={saleToReturn}
+        saleKind={kind}
+        onClose={handleCloseReturnDialog}
+        onReturnRecorded={() => refetchInventory()}
+      />
+    </>
+  );
+}
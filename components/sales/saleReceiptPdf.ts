@@ -0,0 +1,186 @@
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import {
+  formatDiscount,
+  formatPriceTier,
+  getPaymentMethodLabel,
+  getSaleDiscountTotal,
+  getSalePromotionTotal,
+  type SaleKind,
+  type SaleRecord,
+} from '@/lib/domain';
+
+// --- Recibo de venta ---
+// Lo generan la caja al cobrar y el historial para reimprimir una venta ya registrada.
+
+/**
+ * Genera el recibo de una venta para impresora térmica (55 mm). El mayorista lleva la marca de cada ítem
+ * y el tramo que fijó su precio; el minorista, sus promociones.
+ * @param {SaleRecord} saleData - La venta registrada.
+ * @param {SaleKind} kind - El tipo de la venta.
+ * @returns {string} El PDF como Data URI.
+ */
+export function generateSaleReceiptPdf(saleData: SaleRecord, kind: SaleKind): string {
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: [55, 200]
+  });
+
+  const actualPageWidth = doc.internal.pageSize.getWidth();
+  const margin = 3;
+  const contentWidth = actualPageWidth - (margin * 2);
+  const showBrand = kind === 'wholesale';
+
+  doc.setFontSize(12);
+  doc.text(kind === 'wholesale' ? "RECIBO VENTA POR MAYOR" : "RECIBO DE VENTA", actualPageWidth / 2, 10, { align: 'center' });
+
+  doc.setFontSize(7);
+  doc.text(`ID: ${saleData.id.slice(-10)}`, margin, 16);
+  doc.text(`Fecha: ${format(new Date(saleData.dateTime), "dd/MM/yy HH:mm", { locale: es })}`, margin, 19);
+  doc.text(`PDV: ${saleData.pointOfSale}`, margin, 22);
+  if (saleData.userName) {
+    doc.text(`Cajero: ${saleData.userName}`, margin, 25);
+  }
+  // El cliente y su ID fiscal, si la venta tiene uno asociado.
+  const customerLines = saleData.customer
+    ? [`Cliente: ${saleData.customer.name}`, ...(saleData.customer.taxId ? [`ID fiscal: ${saleData.customer.taxId}`] : [])]
+    : [];
+  const customerStartY = saleData.userName ? 28 : 25;
+  customerLines.forEach((line, index) => doc.text(line, margin, customerStartY + index * 3));
+  // Una línea por método de pago: en el pago dividido se detalla el importe de cada uno.
+  const paymentLines = saleData.payments.length === 1
+    ? [`Pago: ${getPaymentMethodLabel(saleData.payments[0].method)}`]
+    : saleData.payments.map(payment => `Pago ${getPaymentMethodLabel(payment.method)}: $${payment.amount.toFixed(3)}`);
+  const paymentStartY = customerStartY + customerLines.length * 3;
+  paymentLines.forEach((line, index) => doc.text(line, margin, paymentStartY + index * 3));
+
+  const startYForTable = paymentStartY + (paymentLines.length - 1) * 3 + 3;
+  doc.setLineWidth(0.1);
+  doc.line(margin, startYForTable - 1, actualPageWidth - margin, startYForTable - 1);
+
+  const tableColumn = showBrand ? ["Producto", "Marca", "Cant.", "Precio", "Subtotal"] : ["Producto", "Cant.", "Precio", "Subtotal"];
+  const tableRows: any[][] = [];
+
+  saleData.items.forEach(item => {
+    tableRows.push([
+      item.productName,
+      ...(showBrand ? [item.brandName] : []),
+      item.quantity,
+      `$${item.price.toFixed(3)}`,
+      `$${(item.price * item.quantity).toFixed(3)}`
+    ]);
+    if (item.priceTier) {
+      tableRows.push([`Tramo ${formatPriceTier(item.priceTier)}`, ...Array(tableColumn.length - 1).fill('')]);
+    }
+    item.promotions?.forEach(promotion => {
+      tableRows.push([`Promo ${promotion.name}`, ...Array(tableColumn.length - 2).fill(''), `-$${promotion.amount.toFixed(3)}`]);
+    });
+    if (item.discount) {
+      tableRows.push([`Desc. ${formatDiscount(item.discount)}`, ...Array(tableColumn.length - 2).fill(''), `-$${item.discount.amount.toFixed(3)}`]);
+    }
+  });
+
+  const prodW = contentWidth * (showBrand ? 0.30 : 0.45);
+  const marcaW = showBrand ? contentWidth * 0.20 : 0;
+  const cantW = contentWidth * (showBrand ? 0.12 : 0.15);
+  const precioW = contentWidth * (showBrand ? 0.18 : 0.20);
+  const subtotalW = contentWidth - prodW - marcaW - cantW - precioW;
+
+  autoTable(doc, {
+    head: [tableColumn],
+    body: tableRows,
+    startY: startYForTable + 1,
+    theme: 'plain',
+    styles: { fontSize: 6.5, cellPadding: 0.5, overflow: 'linebreak' },
+    headStyles: { fontSize: 6.5, fontStyle: 'bold', fillColor: [240, 240, 240], textColor: 20, cellPadding: {top:1, right:0.5, bottom:1, left:0.5} },
+    columnStyles: showBrand ? {
+      0: { cellWidth: prodW, fontStyle: 'bold' },
+      1: { cellWidth: marcaW },
+      2: { cellWidth: cantW, halign: 'center' },
+      3: { cellWidth: precioW, halign: 'right' },
+      4: { cellWidth: subtotalW, halign: 'right' },
+    } : {
+      0: { cellWidth: prodW, fontStyle: 'bold' },
+      1: { cellWidth: cantW, halign: 'center' },
+      2: { cellWidth: precioW, halign: 'right' },
+      3: { cellWidth: subtotalW, halign: 'right' },
+    },
+    margin: { top: 5, right: margin, bottom: 5, left: margin },
+    tableWidth: contentWidth,
+  });
+
+  const finalY = (doc as any).lastAutoTable.finalY || startYForTable + 20;
+  doc.setLineWidth(0.1);
+  doc.line(margin, finalY + 2, actualPageWidth - margin, finalY + 2);
+
+  // Con promociones o descuentos: subtotal sin descontar, promociones y descuentos por ítem (detallados en la tabla),
+  // descuento del carrito y quién los aprobó.
+  let totalY = finalY + 6;
+  const promotionTotal = getSalePromotionTotal(saleData);
+  const discountTotal = getSaleDiscountTotal(saleData);
+  if (promotionTotal + discountTotal > 0) {
+    const lineDiscountTotal = discountTotal - (saleData.cartDiscount?.amount ?? 0);
+    doc.setFontSize(6.5);
+    doc.text(`Subtotal: $${(saleData.totalAmount + promotionTotal + discountTotal).toFixed(3)}`, actualPageWidth - margin, totalY, { align: 'right' });
+    totalY += 3;
+    if (promotionTotal > 0) {
+      doc.text(`Promociones: -$${promotionTotal.toFixed(3)}`, actualPageWidth - margin, totalY, { align: 'right' });
+      totalY += 3;
+    }
+    if (lineDiscountTotal > 0) {
+      doc.text(`Descuentos por ítem: -$${lineDiscountTotal.toFixed(3)}`, actualPageWidth - margin, totalY, { align: 'right' });
+      totalY += 3;
+    }
+    if (saleData.cartDiscount) {
+      doc.text(`Desc. ${formatDiscount(saleData.cartDiscount)}: -$${saleData.cartDiscount.amount.toFixed(3)}`, actualPageWidth - margin, totalY, { align: 'right' });
+      totalY += 3;
+    }
+    if (saleData.discountApprovedBy) {
+      doc.text(`Descuento aprobado por: ${saleData.discountApprovedBy.userName}`, actualPageWidth - margin, totalY, { align: 'right' });
+      totalY += 3;
+    }
+    totalY += 1;
+  }
+  doc.setFontSize(8);
+  doc.setFont("helvetica", "bold");
+  doc.text(`TOTAL: $${saleData.totalAmount.toFixed(3)}`, actualPageWidth - margin, totalY, { align: 'right' });
+
+  doc.setFontSize(6.5);
+  doc.setFont("helvetica", "normal");
+  // Efectivo recibido y vuelto, para que el arqueo de la caja cuadre con los recibos.
+  let footerY = totalY + 4;
+  if (saleData.cashTendered !== null) {
+    doc.text(`Efectivo recibido: $${saleData.cashTendered.toFixed(3)}`, actualPageWidth - margin, footerY, { align: 'right' });
+    doc.text(`Vuelto: $${saleData.change.toFixed(3)}`, actualPageWidth - margin, footerY + 3, { align: 'right' });
+    footerY += 7;
+  }
+  doc.text("¡Gracias por su compra!", actualPageWidth / 2, footerY, { align: 'center' });
+
+  // Se devuelve como Data URI para adjuntarlo o descargarlo después; no se descarga de inmediato.
+  return doc.output('datauristring');
+}
+
+/**
+ * Nombre del archivo del recibo de una venta.
+ * @param {SaleRecord} saleData - La venta.
+ * @param {SaleKind} kind - El tipo de la venta.
+ * @returns {string} El nombre del archivo, con extensión.
+ */
+export function getSaleReceiptFileName(saleData: SaleRecord, kind: SaleKind): string {
+  return `recibo_${kind === 'wholesale' ? 'mayorista_' : ''}${saleData.id.slice(-6)}.pdf`;
+}
+
+/**
+ * Genera y descarga el recibo de una venta ya registrada (reimpresión desde el historial).
+ * @param {SaleRecord} saleData - La venta.
+ * @param {SaleKind} kind - El tipo de la venta.
+ */
+export function downloadSaleReceiptPdf(saleData: SaleRecord, kind: SaleKind): void {
+  const link = document.createElement('a');
+  link.href = generateSaleReceiptPdf(saleData, kind);
+  link.download = getSaleReceiptFileName(saleData, kind);
+  link.click();
+}
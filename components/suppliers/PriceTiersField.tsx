@@ -0,0 +1,83 @@
+'use client';
+
+import React from 'react';
+import { DollarSign, Layers, MinusCircle, PlusCircle } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { sortPriceTiers, type PriceTier } from '@/lib/domain';
+
+interface PriceTiersFieldProps {
+  /** Los tramos actuales del producto. */
+  value: PriceTier[];
+  /** Se llama con la lista de tramos modificada. */
+  onChange: (tiers: PriceTier[]) => void;
+  /** Deshabilita la edición (p. ej., usuario sin permiso para fijar precios). */
+  disabled?: boolean;
+}
+
+/**
+ * Editor de los tramos de precio mayorista de un producto: cada fila fija el precio por unidad
+ * a partir de una cantidad mínima. Un nuevo tramo propone el doble de la cantidad del último.
+ *
+ * @param {PriceTiersFieldProps} props - Las props para el componente.
+ * @returns {JSX.Element} El editor de tramos.
+ */
+export default function PriceTiersField({ value, onChange, disabled = false }: PriceTiersFieldProps): JSX.Element {
+  const updateTier = (index: number, changes: Partial<PriceTier>) => {
+    onChange(value.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)));
+  };
+
+  const handleAdd = () => {
+    const sorted = sortPriceTiers(value);
+    const last = sorted[sorted.length - 1];
+    onChange([...value, { minQuantity: last ? last.minQuantity * 2 : 12, price: last?.price ?? 0 }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length === 0 && (
+        <p className="text-sm text-muted-foreground">Sin tramos: el producto no tiene precio por mayor.</p>
+      )}
+      {value.map((tier, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <Layers className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+            <Input
+              type="number"
+              min="1"
+              placeholder="Desde (uds.)"
+              className="pl-8"
+              value={Number.isNaN(tier.minQuantity) ? '' : String(tier.minQuantity)}
+              onChange={e => updateTier(index, { minQuantity: parseInt(e.target.value, 10) || 0 })}
+              onFocus={e => e.target.select()}
+              disabled={disabled}
+              aria-label={`Cantidad mínima del tramo ${index + 1}`}
+            />
+          </div>
+          <div className="relative flex-1">
+            <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+            <Input
+              type="number"
+              step="0.001"
+              min="0"
+              placeholder="Precio / Ud."
+              className="pl-8"
+              value={Number.isNaN(tier.price) ? '' : String(tier.price)}
+              onChange={e => updateTier(index, { price: parseFloat(e.target.value) || 0 })}
+              onFocus={e => e.target.select()}
+              disabled={disabled}
+              aria-label={`Precio por unidad del tramo ${index + 1}`}
+            />
+          </div>
+          <Button type="button" variant="ghost" size="icon" onClick={() => onChange(value.filter((_, i) => i !== index))} disabled={disabled} aria-label={`Quitar el tramo ${index + 1}`}>
+            <MinusCircle className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={handleAdd} disabled={disabled}>
+        <PlusCircle className="mr-2 h-4 w-4" />
+        Añadir Tramo
+      </Button>
+    </div>
+  );
+}
@@ -1,56 +1,51 @@
-
 'use client';
 
 import { useRouter } from 'next/navigation'; // Importar useRouter
-import React, { createContext, useContext, useState, ReactNode, useMemo, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useState, ReactNode, useMemo, useEffect, useCallback, useRef } from 'react';
+import * as api from '@/lib/api';
+import { hasCapability, type Capability, type User } from '@/lib/domain';
+import { toast } from '@/hooks/use-toast';
 
-/**
- * Interfaz que representa un usuario en la aplicación.
- * @interface User
- */
-export interface User {
-  /** El identificador único para el usuario. */
-  id: string;
-  /** El nombre del usuario. */
-  name: string;
-  /** El nombre de usuario para iniciar sesión. */
-  username: string;
-  /** La contraseña para iniciar sesión (texto plano para el prototipo). */
-  password?: string; // Opcional para 'Ningún Usuario Seleccionado'
-  /** Un array de identificadores de Puntos de Venta (PDV) a los que el usuario tiene permitido acceder. Un '*' indica acceso a todos los PDV. */
-  allowedPOS: string[];
-}
+// Re-exportar el tipo de usuario para los consumidores existentes del contexto.
+export type { User } from '@/lib/domain';
+
+/** Cada cuánto se comprueba la sesión con el backend mientras hay un usuario conectado (ms). */
+const SESSION_CHECK_INTERVAL_MS = 60 * 1000;
+/** Eventos del navegador que cuentan como actividad del usuario para no caducar la sesión. */
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart', 'scroll'] as const;
 
 /**
- * Datos de usuario simulados para fines de demostración.
- * Simula diferentes usuarios con distintos niveles de acceso.
+ * Resultado de un intento de inicio de sesión.
+ * `isLocked` indica que la cuenta está bloqueada por demasiados intentos fallidos.
  */
-const mockUsers: User[] = [
-  { id: 'user-0', name: 'Ningún Usuario Seleccionado', username: '', password: '', allowedPOS: [] },
-  { id: 'admin-user', name: 'Administrador', username: 'admin', password: 'adminpassword', allowedPOS: ['*'] },
-  { id: 'mainstore-user', name: 'Usuario Tienda Principal', username: 'tienda', password: 'tiendapassword', allowedPOS: ['Main Store'] },
-  { id: 'warehouse-user', name: 'Usuario Almacén', username: 'almacen', password: 'almacenpassword', allowedPOS: ['Warehouse'] },
-];
+export type LoginResult =
+  | { success: true; user: User }
+  | { success: false; error: string; isLocked: boolean };
 
 /**
  * Define la forma del contexto de autenticación.
  * @interface AuthContextType
  */
 interface AuthContextType {
-  /** El usuario actualmente autenticado, o null si no hay ningún usuario seleccionado/iniciado sesión. */
+  /** El usuario actualmente autenticado, o null si no hay sesión. */
   currentUser: User | null;
-  /** Un array de todos los usuarios simulados disponibles (se puede usar para fines administrativos, no para cambiar). */
-  availableUsers: User[];
   /**
    * Inicia sesión de un usuario mediante su nombre de usuario y contraseña.
    * @param {string} username - El nombre de usuario.
    * @param {string} password - La contraseña.
-   * @returns {boolean} Verdadero si el inicio de sesión es exitoso, falso en caso contrario.
+   * @returns {Promise<LoginResult>} El usuario si el inicio de sesión es exitoso, o el motivo del fallo.
+   */
+  login: (username: string, password: string) => Promise<LoginResult>;
+  /** Cierra la sesión del usuario actual en el backend y redirige a la página de inicio de sesión. */
+  logout: () => Promise<void>;
+  /**
+   * Comprueba si el usuario actual tiene una capacidad según su rol y, si se indica, acceso al PDV.
+   * @param {Capability} capability - La capacidad requerida (p. ej., 'sell', 'view_caja').
+   * @param {string} [pos] - El PDV sobre el que se quiere operar.
+   * @returns {boolean} Verdadero si el usuario tiene permiso.
    */
-  login: (username: string, password: string) => boolean;
-  /** Cierra la sesión del usuario actual, estableciéndolo en el estado 'Ningún Usuario Seleccionado'. */
-  logout: () => void;
-  /** Booleano que indica si el estado de autenticación se está cargando actualmente. */
+  can: (capability: Capability, pos?: string) => boolean;
+  /** Booleano que indica si se está restaurando la sesión al cargar la aplicación. */
   isLoading: boolean;
 }
 
@@ -60,71 +55,127 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 /**
  * El componente AuthProvider gestiona el estado de autenticación (usuario actual, estado de carga)
  * y lo proporciona a sus hijos a través de AuthContext.
+ * La sesión vive en una cookie httpOnly del backend: al montar se restaura con `session.php`, y mientras
+ * hay actividad se renueva periódicamente. Si la sesión caduca por inactividad, se cierra en la interfaz.
  */
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const router = useRouter();
+  // Caducidad conocida de la sesión y si hubo actividad desde la última comprobación.
+  const expiresAtRef = useRef<Date | null>(null);
+  const hadActivityRef = useRef(false);
+
+  /**
+   * Restaura la sesión desde la cookie al cargar la aplicación.
+   */
+  useEffect(() => {
+    let cancelled = false;
+    api.getSession()
+      .then(session => {
+        if (cancelled) return;
+        expiresAtRef.current = session.expiresAt;
+        setCurrentUser(session.user);
+      })
+      .catch(error => {
+        console.error("Error al restaurar la sesión:", error);
+        if (!cancelled) setCurrentUser(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, []);
 
-   /**
-    * Simula la carga del estado inicial del usuario.
-    * Por defecto, es 'Ningún Usuario Seleccionado'.
-    */
-   useEffect(() => {
-     setIsLoading(true);
-     const timer = setTimeout(() => {
-         const initialUser = mockUsers.find(u => u.id === 'user-0');
-         setCurrentUser(initialUser || null);
-         setIsLoading(false);
-     }, 50);
+  /**
+   * Mientras hay un usuario conectado, registra su actividad y comprueba la sesión cada minuto:
+   * si hubo actividad, la renueva en el backend; si no, solo consulta al llegar la hora de caducidad.
+   */
+  useEffect(() => {
+    if (!currentUser) {
+      return;
+    }
+    const markActivity = () => { hadActivityRef.current = true; };
+    ACTIVITY_EVENTS.forEach(eventName => window.addEventListener(eventName, markActivity, { passive: true }));
 
-     return () => clearTimeout(timer);
-   }, []);
+    const intervalId = setInterval(async () => {
+      const isExpiryDue = !expiresAtRef.current || Date.now() >= expiresAtRef.current.getTime();
+      if (!hadActivityRef.current && !isExpiryDue) {
+        return;
+      }
+      hadActivityRef.current = false;
+      try {
+        const session = await api.getSession();
+        expiresAtRef.current = session.expiresAt;
+        if (!session.user) {
+          setCurrentUser(null);
+          toast({
+            variant: "destructive",
+            title: "Sesión Expirada",
+            description: "Tu sesión se cerró por inactividad. Vuelve a iniciar sesión.",
+          });
+        }
+      } catch (error) {
+        // Un fallo de red no cierra la sesión; se vuelve a intentar en la siguiente comprobación.
+        console.error("Error al renovar la sesión:", error);
+      }
+    }, SESSION_CHECK_INTERVAL_MS);
 
+    return () => {
+      ACTIVITY_EVENTS.forEach(eventName => window.removeEventListener(eventName, markActivity));
+      clearInterval(intervalId);
+    };
+  }, [currentUser]);
 
   /**
-   * Inicia sesión de un usuario haciendo coincidir el nombre de usuario y la contraseña.
+   * Inicia sesión de un usuario contra el backend.
    * @param {string} username - El nombre de usuario.
    * @param {string} password - La contraseña.
-   * @returns {boolean} Verdadero si el inicio de sesión es exitoso, falso en caso contrario.
+   * @returns {Promise<LoginResult>} El usuario si el inicio de sesión es exitoso, o el motivo del fallo.
    */
-  const login = useCallback((username: string, password: string): boolean => {
-    const userToLogin = mockUsers.find(user => user.username === username && user.password === password);
-    if (userToLogin) {
-        setIsLoading(true);
-        setTimeout(() => {
-            setCurrentUser(userToLogin);
-            setIsLoading(false);
-        }, 50);
-        return true;
-    } else {
-        // Asegurar que "Ningún Usuario Seleccionado" se establezca si el inicio de sesión falla
-        const noUser = mockUsers.find(u => u.id === 'user-0');
-        setCurrentUser(noUser || null);
-        return false;
+  const login = useCallback(async (username: string, password: string): Promise<LoginResult> => {
+    try {
+      const session = await api.login(username, password);
+      if (!session.user) {
+        return { success: false, error: 'No se pudo iniciar sesión. Intente de nuevo.', isLocked: false };
+      }
+      expiresAtRef.current = session.expiresAt;
+      hadActivityRef.current = false;
+      setCurrentUser(session.user);
+      return { success: true, user: session.user };
+    } catch (error: any) {
+      const isLocked = error instanceof api.ApiError && error.status === 423;
+      return { success: false, error: error.message || 'No se pudo iniciar sesión. Intente de nuevo.', isLocked };
     }
-  }, [setCurrentUser, setIsLoading]);
+  }, []);
 
   /**
    * Cierra la sesión del usuario actual.
    */
-  const logout = useCallback(() => {
-      setIsLoading(true);
-      setTimeout(() => {
-          const noUser = mockUsers.find(u => u.id === 'user-0');
-          setCurrentUser(noUser || null);
-          setIsLoading(false);
-          router.push('/login'); // Redirigir a la página de inicio de sesión al cerrar sesión
-      }, 50);
-  }, [setCurrentUser, setIsLoading, router]);
+  const logout = useCallback(async () => {
+    try {
+      await api.logout();
+    } catch (error) {
+      // Aunque el backend no responda, se cierra la sesión en la interfaz; la cookie caducará sola.
+      console.error("Error al cerrar la sesión en el backend:", error);
+    }
+    expiresAtRef.current = null;
+    setCurrentUser(null);
+    router.push('/login'); // Redirigir a la página de inicio de sesión al cerrar sesión
+  }, [router]);
+
+  const can = useCallback(
+    (capability: Capability, pos?: string): boolean => hasCapability(currentUser, capability, pos),
+    [currentUser]
+  );
 
   const value = useMemo(() => ({
     currentUser,
-    availableUsers: mockUsers,
     login,
     logout,
+    can,
     isLoading,
-  }), [currentUser, isLoading, login, logout]);
+  }), [currentUser, isLoading, login, logout, can]);
 
   return (
     <AuthContext.Provider value={value}>
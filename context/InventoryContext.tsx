@@ -15,6 +15,12 @@ interface InventoryContextType {
     inventory: Inventory;
     /** Booleano que indica si los datos del inventario se han cargado. */
     isInventoryLoaded: boolean;
+    /**
+     * Vuelve a cargar el inventario desde el backend sin mostrar el estado de carga inicial.
+     * Se debe llamar tras cada escritura exitosa (ventas, entradas de proveedor) para evitar mostrar stock desactualizado.
+     * @returns {Promise<void>} Una promesa que se resuelve cuando la recarga termina.
+     */
+    refetchInventory: () => Promise<void>;
     /**
      * Obtiene un array de nombres de Puntos de Venta (PDV) accesibles por el usuario actual.
      * @returns {string[]} Array de nombres de PDV accesibles.
@@ -26,27 +32,31 @@ interface InventoryContextType {
      */
     getAllPointsOfSale: () => string[];
     /**
-     * Actualiza la cantidad de un producto en un PDV específico.
+     * Repone stock de un producto en un PDV específico.
+     * El cambio se refleja de inmediato y se revierte si el backend lo rechaza.
      * @param {string} pos - El nombre del Punto de Venta.
      * @param {string} barcode - El código de barras del producto a actualizar.
-     * @param {number} change - La cantidad en la que cambiar la cantidad (puede ser positiva o negativa).
-     * @returns {boolean} Verdadero si la actualización se inició con éxito, falso en caso contrario (p. ej., producto no encontrado).
+     * @param {number} change - Las unidades a sumar (mayor que 0); las bajas se registran como ajustes de stock.
+     * @returns {Promise<boolean>} Verdadero si el backend confirmó la actualización, falso en caso contrario (p. ej., producto no encontrado o cantidad no positiva).
      */
-    updateProductQuantity: (pos: string, barcode: string, change: number) => boolean;
+    updateProductQuantity: (pos: string, barcode: string, change: number) => Promise<boolean>;
     /**
      * Añade un nuevo producto a un PDV específico. Si el producto (por código de barras) ya existe, se actualiza su cantidad.
+     * El cambio se refleja de inmediato y se revierte si el backend lo rechaza.
      * @param {string} pos - El nombre del Punto de Venta.
-     * @param {Omit<Product, 'id'>} newProduct - Los datos del producto (el ID se generará internamente). Esto incluye campos de descripción y venta al por mayor.
+     * @param {Omit<Product, 'id'>} newProduct - Los datos del producto (el ID lo asigna el backend). Esto incluye campos de descripción y venta al por mayor.
+     * @returns {Promise<boolean>} Verdadero si el backend confirmó el alta, falso en caso contrario.
      */
-    addProduct: (pos: string, newProduct: Omit<Product, 'id'>) => void;
+    addProduct: (pos: string, newProduct: Omit<Product, 'id'>) => Promise<boolean>;
     /**
      * Actualiza el precio de venta de un producto en un PDV específico.
+     * El cambio se refleja de inmediato y se restaura el precio anterior si el backend lo rechaza.
      * @param {string} pos - El nombre del Punto de Venta.
      * @param {string} barcode - El código de barras del producto a actualizar.
      * @param {number} newPrice - El nuevo precio de venta.
-     * @returns {boolean} Verdadero si la actualización se inició con éxito, falso en caso contrario.
+     * @returns {Promise<boolean>} Verdadero si el backend confirmó la actualización, falso en caso contrario.
      */
-    updateProductPrice: (pos: string, barcode: string, newPrice: number) => boolean;
+    updateProductPrice: (pos: string, barcode: string, newPrice: number) => Promise<boolean>;
     /**
      * Obtiene detalles de un producto (por nombre o código de barras) solo de los PDV accesibles para el usuario actual.
      * @param {string} identifier - El nombre o código de barras del producto.
@@ -79,11 +89,13 @@ const InventoryContext = createContext<InventoryContextType | undefined>(undefin
  *
  * @param {object} props - Las props del componente.
  * @param {ReactNode} props.children - Los componentes hijos que tendrán acceso al contexto de inventario.
+ * @param {number} [props.pollIntervalMs] - Intervalo opcional (ms) para recargar el inventario periódicamente.
  * @returns {JSX.Element} El componente InventoryProvider.
  */
-export const InventoryProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const inventoryHookData = useInventory(); // Hook personalizado para gestionar datos brutos de inventario
+export const InventoryProvider: React.FC<{ children: ReactNode; pollIntervalMs?: number }> = ({ children, pollIntervalMs }) => {
   const { currentUser } = useAuth(); // Obtener usuario actual de AuthContext para comprobaciones de permisos
+  // El backend exige sesión para leer el inventario: se carga al iniciar sesión y se descarta al cerrarla.
+  const inventoryHookData = useInventory({ pollIntervalMs, enabled: !!currentUser }); // Hook personalizado para gestionar datos brutos de inventario
 
   /**
    * Recupera una lista de nombres de Puntos de Venta (PDV) que son accesibles para el usuario actualmente conectado.
@@ -140,6 +152,7 @@ export const InventoryProvider: React.FC<{ children: ReactNode }> = ({ children
   const contextValue = useMemo(() => ({
     inventory: inventoryHookData.inventory,
     isInventoryLoaded: inventoryHookData.isInventoryLoaded,
+    refetchInventory: inventoryHookData.refetchInventory,
     getPointsOfSaleForUser,
     getAllPointsOfSale,
     updateProductQuantity: inventoryHookData.updateProductQuantity,
@@ -151,6 +164,7 @@ export const InventoryProvider: React.FC<{ children: ReactNode }> = ({ children
   }), [
       inventoryHookData.inventory,
       inventoryHookData.isInventoryLoaded,
+      inventoryHookData.refetchInventory,
       getPointsOfSaleForUser,
       getAllPointsOfSale,
       inventoryHookData.updateProductQuantity,
@@ -0,0 +1,63 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Opciones de configuración para el hook `useInfiniteScroll`.
+ * @interface UseInfiniteScrollOptions
+ */
+export interface UseInfiniteScrollOptions {
+  /** Si es falso, el centinela no dispara `onLoadMore` (p. ej., no hay más páginas o ya se está cargando). */
+  enabled: boolean;
+  /** Margen alrededor del viewport para empezar a cargar antes de llegar al final. Por defecto, '200px'. */
+  rootMargin?: string;
+}
+
+/**
+ * El hook `useInfiniteScroll` observa un elemento centinela con un IntersectionObserver y llama a `onLoadMore`
+ * cada vez que el centinela entra en pantalla. Devuelve un ref callback para asignar al centinela.
+ *
+ * @param {() => void} onLoadMore - Función que carga la página siguiente.
+ * @param {UseInfiniteScrollOptions} options - Activación y margen de observación.
+ * @returns {(node: Element | null) => void} El ref callback del elemento centinela.
+ */
+export function useInfiniteScroll(onLoadMore: () => void, { enabled, rootMargin = '200px' }: UseInfiniteScrollOptions) {
+  const observerRef = useRef<IntersectionObserver | null>(null);
+  // Guardar la última versión del callback y del estado para no recrear el observer en cada render.
+  const onLoadMoreRef = useRef(onLoadMore);
+  const enabledRef = useRef(enabled);
+  const nodeRef = useRef<Element | null>(null);
+
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore;
+    enabledRef.current = enabled;
+  }, [onLoadMore, enabled]);
+
+  const sentinelRef = useCallback((node: Element | null) => {
+    observerRef.current?.disconnect();
+    observerRef.current = null;
+    nodeRef.current = node;
+    if (!node || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+    observerRef.current = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting) && enabledRef.current) {
+        onLoadMoreRef.current();
+      }
+    }, { rootMargin });
+    observerRef.current.observe(node);
+  }, [rootMargin]);
+
+  // Si el centinela sigue visible al terminar una carga (página corta o pantalla alta),
+  // volver a observarlo para que el observer notifique de nuevo su intersección.
+  useEffect(() => {
+    if (enabled && nodeRef.current && observerRef.current) {
+      observerRef.current.unobserve(nodeRef.current);
+      observerRef.current.observe(nodeRef.current);
+    }
+  }, [enabled]);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  return sentinelRef;
+}
@@ -1,101 +1,201 @@
 
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import * as api from '@/lib/api';
+import type { Inventory, Product } from '@/lib/domain';
 
 // --- Definición de Tipos ---
+// Los tipos del inventario son canónicos en '@/lib/domain'; se reexportan aquí por compatibilidad.
+export type { Product, InventoryData, Inventory } from '@/lib/domain';
 
 /**
- * Representa un producto en el inventario.
- * @interface Product
+ * Opciones de configuración para el hook `useInventory`.
+ * @interface UseInventoryOptions
  */
-export interface Product {
-  /** Identificador único para el producto en todo el sistema de inventario. */
-  id: string;
-  /** Nombre del producto. */
-  name: string;
-  /** Cantidad actual del producto en stock. */
-  quantity: number;
-  /** Código de barras del producto. */
-  barcode: string;
-  /** URL de la imagen del producto. */
-  imageUrl: string;
-  /** Precio de venta del producto. */
-  price: number;
-  /** Nombre de la marca asociada al producto. */
-  brand: string;
-  /** Descripción opcional de la función o uso del producto. */
-  description?: string;
-  /** Pista opcional para la generación de imágenes por IA, típicamente 1-2 palabras clave. */
-  'data-ai-hint'?: string;
-  /** Cantidad mínima opcional para precios mayoristas. */
-  wholesaleQuantityThreshold?: number;
-  /** Precio mayorista opcional por unidad. */
-  wholesalePrice?: number;
-  /** Umbral de bajo stock personalizado para este producto. Si es null o <= 0, se usa el global. */
-  lowStockThreshold?: number | null;
+export interface UseInventoryOptions {
+  /**
+   * Intervalo opcional (en milisegundos) para recargar el inventario periódicamente desde el backend.
+   * Si es 0 o no se especifica, no se realiza sondeo y el inventario solo se recarga al montar
+   * o al llamar explícitamente a `refetchInventory`.
+   */
+  pollIntervalMs?: number;
+  /**
+   * Si es falso, no se realiza ninguna petición y el inventario queda vacío (p. ej., sin sesión iniciada, ya que el
+   * backend exige sesión). Al pasar a verdadero se carga de nuevo. Por defecto, verdadero.
+   */
+  enabled?: boolean;
 }
 
+// --- Utilidades internas para modificar el árbol de inventario ---
+
 /**
- * Representa los datos del inventario para un único Punto de Venta (PDV),
- * donde los productos se agrupan por el nombre de su marca.
- * @interface InventoryData
- * @property {Product[]} [brandName] - Un array de productos que pertenecen a la marca.
+ * Devuelve una copia del inventario aplicando `updater` al producto con el código de barras indicado en un PDV.
+ * Solo se copian el PDV y la marca afectados; el resto del árbol se comparte con el original.
+ * @param {Inventory} inventory - El inventario actual.
+ * @param {string} pos - El Punto de Venta del producto.
+ * @param {string} barcode - El código de barras del producto.
+ * @param {(product: Product) => Product} updater - Función que devuelve el producto modificado.
+ * @returns {Inventory} El nuevo inventario (o el mismo objeto si el producto no existe).
  */
-export interface InventoryData {
-  [brandName: string]: Product[];
+function updateProductInTree(
+  inventory: Inventory,
+  pos: string,
+  barcode: string,
+  updater: (product: Product) => Product
+): Inventory {
+  const posData = inventory[pos];
+  if (!posData) {
+    return inventory;
+  }
+  for (const brand in posData) {
+    const products = Array.isArray(posData[brand]) ? posData[brand] : [];
+    const index = products.findIndex(p => p.barcode === barcode);
+    if (index !== -1) {
+      const updatedProducts = [...products];
+      updatedProducts[index] = updater(products[index]);
+      return { ...inventory, [pos]: { ...posData, [brand]: updatedProducts } };
+    }
+  }
+  return inventory;
 }
 
 /**
- * Representa todo el inventario en todos los Puntos de Venta (PDV).
- * @interface Inventory
- * @property {InventoryData} [pointOfSale] - Datos de inventario para un PDV específico.
+ * Devuelve una copia del inventario con el producto añadido bajo su marca en el PDV indicado.
+ * @param {Inventory} inventory - El inventario actual.
+ * @param {string} pos - El Punto de Venta destino.
+ * @param {Product} product - El producto a insertar.
+ * @returns {Inventory} El nuevo inventario.
  */
-export interface Inventory {
-  [pointOfSale: string]: InventoryData;
+function insertProductInTree(inventory: Inventory, pos: string, product: Product): Inventory {
+  const posData = inventory[pos] || {};
+  const brandProducts = Array.isArray(posData[product.brand]) ? posData[product.brand] : [];
+  return { ...inventory, [pos]: { ...posData, [product.brand]: [...brandProducts, product] } };
 }
 
-// El endpoint PHP para obtener el inventario. Deberás crear este script.
-const INVENTORY_API_ENDPOINT = '/api/php/get_inventory.php';
+/**
+ * Devuelve una copia del inventario sin el producto con el ID indicado en el PDV.
+ * Si la marca queda vacía, se elimina del PDV.
+ * @param {Inventory} inventory - El inventario actual.
+ * @param {string} pos - El Punto de Venta del producto.
+ * @param {string} productId - El ID del producto a eliminar.
+ * @returns {Inventory} El nuevo inventario.
+ */
+function removeProductFromTree(inventory: Inventory, pos: string, productId: string): Inventory {
+  const posData = inventory[pos];
+  if (!posData) {
+    return inventory;
+  }
+  for (const brand in posData) {
+    const products = Array.isArray(posData[brand]) ? posData[brand] : [];
+    if (products.some(p => p.id === productId)) {
+      const remaining = products.filter(p => p.id !== productId);
+      const { [brand]: _removed, ...otherBrands } = posData;
+      return { ...inventory, [pos]: remaining.length > 0 ? { ...otherBrands, [brand]: remaining } : otherBrands };
+    }
+  }
+  return inventory;
+}
 
 
 // --- Implementación del Hook Personalizado: useInventory ---
 
 /**
  * El hook personalizado `useInventory` gestiona el estado del inventario de la aplicación.
- * Carga el inventario desde un backend PHP y proporciona funciones para acceder a los datos.
- * Las modificaciones directas al inventario (cantidad, precio, adición de productos)
- * ahora son manejadas por los scripts PHP del backend (ej: al registrar una venta o entrada de proveedor).
+ * Carga el inventario desde un backend PHP (a través de `@/lib/api`) y proporciona funciones para acceder a los datos.
+ * Las ventas y entradas de proveedor modifican el stock en el backend, por lo que el hook expone
+ * `refetchInventory` para sincronizar el estado local tras esas operaciones.
+ * Los ajustes directos (cantidad, precio, alta de productos) se aplican de forma optimista en el estado local,
+ * se envían al backend y se revierten si la petición falla.
+ *
+ * @param {UseInventoryOptions} [options] - Opciones del hook (p. ej., intervalo de sondeo).
  */
-export function useInventory() {
+export function useInventory({ pollIntervalMs, enabled = true }: UseInventoryOptions = {}) {
   const [inventory, setInventory] = useState<Inventory>({});
   const [isInventoryLoaded, setIsInventoryLoaded] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Identificador de la última petición emitida, para descartar respuestas que lleguen fuera de orden.
+  const latestRequestIdRef = useRef(0);
+  // Copia siempre actualizada del inventario, para validar ajustes sin depender de closures desactualizados.
+  const inventoryRef = useRef<Inventory>(inventory);
+  inventoryRef.current = inventory;
 
-  // Efecto para cargar el inventario inicial desde el backend PHP cuando el componente se monta.
-  useEffect(() => {
-    const fetchInitialInventory = async () => {
+  /**
+   * Obtiene el inventario desde el backend PHP y reemplaza el estado local.
+   * En la carga inicial el inventario se vacía si la petición falla; en las recargas posteriores
+   * se conserva el último inventario conocido para no dejar la pantalla en blanco por un error transitorio.
+   * @param {boolean} isInitialLoad - Verdadero si es la primera carga (muestra el estado de carga).
+   */
+  const fetchInventory = useCallback(async (isInitialLoad: boolean) => {
+    const requestId = ++latestRequestIdRef.current;
+    if (isInitialLoad) {
       setIsInventoryLoaded(false);
-      setError(null);
-      try {
-        const response = await fetch(INVENTORY_API_ENDPOINT);
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({ message: `Error del servidor: ${response.status}` }));
-          throw new Error(errorData.message || `Error al cargar el inventario: ${response.statusText}`);
-        }
-        const data: Inventory = await response.json();
+    }
+    setError(null);
+    try {
+      const data: Inventory = await api.getInventory();
+      if (requestId === latestRequestIdRef.current) {
         setInventory(data);
-      } catch (err: any) {
-        console.error("Error al cargar el inventario desde el backend:", err);
+      }
+    } catch (err: any) {
+      console.error("Error al cargar el inventario desde el backend:", err);
+      if (requestId === latestRequestIdRef.current) {
         setError(err.message || "No se pudo cargar el inventario.");
-        setInventory({}); // Dejar el inventario vacío en caso de error
-      } finally {
+        if (isInitialLoad) {
+          setInventory({}); // Dejar el inventario vacío en caso de error en la carga inicial
+        }
+      }
+    } finally {
+      if (isInitialLoad) {
         setIsInventoryLoaded(true);
       }
-    };
+    }
+  }, []);
+
+  // Efecto para cargar el inventario inicial desde el backend PHP cuando el componente se monta o se activa.
+  // Al desactivarse (p. ej., al cerrar sesión) se descarta el inventario y cualquier respuesta pendiente.
+  useEffect(() => {
+    if (!enabled) {
+      latestRequestIdRef.current++;
+      setInventory({});
+      setIsInventoryLoaded(false);
+      return;
+    }
+    fetchInventory(true);
+  }, [enabled, fetchInventory]);
+
+  /**
+   * Vuelve a cargar el inventario desde el backend sin mostrar el estado de carga inicial.
+   * Debe llamarse tras cualquier escritura exitosa (venta, venta mayorista, entrada de proveedor)
+   * para que los niveles de stock en pantalla reflejen el estado real del backend.
+   * @returns {Promise<void>} Una promesa que se resuelve cuando la recarga termina.
+   */
+  const refetchInventory = useCallback((): Promise<void> => {
+    return fetchInventory(false);
+  }, [fetchInventory]);
 
-    fetchInitialInventory();
-  }, []); // El array de dependencias vacío asegura que este efecto se ejecute solo una vez al montar.
+  // Sondeo opcional: recarga el inventario cada `pollIntervalMs` mientras la pestaña esté visible,
+  // y de inmediato cuando vuelve a estar visible, para que varias cajas no trabajen con stock desactualizado.
+  useEffect(() => {
+    if (!enabled || !pollIntervalMs || pollIntervalMs <= 0) {
+      return;
+    }
+    const intervalId = setInterval(() => {
+      if (document.visibilityState === 'visible') {
+        refetchInventory();
+      }
+    }, pollIntervalMs);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        refetchInventory();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(intervalId);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [enabled, pollIntervalMs, refetchInventory]);
 
 
   /**
@@ -145,19 +245,132 @@ export function useInventory() {
         return null;
     }, [inventory, getProductDetailsInPos]);
 
-  // Funciones como updateProductQuantity, addProduct, updateProductPrice
-  // se eliminan de este hook, ya que la lógica de modificación del inventario
-  // ahora reside en el backend PHP y se activa a través de otros flujos
-  // (ej: registrar una venta, registrar una entrada de proveedor).
-  // Si se necesita una actualización optimista o una recarga explícita del inventario
-  // después de tales operaciones, se podría añadir una función `refetchInventory` aquí.
+  /**
+   * Busca un producto por código de barras en un PDV del inventario más reciente.
+   * @param {string} pos - El Punto de Venta donde buscar.
+   * @param {string} barcode - El código de barras del producto.
+   * @returns {Product | null} El producto, o null si no existe.
+   */
+  const findProductByBarcode = useCallback((pos: string, barcode: string): Product | null => {
+    const posData = inventoryRef.current[pos];
+    if (!posData) {
+      return null;
+    }
+    for (const brand in posData) {
+      const products = Array.isArray(posData[brand]) ? posData[brand] : [];
+      const product = products.find(p => p.barcode === barcode);
+      if (product) {
+        return product;
+      }
+    }
+    return null;
+  }, []);
+
+  /**
+   * Repone stock de un producto en un PDV (las bajas se registran como ajustes de stock con su motivo).
+   * El cambio se aplica de inmediato en el estado local, se envía al backend y se revierte si el backend lo rechaza.
+   * @param {string} pos - El Punto de Venta del producto.
+   * @param {string} barcode - El código de barras del producto.
+   * @param {number} change - Las unidades a sumar (mayor que 0).
+   * @returns {Promise<boolean>} Verdadero si el backend confirmó el ajuste; falso si el producto no existe,
+   * la cantidad no es positiva o la petición falló.
+   */
+  const updateProductQuantity = useCallback(async (pos: string, barcode: string, change: number): Promise<boolean> => {
+    const product = findProductByBarcode(pos, barcode);
+    if (!product || !Number.isInteger(change) || change <= 0) {
+      return false;
+    }
+    // Invalidar recargas en curso para que no sobrescriban el cambio optimista con datos anteriores.
+    latestRequestIdRef.current++;
+    setInventory(prev => updateProductInTree(prev, pos, barcode, p => ({ ...p, quantity: p.quantity + change })));
+    try {
+      const result = await api.updateProductQuantity(pos, barcode, change);
+      // Sincronizar con el valor autoritativo del backend.
+      setInventory(prev => updateProductInTree(prev, pos, barcode, p => ({ ...p, quantity: result.quantity })));
+      return true;
+    } catch (err: any) {
+      console.error("Error al actualizar la cantidad del producto:", err);
+      setInventory(prev => updateProductInTree(prev, pos, barcode, p => ({ ...p, quantity: p.quantity - change })));
+      setError(err.message || "No se pudo actualizar la cantidad del producto.");
+      return false;
+    }
+  }, [findProductByBarcode]);
+
+  /**
+   * Añade un producto a un PDV. Si ya existe un producto con el mismo código de barras en ese PDV,
+   * se suma la cantidad indicada a su stock. El cambio es optimista y se revierte si el backend falla.
+   * @param {string} pos - El Punto de Venta destino.
+   * @param {Omit<Product, 'id'>} newProduct - Los datos del producto; el ID lo asigna el backend.
+   * @returns {Promise<boolean>} Verdadero si el backend confirmó el alta, falso en caso contrario.
+   */
+  const addProduct = useCallback(async (pos: string, newProduct: Omit<Product, 'id'>): Promise<boolean> => {
+    if (!pos || !newProduct.barcode || !newProduct.name || !newProduct.brand || newProduct.quantity < 0 || newProduct.price < 0) {
+      return false;
+    }
+    const existing = findProductByBarcode(pos, newProduct.barcode);
+    // ID provisional mientras el backend no devuelva el definitivo.
+    const tempId = `temp-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    latestRequestIdRef.current++;
+    if (existing) {
+      setInventory(prev => updateProductInTree(prev, pos, newProduct.barcode, p => ({ ...p, quantity: p.quantity + newProduct.quantity })));
+    } else {
+      setInventory(prev => insertProductInTree(prev, pos, { ...newProduct, id: tempId }));
+    }
+    try {
+      const savedProduct: Product = await api.addProduct(pos, newProduct);
+      setInventory(prev => updateProductInTree(prev, pos, savedProduct.barcode, () => savedProduct));
+      return true;
+    } catch (err: any) {
+      console.error("Error al añadir el producto:", err);
+      if (existing) {
+        setInventory(prev => updateProductInTree(prev, pos, newProduct.barcode, p => ({ ...p, quantity: p.quantity - newProduct.quantity })));
+      } else {
+        setInventory(prev => removeProductFromTree(prev, pos, tempId));
+      }
+      setError(err.message || "No se pudo añadir el producto.");
+      return false;
+    }
+  }, [findProductByBarcode]);
+
+  /**
+   * Cambia el precio de venta de un producto en un PDV. El cambio es optimista y, si el backend falla,
+   * se restaura el precio anterior.
+   * @param {string} pos - El Punto de Venta del producto.
+   * @param {string} barcode - El código de barras del producto.
+   * @param {number} newPrice - El nuevo precio de venta.
+   * @returns {Promise<boolean>} Verdadero si el backend confirmó el cambio; falso si el producto no existe,
+   * el precio no es válido o la petición falló.
+   */
+  const updateProductPrice = useCallback(async (pos: string, barcode: string, newPrice: number): Promise<boolean> => {
+    const product = findProductByBarcode(pos, barcode);
+    if (!product || !Number.isFinite(newPrice) || newPrice < 0) {
+      return false;
+    }
+    const previousPrice = product.price;
+    latestRequestIdRef.current++;
+    setInventory(prev => updateProductInTree(prev, pos, barcode, p => ({ ...p, price: newPrice })));
+    try {
+      await api.updateProductPrice(pos, barcode, newPrice);
+      return true;
+    } catch (err: any) {
+      console.error("Error al actualizar el precio del producto:", err);
+      // Solo restaurar si nadie más cambió el precio mientras tanto.
+      setInventory(prev => updateProductInTree(prev, pos, barcode, p => (p.price === newPrice ? { ...p, price: previousPrice } : p)));
+      setError(err.message || "No se pudo actualizar el precio del producto.");
+      return false;
+    }
+  }, [findProductByBarcode]);
 
   return {
       inventory,
       isInventoryLoaded,
       error, // Exponer el estado de error
+      refetchInventory,
       getPointsOfSale,
       getProductDetails,
       getProductDetailsInPos,
+      updateProductQuantity,
+      addProduct,
+      updateProductPrice,
     };
 }
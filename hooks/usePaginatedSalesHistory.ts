@@ -0,0 +1,161 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import * as api from '@/lib/api';
+import type { PaymentMethod, SaleRecord } from '@/lib/domain';
+
+/** Historial a consultar: ventas minoristas o mayoristas. */
+export type SalesHistoryKind = 'retail' | 'wholesale';
+
+/**
+ * Opciones de configuración para el hook `usePaginatedSalesHistory`.
+ * @interface UsePaginatedSalesHistoryOptions
+ */
+export interface UsePaginatedSalesHistoryOptions {
+  /** Fecha/hora mínima (inclusiva). */
+  from?: Date | null;
+  /** Fecha/hora máxima (inclusiva). */
+  to?: Date | null;
+  /** Solo las ventas de este Punto de Venta. */
+  pointOfSale?: string | null;
+  /** Solo las ventas con este método de pago. */
+  paymentMethod?: PaymentMethod | null;
+  /** Solo las ventas asociadas a este cliente. */
+  customerId?: string | null;
+  /** Ventas por página. Por defecto, 50. */
+  pageSize?: number;
+  /** Si es falso, no se realiza ninguna petición. Por defecto, verdadero. */
+  enabled?: boolean;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * El hook `usePaginatedSalesHistory` alimenta las tablas de "Historial de Ventas": pide al backend la primera página
+ * con los filtros indicados, añade las siguientes con `loadMore` (scroll infinito) y vuelve a empezar cuando
+ * cambian los filtros.
+ *
+ * @param {SalesHistoryKind} kind - El historial a consultar.
+ * @param {UsePaginatedSalesHistoryOptions} [options] - Filtros, tamaño de página y activación del hook.
+ */
+export function usePaginatedSalesHistory(
+  kind: SalesHistoryKind,
+  { from, to, pointOfSale, paymentMethod, customerId, pageSize = DEFAULT_PAGE_SIZE, enabled = true }: UsePaginatedSalesHistoryOptions = {}
+) {
+  const [sales, setSales] = useState<SaleRecord[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Identificador de la última carga desde la primera página, para descartar respuestas de filtros anteriores.
+  const latestRequestIdRef = useRef(0);
+  // Evita pedir dos veces la misma página si el centinela del scroll dispara varias veces seguidas.
+  const isLoadingMoreRef = useRef(false);
+
+  const fromTime = from ? from.getTime() : null;
+  const toTime = to ? to.getTime() : null;
+
+  /**
+   * Construye los parámetros de la petición a partir de los filtros actuales.
+   * @param {string | null} cursor - El cursor de la página a pedir.
+   * @returns {api.SalesHistoryPageParams} Los parámetros.
+   */
+  const buildParams = useCallback((cursor: string | null): api.SalesHistoryPageParams => ({
+    from: fromTime !== null ? new Date(fromTime) : null,
+    to: toTime !== null ? new Date(toTime) : null,
+    pointOfSale,
+    paymentMethod,
+    customerId,
+    cursor,
+    limit: pageSize,
+  }), [fromTime, toTime, pointOfSale, paymentMethod, customerId, pageSize]);
+
+  const getPage = kind === 'wholesale' ? api.getWholesaleSalesHistory : api.getSalesHistory;
+
+  /**
+   * Descarta las páginas cargadas y vuelve a pedir la primera con los filtros actuales.
+   * @returns {Promise<void>} Una promesa que se resuelve cuando la carga termina.
+   */
+  const refetch = useCallback(async (): Promise<void> => {
+    if (!enabled) {
+      return;
+    }
+    const requestId = ++latestRequestIdRef.current;
+    isLoadingMoreRef.current = false;
+    setIsLoadingMore(false);
+    setIsLoading(true);
+    setError(null);
+    try {
+      const page = await getPage(buildParams(null));
+      if (requestId === latestRequestIdRef.current) {
+        setSales(page.items);
+        setNextCursor(page.nextCursor);
+      }
+    } catch (err: any) {
+      console.error("Error al cargar el historial de ventas desde el backend:", err);
+      if (requestId === latestRequestIdRef.current) {
+        setError(err.message || "No se pudo cargar el historial de ventas.");
+        setSales([]);
+        setNextCursor(null);
+      }
+    } finally {
+      if (requestId === latestRequestIdRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [enabled, getPage, buildParams]);
+
+  /**
+   * Pide la página siguiente y la añade al final de la lista. No hace nada si no hay más páginas
+   * o si ya hay una carga en curso.
+   * @returns {Promise<void>} Una promesa que se resuelve cuando la carga termina.
+   */
+  const loadMore = useCallback(async (): Promise<void> => {
+    if (!enabled || !nextCursor || isLoading || isLoadingMoreRef.current) {
+      return;
+    }
+    const requestId = latestRequestIdRef.current;
+    isLoadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    try {
+      const page = await getPage(buildParams(nextCursor));
+      if (requestId === latestRequestIdRef.current) {
+        setSales(prev => [...prev, ...page.items]);
+        setNextCursor(page.nextCursor);
+      }
+    } catch (err: any) {
+      console.error("Error al cargar más ventas desde el backend:", err);
+      if (requestId === latestRequestIdRef.current) {
+        setError(err.message || "No se pudieron cargar más ventas.");
+      }
+    } finally {
+      if (requestId === latestRequestIdRef.current) {
+        isLoadingMoreRef.current = false;
+        setIsLoadingMore(false);
+      }
+    }
+  }, [enabled, nextCursor, isLoading, getPage, buildParams]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setSales([]);
+      setNextCursor(null);
+      return;
+    }
+    refetch();
+  }, [enabled, refetch]);
+
+  return {
+    /** Ventas cargadas hasta ahora, de la más reciente a la más antigua. */
+    sales,
+    /** Verdadero mientras se carga la primera página. */
+    isLoading,
+    /** Verdadero mientras se carga una página siguiente. */
+    isLoadingMore,
+    /** Verdadero si el backend tiene más ventas que cumplen los filtros. */
+    hasMore: nextCursor !== null,
+    error,
+    loadMore,
+    refetch,
+  };
+}
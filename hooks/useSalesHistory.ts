@@ -0,0 +1,96 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import * as api from '@/lib/api';
+import type { SaleRecord, SaleReturn } from '@/lib/domain';
+
+/**
+ * Opciones de configuración para el hook `useSalesHistory`.
+ * @interface UseSalesHistoryOptions
+ */
+export interface UseSalesHistoryOptions {
+  /** Fecha/hora mínima (inclusiva) de las ventas a cargar. Sin valor, no se acota por abajo. */
+  from?: Date | null;
+  /** Fecha/hora máxima (inclusiva) de las ventas a cargar. Sin valor, no se acota por arriba. */
+  to?: Date | null;
+  /** Si es falso, no se realiza ninguna petición (p. ej., mientras se comprueban permisos). Por defecto, verdadero. */
+  enabled?: boolean;
+}
+
+/**
+ * El hook `useSalesHistory` es la fuente de datos compartida de ventas para los paneles (Caja, Gráfica, Desglose).
+ * Carga en paralelo el historial minorista, el mayorista (todas las páginas) y las devoluciones desde el backend,
+ * acotados al rango de fechas indicado, y vuelve a cargarlos cuando el rango cambia.
+ *
+ * @param {UseSalesHistoryOptions} [options] - Rango de fechas y activación del hook.
+ */
+export function useSalesHistory({ from, to, enabled = true }: UseSalesHistoryOptions = {}) {
+  const [sales, setSales] = useState<SaleRecord[]>([]);
+  const [wholesaleSales, setWholesaleSales] = useState<SaleRecord[]>([]);
+  const [saleReturns, setSaleReturns] = useState<SaleReturn[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Identificador de la última petición emitida, para descartar respuestas de rangos anteriores.
+  const latestRequestIdRef = useRef(0);
+
+  // Usar los timestamps como dependencias: dos objetos Date con el mismo valor no deben provocar otra carga.
+  const fromTime = from ? from.getTime() : null;
+  const toTime = to ? to.getTime() : null;
+
+  /**
+   * Vuelve a cargar los historiales y las devoluciones desde el backend para el rango actual.
+   * @returns {Promise<void>} Una promesa que se resuelve cuando la carga termina.
+   */
+  const refetch = useCallback(async (): Promise<void> => {
+    if (!enabled) {
+      return;
+    }
+    const requestId = ++latestRequestIdRef.current;
+    const params = {
+      from: fromTime !== null ? new Date(fromTime) : null,
+      to: toTime !== null ? new Date(toTime) : null,
+    };
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [regular, wholesale, returns] = await Promise.all([
+        api.getAllSalesHistory(params),
+        api.getAllWholesaleSalesHistory(params),
+        api.getSaleReturns(params),
+      ]);
+      if (requestId === latestRequestIdRef.current) {
+        setSales(regular);
+        setWholesaleSales(wholesale);
+        setSaleReturns(returns);
+      }
+    } catch (err: any) {
+      console.error("Error al cargar el historial de ventas desde el backend:", err);
+      if (requestId === latestRequestIdRef.current) {
+        setError(err.message || "No se pudo cargar el historial de ventas.");
+        setSales([]);
+        setWholesaleSales([]);
+        setSaleReturns([]);
+      }
+    } finally {
+      if (requestId === latestRequestIdRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [enabled, fromTime, toTime]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return {
+    /** Ventas minoristas del rango. */
+    sales,
+    /** Ventas mayoristas del rango. */
+    wholesaleSales,
+    /** Devoluciones (minoristas y mayoristas) registradas en el rango. */
+    saleReturns,
+    isLoading,
+    error,
+    refetch,
+  };
+}
@@ -0,0 +1,148 @@
+import type { ZodType, ZodTypeDef } from 'zod';
+
+/** Tiempo máximo de espera por defecto para una petición (ms). */
+const DEFAULT_TIMEOUT_MS = 15000;
+/** Número de reintentos por defecto para peticiones de lectura (GET). */
+const DEFAULT_GET_RETRIES = 2;
+/** Espera base entre reintentos (ms); se duplica en cada intento. */
+const RETRY_BASE_DELAY_MS = 400;
+
+/**
+ * Tipo de fallo de una petición al backend.
+ * - `http`: el backend respondió con un código de error.
+ * - `network`: no se pudo contactar con el backend.
+ * - `timeout`: el backend no respondió a tiempo.
+ * - `invalid_response`: la respuesta no tiene la forma esperada.
+ */
+export type ApiErrorKind = 'http' | 'network' | 'timeout' | 'invalid_response';
+
+/**
+ * Error uniforme para todas las llamadas al backend.
+ * `message` siempre es un texto apto para mostrar al usuario en un toast.
+ */
+export class ApiError extends Error {
+  /** Tipo de fallo. */
+  readonly kind: ApiErrorKind;
+  /** Código de estado HTTP, si el backend llegó a responder. */
+  readonly status: number | null;
+  /** Endpoint que falló. */
+  readonly endpoint: string;
+
+  /**
+   * @param {ApiErrorKind} kind - Tipo de fallo.
+   * @param {string} message - Mensaje legible del error.
+   * @param {string} endpoint - Endpoint que falló.
+   * @param {number | null} [status] - Código de estado HTTP, si existe.
+   */
+  constructor(kind: ApiErrorKind, message: string, endpoint: string, status: number | null = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+    this.endpoint = endpoint;
+  }
+}
+
+/**
+ * Opciones de una petición al backend.
+ * @interface ApiRequestOptions
+ */
+export interface ApiRequestOptions<T> {
+  /** Método HTTP. Por defecto 'GET'. */
+  method?: 'GET' | 'POST';
+  /** Cuerpo de la petición; se serializa como JSON. */
+  body?: unknown;
+  /** Esquema zod con el que se valida la respuesta. */
+  schema: ZodType<T, ZodTypeDef, unknown>;
+  /** Tiempo máximo de espera (ms). */
+  timeoutMs?: number;
+  /**
+   * Número de reintentos ante fallos de red, timeouts o errores 5xx.
+   * Por defecto solo se reintentan las lecturas (GET); las escrituras no se reintentan
+   * para no registrar dos veces una venta o una entrada de proveedor.
+   */
+  retries?: number;
+}
+
+/**
+ * Extrae el mensaje de error de una respuesta fallida, aceptando tanto `{ error }` como `{ message }`.
+ * @param {Response} response - La respuesta del backend.
+ * @returns {Promise<string>} El mensaje de error.
+ */
+async function readErrorMessage(response: Response): Promise<string> {
+  const errorData = await response.json().catch(() => null);
+  return errorData?.error || errorData?.message || `Error del servidor: ${response.status}`;
+}
+
+/**
+ * Indica si un error justifica reintentar la petición.
+ * @param {ApiError} error - El error producido.
+ * @returns {boolean} Verdadero para fallos de red, timeouts y errores 5xx.
+ */
+function isRetryable(error: ApiError): boolean {
+  return error.kind === 'network' || error.kind === 'timeout' || (error.kind === 'http' && (error.status ?? 0) >= 500);
+}
+
+/**
+ * Realiza un único intento de petición con timeout y valida la respuesta.
+ * @param {string} endpoint - La URL del endpoint.
+ * @param {ApiRequestOptions<T>} options - Opciones de la petición.
+ * @returns {Promise<T>} Los datos validados.
+ * @throws {ApiError} Si la petición falla o la respuesta no es válida.
+ */
+async function requestOnce<T>(endpoint: string, options: ApiRequestOptions<T>): Promise<T> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      method: options.method ?? 'GET',
+      headers: options.body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      cache: 'no-store',
+      signal: controller.signal,
+    });
+  } catch (err: any) {
+    if (err?.name === 'AbortError') {
+      throw new ApiError('timeout', 'El servidor tardó demasiado en responder. Intente de nuevo.', endpoint);
+    }
+    throw new ApiError('network', 'No se pudo conectar con el servidor. Verifica tu conexión o el backend.', endpoint);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  if (!response.ok) {
+    throw new ApiError('http', await readErrorMessage(response), endpoint, response.status);
+  }
+
+  const json = await response.json().catch(() => undefined);
+  const parsed = options.schema.safeParse(json);
+  if (!parsed.success) {
+    console.error(`Respuesta inválida de ${endpoint}:`, parsed.error.issues);
+    throw new ApiError('invalid_response', 'El servidor devolvió datos con un formato inesperado.', endpoint, response.status);
+  }
+  return parsed.data;
+}
+
+/**
+ * Realiza una petición JSON al backend con timeout, reintentos con espera exponencial y validación zod.
+ * @template T
+ * @param {string} endpoint - La URL del endpoint.
+ * @param {ApiRequestOptions<T>} options - Opciones de la petición.
+ * @returns {Promise<T>} Los datos validados.
+ * @throws {ApiError} Si la petición falla tras agotar los reintentos.
+ */
+export async function apiRequest<T>(endpoint: string, options: ApiRequestOptions<T>): Promise<T> {
+  const retries = options.retries ?? ((options.method ?? 'GET') === 'GET' ? DEFAULT_GET_RETRIES : 0);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await requestOnce(endpoint, options);
+    } catch (err) {
+      const apiError = err instanceof ApiError ? err : new ApiError('network', String(err), endpoint);
+      if (attempt >= retries || !isRetryable(apiError)) {
+        throw apiError;
+      }
+      await new Promise(resolve => setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** attempt));
+    }
+  }
+}
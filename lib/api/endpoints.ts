@@ -0,0 +1,1006 @@
+import * as z from 'zod';
+import { apiRequest } from './client';
+import {
+  auditEntrySchema,
+  customerSchema,
+  inventorySchema,
+  managedUserSchema,
+  productSchema,
+  promotionSchema,
+  purchaseOrderSchema,
+  serializeDateTime,
+  discountApprovalSchema,
+  saleRecordSchema,
+  saleReturnSchema,
+  stockAdjustmentSchema,
+  stockCountSchema,
+  stockTransferSchema,
+  supplierRecordSchema,
+  type AuditAction,
+  type AuditEntry,
+  type Customer,
+  type DiscountApproval,
+  type Inventory,
+  type ManagedUser,
+  type PaymentMethod,
+  type PriceTier,
+  type Product,
+  type Promotion,
+  type PurchaseOrder,
+  type PurchaseOrderStatus,
+  type ReturnReason,
+  type Role,
+  type SaleKind,
+  type SaleDiscount,
+  type SalePayment,
+  type SaleRecord,
+  type SaleRecordItem,
+  type SaleReturn,
+  type StockAdjustment,
+  type StockAdjustmentReason,
+  type StockCount,
+  type StockCountStatus,
+  type StockTransfer,
+  type StockTransferStatus,
+  type SupplierRecord,
+} from '@/lib/domain';
+import {
+  lowStockThresholdResultSchema,
+  mixedSaleResultSchema,
+  productPriceResultSchema,
+  productQuantityResultSchema,
+  salesHistoryPageSchema,
+  sessionInfoSchema,
+  successResultSchema,
+  type LowStockThresholdResult,
+  type MixedSaleResult,
+  type ProductPriceResult,
+  type ProductQuantityResult,
+  type SalesHistoryPage,
+  type SessionInfo,
+} from './schemas';
+
+// --- Rutas de los endpoints del backend PHP ---
+// Único lugar donde se definen; cambiar aquí si el backend se despliega en otra ruta.
+export const API_ENDPOINTS = {
+  getInventory: '/api/php/get_inventory.php',
+  updateProductQuantity: '/api/php/update_product_quantity.php',
+  addProduct: '/api/php/add_product.php',
+  updateProductPrice: '/api/php/update_product_price.php',
+  updateLowStockThreshold: '/api/php/update_low_stock_threshold.php',
+  getSalesHistory: '/api/php/get_sales_history.php',
+  recordSale: '/api/php/record_sale.php',
+  getWholesaleSalesHistory: '/api/php/get_wholesale_sales_history.php',
+  recordWholesaleSale: '/api/php/record_wholesale_sale.php',
+  recordMixedSale: '/api/php/record_mixed_sale.php',
+  getSaleReturns: '/api/php/get_sale_returns.php',
+  recordSaleReturn: '/api/php/record_sale_return.php',
+  approveDiscount: '/api/php/approve_discount.php',
+  getPromotions: '/api/php/get_promotions.php',
+  addPromotion: '/api/php/add_promotion.php',
+  updatePromotion: '/api/php/update_promotion.php',
+  getCustomers: '/api/php/get_customers.php',
+  addCustomer: '/api/php/add_customer.php',
+  updateCustomer: '/api/php/update_customer.php',
+  getSupplierEntries: '/api/php/get_supplier_entries.php',
+  addSupplierEntry: '/api/php/add_supplier_entry.php',
+  getStockTransfers: '/api/php/get_stock_transfers.php',
+  addStockTransfer: '/api/php/add_stock_transfer.php',
+  updateStockTransfer: '/api/php/update_stock_transfer.php',
+  dispatchStockTransfer: '/api/php/dispatch_stock_transfer.php',
+  receiveStockTransfer: '/api/php/receive_stock_transfer.php',
+  getPurchaseOrders: '/api/php/get_purchase_orders.php',
+  addPurchaseOrder: '/api/php/add_purchase_order.php',
+  updatePurchaseOrder: '/api/php/update_purchase_order.php',
+  getStockCounts: '/api/php/get_stock_counts.php',
+  addStockCount: '/api/php/add_stock_count.php',
+  updateStockCount: '/api/php/update_stock_count.php',
+  postStockCount: '/api/php/post_stock_count.php',
+  getStockAdjustments: '/api/php/get_stock_adjustments.php',
+  addStockAdjustment: '/api/php/add_stock_adjustment.php',
+  login: '/api/php/login.php',
+  logout: '/api/php/logout.php',
+  getSession: '/api/php/session.php',
+  getUsers: '/api/php/get_users.php',
+  addUser: '/api/php/add_user.php',
+  updateUser: '/api/php/update_user.php',
+  resetUserPassword: '/api/php/reset_user_password.php',
+  getAuditLog: '/api/php/get_audit_log.php',
+  recordAuditEvent: '/api/php/record_audit_event.php',
+} as const;
+
+// --- Tipos de las peticiones ---
+
+/**
+ * Filtros opcionales para los endpoints de historial de ventas.
+ * @interface SalesHistoryParams
+ */
+export interface SalesHistoryParams {
+  /** Fecha/hora mínima (inclusiva). */
+  from?: Date | null;
+  /** Fecha/hora máxima (inclusiva). */
+  to?: Date | null;
+  /** Solo las ventas de este Punto de Venta. */
+  pointOfSale?: string | null;
+  /** Solo las ventas con algún pago de este método. */
+  paymentMethod?: PaymentMethod | null;
+  /** Solo las ventas asociadas a este cliente. */
+  customerId?: string | null;
+}
+
+/**
+ * Filtros y paginación para pedir una página del historial de ventas.
+ * @interface SalesHistoryPageParams
+ */
+export interface SalesHistoryPageParams extends SalesHistoryParams {
+  /** El `nextCursor` de la página anterior; sin valor, se pide la primera página. */
+  cursor?: string | null;
+  /** Tamaño de página (el backend usa 50 por defecto y admite hasta 500). */
+  limit?: number;
+}
+
+// Tamaño de página al descargar un historial completo: el máximo que admite el backend.
+const FULL_HISTORY_PAGE_SIZE = 500;
+
+/**
+ * Datos para registrar una venta (minorista o mayorista).
+ * @interface RecordSalePayload
+ */
+export interface RecordSalePayload {
+  pointOfSale: string;
+  /** Pagos por método; deben sumar el total, con el vuelto del efectivo ya descontado. */
+  payments: SalePayment[];
+  /** Efectivo que entregó el cliente, si la venta lleva pago en efectivo. */
+  cashTendered?: number | null;
+  /**
+   * Ítems con sus promociones (minoristas) o su tramo de precio (mayoristas) y su descuento de línea; el backend
+   * cobra el precio de lista del inventario y recalcula las promociones, los precios por tramo y los importes descontados.
+   */
+  items: SaleRecordItem[];
+  /** Descuento sobre el total de las líneas. */
+  cartDiscount?: SaleDiscount | null;
+  /** Aprobación de encargado (`approveDiscount`), si los descuentos superan el máximo del vendedor. */
+  discountApprovalId?: string | null;
+  /** Cliente del directorio al que se asocia la venta; el backend guarda su nombre e ID fiscal. */
+  customerId?: string | null;
+  totalAmount: number;
+}
+
+/**
+ * Filtros opcionales de las devoluciones.
+ * @interface SaleReturnsParams
+ */
+export interface SaleReturnsParams {
+  /** Fecha/hora mínima (inclusiva). */
+  from?: Date | null;
+  /** Fecha/hora máxima (inclusiva). */
+  to?: Date | null;
+  /** Solo las devoluciones de este Punto de Venta. */
+  pointOfSale?: string | null;
+  /** Solo las devoluciones de esta venta. */
+  saleId?: string | null;
+}
+
+/**
+ * Datos para registrar la devolución total o parcial de una venta.
+ * @interface RecordSaleReturnPayload
+ */
+export interface RecordSaleReturnPayload {
+  saleId: string;
+  saleKind: SaleKind;
+  /** Unidades a devolver por código de barras; el precio se toma de la venta original. */
+  items: { barcode: string; quantity: number }[];
+  reason: ReturnReason;
+  refundMethod: PaymentMethod;
+  notes?: string;
+}
+
+/**
+ * Línea de producto para registrar una entrada de proveedor.
+ * @interface SupplierEntryProductPayload
+ */
+export interface SupplierEntryProductPayload {
+  barcode: string;
+  productName: string;
+  brandName: string;
+  quantity: number;
+  purchasePrice: number;
+  sellingPrice?: number | null;
+  imageUrl?: string | null;
+  description?: string | null;
+  aiHint?: string | null;
+  /** Tramos de precio por volumen; vacío los quita y null/ausente conserva los actuales. */
+  priceTiers?: PriceTier[] | null;
+  lowStockThreshold?: number | null;
+  isKnownProductInPos?: boolean;
+  currentSellingPriceInPos?: number;
+}
+
+/**
+ * Datos para registrar una entrada de proveedor.
+ * @interface AddSupplierEntryPayload
+ */
+export interface AddSupplierEntryPayload {
+  supplierName: string;
+  pointOfSale: string;
+  products: SupplierEntryProductPayload[];
+  dateTime?: string;
+  /** La orden de compra que se recibe con esta entrada; pasa a estado recibida. */
+  purchaseOrderId?: string | null;
+}
+
+/**
+ * Filtros opcionales de los traspasos entre PDV.
+ * @interface StockTransfersParams
+ */
+export interface StockTransfersParams {
+  /** Solo los traspasos que salen de este Punto de Venta o llegan a él. */
+  pointOfSale?: string | null;
+  status?: StockTransferStatus | null;
+}
+
+/**
+ * Datos de un traspaso nuevo. El nombre y la marca de cada línea los completa el backend desde el PDV de origen.
+ * @interface StockTransferPayload
+ */
+export interface StockTransferPayload {
+  origin: string;
+  destination: string;
+  items: { barcode: string; quantity: number }[];
+  notes?: string;
+}
+
+/**
+ * Cambios sobre un traspaso en borrador; solo se modifican los campos presentes. `status` solo admite 'cancelled'.
+ * @interface UpdateStockTransferPayload
+ */
+export interface UpdateStockTransferPayload extends Partial<StockTransferPayload> {
+  id: string;
+  status?: Extract<StockTransferStatus, 'cancelled'>;
+}
+
+/**
+ * Filtros opcionales de las órdenes de compra.
+ * @interface PurchaseOrdersParams
+ */
+export interface PurchaseOrdersParams {
+  /** Solo las órdenes para este Punto de Venta. */
+  pointOfSale?: string | null;
+  status?: PurchaseOrderStatus | null;
+}
+
+/**
+ * Datos de una orden de compra nueva. El nombre y la marca de cada línea los completa el backend.
+ * @interface PurchaseOrderPayload
+ */
+export interface PurchaseOrderPayload {
+  supplierName: string;
+  pointOfSale: string;
+  /** Un precio null o ausente queda "a confirmar". */
+  items: { barcode: string; quantity: number; purchasePrice?: number | null }[];
+  notes?: string;
+}
+
+/**
+ * Cambios sobre una orden de compra; solo se modifican los campos presentes. El contenido solo se puede cambiar
+ * en borrador, y `status` admite 'sent' y 'cancelled'.
+ * @interface UpdatePurchaseOrderPayload
+ */
+export interface UpdatePurchaseOrderPayload extends Partial<PurchaseOrderPayload> {
+  id: string;
+  status?: Extract<PurchaseOrderStatus, 'sent' | 'cancelled'>;
+}
+
+/**
+ * Filtros opcionales de los conteos de stock.
+ * @interface StockCountsParams
+ */
+export interface StockCountsParams {
+  /** Solo los conteos de este Punto de Venta. */
+  pointOfSale?: string | null;
+  status?: StockCountStatus | null;
+}
+
+/**
+ * Datos para iniciar un conteo; sin marca se cuenta todo el PDV.
+ * @interface StockCountPayload
+ */
+export interface StockCountPayload {
+  pointOfSale: string;
+  brand?: string | null;
+  notes?: string;
+}
+
+/**
+ * Cambios sobre un conteo abierto; solo se modifican los campos presentes. `countedQuantity` null borra lo contado.
+ * @interface UpdateStockCountPayload
+ */
+export interface UpdateStockCountPayload {
+  id: string;
+  counts?: { barcode: string; countedQuantity: number | null }[];
+  notes?: string;
+  status?: Extract<StockCountStatus, 'cancelled'>;
+}
+
+/**
+ * Filtros opcionales de los ajustes de stock.
+ * @interface StockAdjustmentsParams
+ */
+export interface StockAdjustmentsParams {
+  /** Fecha/hora mínima (inclusiva). */
+  from?: Date | null;
+  /** Fecha/hora máxima (inclusiva). */
+  to?: Date | null;
+  /** Solo los ajustes de este Punto de Venta. */
+  pointOfSale?: string | null;
+  reason?: StockAdjustmentReason | null;
+}
+
+/**
+ * Datos para registrar un ajuste de stock. `quantity` es negativa para dar de baja y positiva para dar de alta.
+ * @interface StockAdjustmentPayload
+ */
+export interface StockAdjustmentPayload {
+  pointOfSale: string;
+  barcode: string;
+  quantity: number;
+  reason: StockAdjustmentReason;
+  notes?: string;
+}
+
+/**
+ * Datos para crear un usuario.
+ * @interface AddUserPayload
+ */
+export interface AddUserPayload {
+  name: string;
+  username: string;
+  password: string;
+  role: Role;
+  /** PDV a los que tiene acceso ('*' para todos). */
+  allowedPOS: string[];
+}
+
+/**
+ * Cambios sobre un usuario existente; solo se modifican los campos presentes.
+ * @interface UpdateUserPayload
+ */
+export interface UpdateUserPayload {
+  id: string;
+  name?: string;
+  role?: Role;
+  allowedPOS?: string[];
+  active?: boolean;
+}
+
+/**
+ * Datos de una promoción nueva. Los campos que no usa su tipo van como null (o `[]` en `barcodes`).
+ */
+export type PromotionPayload = Omit<Promotion, 'id'>;
+
+/**
+ * Cambios sobre una promoción existente; solo se modifican los campos presentes.
+ * @interface UpdatePromotionPayload
+ */
+export interface UpdatePromotionPayload extends Partial<PromotionPayload> {
+  id: string;
+}
+
+/**
+ * Datos de un cliente nuevo. Los datos de contacto que no se conocen van como ''.
+ */
+export type CustomerPayload = Omit<Customer, 'id'>;
+
+/**
+ * Cambios sobre un cliente existente; solo se modifican los campos presentes.
+ * @interface UpdateCustomerPayload
+ */
+export interface UpdateCustomerPayload extends Partial<CustomerPayload> {
+  id: string;
+}
+
+/**
+ * Filtros opcionales del registro de auditoría.
+ * @interface AuditLogParams
+ */
+export interface AuditLogParams {
+  /** Fecha/hora mínima (inclusiva). */
+  from?: Date | null;
+  /** Fecha/hora máxima (inclusiva). */
+  to?: Date | null;
+  /** Solo las entradas de este Punto de Venta. */
+  pointOfSale?: string | null;
+  /** Solo las entradas de esta acción. */
+  action?: AuditAction | null;
+}
+
+/**
+ * Datos de una acción hecha en el cliente para el registro de auditoría (facturas y ajustes de caja).
+ * @interface RecordAuditEventPayload
+ */
+export interface RecordAuditEventPayload {
+  action: Extract<AuditAction, 'invoice.create' | 'invoice.update' | 'caja_settings.update'>;
+  entityId: string;
+  pointOfSale?: string | null;
+  /** Valores antes del cambio, o null si la acción crea la entidad. */
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Construye la URL de un endpoint de historial añadiendo los filtros y la paginación como query string.
+ * @param {string} endpoint - La URL base del endpoint.
+ * @param {SalesHistoryPageParams} params - Los filtros y la paginación.
+ * @returns {string} La URL con los parámetros presentes.
+ */
+function withHistoryParams(endpoint: string, params: SalesHistoryPageParams): string {
+  const query = new URLSearchParams();
+  if (params.from) query.set('from', serializeDateTime(params.from));
+  if (params.to) query.set('to', serializeDateTime(params.to));
+  if (params.pointOfSale) query.set('pointOfSale', params.pointOfSale);
+  if (params.paymentMethod) query.set('paymentMethod', params.paymentMethod);
+  if (params.customerId) query.set('customerId', params.customerId);
+  if (params.cursor) query.set('cursor', params.cursor);
+  if (params.limit) query.set('limit', String(params.limit));
+  const queryString = query.toString();
+  return queryString ? `${endpoint}?${queryString}` : endpoint;
+}
+
+// --- Inventario ---
+
+/**
+ * Obtiene el inventario completo agrupado por PDV y marca.
+ * @returns {Promise<Inventory>} El inventario.
+ */
+export function getInventory(): Promise<Inventory> {
+  return apiRequest(API_ENDPOINTS.getInventory, { schema: inventorySchema });
+}
+
+/**
+ * Repone stock de un producto en un PDV. Las bajas se registran con `addStockAdjustment`.
+ * @param {string} pointOfSale - El Punto de Venta.
+ * @param {string} barcode - El código de barras del producto.
+ * @param {number} change - Las unidades a sumar (mayor que 0).
+ * @returns {Promise<ProductQuantityResult>} La nueva cantidad confirmada por el backend.
+ */
+export function updateProductQuantity(pointOfSale: string, barcode: string, change: number): Promise<ProductQuantityResult> {
+  return apiRequest(API_ENDPOINTS.updateProductQuantity, {
+    method: 'POST',
+    body: { pointOfSale, barcode, change },
+    schema: productQuantityResultSchema,
+  });
+}
+
+/**
+ * Añade un producto a un PDV (o suma stock si ya existe).
+ * @param {string} pointOfSale - El Punto de Venta.
+ * @param {Omit<Product, 'id'>} product - Los datos del producto.
+ * @returns {Promise<Product>} El producto guardado, con su ID definitivo.
+ */
+export function addProduct(pointOfSale: string, product: Omit<Product, 'id'>): Promise<Product> {
+  return apiRequest(API_ENDPOINTS.addProduct, {
+    method: 'POST',
+    body: { pointOfSale, product },
+    schema: productSchema,
+  });
+}
+
+/**
+ * Cambia el precio de venta de un producto en un PDV.
+ * @param {string} pointOfSale - El Punto de Venta.
+ * @param {string} barcode - El código de barras del producto.
+ * @param {number} newPrice - El nuevo precio.
+ * @returns {Promise<ProductPriceResult>} El precio confirmado por el backend.
+ */
+export function updateProductPrice(pointOfSale: string, barcode: string, newPrice: number): Promise<ProductPriceResult> {
+  return apiRequest(API_ENDPOINTS.updateProductPrice, {
+    method: 'POST',
+    body: { pointOfSale, barcode, newPrice },
+    schema: productPriceResultSchema,
+  });
+}
+
+/**
+ * Fija el umbral de bajo stock de productos de un PDV (p. ej., con su punto de pedido).
+ * @param {string} pointOfSale - El Punto de Venta.
+ * @param {{ barcode: string; lowStockThreshold: number | null }[]} thresholds - Los umbrales; null vuelve al umbral global.
+ * @returns {Promise<LowStockThresholdResult>} Los umbrales confirmados por el backend.
+ * @throws {ApiError} 403 sin la capacidad `receive_stock` o sin acceso al PDV.
+ */
+export function updateLowStockThresholds(
+  pointOfSale: string,
+  thresholds: { barcode: string; lowStockThreshold: number | null }[]
+): Promise<LowStockThresholdResult> {
+  return apiRequest(API_ENDPOINTS.updateLowStockThreshold, {
+    method: 'POST',
+    body: { pointOfSale, thresholds },
+    schema: lowStockThresholdResultSchema,
+  });
+}
+
+// --- Ventas ---
+
+/**
+ * Descarga todas las páginas de un endpoint de historial siguiendo `nextCursor`.
+ * @param {(params: SalesHistoryPageParams) => Promise<SalesHistoryPage>} getPage - La función que pide una página.
+ * @param {SalesHistoryParams} params - Los filtros.
+ * @returns {Promise<SaleRecord[]>} Todas las ventas que cumplen los filtros, de la más reciente a la más antigua.
+ */
+async function getAllHistoryPages(
+  getPage: (params: SalesHistoryPageParams) => Promise<SalesHistoryPage>,
+  params: SalesHistoryParams
+): Promise<SaleRecord[]> {
+  const sales: SaleRecord[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await getPage({ ...params, cursor, limit: FULL_HISTORY_PAGE_SIZE });
+    sales.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return sales;
+}
+
+/**
+ * Obtiene una página del historial de ventas minoristas.
+ * @param {SalesHistoryPageParams} [params] - Filtros, cursor y tamaño de página.
+ * @returns {Promise<SalesHistoryPage>} Las ventas de la página, de la más reciente a la más antigua, y el cursor de la siguiente.
+ */
+export function getSalesHistory(params: SalesHistoryPageParams = {}): Promise<SalesHistoryPage> {
+  return apiRequest(withHistoryParams(API_ENDPOINTS.getSalesHistory, params), { schema: salesHistoryPageSchema });
+}
+
+/**
+ * Obtiene todo el historial de ventas minoristas que cumple los filtros, recorriendo todas las páginas.
+ * Pensado para paneles e informes; las tablas deben paginar con `getSalesHistory`.
+ * @param {SalesHistoryParams} [params] - Filtros.
+ * @returns {Promise<SaleRecord[]>} Las ventas, de la más reciente a la más antigua.
+ */
+export function getAllSalesHistory(params: SalesHistoryParams = {}): Promise<SaleRecord[]> {
+  return getAllHistoryPages(getSalesHistory, params);
+}
+
+/**
+ * Registra una venta minorista. No se reintenta para evitar ventas duplicadas.
+ * @param {RecordSalePayload} payload - Los datos de la venta.
+ * @returns {Promise<SaleRecord>} La venta guardada, con ID y fecha del servidor.
+ */
+export function recordSale(payload: RecordSalePayload): Promise<SaleRecord> {
+  return apiRequest(API_ENDPOINTS.recordSale, { method: 'POST', body: payload, schema: saleRecordSchema });
+}
+
+/**
+ * Obtiene una página del historial de ventas mayoristas.
+ * @param {SalesHistoryPageParams} [params] - Filtros, cursor y tamaño de página.
+ * @returns {Promise<SalesHistoryPage>} Las ventas de la página, de la más reciente a la más antigua, y el cursor de la siguiente.
+ */
+export function getWholesaleSalesHistory(params: SalesHistoryPageParams = {}): Promise<SalesHistoryPage> {
+  return apiRequest(withHistoryParams(API_ENDPOINTS.getWholesaleSalesHistory, params), { schema: salesHistoryPageSchema });
+}
+
+/**
+ * Obtiene todo el historial de ventas mayoristas que cumple los filtros, recorriendo todas las páginas.
+ * @param {SalesHistoryParams} [params] - Filtros.
+ * @returns {Promise<SaleRecord[]>} Las ventas mayoristas, de la más reciente a la más antigua.
+ */
+export function getAllWholesaleSalesHistory(params: SalesHistoryParams = {}): Promise<SaleRecord[]> {
+  return getAllHistoryPages(getWholesaleSalesHistory, params);
+}
+
+/**
+ * Registra una venta mayorista. No se reintenta para evitar ventas duplicadas.
+ * @param {RecordSalePayload} payload - Los datos de la venta (con precios mayoristas).
+ * @returns {Promise<SaleRecord>} La venta guardada, con ID y fecha del servidor.
+ */
+export function recordWholesaleSale(payload: RecordSalePayload): Promise<SaleRecord> {
+  return apiRequest(API_ENDPOINTS.recordWholesaleSale, { method: 'POST', body: payload, schema: saleRecordSchema });
+}
+
+/**
+ * Registra las dos ventas de un carrito mixto en una sola transacción: si una falla, no se registra ninguna.
+ * No se reintenta para evitar ventas duplicadas.
+ * @param {Record<SaleKind, RecordSalePayload>} payloads - Los datos de la venta minorista y de la mayorista.
+ * @returns {Promise<MixedSaleResult>} Las dos ventas guardadas.
+ */
+export function recordMixedSale(payloads: Record<SaleKind, RecordSalePayload>): Promise<MixedSaleResult> {
+  return apiRequest(API_ENDPOINTS.recordMixedSale, { method: 'POST', body: payloads, schema: mixedSaleResultSchema });
+}
+
+// --- Devoluciones ---
+
+/**
+ * Obtiene las devoluciones de ventas minoristas y mayoristas que cumplen los filtros.
+ * @param {SaleReturnsParams} [params] - Filtros.
+ * @returns {Promise<SaleReturn[]>} Las devoluciones, de la más reciente a la más antigua.
+ */
+export function getSaleReturns(params: SaleReturnsParams = {}): Promise<SaleReturn[]> {
+  const query = new URLSearchParams();
+  if (params.from) query.set('from', serializeDateTime(params.from));
+  if (params.to) query.set('to', serializeDateTime(params.to));
+  if (params.pointOfSale) query.set('pointOfSale', params.pointOfSale);
+  if (params.saleId) query.set('saleId', params.saleId);
+  const queryString = query.toString();
+  const endpoint = queryString ? `${API_ENDPOINTS.getSaleReturns}?${queryString}` : API_ENDPOINTS.getSaleReturns;
+  return apiRequest(endpoint, { schema: z.array(saleReturnSchema) });
+}
+
+/**
+ * Registra la devolución total o parcial de una venta; el backend repone el stock. No se reintenta para no reponer dos veces.
+ * @param {RecordSaleReturnPayload} payload - La venta, las unidades a devolver, el motivo y la forma de reembolso.
+ * @returns {Promise<SaleReturn>} La devolución guardada.
+ * @throws {ApiError} 409 si se devuelven más unidades de las pendientes.
+ */
+export function recordSaleReturn(payload: RecordSaleReturnPayload): Promise<SaleReturn> {
+  return apiRequest(API_ENDPOINTS.recordSaleReturn, { method: 'POST', body: payload, schema: saleReturnSchema });
+}
+
+// --- Descuentos ---
+
+/**
+ * Pide la aprobación de un descuento con las credenciales de un encargado. La aprobación vale para una sola venta
+ * del PDV durante unos minutos. No se reintenta para no sumar intentos fallidos de más.
+ * @param {{ username: string; password: string; pointOfSale: string; discountPercent: number }} payload - Las credenciales
+ * del encargado, el PDV y el porcentaje de descuento a aprobar.
+ * @returns {Promise<DiscountApproval>} La aprobación, cuyo `id` se envía con la venta como `discountApprovalId`.
+ * @throws {ApiError} 401 si las credenciales no son válidas, 403 si el usuario no puede aprobar ese descuento, 423 si está bloqueado.
+ */
+export function approveDiscount(payload: { username: string; password: string; pointOfSale: string; discountPercent: number }): Promise<DiscountApproval> {
+  return apiRequest(API_ENDPOINTS.approveDiscount, { method: 'POST', body: payload, schema: discountApprovalSchema });
+}
+
+// --- Promociones ---
+
+/**
+ * Convierte las fechas del periodo de una promoción en cadenas ISO para enviarlas al backend.
+ * @param {Partial<PromotionPayload>} payload - Los datos de la promoción.
+ * @returns {object} Los mismos datos, con `startsAt`/`endsAt` serializados si están presentes.
+ */
+function serializePromotionPayload(payload: Partial<PromotionPayload>) {
+  return {
+    ...payload,
+    ...(payload.startsAt !== undefined && { startsAt: payload.startsAt && serializeDateTime(payload.startsAt) }),
+    ...(payload.endsAt !== undefined && { endsAt: payload.endsAt && serializeDateTime(payload.endsAt) }),
+  };
+}
+
+/**
+ * Obtiene todas las promociones, activas o no, en el orden en que se aplican.
+ * @returns {Promise<Promotion[]>} Las promociones, con sus fechas como `Date`.
+ */
+export function getPromotions(): Promise<Promotion[]> {
+  return apiRequest(API_ENDPOINTS.getPromotions, { schema: z.array(promotionSchema) });
+}
+
+/**
+ * Crea una promoción. Requiere la capacidad `manage_promotions`.
+ * @param {PromotionPayload} payload - Los datos de la promoción.
+ * @returns {Promise<Promotion>} La promoción creada.
+ * @throws {ApiError} 400 si la regla no tiene los campos que exige su tipo.
+ */
+export function addPromotion(payload: PromotionPayload): Promise<Promotion> {
+  return apiRequest(API_ENDPOINTS.addPromotion, { method: 'POST', body: serializePromotionPayload(payload), schema: promotionSchema });
+}
+
+/**
+ * Modifica una promoción o la activa/desactiva. Requiere la capacidad `manage_promotions`.
+ * @param {UpdatePromotionPayload} payload - El ID de la promoción y los campos a cambiar.
+ * @returns {Promise<Promotion>} La promoción actualizada.
+ */
+export function updatePromotion(payload: UpdatePromotionPayload): Promise<Promotion> {
+  return apiRequest(API_ENDPOINTS.updatePromotion, { method: 'POST', body: serializePromotionPayload(payload), schema: promotionSchema });
+}
+
+// --- Clientes ---
+
+/**
+ * Obtiene el directorio de clientes, ordenado por nombre. Requiere la capacidad `manage_customers`.
+ * @returns {Promise<Customer[]>} Los clientes.
+ */
+export function getCustomers(): Promise<Customer[]> {
+  return apiRequest(API_ENDPOINTS.getCustomers, { schema: z.array(customerSchema) });
+}
+
+/**
+ * Da de alta un cliente. Requiere la capacidad `manage_customers`.
+ * @param {CustomerPayload} payload - Los datos del cliente.
+ * @returns {Promise<Customer>} El cliente creado.
+ * @throws {ApiError} 400 si falta el nombre o el ID fiscal ya es de otro cliente.
+ */
+export function addCustomer(payload: CustomerPayload): Promise<Customer> {
+  return apiRequest(API_ENDPOINTS.addCustomer, { method: 'POST', body: payload, schema: customerSchema });
+}
+
+/**
+ * Modifica los datos de un cliente. Requiere la capacidad `manage_customers`.
+ * @param {UpdateCustomerPayload} payload - El ID del cliente y los campos a cambiar.
+ * @returns {Promise<Customer>} El cliente actualizado.
+ */
+export function updateCustomer(payload: UpdateCustomerPayload): Promise<Customer> {
+  return apiRequest(API_ENDPOINTS.updateCustomer, { method: 'POST', body: payload, schema: customerSchema });
+}
+
+// --- Proveedores ---
+
+/**
+ * Obtiene el historial de entradas de proveedores.
+ * @returns {Promise<SupplierRecord[]>} Las entradas registradas.
+ */
+export function getSupplierEntries(): Promise<SupplierRecord[]> {
+  return apiRequest(API_ENDPOINTS.getSupplierEntries, { schema: z.array(supplierRecordSchema) });
+}
+
+/**
+ * Registra una entrada de proveedor. No se reintenta para evitar sumar stock dos veces.
+ * @param {AddSupplierEntryPayload} payload - Los datos de la entrada.
+ * @returns {Promise<SupplierRecord>} La entrada guardada.
+ * @throws {ApiError} 409 si la orden de compra indicada ya se recibió o se anuló.
+ */
+export function addSupplierEntry(payload: AddSupplierEntryPayload): Promise<SupplierRecord> {
+  return apiRequest(API_ENDPOINTS.addSupplierEntry, { method: 'POST', body: payload, schema: supplierRecordSchema });
+}
+
+// --- Traspasos ---
+
+/**
+ * Obtiene los traspasos entre PDV.
+ * @param {StockTransfersParams} [params] - Filtros.
+ * @returns {Promise<StockTransfer[]>} Los traspasos, del más reciente al más antiguo.
+ */
+export function getStockTransfers(params: StockTransfersParams = {}): Promise<StockTransfer[]> {
+  const query = new URLSearchParams();
+  if (params.pointOfSale) query.set('pointOfSale', params.pointOfSale);
+  if (params.status) query.set('status', params.status);
+  const queryString = query.toString();
+  const endpoint = queryString ? `${API_ENDPOINTS.getStockTransfers}?${queryString}` : API_ENDPOINTS.getStockTransfers;
+  return apiRequest(endpoint, { schema: z.array(stockTransferSchema) });
+}
+
+/**
+ * Crea un traspaso en borrador, sin mover stock. Requiere la capacidad `transfer_stock` en el PDV de origen.
+ * @param {StockTransferPayload} payload - Origen, destino, líneas y notas.
+ * @returns {Promise<StockTransfer>} El traspaso creado.
+ * @throws {ApiError} 400 si origen y destino coinciden o un producto no existe en el origen.
+ */
+export function addStockTransfer(payload: StockTransferPayload): Promise<StockTransfer> {
+  return apiRequest(API_ENDPOINTS.addStockTransfer, { method: 'POST', body: payload, schema: stockTransferSchema });
+}
+
+/**
+ * Modifica o anula un traspaso en borrador. Requiere la capacidad `transfer_stock` en el PDV de origen.
+ * @param {UpdateStockTransferPayload} payload - El ID del traspaso y los campos a cambiar.
+ * @returns {Promise<StockTransfer>} El traspaso actualizado.
+ * @throws {ApiError} 409 si el traspaso ya fue despachado o anulado.
+ */
+export function updateStockTransfer(payload: UpdateStockTransferPayload): Promise<StockTransfer> {
+  return apiRequest(API_ENDPOINTS.updateStockTransfer, { method: 'POST', body: payload, schema: stockTransferSchema });
+}
+
+/**
+ * Despacha un traspaso: descuenta el stock del origen. No se reintenta para no descontar dos veces.
+ * @param {string} id - El ID del traspaso.
+ * @returns {Promise<StockTransfer>} El traspaso, ya en tránsito.
+ * @throws {ApiError} 409 si no está en borrador o el origen no tiene stock suficiente.
+ */
+export function dispatchStockTransfer(id: string): Promise<StockTransfer> {
+  return apiRequest(API_ENDPOINTS.dispatchStockTransfer, { method: 'POST', body: { id }, schema: stockTransferSchema });
+}
+
+/**
+ * Recibe un traspaso: suma el stock en el destino. No se reintenta para no sumar dos veces.
+ * @param {string} id - El ID del traspaso.
+ * @returns {Promise<StockTransfer>} El traspaso, ya recibido.
+ * @throws {ApiError} 409 si no está en tránsito.
+ */
+export function receiveStockTransfer(id: string): Promise<StockTransfer> {
+  return apiRequest(API_ENDPOINTS.receiveStockTransfer, { method: 'POST', body: { id }, schema: stockTransferSchema });
+}
+
+// --- Órdenes de compra ---
+
+/**
+ * Obtiene las órdenes de compra.
+ * @param {PurchaseOrdersParams} [params] - Filtros.
+ * @returns {Promise<PurchaseOrder[]>} Las órdenes, de la más reciente a la más antigua.
+ */
+export function getPurchaseOrders(params: PurchaseOrdersParams = {}): Promise<PurchaseOrder[]> {
+  const query = new URLSearchParams();
+  if (params.pointOfSale) query.set('pointOfSale', params.pointOfSale);
+  if (params.status) query.set('status', params.status);
+  const queryString = query.toString();
+  const endpoint = queryString ? `${API_ENDPOINTS.getPurchaseOrders}?${queryString}` : API_ENDPOINTS.getPurchaseOrders;
+  return apiRequest(endpoint, { schema: z.array(purchaseOrderSchema) });
+}
+
+/**
+ * Crea una orden de compra en borrador. Requiere la capacidad `manage_purchase_orders` en el PDV.
+ * @param {PurchaseOrderPayload} payload - Proveedor, PDV de entrega, líneas y notas.
+ * @returns {Promise<PurchaseOrder>} La orden creada.
+ * @throws {ApiError} 400 si falta el proveedor o una línea es inválida, 404 si un producto no existe.
+ */
+export function addPurchaseOrder(payload: PurchaseOrderPayload): Promise<PurchaseOrder> {
+  return apiRequest(API_ENDPOINTS.addPurchaseOrder, { method: 'POST', body: payload, schema: purchaseOrderSchema });
+}
+
+/**
+ * Modifica una orden de compra en borrador, o la marca como enviada o anulada. Requiere la capacidad
+ * `manage_purchase_orders` en el PDV.
+ * @param {UpdatePurchaseOrderPayload} payload - El ID de la orden y los campos a cambiar.
+ * @returns {Promise<PurchaseOrder>} La orden actualizada.
+ * @throws {ApiError} 409 si el cambio no es posible en el estado actual de la orden.
+ */
+export function updatePurchaseOrder(payload: UpdatePurchaseOrderPayload): Promise<PurchaseOrder> {
+  return apiRequest(API_ENDPOINTS.updatePurchaseOrder, { method: 'POST', body: payload, schema: purchaseOrderSchema });
+}
+
+// --- Conteos de stock ---
+
+/**
+ * Obtiene los conteos físicos de stock.
+ * @param {StockCountsParams} [params] - Filtros.
+ * @returns {Promise<StockCount[]>} Los conteos, del más reciente al más antiguo.
+ */
+export function getStockCounts(params: StockCountsParams = {}): Promise<StockCount[]> {
+  const query = new URLSearchParams();
+  if (params.pointOfSale) query.set('pointOfSale', params.pointOfSale);
+  if (params.status) query.set('status', params.status);
+  const queryString = query.toString();
+  const endpoint = queryString ? `${API_ENDPOINTS.getStockCounts}?${queryString}` : API_ENDPOINTS.getStockCounts;
+  return apiRequest(endpoint, { schema: z.array(stockCountSchema) });
+}
+
+/**
+ * Inicia un conteo con la cantidad actual del sistema como esperada. Requiere la capacidad `count_stock` en el PDV.
+ * @param {StockCountPayload} payload - PDV, marca opcional y notas.
+ * @returns {Promise<StockCount>} El conteo iniciado.
+ * @throws {ApiError} 400 si no hay productos que contar, 404 si la marca no existe en el PDV.
+ */
+export function addStockCount(payload: StockCountPayload): Promise<StockCount> {
+  return apiRequest(API_ENDPOINTS.addStockCount, { method: 'POST', body: payload, schema: stockCountSchema });
+}
+
+/**
+ * Guarda cantidades contadas o notas de un conteo abierto, o lo anula. Requiere la capacidad `count_stock`
+ * (`post_stock_counts` para anular) en el PDV.
+ * @param {UpdateStockCountPayload} payload - El ID del conteo y los campos a cambiar.
+ * @returns {Promise<StockCount>} El conteo actualizado.
+ * @throws {ApiError} 400 si un producto no forma parte del conteo, 409 si el conteo ya no está abierto.
+ */
+export function updateStockCount(payload: UpdateStockCountPayload): Promise<StockCount> {
+  return apiRequest(API_ENDPOINTS.updateStockCount, { method: 'POST', body: payload, schema: stockCountSchema });
+}
+
+/**
+ * Contabiliza un conteo: ajusta el stock por las diferencias. No se reintenta para no ajustar dos veces.
+ * Requiere la capacidad `post_stock_counts` en el PDV.
+ * @param {string} id - El ID del conteo.
+ * @param {string} reason - El motivo de los ajustes.
+ * @returns {Promise<StockCount>} El conteo contabilizado, con el ajuste aplicado en cada línea.
+ * @throws {ApiError} 400 sin motivo o sin líneas contadas, 409 si el conteo ya no está abierto.
+ */
+export function postStockCount(id: string, reason: string): Promise<StockCount> {
+  return apiRequest(API_ENDPOINTS.postStockCount, { method: 'POST', body: { id, reason }, schema: stockCountSchema });
+}
+
+// --- Ajustes de stock ---
+
+/**
+ * Obtiene los ajustes manuales de stock.
+ * @param {StockAdjustmentsParams} [params] - Filtros.
+ * @returns {Promise<StockAdjustment[]>} Los ajustes, del más reciente al más antiguo.
+ */
+export function getStockAdjustments(params: StockAdjustmentsParams = {}): Promise<StockAdjustment[]> {
+  const query = new URLSearchParams();
+  if (params.from) query.set('from', serializeDateTime(params.from));
+  if (params.to) query.set('to', serializeDateTime(params.to));
+  if (params.pointOfSale) query.set('pointOfSale', params.pointOfSale);
+  if (params.reason) query.set('reason', params.reason);
+  const queryString = query.toString();
+  const endpoint = queryString ? `${API_ENDPOINTS.getStockAdjustments}?${queryString}` : API_ENDPOINTS.getStockAdjustments;
+  return apiRequest(endpoint, { schema: z.array(stockAdjustmentSchema) });
+}
+
+/**
+ * Registra un ajuste de stock con su motivo. No se reintenta para no ajustar dos veces.
+ * Requiere la capacidad `adjust_stock` en el PDV.
+ * @param {StockAdjustmentPayload} payload - El PDV, el producto, la cantidad con signo y el motivo.
+ * @returns {Promise<StockAdjustment>} El ajuste registrado, con el stock antes y después.
+ * @throws {ApiError} 404 si el producto no existe en el PDV, 409 si el stock quedaría negativo.
+ */
+export function addStockAdjustment(payload: StockAdjustmentPayload): Promise<StockAdjustment> {
+  return apiRequest(API_ENDPOINTS.addStockAdjustment, { method: 'POST', body: payload, schema: stockAdjustmentSchema });
+}
+
+// --- Sesión ---
+
+/**
+ * Inicia sesión. El backend guarda el token en una cookie httpOnly; aquí solo se recibe el usuario.
+ * No se reintenta para no sumar intentos fallidos de más.
+ * @param {string} username - El nombre de usuario.
+ * @param {string} password - La contraseña.
+ * @returns {Promise<SessionInfo>} El usuario y la caducidad de la sesión.
+ * @throws {ApiError} 401 si las credenciales no son válidas, 403 si la cuenta está desactivada, 423 si está bloqueada.
+ */
+export function login(username: string, password: string): Promise<SessionInfo> {
+  return apiRequest(API_ENDPOINTS.login, { method: 'POST', body: { username, password }, schema: sessionInfoSchema });
+}
+
+/**
+ * Cierra la sesión actual y borra la cookie.
+ * @returns {Promise<void>} Una promesa que se resuelve cuando el backend confirma el cierre.
+ */
+export async function logout(): Promise<void> {
+  await apiRequest(API_ENDPOINTS.logout, { method: 'POST', schema: successResultSchema });
+}
+
+/**
+ * Obtiene la sesión de la cookie actual y registra actividad en el backend (reinicia el plazo de inactividad).
+ * @returns {Promise<SessionInfo>} El usuario y la caducidad, o ambos null si no hay sesión.
+ */
+export function getSession(): Promise<SessionInfo> {
+  return apiRequest(API_ENDPOINTS.getSession, { schema: sessionInfoSchema });
+}
+
+// --- Usuarios ---
+
+/**
+ * Obtiene todos los usuarios con su estado y último acceso. Requiere la capacidad `manage_users`.
+ * @returns {Promise<ManagedUser[]>} Los usuarios, ordenados por nombre.
+ */
+export function getUsers(): Promise<ManagedUser[]> {
+  return apiRequest(API_ENDPOINTS.getUsers, { schema: z.array(managedUserSchema) });
+}
+
+/**
+ * Crea un usuario.
+ * @param {AddUserPayload} payload - Los datos del usuario y su contraseña inicial.
+ * @returns {Promise<ManagedUser>} El usuario creado.
+ * @throws {ApiError} 409 si el nombre de usuario ya existe.
+ */
+export function addUser(payload: AddUserPayload): Promise<ManagedUser> {
+  return apiRequest(API_ENDPOINTS.addUser, { method: 'POST', body: payload, schema: managedUserSchema });
+}
+
+/**
+ * Actualiza el nombre, el rol, los PDV o el estado de un usuario. Desactivarlo cierra sus sesiones.
+ * @param {UpdateUserPayload} payload - El ID del usuario y los campos a cambiar.
+ * @returns {Promise<ManagedUser>} El usuario actualizado.
+ */
+export function updateUser(payload: UpdateUserPayload): Promise<ManagedUser> {
+  return apiRequest(API_ENDPOINTS.updateUser, { method: 'POST', body: payload, schema: managedUserSchema });
+}
+
+/**
+ * Asigna una contraseña nueva a un usuario, lo desbloquea y cierra sus sesiones.
+ * @param {string} id - El ID del usuario.
+ * @param {string} password - La contraseña nueva.
+ * @returns {Promise<ManagedUser>} El usuario actualizado.
+ */
+export function resetUserPassword(id: string, password: string): Promise<ManagedUser> {
+  return apiRequest(API_ENDPOINTS.resetUserPassword, { method: 'POST', body: { id, password }, schema: managedUserSchema });
+}
+
+// --- Auditoría ---
+
+/**
+ * Obtiene el registro de auditoría filtrado. Requiere la capacidad `view_audit`.
+ * @param {AuditLogParams} [params] - Filtros.
+ * @returns {Promise<AuditEntry[]>} Las entradas, de la más reciente a la más antigua.
+ */
+export function getAuditLog(params: AuditLogParams = {}): Promise<AuditEntry[]> {
+  const query = new URLSearchParams();
+  if (params.from) query.set('from', serializeDateTime(params.from));
+  if (params.to) query.set('to', serializeDateTime(params.to));
+  if (params.pointOfSale) query.set('pointOfSale', params.pointOfSale);
+  if (params.action) query.set('action', params.action);
+  const queryString = query.toString();
+  const endpoint = queryString ? `${API_ENDPOINTS.getAuditLog}?${queryString}` : API_ENDPOINTS.getAuditLog;
+  return apiRequest(endpoint, { schema: z.array(auditEntrySchema) });
+}
+
+/**
+ * Registra en el registro de auditoría una acción hecha en el cliente. No se reintenta para no duplicar entradas.
+ * @param {RecordAuditEventPayload} payload - La acción, la entidad y los valores antes y después.
+ * @returns {Promise<AuditEntry>} La entrada guardada.
+ */
+export function recordAuditEvent(payload: RecordAuditEventPayload): Promise<AuditEntry> {
+  return apiRequest(API_ENDPOINTS.recordAuditEvent, { method: 'POST', body: payload, schema: auditEntrySchema });
+}
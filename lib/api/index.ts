@@ -0,0 +1,4 @@
+// Punto de entrada del cliente de API tipado. Las páginas y hooks deben importar desde '@/lib/api'.
+export { ApiError, type ApiErrorKind } from './client';
+export * from './endpoints';
+export * from './schemas';
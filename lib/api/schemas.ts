@@ -0,0 +1,61 @@
+import * as z from 'zod';
+import { dateTimeSchema, saleRecordSchema, userSchema } from '@/lib/domain';
+
+// --- Esquemas zod de las respuestas propias de la API ---
+// Los esquemas de las entidades (Product, Inventory, SaleRecord, SupplierRecord) viven en '@/lib/domain'.
+
+/** Esquema de la respuesta de `update_product_quantity.php`. */
+export const productQuantityResultSchema = z.object({
+  pointOfSale: z.string(),
+  barcode: z.string(),
+  quantity: z.number(),
+});
+
+/** Esquema de la respuesta de `update_product_price.php`. */
+export const productPriceResultSchema = z.object({
+  pointOfSale: z.string(),
+  barcode: z.string(),
+  price: z.number(),
+});
+
+/** Esquema de la respuesta de `update_low_stock_threshold.php`. */
+export const lowStockThresholdResultSchema = z.object({
+  pointOfSale: z.string(),
+  products: z.array(z.object({
+    barcode: z.string(),
+    lowStockThreshold: z.number().nullable(),
+  })),
+});
+
+/** Esquema de una página de `get_sales_history.php` y `get_wholesale_sales_history.php`. */
+export const salesHistoryPageSchema = z.object({
+  items: z.array(saleRecordSchema),
+  nextCursor: z.string().nullable(),
+});
+
+/** Esquema de la respuesta de `record_mixed_sale.php`: las dos ventas de un carrito mixto. */
+export const mixedSaleResultSchema = z.object({
+  retail: saleRecordSchema,
+  wholesale: saleRecordSchema,
+});
+
+/**
+ * Esquema de la respuesta de `login.php` y `session.php`.
+ * `user` y `expiresAt` son null cuando no hay sesión (o ha caducado por inactividad).
+ */
+export const sessionInfoSchema = z.object({
+  user: userSchema.nullable(),
+  expiresAt: dateTimeSchema.nullable(),
+});
+
+/** Esquema de las respuestas que solo confirman la operación (p. ej., `logout.php`). */
+export const successResultSchema = z.object({
+  success: z.boolean(),
+});
+
+export type ProductQuantityResult = z.infer<typeof productQuantityResultSchema>;
+export type ProductPriceResult = z.infer<typeof productPriceResultSchema>;
+export type LowStockThresholdResult = z.infer<typeof lowStockThresholdResultSchema>;
+export type SalesHistoryPage = z.infer<typeof salesHistoryPageSchema>;
+export type MixedSaleResult = z.infer<typeof mixedSaleResultSchema>;
+export type SessionInfo = z.infer<typeof sessionInfoSchema>;
@@ -0,0 +1,161 @@
+import * as z from 'zod';
+import { dateTimeSchema } from './dates';
+import type { Capability } from './permissions';
+
+// --- Registro de auditoría ---
+// Cada mutación de stock, precios, ventas, facturas o ajustes de caja deja una entrada con quién la hizo,
+// cuándo, en qué PDV, sobre qué entidad y los valores antes y después. El registro solo admite añadir entradas.
+
+/** Esquema de las acciones auditadas. */
+export const auditActionSchema = z.enum([
+  'sale.record',
+  'wholesale_sale.record',
+  'sale_return.record',
+  'supplier_entry.record',
+  'stock_transfer.create',
+  'stock_transfer.update',
+  'stock_transfer.dispatch',
+  'stock_transfer.receive',
+  'purchase_order.create',
+  'purchase_order.update',
+  'purchase_order.receive',
+  'stock_count.create',
+  'stock_count.update',
+  'stock_count.post',
+  'stock_adjustment.create',
+  'product.add',
+  'product.restock',
+  'product.quantity_adjust',
+  'product.price_update',
+  'product.threshold_update',
+  'promotion.create',
+  'promotion.update',
+  'customer.create',
+  'customer.update',
+  'invoice.create',
+  'invoice.update',
+  'caja_settings.update',
+]);
+
+export type AuditAction = z.infer<typeof auditActionSchema>;
+
+/** Esquema de los tipos de entidad auditados. */
+export const auditEntityTypeSchema = z.enum(['product', 'sale', 'wholesale_sale', 'sale_return', 'supplier_entry', 'stock_transfer', 'purchase_order', 'stock_count', 'stock_adjustment', 'promotion', 'customer', 'invoice', 'caja_settings']);
+
+export type AuditEntityType = z.infer<typeof auditEntityTypeSchema>;
+
+/**
+ * Esquema de una entrada del registro de auditoría. La salida convierte `dateTime` en `Date`.
+ * `entityId` es el código de barras (productos), el ID de la venta, devolución, entrada, traspaso, orden de compra, conteo, ajuste de stock, promoción, cliente o factura, o la clave de los ajustes.
+ * `before` es null cuando la acción crea la entidad.
+ */
+export const auditEntrySchema = z.object({
+  id: z.string(),
+  dateTime: dateTimeSchema,
+  userId: z.string().nullable(),
+  userName: z.string().nullable(),
+  pointOfSale: z.string().nullable(),
+  entityType: auditEntityTypeSchema,
+  entityId: z.string(),
+  action: auditActionSchema,
+  before: z.unknown(),
+  after: z.unknown(),
+});
+
+/** Una entrada del registro de auditoría, con `dateTime` como `Date`. */
+export type AuditEntry = z.output<typeof auditEntrySchema>;
+
+/** Una entrada del registro de auditoría tal como viaja en JSON. */
+export type SerializedAuditEntry = z.input<typeof auditEntrySchema>;
+
+/** Tipo de entidad sobre el que actúa cada acción. */
+export const AUDIT_ACTION_ENTITY_TYPES: Record<AuditAction, AuditEntityType> = {
+  'sale.record': 'sale',
+  'wholesale_sale.record': 'wholesale_sale',
+  'sale_return.record': 'sale_return',
+  'supplier_entry.record': 'supplier_entry',
+  'stock_transfer.create': 'stock_transfer',
+  'stock_transfer.update': 'stock_transfer',
+  'stock_transfer.dispatch': 'stock_transfer',
+  'stock_transfer.receive': 'stock_transfer',
+  'purchase_order.create': 'purchase_order',
+  'purchase_order.update': 'purchase_order',
+  'purchase_order.receive': 'purchase_order',
+  'stock_count.create': 'stock_count',
+  'stock_count.update': 'stock_count',
+  'stock_count.post': 'stock_count',
+  'stock_adjustment.create': 'stock_adjustment',
+  'product.add': 'product',
+  'product.restock': 'product',
+  'product.quantity_adjust': 'product',
+  'product.price_update': 'product',
+  'product.threshold_update': 'product',
+  'promotion.create': 'promotion',
+  'promotion.update': 'promotion',
+  'customer.create': 'customer',
+  'customer.update': 'customer',
+  'invoice.create': 'invoice',
+  'invoice.update': 'invoice',
+  'caja_settings.update': 'caja_settings',
+};
+
+/**
+ * Acciones que registra el cliente con `record_audit_event.php` (las facturas y los ajustes de caja
+ * se guardan en el navegador), con la capacidad que exige cada una. El resto las registra el backend.
+ */
+export const CLIENT_AUDIT_ACTION_CAPABILITIES: Partial<Record<AuditAction, Capability>> = {
+  'invoice.create': 'manage_invoices',
+  'invoice.update': 'manage_invoices',
+  'caja_settings.update': 'view_caja',
+};
+
+/**
+ * Esquema del cuerpo de `record_audit_event.php`. `before` y `after` son los datos tal como los guarda el cliente;
+ * `before` puede faltar cuando la acción crea la entidad.
+ */
+export const clientAuditEventSchema = z.object({
+  action: auditActionSchema,
+  entityId: z.string().trim().min(1),
+  pointOfSale: z.string().trim().nullish(),
+  before: z.unknown(),
+  after: z.unknown().refine(value => value !== undefined),
+});
+
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'sale.record': 'Venta',
+  'wholesale_sale.record': 'Venta por mayor',
+  'sale_return.record': 'Devolución',
+  'supplier_entry.record': 'Entrada de proveedor',
+  'stock_transfer.create': 'Alta de traspaso',
+  'stock_transfer.update': 'Edición de traspaso',
+  'stock_transfer.dispatch': 'Despacho de traspaso',
+  'stock_transfer.receive': 'Recepción de traspaso',
+  'purchase_order.create': 'Alta de orden de compra',
+  'purchase_order.update': 'Edición de orden de compra',
+  'purchase_order.receive': 'Recepción de orden de compra',
+  'stock_count.create': 'Inicio de conteo',
+  'stock_count.update': 'Carga de conteo',
+  'stock_count.post': 'Contabilización de conteo',
+  'stock_adjustment.create': 'Ajuste de stock',
+  'product.add': 'Alta de producto',
+  'product.restock': 'Reposición de producto',
+  'product.quantity_adjust': 'Ajuste de cantidad',
+  'product.price_update': 'Cambio de precio',
+  'product.threshold_update': 'Cambio de umbral de bajo stock',
+  'promotion.create': 'Alta de promoción',
+  'promotion.update': 'Edición de promoción',
+  'customer.create': 'Alta de cliente',
+  'customer.update': 'Edición de cliente',
+  'invoice.create': 'Registro de factura',
+  'invoice.update': 'Edición de factura',
+  'caja_settings.update': 'Ajustes de caja',
+};
+
+/**
+ * Obtiene la etiqueta en español de una acción auditada.
+ * @param {AuditAction} action - La acción.
+ * @returns {string} La etiqueta de la acción.
+ */
+export function getAuditActionLabel(action: AuditAction): string {
+  return AUDIT_ACTION_LABELS[action];
+}
@@ -0,0 +1,90 @@
+import * as z from 'zod';
+
+// --- Clientes ---
+// Directorio de clientes (sobre todo mayoristas) que se asocian a las ventas: datos de contacto, ID fiscal
+// para los recibos e historial de compras.
+
+// --- Esquemas ---
+
+/**
+ * Esquema de un cliente tal como lo devuelve el backend. Los datos de contacto que no se conocen son ''.
+ * `taxId` es el identificador fiscal que se imprime en los recibos.
+ */
+export const customerSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  taxId: z.string(),
+  phone: z.string(),
+  email: z.string(),
+  address: z.string(),
+  notes: z.string(),
+});
+
+/**
+ * Esquema del cliente guardado en una venta: una copia de su nombre e ID fiscal en el momento de la venta,
+ * para que el recibo no cambie si luego se editan los datos del cliente.
+ */
+export const saleCustomerSchema = customerSchema.pick({ id: true, name: true, taxId: true });
+
+/** Esquema del formulario de alta y edición de clientes. */
+export const customerFormSchema = z.object({
+  name: z.string().trim().min(1, "El nombre es requerido."),
+  taxId: z.string().trim(),
+  phone: z.string().trim(),
+  email: z.union([z.literal(''), z.string().trim().email("El correo electrónico no es válido.")]),
+  address: z.string().trim(),
+  notes: z.string().trim(),
+});
+
+/**
+ * Esquema del cuerpo de `add_customer.php` (y, con todos los campos opcionales, de `update_customer.php`).
+ * Los textos que no llegan quedan vacíos.
+ */
+export const customerPayloadSchema = z.object({
+  name: z.string().trim().min(1, "Falta el campo requerido: name."),
+  taxId: z.string().trim().optional(),
+  phone: z.string().trim().optional(),
+  email: z.string().trim().optional(),
+  address: z.string().trim().optional(),
+  notes: z.string().trim().optional(),
+});
+
+// --- Tipos ---
+
+/** Un cliente del directorio. */
+export type Customer = z.infer<typeof customerSchema>;
+
+/** El cliente de una venta, tal como quedó en el registro. */
+export type SaleCustomer = z.infer<typeof saleCustomerSchema>;
+
+/** Valores del formulario de cliente. */
+export type CustomerFormValues = z.infer<typeof customerFormSchema>;
+
+/** Datos de un cliente tal como llegan a la API. */
+export type CustomerPayload = z.infer<typeof customerPayloadSchema>;
+
+// --- Utilidades ---
+
+/**
+ * Normaliza un texto para buscar sin distinguir mayúsculas ni tildes.
+ * @param {string} value - El texto.
+ * @returns {string} El texto en minúsculas y sin diacríticos.
+ */
+function normalizeSearchText(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+/**
+ * Indica si un cliente coincide con una búsqueda por nombre, ID fiscal, teléfono o correo.
+ * @param {Customer} customer - El cliente.
+ * @param {string} query - El texto buscado; vacío coincide con todos.
+ * @returns {boolean} Verdadero si algún campo contiene el texto buscado.
+ */
+export function matchesCustomerSearch(customer: Customer, query: string): boolean {
+  const normalizedQuery = normalizeSearchText(query);
+  if (!normalizedQuery) {
+    return true;
+  }
+  return [customer.name, customer.taxId, customer.phone, customer.email]
+    .some(field => normalizeSearchText(field).includes(normalizedQuery));
+}
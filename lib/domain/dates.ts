@@ -0,0 +1,37 @@
+import * as z from 'zod';
+
+/**
+ * Convierte una fecha serializada (cadena ISO 8601 o 'YYYY-MM-DD HH:mm:ss' de MySQL) en `Date`.
+ * @param {string | Date} value - La fecha serializada o ya convertida.
+ * @returns {Date} La fecha; puede ser inválida si la cadena no es una fecha reconocible.
+ */
+export function parseDateTime(value: string | Date): Date {
+  if (value instanceof Date) {
+    return value;
+  }
+  // Los scripts PHP devuelven 'YYYY-MM-DD HH:mm:ss'; Safari no lo acepta sin la 'T'.
+  const normalized = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/.test(value) ? value.replace(' ', 'T') : value;
+  return new Date(normalized);
+}
+
+/**
+ * Serializa una fecha como cadena ISO 8601 para enviarla al backend o guardarla en localStorage.
+ * @param {Date | string} value - La fecha (o una cadena ya serializada, que se devuelve sin cambios).
+ * @returns {string} La fecha en formato ISO 8601.
+ */
+export function serializeDateTime(value: Date | string): string {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * Esquema zod que acepta una fecha serializada como cadena y la convierte en `Date`,
+ * rechazando cadenas que no representen una fecha válida.
+ */
+export const dateTimeSchema = z.string().transform((value, ctx) => {
+  const date = parseDateTime(value);
+  if (Number.isNaN(date.getTime())) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Fecha inválida: ${value}` });
+    return z.NEVER;
+  }
+  return date;
+});
@@ -0,0 +1,259 @@
+import * as z from 'zod';
+import { dateTimeSchema } from './dates';
+import type { Role } from './permissions';
+import { getLinePromotionTotal } from './promotions';
+import { credentialsSchema } from './users';
+
+// --- Descuentos ---
+// Un descuento se aplica a una línea de venta (sobre su subtotal menos sus promociones) o al carrito (sobre el total de las líneas ya
+// descontadas), en porcentaje o como importe fijo, siempre con un motivo. Cada rol puede aplicar por sí mismo
+// hasta un porcentaje máximo; por encima, la venta necesita la aprobación de un encargado (`approve_discount.php`).
+
+/** Tipos de descuento: porcentaje o importe fijo. */
+export const discountTypeSchema = z.enum(['percent', 'fixed']);
+
+/** Motivos de descuento. */
+export const discountReasonSchema = z.enum(['damaged_product', 'loyal_customer', 'price_match', 'employee', 'courtesy', 'other']);
+
+/**
+ * Esquema de un descuento aplicado. `value` es el porcentaje (0-100) o el importe fijo tal como se ingresó;
+ * `amount` es el importe descontado, calculado por el backend.
+ */
+export const saleDiscountSchema = z.object({
+  type: discountTypeSchema,
+  value: z.number(),
+  reason: discountReasonSchema,
+  amount: z.number(),
+});
+
+/** Esquema de un descuento en el formulario de venta (el importe se calcula a partir de `type` y `value`). */
+export const discountFormSchema = z.object({
+  type: discountTypeSchema,
+  value: z.coerce.number().nonnegative("El descuento no puede ser negativo."),
+  reason: discountReasonSchema,
+});
+
+/**
+ * Esquema de un descuento sin calcular, tal como llega en el cuerpo de una venta. Un valor de 0 equivale
+ * a no tener descuento.
+ */
+export const discountPayloadSchema = discountFormSchema.refine(
+  discount => discount.type !== 'percent' || discount.value <= 100,
+  { message: "Un descuento porcentual no puede superar el 100%.", path: ['value'] }
+);
+
+/** Esquema del cuerpo de `approve_discount.php`: las credenciales del encargado, el PDV y el porcentaje a cubrir. */
+export const discountApprovalRequestSchema = credentialsSchema.extend({
+  pointOfSale: z.string().trim().min(1),
+  discountPercent: z.coerce.number().positive().max(100),
+});
+
+/** Esquema de la aprobación de un descuento por un encargado, válida para una sola venta del PDV. */
+export const discountApprovalSchema = z.object({
+  id: z.string(),
+  approverId: z.string(),
+  approverName: z.string(),
+  pointOfSale: z.string(),
+  /** Porcentaje máximo de descuento que cubre la aprobación. */
+  maxPercent: z.number(),
+  expiresAt: dateTimeSchema,
+});
+
+export type DiscountType = z.infer<typeof discountTypeSchema>;
+export type DiscountReason = z.infer<typeof discountReasonSchema>;
+export type SaleDiscount = z.infer<typeof saleDiscountSchema>;
+export type DiscountFormValues = z.infer<typeof discountFormSchema>;
+export type DiscountApproval = z.output<typeof discountApprovalSchema>;
+export type SerializedDiscountApproval = z.input<typeof discountApprovalSchema>;
+
+/**
+ * Porcentaje máximo de descuento que cada rol puede aplicar sin aprobación. Los roles con la capacidad
+ * `approve_discounts` pueden aprobar descuentos de otros hasta este mismo porcentaje.
+ */
+export const ROLE_MAX_DISCOUNT_PERCENT: Record<Role, number> = {
+  cashier: 10,
+  stock_clerk: 0,
+  manager: 30,
+  accountant: 0,
+  owner: 100,
+};
+
+/** Minutos de validez de una aprobación de descuento. */
+export const DISCOUNT_APPROVAL_TTL_MINUTES = 10;
+
+/** Margen al comparar porcentajes de descuento calculados con los máximos. */
+export const DISCOUNT_PERCENT_TOLERANCE = 0.000001;
+
+const DISCOUNT_REASON_LABELS: Record<DiscountReason, string> = {
+  damaged_product: 'Producto dañado',
+  loyal_customer: 'Cliente frecuente',
+  price_match: 'Igualar precio',
+  employee: 'Empleado',
+  courtesy: 'Cortesía',
+  other: 'Otro',
+};
+
+/**
+ * Obtiene la etiqueta en español de un motivo de descuento.
+ * @param {DiscountReason} reason - El motivo.
+ * @returns {string} La etiqueta del motivo.
+ */
+export function getDiscountReasonLabel(reason: DiscountReason): string {
+  return DISCOUNT_REASON_LABELS[reason];
+}
+
+/**
+ * Describe un descuento para recibos y tablas.
+ * @param {{ type: DiscountType; value: number; reason: DiscountReason }} discount - El descuento.
+ * @returns {string} P. ej. '10% (Cliente frecuente)' o '$500.000 (Producto dañado)'.
+ */
+export function formatDiscount(discount: { type: DiscountType; value: number; reason: DiscountReason }): string {
+  const value = discount.type === 'percent' ? `${discount.value}%` : `$${discount.value.toFixed(3)}`;
+  return `${value} (${getDiscountReasonLabel(discount.reason)})`;
+}
+
+/**
+ * Calcula el importe de un descuento sobre una base, sin superar la base ni bajar de cero.
+ * @param {{ type: DiscountType; value: number } | null | undefined} discount - El descuento, o nada.
+ * @param {number} base - El importe sobre el que se aplica.
+ * @returns {number} El importe descontado.
+ */
+export function computeDiscountAmount(discount: { type: DiscountType; value: number } | null | undefined, base: number): number {
+  if (!discount || base <= 0) {
+    return 0;
+  }
+  const value = Number(discount.value) || 0;
+  const amount = discount.type === 'percent' ? base * Math.min(value, 100) / 100 : value;
+  return Math.min(Math.max(amount, 0), base);
+}
+
+/**
+ * Importe de una línea sobre el que se aplica su descuento: precio por cantidad menos sus promociones.
+ * @param {{ price: number; quantity: number; promotions?: { amount: number }[] | null }} item - La línea.
+ * @returns {number} El importe descontable de la línea.
+ */
+export function getDiscountableLineAmount(item: { price: number; quantity: number; promotions?: { amount: number }[] | null }): number {
+  return Math.max((item.price || 0) * (item.quantity || 0) - getLinePromotionTotal(item), 0);
+}
+
+/**
+ * Totales de una venta con promociones y descuentos.
+ * @interface SaleTotals
+ */
+export interface SaleTotals {
+  /** Suma de precio por cantidad de todas las líneas, sin descuentos. */
+  subtotal: number;
+  /** Suma de lo que descuentan las promociones. */
+  promotionTotal: number;
+  /** Suma de los descuentos de línea. */
+  lineDiscountTotal: number;
+  /** Importe del descuento del carrito. */
+  cartDiscountAmount: number;
+  /** Total a cobrar. */
+  total: number;
+  /**
+   * Mayor porcentaje de descuento manual aplicado: el de cualquier línea, el del carrito o el total sobre el subtotal
+   * con promociones. Las promociones no cuentan: no necesitan aprobación.
+   */
+  maxDiscountPercent: number;
+}
+
+/**
+ * Calcula los totales de una venta aplicando las promociones de cada línea, sus descuentos y, después, el del carrito.
+ * @param {{ price: number; quantity: number; promotions?: { amount: number }[] | null; discount?: { type: DiscountType; value: number } | null }[]} items - Las líneas.
+ * @param {{ type: DiscountType; value: number } | null | undefined} cartDiscount - El descuento del carrito.
+ * @returns {SaleTotals} Subtotal, descuentos, total y porcentaje máximo de descuento.
+ */
+export function calculateSaleTotals(
+  items: { price: number; quantity: number; promotions?: { amount: number }[] | null; discount?: { type: DiscountType; value: number } | null }[],
+  cartDiscount: { type: DiscountType; value: number } | null | undefined
+): SaleTotals {
+  let subtotal = 0;
+  let promotionTotal = 0;
+  let lineDiscountTotal = 0;
+  let maxDiscountPercent = 0;
+  items.forEach(item => {
+    const lineAmount = getDiscountableLineAmount(item);
+    const lineDiscount = computeDiscountAmount(item.discount, lineAmount);
+    subtotal += (item.price || 0) * (item.quantity || 0);
+    promotionTotal += getLinePromotionTotal(item);
+    lineDiscountTotal += lineDiscount;
+    if (lineAmount > 0) {
+      maxDiscountPercent = Math.max(maxDiscountPercent, lineDiscount / lineAmount * 100);
+    }
+  });
+  const afterPromotions = subtotal - promotionTotal;
+  const afterLineDiscounts = afterPromotions - lineDiscountTotal;
+  const cartDiscountAmount = computeDiscountAmount(cartDiscount, afterLineDiscounts);
+  if (afterLineDiscounts > 0) {
+    maxDiscountPercent = Math.max(maxDiscountPercent, cartDiscountAmount / afterLineDiscounts * 100);
+  }
+  if (afterPromotions > 0) {
+    maxDiscountPercent = Math.max(maxDiscountPercent, (lineDiscountTotal + cartDiscountAmount) / afterPromotions * 100);
+  }
+  return {
+    subtotal,
+    promotionTotal,
+    lineDiscountTotal,
+    cartDiscountAmount,
+    total: afterLineDiscounts - cartDiscountAmount,
+    maxDiscountPercent,
+  };
+}
+
+/**
+ * Reparte el descuento del carrito entre las ventas en que se divide un carrito (p. ej., una minorista y una mayorista):
+ * un porcentaje se aplica igual en cada venta y un importe fijo se reparte en proporción al importe de cada una.
+ * @template T
+ * @param {T | null | undefined} cartDiscount - El descuento del carrito.
+ * @param {number[]} baseAmounts - El importe de cada venta tras los descuentos de línea.
+ * @returns {(T | null)[]} El descuento de cada venta, en el mismo orden (null si no hay descuento o la venta no suma nada).
+ */
+export function splitCartDiscount<T extends { type: DiscountType; value: number }>(cartDiscount: T | null | undefined, baseAmounts: number[]): (T | null)[] {
+  const totalBase = baseAmounts.reduce((sum, base) => sum + base, 0);
+  return baseAmounts.map(base => {
+    if (!cartDiscount || base <= 0) {
+      return null;
+    }
+    return cartDiscount.type === 'percent' ? cartDiscount : { ...cartDiscount, value: cartDiscount.value * base / totalBase };
+  });
+}
+
+/**
+ * Indica si un porcentaje de descuento supera el máximo que el rol puede aplicar sin aprobación.
+ * @param {Role | null | undefined} role - El rol del vendedor; sin rol conocido, cualquier descuento requiere aprobación.
+ * @param {number} discountPercent - El mayor porcentaje descontado en la venta (ver `calculateSaleTotals`).
+ * @returns {boolean} Verdadero si la venta necesita la aprobación de un encargado.
+ */
+export function requiresDiscountApproval(role: Role | null | undefined, discountPercent: number): boolean {
+  const limit = role ? ROLE_MAX_DISCOUNT_PERCENT[role] : 0;
+  return discountPercent > limit + DISCOUNT_PERCENT_TOLERANCE;
+}
+
+/**
+ * Indica si una aprobación sigue vigente y cubre un descuento en un PDV.
+ * @param {{ pointOfSale: string; maxPercent: number; expiresAt: Date | string }} approval - La aprobación.
+ * @param {string} pointOfSale - El PDV de la venta.
+ * @param {number} discountPercent - El mayor porcentaje descontado en la venta.
+ * @param {Date} [now] - El momento de la comprobación.
+ * @returns {boolean} Verdadero si la aprobación sirve para la venta.
+ */
+export function approvalCoversDiscount(
+  approval: { pointOfSale: string; maxPercent: number; expiresAt: Date | string },
+  pointOfSale: string,
+  discountPercent: number,
+  now: Date = new Date()
+): boolean {
+  return approval.pointOfSale === pointOfSale
+    && new Date(approval.expiresAt).getTime() > now.getTime()
+    && discountPercent <= approval.maxPercent + DISCOUNT_PERCENT_TOLERANCE;
+}
+
+/**
+ * Suma lo descontado en una venta registrada: los descuentos de línea y el del carrito.
+ * @param {{ items: { discount?: { amount: number } | null }[]; cartDiscount?: { amount: number } | null }} sale - La venta.
+ * @returns {number} El importe total descontado (0 si la venta no tiene descuentos).
+ */
+export function getSaleDiscountTotal(sale: { items: { discount?: { amount: number } | null }[]; cartDiscount?: { amount: number } | null }): number {
+  return sale.items.reduce((sum, item) => sum + (item.discount?.amount ?? 0), 0) + (sale.cartDiscount?.amount ?? 0);
+}
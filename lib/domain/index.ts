@@ -0,0 +1,20 @@
+// Tipos canónicos del dominio, esquemas zod y (de)serialización de fechas.
+// Páginas, hooks, cliente de API y backend local importan desde '@/lib/domain' para que
+// un cambio en el esquema del backend se detecte en tiempo de compilación en todos los usos.
+export * from './dates';
+export * from './inventory';
+export * from './sales';
+export * from './promotions';
+export * from './customers';
+export * from './discounts';
+export * from './returns';
+export * from './suppliers';
+export * from './transfers';
+export * from './purchaseOrders';
+export * from './reorder';
+export * from './stockCounts';
+export * from './stockAdjustments';
+export * from './invoices';
+export * from './permissions';
+export * from './users';
+export * from './audit';
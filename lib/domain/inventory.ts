@@ -0,0 +1,241 @@
+import * as z from 'zod';
+
+// --- Esquemas ---
+
+/**
+ * Cadena opcional que el backend puede enviar como `null`; se normaliza a `undefined`.
+ */
+const optionalString = z.string().nullish().transform(value => value ?? undefined);
+
+/** Esquema de un tramo de precio por volumen: desde `minQuantity` unidades, cada una cuesta `price`. */
+export const priceTierSchema = z.object({
+  minQuantity: z.number(),
+  price: z.number(),
+});
+
+/** Esquema de un producto del inventario, tal como lo devuelve `get_inventory.php`. */
+export const productSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  quantity: z.number(),
+  barcode: z.string(),
+  imageUrl: z.string(),
+  price: z.number(),
+  brand: z.string(),
+  description: optionalString,
+  'data-ai-hint': optionalString,
+  priceTiers: z.array(priceTierSchema).nullish().transform(value => value ?? undefined),
+  lowStockThreshold: z.number().nullish(),
+});
+
+/** Esquema del inventario completo: `{ [pdv]: { [marca]: Product[] } }`. */
+export const inventorySchema = z.record(z.string(), z.record(z.string(), z.array(productSchema)));
+
+/** Esquema del cuerpo de `add_product.php`: el PDV y el producto sin ID. Sin imagen, se usa un marcador de posición. */
+export const newProductPayloadSchema = z.object({
+  pointOfSale: z.string().trim().min(1),
+  product: productSchema.omit({ id: true }).extend({
+    barcode: z.string().trim().min(1),
+    name: z.string().trim().min(1),
+    brand: z.string().trim().min(1),
+    quantity: z.coerce.number().int().nonnegative(),
+    price: z.coerce.number().nonnegative(),
+    imageUrl: z.string().nullish(),
+  }),
+});
+
+/**
+ * Esquema del cuerpo de `update_product_quantity.php`: `change` unidades a sumar. Solo repone stock; las bajas
+ * se registran como ajustes de stock con su motivo (`add_stock_adjustment.php`).
+ */
+export const productQuantityChangeSchema = z.object({
+  pointOfSale: z.string().trim().min(1),
+  barcode: z.string().trim().min(1),
+  change: z.coerce.number().int().positive("Solo se puede sumar stock; las bajas se registran como ajuste de stock con su motivo."),
+});
+
+/** Esquema del cuerpo de `update_product_price.php`. */
+export const productPriceChangeSchema = z.object({
+  pointOfSale: z.string().trim().min(1),
+  barcode: z.string().trim().min(1),
+  newPrice: z.coerce.number().nonnegative(),
+});
+
+/** Esquema del cuerpo de `update_low_stock_threshold.php`. Un umbral null o 0 vuelve al umbral global. */
+export const lowStockThresholdsPayloadSchema = z.object({
+  pointOfSale: z.string().trim().min(1),
+  thresholds: z.array(z.object({
+    barcode: z.string().trim().min(1),
+    lowStockThreshold: z.coerce.number().int().nonnegative().nullish(),
+  })).min(1),
+});
+
+// --- Tipos ---
+
+/** Un tramo de precio por volumen de las ventas al por mayor. */
+export type PriceTier = z.output<typeof priceTierSchema>;
+
+/**
+ * Representa un producto en el inventario.
+ * @interface Product
+ */
+export interface Product {
+  /** Identificador único para el producto en todo el sistema de inventario. */
+  id: string;
+  /** Nombre del producto. */
+  name: string;
+  /** Cantidad actual del producto en stock. */
+  quantity: number;
+  /** Código de barras del producto. */
+  barcode: string;
+  /** URL de la imagen del producto. */
+  imageUrl: string;
+  /** Precio de venta del producto. */
+  price: number;
+  /** Nombre de la marca asociada al producto. */
+  brand: string;
+  /** Descripción opcional de la función o uso del producto. */
+  description?: string;
+  /** Pista opcional para la generación de imágenes por IA, típicamente 1-2 palabras clave. */
+  'data-ai-hint'?: string;
+  /** Tramos de precio mayorista por volumen. Sin tramos, el producto no se vende al por mayor. */
+  priceTiers?: PriceTier[];
+  /** Umbral de bajo stock personalizado para este producto. Si es null o <= 0, se usa el global. */
+  lowStockThreshold?: number | null;
+}
+
+/**
+ * Representa los datos del inventario para un único Punto de Venta (PDV),
+ * donde los productos se agrupan por el nombre de su marca.
+ * @interface InventoryData
+ * @property {Product[]} [brandName] - Un array de productos que pertenecen a la marca.
+ */
+export interface InventoryData {
+  [brandName: string]: Product[];
+}
+
+/**
+ * Representa todo el inventario en todos los Puntos de Venta (PDV).
+ * @interface Inventory
+ * @property {InventoryData} [pointOfSale] - Datos de inventario para un PDV específico.
+ */
+export interface Inventory {
+  [pointOfSale: string]: InventoryData;
+}
+
+// Comprobaciones en tiempo de compilación: si el esquema y la interfaz divergen, estas líneas dejan de compilar.
+type AssertAssignable<T, U extends T> = U;
+type _ProductMatchesSchema = AssertAssignable<Product, z.output<typeof productSchema>>;
+type _InventoryMatchesSchema = AssertAssignable<Inventory, z.output<typeof inventorySchema>>;
+
+// --- Tramos de precio ---
+
+/**
+ * Ordena los tramos de precio de menor a mayor cantidad mínima.
+ * @param {PriceTier[] | null | undefined} tiers - Los tramos del producto.
+ * @returns {PriceTier[]} Una copia ordenada de los tramos (vacía si no hay).
+ */
+export function sortPriceTiers(tiers: PriceTier[] | null | undefined): PriceTier[] {
+  return [...(tiers ?? [])].sort((a, b) => a.minQuantity - b.minQuantity);
+}
+
+/**
+ * Busca el tramo que corresponde a una cantidad: el de mayor cantidad mínima que no la supere.
+ * @param {PriceTier[] | null | undefined} tiers - Los tramos del producto.
+ * @param {number} quantity - La cantidad vendida.
+ * @returns {PriceTier | null} El tramo aplicable, o null si la cantidad no llega al primer tramo.
+ */
+export function getPriceTierForQuantity(tiers: PriceTier[] | null | undefined, quantity: number): PriceTier | null {
+  let applicable: PriceTier | null = null;
+  for (const tier of sortPriceTiers(tiers)) {
+    if (tier.minQuantity > quantity) break;
+    applicable = tier;
+  }
+  return applicable;
+}
+
+/**
+ * Devuelve la cantidad mínima para vender un producto al por mayor (la del primer tramo).
+ * @param {PriceTier[] | null | undefined} tiers - Los tramos del producto.
+ * @returns {number | null} La cantidad mínima, o null si el producto no tiene tramos.
+ */
+export function getMinimumTierQuantity(tiers: PriceTier[] | null | undefined): number | null {
+  return sortPriceTiers(tiers)[0]?.minQuantity ?? null;
+}
+
+/**
+ * Formatea un tramo de precio para mostrarlo (p. ej., "48+ uds. a $5.900").
+ * @param {PriceTier} tier - El tramo.
+ * @returns {string} El tramo formateado.
+ */
+export function formatPriceTier(tier: PriceTier): string {
+  return `${tier.minQuantity}+ uds. a $${tier.price.toFixed(3)}`;
+}
+
+/**
+ * Comprueba que una lista de tramos sea coherente: cantidades mínimas enteras, positivas y distintas,
+ * y precios positivos.
+ * @param {PriceTier[]} tiers - Los tramos a validar.
+ * @returns {string | null} El primer error encontrado, o null si los tramos son válidos.
+ */
+export function validatePriceTiers(tiers: PriceTier[]): string | null {
+  const seen = new Set<number>();
+  for (const tier of tiers) {
+    if (!Number.isInteger(tier.minQuantity) || tier.minQuantity < 1) {
+      return 'La cantidad mínima de cada tramo debe ser un entero mayor o igual a 1.';
+    }
+    if (!Number.isFinite(tier.price) || tier.price <= 0) {
+      return 'El precio de cada tramo debe ser positivo.';
+    }
+    if (seen.has(tier.minQuantity)) {
+      return `Hay dos tramos con la misma cantidad mínima (${tier.minQuantity}).`;
+    }
+    seen.add(tier.minQuantity);
+  }
+  return null;
+}
+
+// --- Búsqueda ---
+
+/** Cantidad máxima de productos que se sugieren al buscar. */
+export const PRODUCT_SUGGESTION_LIMIT = 7;
+
+/**
+ * Busca productos de un PDV cuyo nombre o código de barras contenga el texto, como las sugerencias de la caja.
+ * @param {InventoryData | undefined} posInventory - El inventario del PDV.
+ * @param {string} query - El texto buscado (el nombre se compara sin distinguir mayúsculas).
+ * @param {(product: Product) => boolean} [predicate] - Condición adicional que debe cumplir cada producto.
+ * @returns {Product[]} Hasta `PRODUCT_SUGGESTION_LIMIT` productos, sin códigos de barras repetidos.
+ */
+export function searchProductsInPos(
+  posInventory: InventoryData | undefined,
+  query: string,
+  predicate?: (product: Product) => boolean
+): Product[] {
+  const lowerQuery = query.toLowerCase();
+  const matches: Product[] = [];
+  Object.values(posInventory ?? {}).flat().forEach(product => {
+    if ((product.name.toLowerCase().includes(lowerQuery) || product.barcode.includes(lowerQuery))
+      && (!predicate || predicate(product))
+      && !matches.some(p => p.barcode === product.barcode)) {
+      matches.push(product);
+    }
+  });
+  return matches.slice(0, PRODUCT_SUGGESTION_LIMIT);
+}
+
+// --- Bajo stock ---
+
+/** Umbral global de bajo stock, para los productos sin umbral personalizado. */
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+/**
+ * Obtiene el umbral de bajo stock de un producto: el personalizado si es mayor que 0, o el global.
+ * @param {Pick<Product, 'lowStockThreshold'>} product - El producto.
+ * @returns {number} El umbral a partir del cual el producto se considera casi agotado.
+ */
+export function getLowStockThreshold(product: Pick<Product, 'lowStockThreshold'>): number {
+  return product.lowStockThreshold != null && product.lowStockThreshold > 0
+    ? product.lowStockThreshold
+    : DEFAULT_LOW_STOCK_THRESHOLD;
+}
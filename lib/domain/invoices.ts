@@ -0,0 +1,100 @@
+import * as z from 'zod';
+import { dateTimeSchema, serializeDateTime } from './dates';
+
+/** Clave de localStorage donde se guardan las facturas de proveedores. */
+export const INVOICES_LOCAL_STORAGE_KEY = 'invoiceHistoryBeautyApp';
+
+// --- Esquemas ---
+
+/** Esquema Zod para el formulario de una factura (también define los campos editables de `InvoiceRecord`). */
+export const invoiceFormSchema = z.object({
+  invoiceNumber: z.string().min(1, "El número de factura es requerido."),
+  supplierName: z.string().min(1, "El nombre del proveedor/marca es requerido."),
+  invoiceDate: z.string().min(1, "La fecha de la factura es requerida.").regex(/^\d{4}-\d{2}-\d{2}$/, "Formato de fecha debe ser YYYY-MM-DD"),
+  dueDate: z.string().min(1, "La fecha de vencimiento es requerida.").regex(/^\d{4}-\d{2}-\d{2}$/, "Formato de fecha debe ser YYYY-MM-DD"),
+  totalAmount: z.coerce.number().positive("El monto total debe ser un número positivo."),
+  status: z.enum(["pendiente", "parcialmente_pagada", "pagada"], { required_error: "El estado es requerido." }),
+  pdfFileName: z.string().optional().describe("Nombre del archivo PDF de la factura (opcional)"),
+  paymentProofDataUrl: z.string().optional().describe("Prueba de pago como Data URI (opcional)"),
+  notes: z.string().optional(),
+});
+
+/**
+ * Esquema de una factura guardada en localStorage. La salida convierte
+ * `registrationDate` y `lastModifiedDate` en `Date`.
+ */
+export const invoiceRecordSchema = invoiceFormSchema.extend({
+  id: z.string(),
+  registrationDate: dateTimeSchema,
+  lastModifiedDate: dateTimeSchema.optional(),
+});
+
+// --- Tipos ---
+
+/** Valores del formulario de factura. */
+export type InvoiceFormValues = z.infer<typeof invoiceFormSchema>;
+
+/** Estado de pago de una factura. */
+export type InvoiceStatus = InvoiceFormValues['status'];
+
+/** Una factura registrada, con sus fechas de registro y modificación como `Date`. */
+export type InvoiceRecord = z.output<typeof invoiceRecordSchema>;
+
+/** Una factura tal como se guarda en JSON: las fechas de registro y modificación son cadenas. */
+export type SerializedInvoiceRecord = z.input<typeof invoiceRecordSchema>;
+
+// --- (De)serialización ---
+
+/**
+ * Convierte el contenido guardado en localStorage en facturas validadas.
+ * Las facturas corruptas se descartan (y se registran en consola) en lugar de invalidar toda la lista.
+ * @param {string | null} raw - El JSON guardado, o null si no hay nada.
+ * @returns {InvoiceRecord[]} Las facturas válidas.
+ */
+export function parseStoredInvoices(raw: string | null): InvoiceRecord[] {
+  if (!raw) {
+    return [];
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e) {
+    console.error("Error al analizar facturas guardadas:", e);
+    return [];
+  }
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+  return parsed.flatMap(item => {
+    const result = invoiceRecordSchema.safeParse(item);
+    if (!result.success) {
+      console.warn("Factura guardada descartada por formato inválido:", result.error.issues);
+      return [];
+    }
+    return [result.data];
+  });
+}
+
+/**
+ * Convierte una factura en su forma JSON.
+ * @param {InvoiceRecord} invoice - La factura.
+ * @returns {SerializedInvoiceRecord} La factura lista para `JSON.stringify`.
+ */
+export function serializeInvoiceRecord(invoice: InvoiceRecord): SerializedInvoiceRecord {
+  return {
+    ...invoice,
+    registrationDate: serializeDateTime(invoice.registrationDate),
+    lastModifiedDate: invoice.lastModifiedDate ? serializeDateTime(invoice.lastModifiedDate) : undefined,
+  };
+}
+
+/**
+ * Convierte una factura en los valores que se guardan en el registro de auditoría.
+ * La prueba de pago (una imagen en Data URI) se reduce a si existe o no, para no inflar el registro.
+ * @param {InvoiceRecord} invoice - La factura.
+ * @returns {Omit<SerializedInvoiceRecord, 'paymentProofDataUrl'> & { hasPaymentProof: boolean }} Los valores auditados.
+ */
+export function toInvoiceAuditValues(invoice: InvoiceRecord): Omit<SerializedInvoiceRecord, 'paymentProofDataUrl'> & { hasPaymentProof: boolean } {
+  const { paymentProofDataUrl, ...values } = serializeInvoiceRecord(invoice);
+  return { ...values, hasPaymentProof: Boolean(paymentProofDataUrl) };
+}
@@ -0,0 +1,88 @@
+import * as z from 'zod';
+
+// --- Roles y capacidades ---
+// Un rol es un conjunto fijo de capacidades; el acceso a PDV concretos sigue dependiendo de `allowedPOS`.
+
+/** Esquema de los roles de usuario. */
+export const roleSchema = z.enum(['cashier', 'stock_clerk', 'manager', 'accountant', 'owner']);
+
+export type Role = z.infer<typeof roleSchema>;
+
+/** Esquema de las capacidades que se pueden comprobar con `can()`. */
+export const capabilitySchema = z.enum([
+  'view_inventory',
+  'sell',
+  'wholesale_sell',
+  'receive_stock',
+  'edit_prices',
+  'view_caja',
+  'manage_invoices',
+  'view_charts',
+  'manage_users',
+  'view_audit',
+  'approve_discounts',
+  'manage_promotions',
+  'manage_customers',
+  'transfer_stock',
+  'manage_purchase_orders',
+  'count_stock',
+  'post_stock_counts',
+  'adjust_stock',
+]);
+
+export type Capability = z.infer<typeof capabilitySchema>;
+
+/** Capacidades de cada rol. */
+export const ROLE_CAPABILITIES: Record<Role, readonly Capability[]> = {
+  cashier: ['view_inventory', 'sell', 'wholesale_sell', 'manage_customers'],
+  stock_clerk: ['view_inventory', 'receive_stock', 'transfer_stock', 'count_stock', 'adjust_stock'],
+  manager: ['view_inventory', 'sell', 'wholesale_sell', 'receive_stock', 'edit_prices', 'view_caja', 'view_charts', 'approve_discounts', 'manage_promotions', 'manage_customers', 'transfer_stock', 'manage_purchase_orders', 'count_stock', 'post_stock_counts', 'adjust_stock'],
+  accountant: ['view_inventory', 'view_caja', 'manage_invoices', 'view_charts', 'view_audit'],
+  owner: capabilitySchema.options,
+};
+
+const ROLE_LABELS: Record<Role, string> = {
+  cashier: 'Cajero',
+  stock_clerk: 'Reponedor',
+  manager: 'Encargado',
+  accountant: 'Contable',
+  owner: 'Propietario',
+};
+
+/**
+ * Obtiene la etiqueta en español de un rol.
+ * @param {Role} role - El rol.
+ * @returns {string} La etiqueta del rol.
+ */
+export function getRoleLabel(role: Role): string {
+  return ROLE_LABELS[role];
+}
+
+/**
+ * Indica si un usuario tiene acceso a un Punto de Venta ('*' en `allowedPOS` da acceso a todos).
+ * @param {{ allowedPOS: string[] }} user - El usuario.
+ * @param {string} pos - El nombre del PDV.
+ * @returns {boolean} Verdadero si el usuario puede operar en el PDV.
+ */
+export function hasPosAccess(user: { allowedPOS: string[] }, pos: string): boolean {
+  return user.allowedPOS.includes('*') || user.allowedPOS.includes(pos);
+}
+
+/**
+ * Comprueba si un usuario tiene una capacidad y, si se indica un PDV, si además tiene acceso a ese PDV.
+ * Es la regla de permisos que expone `AuthContext.can`.
+ * @param {{ role: Role; allowedPOS: string[] } | null | undefined} user - El usuario, o null si no hay sesión.
+ * @param {Capability} capability - La capacidad requerida.
+ * @param {string} [pos] - El PDV sobre el que se quiere operar.
+ * @returns {boolean} Verdadero si el usuario tiene permiso.
+ */
+export function hasCapability(
+  user: { role: Role; allowedPOS: string[] } | null | undefined,
+  capability: Capability,
+  pos?: string
+): boolean {
+  if (!user || !ROLE_CAPABILITIES[user.role]?.includes(capability)) {
+    return false;
+  }
+  return pos === undefined || hasPosAccess(user, pos);
+}
@@ -0,0 +1,366 @@
+import * as z from 'zod';
+import { dateTimeSchema } from './dates';
+
+// --- Promociones ---
+// Reglas de precio que se aplican solas a las ventas minoristas: "lleva N, paga M", packs a precio fijo
+// y porcentajes sobre una marca, opcionalmente limitadas a un PDV y a un periodo.
+
+/**
+ * Tipos de promoción:
+ * - `multi_buy`: lleva `buyQuantity` unidades y paga `payQuantity` (p. ej. 3x2); las unidades gratis son las más baratas.
+ * - `bundle`: una unidad de cada código de `barcodes` (repetido si hacen falta más) por `bundlePrice`.
+ * - `brand_percent`: `percent`% de descuento en cada unidad de la marca `brand`.
+ */
+export const promotionTypeSchema = z.enum(['multi_buy', 'bundle', 'brand_percent']);
+
+/**
+ * Esquema de una promoción tal como la devuelve el backend. Los campos que no usa su tipo son null
+ * (o `[]` en `barcodes`). `multi_buy` se aplica a los productos de `barcodes` y a los de la marca `brand`.
+ * `pointOfSale` null vale para todos los PDV; `startsAt`/`endsAt` null dejan el periodo abierto.
+ * La salida convierte las fechas en `Date`.
+ */
+export const promotionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: promotionTypeSchema,
+  barcodes: z.array(z.string()),
+  brand: z.string().nullable(),
+  buyQuantity: z.number().nullable(),
+  payQuantity: z.number().nullable(),
+  bundlePrice: z.number().nullable(),
+  percent: z.number().nullable(),
+  pointOfSale: z.string().nullable(),
+  startsAt: dateTimeSchema.nullable(),
+  endsAt: dateTimeSchema.nullable(),
+  active: z.boolean(),
+});
+
+/** Esquema de una promoción aplicada a una línea de venta, con el importe que descuenta en esa línea. */
+export const saleItemPromotionSchema = z.object({
+  promotionId: z.string(),
+  name: z.string(),
+  amount: z.number(),
+});
+
+/**
+ * Esquema del formulario de la pantalla de promociones. Los códigos de barras se escriben separados por
+ * comas o espacios y las fechas como 'yyyy-MM-dd' ('' para no acotar); los campos que no usa el tipo se ignoran.
+ */
+export const promotionFormSchema = z.object({
+  name: z.string().trim().min(1, "El nombre es requerido."),
+  type: promotionTypeSchema,
+  barcodes: z.string(),
+  brand: z.string().trim(),
+  buyQuantity: z.coerce.number().int("Debe ser un número entero.").nonnegative(),
+  payQuantity: z.coerce.number().int("Debe ser un número entero.").nonnegative(),
+  bundlePrice: z.coerce.number().nonnegative("El precio no puede ser negativo."),
+  percent: z.coerce.number().nonnegative().max(100, "El porcentaje no puede superar 100."),
+  pointOfSale: z.string(),
+  startsAt: z.string(),
+  endsAt: z.string(),
+}).superRefine((values, ctx) => {
+  const error = validatePromotionRule({ ...values, barcodes: parseBarcodeList(values.barcodes), brand: values.brand || null });
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: [PROMOTION_TYPE_MAIN_FIELD[values.type]] });
+  }
+  if (values.startsAt && values.endsAt && values.startsAt > values.endsAt) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "La fecha de fin no puede ser anterior a la de inicio.", path: ["endsAt"] });
+  }
+});
+
+// Número opcional del cuerpo de la API: '' o null significan que no se indicó.
+const optionalNumberPayload = z.preprocess(value => (value === '' ? null : value), z.coerce.number().finite().nullish());
+
+/**
+ * Esquema del cuerpo de `add_promotion.php` (y, con todos los campos opcionales, de `update_promotion.php`).
+ * Las fechas llegan como cadenas ISO; la regla y el periodo se validan al armar la promoción.
+ */
+export const promotionPayloadSchema = z.object({
+  name: z.string().trim().min(1, "Falta el campo requerido: name."),
+  type: promotionTypeSchema,
+  barcodes: z.array(z.string().trim()).nullish(),
+  brand: z.string().trim().nullish(),
+  buyQuantity: optionalNumberPayload,
+  payQuantity: optionalNumberPayload,
+  bundlePrice: optionalNumberPayload,
+  percent: optionalNumberPayload,
+  pointOfSale: z.string().trim().nullish(),
+  startsAt: z.string().nullish(),
+  endsAt: z.string().nullish(),
+  active: z.boolean().optional(),
+});
+
+// --- Tipos ---
+
+/** Tipo de promoción. */
+export type PromotionType = z.infer<typeof promotionTypeSchema>;
+
+/** Una promoción, con sus fechas como `Date`. */
+export type Promotion = z.output<typeof promotionSchema>;
+
+/** Una promoción tal como viaja en JSON (fechas como cadenas ISO). */
+export type SerializedPromotion = z.input<typeof promotionSchema>;
+
+/** Una promoción aplicada a una línea de venta. */
+export type SaleItemPromotion = z.infer<typeof saleItemPromotionSchema>;
+
+/** Valores del formulario de promoción. */
+export type PromotionFormValues = z.infer<typeof promotionFormSchema>;
+
+/** Datos de una promoción tal como llegan a la API. */
+export type PromotionPayload = z.infer<typeof promotionPayloadSchema>;
+
+/**
+ * Los campos de una promoción que definen su regla de precio.
+ */
+export type PromotionRule = Pick<Promotion, 'type' | 'barcodes' | 'brand' | 'buyQuantity' | 'payQuantity' | 'bundlePrice' | 'percent'>;
+
+/**
+ * Línea de venta sobre la que se evalúan las promociones.
+ * @interface PromotableItem
+ */
+export interface PromotableItem {
+  barcode: string;
+  brandName: string;
+  price: number;
+  quantity: number;
+}
+
+// Campo del formulario en el que se muestra el error de la regla de cada tipo.
+const PROMOTION_TYPE_MAIN_FIELD: Record<PromotionType, keyof PromotionFormValues> = {
+  multi_buy: 'payQuantity',
+  bundle: 'barcodes',
+  brand_percent: 'percent',
+};
+
+const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  multi_buy: 'Lleva N, paga M',
+  bundle: 'Pack a precio fijo',
+  brand_percent: 'Porcentaje en marca',
+};
+
+// Orden en que se aplican los tipos: cada unidad vendida recibe como mucho una promoción.
+const PROMOTION_TYPE_ORDER: PromotionType[] = ['bundle', 'multi_buy', 'brand_percent'];
+
+// --- Utilidades ---
+
+/**
+ * Obtiene la etiqueta en español de un tipo de promoción.
+ * @param {PromotionType} type - El tipo.
+ * @returns {string} La etiqueta del tipo.
+ */
+export function getPromotionTypeLabel(type: PromotionType): string {
+  return PROMOTION_TYPE_LABELS[type];
+}
+
+/**
+ * Convierte una lista de códigos de barras escrita a mano (separados por comas, espacios o saltos de línea) en un array.
+ * Los códigos repetidos se conservan: en un pack indican que lleva varias unidades de ese producto.
+ * @param {string} value - La lista escrita.
+ * @returns {string[]} Los códigos, sin vacíos.
+ */
+export function parseBarcodeList(value: string): string[] {
+  return value.split(/[\s,;]+/).map(code => code.trim()).filter(Boolean);
+}
+
+/**
+ * Comprueba que la regla de una promoción tenga los campos que exige su tipo. La usan el formulario y el backend.
+ * @param {PromotionRule} rule - La regla.
+ * @returns {string | null} El mensaje de error, o null si la regla es válida.
+ */
+export function validatePromotionRule(rule: PromotionRule): string | null {
+  switch (rule.type) {
+    case 'multi_buy':
+      if (!Number.isInteger(rule.buyQuantity) || (rule.buyQuantity ?? 0) < 2 || !Number.isInteger(rule.payQuantity)
+        || (rule.payQuantity ?? 0) < 1 || (rule.payQuantity ?? 0) >= (rule.buyQuantity ?? 0)) {
+        return 'Indica cuántas unidades se llevan (2 o más) y cuántas se pagan (al menos 1 y menos de las que se llevan).';
+      }
+      if (rule.barcodes.length === 0 && !rule.brand) {
+        return 'Indica los códigos de barras o la marca a los que se aplica la promoción.';
+      }
+      return null;
+    case 'bundle':
+      if (rule.barcodes.length < 2) {
+        return 'Un pack necesita al menos dos códigos de barras.';
+      }
+      if (rule.bundlePrice === null || !Number.isFinite(rule.bundlePrice) || rule.bundlePrice < 0) {
+        return 'Indica el precio del pack.';
+      }
+      return null;
+    case 'brand_percent':
+      if (!rule.brand) {
+        return 'Indica la marca a la que se aplica el porcentaje.';
+      }
+      if (rule.percent === null || !Number.isFinite(rule.percent) || rule.percent <= 0 || rule.percent > 100) {
+        return 'El porcentaje debe ser mayor que 0 y como mucho 100.';
+      }
+      return null;
+  }
+}
+
+/**
+ * Describe la regla de una promoción en pocas palabras.
+ * @param {PromotionRule} promotion - La promoción.
+ * @returns {string} P. ej. 'Lleva 3, paga 2 (Nivea)', 'Pack de 2 por $9.990' o '15% en Maybelline'.
+ */
+export function describePromotion(promotion: PromotionRule): string {
+  switch (promotion.type) {
+    case 'multi_buy': {
+      const scope = [promotion.brand, promotion.barcodes.length > 0 ? `${promotion.barcodes.length} producto(s)` : null].filter(Boolean).join(' + ');
+      return `Lleva ${promotion.buyQuantity}, paga ${promotion.payQuantity} (${scope})`;
+    }
+    case 'bundle':
+      return `Pack de ${promotion.barcodes.length} por $${(promotion.bundlePrice ?? 0).toFixed(3)}`;
+    case 'brand_percent':
+      return `${promotion.percent}% en ${promotion.brand}`;
+  }
+}
+
+/**
+ * Indica si una promoción está activa en un PDV en un momento dado.
+ * @param {Promotion} promotion - La promoción.
+ * @param {string} pointOfSale - El PDV de la venta.
+ * @param {Date} [now] - El momento de la venta.
+ * @returns {boolean} Verdadero si la promoción se aplica.
+ */
+export function isPromotionActive(promotion: Promotion, pointOfSale: string, now: Date = new Date()): boolean {
+  return promotion.active
+    && (promotion.pointOfSale === null || promotion.pointOfSale === pointOfSale)
+    && (promotion.startsAt === null || promotion.startsAt.getTime() <= now.getTime())
+    && (promotion.endsAt === null || promotion.endsAt.getTime() >= now.getTime());
+}
+
+/** Línea de venta durante la evaluación de promociones: las unidades que todavía no recibieron ninguna. */
+interface PromotionLine {
+  barcode: string;
+  brandName: string;
+  price: number;
+  remaining: number;
+}
+
+/**
+ * Cuenta las unidades gratis de las primeras `count` posiciones de una lista agrupada de a `buy` unidades, en la que
+ * las últimas `free` de cada grupo completo salen gratis.
+ * @param {number} count - Las posiciones contadas desde el principio de la lista.
+ * @param {number} buy - Las unidades de cada grupo.
+ * @param {number} free - Las unidades gratis de cada grupo.
+ * @returns {number} Las unidades gratis entre esas posiciones.
+ */
+function countFreeUnits(count: number, buy: number, free: number): number {
+  return Math.floor(count / buy) * free + Math.max(count % buy - (buy - free), 0);
+}
+
+/**
+ * Evalúa las promociones activas sobre las líneas de una venta y devuelve cada línea con las promociones que recibe.
+ * Cada unidad recibe como mucho una promoción: primero se forman los packs, después los "lleva N, paga M"
+ * y por último los porcentajes por marca; dentro de un tipo, en el orden de la lista.
+ * Las unidades se cuentan por línea, sin expandirlas una a una, así que el costo no depende de las cantidades.
+ * La usan el formulario de venta (para mostrarlas al agregar ítems) y el backend (que recalcula los importes).
+ *
+ * @template T
+ * @param {T[]} items - Las líneas de la venta.
+ * @param {Promotion[]} promotions - Todas las promociones; solo se aplican las activas en el PDV y el momento indicados.
+ * @param {string} pointOfSale - El PDV de la venta.
+ * @param {Date} [now] - El momento de la venta.
+ * @returns {(T & { promotions: SaleItemPromotion[] })[]} Las líneas con sus promociones (vacío si no reciben ninguna).
+ */
+export function applyPromotions<T extends PromotableItem>(
+  items: T[],
+  promotions: Promotion[],
+  pointOfSale: string,
+  now: Date = new Date()
+): (T & { promotions: SaleItemPromotion[] })[] {
+  const lines: PromotionLine[] = items.map(item => ({
+    barcode: item.barcode,
+    brandName: item.brandName,
+    price: item.price || 0,
+    remaining: Math.max(Math.floor(item.quantity || 0), 0),
+  }));
+  const linePromotions = items.map(() => new Map<string, SaleItemPromotion>());
+  const addAmount = (lineIndex: number, promotion: Promotion, amount: number) => {
+    const current = linePromotions[lineIndex].get(promotion.id) ?? { promotionId: promotion.id, name: promotion.name, amount: 0 };
+    current.amount += amount;
+    linePromotions[lineIndex].set(promotion.id, current);
+  };
+  const isSameBrand = (line: PromotionLine, brand: string | null) =>
+    brand !== null && line.brandName.trim().toLowerCase() === brand.trim().toLowerCase();
+
+  const activePromotions = promotions.filter(promotion => isPromotionActive(promotion, pointOfSale, now));
+  for (const type of PROMOTION_TYPE_ORDER) {
+    for (const promotion of activePromotions.filter(p => p.type === type)) {
+      if (type === 'bundle') {
+        // Cada código del pack toma una unidad libre de la primera línea que la tenga. Mientras esas líneas
+        // alcancen, los packs siguientes toman las mismas, así que se forman todos juntos.
+        while (true) {
+          const uses = new Map<number, number>();
+          const complete = promotion.barcodes.every(barcode => {
+            const lineIndex = lines.findIndex((line, index) => line.barcode === barcode && line.remaining > (uses.get(index) ?? 0));
+            if (lineIndex === -1) return false;
+            uses.set(lineIndex, (uses.get(lineIndex) ?? 0) + 1);
+            return true;
+          });
+          if (!complete) break;
+          const regularPrice = Array.from(uses).reduce((sum, [lineIndex, count]) => sum + lines[lineIndex].price * count, 0);
+          const saving = regularPrice - (promotion.bundlePrice ?? 0);
+          if (saving <= 0) break;
+          const bundles = Math.min(...Array.from(uses, ([lineIndex, count]) => Math.floor(lines[lineIndex].remaining / count)));
+          uses.forEach((count, lineIndex) => {
+            lines[lineIndex].remaining -= count * bundles;
+            addAmount(lineIndex, promotion, bundles * saving * count * lines[lineIndex].price / regularPrice);
+          });
+        }
+      } else if (type === 'multi_buy') {
+        const buy = promotion.buyQuantity ?? 0;
+        const free = buy - (promotion.payQuantity ?? buy);
+        if (buy <= 0) continue;
+        const eligible = lines
+          .map((line, lineIndex) => ({ line, lineIndex }))
+          .filter(({ line }) => line.remaining > 0 && (promotion.barcodes.includes(line.barcode) || isSameBrand(line, promotion.brand)))
+          .sort((a, b) => b.line.price - a.line.price);
+        const groupedCount = Math.floor(eligible.reduce((sum, { line }) => sum + line.remaining, 0) / buy) * buy;
+        // Las unidades se ordenan de mayor a menor precio y en cada grupo salen gratis las más baratas.
+        let position = 0;
+        for (const { line, lineIndex } of eligible) {
+          const taken = Math.min(line.remaining, groupedCount - position);
+          if (taken <= 0) break;
+          const freeUnits = countFreeUnits(position + taken, buy, free) - countFreeUnits(position, buy, free);
+          if (freeUnits > 0) {
+            addAmount(lineIndex, promotion, freeUnits * line.price);
+          }
+          line.remaining -= taken;
+          position += taken;
+        }
+      } else {
+        lines.forEach((line, lineIndex) => {
+          if (line.remaining > 0 && isSameBrand(line, promotion.brand)) {
+            addAmount(lineIndex, promotion, line.remaining * line.price * (promotion.percent ?? 0) / 100);
+            line.remaining = 0;
+          }
+        });
+      }
+    }
+  }
+
+  return items.map((item, index) => ({
+    ...item,
+    promotions: Array.from(linePromotions[index].values()).filter(promotion => promotion.amount > 0),
+  }));
+}
+
+/**
+ * Suma lo que descuentan las promociones de una línea.
+ * @param {{ promotions?: { amount: number }[] | null }} item - La línea.
+ * @returns {number} El importe descontado por promociones (0 si no tiene).
+ */
+export function getLinePromotionTotal(item: { promotions?: { amount: number }[] | null }): number {
+  return (item.promotions ?? []).reduce((sum, promotion) => sum + promotion.amount, 0);
+}
+
+/**
+ * Suma lo que descuentan las promociones de una venta registrada.
+ * @param {{ items: { promotions?: { amount: number }[] | null }[] }} sale - La venta.
+ * @returns {number} El importe descontado por promociones (0 si no tiene).
+ */
+export function getSalePromotionTotal(sale: { items: { promotions?: { amount: number }[] | null }[] }): number {
+  return sale.items.reduce((sum, item) => sum + getLinePromotionTotal(item), 0);
+}
@@ -0,0 +1,241 @@
+import * as z from 'zod';
+import { dateTimeSchema } from './dates';
+import { getLowStockThreshold, type Inventory } from './inventory';
+import type { SupplierRecord } from './suppliers';
+
+// --- Órdenes de compra ---
+// Pedido a un proveedor para reponer un PDV. Se prepara como borrador (a menudo desde las sugerencias de bajo stock),
+// se marca como enviada al mandarla al proveedor y se recibe registrando una entrada de proveedor con su ID.
+
+// --- Esquemas ---
+
+/**
+ * Estados de una orden de compra:
+ * - `draft`: borrador editable.
+ * - `sent`: enviada al proveedor; espera la mercadería.
+ * - `received`: recibida con una entrada de proveedor.
+ * - `cancelled`: anulada sin recibirse.
+ */
+export const purchaseOrderStatusSchema = z.enum(['draft', 'sent', 'received', 'cancelled']);
+
+/** Esquema de una línea de una orden de compra. */
+export const purchaseOrderItemSchema = z.object({
+  barcode: z.string(),
+  productName: z.string(),
+  brandName: z.string(),
+  quantity: z.number(),
+  /** Precio de compra de referencia por unidad (p. ej., el de la última entrada); null si no se conoce. */
+  purchasePrice: z.number().nullable(),
+});
+
+/** Usuario que creó una orden de compra. */
+export const purchaseOrderActorSchema = z.object({
+  userId: z.string(),
+  userName: z.string(),
+});
+
+/**
+ * Esquema de una orden de compra tal como la devuelve el backend. `sentAt`, `receivedAt` y `supplierEntryId`
+ * son null hasta que la orden llega a ese estado. La salida convierte las fechas en `Date`.
+ */
+export const purchaseOrderSchema = z.object({
+  id: z.string(),
+  supplierName: z.string(),
+  pointOfSale: z.string(),
+  status: purchaseOrderStatusSchema,
+  items: z.array(purchaseOrderItemSchema),
+  notes: z.string().nullish().transform(value => value ?? undefined),
+  createdAt: dateTimeSchema,
+  createdBy: purchaseOrderActorSchema,
+  sentAt: dateTimeSchema.nullable(),
+  receivedAt: dateTimeSchema.nullable(),
+  /** La entrada de proveedor con la que se recibió la orden. */
+  supplierEntryId: z.string().nullable(),
+});
+
+/**
+ * Esquema del formulario de orden de compra. Un precio de referencia de 0 significa "a confirmar" y se envía como null.
+ */
+export const purchaseOrderFormSchema = z.object({
+  supplierName: z.string().trim().min(1, "El proveedor es requerido."),
+  pointOfSale: z.string().trim().min(1, "El PDV de entrega es requerido."),
+  items: z.array(z.object({
+    barcode: z.string().trim().min(1, "Elija un producto."),
+    quantity: z.coerce.number().int("La cantidad debe ser un número entero.").positive("La cantidad debe ser mayor que 0."),
+    purchasePrice: z.coerce.number().nonnegative("El precio no puede ser negativo."),
+  })).min(1, "Se requiere al menos un producto."),
+  notes: z.string().optional(),
+});
+
+/**
+ * Esquema del cuerpo de `add_purchase_order.php`: el del formulario, pero el precio de referencia puede faltar
+ * o llegar como null ("a confirmar").
+ */
+export const purchaseOrderPayloadSchema = purchaseOrderFormSchema.extend({
+  items: z.array(purchaseOrderFormSchema.shape.items.element.extend({
+    purchasePrice: z.coerce.number().nonnegative("El precio no puede ser negativo.").nullish(),
+  })).min(1, "Se requiere al menos un producto."),
+});
+
+/** Esquema de los cambios de `update_purchase_order.php`: los campos presentes del cuerpo de alta y el estado. */
+export const purchaseOrderUpdateSchema = purchaseOrderPayloadSchema.partial().extend({
+  status: purchaseOrderStatusSchema.optional(),
+});
+
+// --- Tipos ---
+
+/** Estado de una orden de compra. */
+export type PurchaseOrderStatus = z.infer<typeof purchaseOrderStatusSchema>;
+
+/** Una línea de una orden de compra. */
+export type PurchaseOrderItem = z.infer<typeof purchaseOrderItemSchema>;
+
+/** Usuario que creó una orden de compra. */
+export type PurchaseOrderActor = z.infer<typeof purchaseOrderActorSchema>;
+
+/** Una orden de compra, con sus fechas como `Date`. */
+export type PurchaseOrder = z.output<typeof purchaseOrderSchema>;
+
+/** Una orden de compra tal como viaja en JSON (fechas como cadenas ISO). */
+export type SerializedPurchaseOrder = z.input<typeof purchaseOrderSchema>;
+
+/** Valores del formulario de orden de compra. */
+export type PurchaseOrderFormValues = z.infer<typeof purchaseOrderFormSchema>;
+
+/** Criterio para agrupar las sugerencias de compra: por marca o por el último proveedor de cada producto. */
+export type PurchaseOrderGrouping = 'brand' | 'supplier';
+
+/**
+ * Una línea sugerida: la línea de la orden más el stock y el umbral que la motivaron.
+ * @interface PurchaseOrderSuggestionItem
+ */
+export interface PurchaseOrderSuggestionItem extends PurchaseOrderItem {
+  currentQuantity: number;
+  threshold: number;
+}
+
+/**
+ * Una orden de compra sugerida para un PDV.
+ * @interface PurchaseOrderSuggestion
+ */
+export interface PurchaseOrderSuggestion {
+  /** Clave única del grupo (PDV y marca o proveedor). */
+  key: string;
+  pointOfSale: string;
+  /** La marca o el proveedor del grupo. */
+  label: string;
+  /** Proveedor con el que se prellena la orden; '' si ningún producto del grupo tiene entradas previas. */
+  supplierName: string;
+  items: PurchaseOrderSuggestionItem[];
+}
+
+// --- Utilidades ---
+
+const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Borrador',
+  sent: 'Enviada',
+  received: 'Recibida',
+  cancelled: 'Anulada',
+};
+
+/** Etiqueta de los grupos de productos sin entradas de proveedor previas. */
+const UNKNOWN_SUPPLIER_LABEL = 'Sin proveedor previo';
+
+/**
+ * Las sugerencias piden lo necesario para llegar a este múltiplo del umbral de bajo stock.
+ */
+const REORDER_TARGET_FACTOR = 2;
+
+/**
+ * Obtiene la etiqueta en español del estado de una orden de compra.
+ * @param {PurchaseOrderStatus} status - El estado.
+ * @returns {string} La etiqueta del estado.
+ */
+export function getPurchaseOrderStatusLabel(status: PurchaseOrderStatus): string {
+  return PURCHASE_ORDER_STATUS_LABELS[status];
+}
+
+/**
+ * Indica si una orden de compra sigue abierta (borrador o enviada), es decir, si todavía se puede recibir.
+ * @param {Pick<PurchaseOrder, 'status'>} order - La orden.
+ * @returns {boolean} Verdadero si la orden no se recibió ni se anuló.
+ */
+export function isPurchaseOrderOpen(order: Pick<PurchaseOrder, 'status'>): boolean {
+  return order.status === 'draft' || order.status === 'sent';
+}
+
+/**
+ * Calcula el importe estimado de una orden con los precios de referencia conocidos.
+ * @param {Pick<PurchaseOrder, 'items'>} order - La orden.
+ * @returns {number} La suma de cantidad × precio de las líneas con precio.
+ */
+export function getPurchaseOrderTotal(order: Pick<PurchaseOrder, 'items'>): number {
+  return order.items.reduce((sum, item) => sum + item.quantity * (item.purchasePrice ?? 0), 0);
+}
+
+/**
+ * Arma órdenes de compra sugeridas con los productos que están en su umbral de bajo stock o por debajo
+ * (agotados incluidos), un grupo por PDV y marca o proveedor. Cada línea pide lo necesario para llegar al doble
+ * del umbral, con el precio de la última entrada de proveedor. Se omiten los productos que ya están en una orden
+ * abierta para el mismo PDV.
+ * @param {Inventory} inventory - El inventario completo.
+ * @param {string[]} pointsOfSale - Los PDV a revisar.
+ * @param {SupplierRecord[]} supplierEntries - Las entradas de proveedor, para el último proveedor y precio de cada producto.
+ * @param {PurchaseOrder[]} openOrders - Las órdenes abiertas.
+ * @param {PurchaseOrderGrouping} grouping - Agrupar por marca o por proveedor.
+ * @returns {PurchaseOrderSuggestion[]} Las sugerencias, ordenadas por PDV y grupo.
+ */
+export function buildPurchaseOrderSuggestions(
+  inventory: Inventory,
+  pointsOfSale: string[],
+  supplierEntries: SupplierRecord[],
+  openOrders: PurchaseOrder[],
+  grouping: PurchaseOrderGrouping
+): PurchaseOrderSuggestion[] {
+  // Último proveedor y precio de cada producto, primero en el mismo PDV y, si no, en cualquiera.
+  const lastPurchases = new Map<string, { supplierName: string; purchasePrice: number }>();
+  [...supplierEntries]
+    .sort((a, b) => a.dateTime.getTime() - b.dateTime.getTime())
+    .forEach(entry => entry.products.forEach(product => {
+      const purchase = { supplierName: entry.supplierName, purchasePrice: product.purchasePrice };
+      lastPurchases.set(`${entry.pointOfSale}|${product.barcode}`, purchase);
+      lastPurchases.set(product.barcode, purchase);
+    }));
+  const alreadyOrdered = new Set(
+    openOrders.filter(isPurchaseOrderOpen).flatMap(order => order.items.map(item => `${order.pointOfSale}|${item.barcode}`))
+  );
+
+  const groups = new Map<string, PurchaseOrderSuggestion>();
+  for (const pointOfSale of pointsOfSale) {
+    for (const [brand, products] of Object.entries(inventory[pointOfSale] ?? {})) {
+      for (const product of products) {
+        const threshold = getLowStockThreshold(product);
+        if (product.quantity > threshold || alreadyOrdered.has(`${pointOfSale}|${product.barcode}`)) continue;
+        const lastPurchase = lastPurchases.get(`${pointOfSale}|${product.barcode}`) ?? lastPurchases.get(product.barcode);
+        const label = grouping === 'brand' ? brand : lastPurchase?.supplierName ?? UNKNOWN_SUPPLIER_LABEL;
+        const key = `${pointOfSale}|${label}`;
+        let group = groups.get(key);
+        if (!group) {
+          group = { key, pointOfSale, label, supplierName: '', items: [] };
+          groups.set(key, group);
+        }
+        if (!group.supplierName && lastPurchase) {
+          group.supplierName = lastPurchase.supplierName;
+        }
+        group.items.push({
+          barcode: product.barcode,
+          productName: product.name,
+          brandName: brand,
+          quantity: Math.max(threshold * REORDER_TARGET_FACTOR - product.quantity, 1),
+          purchasePrice: lastPurchase?.purchasePrice ?? null,
+          currentQuantity: product.quantity,
+          threshold,
+        });
+      }
+    }
+  }
+
+  return Array.from(groups.values())
+    .map(group => ({ ...group, items: group.items.sort((a, b) => a.productName.localeCompare(b.productName, 'es')) }))
+    .sort((a, b) => a.pointOfSale.localeCompare(b.pointOfSale, 'es') || a.label.localeCompare(b.label, 'es'));
+}
@@ -0,0 +1,101 @@
+import type { SaleReturn } from './returns';
+import type { SaleRecord } from './sales';
+
+// --- Punto de pedido ---
+// El umbral fijo de bajo stock trata igual un producto que se vende a diario que uno que apenas rota. El punto de
+// pedido parte de la venta media diaria de cada producto en cada PDV: es el stock que alcanza para vender durante
+// el plazo de entrega del proveedor más unos días de seguridad.
+
+// --- Tipos ---
+
+/**
+ * Parámetros del cálculo del punto de pedido, en días.
+ * @interface ReorderSettings
+ */
+export interface ReorderSettings {
+  /** Días de historial de ventas con los que se calcula la venta media diaria. */
+  salesWindowDays: number;
+  /** Días que tarda el proveedor en entregar un pedido. */
+  leadTimeDays: number;
+  /** Días de venta que se guardan como stock de seguridad. */
+  safetyStockDays: number;
+  /** Días de venta que debe cubrir cada pedido una vez recibido. */
+  orderCoverageDays: number;
+}
+
+/** Venta media diaria (unidades netas de devoluciones) por PDV y código de barras. */
+export type SalesVelocity = Record<string, Record<string, number>>;
+
+/**
+ * Indicadores de reposición de un producto en un PDV.
+ * @interface ReorderMetrics
+ */
+export interface ReorderMetrics {
+  /** Unidades vendidas por día en el período. */
+  dailySales: number;
+  /** Días que dura el stock actual al ritmo de venta; null si el producto no se vendió en el período. */
+  daysOfCover: number | null;
+  /** Stock con el que conviene pedir: la venta del plazo de entrega más la seguridad; null sin ventas. */
+  reorderPoint: number | null;
+  /** Unidades a pedir para cubrir el plazo de entrega, la seguridad y la cobertura del pedido; 0 sin ventas. */
+  suggestedOrderQuantity: number;
+}
+
+// --- Utilidades ---
+
+/** Parámetros por defecto del punto de pedido. */
+export const DEFAULT_REORDER_SETTINGS: ReorderSettings = {
+  salesWindowDays: 30,
+  leadTimeDays: 7,
+  safetyStockDays: 3,
+  orderCoverageDays: 14,
+};
+
+/**
+ * Calcula la venta media diaria de cada producto en cada PDV: las unidades vendidas (minoristas y mayoristas) menos
+ * las devueltas, repartidas entre los días del período. Las ventas y devoluciones deben estar ya acotadas a ese período.
+ * @param {SaleRecord[]} sales - Las ventas del período.
+ * @param {SaleReturn[]} saleReturns - Las devoluciones del período.
+ * @param {number} windowDays - Los días del período (mayor que 0).
+ * @returns {SalesVelocity} Las unidades por día de cada producto con ventas netas positivas.
+ */
+export function buildSalesVelocity(sales: SaleRecord[], saleReturns: SaleReturn[], windowDays: number): SalesVelocity {
+  const units: Record<string, Record<string, number>> = {};
+  const add = (pointOfSale: string, barcode: string, quantity: number) => {
+    const posUnits = units[pointOfSale] || (units[pointOfSale] = {});
+    posUnits[barcode] = (posUnits[barcode] ?? 0) + quantity;
+  };
+  sales.forEach(sale => sale.items.forEach(item => add(sale.pointOfSale, item.barcode, item.quantity)));
+  saleReturns.forEach(saleReturn => saleReturn.items.forEach(item => add(saleReturn.pointOfSale, item.barcode, -item.quantity)));
+
+  const velocity: SalesVelocity = {};
+  for (const [pointOfSale, posUnits] of Object.entries(units)) {
+    for (const [barcode, quantity] of Object.entries(posUnits)) {
+      if (quantity > 0) {
+        (velocity[pointOfSale] || (velocity[pointOfSale] = {}))[barcode] = quantity / windowDays;
+      }
+    }
+  }
+  return velocity;
+}
+
+/**
+ * Calcula los días de cobertura, el punto de pedido y la cantidad sugerida de un producto.
+ * @param {number} quantity - El stock actual.
+ * @param {number} dailySales - La venta media diaria (ver `buildSalesVelocity`).
+ * @param {ReorderSettings} settings - Plazo de entrega, seguridad y cobertura del pedido.
+ * @returns {ReorderMetrics} Los indicadores de reposición.
+ */
+export function getReorderMetrics(quantity: number, dailySales: number, settings: ReorderSettings): ReorderMetrics {
+  if (dailySales <= 0) {
+    return { dailySales: 0, daysOfCover: null, reorderPoint: null, suggestedOrderQuantity: 0 };
+  }
+  const reorderPoint = Math.ceil(dailySales * (settings.leadTimeDays + settings.safetyStockDays));
+  const targetStock = Math.ceil(dailySales * (settings.leadTimeDays + settings.safetyStockDays + settings.orderCoverageDays));
+  return {
+    dailySales,
+    daysOfCover: quantity / dailySales,
+    reorderPoint,
+    suggestedOrderQuantity: Math.max(targetStock - quantity, 0),
+  };
+}
@@ -0,0 +1,133 @@
+import * as z from 'zod';
+import { dateTimeSchema } from './dates';
+import type { SaleDiscount } from './discounts';
+import { getLinePromotionTotal } from './promotions';
+import { paymentMethodSchema, saleKindSchema, saleRecordItemSchema, type SaleRecordItem } from './sales';
+
+// --- Esquemas ---
+
+/** Motivos de una devolución. `sale_error` se usa para anular una venta registrada por error. */
+export const returnReasonSchema = z.enum(['defective', 'wrong_item', 'customer_changed_mind', 'sale_error']);
+
+/**
+ * Esquema de una devolución (total o parcial) de una venta, tal como la devuelve el backend.
+ * Los ítems llevan el precio neto al que se vendieron (con los descuentos de la venta ya repartidos);
+ * `totalAmount` es lo reembolsado con `refundMethod`.
+ * La salida convierte `dateTime` en `Date`.
+ */
+export const saleReturnSchema = z.object({
+  id: z.string(),
+  dateTime: dateTimeSchema,
+  saleId: z.string(),
+  saleKind: saleKindSchema,
+  pointOfSale: z.string(),
+  userId: z.string().nullable(),
+  userName: z.string().nullish().transform(value => value ?? undefined),
+  items: z.array(saleRecordItemSchema),
+  reason: returnReasonSchema,
+  notes: z.string().nullish().transform(value => value ?? undefined),
+  refundMethod: paymentMethodSchema,
+  totalAmount: z.number(),
+});
+
+/** Esquema del formulario de devolución: unidades a devolver por código de barras, motivo y forma de reembolso. */
+export const saleReturnFormSchema = z.object({
+  items: z.array(z.object({
+    barcode: z.string(),
+    quantity: z.coerce.number().int("La cantidad debe ser un número entero.").min(0, "La cantidad no puede ser negativa."),
+  })),
+  reason: returnReasonSchema,
+  refundMethod: paymentMethodSchema,
+  notes: z.string().optional(),
+}).refine(values => values.items.some(item => item.quantity > 0), {
+  message: "Indica al menos una unidad a devolver.",
+  path: ['items'],
+});
+
+/** Esquema del cuerpo de `record_sale_return.php`: la venta, las unidades a devolver, el motivo y el reembolso. */
+export const saleReturnPayloadSchema = z.object({
+  saleId: z.string().trim().min(1),
+  saleKind: saleKindSchema,
+  items: z.array(z.object({
+    barcode: z.string().trim().min(1),
+    quantity: z.coerce.number().int().positive(),
+  })).min(1, "La lista de ítems a devolver está vacía."),
+  reason: returnReasonSchema,
+  refundMethod: paymentMethodSchema,
+  notes: z.string().optional(),
+});
+
+// --- Tipos ---
+
+/** Motivo de una devolución. */
+export type ReturnReason = z.infer<typeof returnReasonSchema>;
+
+/** Una devolución registrada, con `dateTime` como `Date`. */
+export type SaleReturn = z.output<typeof saleReturnSchema>;
+
+/** Una devolución tal como viaja en JSON: `dateTime` es una cadena. */
+export type SerializedSaleReturn = z.input<typeof saleReturnSchema>;
+
+/** Valores del formulario de devolución. */
+export type SaleReturnFormValues = z.infer<typeof saleReturnFormSchema>;
+
+// --- Utilidades ---
+
+const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  defective: 'Producto defectuoso',
+  wrong_item: 'Producto equivocado',
+  customer_changed_mind: 'Cambio de opinión del cliente',
+  sale_error: 'Error en la venta (anulación)',
+};
+
+/**
+ * Obtiene la etiqueta en español de un motivo de devolución.
+ * @param {ReturnReason} reason - El motivo.
+ * @returns {string} La etiqueta del motivo.
+ */
+export function getReturnReasonLabel(reason: ReturnReason): string {
+  return RETURN_REASON_LABELS[reason];
+}
+
+/**
+ * Calcula cuántas unidades de cada producto de una venta se pueden devolver todavía.
+ * @param {{ items: SaleRecordItem[] }} sale - La venta.
+ * @param {{ items: SaleRecordItem[] }[]} returns - Las devoluciones ya registradas de esa venta.
+ * @returns {Record<string, number>} Las unidades pendientes por código de barras.
+ */
+export function getReturnableQuantities(sale: { items: SaleRecordItem[] }, returns: { items: SaleRecordItem[] }[]): Record<string, number> {
+  const remaining: Record<string, number> = {};
+  for (const item of sale.items) {
+    remaining[item.barcode] = (remaining[item.barcode] ?? 0) + item.quantity;
+  }
+  for (const saleReturn of returns) {
+    for (const item of saleReturn.items) {
+      remaining[item.barcode] = Math.max(0, (remaining[item.barcode] ?? 0) - item.quantity);
+    }
+  }
+  return remaining;
+}
+
+/**
+ * Calcula el precio unitario neto de cada producto de una venta: el precio menos sus promociones, su descuento de línea y la parte
+ * del descuento del carrito que le corresponde en proporción a su importe. Es el precio que se reembolsa al devolver.
+ * @param {{ items: SaleRecordItem[]; cartDiscount?: SaleDiscount | null }} sale - La venta.
+ * @returns {Record<string, number>} El precio unitario neto por código de barras (promedio si el producto se repite en varias líneas).
+ */
+export function getNetUnitPrices(sale: { items: SaleRecordItem[]; cartDiscount?: SaleDiscount | null }): Record<string, number> {
+  const lineTotals: Record<string, { amount: number; quantity: number }> = {};
+  for (const item of sale.items) {
+    const line = lineTotals[item.barcode] ?? { amount: 0, quantity: 0 };
+    line.amount += item.price * item.quantity - getLinePromotionTotal(item) - (item.discount?.amount ?? 0);
+    line.quantity += item.quantity;
+    lineTotals[item.barcode] = line;
+  }
+  const netTotal = Object.values(lineTotals).reduce((sum, line) => sum + line.amount, 0);
+  const cartDiscountAmount = sale.cartDiscount?.amount ?? 0;
+  const prices: Record<string, number> = {};
+  for (const [barcode, line] of Object.entries(lineTotals)) {
+    const cartShare = netTotal > 0 ? cartDiscountAmount * line.amount / netTotal : 0;
+    prices[barcode] = line.quantity > 0 ? (line.amount - cartShare) / line.quantity : 0;
+  }
+  return prices;
+}
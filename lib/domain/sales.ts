@@ -0,0 +1,332 @@
+import * as z from 'zod';
+import { dateTimeSchema, serializeDateTime } from './dates';
+import { saleCustomerSchema } from './customers';
+import { discountPayloadSchema, saleDiscountSchema } from './discounts';
+import { priceTierSchema } from './inventory';
+import { saleItemPromotionSchema } from './promotions';
+
+// --- Esquemas ---
+
+/** Tipo de venta: minorista (`record_sale.php`) o mayorista (`record_wholesale_sale.php`). */
+export const saleKindSchema = z.enum(['retail', 'wholesale']);
+
+/** Métodos de pago admitidos en ventas minoristas y mayoristas. */
+export const paymentMethodSchema = z.enum(['cash', 'card', 'transfer']);
+
+/** Esquema del pago de una parte de la venta con un método. */
+export const salePaymentSchema = z.object({
+  method: paymentMethodSchema,
+  amount: z.number(),
+});
+
+/**
+ * Esquema de una línea de pago del formulario de venta. En efectivo, el importe puede superar lo que
+ * falta por cubrir: el excedente es el vuelto.
+ */
+export const salePaymentFormSchema = z.object({
+  method: paymentMethodSchema,
+  amount: z.coerce.number().nonnegative("El importe no puede ser negativo."),
+});
+
+/**
+ * Esquema de un ítem de venta. `promotions` son las promociones que recibió la línea (las calcula el backend),
+ * `priceTier`, el tramo de precio por volumen que fijó `price` en una venta mayorista, y `discount`,
+ * el descuento manual de la línea, que se aplica después de las promociones.
+ */
+export const saleRecordItemSchema = z.object({
+  barcode: z.string(),
+  productName: z.string(),
+  brandName: z.string(),
+  quantity: z.number(),
+  price: z.number(),
+  promotions: z.array(saleItemPromotionSchema).optional(),
+  priceTier: priceTierSchema.nullish(),
+  discount: saleDiscountSchema.nullish(),
+});
+
+/** Encargado que aprobó un descuento por encima del máximo del vendedor. */
+export const discountApproverSchema = z.object({
+  userId: z.string(),
+  userName: z.string(),
+});
+
+/**
+ * Esquema de una venta (minorista o mayorista) tal como la devuelve el backend.
+ * `payments` desglosa el total por método de pago (sin el vuelto) y `paymentMethod` es el método de mayor importe.
+ * `cashTendered` es el efectivo que entregó el cliente (null si no pagó en efectivo o no se anotó) y `change`, el vuelto.
+ * `cartDiscount` es el descuento sobre el total de las líneas y `discountApprovedBy`, quién aprobó los descuentos
+ * que superaban el máximo del vendedor (null en ambos casos si no aplica). `customer` es el cliente del directorio
+ * al que se asoció la venta (null si no se indicó).
+ * La salida convierte `dateTime` en `Date`, normaliza `userName: null` a `undefined` y, en las ventas anteriores
+ * al pago dividido (sin `payments`), asigna todo el total a `paymentMethod`.
+ */
+export const saleRecordSchema = z.object({
+  id: z.string(),
+  dateTime: dateTimeSchema,
+  pointOfSale: z.string(),
+  userId: z.string().nullable(),
+  userName: z.string().nullish().transform(value => value ?? undefined),
+  items: z.array(saleRecordItemSchema),
+  paymentMethod: paymentMethodSchema,
+  payments: z.array(salePaymentSchema).optional(),
+  cashTendered: z.number().nullish().transform(value => value ?? null),
+  change: z.number().optional().transform(value => value ?? 0),
+  cartDiscount: saleDiscountSchema.nullish().transform(value => value ?? null),
+  discountApprovedBy: discountApproverSchema.nullish().transform(value => value ?? null),
+  customer: saleCustomerSchema.nullish().transform(value => value ?? null),
+  totalAmount: z.number(),
+}).transform(sale => ({
+  ...sale,
+  payments: sale.payments ?? [{ method: sale.paymentMethod, amount: sale.totalAmount }],
+}));
+
+/**
+ * Esquema de un ítem en el cuerpo de una venta. El backend toma el precio de lista del inventario y recalcula las
+ * promociones, el tramo de precio y el importe del descuento, así que solo llegan el producto, la cantidad y el
+ * descuento sin calcular; un `price` enviado se descarta.
+ */
+export const saleItemPayloadSchema = z.object({
+  barcode: z.string().trim().min(1),
+  productName: z.string().trim().min(1),
+  brandName: z.string().trim().nullish().transform(value => value ?? ''),
+  quantity: z.coerce.number().int("La cantidad de cada ítem debe ser un número entero.").positive("La cantidad de cada ítem debe ser mayor que 0."),
+  discount: discountPayloadSchema.nullish(),
+});
+
+/**
+ * Esquema del cuerpo de `record_sale.php` y `record_wholesale_sale.php`. Sin `payments` se acepta el formato
+ * anterior con un único `paymentMethod`, que cubre todo el total. El vendedor es siempre el usuario de la sesión.
+ */
+export const salePayloadSchema = z.object({
+  pointOfSale: z.string().trim().min(1),
+  payments: z.array(z.object({
+    method: paymentMethodSchema,
+    amount: z.coerce.number().positive("El importe de cada pago debe ser mayor que 0."),
+  })).min(1, "La lista de pagos está vacía.").optional(),
+  paymentMethod: paymentMethodSchema.optional(),
+  cashTendered: z.coerce.number().nonnegative("El efectivo recibido no puede ser negativo.").nullish(),
+  items: z.array(saleItemPayloadSchema).min(1, "La lista de ítems está vacía."),
+  cartDiscount: discountPayloadSchema.nullish(),
+  discountApprovalId: z.string().nullish(),
+  customerId: z.string().trim().nullish(),
+});
+
+/** Esquema del cuerpo de `record_mixed_sale.php`: las dos ventas de un carrito mixto, del mismo PDV. */
+export const mixedSalePayloadSchema = z.object({
+  retail: salePayloadSchema,
+  wholesale: salePayloadSchema,
+}).refine(sale => sale.retail.pointOfSale === sale.wholesale.pointOfSale, {
+  message: "Las dos ventas de un carrito mixto deben ser del mismo Punto de Venta.",
+  path: ['wholesale', 'pointOfSale'],
+});
+
+// --- Tipos ---
+
+/** Tipo de venta. */
+export type SaleKind = z.infer<typeof saleKindSchema>;
+
+/** Método de pago de una venta. */
+export type PaymentMethod = z.infer<typeof paymentMethodSchema>;
+
+/** Importe pagado con un método de pago. */
+export type SalePayment = z.infer<typeof salePaymentSchema>;
+
+/** Una línea de pago del formulario de venta. */
+export type SalePaymentFormValues = z.infer<typeof salePaymentFormSchema>;
+
+/** Un ítem vendido: producto, cantidad, precio unitario aplicado, promociones y descuento de la línea. */
+export type SaleRecordItem = z.infer<typeof saleRecordItemSchema>;
+
+/** Encargado que aprobó un descuento. */
+export type DiscountApprover = z.infer<typeof discountApproverSchema>;
+
+/**
+ * Una venta registrada, con `dateTime` ya convertido a `Date`.
+ * `receiptPdfDataUri` solo existe en el cliente, tras generar el recibo.
+ */
+export type SaleRecord = z.output<typeof saleRecordSchema> & {
+  receiptPdfDataUri?: string;
+};
+
+/** Una venta tal como viaja en JSON (backend, localStorage): `dateTime` es una cadena. */
+export type SerializedSaleRecord = z.input<typeof saleRecordSchema>;
+
+/** El cuerpo de una venta, ya validado. */
+export type SalePayload = z.output<typeof salePayloadSchema>;
+
+// --- (De)serialización ---
+
+/**
+ * Convierte una venta recibida en JSON en un `SaleRecord`.
+ * @param {unknown} raw - La venta serializada.
+ * @returns {SaleRecord} La venta validada, con `dateTime` como `Date`.
+ * @throws {z.ZodError} Si la venta no tiene la forma esperada.
+ */
+export function deserializeSaleRecord(raw: unknown): SaleRecord {
+  return saleRecordSchema.parse(raw);
+}
+
+/**
+ * Convierte una venta en su forma JSON (sin el PDF del recibo, que no se persiste).
+ * @param {SaleRecord} sale - La venta.
+ * @returns {SerializedSaleRecord} La venta lista para `JSON.stringify`.
+ */
+export function serializeSaleRecord(sale: SaleRecord): SerializedSaleRecord {
+  const { receiptPdfDataUri: _receipt, ...rest } = sale;
+  return { ...rest, dateTime: serializeDateTime(sale.dateTime) };
+}
+
+/**
+ * Devuelve la etiqueta en español de un tipo de venta.
+ * @param {SaleKind} kind - El tipo de venta.
+ * @returns {string} 'Minorista' o 'Mayorista'.
+ */
+export function getSaleKindLabel(kind: SaleKind): string {
+  return kind === 'wholesale' ? 'Mayorista' : 'Minorista';
+}
+
+/**
+ * Devuelve la etiqueta en español de un método de pago.
+ * @param {PaymentMethod} method - El método de pago.
+ * @returns {string} 'Efectivo', 'Tarjeta' o 'Transferencia'.
+ */
+export function getPaymentMethodLabel(method: PaymentMethod): string {
+  return method === 'cash' ? 'Efectivo' : method === 'card' ? 'Tarjeta' : 'Transferencia';
+}
+
+// --- Pagos ---
+
+/** Diferencia máxima admitida entre la suma de los pagos y el total (los importes usan 3 decimales). */
+export const PAYMENT_AMOUNT_TOLERANCE = 0.001;
+
+/**
+ * Resultado de cuadrar los pagos ingresados contra el total de la venta.
+ * @interface SalePaymentSummary
+ */
+export interface SalePaymentSummary {
+  /** Pagos agrupados por método, con el vuelto descontado del efectivo y sin importes nulos. */
+  payments: SalePayment[];
+  /** Suma de los importes ingresados. */
+  paid: number;
+  /** Importe que falta cubrir (0 si los pagos alcanzan el total). */
+  pending: number;
+  /** Vuelto a entregar en efectivo (0 si no hay excedente). */
+  change: number;
+  /** Verdadero si el excedente supera lo pagado en efectivo: solo el efectivo puede dar vuelto. */
+  changeExceedsCash: boolean;
+  /** Efectivo entregado por el cliente, o null si la venta no lleva pago en efectivo. */
+  cashTendered: number | null;
+  /** Verdadero si el efectivo recibido no alcanza la parte de la venta pagada en efectivo. */
+  cashTenderedShort: boolean;
+}
+
+/**
+ * Cuadra los pagos de una venta: los agrupa por método, calcula lo que falta y, si sobra, el vuelto,
+ * que solo puede salir del efectivo. Si se indica el efectivo recibido, el vuelto es lo recibido menos
+ * la parte de la venta pagada en efectivo; si no, lo recibido es lo ingresado en las líneas de efectivo.
+ * @param {SalePayment[]} payments - Los pagos ingresados (puede haber varios del mismo método).
+ * @param {number} totalAmount - El total de la venta.
+ * @param {number | null} [cashTendered] - El efectivo que entregó el cliente, si se anotó.
+ * @returns {SalePaymentSummary} Los pagos netos, lo pendiente, el efectivo recibido y el vuelto.
+ */
+export function summarizeSalePayments(payments: SalePayment[], totalAmount: number, cashTendered: number | null = null): SalePaymentSummary {
+  const byMethod = new Map<PaymentMethod, number>();
+  payments.forEach(payment => {
+    const amount = Number(payment.amount) || 0;
+    byMethod.set(payment.method, (byMethod.get(payment.method) ?? 0) + amount);
+  });
+  const paid = Array.from(byMethod.values()).reduce((sum, amount) => sum + amount, 0);
+  const excess = paid - totalAmount;
+  const pending = excess < -PAYMENT_AMOUNT_TOLERANCE ? -excess : 0;
+  const overpaid = excess > PAYMENT_AMOUNT_TOLERANCE ? excess : 0;
+  const cashPaid = byMethod.get('cash') ?? 0;
+  if (overpaid > 0) {
+    byMethod.set('cash', cashPaid - overpaid);
+  }
+  const netCash = Math.max(byMethod.get('cash') ?? 0, 0);
+  const hasCash = netCash > PAYMENT_AMOUNT_TOLERANCE;
+  const tendered = hasCash ? (cashTendered ?? cashPaid) : null;
+  const cashChange = tendered !== null ? tendered - netCash : 0;
+  return {
+    payments: Array.from(byMethod, ([method, amount]) => ({ method, amount })).filter(payment => payment.amount > PAYMENT_AMOUNT_TOLERANCE),
+    paid,
+    pending,
+    change: cashChange > PAYMENT_AMOUNT_TOLERANCE ? cashChange : 0,
+    changeExceedsCash: overpaid > cashPaid + PAYMENT_AMOUNT_TOLERANCE,
+    cashTendered: tendered,
+    cashTenderedShort: cashChange < -PAYMENT_AMOUNT_TOLERANCE,
+  };
+}
+
+/**
+ * Devuelve el importe de una venta pagado con un método.
+ * @param {Pick<SaleRecord, 'payments'>} sale - La venta.
+ * @param {PaymentMethod} method - El método de pago.
+ * @returns {number} La suma de los pagos de ese método (0 si no se usó).
+ */
+export function getSalePaymentAmount(sale: Pick<SaleRecord, 'payments'>, method: PaymentMethod): number {
+  return sale.payments.filter(payment => payment.method === method).reduce((sum, payment) => sum + payment.amount, 0);
+}
+
+/**
+ * Describe los pagos de una venta para tablas y recibos.
+ * @param {Pick<SaleRecord, 'payments'>} sale - La venta.
+ * @returns {string} P. ej. 'Efectivo' o 'Efectivo $5000.000 + Tarjeta $12500.000'.
+ */
+export function formatSalePayments(sale: Pick<SaleRecord, 'payments'>): string {
+  if (sale.payments.length === 1) {
+    return getPaymentMethodLabel(sale.payments[0].method);
+  }
+  return sale.payments.map(payment => `${getPaymentMethodLabel(payment.method)} $${payment.amount.toFixed(3)}`).join(' + ');
+}
+
+/**
+ * Pagos y efectivo recibido de una de las ventas en que se divide un carrito.
+ * @interface AllocatedSalePayments
+ */
+export interface AllocatedSalePayments {
+  /** Pagos de la venta, que suman su total. */
+  payments: SalePayment[];
+  /** Efectivo recibido atribuido a la venta, o null si no lleva efectivo o no se anotó. */
+  cashTendered: number | null;
+}
+
+/**
+ * Reparte los pagos de un carrito que se registra como varias ventas (p. ej., una minorista y una mayorista):
+ * cada venta toma, en orden, lo que necesita de cada método hasta cubrir su total, y la última se queda con el resto.
+ * El efectivo recibido se atribuye a las ventas con efectivo por su importe exacto, salvo la última de ellas,
+ * que recibe además el excedente: el vuelto sale de esa venta.
+ * @param {SalePayment[]} payments - Los pagos netos del carrito (ver `summarizeSalePayments`), que suman el total.
+ * @param {number | null} cashTendered - El efectivo que entregó el cliente, o null.
+ * @param {number[]} totals - El total de cada venta, en el orden en que se registran.
+ * @returns {AllocatedSalePayments[]} Los pagos y el efectivo recibido de cada venta, en el mismo orden.
+ */
+export function allocateSalePayments(payments: SalePayment[], cashTendered: number | null, totals: number[]): AllocatedSalePayments[] {
+  const remaining = payments.map(payment => ({ ...payment }));
+  const allocated = totals.map((total, index) => {
+    const isLast = index === totals.length - 1;
+    let due = total;
+    const salePayments: SalePayment[] = [];
+    for (const payment of remaining) {
+      const amount = isLast ? payment.amount : Math.min(payment.amount, due);
+      if (amount > PAYMENT_AMOUNT_TOLERANCE) {
+        salePayments.push({ method: payment.method, amount });
+        payment.amount -= amount;
+        due -= amount;
+      }
+      if (!isLast && due <= PAYMENT_AMOUNT_TOLERANCE) break;
+    }
+    return salePayments;
+  });
+
+  const cashAmounts = allocated.map(salePayments => getSalePaymentAmount({ payments: salePayments }, 'cash'));
+  let lastCashIndex = -1;
+  cashAmounts.forEach((amount, index) => {
+    if (amount > 0) lastCashIndex = index;
+  });
+  const otherCash = cashAmounts.reduce((sum, amount, index) => (index === lastCashIndex ? sum : sum + amount), 0);
+  return allocated.map((salePayments, index) => ({
+    payments: salePayments,
+    cashTendered: cashTendered === null || cashAmounts[index] === 0 ? null : index === lastCashIndex ? cashTendered - otherCash : cashAmounts[index],
+  }));
+}
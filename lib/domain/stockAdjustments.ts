@@ -0,0 +1,156 @@
+import * as z from 'zod';
+import { dateTimeSchema } from './dates';
+
+// --- Ajustes de stock ---
+// Alta o baja manual de unidades de un producto en un PDV por un motivo que no es una venta (roturas, robos,
+// vencimientos, testers). Son un movimiento propio para que las mermas no se mezclen con las ventas.
+
+// --- Esquemas ---
+
+/**
+ * Motivos de un ajuste:
+ * - `damage`: rotura o daño.
+ * - `theft`: robo o faltante.
+ * - `expiry`: producto vencido.
+ * - `sample`: muestra o tester.
+ */
+export const stockAdjustmentReasonSchema = z.enum(['damage', 'theft', 'expiry', 'sample']);
+
+/** Usuario que registró un ajuste. */
+export const stockAdjustmentActorSchema = z.object({
+  userId: z.string(),
+  userName: z.string(),
+});
+
+/**
+ * Esquema de un ajuste de stock tal como lo devuelve el backend. `quantity` es negativa para las bajas y positiva
+ * para las altas. `unitPrice` es el precio de venta del producto al registrar el ajuste, para valorar la merma.
+ * La salida convierte las fechas en `Date`.
+ */
+export const stockAdjustmentSchema = z.object({
+  id: z.string(),
+  pointOfSale: z.string(),
+  barcode: z.string(),
+  productName: z.string(),
+  brandName: z.string(),
+  quantity: z.number(),
+  reason: stockAdjustmentReasonSchema,
+  notes: z.string().nullish().transform(value => value ?? undefined),
+  unitPrice: z.number(),
+  /** Stock del producto antes y después del ajuste. */
+  quantityBefore: z.number(),
+  quantityAfter: z.number(),
+  createdAt: dateTimeSchema,
+  createdBy: stockAdjustmentActorSchema,
+});
+
+/**
+ * Esquema del formulario de ajuste, que también valida el cuerpo de `add_stock_adjustment.php`. La cantidad lleva
+ * signo: negativa para dar de baja, positiva para dar de alta.
+ */
+export const stockAdjustmentFormSchema = z.object({
+  pointOfSale: z.string().trim().min(1, "El PDV es requerido."),
+  barcode: z.string().trim().min(1, "Elija un producto."),
+  quantity: z.coerce.number()
+    .int("La cantidad debe ser un número entero.")
+    .refine(value => value !== 0, "La cantidad no puede ser 0."),
+  reason: z.enum(stockAdjustmentReasonSchema.options, { required_error: "El motivo es requerido." }),
+  notes: z.string().optional(),
+});
+
+// --- Tipos ---
+
+/** Motivo de un ajuste de stock. */
+export type StockAdjustmentReason = z.infer<typeof stockAdjustmentReasonSchema>;
+
+/** Usuario que registró un ajuste. */
+export type StockAdjustmentActor = z.infer<typeof stockAdjustmentActorSchema>;
+
+/** Un ajuste de stock, con su fecha como `Date`. */
+export type StockAdjustment = z.output<typeof stockAdjustmentSchema>;
+
+/** Un ajuste de stock tal como viaja en JSON (fecha como cadena ISO). */
+export type SerializedStockAdjustment = z.input<typeof stockAdjustmentSchema>;
+
+/** Valores del formulario de ajuste. */
+export type StockAdjustmentFormValues = z.infer<typeof stockAdjustmentFormSchema>;
+
+/**
+ * Merma de una marca por un motivo.
+ * @interface ShrinkageBrandRow
+ */
+export interface ShrinkageBrandRow {
+  brandName: string;
+  /** Unidades perdidas: las bajas menos las altas. */
+  units: number;
+  /** Valor de las unidades perdidas a precio de venta. */
+  value: number;
+  /** Cantidad de ajustes registrados. */
+  adjustments: number;
+}
+
+/**
+ * Merma de un motivo, con el detalle por marca.
+ * @interface ShrinkageReasonGroup
+ */
+export interface ShrinkageReasonGroup {
+  reason: StockAdjustmentReason;
+  units: number;
+  value: number;
+  adjustments: number;
+  /** Las marcas, de la de mayor valor perdido a la de menor. */
+  brands: ShrinkageBrandRow[];
+}
+
+// --- Utilidades ---
+
+const STOCK_ADJUSTMENT_REASON_LABELS: Record<StockAdjustmentReason, string> = {
+  damage: 'Rotura / daño',
+  theft: 'Robo / faltante',
+  expiry: 'Vencimiento',
+  sample: 'Muestra / tester',
+};
+
+/**
+ * Obtiene la etiqueta en español del motivo de un ajuste.
+ * @param {StockAdjustmentReason} reason - El motivo.
+ * @returns {string} La etiqueta del motivo.
+ */
+export function getStockAdjustmentReasonLabel(reason: StockAdjustmentReason): string {
+  return STOCK_ADJUSTMENT_REASON_LABELS[reason];
+}
+
+/**
+ * Agrupa los ajustes por motivo y marca para el informe de mermas. Las altas restan de las bajas del mismo grupo
+ * (p. ej., un tester que vuelve a la venta). Los ajustes deben estar ya acotados al período y los PDV del informe.
+ * @param {Pick<StockAdjustment, 'reason' | 'brandName' | 'quantity' | 'unitPrice'>[]} adjustments - Los ajustes.
+ * @returns {ShrinkageReasonGroup[]} Los motivos con ajustes, en el orden de `stockAdjustmentReasonSchema`.
+ */
+export function buildShrinkageReport(
+  adjustments: Pick<StockAdjustment, 'reason' | 'brandName' | 'quantity' | 'unitPrice'>[]
+): ShrinkageReasonGroup[] {
+  const groups = new Map<StockAdjustmentReason, Map<string, ShrinkageBrandRow>>();
+  adjustments.forEach(adjustment => {
+    const brands = groups.get(adjustment.reason) ?? new Map<string, ShrinkageBrandRow>();
+    groups.set(adjustment.reason, brands);
+    const row = brands.get(adjustment.brandName) ?? { brandName: adjustment.brandName, units: 0, value: 0, adjustments: 0 };
+    brands.set(adjustment.brandName, row);
+    row.units -= adjustment.quantity;
+    row.value -= adjustment.quantity * adjustment.unitPrice;
+    row.adjustments++;
+  });
+
+  return stockAdjustmentReasonSchema.options.flatMap(reason => {
+    const brands = groups.get(reason);
+    if (!brands) return [];
+    const rows = Array.from(brands.values())
+      .sort((a, b) => b.value - a.value || a.brandName.localeCompare(b.brandName, 'es'));
+    return [{
+      reason,
+      units: rows.reduce((sum, row) => sum + row.units, 0),
+      value: rows.reduce((sum, row) => sum + row.value, 0),
+      adjustments: rows.reduce((sum, row) => sum + row.adjustments, 0),
+      brands: rows,
+    }];
+  });
+}
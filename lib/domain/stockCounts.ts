@@ -0,0 +1,165 @@
+import * as z from 'zod';
+import { dateTimeSchema } from './dates';
+
+// --- Conteos de stock ---
+// Recuento físico de un PDV (o de una marca dentro de él). Al iniciarlo se copia la cantidad del sistema de cada
+// producto; el personal carga lo que hay en la estantería y un encargado contabiliza las diferencias con un motivo.
+
+// --- Esquemas ---
+
+/**
+ * Estados de un conteo:
+ * - `counting`: abierto; se pueden cargar y corregir cantidades.
+ * - `posted`: contabilizado; las diferencias ya ajustaron el stock.
+ * - `cancelled`: anulado sin tocar el stock.
+ */
+export const stockCountStatusSchema = z.enum(['counting', 'posted', 'cancelled']);
+
+/** Esquema de una línea de un conteo. */
+export const stockCountItemSchema = z.object({
+  barcode: z.string(),
+  productName: z.string(),
+  brandName: z.string(),
+  /** Cantidad del sistema al iniciar el conteo. */
+  expectedQuantity: z.number(),
+  /** Cantidad contada en la estantería; null mientras no se contó. */
+  countedQuantity: z.number().nullable(),
+  /** Ajuste aplicado al stock al contabilizar; null hasta entonces o si la línea no se contó. */
+  adjustment: z.number().nullable(),
+});
+
+/** Usuario que hizo un paso del conteo (iniciarlo o contabilizarlo). */
+export const stockCountActorSchema = z.object({
+  userId: z.string(),
+  userName: z.string(),
+});
+
+/**
+ * Esquema de un conteo tal como lo devuelve el backend. `brand` es null si el conteo abarca todo el PDV.
+ * La fecha, el usuario y el motivo de la contabilización son null hasta que el conteo se contabiliza.
+ * La salida convierte las fechas en `Date`.
+ */
+export const stockCountSchema = z.object({
+  id: z.string(),
+  pointOfSale: z.string(),
+  brand: z.string().nullable(),
+  status: stockCountStatusSchema,
+  items: z.array(stockCountItemSchema),
+  notes: z.string().nullish().transform(value => value ?? undefined),
+  createdAt: dateTimeSchema,
+  createdBy: stockCountActorSchema,
+  postedAt: dateTimeSchema.nullable(),
+  postedBy: stockCountActorSchema.nullable(),
+  /** Motivo de los ajustes, indicado al contabilizar. */
+  reason: z.string().nullable(),
+});
+
+/**
+ * Esquema del formulario para iniciar un conteo, que también valida el cuerpo de `add_stock_count.php`.
+ * Una marca vacía cuenta todo el PDV.
+ */
+export const stockCountFormSchema = z.object({
+  pointOfSale: z.string().trim().min(1, "El PDV es requerido."),
+  brand: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+/**
+ * Esquema de los cambios de `update_stock_count.php`: cantidades contadas (null borra lo contado), notas y,
+ * para anular el conteo, `status: 'cancelled'`.
+ */
+export const stockCountUpdateSchema = z.object({
+  counts: z.array(z.object({
+    barcode: z.string().trim().min(1),
+    countedQuantity: z.coerce.number().int().nonnegative().nullable(),
+  })).optional(),
+  notes: z.string().optional(),
+  status: z.custom<'cancelled'>(value => value === 'cancelled', "Estado inválido. Solo se puede anular (cancelled); para contabilizar use post_stock_count.php.").optional(),
+});
+
+/** Esquema del cuerpo de `post_stock_count.php`: el motivo de los ajustes. */
+export const stockCountPostSchema = z.object({
+  reason: z.string().trim().min(1),
+});
+
+// --- Tipos ---
+
+/** Estado de un conteo. */
+export type StockCountStatus = z.infer<typeof stockCountStatusSchema>;
+
+/** Una línea de un conteo. */
+export type StockCountItem = z.infer<typeof stockCountItemSchema>;
+
+/** Usuario que hizo un paso del conteo. */
+export type StockCountActor = z.infer<typeof stockCountActorSchema>;
+
+/** Un conteo, con sus fechas como `Date`. */
+export type StockCount = z.output<typeof stockCountSchema>;
+
+/** Un conteo tal como viaja en JSON (fechas como cadenas ISO). */
+export type SerializedStockCount = z.input<typeof stockCountSchema>;
+
+/** Valores del formulario para iniciar un conteo. */
+export type StockCountFormValues = z.infer<typeof stockCountFormSchema>;
+
+/**
+ * Resumen del avance y las diferencias de un conteo.
+ * @interface StockCountSummary
+ */
+export interface StockCountSummary {
+  /** Líneas ya contadas. */
+  counted: number;
+  /** Líneas sin contar. */
+  pending: number;
+  /** Líneas contadas cuya cantidad difiere de la del sistema. */
+  withVariance: number;
+  /** Suma de las diferencias en unidades (negativa si falta mercadería). */
+  unitsVariance: number;
+}
+
+// --- Utilidades ---
+
+const STOCK_COUNT_STATUS_LABELS: Record<StockCountStatus, string> = {
+  counting: 'En conteo',
+  posted: 'Contabilizado',
+  cancelled: 'Anulado',
+};
+
+/**
+ * Obtiene la etiqueta en español del estado de un conteo.
+ * @param {StockCountStatus} status - El estado.
+ * @returns {string} La etiqueta del estado.
+ */
+export function getStockCountStatusLabel(status: StockCountStatus): string {
+  return STOCK_COUNT_STATUS_LABELS[status];
+}
+
+/**
+ * Calcula la diferencia de una línea: lo contado menos lo que había en el sistema al iniciar el conteo.
+ * @param {Pick<StockCountItem, 'expectedQuantity' | 'countedQuantity'>} item - La línea.
+ * @returns {number | null} La diferencia (negativa si falta mercadería), o null si la línea no se contó.
+ */
+export function getStockCountVariance(item: Pick<StockCountItem, 'expectedQuantity' | 'countedQuantity'>): number | null {
+  return item.countedQuantity === null ? null : item.countedQuantity - item.expectedQuantity;
+}
+
+/**
+ * Resume el avance y las diferencias de un conteo.
+ * @param {Pick<StockCount, 'items'>} count - El conteo.
+ * @returns {StockCountSummary} Las líneas contadas, pendientes y con diferencia, y la diferencia total en unidades.
+ */
+export function getStockCountSummary(count: Pick<StockCount, 'items'>): StockCountSummary {
+  return count.items.reduce<StockCountSummary>((summary, item) => {
+    const variance = getStockCountVariance(item);
+    if (variance === null) {
+      summary.pending++;
+      return summary;
+    }
+    summary.counted++;
+    if (variance !== 0) {
+      summary.withVariance++;
+      summary.unitsVariance += variance;
+    }
+    return summary;
+  }, { counted: 0, pending: 0, withVariance: 0, unitsVariance: 0 });
+}
@@ -0,0 +1,98 @@
+import * as z from 'zod';
+import { dateTimeSchema, serializeDateTime } from './dates';
+import { priceTierSchema } from './inventory';
+
+// --- Esquemas ---
+
+/** Esquema de una línea de producto de una entrada de proveedor. */
+export const supplierRecordProductSchema = z.object({
+  barcode: z.string(),
+  productName: z.string(),
+  brandName: z.string(),
+  quantity: z.number(),
+  purchasePrice: z.number(),
+  description: z.string().nullish(),
+  /** Precio de venta en el PDV antes de la entrada; ausente si el producto es nuevo para el sistema. */
+  oldSellingPrice: z.number().nullish().transform(value => value ?? undefined),
+  newSellingPrice: z.number().nullish(),
+  /** Tramos de precio por volumen fijados en la entrada; null si no se cambiaron. */
+  priceTiers: z.array(priceTierSchema).nullish(),
+  lowStockThreshold: z.number().nullish(),
+});
+
+/**
+ * Esquema de una entrada de proveedor tal como la devuelve el backend.
+ * La salida convierte `dateTime` en `Date`.
+ */
+export const supplierRecordSchema = z.object({
+  id: z.string(),
+  dateTime: dateTimeSchema,
+  supplierName: z.string(),
+  pointOfSale: z.string(),
+  userId: z.string().nullable(),
+  userName: z.string().nullish().transform(value => value ?? undefined),
+  products: z.array(supplierRecordProductSchema),
+  /** La orden de compra que se recibió con esta entrada, o null. */
+  purchaseOrderId: z.string().nullish().transform(value => value ?? null),
+});
+
+/** Número opcional del cuerpo de una entrada: vacío, null o ausente significa que no se indicó. */
+const optionalNumberPayload = z.preprocess(value => (value === '' ? null : value), z.coerce.number().nullish());
+
+/**
+ * Esquema de un producto en el cuerpo de `add_supplier_entry.php`. Los campos opcionales que no llegan conservan
+ * el valor actual del producto; unos `priceTiers` vacíos quitan los tramos (se validan con `validatePriceTiers`).
+ */
+export const supplierEntryProductPayloadSchema = z.object({
+  barcode: z.string().trim().min(1),
+  productName: z.string().trim().min(1),
+  brandName: z.string().trim().min(1),
+  quantity: z.coerce.number().int().positive(),
+  purchasePrice: z.coerce.number().positive(),
+  sellingPrice: optionalNumberPayload,
+  imageUrl: z.string().trim().nullish(),
+  description: z.string().trim().nullish(),
+  aiHint: z.string().trim().nullish(),
+  priceTiers: z.array(z.object({ minQuantity: z.coerce.number(), price: z.coerce.number() })).nullish(),
+  lowStockThreshold: optionalNumberPayload,
+});
+
+/** Esquema del cuerpo de `add_supplier_entry.php`. Con `purchaseOrderId`, la entrada recibe esa orden de compra. */
+export const supplierEntryPayloadSchema = z.object({
+  supplierName: z.string().trim().min(1),
+  pointOfSale: z.string().trim().min(1),
+  products: z.array(supplierEntryProductPayloadSchema).min(1),
+  purchaseOrderId: z.string().trim().nullish(),
+});
+
+// --- Tipos ---
+
+/** Una línea de producto recibida en una entrada de proveedor. */
+export type SupplierRecordProduct = z.output<typeof supplierRecordProductSchema>;
+
+/** Una entrada de proveedor registrada, con `dateTime` ya convertido a `Date`. */
+export type SupplierRecord = z.output<typeof supplierRecordSchema>;
+
+/** Una entrada de proveedor tal como viaja en JSON: `dateTime` es una cadena. */
+export type SerializedSupplierRecord = z.input<typeof supplierRecordSchema>;
+
+// --- (De)serialización ---
+
+/**
+ * Convierte una entrada de proveedor recibida en JSON en un `SupplierRecord`.
+ * @param {unknown} raw - La entrada serializada.
+ * @returns {SupplierRecord} La entrada validada.
+ * @throws {z.ZodError} Si la entrada no tiene la forma esperada.
+ */
+export function deserializeSupplierRecord(raw: unknown): SupplierRecord {
+  return supplierRecordSchema.parse(raw);
+}
+
+/**
+ * Convierte una entrada de proveedor en su forma JSON.
+ * @param {SupplierRecord} entry - La entrada.
+ * @returns {SerializedSupplierRecord} La entrada lista para `JSON.stringify`.
+ */
+export function serializeSupplierRecord(entry: SupplierRecord): SerializedSupplierRecord {
+  return { ...entry, dateTime: serializeDateTime(entry.dateTime) };
+}
@@ -0,0 +1,122 @@
+import * as z from 'zod';
+import { dateTimeSchema } from './dates';
+
+// --- Traspasos entre PDV ---
+// Documento que mueve mercadería de un PDV a otro (p. ej., del almacén a una tienda). Nace como borrador,
+// descuenta el stock del origen al despacharse y lo suma en el destino al recibirse. Un borrador se puede anular.
+
+// --- Esquemas ---
+
+/**
+ * Estados de un traspaso:
+ * - `draft`: borrador editable; todavía no mueve stock.
+ * - `in_transit`: despachado; el stock ya salió del origen.
+ * - `received`: recibido; el stock ya entró en el destino.
+ * - `cancelled`: borrador anulado sin mover stock.
+ */
+export const stockTransferStatusSchema = z.enum(['draft', 'in_transit', 'received', 'cancelled']);
+
+/** Esquema de una línea de un traspaso: el producto y las unidades que se mueven. */
+export const stockTransferItemSchema = z.object({
+  barcode: z.string(),
+  productName: z.string(),
+  brandName: z.string(),
+  quantity: z.number(),
+});
+
+/** Usuario que hizo un paso del traspaso (crearlo, despacharlo o recibirlo). */
+export const stockTransferActorSchema = z.object({
+  userId: z.string(),
+  userName: z.string(),
+});
+
+/**
+ * Esquema de un traspaso tal como lo devuelve el backend. Las fechas y usuarios de despacho y recepción son null
+ * hasta que el traspaso llega a ese estado. La salida convierte las fechas en `Date`.
+ */
+export const stockTransferSchema = z.object({
+  id: z.string(),
+  origin: z.string(),
+  destination: z.string(),
+  status: stockTransferStatusSchema,
+  items: z.array(stockTransferItemSchema),
+  notes: z.string().nullish().transform(value => value ?? undefined),
+  createdAt: dateTimeSchema,
+  createdBy: stockTransferActorSchema,
+  dispatchedAt: dateTimeSchema.nullable(),
+  dispatchedBy: stockTransferActorSchema.nullable(),
+  receivedAt: dateTimeSchema.nullable(),
+  receivedBy: stockTransferActorSchema.nullable(),
+});
+
+/** Campos de un traspaso que carga el usuario: PDV de origen y destino, líneas por código de barras y notas. */
+const stockTransferFieldsSchema = z.object({
+  origin: z.string().trim().min(1, "El PDV de origen es requerido."),
+  destination: z.string().trim().min(1, "El PDV de destino es requerido."),
+  items: z.array(z.object({
+    barcode: z.string().trim().min(1, "Elija un producto del PDV de origen."),
+    quantity: z.coerce.number().int("La cantidad debe ser un número entero.").positive("La cantidad debe ser mayor que 0."),
+  })).min(1, "Se requiere al menos un producto."),
+  notes: z.string().optional(),
+});
+
+/** Esquema del formulario de traspaso, que también valida el cuerpo de `add_stock_transfer.php`. */
+export const stockTransferFormSchema = stockTransferFieldsSchema.refine(values => values.origin !== values.destination, {
+  message: "El destino debe ser distinto del origen.",
+  path: ['destination'],
+});
+
+/**
+ * Esquema de los cambios de `update_stock_transfer.php`: los campos presentes del formulario y, para anular el
+ * borrador, `status: 'cancelled'`. Origen y destino se comparan después con los valores guardados.
+ */
+export const stockTransferUpdateSchema = stockTransferFieldsSchema.partial().extend({
+  status: z.custom<'cancelled'>(value => value === 'cancelled', "Estado inválido. Un traspaso solo se puede anular (cancelled).").optional(),
+});
+
+// --- Tipos ---
+
+/** Estado de un traspaso. */
+export type StockTransferStatus = z.infer<typeof stockTransferStatusSchema>;
+
+/** Una línea de un traspaso. */
+export type StockTransferItem = z.infer<typeof stockTransferItemSchema>;
+
+/** Usuario que hizo un paso del traspaso. */
+export type StockTransferActor = z.infer<typeof stockTransferActorSchema>;
+
+/** Un traspaso, con sus fechas como `Date`. */
+export type StockTransfer = z.output<typeof stockTransferSchema>;
+
+/** Un traspaso tal como viaja en JSON (fechas como cadenas ISO). */
+export type SerializedStockTransfer = z.input<typeof stockTransferSchema>;
+
+/** Valores del formulario de traspaso. */
+export type StockTransferFormValues = z.infer<typeof stockTransferFormSchema>;
+
+// --- Utilidades ---
+
+const STOCK_TRANSFER_STATUS_LABELS: Record<StockTransferStatus, string> = {
+  draft: 'Borrador',
+  in_transit: 'En tránsito',
+  received: 'Recibido',
+  cancelled: 'Anulado',
+};
+
+/**
+ * Obtiene la etiqueta en español del estado de un traspaso.
+ * @param {StockTransferStatus} status - El estado.
+ * @returns {string} La etiqueta del estado.
+ */
+export function getStockTransferStatusLabel(status: StockTransferStatus): string {
+  return STOCK_TRANSFER_STATUS_LABELS[status];
+}
+
+/**
+ * Suma las unidades de un traspaso.
+ * @param {Pick<StockTransfer, 'items'>} transfer - El traspaso.
+ * @returns {number} El total de unidades de todas sus líneas.
+ */
+export function getStockTransferUnits(transfer: Pick<StockTransfer, 'items'>): number {
+  return transfer.items.reduce((sum, item) => sum + item.quantity, 0);
+}
@@ -0,0 +1,87 @@
+import * as z from 'zod';
+import { dateTimeSchema } from './dates';
+import { roleSchema } from './permissions';
+
+// --- Usuarios ---
+
+/** Longitud mínima de las contraseñas que se asignan desde la administración de usuarios. */
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Esquema de un usuario tal como lo expone el backend (sin credenciales).
+ * `role` determina sus capacidades; `allowedPOS` contiene los PDV a los que tiene acceso ('*' indica todos).
+ */
+export const userSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  username: z.string(),
+  role: roleSchema,
+  allowedPOS: z.array(z.string()),
+});
+
+/**
+ * Interfaz que representa un usuario autenticado en la aplicación.
+ * Las contraseñas nunca salen del backend.
+ */
+export type User = z.infer<typeof userSchema>;
+
+/**
+ * Esquema de un usuario en la pantalla de administración: el usuario público más si la cuenta
+ * está activa y la fecha de su último inicio de sesión (null si nunca ha entrado).
+ */
+export const managedUserSchema = userSchema.extend({
+  active: z.boolean(),
+  lastLoginAt: dateTimeSchema.nullable(),
+});
+
+export type ManagedUser = z.infer<typeof managedUserSchema>;
+
+/** Forma JSON de `ManagedUser` (fechas como cadenas ISO), tal como la devuelve el backend. */
+export type SerializedManagedUser = z.input<typeof managedUserSchema>;
+
+/**
+ * Esquema del formulario de la pantalla de usuarios, compartido por el alta y la edición.
+ * `password` puede quedar vacío al editar (no se cambia); al crear, la página exige que se indique.
+ */
+export const userFormSchema = z.object({
+  name: z.string().trim().min(1, "El nombre es requerido."),
+  username: z.string().trim().min(1, "El nombre de usuario es requerido.").regex(/^[a-zA-Z0-9._-]+$/, "Solo letras, números, punto, guion y guion bajo."),
+  password: z.string().refine(value => value === '' || value.length >= MIN_PASSWORD_LENGTH, `La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres.`),
+  role: roleSchema,
+  allowedPOS: z.array(z.string()).min(1, "Selecciona al menos un Punto de Venta."),
+});
+
+/** Valores del formulario de usuario. */
+export type UserFormValues = z.infer<typeof userFormSchema>;
+
+/** Esquema de una contraseña asignada desde la administración de usuarios. */
+const newPasswordSchema = z.string().min(MIN_PASSWORD_LENGTH, `La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres.`);
+
+/**
+ * Esquema del cuerpo de `add_user.php`. Los PDV de `allowedPOS` ('*' para todos) se comprueban contra los
+ * existentes al crear el usuario.
+ */
+export const userPayloadSchema = z.object({
+  name: z.string().trim().min(1),
+  username: z.string().trim().min(1),
+  password: newPasswordSchema,
+  role: roleSchema,
+  allowedPOS: z.array(z.string()),
+});
+
+/** Esquema del cuerpo de `update_user.php` (sin el `id`): solo llegan los campos que cambian. */
+export const userUpdateSchema = userPayloadSchema.pick({ role: true, allowedPOS: true }).partial().extend({
+  name: z.string().trim().min(1, "El nombre no puede estar vacío.").optional(),
+  active: z.boolean().optional(),
+});
+
+/** Esquema del cuerpo de `reset_user_password.php` (sin el `id`). */
+export const userPasswordResetSchema = z.object({
+  password: newPasswordSchema,
+});
+
+/** Esquema de las credenciales con las que se inicia sesión o un encargado aprueba un descuento. */
+export const credentialsSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1),
+});
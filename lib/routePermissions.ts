@@ -0,0 +1,63 @@
+import type { Capability } from '@/lib/domain';
+
+// --- Permisos por ruta ---
+// Mapa declarativo de qué capacidad exige cada página. Lo aplican el middleware de Next (antes de
+// enviar la página) y `ProtectedRoutes` (en el cliente), y el encabezado lo usa para mostrar los enlaces.
+
+/** Ruta de la página de inicio de sesión, la única accesible sin sesión. */
+export const LOGIN_ROUTE = '/login';
+
+/** Ruta a la que el middleware reescribe las peticiones sin permiso para mostrar la vista 403. */
+export const FORBIDDEN_ROUTE = '/forbidden';
+
+/**
+ * Capacidad requerida por cada página. Una entrada cubre también sus subrutas
+ * (p. ej., '/grafica' protege '/grafica/desglose'), salvo '/', que solo cubre la página de inicio.
+ */
+export const ROUTE_PERMISSIONS: Readonly<Record<string, Capability>> = {
+  '/': 'view_inventory',
+  '/product-descriptions': 'view_inventory',
+  '/out-of-stock': 'view_inventory',
+  '/low-stock': 'view_inventory',
+  '/sales': 'sell',
+  '/wholesale-sales': 'wholesale_sell',
+  '/suppliers': 'receive_stock',
+  '/transfers': 'transfer_stock',
+  '/purchase-orders': 'manage_purchase_orders',
+  '/stock-counts': 'count_stock',
+  '/stock-adjustments': 'adjust_stock',
+  '/invoices': 'manage_invoices',
+  '/caja': 'view_caja',
+  '/grafica': 'view_charts',
+  '/promotions': 'manage_promotions',
+  '/customers': 'manage_customers',
+  '/users': 'manage_users',
+  '/audit': 'view_audit',
+};
+
+/**
+ * Indica si una ruta es accesible sin sesión.
+ * @param {string} pathname - La ruta solicitada.
+ * @returns {boolean} Verdadero para la página de inicio de sesión.
+ */
+export function isPublicRoute(pathname: string): boolean {
+  return pathname === LOGIN_ROUTE;
+}
+
+/**
+ * Obtiene la capacidad que exige una ruta, buscando la entrada más específica del mapa.
+ * @param {string} pathname - La ruta solicitada.
+ * @returns {Capability | null} La capacidad requerida, o null si la ruta solo exige haber iniciado sesión.
+ */
+export function getRouteCapability(pathname: string): Capability | null {
+  let bestMatch: string | null = null;
+  for (const route of Object.keys(ROUTE_PERMISSIONS)) {
+    const matches = route === '/'
+      ? pathname === '/'
+      : pathname === route || pathname.startsWith(`${route}/`);
+    if (matches && (!bestMatch || route.length > bestMatch.length)) {
+      bestMatch = route;
+    }
+  }
+  return bestMatch ? ROUTE_PERMISSIONS[bestMatch] : null;
+}
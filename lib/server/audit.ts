@@ -0,0 +1,159 @@
+import {
+  AUDIT_ACTION_ENTITY_TYPES,
+  auditActionSchema,
+  CLIENT_AUDIT_ACTION_CAPABILITIES,
+  clientAuditEventSchema,
+  hasPosAccess,
+  parseDateTime,
+  type AuditAction,
+  type SerializedAuditEntry,
+  type User,
+} from '@/lib/domain';
+import { requireCapability } from './auth';
+import { HttpError, parseDateParam, parseJsonBody } from './http';
+import { generateId, type Database } from './store';
+
+/**
+ * Autor de una acción auditada: el usuario de la sesión que la hizo. Toda escritura que se audita exige sesión.
+ * @interface AuditActor
+ */
+export interface AuditActor {
+  userId: string;
+  userName: string;
+}
+
+/**
+ * Datos de una entrada nueva del registro de auditoría.
+ * @interface AuditEntryInput
+ */
+export interface AuditEntryInput {
+  action: AuditAction;
+  /** Código de barras, ID de venta, entrada o factura, o clave de los ajustes. */
+  entityId: string;
+  /** PDV afectado, o null si la acción no pertenece a un PDV (facturas, ajustes de caja). */
+  pointOfSale: string | null;
+  /** Valores antes del cambio, o null si la acción crea la entidad. */
+  before: unknown;
+  /** Valores después del cambio. */
+  after: unknown;
+}
+
+/**
+ * Filtros admitidos por `get_audit_log.php`.
+ * @interface AuditLogFilters
+ */
+export interface AuditLogFilters {
+  from: Date | null;
+  to: Date | null;
+  pointOfSale: string | null;
+  action: AuditAction | null;
+}
+
+/**
+ * Añade una entrada al registro de auditoría. Es la única forma de escribir en `db.auditLog`:
+ * las entradas no se modifican ni se borran. Debe ejecutarse dentro de la misma transacción que
+ * la mutación auditada, para que ambas se guarden o se descarten juntas.
+ *
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {AuditActor} actor - El autor de la acción.
+ * @param {AuditEntryInput} input - La acción, la entidad y los valores antes y después.
+ * @returns {SerializedAuditEntry} La entrada guardada.
+ */
+export function appendAuditEntry(db: Database, actor: AuditActor, input: AuditEntryInput): SerializedAuditEntry {
+  const entry: SerializedAuditEntry = {
+    id: generateId('audit'),
+    dateTime: new Date().toISOString(),
+    userId: actor.userId,
+    userName: actor.userName,
+    pointOfSale: input.pointOfSale,
+    entityType: AUDIT_ACTION_ENTITY_TYPES[input.action],
+    entityId: input.entityId,
+    action: input.action,
+    before: input.before ?? null,
+    after: input.after ?? null,
+  };
+  db.auditLog.push(entry);
+  return entry;
+}
+
+/**
+ * Registra una acción hecha en el cliente (`record_audit_event.php`): altas y ediciones de facturas y
+ * guardado de los ajustes de caja, que se guardan en el navegador. Exige una sesión cuyo rol tenga la
+ * capacidad correspondiente a la acción; el autor siempre es el usuario de la sesión.
+ *
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ action, entityId, pointOfSale?, before, after }`.
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @returns {SerializedAuditEntry} La entrada guardada.
+ * @throws {HttpError} 400 si la acción no se registra desde el cliente o faltan datos, 401 sin sesión, 403 sin permiso.
+ */
+export function recordClientAuditEvent(db: Database, input: unknown, token: string | null): SerializedAuditEntry {
+  const clientActions = Object.keys(CLIENT_AUDIT_ACTION_CAPABILITIES).join(', ');
+  const { action, entityId, pointOfSale, before, after } = parseJsonBody(
+    clientAuditEventSchema,
+    input,
+    `Faltan campos requeridos. Campos requeridos: action (${clientActions}), entityId, after.`
+  );
+  const capability = CLIENT_AUDIT_ACTION_CAPABILITIES[action];
+  if (!capability) {
+    throw new HttpError(400, `Acción de auditoría inválida: ${action}. Valores permitidos: ${clientActions}.`);
+  }
+
+  const session = requireCapability(db, token, capability);
+  if (pointOfSale && !hasPosAccess(session.user, pointOfSale)) {
+    throw new HttpError(403, `No tienes acceso al Punto de Venta ${pointOfSale}.`);
+  }
+  return appendAuditEntry(db, { userId: session.user.id, userName: session.user.name }, {
+    action,
+    entityId,
+    pointOfSale: pointOfSale || null,
+    before: before ?? null,
+    after,
+  });
+}
+
+/**
+ * Lee los filtros del registro de auditoría (`from`, `to`, `pointOfSale`, `action`) de la query string.
+ * @param {URLSearchParams} searchParams - Los parámetros de la petición.
+ * @returns {AuditLogFilters} Los filtros.
+ * @throws {HttpError} 400 si alguna fecha es inválida, `from` es posterior a `to` o la acción no existe.
+ */
+export function parseAuditLogFilters(searchParams: URLSearchParams): AuditLogFilters {
+  const from = parseDateParam(searchParams, 'from');
+  const to = parseDateParam(searchParams, 'to');
+  if (from && to && from > to) {
+    throw new HttpError(400, 'El parámetro "from" no puede ser posterior a "to".');
+  }
+  const action = searchParams.get('action') || null;
+  if (action !== null && !auditActionSchema.safeParse(action).success) {
+    throw new HttpError(400, `Acción de auditoría inválida: ${action}`);
+  }
+  return {
+    from,
+    to,
+    pointOfSale: searchParams.get('pointOfSale')?.trim() || null,
+    action: action as AuditAction | null,
+  };
+}
+
+/**
+ * Filtra el registro de auditoría (`get_audit_log.php`). Solo devuelve las entradas de los PDV a los que
+ * tiene acceso el usuario, además de las que no pertenecen a ningún PDV.
+ *
+ * @param {Database} db - La base de datos.
+ * @param {AuditLogFilters} filters - Los filtros.
+ * @param {User} user - El usuario que consulta el registro.
+ * @returns {SerializedAuditEntry[]} Las entradas, de la más reciente a la más antigua.
+ */
+export function queryAuditLog(db: Database, filters: AuditLogFilters, user: User): SerializedAuditEntry[] {
+  return db.auditLog
+    .filter(entry => {
+      const time = parseDateTime(entry.dateTime).getTime();
+      return (!entry.pointOfSale || hasPosAccess(user, entry.pointOfSale))
+        && (!filters.from || time >= filters.from.getTime())
+        && (!filters.to || time <= filters.to.getTime())
+        && (!filters.pointOfSale || entry.pointOfSale === filters.pointOfSale)
+        && (!filters.action || entry.action === filters.action);
+    })
+    .reverse();
+}
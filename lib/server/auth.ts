@@ -0,0 +1,280 @@
+import { createHash, randomBytes } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import { hasCapability, type Capability, type User } from '@/lib/domain';
+import { ROLE_COOKIE_NAME, SESSION_COOKIE_NAME } from './authCookies';
+import { HttpError } from './http';
+import { verifyPassword } from './passwords';
+import type { Database, StoredSession, StoredUser } from './store';
+
+// --- Configuración de sesiones ---
+
+/** Tiempo de inactividad tras el que caduca una sesión (ms). */
+export const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+/** Intentos fallidos consecutivos que bloquean la cuenta. */
+const MAX_FAILED_LOGIN_ATTEMPTS = 5;
+/** Duración del bloqueo tras superar los intentos fallidos (ms). */
+const LOCKOUT_DURATION_MS = 15 * 60 * 1000;
+
+// Hash con el que se compara la contraseña cuando el usuario no existe, para que la respuesta
+// tarde lo mismo y no revele qué nombres de usuario son válidos.
+const DUMMY_PASSWORD_HASH = 'scrypt$00000000000000000000000000000000$' + '0'.repeat(128);
+
+/**
+ * Sesión resuelta: el usuario público y el momento en que caduca si no hay actividad.
+ * @interface SessionInfo
+ */
+export interface SessionInfo {
+  user: User;
+  /** Fecha ISO de caducidad por inactividad. */
+  expiresAt: string;
+}
+
+/**
+ * Resultado de un intento de inicio de sesión. Los fallos no se lanzan como excepción para que
+ * la transacción guarde igualmente el contador de intentos fallidos.
+ */
+export type LoginAttemptResult =
+  | { ok: true; session: SessionInfo; token: string }
+  | { ok: false; status: 401 | 403 | 423; message: string };
+
+/**
+ * Quita las credenciales y el estado de bloqueo de un usuario guardado.
+ * @param {StoredUser} user - El usuario guardado.
+ * @returns {User} El usuario público.
+ */
+export function toPublicUser(user: StoredUser): User {
+  return { id: user.id, name: user.name, username: user.username, role: user.role, allowedPOS: user.allowedPOS };
+}
+
+/**
+ * Calcula el hash SHA-256 de un token de sesión, que es lo que se guarda en la base de datos.
+ * @param {string} token - El token en claro.
+ * @returns {string} El hash en hexadecimal.
+ */
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Calcula la fecha de caducidad por inactividad de una sesión.
+ * @param {StoredSession} session - La sesión.
+ * @returns {number} El timestamp de caducidad.
+ */
+function sessionExpiryTime(session: StoredSession): number {
+  return new Date(session.lastSeenAt).getTime() + SESSION_IDLE_TIMEOUT_MS;
+}
+
+/**
+ * Elimina las sesiones caducadas.
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {number} now - El timestamp actual.
+ */
+function pruneExpiredSessions(db: Database, now: number): void {
+  db.sessions = db.sessions.filter(session => sessionExpiryTime(session) > now);
+}
+
+/**
+ * Resultado de comprobar unas credenciales: el usuario guardado o el motivo del fallo.
+ */
+export type CredentialCheckResult =
+  | { ok: true; user: StoredUser }
+  | { ok: false; status: 401 | 403 | 423; message: string };
+
+/**
+ * Comprueba un usuario y su contraseña, llevando la cuenta de intentos fallidos.
+ * Tras `MAX_FAILED_LOGIN_ATTEMPTS` fallos consecutivos la cuenta queda bloqueada durante `LOCKOUT_DURATION_MS`.
+ * La usan el inicio de sesión y la aprobación de descuentos. Debe ejecutarse dentro de `withTransaction`.
+ *
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {string} username - El nombre de usuario.
+ * @param {string} password - La contraseña en texto plano.
+ * @returns {Promise<CredentialCheckResult>} El usuario, o el motivo del fallo.
+ */
+export async function verifyCredentials(db: Database, username: string, password: string): Promise<CredentialCheckResult> {
+  const now = Date.now();
+  const user = db.users.find(u => u.username === username);
+
+  if (!user) {
+    await verifyPassword(password, DUMMY_PASSWORD_HASH);
+    return { ok: false, status: 401, message: 'Nombre de usuario o contraseña incorrectos.' };
+  }
+
+  if (user.lockedUntil && new Date(user.lockedUntil).getTime() > now) {
+    const minutesLeft = Math.ceil((new Date(user.lockedUntil).getTime() - now) / 60000);
+    return { ok: false, status: 423, message: `Cuenta bloqueada por demasiados intentos fallidos. Intente de nuevo en ${minutesLeft} minuto(s).` };
+  }
+
+  if (!(await verifyPassword(password, user.passwordHash))) {
+    user.failedLoginAttempts += 1;
+    if (user.failedLoginAttempts >= MAX_FAILED_LOGIN_ATTEMPTS) {
+      user.failedLoginAttempts = 0;
+      user.lockedUntil = new Date(now + LOCKOUT_DURATION_MS).toISOString();
+      return { ok: false, status: 423, message: `Demasiados intentos fallidos. La cuenta quedó bloqueada durante ${LOCKOUT_DURATION_MS / 60000} minutos.` };
+    }
+    return { ok: false, status: 401, message: 'Nombre de usuario o contraseña incorrectos.' };
+  }
+
+  // Solo se informa de que la cuenta está desactivada a quien conoce la contraseña.
+  if (!user.active) {
+    return { ok: false, status: 403, message: 'Esta cuenta está desactivada. Contacte con un administrador.' };
+  }
+
+  user.failedLoginAttempts = 0;
+  user.lockedUntil = null;
+  return { ok: true, user };
+}
+
+/**
+ * Comprueba las credenciales (ver `verifyCredentials`) y, si son correctas, crea una sesión nueva.
+ * Debe ejecutarse dentro de `withTransaction`.
+ *
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {string} username - El nombre de usuario.
+ * @param {string} password - La contraseña en texto plano.
+ * @returns {Promise<LoginAttemptResult>} La sesión y su token, o el motivo del fallo.
+ */
+export async function attemptLogin(db: Database, username: string, password: string): Promise<LoginAttemptResult> {
+  pruneExpiredSessions(db, Date.now());
+  const credentials = await verifyCredentials(db, username, password);
+  if (!credentials.ok) {
+    return credentials;
+  }
+  const user = credentials.user;
+  user.lastLoginAt = new Date().toISOString();
+
+  const token = randomBytes(32).toString('base64url');
+  const session: StoredSession = {
+    tokenHash: hashToken(token),
+    userId: user.id,
+    createdAt: user.lastLoginAt,
+    lastSeenAt: user.lastLoginAt,
+  };
+  db.sessions.push(session);
+  return {
+    ok: true,
+    token,
+    session: { user: toPublicUser(user), expiresAt: new Date(sessionExpiryTime(session)).toISOString() },
+  };
+}
+
+/**
+ * Busca la sesión de un token y, si sigue vigente, registra la actividad (reinicia el plazo de inactividad).
+ * Las sesiones caducadas o de usuarios inexistentes o desactivados se eliminan. Debe ejecutarse dentro de `withTransaction`.
+ *
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {string | null} token - El token de la cookie.
+ * @returns {SessionInfo | null} La sesión vigente, o null.
+ */
+export function touchSession(db: Database, token: string | null): SessionInfo | null {
+  const now = Date.now();
+  pruneExpiredSessions(db, now);
+  if (!token) {
+    return null;
+  }
+  const tokenHash = hashToken(token);
+  const session = db.sessions.find(s => s.tokenHash === tokenHash);
+  const user = session ? db.users.find(u => u.id === session.userId) : undefined;
+  if (!session || !user || !user.active) {
+    db.sessions = db.sessions.filter(s => s.tokenHash !== tokenHash);
+    return null;
+  }
+  session.lastSeenAt = new Date(now).toISOString();
+  return { user: toPublicUser(user), expiresAt: new Date(sessionExpiryTime(session)).toISOString() };
+}
+
+/**
+ * Comprueba que el token corresponda a una sesión vigente, registrando la actividad igual que `touchSession`.
+ * Es para las lecturas que usan páginas con capacidades distintas (p. ej., el historial de ventas).
+ * Debe ejecutarse dentro de `withTransaction`.
+ *
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {string | null} token - El token de la cookie.
+ * @returns {SessionInfo} La sesión vigente.
+ * @throws {HttpError} 401 si no hay sesión vigente.
+ */
+export function requireSession(db: Database, token: string | null): SessionInfo {
+  const session = touchSession(db, token);
+  if (!session) {
+    throw new HttpError(401, 'Sesión no iniciada o caducada.');
+  }
+  return session;
+}
+
+/**
+ * Comprueba que el token corresponda a una sesión vigente cuyo usuario tenga la capacidad indicada,
+ * registrando la actividad igual que `touchSession`. Debe ejecutarse dentro de `withTransaction`.
+ *
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {string | null} token - El token de la cookie.
+ * @param {Capability} capability - La capacidad requerida.
+ * @returns {SessionInfo} La sesión del usuario autorizado.
+ * @throws {HttpError} 401 si no hay sesión vigente, 403 si el rol del usuario no tiene la capacidad.
+ */
+export function requireCapability(db: Database, token: string | null, capability: Capability): SessionInfo {
+  const session = requireSession(db, token);
+  if (!hasCapability(session.user, capability)) {
+    throw new HttpError(403, 'No tienes permiso para realizar esta acción.');
+  }
+  return session;
+}
+
+/**
+ * Cierra todas las sesiones de un usuario (p. ej., al desactivarlo o cambiar su contraseña).
+ * Debe ejecutarse dentro de `withTransaction`.
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {string} userId - El ID del usuario.
+ */
+export function destroyUserSessions(db: Database, userId: string): void {
+  db.sessions = db.sessions.filter(s => s.userId !== userId);
+}
+
+/**
+ * Cierra la sesión de un token. Debe ejecutarse dentro de `withTransaction`.
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {string | null} token - El token de la cookie.
+ */
+export function destroySession(db: Database, token: string | null): void {
+  if (!token) {
+    return;
+  }
+  const tokenHash = hashToken(token);
+  db.sessions = db.sessions.filter(s => s.tokenHash !== tokenHash);
+}
+
+// --- Cookie de sesión ---
+
+/**
+ * Lee el token de sesión de la cookie de la petición.
+ * @param {NextRequest} request - La petición entrante.
+ * @returns {string | null} El token, o null si no hay cookie.
+ */
+export function getSessionToken(request: NextRequest): string | null {
+  return request.cookies.get(SESSION_COOKIE_NAME)?.value || null;
+}
+
+/**
+ * Escribe la cookie de sesión (httpOnly) en la respuesta. Su duración coincide con el plazo de inactividad
+ * y se renueva cada vez que se registra actividad.
+ * @param {NextResponse} response - La respuesta.
+ * @param {string} token - El token de sesión.
+ */
+export function setSessionCookie(response: NextResponse, token: string): void {
+  response.cookies.set({
+    name: SESSION_COOKIE_NAME,
+    value: token,
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_IDLE_TIMEOUT_MS / 1000,
+  });
+}
+
+/**
+ * Borra la cookie de sesión y la cookie de rol firmada en la respuesta.
+ * @param {NextResponse} response - La respuesta.
+ */
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set({ name: SESSION_COOKIE_NAME, value: '', httpOnly: true, sameSite: 'lax', path: '/', maxAge: 0 });
+  response.cookies.set({ name: ROLE_COOKIE_NAME, value: '', httpOnly: true, sameSite: 'lax', path: '/', maxAge: 0 });
+}
@@ -0,0 +1,108 @@
+import type { NextResponse } from 'next/server';
+import { roleSchema, type Role } from '@/lib/domain';
+
+// --- Cookies de autenticación ---
+// El middleware de Next se ejecuta en el runtime edge y no puede leer la base de datos, así que junto a la
+// cookie de sesión se guarda el rol del usuario firmado con HMAC-SHA256. Este módulo solo usa Web Crypto,
+// para que funcione tanto en el middleware como en los route handlers.
+
+/** Nombre de la cookie httpOnly que guarda el token de sesión. */
+export const SESSION_COOKIE_NAME = 'beauty_session';
+/** Nombre de la cookie httpOnly con el rol firmado. */
+export const ROLE_COOKIE_NAME = 'beauty_role';
+
+// Secreto de desarrollo; en producción es obligatorio definir AUTH_COOKIE_SECRET.
+const DEVELOPMENT_SECRET = 'centro-inventario-belleza-dev-secret';
+
+const encoder = new TextEncoder();
+let signingKeyPromise: Promise<CryptoKey> | null = null;
+
+/**
+ * Obtiene (e importa una sola vez) la clave HMAC con la que se firman las cookies de rol.
+ * @returns {Promise<CryptoKey>} La clave de firma.
+ * @throws {Error} Si falta AUTH_COOKIE_SECRET en producción.
+ */
+function getSigningKey(): Promise<CryptoKey> {
+  if (!signingKeyPromise) {
+    const secret = process.env.AUTH_COOKIE_SECRET;
+    if (!secret && process.env.NODE_ENV === 'production') {
+      throw new Error('Falta la variable de entorno AUTH_COOKIE_SECRET para firmar la cookie de rol.');
+    }
+    signingKeyPromise = crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret || DEVELOPMENT_SECRET),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    );
+  }
+  return signingKeyPromise;
+}
+
+/**
+ * Codifica bytes en base64url.
+ * @param {ArrayBuffer} buffer - Los bytes.
+ * @returns {string} La cadena base64url.
+ */
+function toBase64Url(buffer: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(buffer))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodifica una cadena base64url.
+ * @param {string} value - La cadena base64url.
+ * @returns {Uint8Array} Los bytes.
+ */
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+/**
+ * Firma el rol de una sesión. El valor tiene la forma `rol.caducidad.firma`.
+ * @param {Role} role - El rol del usuario.
+ * @param {Date} expiresAt - La caducidad de la sesión.
+ * @returns {Promise<string>} El valor de la cookie.
+ */
+async function signRole(role: Role, expiresAt: Date): Promise<string> {
+  const payload = `${role}.${expiresAt.getTime()}`;
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), encoder.encode(payload));
+  return `${payload}.${toBase64Url(signature)}`;
+}
+
+/**
+ * Comprueba la firma y la caducidad de una cookie de rol.
+ * @param {string | undefined} value - El valor de la cookie.
+ * @returns {Promise<Role | null>} El rol, o null si falta, está caducada, manipulada o mal formada.
+ */
+export async function verifyRoleCookie(value: string | undefined): Promise<Role | null> {
+  const [role, expiresAtMs, signature] = value?.split('.') ?? [];
+  if (!role || !expiresAtMs || !signature || Number(expiresAtMs) <= Date.now()) {
+    return null;
+  }
+  try {
+    const isValid = await crypto.subtle.verify('HMAC', await getSigningKey(), fromBase64Url(signature), encoder.encode(`${role}.${expiresAtMs}`));
+    const parsedRole = roleSchema.safeParse(role);
+    return isValid && parsedRole.success ? parsedRole.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Escribe la cookie de rol firmada en la respuesta, con la misma duración que la cookie de sesión.
+ * @param {NextResponse} response - La respuesta.
+ * @param {{ user: { role: Role }; expiresAt: string }} session - La sesión vigente.
+ */
+export async function setRoleCookie(response: NextResponse, session: { user: { role: Role }; expiresAt: string }): Promise<void> {
+  const expiresAt = new Date(session.expiresAt);
+  response.cookies.set({
+    name: ROLE_COOKIE_NAME,
+    value: await signRole(session.user.role, expiresAt),
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  });
+}
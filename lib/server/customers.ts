@@ -0,0 +1,119 @@
+import { customerPayloadSchema, type Customer, type CustomerPayload, type SaleCustomer } from '@/lib/domain';
+import { appendAuditEntry, type AuditActor } from './audit';
+import { HttpError, parseIdBody, parseJsonBody } from './http';
+import { generateId, type Database } from './store';
+
+/** Error para un cuerpo de cliente al que le faltan campos o los trae con otro tipo. */
+const CUSTOMER_FIELDS_ERROR = 'Faltan campos requeridos o hay datos inválidos. Campos requeridos: name; taxId, phone, email, address y notes deben ser textos.';
+
+/**
+ * Lista el directorio de clientes (`get_customers.php`), ordenado por nombre.
+ * @param {Database} db - La base de datos.
+ * @returns {Customer[]} Todos los clientes.
+ */
+export function listCustomers(db: Database): Customer[] {
+  return [...db.customers].sort((a, b) => a.name.localeCompare(b.name, 'es'));
+}
+
+/**
+ * Busca un cliente por ID.
+ * @param {Database} db - La base de datos.
+ * @param {string} id - El ID recibido.
+ * @returns {Customer} El cliente.
+ * @throws {HttpError} 404 si el cliente no existe.
+ */
+function findCustomer(db: Database, id: string): Customer {
+  const customer = db.customers.find(c => c.id === id);
+  if (!customer) {
+    throw new HttpError(404, `Cliente no encontrado: ${id}`);
+  }
+  return customer;
+}
+
+/**
+ * Arma los datos de un cliente y comprueba que su ID fiscal no sea de otro cliente.
+ * @param {Database} db - La base de datos.
+ * @param {CustomerPayload} values - Los datos recibidos, ya combinados con el cliente que se edita.
+ * @param {string} [currentId] - El ID del cliente que se edita.
+ * @returns {Omit<Customer, 'id'>} Los datos validados.
+ * @throws {HttpError} 400 si el ID fiscal ya es de otro cliente.
+ */
+function buildCustomer(db: Database, values: CustomerPayload, currentId?: string): Omit<Customer, 'id'> {
+  const customer: Omit<Customer, 'id'> = {
+    name: values.name,
+    taxId: values.taxId ?? '',
+    phone: values.phone ?? '',
+    email: values.email ?? '',
+    address: values.address ?? '',
+    notes: values.notes ?? '',
+  };
+  if (customer.taxId) {
+    const duplicate = db.customers.find(c => c.id !== currentId && c.taxId.toLowerCase() === customer.taxId.toLowerCase());
+    if (duplicate) {
+      throw new HttpError(400, `El ID fiscal ${customer.taxId} ya está registrado para el cliente "${duplicate.name}".`);
+    }
+  }
+  return customer;
+}
+
+/**
+ * Da de alta un cliente (`add_customer.php`) y lo anota en el registro de auditoría.
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ name, taxId?, phone?, email?, address?, notes? }`.
+ * @param {AuditActor} actor - El autor del cambio.
+ * @returns {Customer} El cliente creado.
+ * @throws {HttpError} 400 si los datos son inválidos o el ID fiscal está repetido.
+ */
+export function createCustomer(db: Database, input: unknown, actor: AuditActor): Customer {
+  const values = parseJsonBody(customerPayloadSchema, input, CUSTOMER_FIELDS_ERROR);
+  const customer: Customer = { id: generateId('customer'), ...buildCustomer(db, values) };
+  db.customers.push(customer);
+  appendAuditEntry(db, actor, {
+    action: 'customer.create',
+    entityId: customer.id,
+    pointOfSale: null,
+    before: null,
+    after: customer,
+  });
+  return customer;
+}
+
+/**
+ * Modifica los datos de un cliente (`update_customer.php`): solo cambian los campos presentes.
+ * Las ventas ya registradas conservan el nombre e ID fiscal que tenía el cliente al comprar.
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ id, ...campos a cambiar }`.
+ * @param {AuditActor} actor - El autor del cambio.
+ * @returns {Customer} El cliente actualizado.
+ * @throws {HttpError} 400 si los datos son inválidos o el ID fiscal está repetido, 404 si el cliente no existe.
+ */
+export function updateCustomer(db: Database, input: unknown, actor: AuditActor): Customer {
+  const customer = findCustomer(db, parseIdBody(input));
+  // zod omite las claves que no llegan, así que esos campos conservan su valor actual.
+  const changes = parseJsonBody(customerPayloadSchema.partial(), input, CUSTOMER_FIELDS_ERROR);
+  const before = { ...customer };
+  Object.assign(customer, buildCustomer(db, { ...customer, ...changes }, customer.id));
+  appendAuditEntry(db, actor, {
+    action: 'customer.update',
+    entityId: customer.id,
+    pointOfSale: null,
+    before,
+    after: customer,
+  });
+  return customer;
+}
+
+/**
+ * Resuelve el cliente indicado en una venta y devuelve la copia que se guarda en el registro.
+ * @param {Database} db - La base de datos.
+ * @param {string | null | undefined} customerId - El `customerId` recibido; vacío o ausente si la venta no tiene cliente.
+ * @returns {SaleCustomer | null} El nombre e ID fiscal actuales del cliente, o null.
+ * @throws {HttpError} 404 si el cliente no existe.
+ */
+export function resolveSaleCustomer(db: Database, customerId: string | null | undefined): SaleCustomer | null {
+  if (!customerId) {
+    return null;
+  }
+  const { id, name, taxId } = findCustomer(db, customerId);
+  return { id, name, taxId };
+}
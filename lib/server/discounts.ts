@@ -0,0 +1,144 @@
+import {
+  approvalCoversDiscount,
+  calculateSaleTotals,
+  computeDiscountAmount,
+  getDiscountableLineAmount,
+  DISCOUNT_APPROVAL_TTL_MINUTES,
+  DISCOUNT_PERCENT_TOLERANCE,
+  discountApprovalRequestSchema,
+  hasCapability,
+  hasPosAccess,
+  requiresDiscountApproval,
+  ROLE_MAX_DISCOUNT_PERCENT,
+  type DiscountApprover,
+  type SaleDiscount,
+  type SaleRecordItem,
+  type SerializedDiscountApproval,
+  type User,
+} from '@/lib/domain';
+import { verifyCredentials } from './auth';
+import { HttpError, parseJsonBody } from './http';
+import { generateId, type Database } from './store';
+
+/**
+ * Resultado de pedir la aprobación de un descuento. Los fallos de credenciales no se lanzan como excepción
+ * para que la transacción guarde igualmente el contador de intentos fallidos del encargado.
+ */
+export type DiscountApprovalResult =
+  | { ok: true; approval: SerializedDiscountApproval }
+  | { ok: false; status: 401 | 403 | 423; message: string };
+
+/**
+ * Descuento sin calcular, tal como llega en el cuerpo de la venta (ver `discountPayloadSchema`).
+ * @interface DiscountInput
+ */
+export interface DiscountInput {
+  type: SaleDiscount['type'];
+  value: number;
+  reason: SaleDiscount['reason'];
+}
+
+/** Ítem de venta validado, con su descuento aún sin calcular (y sus promociones, si ya se aplicaron). */
+export type SaleItemInput = Omit<SaleRecordItem, 'discount'> & { discount: DiscountInput | null };
+
+/**
+ * Resultado de aplicar los descuentos a una venta.
+ * @interface AppliedSaleDiscounts
+ */
+export interface AppliedSaleDiscounts {
+  /** Los ítems con el importe de su descuento calculado. */
+  items: SaleRecordItem[];
+  cartDiscount: SaleDiscount | null;
+  totalAmount: number;
+  /** Quién aprobó los descuentos, si superaban el máximo del vendedor. */
+  discountApprovedBy: DiscountApprover | null;
+}
+
+/**
+ * Calcula los descuentos de una venta en el servidor (sobre los importes ya rebajados por las promociones de cada ítem)
+ * y comprueba que el vendedor pueda aplicarlos.
+ * Si el mayor porcentaje descontado supera el máximo del rol del vendedor, exige una aprobación vigente
+ * del mismo PDV que lo cubra (`discountApprovalId`) y la consume. Debe ejecutarse dentro de `withTransaction`.
+ *
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {{ pointOfSale: string; items: SaleItemInput[]; cartDiscount: DiscountInput | null; discountApprovalId: string | null }} payload - La venta validada.
+ * @param {User} seller - El vendedor: el usuario de la sesión.
+ * @returns {AppliedSaleDiscounts} Los ítems con sus descuentos, el descuento del carrito, el total y el aprobador.
+ * @throws {HttpError} 403 si el descuento requiere una aprobación que falta, caducó, es de otro PDV o no alcanza.
+ */
+export function applySaleDiscounts(
+  db: Database,
+  payload: {
+    pointOfSale: string;
+    items: SaleItemInput[];
+    cartDiscount: DiscountInput | null;
+    discountApprovalId: string | null;
+  },
+  seller: User
+): AppliedSaleDiscounts {
+  const items: SaleRecordItem[] = payload.items.map(item => ({
+    ...item,
+    discount: item.discount ? { ...item.discount, amount: computeDiscountAmount(item.discount, getDiscountableLineAmount(item)) } : null,
+  }));
+  const totals = calculateSaleTotals(items, payload.cartDiscount);
+  const cartDiscount = payload.cartDiscount ? { ...payload.cartDiscount, amount: totals.cartDiscountAmount } : null;
+
+  let discountApprovedBy: DiscountApprover | null = null;
+  if (requiresDiscountApproval(seller.role, totals.maxDiscountPercent)) {
+    const sellerLimit = ROLE_MAX_DISCOUNT_PERCENT[seller.role];
+    const now = Date.now();
+    db.discountApprovals = db.discountApprovals.filter(approval => new Date(approval.expiresAt).getTime() > now);
+    const approval = db.discountApprovals.find(a => a.id === payload.discountApprovalId);
+    if (!approval || !approvalCoversDiscount(approval, payload.pointOfSale, totals.maxDiscountPercent)) {
+      throw new HttpError(403, `El descuento (${totals.maxDiscountPercent.toFixed(1)}%) supera tu máximo del ${sellerLimit}% y requiere una aprobación de encargado vigente para ${payload.pointOfSale} que lo cubra.`);
+    }
+    db.discountApprovals = db.discountApprovals.filter(a => a.id !== approval.id);
+    discountApprovedBy = { userId: approval.approverId, userName: approval.approverName };
+  }
+
+  return { items, cartDiscount, totalAmount: totals.total, discountApprovedBy };
+}
+
+/**
+ * Aprueba un descuento con las credenciales de un encargado (`approve_discount.php`). El encargado debe tener
+ * la capacidad `approve_discounts`, acceso al PDV y un máximo propio que cubra el porcentaje pedido.
+ * La aprobación vale para una sola venta del PDV durante `DISCOUNT_APPROVAL_TTL_MINUTES` minutos.
+ * Debe ejecutarse dentro de `withTransaction`.
+ *
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ username, password, pointOfSale, discountPercent }`.
+ * @returns {Promise<DiscountApprovalResult>} La aprobación guardada, o el motivo del rechazo.
+ * @throws {HttpError} 400 si faltan campos o el porcentaje no está entre 0 y 100.
+ */
+export async function approveDiscount(db: Database, input: unknown): Promise<DiscountApprovalResult> {
+  const { username, password, pointOfSale, discountPercent } = parseJsonBody(
+    discountApprovalRequestSchema,
+    input,
+    'Faltan campos requeridos: username, password, pointOfSale, discountPercent (entre 0 y 100).'
+  );
+  const credentials = await verifyCredentials(db, username, password);
+  if (!credentials.ok) {
+    return credentials;
+  }
+  const approver = credentials.user;
+  if (!hasCapability(approver, 'approve_discounts') || !hasPosAccess(approver, pointOfSale)) {
+    return { ok: false, status: 403, message: `${approver.name} no puede aprobar descuentos en ${pointOfSale}.` };
+  }
+  const maxPercent = ROLE_MAX_DISCOUNT_PERCENT[approver.role];
+  if (discountPercent > maxPercent + DISCOUNT_PERCENT_TOLERANCE) {
+    return { ok: false, status: 403, message: `${approver.name} solo puede aprobar descuentos de hasta el ${maxPercent}%.` };
+  }
+
+  const now = Date.now();
+  db.discountApprovals = db.discountApprovals.filter(approval => new Date(approval.expiresAt).getTime() > now);
+  const approval: SerializedDiscountApproval = {
+    id: generateId('discount-approval'),
+    approverId: approver.id,
+    approverName: approver.name,
+    pointOfSale,
+    maxPercent: discountPercent,
+    expiresAt: new Date(now + DISCOUNT_APPROVAL_TTL_MINUTES * 60 * 1000).toISOString(),
+  };
+  db.discountApprovals.push(approval);
+  return { ok: true, approval };
+}
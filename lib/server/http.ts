@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server';
+import * as z from 'zod';
+import { parseDateTime } from '@/lib/domain';
+
+/**
+ * Error con código de estado HTTP, para que los route handlers respondan con el código adecuado
+ * (400 para datos inválidos, 404 para recursos inexistentes, 409 para conflictos de stock, etc.).
+ */
+export class HttpError extends Error {
+  /** Código de estado HTTP de la respuesta. */
+  readonly status: number;
+
+  /**
+   * @param {number} status - Código de estado HTTP.
+   * @param {string} message - Mensaje de error que se devuelve al cliente en `{ error }`.
+   */
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+/**
+ * Crea una respuesta JSON de error con la forma `{ error }` que usan los scripts PHP.
+ * @param {string} message - El mensaje de error.
+ * @param {number} status - El código de estado HTTP.
+ * @returns {NextResponse} La respuesta de error.
+ */
+export function jsonError(message: string, status: number): NextResponse {
+  return NextResponse.json({ error: message }, { status });
+}
+
+/**
+ * Lee y parsea el cuerpo JSON de una petición. La forma del cuerpo la valida cada operación con `parseJsonBody`.
+ * @param {Request} request - La petición entrante.
+ * @returns {Promise<unknown>} El cuerpo parseado.
+ * @throws {HttpError} 400 si el cuerpo no es un objeto JSON válido.
+ */
+export async function readJsonBody(request: Request): Promise<unknown> {
+  const body: unknown = await request.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    throw new HttpError(400, 'Datos JSON inválidos o no proporcionados.');
+  }
+  return body;
+}
+
+/**
+ * Valida un cuerpo JSON con un esquema del dominio. Los errores con mensaje propio en el esquema (p. ej., de un
+ * `refine`) se responden tal cual; los demás (campos faltantes o de otro tipo) se responden con `message`.
+ * @param {T} schema - El esquema del cuerpo.
+ * @param {unknown} input - El cuerpo recibido.
+ * @param {string} message - El mensaje para los errores sin mensaje propio.
+ * @returns {z.output<T>} El cuerpo validado.
+ * @throws {HttpError} 400 si el cuerpo no cumple el esquema.
+ */
+export function parseJsonBody<T extends z.ZodTypeAny>(schema: T, input: unknown, message: string): z.output<T> {
+  const result = schema.safeParse(input, { errorMap: () => ({ message }) });
+  if (!result.success) {
+    throw new HttpError(400, result.error.issues[0]?.message ?? message);
+  }
+  return result.data;
+}
+
+/** Cuerpo con el ID del documento sobre el que actúa una operación. */
+const idBodySchema = z.object({ id: z.string().trim().min(1) });
+
+/**
+ * Lee el ID del documento del cuerpo de una operación (`{ id, ... }`); el resto del cuerpo se valida aparte.
+ * @param {unknown} input - El cuerpo recibido.
+ * @returns {string} El ID.
+ * @throws {HttpError} 400 si falta el ID.
+ */
+export function parseIdBody(input: unknown): string {
+  return parseJsonBody(idBodySchema, input, 'Falta el campo requerido: id.').id;
+}
+
+/**
+ * Lee un parámetro de fecha ISO 8601 de la query string.
+ * @param {URLSearchParams} searchParams - Los parámetros de la petición.
+ * @param {string} name - El nombre del parámetro.
+ * @returns {Date | null} La fecha, o null si el parámetro no está presente.
+ * @throws {HttpError} 400 si el parámetro no es una fecha válida.
+ */
+export function parseDateParam(searchParams: URLSearchParams, name: string): Date | null {
+  const value = searchParams.get(name);
+  if (!value) {
+    return null;
+  }
+  const date = parseDateTime(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new HttpError(400, `Parámetro "${name}" inválido: ${value}. Use una fecha ISO 8601.`);
+  }
+  return date;
+}
+
+/**
+ * Convierte un error capturado en un route handler en una respuesta JSON.
+ * Los `HttpError` conservan su código; cualquier otro error se responde con 500 y el contexto indicado.
+ * @param {unknown} error - El error capturado.
+ * @param {string} context - Descripción de la operación (p. ej., 'Error al registrar la venta').
+ * @returns {NextResponse} La respuesta de error.
+ */
+export function handleRouteError(error: unknown, context: string): NextResponse {
+  if (error instanceof HttpError) {
+    return jsonError(error.message, error.status);
+  }
+  console.error(`${context}:`, error);
+  const message = error instanceof Error ? error.message : String(error);
+  return jsonError(`${context}: ${message}`, 500);
+}
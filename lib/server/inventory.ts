@@ -0,0 +1,311 @@
+import {
+  hasPosAccess,
+  lowStockThresholdsPayloadSchema,
+  newProductPayloadSchema,
+  productPriceChangeSchema,
+  productQuantityChangeSchema,
+  type Inventory,
+  type Product,
+} from '@/lib/domain';
+import { appendAuditEntry, type AuditActor } from './audit';
+import { requireCapability } from './auth';
+import { HttpError, parseJsonBody } from './http';
+import { generateId, type Database } from './store';
+
+/**
+ * Ubicación de un producto dentro del árbol de inventario.
+ * @interface ProductLocation
+ */
+export interface ProductLocation {
+  /** Marca bajo la que está agrupado el producto. */
+  brand: string;
+  /** Índice del producto dentro del array de la marca. */
+  index: number;
+  /** El producto (referencia mutable dentro del árbol). */
+  product: Product;
+}
+
+/**
+ * Comprueba que el PDV exista en la base de datos.
+ * @param {Database} db - La base de datos.
+ * @param {string} pos - El nombre del Punto de Venta.
+ * @throws {HttpError} 404 si el PDV no existe.
+ */
+export function assertPointOfSale(db: Database, pos: string): void {
+  if (!db.pointsOfSale.includes(pos)) {
+    throw new HttpError(404, `Punto de Venta no encontrado: ${pos}`);
+  }
+}
+
+/**
+ * Busca un producto por código de barras en un PDV.
+ * @param {Inventory} inventory - El inventario.
+ * @param {string} pos - El Punto de Venta.
+ * @param {string} barcode - El código de barras.
+ * @returns {ProductLocation | null} La ubicación del producto, o null si no está en ese PDV.
+ */
+export function findProductInPos(inventory: Inventory, pos: string, barcode: string): ProductLocation | null {
+  const posData = inventory[pos];
+  if (!posData) {
+    return null;
+  }
+  for (const brand in posData) {
+    const index = posData[brand].findIndex(p => p.barcode === barcode);
+    if (index !== -1) {
+      return { brand, index, product: posData[brand][index] };
+    }
+  }
+  return null;
+}
+
+/**
+ * Busca un producto por código de barras en cualquier PDV (útil para heredar datos globales del producto).
+ * @param {Inventory} inventory - El inventario.
+ * @param {string} barcode - El código de barras.
+ * @returns {Product | null} La primera coincidencia encontrada, o null.
+ */
+export function findProductAnywhere(inventory: Inventory, barcode: string): Product | null {
+  for (const pos in inventory) {
+    const location = findProductInPos(inventory, pos, barcode);
+    if (location) {
+      return location.product;
+    }
+  }
+  return null;
+}
+
+/**
+ * Stock y precio de unos productos en un PDV, para guardar en el registro de auditoría los valores antes y después de un cambio.
+ * @param {Inventory} inventory - El inventario.
+ * @param {string} pos - El Punto de Venta.
+ * @param {string[]} barcodes - Los códigos de barras.
+ * @returns {Record<string, { quantity: number; price: number } | null>} Los valores por código de barras (null si el producto no está en el PDV).
+ */
+export function getStockSnapshot(inventory: Inventory, pos: string, barcodes: string[]): Record<string, { quantity: number; price: number } | null> {
+  const snapshot: Record<string, { quantity: number; price: number } | null> = {};
+  for (const barcode of barcodes) {
+    const location = findProductInPos(inventory, pos, barcode);
+    snapshot[barcode] = location ? { quantity: location.product.quantity, price: location.product.price } : null;
+  }
+  return snapshot;
+}
+
+/**
+ * Mueve un producto a otra marca dentro de su PDV (cuando cambia `brand`). Elimina la marca origen si queda vacía.
+ * @param {Inventory} inventory - El inventario (se modifica en el lugar).
+ * @param {string} pos - El Punto de Venta.
+ * @param {ProductLocation} location - La ubicación actual del producto.
+ * @param {string} newBrand - La nueva marca.
+ */
+export function moveProductToBrand(inventory: Inventory, pos: string, location: ProductLocation, newBrand: string): void {
+  if (location.brand === newBrand) {
+    return;
+  }
+  const posData = inventory[pos];
+  posData[location.brand].splice(location.index, 1);
+  if (posData[location.brand].length === 0) {
+    delete posData[location.brand];
+  }
+  location.product.brand = newBrand;
+  posData[newBrand] = [...(posData[newBrand] || []), location.product];
+}
+
+/**
+ * Inserta un producto nuevo en un PDV bajo su marca, asignándole un ID.
+ * @param {Inventory} inventory - El inventario (se modifica en el lugar).
+ * @param {string} pos - El Punto de Venta.
+ * @param {Omit<Product, 'id'>} product - Los datos del producto.
+ * @returns {Product} El producto insertado, con su ID.
+ */
+export function insertProduct(inventory: Inventory, pos: string, product: Omit<Product, 'id'>): Product {
+  const created: Product = { ...product, id: generateId('prod') };
+  const posData = inventory[pos] || (inventory[pos] = {});
+  posData[created.brand] = [...(posData[created.brand] || []), created];
+  return created;
+}
+
+/**
+ * Descuenta stock de un producto en un PDV.
+ * @param {Inventory} inventory - El inventario (se modifica en el lugar).
+ * @param {string} pos - El Punto de Venta.
+ * @param {string} barcode - El código de barras.
+ * @param {number} quantity - Unidades a descontar.
+ * @throws {HttpError} 404 si el producto no existe en el PDV, 409 si el stock es insuficiente.
+ */
+export function decrementStock(inventory: Inventory, pos: string, barcode: string, quantity: number): void {
+  const location = findProductInPos(inventory, pos, barcode);
+  if (!location) {
+    throw new HttpError(404, `Producto con código de barras ${barcode} no encontrado en ${pos}.`);
+  }
+  if (location.product.quantity < quantity) {
+    throw new HttpError(409, `Stock insuficiente para "${location.product.name}" (${barcode}) en ${pos}. Disponible: ${location.product.quantity}.`);
+  }
+  location.product.quantity -= quantity;
+}
+
+/**
+ * Repone stock de un producto en un PDV (`update_product_quantity.php`) y lo anota en el registro de auditoría.
+ * Solo admite sumas: las bajas pasan por `createStockAdjustment`, que exige un motivo y alimenta el informe de mermas.
+ * Exige la capacidad `receive_stock` y acceso al PDV.
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ pointOfSale, barcode, change }`, con `change` mayor que 0.
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @returns {{ pointOfSale: string; barcode: string; quantity: number }} La nueva cantidad en stock.
+ * @throws {HttpError} 400 si los datos son inválidos o `change` no es positivo, 401 sin sesión, 403 sin permiso
+ *   o sin acceso al PDV, 404 si el PDV o el producto no existe.
+ */
+export function adjustProductQuantity(db: Database, input: unknown, token: string | null): { pointOfSale: string; barcode: string; quantity: number } {
+  const { pointOfSale, barcode, change } = parseJsonBody(
+    productQuantityChangeSchema,
+    input,
+    'Faltan campos requeridos. Campos requeridos: pointOfSale, barcode, change (entero mayor que 0).'
+  );
+  assertPointOfSale(db, pointOfSale);
+  const session = requireCapability(db, token, 'receive_stock');
+  if (!hasPosAccess(session.user, pointOfSale)) {
+    throw new HttpError(403, `No tienes acceso al Punto de Venta ${pointOfSale}.`);
+  }
+  const actor: AuditActor = { userId: session.user.id, userName: session.user.name };
+  const location = findProductInPos(db.inventory, pointOfSale, barcode);
+  if (!location) {
+    throw new HttpError(404, `Producto con código de barras ${barcode} no encontrado en ${pointOfSale}.`);
+  }
+  const before = { quantity: location.product.quantity };
+  location.product.quantity += change;
+  appendAuditEntry(db, actor, {
+    action: 'product.quantity_adjust',
+    entityId: barcode,
+    pointOfSale,
+    before,
+    after: { quantity: location.product.quantity },
+  });
+  return { pointOfSale, barcode, quantity: location.product.quantity };
+}
+
+/**
+ * Añade un producto a un PDV (`add_product.php`). Si ya existe un producto con el mismo código de barras
+ * en ese PDV, se suma la cantidad recibida a su stock. El alta o la reposición se anota en el registro de auditoría.
+ * Exige la capacidad `receive_stock` y acceso al PDV.
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ pointOfSale, product }`.
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @returns {Product} El producto resultante, con su ID definitivo.
+ * @throws {HttpError} 400 si los datos del producto son inválidos, 401 sin sesión, 403 sin permiso o sin acceso
+ *   al PDV, 404 si el PDV no existe.
+ */
+export function addOrRestockProduct(db: Database, input: unknown, token: string | null): Product {
+  const { pointOfSale, product } = parseJsonBody(
+    newProductPayloadSchema,
+    input,
+    'Datos de producto inválidos. Campos requeridos: pointOfSale, product.barcode, product.name, product.brand, product.quantity (>=0), product.price (>=0).'
+  );
+  assertPointOfSale(db, pointOfSale);
+  const session = requireCapability(db, token, 'receive_stock');
+  if (!hasPosAccess(session.user, pointOfSale)) {
+    throw new HttpError(403, `No tienes acceso al Punto de Venta ${pointOfSale}.`);
+  }
+  const actor: AuditActor = { userId: session.user.id, userName: session.user.name };
+  const { barcode } = product;
+  const location = findProductInPos(db.inventory, pointOfSale, barcode);
+  if (location) {
+    const before = { quantity: location.product.quantity };
+    location.product.quantity += product.quantity;
+    appendAuditEntry(db, actor, {
+      action: 'product.restock',
+      entityId: barcode,
+      pointOfSale,
+      before,
+      after: { quantity: location.product.quantity },
+    });
+    return location.product;
+  }
+  const created = insertProduct(db.inventory, pointOfSale, {
+    ...product,
+    imageUrl: product.imageUrl || 'https://placehold.co/100x100.png',
+  });
+  appendAuditEntry(db, actor, { action: 'product.add', entityId: barcode, pointOfSale, before: null, after: { ...created } });
+  return created;
+}
+
+/**
+ * Cambia el precio de venta de un producto en un PDV (`update_product_price.php`) y lo anota en el registro de auditoría.
+ * Exige la capacidad `edit_prices` y acceso al PDV.
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ pointOfSale, barcode, newPrice }`.
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @returns {{ pointOfSale: string; barcode: string; price: number }} El precio guardado.
+ * @throws {HttpError} 400 si los datos son inválidos, 401 sin sesión, 403 sin permiso o sin acceso al PDV,
+ *   404 si el PDV o el producto no existe.
+ */
+export function setProductPrice(db: Database, input: unknown, token: string | null): { pointOfSale: string; barcode: string; price: number } {
+  const { pointOfSale, barcode, newPrice } = parseJsonBody(
+    productPriceChangeSchema,
+    input,
+    'Faltan campos requeridos. Campos requeridos: pointOfSale, barcode, newPrice (>=0).'
+  );
+  assertPointOfSale(db, pointOfSale);
+  const session = requireCapability(db, token, 'edit_prices');
+  if (!hasPosAccess(session.user, pointOfSale)) {
+    throw new HttpError(403, `No tienes acceso al Punto de Venta ${pointOfSale}.`);
+  }
+  const actor: AuditActor = { userId: session.user.id, userName: session.user.name };
+  const location = findProductInPos(db.inventory, pointOfSale, barcode);
+  if (!location) {
+    throw new HttpError(404, `Producto con código de barras ${barcode} no encontrado en ${pointOfSale}.`);
+  }
+  const before = { price: location.product.price };
+  location.product.price = newPrice;
+  appendAuditEntry(db, actor, { action: 'product.price_update', entityId: barcode, pointOfSale, before, after: { price: newPrice } });
+  return { pointOfSale, barcode, price: newPrice };
+}
+
+/**
+ * Fija el umbral de bajo stock de varios productos de un PDV (`update_low_stock_threshold.php`), p. ej., con el
+ * punto de pedido calculado a partir de las ventas. Cada cambio se anota en el registro de auditoría.
+ * Exige la capacidad `receive_stock` y acceso al PDV, igual que fijar el umbral en una entrada de proveedor.
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ pointOfSale, thresholds: [{ barcode, lowStockThreshold }] }`;
+ *   un umbral null o 0 vuelve al umbral global.
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @returns {{ pointOfSale: string; products: { barcode: string; lowStockThreshold: number | null }[] }} Los umbrales guardados.
+ * @throws {HttpError} 400 si los datos son inválidos, 401 sin sesión, 403 sin permiso o sin acceso al PDV,
+ *   404 si el PDV o algún producto no existe.
+ */
+export function setLowStockThresholds(
+  db: Database,
+  input: unknown,
+  token: string | null
+): { pointOfSale: string; products: { barcode: string; lowStockThreshold: number | null }[] } {
+  const { pointOfSale, thresholds } = parseJsonBody(
+    lowStockThresholdsPayloadSchema,
+    input,
+    'Faltan campos requeridos. Campos requeridos: pointOfSale, thresholds (array no vacío de { barcode, lowStockThreshold }; el umbral es un entero >= 0, o null para usar el global).'
+  );
+  assertPointOfSale(db, pointOfSale);
+  const session = requireCapability(db, token, 'receive_stock');
+  if (!hasPosAccess(session.user, pointOfSale)) {
+    throw new HttpError(403, `No tienes acceso al Punto de Venta ${pointOfSale}.`);
+  }
+  const actor: AuditActor = { userId: session.user.id, userName: session.user.name };
+
+  return {
+    pointOfSale,
+    products: thresholds.map(({ barcode, lowStockThreshold: value }) => {
+      const location = findProductInPos(db.inventory, pointOfSale, barcode);
+      if (!location) {
+        throw new HttpError(404, `Producto con código de barras ${barcode} no encontrado en ${pointOfSale}.`);
+      }
+      const lowStockThreshold = value || null;
+      const before = { lowStockThreshold: location.product.lowStockThreshold ?? null };
+      location.product.lowStockThreshold = lowStockThreshold;
+      appendAuditEntry(db, actor, {
+        action: 'product.threshold_update',
+        entityId: barcode,
+        pointOfSale,
+        before,
+        after: { lowStockThreshold },
+      });
+      return { barcode, lowStockThreshold };
+    }),
+  };
+}
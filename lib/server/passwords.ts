@@ -0,0 +1,36 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+// Longitud en bytes de la sal y de la clave derivada.
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+/**
+ * Calcula el hash de una contraseña con scrypt y una sal aleatoria.
+ * El resultado tiene la forma `scrypt$<sal hex>$<hash hex>` y es lo único que se guarda.
+ * @param {string} password - La contraseña en texto plano.
+ * @returns {Promise<string>} El hash codificado.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES).toString('hex');
+  const derivedKey = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt}$${derivedKey.toString('hex')}`;
+}
+
+/**
+ * Comprueba una contraseña contra un hash generado por `hashPassword`, en tiempo constante.
+ * @param {string} password - La contraseña en texto plano.
+ * @param {string} storedHash - El hash guardado.
+ * @returns {Promise<boolean>} Verdadero si la contraseña es correcta.
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [algorithm, salt, hashHex] = storedHash.split('$');
+  if (algorithm !== 'scrypt' || !salt || !hashHex) {
+    return false;
+  }
+  const expected = Buffer.from(hashHex, 'hex');
+  const derivedKey = await scryptAsync(password, salt, expected.length);
+  return derivedKey.length === expected.length && timingSafeEqual(derivedKey, expected);
+}
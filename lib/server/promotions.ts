@@ -0,0 +1,158 @@
+import {
+  applyPromotions,
+  parseDateTime,
+  promotionPayloadSchema,
+  promotionSchema,
+  promotionTypeSchema,
+  validatePromotionRule,
+  type PromotableItem,
+  type PromotionPayload,
+  type SaleItemPromotion,
+  type SerializedPromotion,
+} from '@/lib/domain';
+import { appendAuditEntry, type AuditActor } from './audit';
+import { HttpError, parseIdBody, parseJsonBody } from './http';
+import { assertPointOfSale } from './inventory';
+import { generateId, type Database } from './store';
+
+/** Error para un cuerpo de promoción al que le faltan campos o los trae con otro tipo. */
+const PROMOTION_FIELDS_ERROR = `Faltan campos requeridos o hay datos inválidos. Campos requeridos: name, type (${promotionTypeSchema.options.join(', ')}).`;
+
+/**
+ * Lista las promociones (`get_promotions.php`), en el orden en que se aplican.
+ * @param {Database} db - La base de datos.
+ * @returns {SerializedPromotion[]} Todas las promociones, activas o no.
+ */
+export function listPromotions(db: Database): SerializedPromotion[] {
+  return db.promotions;
+}
+
+/**
+ * Busca una promoción por ID.
+ * @param {Database} db - La base de datos.
+ * @param {string} id - El ID recibido.
+ * @returns {SerializedPromotion} La promoción.
+ * @throws {HttpError} 404 si la promoción no existe.
+ */
+function findPromotion(db: Database, id: string): SerializedPromotion {
+  const promotion = db.promotions.find(p => p.id === id);
+  if (!promotion) {
+    throw new HttpError(404, `Promoción no encontrada: ${id}`);
+  }
+  return promotion;
+}
+
+/**
+ * Valida una fecha opcional del periodo de una promoción.
+ * @param {string | null | undefined} value - El valor recibido (cadena ISO).
+ * @param {string} field - El nombre del campo, para el mensaje de error.
+ * @returns {string | null} La fecha ISO, o null si no se indicó.
+ * @throws {HttpError} 400 si la fecha es inválida.
+ */
+function parseOptionalDate(value: string | null | undefined, field: string): string | null {
+  if (!value) {
+    return null;
+  }
+  const date = parseDateTime(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new HttpError(400, `${field} no es una fecha válida: ${value}`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Arma los datos de una promoción y valida su regla, su periodo y su PDV.
+ * @param {Database} db - La base de datos.
+ * @param {PromotionPayload} values - Los datos recibidos, ya combinados con la promoción que se edita.
+ * @returns {Omit<SerializedPromotion, 'id'>} Los datos validados.
+ * @throws {HttpError} 400 si la regla o el periodo son inválidos, 404 si el PDV no existe.
+ */
+function buildPromotion(db: Database, values: PromotionPayload): Omit<SerializedPromotion, 'id'> {
+  const pointOfSale = values.pointOfSale || null;
+  if (pointOfSale !== null) {
+    assertPointOfSale(db, pointOfSale);
+  }
+
+  const promotion: Omit<SerializedPromotion, 'id'> = {
+    name: values.name,
+    type: values.type,
+    barcodes: (values.barcodes ?? []).filter(Boolean),
+    brand: values.brand || null,
+    buyQuantity: values.buyQuantity ?? null,
+    payQuantity: values.payQuantity ?? null,
+    bundlePrice: values.bundlePrice ?? null,
+    percent: values.percent ?? null,
+    pointOfSale,
+    startsAt: parseOptionalDate(values.startsAt, 'startsAt'),
+    endsAt: parseOptionalDate(values.endsAt, 'endsAt'),
+    active: values.active ?? true,
+  };
+  const ruleError = validatePromotionRule(promotion);
+  if (ruleError) {
+    throw new HttpError(400, ruleError);
+  }
+  if (promotion.startsAt && promotion.endsAt && promotion.startsAt > promotion.endsAt) {
+    throw new HttpError(400, 'La fecha de fin (endsAt) no puede ser anterior a la de inicio (startsAt).');
+  }
+  return promotion;
+}
+
+/**
+ * Crea una promoción (`add_promotion.php`) y lo anota en el registro de auditoría.
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ name, type, barcodes?, brand?, buyQuantity?, payQuantity?, bundlePrice?, percent?, pointOfSale?, startsAt?, endsAt?, active? }`.
+ * @param {AuditActor} actor - El autor del cambio.
+ * @returns {SerializedPromotion} La promoción creada.
+ * @throws {HttpError} 400 si los datos son inválidos, 404 si el PDV no existe.
+ */
+export function createPromotion(db: Database, input: unknown, actor: AuditActor): SerializedPromotion {
+  const values = parseJsonBody(promotionPayloadSchema, input, PROMOTION_FIELDS_ERROR);
+  const promotion: SerializedPromotion = { id: generateId('promotion'), ...buildPromotion(db, values) };
+  db.promotions.push(promotion);
+  appendAuditEntry(db, actor, {
+    action: 'promotion.create',
+    entityId: promotion.id,
+    pointOfSale: promotion.pointOfSale,
+    before: null,
+    after: promotion,
+  });
+  return promotion;
+}
+
+/**
+ * Modifica una promoción (`update_promotion.php`): solo cambian los campos presentes, así que sirve también
+ * para activarla o desactivarla con `{ id, active }`. El cambio se anota en el registro de auditoría.
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ id, ...campos a cambiar }`.
+ * @param {AuditActor} actor - El autor del cambio.
+ * @returns {SerializedPromotion} La promoción actualizada.
+ * @throws {HttpError} 400 si los datos son inválidos, 404 si la promoción o el PDV no existen.
+ */
+export function updatePromotion(db: Database, input: unknown, actor: AuditActor): SerializedPromotion {
+  const promotion = findPromotion(db, parseIdBody(input));
+  // zod omite las claves que no llegan, así que esos campos conservan su valor actual.
+  const changes = parseJsonBody(promotionPayloadSchema.partial(), input, PROMOTION_FIELDS_ERROR);
+  const before = { ...promotion };
+  Object.assign(promotion, buildPromotion(db, { ...promotion, ...changes }));
+  appendAuditEntry(db, actor, {
+    action: 'promotion.update',
+    entityId: promotion.id,
+    pointOfSale: promotion.pointOfSale,
+    before,
+    after: promotion,
+  });
+  return promotion;
+}
+
+/**
+ * Aplica a las líneas de una venta minorista las promociones activas en su PDV en este momento
+ * (ver `applyPromotions`). Los importes que envía el cliente se ignoran: se recalculan aquí.
+ * @template T
+ * @param {Database} db - La base de datos.
+ * @param {string} pointOfSale - El PDV de la venta.
+ * @param {T[]} items - Las líneas de la venta.
+ * @returns {(T & { promotions: SaleItemPromotion[] })[]} Las líneas con sus promociones.
+ */
+export function applyActivePromotions<T extends PromotableItem>(db: Database, pointOfSale: string, items: T[]): (T & { promotions: SaleItemPromotion[] })[] {
+  return applyPromotions(items, db.promotions.map(promotion => promotionSchema.parse(promotion)), pointOfSale);
+}
@@ -0,0 +1,244 @@
+import {
+  hasPosAccess,
+  isPurchaseOrderOpen,
+  purchaseOrderPayloadSchema,
+  purchaseOrderStatusSchema,
+  purchaseOrderUpdateSchema,
+  type PurchaseOrderActor,
+  type PurchaseOrderItem,
+  type PurchaseOrderStatus,
+  type SerializedPurchaseOrder,
+  type SerializedSupplierRecord,
+} from '@/lib/domain';
+import { appendAuditEntry, type AuditActor } from './audit';
+import { requireCapability } from './auth';
+import { HttpError, parseIdBody, parseJsonBody } from './http';
+import { assertPointOfSale, findProductAnywhere } from './inventory';
+import { generateId, type Database } from './store';
+
+/** Error para un cuerpo de orden de compra al que le faltan campos o los trae con otro tipo. */
+const PURCHASE_ORDER_FIELDS_ERROR = 'Faltan campos requeridos. Campos requeridos: supplierName, pointOfSale, items (array de { barcode, quantity, purchasePrice? }).';
+
+/**
+ * Filtros admitidos por `get_purchase_orders.php`.
+ * @interface PurchaseOrderFilters
+ */
+export interface PurchaseOrderFilters {
+  /** Solo las órdenes para este PDV, o null para todas. */
+  pointOfSale: string | null;
+  /** Solo las órdenes en este estado, o null para todas. */
+  status: PurchaseOrderStatus | null;
+}
+
+/**
+ * Lee los filtros de órdenes de compra (`pointOfSale`, `status`) de la query string.
+ * @param {URLSearchParams} searchParams - Los parámetros de la petición.
+ * @returns {PurchaseOrderFilters} Los filtros.
+ * @throws {HttpError} 400 si el estado no existe.
+ */
+export function parsePurchaseOrderFilters(searchParams: URLSearchParams): PurchaseOrderFilters {
+  const status = searchParams.get('status') || null;
+  if (status !== null && !purchaseOrderStatusSchema.safeParse(status).success) {
+    throw new HttpError(400, `Estado de orden de compra inválido: ${status}. Valores permitidos: ${purchaseOrderStatusSchema.options.join(', ')}.`);
+  }
+  return {
+    pointOfSale: searchParams.get('pointOfSale')?.trim() || null,
+    status: status as PurchaseOrderStatus | null,
+  };
+}
+
+/**
+ * Filtra las órdenes de compra (`get_purchase_orders.php`).
+ * @param {SerializedPurchaseOrder[]} orders - Todas las órdenes.
+ * @param {PurchaseOrderFilters} filters - Los filtros.
+ * @returns {SerializedPurchaseOrder[]} Las órdenes, de la más reciente a la más antigua.
+ */
+export function queryPurchaseOrders(orders: SerializedPurchaseOrder[], filters: PurchaseOrderFilters): SerializedPurchaseOrder[] {
+  return orders
+    .filter(order =>
+      (!filters.pointOfSale || order.pointOfSale === filters.pointOfSale)
+      && (!filters.status || order.status === filters.status)
+    )
+    .reverse();
+}
+
+/**
+ * Busca una orden de compra por ID.
+ * @param {Database} db - La base de datos.
+ * @param {string} id - El ID recibido.
+ * @returns {SerializedPurchaseOrder} La orden.
+ * @throws {HttpError} 404 si la orden no existe.
+ */
+function findPurchaseOrder(db: Database, id: string): SerializedPurchaseOrder {
+  const order = db.purchaseOrders.find(o => o.id === id);
+  if (!order) {
+    throw new HttpError(404, `Orden de compra no encontrada: ${id}`);
+  }
+  return order;
+}
+
+/**
+ * Comprueba que la sesión pueda gestionar órdenes de compra y tenga acceso al PDV de la orden.
+ * @param {Database} db - La base de datos.
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @param {string} pointOfSale - El PDV de entrega de la orden.
+ * @returns {PurchaseOrderActor} El usuario de la sesión, que también es el autor en el registro de auditoría.
+ * @throws {HttpError} 401 sin sesión, 403 sin la capacidad `manage_purchase_orders` o sin acceso al PDV.
+ */
+function requirePurchaseOrderAccess(db: Database, token: string | null, pointOfSale: string): PurchaseOrderActor {
+  const session = requireCapability(db, token, 'manage_purchase_orders');
+  if (!hasPosAccess(session.user, pointOfSale)) {
+    throw new HttpError(403, `No tienes acceso al Punto de Venta ${pointOfSale}.`);
+  }
+  return { userId: session.user.id, userName: session.user.name };
+}
+
+/**
+ * Arma las líneas de una orden de compra, sumando las que repiten código de barras. El nombre y la marca se toman
+ * del producto en cualquier PDV; un precio ausente o 0 queda como null ("a confirmar").
+ * @param {Database} db - La base de datos.
+ * @param {{ barcode: string; quantity: number; purchasePrice?: number | null }[]} value - Las líneas ya validadas.
+ * @returns {PurchaseOrderItem[]} Las líneas de la orden.
+ * @throws {HttpError} 404 si algún producto no existe.
+ */
+function buildPurchaseOrderItems(
+  db: Database,
+  value: { barcode: string; quantity: number; purchasePrice?: number | null }[]
+): PurchaseOrderItem[] {
+  const items = new Map<string, PurchaseOrderItem>();
+  for (const { barcode, quantity, purchasePrice } of value) {
+    const existing = items.get(barcode);
+    if (existing) {
+      existing.quantity += quantity;
+      continue;
+    }
+    const product = findProductAnywhere(db.inventory, barcode);
+    if (!product) {
+      throw new HttpError(404, `Producto con código de barras ${barcode} no encontrado.`);
+    }
+    items.set(barcode, { barcode, productName: product.name, brandName: product.brand, quantity, purchasePrice: purchasePrice || null });
+  }
+  return Array.from(items.values());
+}
+
+/**
+ * Crea una orden de compra en borrador (`add_purchase_order.php`) y la anota en el registro de auditoría.
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ supplierName, pointOfSale, items: [{ barcode, quantity, purchasePrice? }], notes? }`.
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @returns {SerializedPurchaseOrder} La orden creada.
+ * @throws {HttpError} 400 si los datos son inválidos, 401 sin sesión, 403 sin permiso en el PDV, 404 si el PDV o un producto no existe.
+ */
+export function createPurchaseOrder(db: Database, input: unknown, token: string | null): SerializedPurchaseOrder {
+  const { supplierName, pointOfSale, items, notes } = parseJsonBody(purchaseOrderPayloadSchema, input, PURCHASE_ORDER_FIELDS_ERROR);
+  assertPointOfSale(db, pointOfSale);
+  const actor = requirePurchaseOrderAccess(db, token, pointOfSale);
+  const order: SerializedPurchaseOrder = {
+    id: generateId('purchase'),
+    supplierName,
+    pointOfSale,
+    status: 'draft',
+    items: buildPurchaseOrderItems(db, items),
+    notes: notes?.trim() || null,
+    createdAt: new Date().toISOString(),
+    createdBy: actor,
+    sentAt: null,
+    receivedAt: null,
+    supplierEntryId: null,
+  };
+  db.purchaseOrders.push(order);
+  appendAuditEntry(db, actor, {
+    action: 'purchase_order.create',
+    entityId: order.id,
+    pointOfSale,
+    before: null,
+    after: order,
+  });
+  return order;
+}
+
+/**
+ * Modifica una orden de compra (`update_purchase_order.php`). El proveedor, el PDV, las líneas y las notas solo
+ * cambian mientras la orden es un borrador. `status` admite `sent` (desde borrador) y `cancelled` (desde borrador
+ * o enviada); la recepción se hace con `add_supplier_entry.php`.
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ id, supplierName?, pointOfSale?, items?, notes?, status? }`.
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @returns {SerializedPurchaseOrder} La orden actualizada.
+ * @throws {HttpError} 400 si los datos son inválidos, 401 sin sesión, 403 sin permiso en el PDV,
+ * 404 si la orden, el PDV o un producto no existe, 409 si el cambio no es posible en el estado actual.
+ */
+export function updatePurchaseOrder(db: Database, input: unknown, token: string | null): SerializedPurchaseOrder {
+  const order = findPurchaseOrder(db, parseIdBody(input));
+  const changes = parseJsonBody(
+    purchaseOrderUpdateSchema,
+    input,
+    `Datos de orden de compra inválidos. Campos admitidos: supplierName, pointOfSale, items (array de { barcode, quantity, purchasePrice? }), notes, status (${purchaseOrderStatusSchema.options.join(', ')}).`
+  );
+  const actor = requirePurchaseOrderAccess(db, token, order.pointOfSale);
+  const editsContent = [changes.supplierName, changes.pointOfSale, changes.items, changes.notes].some(value => value !== undefined);
+  if (editsContent && order.status !== 'draft') {
+    throw new HttpError(409, 'Solo se pueden editar las órdenes de compra en borrador.');
+  }
+  const status = changes.status ?? order.status;
+  if (status !== order.status) {
+    const allowed = (status === 'sent' && order.status === 'draft') || (status === 'cancelled' && isPurchaseOrderOpen(order));
+    if (!allowed) {
+      throw new HttpError(409, `No se puede pasar una orden de "${order.status}" a "${status}". La recepción se registra con una entrada de proveedor.`);
+    }
+  }
+  const pointOfSale = changes.pointOfSale ?? order.pointOfSale;
+  if (pointOfSale !== order.pointOfSale) {
+    assertPointOfSale(db, pointOfSale);
+    requirePurchaseOrderAccess(db, token, pointOfSale);
+  }
+  const before = { ...order };
+  Object.assign(order, {
+    supplierName: changes.supplierName ?? order.supplierName,
+    pointOfSale,
+    items: changes.items === undefined ? order.items : buildPurchaseOrderItems(db, changes.items),
+    notes: changes.notes === undefined ? order.notes : changes.notes.trim() || null,
+    status,
+    sentAt: status === 'sent' && order.status === 'draft' ? new Date().toISOString() : order.sentAt,
+  });
+  appendAuditEntry(db, actor, {
+    action: 'purchase_order.update',
+    entityId: order.id,
+    pointOfSale,
+    before,
+    after: order,
+  });
+  return order;
+}
+
+/**
+ * Marca como recibida la orden de compra de una entrada de proveedor. La llama `addSupplierEntry` dentro de su
+ * transacción, así que un error anula también la entrada.
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {string} purchaseOrderId - El ID de la orden.
+ * @param {SerializedSupplierRecord} entry - La entrada de proveedor recién registrada.
+ * @param {AuditActor} actor - El autor de la entrada.
+ * @throws {HttpError} 400 si la orden es para otro PDV, 404 si no existe, 409 si ya se recibió o se anuló.
+ */
+export function receivePurchaseOrder(db: Database, purchaseOrderId: string, entry: SerializedSupplierRecord, actor: AuditActor): void {
+  const order = findPurchaseOrder(db, purchaseOrderId);
+  if (!isPurchaseOrderOpen(order)) {
+    throw new HttpError(409, `La orden de compra ${purchaseOrderId} ya está ${order.status === 'received' ? 'recibida' : 'anulada'}.`);
+  }
+  if (order.pointOfSale !== entry.pointOfSale) {
+    throw new HttpError(400, `La orden de compra ${purchaseOrderId} es para ${order.pointOfSale}, no para ${entry.pointOfSale}.`);
+  }
+  const before = { ...order };
+  Object.assign(order, {
+    status: 'received',
+    receivedAt: entry.dateTime,
+    supplierEntryId: entry.id,
+  });
+  appendAuditEntry(db, actor, {
+    action: 'purchase_order.receive',
+    entityId: order.id,
+    pointOfSale: order.pointOfSale,
+    before,
+    after: order,
+  });
+}
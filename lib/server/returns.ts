@@ -0,0 +1,159 @@
+import {
+  getNetUnitPrices,
+  getReturnableQuantities,
+  hasPosAccess,
+  parseDateTime,
+  paymentMethodSchema,
+  returnReasonSchema,
+  saleReturnPayloadSchema,
+  type SaleRecordItem,
+  type SerializedSaleReturn,
+} from '@/lib/domain';
+import { appendAuditEntry } from './audit';
+import { requireCapability } from './auth';
+import { HttpError, parseDateParam, parseJsonBody } from './http';
+import { findProductInPos, getStockSnapshot } from './inventory';
+import { getSalesCollection } from './sales';
+import { generateId, type Database } from './store';
+
+/**
+ * Filtros admitidos por `get_sale_returns.php`.
+ * @interface SaleReturnFilters
+ */
+export interface SaleReturnFilters {
+  from: Date | null;
+  to: Date | null;
+  pointOfSale: string | null;
+  /** Solo las devoluciones de esta venta. */
+  saleId: string | null;
+}
+
+/**
+ * Suma las líneas de una devolución que repiten código de barras.
+ * @param {{ barcode: string; quantity: number }[]} items - Las líneas ya validadas.
+ * @returns {Map<string, number>} Las unidades a devolver por código de barras.
+ */
+function sumReturnItems(items: { barcode: string; quantity: number }[]): Map<string, number> {
+  const quantities = new Map<string, number>();
+  for (const { barcode, quantity } of items) {
+    quantities.set(barcode, (quantities.get(barcode) ?? 0) + quantity);
+  }
+  return quantities;
+}
+
+/**
+ * Registra la devolución total o parcial de una venta (`record_sale_return.php`): comprueba que no se devuelvan
+ * más unidades de las vendidas (descontando devoluciones anteriores), repone el stock en el PDV de la venta y
+ * guarda la devolución con el importe reembolsado, a precio neto de descuentos (ver `getNetUnitPrices`). Exige una sesión con permiso de venta en ese PDV.
+ * El registro de auditoría guarda la devolución y el stock de sus productos antes y después.
+ *
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ saleId, saleKind, items: [{ barcode, quantity }], reason, refundMethod, notes? }`.
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @returns {SerializedSaleReturn} La devolución guardada.
+ * @throws {HttpError} 400 si los datos son inválidos, 401 sin sesión, 403 sin permiso, 404 si la venta o algún producto no existe,
+ * 409 si se devuelven más unidades de las pendientes.
+ */
+export function recordSaleReturn(db: Database, input: unknown, token: string | null): SerializedSaleReturn {
+  const { saleId, saleKind, items: returnedItems, reason, refundMethod, notes } = parseJsonBody(
+    saleReturnPayloadSchema,
+    input,
+    `Faltan campos requeridos o hay datos inválidos. Campos requeridos: saleId, saleKind (retail o wholesale), items (array de { barcode, quantity (>0) }), reason (${returnReasonSchema.options.join(', ')}), refundMethod (${paymentMethodSchema.options.join(', ')}).`
+  );
+  const sale = getSalesCollection(db, saleKind).find(s => s.id === saleId);
+  if (!sale) {
+    throw new HttpError(404, `Venta no encontrada: ${saleId}`);
+  }
+
+  const session = requireCapability(db, token, saleKind === 'wholesale' ? 'wholesale_sell' : 'sell');
+  if (!hasPosAccess(session.user, sale.pointOfSale)) {
+    throw new HttpError(403, `No tienes acceso al Punto de Venta ${sale.pointOfSale}.`);
+  }
+
+  const quantities = sumReturnItems(returnedItems);
+  const returnable = getReturnableQuantities(sale, db.saleReturns.filter(r => r.saleId === sale.id));
+  const netUnitPrices = getNetUnitPrices(sale);
+  const items: SaleRecordItem[] = [];
+  for (const [barcode, quantity] of Array.from(quantities)) {
+    const saleItem = sale.items.find(item => item.barcode === barcode);
+    if (!saleItem) {
+      throw new HttpError(400, `El producto ${barcode} no forma parte de la venta ${sale.id}.`);
+    }
+    if (quantity > returnable[barcode]) {
+      throw new HttpError(409, `Solo quedan ${returnable[barcode]} unidad(es) de "${saleItem.productName}" por devolver en esta venta.`);
+    }
+    items.push({ ...saleItem, quantity, price: netUnitPrices[barcode], promotions: [], discount: null });
+  }
+
+  const barcodes = items.map(item => item.barcode);
+  const stockBefore = getStockSnapshot(db.inventory, sale.pointOfSale, barcodes);
+  for (const item of items) {
+    const location = findProductInPos(db.inventory, sale.pointOfSale, item.barcode);
+    if (!location) {
+      throw new HttpError(404, `Producto con código de barras ${item.barcode} no encontrado en ${sale.pointOfSale}.`);
+    }
+    location.product.quantity += item.quantity;
+  }
+
+  const saleReturn: SerializedSaleReturn = {
+    id: generateId('return'),
+    dateTime: new Date().toISOString(),
+    saleId: sale.id,
+    saleKind,
+    pointOfSale: sale.pointOfSale,
+    userId: session.user.id,
+    userName: session.user.name,
+    items,
+    reason,
+    notes: notes?.trim() || null,
+    refundMethod,
+    totalAmount: items.reduce((sum, item) => sum + item.quantity * item.price, 0),
+  };
+  db.saleReturns.push(saleReturn);
+  appendAuditEntry(db, { userId: session.user.id, userName: session.user.name }, {
+    action: 'sale_return.record',
+    entityId: saleReturn.id,
+    pointOfSale: sale.pointOfSale,
+    before: { stock: stockBefore },
+    after: { ...saleReturn, stock: getStockSnapshot(db.inventory, sale.pointOfSale, barcodes) },
+  });
+  return saleReturn;
+}
+
+/**
+ * Lee los filtros de devoluciones (`from`, `to`, `pointOfSale`, `saleId`) de la query string.
+ * @param {URLSearchParams} searchParams - Los parámetros de la petición.
+ * @returns {SaleReturnFilters} Los filtros.
+ * @throws {HttpError} 400 si alguna fecha es inválida o `from` es posterior a `to`.
+ */
+export function parseSaleReturnFilters(searchParams: URLSearchParams): SaleReturnFilters {
+  const from = parseDateParam(searchParams, 'from');
+  const to = parseDateParam(searchParams, 'to');
+  if (from && to && from > to) {
+    throw new HttpError(400, 'El parámetro "from" no puede ser posterior a "to".');
+  }
+  return {
+    from,
+    to,
+    pointOfSale: searchParams.get('pointOfSale')?.trim() || null,
+    saleId: searchParams.get('saleId')?.trim() || null,
+  };
+}
+
+/**
+ * Filtra las devoluciones (`get_sale_returns.php`).
+ * @param {SerializedSaleReturn[]} saleReturns - Todas las devoluciones.
+ * @param {SaleReturnFilters} filters - Los filtros.
+ * @returns {SerializedSaleReturn[]} Las devoluciones, de la más reciente a la más antigua.
+ */
+export function querySaleReturns(saleReturns: SerializedSaleReturn[], filters: SaleReturnFilters): SerializedSaleReturn[] {
+  return saleReturns
+    .filter(saleReturn => {
+      const time = parseDateTime(saleReturn.dateTime).getTime();
+      return (!filters.from || time >= filters.from.getTime())
+        && (!filters.to || time <= filters.to.getTime())
+        && (!filters.pointOfSale || saleReturn.pointOfSale === filters.pointOfSale)
+        && (!filters.saleId || saleReturn.saleId === filters.saleId);
+    })
+    .reverse();
+}
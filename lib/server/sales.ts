@@ -0,0 +1,426 @@
+import {
+  getMinimumTierQuantity,
+  getPriceTierForQuantity,
+  hasCapability,
+  hasPosAccess,
+  mixedSalePayloadSchema,
+  parseDateTime,
+  PAYMENT_AMOUNT_TOLERANCE,
+  salePayloadSchema,
+  type PaymentMethod,
+  type SaleKind,
+  type SalePayload,
+  type SalePayment,
+  type SerializedSaleRecord,
+  type User,
+} from '@/lib/domain';
+import { appendAuditEntry } from './audit';
+import { requireCapability } from './auth';
+import { resolveSaleCustomer } from './customers';
+import { applySaleDiscounts, type DiscountInput, type SaleItemInput } from './discounts';
+import { HttpError, parseDateParam, parseJsonBody } from './http';
+import { assertPointOfSale, decrementStock, findProductInPos, getStockSnapshot } from './inventory';
+import { applyActivePromotions } from './promotions';
+import { generateId, type Database } from './store';
+
+const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'card', 'transfer'];
+
+/** Error para un cuerpo de venta al que le faltan campos o los trae con otro tipo. */
+const SALE_FIELDS_ERROR = 'Faltan campos requeridos o hay datos inválidos. Campos requeridos: pointOfSale, payments (array de { method, amount }), items (array de { barcode, productName, quantity }).';
+
+/**
+ * Devuelve la colección de ventas correspondiente al tipo de venta.
+ * @param {Database} db - La base de datos.
+ * @param {SaleKind} kind - El tipo de venta.
+ * @returns {SerializedSaleRecord[]} La colección de ventas (referencia mutable).
+ */
+export function getSalesCollection(db: Database, kind: SaleKind): SerializedSaleRecord[] {
+  return kind === 'wholesale' ? db.wholesaleSales : db.sales;
+}
+
+/**
+ * Agrupa los pagos de una venta por método. Sin `payments`, toma el formato anterior con un único `paymentMethod`,
+ * que cubre todo el total (se indica con `amount: null`).
+ * @param {SalePayload} payload - El cuerpo de la venta, ya validado.
+ * @returns {{ method: PaymentMethod; amount: number | null }[]} Los pagos, agrupados por método.
+ * @throws {HttpError} 400 si no llega ni `payments` ni `paymentMethod`.
+ */
+function groupSalePayments(payload: SalePayload): { method: PaymentMethod; amount: number | null }[] {
+  if (!payload.payments) {
+    if (!payload.paymentMethod) {
+      throw new HttpError(400, 'Falta el pago: payments (array de { method, amount }) o paymentMethod.');
+    }
+    return [{ method: payload.paymentMethod, amount: null }];
+  }
+  const amounts = new Map<PaymentMethod, number>();
+  for (const payment of payload.payments) {
+    amounts.set(payment.method, (amounts.get(payment.method) ?? 0) + payment.amount);
+  }
+  return Array.from(amounts, ([method, amount]) => ({ method, amount }));
+}
+
+/**
+ * Quita un descuento de valor 0, que equivale a no tenerlo.
+ * @param {DiscountInput | null | undefined} discount - El descuento recibido, o nada.
+ * @returns {DiscountInput | null} El descuento, o null si no hay.
+ */
+function normalizeDiscount(discount: DiscountInput | null | undefined): DiscountInput | null {
+  return discount && discount.value > 0 ? discount : null;
+}
+
+/**
+ * Fija el precio de cada línea con el precio de lista del producto en el PDV, con su nombre y marca del inventario.
+ * El cliente no decide el precio: los topes de descuento y las promociones se miden siempre sobre el de lista.
+ * Rechaza ya aquí las cantidades que superan el stock, antes de evaluar promociones con ellas.
+ * @param {Database} db - La base de datos.
+ * @param {string} pointOfSale - El PDV de la venta.
+ * @param {Omit<SaleItemInput, 'price'>[]} items - Las líneas de la venta.
+ * @returns {SaleItemInput[]} Las líneas con su precio de lista.
+ * @throws {HttpError} 404 si algún producto no existe en el PDV, 409 si una línea supera su stock.
+ */
+function applyListPrices(db: Database, pointOfSale: string, items: Omit<SaleItemInput, 'price'>[]): SaleItemInput[] {
+  return items.map(item => {
+    const location = findProductInPos(db.inventory, pointOfSale, item.barcode);
+    if (!location) {
+      throw new HttpError(404, `Producto con código de barras ${item.barcode} no encontrado en ${pointOfSale}.`);
+    }
+    if (location.product.quantity < item.quantity) {
+      throw new HttpError(409, `Stock insuficiente para "${location.product.name}" (${item.barcode}) en ${pointOfSale}. Disponible: ${location.product.quantity}.`);
+    }
+    return { ...item, productName: location.product.name, brandName: location.brand, price: location.product.price };
+  });
+}
+
+/**
+ * Fija el precio de cada línea de una venta mayorista según los tramos de precio por volumen del producto
+ * en el PDV: se aplica el tramo de mayor cantidad mínima que la cantidad alcanza. Los productos sin tramos
+ * se cobran a su precio de lista, el mismo que muestra la caja.
+ * @param {Database} db - La base de datos.
+ * @param {string} pointOfSale - El PDV de la venta.
+ * @param {SaleItemInput[]} items - Las líneas de la venta, con su precio de lista (ver `applyListPrices`).
+ * @returns {SaleItemInput[]} Las líneas con su precio y su tramo (`priceTier`, null si el producto no tiene tramos).
+ * @throws {HttpError} 400 si alguna cantidad no llega al primer tramo del producto.
+ */
+function applyPriceTiers(db: Database, pointOfSale: string, items: SaleItemInput[]): SaleItemInput[] {
+  return items.map(item => {
+    const tiers = findProductInPos(db.inventory, pointOfSale, item.barcode)?.product.priceTiers;
+    const minimum = getMinimumTierQuantity(tiers);
+    if (minimum === null) {
+      return { ...item, priceTier: null };
+    }
+    const tier = getPriceTierForQuantity(tiers, item.quantity);
+    if (!tier) {
+      throw new HttpError(400, `La cantidad de "${item.productName}" debe ser al menos ${minimum} para el precio mayorista.`);
+    }
+    return { ...item, price: tier.price, priceTier: tier };
+  });
+}
+
+/**
+ * Registra una venta dentro de una transacción: valida los datos, descuenta el stock de cada ítem
+ * y guarda el registro. El total se recalcula en el servidor a partir de los ítems y los pagos deben sumarlo
+ * exactamente (el vuelto del efectivo ya descontado). Si se indica `cashTendered` (efectivo recibido), debe cubrir
+ * la parte pagada en efectivo y el vuelto se guarda en `change`.
+ * Cada ítem parte de su precio de lista en el PDV (ver `applyListPrices`); el precio que envía el cliente se ignora.
+ * En las ventas minoristas se aplican las promociones activas del PDV (ver `applyActivePromotions`).
+ * Los descuentos de línea y del carrito también se recalculan aquí; si superan el máximo del rol del vendedor,
+ * la venta debe presentar una aprobación de encargado (ver `applySaleDiscounts`). El vendedor es siempre el usuario
+ * de la sesión, que necesita la capacidad `sell` (o `wholesale_sell`) y acceso al PDV.
+ * En las mayoristas, el precio de cada ítem sale del tramo por volumen que alcanza su cantidad (ver `applyPriceTiers`).
+ * Si se indica `customerId`, la venta guarda el nombre e ID fiscal actuales del cliente.
+ * El registro de auditoría guarda la venta y el stock de sus productos antes y después.
+ *
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido (ver `salePayloadSchema`).
+ * @param {SaleKind} kind - El tipo de venta.
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @returns {SerializedSaleRecord} La venta guardada, con ID y fecha generados por el servidor.
+ * @throws {HttpError} Si los datos son inválidos, no hay sesión, falta el permiso o el acceso al PDV, los pagos
+ * no suman el total, el descuento no está autorizado, el PDV o el cliente no existen o el stock es insuficiente.
+ */
+export function recordSale(db: Database, input: unknown, kind: SaleKind, token: string | null): SerializedSaleRecord {
+  return saveSale(db, parseJsonBody(salePayloadSchema, input, SALE_FIELDS_ERROR), kind, token);
+}
+
+/**
+ * Guarda una venta ya validada (ver `recordSale`).
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {SalePayload} input - El cuerpo de la venta, ya validado.
+ * @param {SaleKind} kind - El tipo de venta.
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @returns {SerializedSaleRecord} La venta guardada.
+ * @throws {HttpError} Los mismos errores que `recordSale`, salvo los de forma del cuerpo.
+ */
+function saveSale(db: Database, input: SalePayload, kind: SaleKind, token: string | null): SerializedSaleRecord {
+  const payload = {
+    pointOfSale: input.pointOfSale,
+    payments: groupSalePayments(input),
+    cashTendered: input.cashTendered ?? null,
+    items: input.items.map(item => ({ ...item, discount: normalizeDiscount(item.discount) })),
+    cartDiscount: normalizeDiscount(input.cartDiscount),
+    discountApprovalId: input.discountApprovalId ?? null,
+    customerId: input.customerId ?? null,
+  };
+  assertPointOfSale(db, payload.pointOfSale);
+  const session = requireCapability(db, token, kind === 'retail' ? 'sell' : 'wholesale_sell');
+  if (!hasPosAccess(session.user, payload.pointOfSale)) {
+    throw new HttpError(403, `No tienes acceso al Punto de Venta ${payload.pointOfSale}.`);
+  }
+  const actor = { userId: session.user.id, userName: session.user.name };
+  const customer = resolveSaleCustomer(db, payload.customerId);
+  const listedItems = applyListPrices(db, payload.pointOfSale, payload.items);
+  const pricedItems = kind === 'retail'
+    ? applyActivePromotions(db, payload.pointOfSale, listedItems)
+    : applyPriceTiers(db, payload.pointOfSale, listedItems);
+  const { items, cartDiscount, totalAmount, discountApprovedBy } = applySaleDiscounts(db, { ...payload, items: pricedItems }, session.user);
+  const payments: SalePayment[] = payload.payments.map(payment => ({ method: payment.method, amount: payment.amount ?? totalAmount }));
+  const paid = payments.reduce((sum, payment) => sum + payment.amount, 0);
+  if (Math.abs(paid - totalAmount) > PAYMENT_AMOUNT_TOLERANCE) {
+    throw new HttpError(400, `Los pagos suman $${paid.toFixed(3)} pero el total de la venta es $${totalAmount.toFixed(3)}.`);
+  }
+  const cashAmount = payments.filter(payment => payment.method === 'cash').reduce((sum, payment) => sum + payment.amount, 0);
+  if (payload.cashTendered !== null) {
+    if (cashAmount === 0) {
+      throw new HttpError(400, 'Se indicó efectivo recibido, pero la venta no tiene pagos en efectivo.');
+    }
+    if (payload.cashTendered < cashAmount - PAYMENT_AMOUNT_TOLERANCE) {
+      throw new HttpError(400, `El efectivo recibido ($${payload.cashTendered.toFixed(3)}) no cubre el pago en efectivo ($${cashAmount.toFixed(3)}).`);
+    }
+  }
+  const barcodes = items.map(item => item.barcode);
+  const stockBefore = getStockSnapshot(db.inventory, payload.pointOfSale, barcodes);
+
+  for (const item of items) {
+    decrementStock(db.inventory, payload.pointOfSale, item.barcode, item.quantity);
+  }
+
+  const sale: SerializedSaleRecord = {
+    id: generateId(kind === 'wholesale' ? 'wholesale' : 'sale'),
+    dateTime: new Date().toISOString(),
+    pointOfSale: payload.pointOfSale,
+    userId: actor.userId,
+    userName: actor.userName,
+    items,
+    // Método principal (el de mayor importe), para los clientes que solo leen un método.
+    paymentMethod: payments.reduce((main, payment) => (payment.amount > main.amount ? payment : main)).method,
+    payments,
+    cashTendered: payload.cashTendered,
+    change: payload.cashTendered !== null ? Math.max(payload.cashTendered - cashAmount, 0) : 0,
+    cartDiscount,
+    discountApprovedBy,
+    customer,
+    totalAmount,
+  };
+  getSalesCollection(db, kind).push(sale);
+  appendAuditEntry(db, actor, {
+    action: kind === 'wholesale' ? 'wholesale_sale.record' : 'sale.record',
+    entityId: sale.id,
+    pointOfSale: sale.pointOfSale,
+    before: { stock: stockBefore },
+    after: { ...sale, stock: getStockSnapshot(db.inventory, payload.pointOfSale, barcodes) },
+  });
+  return sale;
+}
+
+/**
+ * Registra las dos ventas de un carrito mixto (`record_mixed_sale.php`) en la misma transacción: la minorista y
+ * la mayorista se guardan juntas o, si cualquiera falla (stock, aprobación de descuento, permisos), ninguna.
+ * Cada parte se valida igual que en `recordSale`, con su propia capacidad, sus pagos y su aprobación.
+ *
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ retail, wholesale }`, cada uno con los datos de una venta del mismo PDV.
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @returns {Record<SaleKind, SerializedSaleRecord>} Las dos ventas guardadas.
+ * @throws {HttpError} 400 si falta alguna de las ventas o son de PDV distintos, o cualquier error de `recordSale`.
+ */
+export function recordMixedSale(db: Database, input: unknown, token: string | null): Record<SaleKind, SerializedSaleRecord> {
+  const { retail, wholesale } = parseJsonBody(
+    mixedSalePayloadSchema,
+    input,
+    'Faltan campos requeridos o hay datos inválidos. Campos requeridos: retail y wholesale (los datos de cada venta).'
+  );
+  return {
+    retail: saveSale(db, retail, 'retail', token),
+    wholesale: saveSale(db, wholesale, 'wholesale', token),
+  };
+}
+
+/**
+ * Filtros admitidos por los endpoints de historial de ventas.
+ * @interface SalesHistoryFilters
+ */
+export interface SalesHistoryFilters {
+  /** Fecha/hora mínima (inclusiva), o null para no acotar. */
+  from: Date | null;
+  /** Fecha/hora máxima (inclusiva), o null para no acotar. */
+  to: Date | null;
+  /** Punto de Venta exacto, o null para todos. */
+  pointOfSale: string | null;
+  /** Solo las ventas con algún pago de este método, o null para todas. */
+  paymentMethod: PaymentMethod | null;
+  /** Solo las ventas asociadas a este cliente, o null para todas. */
+  customerId: string | null;
+}
+
+/**
+ * Parámetros de paginación por cursor de los endpoints de historial.
+ * @interface SalesHistoryPagination
+ */
+export interface SalesHistoryPagination {
+  /** Cursor opaco devuelto como `nextCursor` en la página anterior, o null para la primera página. */
+  cursor: string | null;
+  /** Número máximo de ventas por página. */
+  limit: number;
+}
+
+/**
+ * Una página del historial de ventas, tal como la devuelven los endpoints.
+ * @interface SalesHistoryPage
+ */
+export interface SalesHistoryPage {
+  items: SerializedSaleRecord[];
+  /** Cursor para pedir la página siguiente, o null si no hay más ventas. */
+  nextCursor: string | null;
+}
+
+const DEFAULT_HISTORY_PAGE_SIZE = 50;
+const MAX_HISTORY_PAGE_SIZE = 500;
+
+/**
+ * Posición de una venta en el orden del historial (fecha descendente y, a igual fecha, ID descendente).
+ * Es lo que se codifica en el cursor.
+ */
+interface HistoryPosition {
+  time: number;
+  id: string;
+}
+
+/**
+ * Lee los filtros de historial (`from`, `to`, `pointOfSale`, `paymentMethod`, `customerId`) de la query string.
+ * @param {URLSearchParams} searchParams - Los parámetros de la petición.
+ * @returns {SalesHistoryFilters} Los filtros.
+ * @throws {HttpError} 400 si alguna fecha es inválida, `from` es posterior a `to` o el método de pago no existe.
+ */
+export function parseSalesHistoryFilters(searchParams: URLSearchParams): SalesHistoryFilters {
+  const from = parseDateParam(searchParams, 'from');
+  const to = parseDateParam(searchParams, 'to');
+  if (from && to && from > to) {
+    throw new HttpError(400, 'El parámetro "from" no puede ser posterior a "to".');
+  }
+  const pointOfSale = searchParams.get('pointOfSale')?.trim() || null;
+  const paymentMethod = searchParams.get('paymentMethod') || null;
+  if (paymentMethod !== null && !PAYMENT_METHODS.includes(paymentMethod as PaymentMethod)) {
+    throw new HttpError(400, `Método de pago inválido: ${paymentMethod}`);
+  }
+  const customerId = searchParams.get('customerId')?.trim() || null;
+  return { from, to, pointOfSale, paymentMethod: paymentMethod as PaymentMethod | null, customerId };
+}
+
+/**
+ * Lee los parámetros de paginación (`cursor`, `limit`) de la query string.
+ * @param {URLSearchParams} searchParams - Los parámetros de la petición.
+ * @returns {SalesHistoryPagination} La paginación, con `limit` por defecto si no se indica.
+ * @throws {HttpError} 400 si `limit` no es un entero entre 1 y el máximo permitido.
+ */
+export function parseSalesHistoryPagination(searchParams: URLSearchParams): SalesHistoryPagination {
+  const rawLimit = searchParams.get('limit');
+  const limit = rawLimit ? Number(rawLimit) : DEFAULT_HISTORY_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_PAGE_SIZE) {
+    throw new HttpError(400, `Parámetro "limit" inválido: ${rawLimit}. Debe ser un entero entre 1 y ${MAX_HISTORY_PAGE_SIZE}.`);
+  }
+  return { cursor: searchParams.get('cursor') || null, limit };
+}
+
+/**
+ * Codifica la posición de una venta como cursor opaco (base64url).
+ * @param {HistoryPosition} position - La posición de la última venta de la página.
+ * @returns {string} El cursor.
+ */
+function encodeCursor(position: HistoryPosition): string {
+  return Buffer.from(JSON.stringify(position), 'utf-8').toString('base64url');
+}
+
+/**
+ * Decodifica un cursor generado por `encodeCursor`.
+ * @param {string} cursor - El cursor recibido.
+ * @returns {HistoryPosition} La posición codificada.
+ * @throws {HttpError} 400 si el cursor no es válido.
+ */
+function decodeCursor(cursor: string): HistoryPosition {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (typeof position?.time === 'number' && typeof position?.id === 'string') {
+      return position;
+    }
+  } catch {
+    // Se trata abajo como cursor inválido.
+  }
+  throw new HttpError(400, 'Parámetro "cursor" inválido.');
+}
+
+/**
+ * Compara dos posiciones en el orden del historial (la más reciente primero).
+ * @param {HistoryPosition} a - La primera posición.
+ * @param {HistoryPosition} b - La segunda posición.
+ * @returns {number} Negativo si `a` va antes que `b`, positivo si va después, 0 si son iguales.
+ */
+function compareHistoryPositions(a: HistoryPosition, b: HistoryPosition): number {
+  if (a.time !== b.time) {
+    return b.time - a.time;
+  }
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+/**
+ * Filtra un historial de ventas, lo ordena de la más reciente a la más antigua y devuelve una página.
+ * El cursor marca la última venta de la página anterior, así que las ventas registradas mientras
+ * se recorre el historial no desplazan ni duplican las siguientes páginas.
+ * Solo se devuelven las ventas de los PDV a los que tiene acceso el usuario.
+ * El cliente de cada venta (nombre e ID fiscal) y el filtro `customerId` son datos del directorio de clientes:
+ * sin la capacidad `manage_customers`, las ventas se devuelven sin cliente y el filtro se rechaza.
+ *
+ * @param {SerializedSaleRecord[]} sales - El historial completo.
+ * @param {SalesHistoryFilters} filters - Los filtros a aplicar.
+ * @param {SalesHistoryPagination} pagination - El cursor y el tamaño de página.
+ * @param {User} user - El usuario que consulta el historial.
+ * @returns {SalesHistoryPage} La página de ventas y el cursor de la siguiente.
+ * @throws {HttpError} 400 si el cursor no es válido, 403 si se filtra por un PDV sin acceso o por cliente
+ *   sin `manage_customers`.
+ */
+export function querySalesHistory(
+  sales: SerializedSaleRecord[],
+  filters: SalesHistoryFilters,
+  pagination: SalesHistoryPagination,
+  user: User
+): SalesHistoryPage {
+  if (filters.pointOfSale && !hasPosAccess(user, filters.pointOfSale)) {
+    throw new HttpError(403, `No tienes acceso al Punto de Venta ${filters.pointOfSale}.`);
+  }
+  const canSeeCustomers = hasCapability(user, 'manage_customers');
+  if (filters.customerId && !canSeeCustomers) {
+    throw new HttpError(403, 'No tienes permiso para consultar las ventas de un cliente.');
+  }
+  const fromTime = filters.from?.getTime() ?? -Infinity;
+  const toTime = filters.to?.getTime() ?? Infinity;
+  const after = pagination.cursor ? decodeCursor(pagination.cursor) : null;
+
+  const matching = sales
+    .map(sale => ({ sale, position: { time: parseDateTime(sale.dateTime).getTime(), id: sale.id } }))
+    .filter(({ sale, position }) =>
+      hasPosAccess(user, sale.pointOfSale) &&
+      position.time >= fromTime &&
+      position.time <= toTime &&
+      (!filters.pointOfSale || sale.pointOfSale === filters.pointOfSale) &&
+      (!filters.paymentMethod || (sale.payments ?? [{ method: sale.paymentMethod }]).some(payment => payment.method === filters.paymentMethod)) &&
+      (!filters.customerId || sale.customer?.id === filters.customerId) &&
+      (!after || compareHistoryPositions(position, after) > 0)
+    )
+    .sort((a, b) => compareHistoryPositions(a.position, b.position));
+
+  const page = matching.slice(0, pagination.limit);
+  const hasMore = matching.length > pagination.limit;
+  return {
+    items: page.map(({ sale }) => (canSeeCustomers ? sale : { ...sale, customer: null })),
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1].position) : null,
+  };
+}
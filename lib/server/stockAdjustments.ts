@@ -0,0 +1,129 @@
+import {
+  hasPosAccess,
+  parseDateTime,
+  stockAdjustmentFormSchema,
+  stockAdjustmentReasonSchema,
+  type SerializedStockAdjustment,
+  type StockAdjustmentReason,
+} from '@/lib/domain';
+import { appendAuditEntry } from './audit';
+import { requireCapability } from './auth';
+import { HttpError, parseDateParam, parseJsonBody } from './http';
+import { assertPointOfSale, findProductInPos } from './inventory';
+import { generateId, type Database } from './store';
+
+/**
+ * Filtros admitidos por `get_stock_adjustments.php`.
+ * @interface StockAdjustmentFilters
+ */
+export interface StockAdjustmentFilters {
+  /** Solo los ajustes desde esta fecha (inclusive), o null. */
+  from: Date | null;
+  /** Solo los ajustes hasta esta fecha (inclusive), o null. */
+  to: Date | null;
+  /** Solo los ajustes de este PDV, o null para todos. */
+  pointOfSale: string | null;
+  /** Solo los ajustes con este motivo, o null para todos. */
+  reason: StockAdjustmentReason | null;
+}
+
+/**
+ * Lee los filtros de ajustes de stock (`from`, `to`, `pointOfSale`, `reason`) de la query string.
+ * @param {URLSearchParams} searchParams - Los parámetros de la petición.
+ * @returns {StockAdjustmentFilters} Los filtros.
+ * @throws {HttpError} 400 si alguna fecha o el motivo es inválido, o `from` es posterior a `to`.
+ */
+export function parseStockAdjustmentFilters(searchParams: URLSearchParams): StockAdjustmentFilters {
+  const from = parseDateParam(searchParams, 'from');
+  const to = parseDateParam(searchParams, 'to');
+  if (from && to && from > to) {
+    throw new HttpError(400, 'El parámetro "from" no puede ser posterior a "to".');
+  }
+  const reason = searchParams.get('reason') || null;
+  if (reason !== null && !stockAdjustmentReasonSchema.safeParse(reason).success) {
+    throw new HttpError(400, `Motivo de ajuste inválido: ${reason}. Valores permitidos: ${stockAdjustmentReasonSchema.options.join(', ')}.`);
+  }
+  return {
+    from,
+    to,
+    pointOfSale: searchParams.get('pointOfSale')?.trim() || null,
+    reason: reason as StockAdjustmentReason | null,
+  };
+}
+
+/**
+ * Filtra los ajustes de stock (`get_stock_adjustments.php`).
+ * @param {SerializedStockAdjustment[]} adjustments - Todos los ajustes.
+ * @param {StockAdjustmentFilters} filters - Los filtros.
+ * @returns {SerializedStockAdjustment[]} Los ajustes, del más reciente al más antiguo.
+ */
+export function queryStockAdjustments(adjustments: SerializedStockAdjustment[], filters: StockAdjustmentFilters): SerializedStockAdjustment[] {
+  return adjustments
+    .filter(adjustment => {
+      const time = parseDateTime(adjustment.createdAt).getTime();
+      return (!filters.from || time >= filters.from.getTime())
+        && (!filters.to || time <= filters.to.getTime())
+        && (!filters.pointOfSale || adjustment.pointOfSale === filters.pointOfSale)
+        && (!filters.reason || adjustment.reason === filters.reason);
+    })
+    .reverse();
+}
+
+/**
+ * Registra un ajuste manual de stock (`add_stock_adjustment.php`): suma o resta unidades de un producto en un PDV
+ * por un motivo (rotura, robo, vencimiento o tester) sin pasar por una venta. Lo anota en el registro de auditoría
+ * con el stock antes y después. Exige la capacidad `adjust_stock` y acceso al PDV.
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ pointOfSale, barcode, quantity, reason, notes? }`; `quantity` es
+ *   negativa para las bajas.
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @returns {SerializedStockAdjustment} El ajuste registrado.
+ * @throws {HttpError} 400 si los datos son inválidos, 401 sin sesión, 403 sin permiso o sin acceso al PDV,
+ *   404 si el PDV o el producto no existe, 409 si el stock quedaría negativo.
+ */
+export function createStockAdjustment(db: Database, input: unknown, token: string | null): SerializedStockAdjustment {
+  const { pointOfSale, barcode, quantity, reason, notes } = parseJsonBody(
+    stockAdjustmentFormSchema,
+    input,
+    `Faltan campos requeridos. Campos requeridos: pointOfSale, barcode, quantity (entero distinto de 0), reason (${stockAdjustmentReasonSchema.options.join(', ')}).`
+  );
+  assertPointOfSale(db, pointOfSale);
+  const session = requireCapability(db, token, 'adjust_stock');
+  if (!hasPosAccess(session.user, pointOfSale)) {
+    throw new HttpError(403, `No tienes acceso al Punto de Venta ${pointOfSale}.`);
+  }
+  const location = findProductInPos(db.inventory, pointOfSale, barcode);
+  if (!location) {
+    throw new HttpError(404, `Producto con código de barras ${barcode} no encontrado en ${pointOfSale}.`);
+  }
+  if (location.product.quantity + quantity < 0) {
+    throw new HttpError(409, `El ajuste dejaría stock negativo para "${location.product.name}". Disponible: ${location.product.quantity}.`);
+  }
+  const actor = { userId: session.user.id, userName: session.user.name };
+  const quantityBefore = location.product.quantity;
+  location.product.quantity += quantity;
+  const adjustment: SerializedStockAdjustment = {
+    id: generateId('adjustment'),
+    pointOfSale,
+    barcode,
+    productName: location.product.name,
+    brandName: location.brand,
+    quantity,
+    reason,
+    notes: notes?.trim() || null,
+    unitPrice: location.product.price,
+    quantityBefore,
+    quantityAfter: location.product.quantity,
+    createdAt: new Date().toISOString(),
+    createdBy: actor,
+  };
+  db.stockAdjustments.push(adjustment);
+  appendAuditEntry(db, actor, {
+    action: 'stock_adjustment.create',
+    entityId: adjustment.id,
+    pointOfSale,
+    before: { quantity: quantityBefore },
+    after: adjustment,
+  });
+  return adjustment;
+}
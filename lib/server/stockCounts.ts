@@ -0,0 +1,272 @@
+import {
+  getStockCountVariance,
+  hasPosAccess,
+  stockCountFormSchema,
+  stockCountPostSchema,
+  stockCountStatusSchema,
+  stockCountUpdateSchema,
+  type Capability,
+  type SerializedStockCount,
+  type StockCountActor,
+  type StockCountItem,
+  type StockCountStatus,
+} from '@/lib/domain';
+import { appendAuditEntry } from './audit';
+import { requireCapability } from './auth';
+import { HttpError, parseIdBody, parseJsonBody } from './http';
+import { assertPointOfSale, findProductInPos, getStockSnapshot } from './inventory';
+import { generateId, type Database } from './store';
+
+/**
+ * Filtros admitidos por `get_stock_counts.php`.
+ * @interface StockCountFilters
+ */
+export interface StockCountFilters {
+  /** Solo los conteos de este PDV, o null para todos. */
+  pointOfSale: string | null;
+  /** Solo los conteos en este estado, o null para todos. */
+  status: StockCountStatus | null;
+}
+
+/**
+ * Lee los filtros de conteos (`pointOfSale`, `status`) de la query string.
+ * @param {URLSearchParams} searchParams - Los parámetros de la petición.
+ * @returns {StockCountFilters} Los filtros.
+ * @throws {HttpError} 400 si el estado no existe.
+ */
+export function parseStockCountFilters(searchParams: URLSearchParams): StockCountFilters {
+  const status = searchParams.get('status') || null;
+  if (status !== null && !stockCountStatusSchema.safeParse(status).success) {
+    throw new HttpError(400, `Estado de conteo inválido: ${status}. Valores permitidos: ${stockCountStatusSchema.options.join(', ')}.`);
+  }
+  return {
+    pointOfSale: searchParams.get('pointOfSale')?.trim() || null,
+    status: status as StockCountStatus | null,
+  };
+}
+
+/**
+ * Filtra los conteos (`get_stock_counts.php`).
+ * @param {SerializedStockCount[]} counts - Todos los conteos.
+ * @param {StockCountFilters} filters - Los filtros.
+ * @returns {SerializedStockCount[]} Los conteos, del más reciente al más antiguo.
+ */
+export function queryStockCounts(counts: SerializedStockCount[], filters: StockCountFilters): SerializedStockCount[] {
+  return counts
+    .filter(count =>
+      (!filters.pointOfSale || count.pointOfSale === filters.pointOfSale)
+      && (!filters.status || count.status === filters.status)
+    )
+    .reverse();
+}
+
+/**
+ * Busca un conteo por ID.
+ * @param {Database} db - La base de datos.
+ * @param {string} id - El ID recibido.
+ * @returns {SerializedStockCount} El conteo.
+ * @throws {HttpError} 404 si el conteo no existe.
+ */
+function findStockCount(db: Database, id: string): SerializedStockCount {
+  const count = db.stockCounts.find(c => c.id === id);
+  if (!count) {
+    throw new HttpError(404, `Conteo no encontrado: ${id}`);
+  }
+  return count;
+}
+
+/**
+ * Comprueba que la sesión tenga la capacidad indicada y acceso al PDV del conteo.
+ * @param {Database} db - La base de datos.
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @param {string} pointOfSale - El PDV del conteo.
+ * @param {Capability} capability - `count_stock` para iniciar y cargar; `post_stock_counts` para contabilizar o anular.
+ * @returns {StockCountActor} El usuario de la sesión, que también es el autor en el registro de auditoría.
+ * @throws {HttpError} 401 sin sesión, 403 sin la capacidad o sin acceso al PDV.
+ */
+function requireStockCountAccess(db: Database, token: string | null, pointOfSale: string, capability: Capability): StockCountActor {
+  const session = requireCapability(db, token, capability);
+  if (!hasPosAccess(session.user, pointOfSale)) {
+    throw new HttpError(403, `No tienes acceso al Punto de Venta ${pointOfSale}.`);
+  }
+  return { userId: session.user.id, userName: session.user.name };
+}
+
+/**
+ * Comprueba que un conteo siga abierto.
+ * @param {SerializedStockCount} count - El conteo.
+ * @throws {HttpError} 409 si ya se contabilizó o se anuló.
+ */
+function assertCounting(count: SerializedStockCount): void {
+  if (count.status !== 'counting') {
+    throw new HttpError(409, `El conteo ya está ${count.status === 'posted' ? 'contabilizado' : 'anulado'}.`);
+  }
+}
+
+/**
+ * Aplica cantidades contadas a las líneas de un conteo. Si un código de barras se repite, vale la última cantidad.
+ * @param {StockCountItem[]} items - Las líneas actuales.
+ * @param {{ barcode: string; countedQuantity: number | null }[]} counts - Las cantidades ya validadas; null borra lo contado.
+ * @returns {StockCountItem[]} Las líneas con las cantidades nuevas.
+ * @throws {HttpError} 400 si el producto no forma parte del conteo.
+ */
+function applyCounts(items: StockCountItem[], counts: { barcode: string; countedQuantity: number | null }[]): StockCountItem[] {
+  const counted = new Map<string, number | null>();
+  for (const { barcode, countedQuantity } of counts) {
+    if (!items.some(item => item.barcode === barcode)) {
+      throw new HttpError(400, `El producto con código de barras ${barcode} no forma parte del conteo.`);
+    }
+    counted.set(barcode, countedQuantity);
+  }
+  return items.map(item => (counted.has(item.barcode) ? { ...item, countedQuantity: counted.get(item.barcode) ?? null } : item));
+}
+
+/**
+ * Inicia un conteo (`add_stock_count.php`): copia la cantidad del sistema de cada producto del PDV, o solo de una
+ * marca, como cantidad esperada. Lo anota en el registro de auditoría.
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ pointOfSale, brand?, notes? }`.
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @returns {SerializedStockCount} El conteo iniciado.
+ * @throws {HttpError} 400 si falta el PDV o no hay productos que contar, 401 sin sesión, 403 sin permiso,
+ * 404 si el PDV o la marca no existe.
+ */
+export function createStockCount(db: Database, input: unknown, token: string | null): SerializedStockCount {
+  const { pointOfSale, brand: rawBrand, notes } = parseJsonBody(stockCountFormSchema, input, 'Falta el campo requerido: pointOfSale.');
+  assertPointOfSale(db, pointOfSale);
+  const actor = requireStockCountAccess(db, token, pointOfSale, 'count_stock');
+  const brand = rawBrand?.trim() || null;
+  const posData = db.inventory[pointOfSale] || {};
+  if (brand && !posData[brand]) {
+    throw new HttpError(404, `Marca no encontrada en ${pointOfSale}: ${brand}`);
+  }
+  const items: StockCountItem[] = Object.entries(posData)
+    .filter(([brandName]) => !brand || brandName === brand)
+    .flatMap(([brandName, products]) => products.map(product => ({
+      barcode: product.barcode,
+      productName: product.name,
+      brandName,
+      expectedQuantity: product.quantity,
+      countedQuantity: null,
+      adjustment: null,
+    })))
+    .sort((a, b) => a.brandName.localeCompare(b.brandName, 'es') || a.productName.localeCompare(b.productName, 'es'));
+  if (items.length === 0) {
+    throw new HttpError(400, `No hay productos que contar en ${pointOfSale}.`);
+  }
+  const count: SerializedStockCount = {
+    id: generateId('count'),
+    pointOfSale,
+    brand,
+    status: 'counting',
+    items,
+    notes: notes?.trim() || null,
+    createdAt: new Date().toISOString(),
+    createdBy: actor,
+    postedAt: null,
+    postedBy: null,
+    reason: null,
+  };
+  db.stockCounts.push(count);
+  appendAuditEntry(db, actor, {
+    action: 'stock_count.create',
+    entityId: count.id,
+    pointOfSale,
+    before: null,
+    after: count,
+  });
+  return count;
+}
+
+/**
+ * Modifica un conteo abierto (`update_stock_count.php`): carga cantidades contadas, cambia las notas o lo anula
+ * (`status: 'cancelled'`, que exige `post_stock_counts`). Solo cambian los campos presentes.
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ id, counts?: [{ barcode, countedQuantity }], notes?, status? }`.
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @returns {SerializedStockCount} El conteo actualizado.
+ * @throws {HttpError} 400 si los datos son inválidos, 401 sin sesión, 403 sin permiso, 404 si el conteo no existe,
+ * 409 si el conteo ya se contabilizó o se anuló.
+ */
+export function updateStockCount(db: Database, input: unknown, token: string | null): SerializedStockCount {
+  const count = findStockCount(db, parseIdBody(input));
+  const changes = parseJsonBody(
+    stockCountUpdateSchema,
+    input,
+    'Datos de conteo inválidos. Campos admitidos: counts (array de { barcode, countedQuantity: entero >=0 o null }), notes, status.'
+  );
+  const actor = requireStockCountAccess(db, token, count.pointOfSale, changes.status === 'cancelled' ? 'post_stock_counts' : 'count_stock');
+  assertCounting(count);
+  const before = { ...count };
+  Object.assign(count, {
+    items: changes.counts === undefined ? count.items : applyCounts(count.items, changes.counts),
+    notes: changes.notes === undefined ? count.notes : changes.notes.trim() || null,
+    status: changes.status ?? count.status,
+  });
+  appendAuditEntry(db, actor, {
+    action: 'stock_count.update',
+    entityId: count.id,
+    pointOfSale: count.pointOfSale,
+    before,
+    after: count,
+  });
+  return count;
+}
+
+/**
+ * Contabiliza un conteo abierto (`post_stock_count.php`): ajusta el stock de cada producto contado por su diferencia
+ * con la cantidad esperada, de modo que las ventas y entradas registradas durante el conteo se conservan. Un ajuste
+ * que dejaría el stock negativo se limita a dejarlo en 0. Las líneas sin contar no se tocan. El registro de auditoría
+ * guarda los ajustes, el motivo y el stock antes y después.
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ id, reason }`.
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @returns {SerializedStockCount} El conteo contabilizado.
+ * @throws {HttpError} 400 si falta el motivo o no hay líneas contadas, 401 sin sesión, 403 sin permiso,
+ * 404 si el conteo o un producto contado ya no existe, 409 si el conteo ya se contabilizó o se anuló.
+ */
+export function postStockCount(db: Database, input: unknown, token: string | null): SerializedStockCount {
+  const count = findStockCount(db, parseIdBody(input));
+  const { reason } = parseJsonBody(stockCountPostSchema, input, 'Falta el campo requerido: reason (motivo de los ajustes).');
+  const actor = requireStockCountAccess(db, token, count.pointOfSale, 'post_stock_counts');
+  assertCounting(count);
+  if (count.items.every(item => item.countedQuantity === null)) {
+    throw new HttpError(400, 'El conteo no tiene líneas contadas.');
+  }
+  const barcodes = count.items
+    .filter(item => {
+      const variance = getStockCountVariance(item);
+      return variance !== null && variance !== 0;
+    })
+    .map(item => item.barcode);
+  const stockBefore = getStockSnapshot(db.inventory, count.pointOfSale, barcodes);
+  const items = count.items.map(item => {
+    const variance = getStockCountVariance(item);
+    if (variance === null || variance === 0) {
+      return { ...item, adjustment: variance };
+    }
+    const location = findProductInPos(db.inventory, count.pointOfSale, item.barcode);
+    if (!location) {
+      throw new HttpError(404, `Producto con código de barras ${item.barcode} no encontrado en ${count.pointOfSale}.`);
+    }
+    const adjustment = Math.max(variance, -location.product.quantity);
+    location.product.quantity += adjustment;
+    return { ...item, adjustment };
+  });
+  const before = { ...count };
+  Object.assign(count, {
+    status: 'posted',
+    items,
+    postedAt: new Date().toISOString(),
+    postedBy: actor,
+    reason,
+  });
+  appendAuditEntry(db, actor, {
+    action: 'stock_count.post',
+    entityId: count.id,
+    pointOfSale: count.pointOfSale,
+    before: { ...before, stock: stockBefore },
+    after: { ...count, stock: getStockSnapshot(db.inventory, count.pointOfSale, barcodes) },
+  });
+  return count;
+}
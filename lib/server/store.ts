@@ -0,0 +1,251 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import type { Customer, Inventory, PriceTier, SerializedAuditEntry, SerializedDiscountApproval, SerializedPromotion, SerializedPurchaseOrder, SerializedSaleRecord, SerializedSaleReturn, SerializedStockAdjustment, SerializedStockCount, SerializedStockTransfer, SerializedSupplierRecord, User } from '@/lib/domain';
+
+// --- Definición de Tipos del Almacén ---
+// Los registros se guardan en su forma JSON (fechas como cadenas ISO), definida en '@/lib/domain'.
+
+/**
+ * Usuario tal como se guarda en el backend: el usuario público más sus credenciales y el estado de bloqueo.
+ * @interface StoredUser
+ */
+export interface StoredUser extends User {
+  /** Las cuentas desactivadas no pueden iniciar sesión; se conservan para el historial. */
+  active: boolean;
+  /** Hash de la contraseña (`scrypt$sal$hash`), generado por `hashPassword`. */
+  passwordHash: string;
+  /** Intentos de inicio de sesión fallidos consecutivos. */
+  failedLoginAttempts: number;
+  /** Fecha ISO hasta la que la cuenta está bloqueada, o null. */
+  lockedUntil: string | null;
+  /** Fecha ISO del último inicio de sesión correcto, o null. */
+  lastLoginAt: string | null;
+}
+
+/**
+ * Sesión iniciada. Solo se guarda el hash SHA-256 del token; el token en claro vive únicamente en la cookie.
+ * @interface StoredSession
+ */
+export interface StoredSession {
+  tokenHash: string;
+  userId: string;
+  createdAt: string;
+  /** Última actividad registrada; la sesión caduca tras un periodo de inactividad desde esta fecha. */
+  lastSeenAt: string;
+}
+
+/**
+ * Contenido completo de la base de datos local en formato JSON.
+ * @interface Database
+ */
+export interface Database {
+  /** Nombres de los Puntos de Venta registrados. */
+  pointsOfSale: string[];
+  /** Inventario agrupado por PDV y marca, con la misma forma que devuelve `get_inventory.php`. */
+  inventory: Inventory;
+  /** Historial de ventas minoristas. */
+  sales: SerializedSaleRecord[];
+  /** Historial de ventas mayoristas. */
+  wholesaleSales: SerializedSaleRecord[];
+  /** Devoluciones y anulaciones de ventas minoristas y mayoristas. */
+  saleReturns: SerializedSaleReturn[];
+  /** Historial de entradas de proveedores. */
+  supplierEntries: SerializedSupplierRecord[];
+  /** Traspasos de stock entre PDV, en el orden en que se crearon. */
+  stockTransfers: SerializedStockTransfer[];
+  /** Órdenes de compra a proveedores, en el orden en que se crearon. */
+  purchaseOrders: SerializedPurchaseOrder[];
+  /** Conteos físicos de stock, en el orden en que se iniciaron. */
+  stockCounts: SerializedStockCount[];
+  /** Ajustes manuales de stock (roturas, robos, vencimientos, testers), en el orden en que se registraron. */
+  stockAdjustments: SerializedStockAdjustment[];
+  /** Usuarios con sus credenciales. */
+  users: StoredUser[];
+  /** Sesiones activas. */
+  sessions: StoredSession[];
+  /** Registro de auditoría, en orden de inserción. Solo se añaden entradas (ver `appendAuditEntry`). */
+  auditLog: SerializedAuditEntry[];
+  /** Aprobaciones de descuento pendientes de usar; cada una se consume en la venta que la presenta. */
+  discountApprovals: SerializedDiscountApproval[];
+  /** Promociones, en el orden en que se crearon (es el orden en que se aplican dentro de cada tipo). */
+  promotions: SerializedPromotion[];
+  /** Directorio de clientes, en el orden en que se dieron de alta. */
+  customers: Customer[];
+}
+
+// --- Configuración del Almacén ---
+
+// Ruta del archivo JSON que hace de base de datos. Se puede cambiar con la variable de entorno MOCK_DB_PATH.
+const DB_FILE_PATH = process.env.MOCK_DB_PATH || path.join(process.cwd(), '.data', 'db.json');
+
+const PLACEHOLDER_IMAGE_URL = 'https://placehold.co/100x100.png';
+
+/**
+ * Crea un usuario de ejemplo activo, sin intentos fallidos ni bloqueo.
+ * @param {User} user - Los datos públicos del usuario.
+ * @param {string} passwordHash - El hash precalculado de su contraseña.
+ * @returns {StoredUser} El usuario listo para guardar.
+ */
+function seedUser(user: User, passwordHash: string): StoredUser {
+  return { ...user, active: true, passwordHash, failedLoginAttempts: 0, lockedUntil: null, lastLoginAt: null };
+}
+
+/**
+ * Crea la base de datos inicial con los PDV "Main Store" y "Warehouse", algunos productos de ejemplo
+ * y los usuarios de demostración (admin/adminpassword, tienda/tiendapassword, almacen/almacenpassword).
+ * Los hashes de las contraseñas están precalculados para no ejecutar scrypt en cada lectura.
+ * @returns {Database} Una base de datos nueva con datos de ejemplo.
+ */
+function createSeedDatabase(): Database {
+  return {
+    pointsOfSale: ['Main Store', 'Warehouse'],
+    inventory: {
+      'Main Store': {
+        'Maybelline': [
+          { id: 'prod-ms-1001', name: 'Máscara Lash Sensational', quantity: 24, barcode: '7800000001001', imageUrl: PLACEHOLDER_IMAGE_URL, price: 8.99, brand: 'Maybelline', description: 'Máscara de pestañas para volumen y definición.', 'data-ai-hint': 'mascara', priceTiers: [{ minQuantity: 12, price: 6.5 }, { minQuantity: 48, price: 5.9 }, { minQuantity: 144, price: 5.4 }], lowStockThreshold: null },
+          { id: 'prod-ms-1002', name: 'Base Fit Me', quantity: 3, barcode: '7800000001002', imageUrl: PLACEHOLDER_IMAGE_URL, price: 10.5, brand: 'Maybelline', description: 'Base de maquillaje de acabado natural.', 'data-ai-hint': 'foundation', lowStockThreshold: null },
+        ],
+        'Nivea': [
+          { id: 'prod-ms-2001', name: 'Crema Nivea Soft 200ml', quantity: 40, barcode: '7800000002001', imageUrl: PLACEHOLDER_IMAGE_URL, price: 5.25, brand: 'Nivea', description: 'Crema hidratante para rostro y cuerpo.', 'data-ai-hint': 'cream', priceTiers: [{ minQuantity: 20, price: 4.1 }, { minQuantity: 60, price: 3.8 }], lowStockThreshold: 10 },
+          { id: 'prod-ms-2002', name: 'Protector Solar FPS 50', quantity: 0, barcode: '7800000002002', imageUrl: PLACEHOLDER_IMAGE_URL, price: 12.0, brand: 'Nivea', description: 'Protector solar de amplio espectro.', 'data-ai-hint': 'sunscreen', lowStockThreshold: null },
+        ],
+      },
+      'Warehouse': {
+        'Maybelline': [
+          { id: 'prod-wh-1001', name: 'Máscara Lash Sensational', quantity: 120, barcode: '7800000001001', imageUrl: PLACEHOLDER_IMAGE_URL, price: 8.99, brand: 'Maybelline', description: 'Máscara de pestañas para volumen y definición.', 'data-ai-hint': 'mascara', priceTiers: [{ minQuantity: 12, price: 6.5 }, { minQuantity: 48, price: 5.9 }, { minQuantity: 144, price: 5.4 }], lowStockThreshold: null },
+        ],
+        'Nivea': [
+          { id: 'prod-wh-2001', name: 'Crema Nivea Soft 200ml', quantity: 200, barcode: '7800000002001', imageUrl: PLACEHOLDER_IMAGE_URL, price: 5.25, brand: 'Nivea', description: 'Crema hidratante para rostro y cuerpo.', 'data-ai-hint': 'cream', priceTiers: [{ minQuantity: 20, price: 4.1 }, { minQuantity: 60, price: 3.8 }], lowStockThreshold: 30 },
+        ],
+      },
+    },
+    sales: [],
+    wholesaleSales: [],
+    saleReturns: [],
+    supplierEntries: [],
+    stockTransfers: [],
+    purchaseOrders: [],
+    stockCounts: [],
+    stockAdjustments: [],
+    users: [
+      seedUser({ id: 'admin-user', name: 'Administrador', username: 'admin', role: 'owner', allowedPOS: ['*'] },
+        'scrypt$900c9080eeb75b3fa121c58a661125cc$41edabc7a42cdd65598044b30d0bc192cab4c6c61ebc1460900d95574f511b81bc871b990cc6752336f6daeec5caa5dbf1fc10fbf0add4603a8ec0746491d212'),
+      seedUser({ id: 'mainstore-user', name: 'Usuario Tienda Principal', username: 'tienda', role: 'cashier', allowedPOS: ['Main Store'] },
+        'scrypt$e98192db6e80c6ed10102aaca285881c$0a611690d04644b3d6883dafd3c2fb62a75e97c4957f92f482b9818759157b60d35d3ed3b8dc2684a2a35876717b3ffcc4787745385bc0c2eb057353af1ca467'),
+      seedUser({ id: 'warehouse-user', name: 'Usuario Almacén', username: 'almacen', role: 'stock_clerk', allowedPOS: ['Warehouse'] },
+        'scrypt$c15e70e5c2974c15e673ac8a381d0292$6cf3c8d6ce75591b7c768c58b70e455b9b5779539ea87c71eb1330cfb0c345a6509138da7a56316ff39e3ac87e3a64528ce51deec5918388c837c19d3c0d2857'),
+    ],
+    sessions: [],
+    auditLog: [],
+    discountApprovals: [],
+    promotions: [],
+    customers: [],
+  };
+}
+
+// --- Lectura y Escritura ---
+
+/**
+ * Convierte el precio mayorista anterior a los tramos (`wholesaleQuantityThreshold` + `wholesalePrice`)
+ * en un único tramo de precio por volumen.
+ * @template T
+ * @param {T} record - Un producto del inventario o una línea de una entrada de proveedor.
+ * @returns {T} El registro sin los campos anteriores y, si los tenía completos, con el tramo equivalente.
+ */
+function migrateWholesalePrice<T extends { priceTiers?: PriceTier[] | null }>(record: T): T {
+  const { wholesaleQuantityThreshold, wholesalePrice, ...rest } = record as T & { wholesaleQuantityThreshold?: number | null; wholesalePrice?: number | null };
+  if (rest.priceTiers === undefined && wholesaleQuantityThreshold && wholesalePrice) {
+    return { ...rest, priceTiers: [{ minQuantity: wholesaleQuantityThreshold, price: wholesalePrice }] } as T;
+  }
+  return rest as T;
+}
+
+/**
+ * Lee la base de datos desde disco. Si el archivo no existe, se crea con los datos de ejemplo.
+ * Las colecciones que falten en un archivo antiguo se completan con los valores de la semilla.
+ * @returns {Promise<Database>} El contenido actual de la base de datos.
+ */
+async function loadDatabase(): Promise<Database> {
+  try {
+    const raw = await fs.readFile(DB_FILE_PATH, 'utf-8');
+    const parsed = JSON.parse(raw) as Partial<Database>;
+    const db = { ...createSeedDatabase(), ...parsed };
+    // Los usuarios guardados antes de existir los roles se migran: '*' pasa a propietario y el resto a cajero.
+    // Los guardados antes de poder desactivar cuentas se consideran activos.
+    db.users = db.users.map((user): StoredUser => ({
+      ...user,
+      role: user.role ?? (user.allowedPOS.includes('*') ? 'owner' : 'cashier'),
+      active: user.active ?? true,
+    }));
+    // El precio mayorista único de productos y entradas de proveedor anteriores pasa a ser su primer tramo.
+    for (const posData of Object.values(db.inventory)) {
+      for (const brand of Object.keys(posData)) {
+        posData[brand] = posData[brand].map(migrateWholesalePrice);
+      }
+    }
+    db.supplierEntries = db.supplierEntries.map(entry => ({ ...entry, products: entry.products.map(migrateWholesalePrice) }));
+    return db;
+  } catch (err: any) {
+    if (err?.code !== 'ENOENT') {
+      throw new Error(`No se pudo leer la base de datos local (${DB_FILE_PATH}): ${err.message}`);
+    }
+    const seed = createSeedDatabase();
+    await saveDatabase(seed);
+    return seed;
+  }
+}
+
+/**
+ * Escribe la base de datos en disco de forma atómica (archivo temporal + renombrado),
+ * para que un fallo a mitad de escritura nunca deje el archivo corrupto.
+ * @param {Database} db - El contenido a guardar.
+ */
+async function saveDatabase(db: Database): Promise<void> {
+  await fs.mkdir(path.dirname(DB_FILE_PATH), { recursive: true });
+  const tempPath = `${DB_FILE_PATH}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(db, null, 2), 'utf-8');
+  await fs.rename(tempPath, DB_FILE_PATH);
+}
+
+// Cola que serializa las transacciones para que dos escrituras concurrentes no se pisen.
+let transactionQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Lee la base de datos sin modificarla. Espera a que terminen las transacciones en curso.
+ * @returns {Promise<Database>} Una instantánea de la base de datos.
+ */
+export async function readDatabase(): Promise<Database> {
+  await transactionQueue;
+  return loadDatabase();
+}
+
+/**
+ * Ejecuta `work` dentro de una transacción, con la misma semántica que `add_supplier_entry_example.php`:
+ * los cambios se aplican sobre una copia de la base de datos y solo se guardan si `work` termina sin errores.
+ * Si `work` lanza una excepción, no se escribe nada (equivalente a `rollBack`) y la excepción se propaga.
+ *
+ * @template T
+ * @param {(db: Database) => T | Promise<T>} work - Función que modifica la copia de la base de datos y devuelve un resultado.
+ * @returns {Promise<T>} El resultado devuelto por `work`.
+ */
+export function withTransaction<T>(work: (db: Database) => T | Promise<T>): Promise<T> {
+  const run = transactionQueue.then(async () => {
+    const draft = structuredClone(await loadDatabase());
+    const result = await work(draft);
+    await saveDatabase(draft);
+    return result;
+  });
+  // Un fallo no debe bloquear las transacciones siguientes.
+  transactionQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Genera un identificador único con el mismo formato que los scripts PHP (`prefijo-timestamp-hex`).
+ * @param {string} prefix - Prefijo del identificador (p. ej., 'sale', 'supplier').
+ * @returns {string} El identificador generado.
+ */
+export function generateId(prefix: string): string {
+  return `${prefix}-${Math.floor(Date.now() / 1000)}-${randomBytes(4).toString('hex')}`;
+}
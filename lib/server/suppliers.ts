@@ -0,0 +1,159 @@
+import {
+  hasCapability,
+  hasPosAccess,
+  sortPriceTiers,
+  supplierEntryPayloadSchema,
+  validatePriceTiers,
+  type PriceTier,
+  type SerializedSupplierRecord,
+} from '@/lib/domain';
+import { appendAuditEntry, type AuditActor } from './audit';
+import { requireCapability } from './auth';
+import { HttpError, parseJsonBody } from './http';
+import { assertPointOfSale, findProductAnywhere, findProductInPos, getStockSnapshot, insertProduct, moveProductToBrand } from './inventory';
+import { receivePurchaseOrder } from './purchaseOrders';
+import { generateId, type Database } from './store';
+
+/**
+ * Valida y ordena los tramos de precio por volumen de un producto de la entrada.
+ * @param {PriceTier[] | null | undefined} tiers - Los tramos recibidos, o nada.
+ * @param {string} barcode - El código de barras del producto, para el mensaje de error.
+ * @returns {PriceTier[] | null} Los tramos ordenados por cantidad mínima (vacío para quitarlos), o null si no se indicaron.
+ * @throws {HttpError} 400 si algún tramo es inválido.
+ */
+function parsePriceTiers(tiers: PriceTier[] | null | undefined, barcode: string): PriceTier[] | null {
+  if (!tiers) {
+    return null;
+  }
+  const error = validatePriceTiers(tiers);
+  if (error) {
+    throw new HttpError(400, `${error} (código de barras: ${barcode})`);
+  }
+  return sortPriceTiers(tiers);
+}
+
+/**
+ * Registra una entrada de proveedor, siguiendo la lógica de `add_supplier_entry_example.php`:
+ * - Los datos globales del producto (nombre, marca, imagen, descripción, tramos de precio por volumen) se actualizan
+ *   en todos los PDV a los que tiene acceso el usuario. Unos `priceTiers` vacíos quitan los tramos; sin `priceTiers`,
+ *   se conservan los actuales.
+ * - El stock, el precio de venta y el umbral de bajo stock se actualizan solo en el PDV de destino.
+ * - Un producto nuevo en el PDV toma como precio el indicado, el de otro PDV o, en su defecto, el de compra × 1,5.
+ * Debe ejecutarse dentro de `withTransaction` para que un producto inválido anule toda la entrada.
+ * El registro de auditoría guarda la entrada y el stock y precio de sus productos en el PDV antes y después.
+ * Con `purchaseOrderId`, la entrada recibe esa orden de compra, que pasa a estado `received`.
+ * Exige la capacidad `receive_stock` y acceso al PDV, y además `edit_prices` si algún producto trae `sellingPrice`
+ * o `priceTiers`; el usuario de la entrada es el de la sesión.
+ *
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido (ver `supplierEntryPayloadSchema`).
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @returns {SerializedSupplierRecord} La entrada guardada, con la forma que espera el frontend.
+ * @throws {HttpError} Si faltan campos, no hay sesión, falta el permiso o el acceso al PDV, el PDV no existe,
+ * algún producto es inválido o la orden de compra no se puede recibir.
+ */
+export function addSupplierEntry(db: Database, input: unknown, token: string | null): SerializedSupplierRecord {
+  const { supplierName, pointOfSale, products, purchaseOrderId: rawPurchaseOrderId } = parseJsonBody(
+    supplierEntryPayloadSchema,
+    input,
+    'Faltan campos requeridos o la lista de productos está vacía. Campos requeridos: supplierName, pointOfSale, products (array de { barcode, productName, brandName, quantity (>0), purchasePrice (>0) }).'
+  );
+  const purchaseOrderId = rawPurchaseOrderId || null;
+  assertPointOfSale(db, pointOfSale);
+  const session = requireCapability(db, token, 'receive_stock');
+  if (!hasPosAccess(session.user, pointOfSale)) {
+    throw new HttpError(403, `No tienes acceso al Punto de Venta ${pointOfSale}.`);
+  }
+  const setsPrices = products.some(productData => productData.sellingPrice != null || productData.priceTiers != null);
+  if (setsPrices && !hasCapability(session.user, 'edit_prices')) {
+    throw new HttpError(403, 'No tienes permiso para fijar precios de venta ni tramos de precio por volumen.');
+  }
+  const actor: AuditActor = { userId: session.user.id, userName: session.user.name };
+  const barcodes = products.map(productData => productData.barcode);
+  const stockBefore = getStockSnapshot(db.inventory, pointOfSale, barcodes);
+
+  const processedProducts: SerializedSupplierRecord['products'] = [];
+
+  for (const productData of products) {
+    const { barcode, productName, brandName, quantity: quantityReceived, purchasePrice } = productData;
+    const sellingPrice = productData.sellingPrice ?? null;
+    const imageUrl = productData.imageUrl ?? null;
+    const description = productData.description ?? null;
+    const aiHint = productData.aiHint ?? null;
+    const priceTiers = parsePriceTiers(productData.priceTiers, barcode);
+    const lowStockThreshold = productData.lowStockThreshold ?? null;
+
+    const existingGlobal = findProductAnywhere(db.inventory, barcode);
+
+    // a. Actualizar los datos globales del producto en los PDV del usuario donde exista.
+    for (const pos of Object.keys(db.inventory).filter(pos => hasPosAccess(session.user, pos))) {
+      const location = findProductInPos(db.inventory, pos, barcode);
+      if (!location) continue;
+      location.product.name = productName;
+      if (imageUrl) location.product.imageUrl = imageUrl;
+      if (description !== null) location.product.description = description;
+      if (aiHint !== null) location.product['data-ai-hint'] = aiHint;
+      if (priceTiers !== null) location.product.priceTiers = priceTiers;
+      moveProductToBrand(db.inventory, pos, location, brandName);
+    }
+
+    // b. Actualizar o crear el stock en el PDV de destino.
+    const locationInPos = findProductInPos(db.inventory, pointOfSale, barcode);
+    const oldSellingPrice = locationInPos ? locationInPos.product.price : (existingGlobal ? existingGlobal.price : null);
+
+    if (locationInPos) {
+      locationInPos.product.quantity += quantityReceived;
+      if (sellingPrice !== null) locationInPos.product.price = sellingPrice;
+      if (lowStockThreshold !== null) locationInPos.product.lowStockThreshold = lowStockThreshold;
+    } else {
+      insertProduct(db.inventory, pointOfSale, {
+        name: productName,
+        brand: brandName,
+        barcode,
+        quantity: quantityReceived,
+        price: sellingPrice ?? existingGlobal?.price ?? purchasePrice * 1.5,
+        imageUrl: imageUrl || existingGlobal?.imageUrl || 'https://placehold.co/100x100.png',
+        description: description ?? existingGlobal?.description,
+        'data-ai-hint': aiHint ?? existingGlobal?.['data-ai-hint'],
+        priceTiers: priceTiers ?? existingGlobal?.priceTiers,
+        lowStockThreshold: lowStockThreshold ?? existingGlobal?.lowStockThreshold ?? null,
+      });
+    }
+
+    processedProducts.push({
+      barcode,
+      productName,
+      brandName,
+      quantity: quantityReceived,
+      purchasePrice,
+      description,
+      oldSellingPrice,
+      newSellingPrice: sellingPrice,
+      priceTiers,
+      lowStockThreshold,
+    });
+  }
+
+  const entry: SerializedSupplierRecord = {
+    id: generateId('supplier'),
+    dateTime: new Date().toISOString(),
+    supplierName,
+    pointOfSale,
+    userId: actor.userId,
+    userName: actor.userName,
+    products: processedProducts,
+    purchaseOrderId,
+  };
+  db.supplierEntries.push(entry);
+  if (purchaseOrderId) {
+    receivePurchaseOrder(db, purchaseOrderId, entry, actor);
+  }
+  appendAuditEntry(db, actor, {
+    action: 'supplier_entry.record',
+    entityId: entry.id,
+    pointOfSale,
+    before: { stock: stockBefore },
+    after: { ...entry, stock: getStockSnapshot(db.inventory, pointOfSale, barcodes) },
+  });
+  return entry;
+}
@@ -0,0 +1,305 @@
+import {
+  getStockTransferStatusLabel,
+  hasPosAccess,
+  stockTransferFormSchema,
+  stockTransferStatusSchema,
+  stockTransferUpdateSchema,
+  type SerializedStockTransfer,
+  type StockTransferActor,
+  type StockTransferItem,
+  type StockTransferStatus,
+} from '@/lib/domain';
+import { appendAuditEntry } from './audit';
+import { requireCapability } from './auth';
+import { HttpError, parseIdBody, parseJsonBody } from './http';
+import { assertPointOfSale, decrementStock, findProductAnywhere, findProductInPos, getStockSnapshot, insertProduct } from './inventory';
+import { generateId, type Database } from './store';
+
+/** Error para un cuerpo de traspaso al que le faltan campos o los trae con otro tipo. */
+const TRANSFER_FIELDS_ERROR = 'Faltan campos requeridos. Campos requeridos: origin, destination, items (array de { barcode, quantity }).';
+
+/**
+ * Filtros admitidos por `get_stock_transfers.php`.
+ * @interface StockTransferFilters
+ */
+export interface StockTransferFilters {
+  /** Solo los traspasos que salen de este PDV o llegan a él, o null para todos. */
+  pointOfSale: string | null;
+  /** Solo los traspasos en este estado, o null para todos. */
+  status: StockTransferStatus | null;
+}
+
+/**
+ * Lee los filtros de traspasos (`pointOfSale`, `status`) de la query string.
+ * @param {URLSearchParams} searchParams - Los parámetros de la petición.
+ * @returns {StockTransferFilters} Los filtros.
+ * @throws {HttpError} 400 si el estado no existe.
+ */
+export function parseStockTransferFilters(searchParams: URLSearchParams): StockTransferFilters {
+  const status = searchParams.get('status') || null;
+  if (status !== null && !stockTransferStatusSchema.safeParse(status).success) {
+    throw new HttpError(400, `Estado de traspaso inválido: ${status}. Valores permitidos: ${stockTransferStatusSchema.options.join(', ')}.`);
+  }
+  return {
+    pointOfSale: searchParams.get('pointOfSale')?.trim() || null,
+    status: status as StockTransferStatus | null,
+  };
+}
+
+/**
+ * Filtra los traspasos (`get_stock_transfers.php`).
+ * @param {SerializedStockTransfer[]} transfers - Todos los traspasos.
+ * @param {StockTransferFilters} filters - Los filtros.
+ * @returns {SerializedStockTransfer[]} Los traspasos, del más reciente al más antiguo.
+ */
+export function queryStockTransfers(transfers: SerializedStockTransfer[], filters: StockTransferFilters): SerializedStockTransfer[] {
+  return transfers
+    .filter(transfer =>
+      (!filters.pointOfSale || transfer.origin === filters.pointOfSale || transfer.destination === filters.pointOfSale)
+      && (!filters.status || transfer.status === filters.status)
+    )
+    .reverse();
+}
+
+/**
+ * Busca un traspaso por ID.
+ * @param {Database} db - La base de datos.
+ * @param {string} id - El ID recibido.
+ * @returns {SerializedStockTransfer} El traspaso.
+ * @throws {HttpError} 404 si el traspaso no existe.
+ */
+function findStockTransfer(db: Database, id: string): SerializedStockTransfer {
+  const transfer = db.stockTransfers.find(t => t.id === id);
+  if (!transfer) {
+    throw new HttpError(404, `Traspaso no encontrado: ${id}`);
+  }
+  return transfer;
+}
+
+/**
+ * Comprueba que la sesión pueda traspasar stock y tenga acceso al PDV sobre el que actúa.
+ * @param {Database} db - La base de datos.
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @param {string} pointOfSale - El PDV: el origen para crear, editar o despachar; el destino para recibir.
+ * @returns {StockTransferActor} El usuario de la sesión, que también es el autor en el registro de auditoría.
+ * @throws {HttpError} 401 sin sesión, 403 sin la capacidad `transfer_stock` o sin acceso al PDV.
+ */
+function requireTransferAccess(db: Database, token: string | null, pointOfSale: string): StockTransferActor {
+  const session = requireCapability(db, token, 'transfer_stock');
+  if (!hasPosAccess(session.user, pointOfSale)) {
+    throw new HttpError(403, `No tienes acceso al Punto de Venta ${pointOfSale}.`);
+  }
+  return { userId: session.user.id, userName: session.user.name };
+}
+
+/**
+ * Comprueba que el origen y el destino de un traspaso existan y sean distintos.
+ * @param {Database} db - La base de datos.
+ * @param {string} origin - El PDV de origen.
+ * @param {string} destination - El PDV de destino.
+ * @throws {HttpError} 400 si son el mismo, 404 si alguno no existe.
+ */
+function assertTransferRoute(db: Database, origin: string, destination: string): void {
+  if (origin === destination) {
+    throw new HttpError(400, 'El PDV de destino debe ser distinto del de origen.');
+  }
+  assertPointOfSale(db, origin);
+  assertPointOfSale(db, destination);
+}
+
+/**
+ * Arma las líneas de un traspaso, sumando las que repiten código de barras. El nombre y la marca se toman
+ * del producto en el PDV de origen. El stock no se comprueba hasta el despacho.
+ * @param {Database} db - La base de datos.
+ * @param {string} origin - El PDV de origen.
+ * @param {{ barcode: string; quantity: number }[]} items - Las líneas ya validadas.
+ * @returns {StockTransferItem[]} Las líneas del traspaso.
+ * @throws {HttpError} 404 si algún producto no está en el origen.
+ */
+function buildTransferItems(db: Database, origin: string, items: { barcode: string; quantity: number }[]): StockTransferItem[] {
+  const quantities = new Map<string, number>();
+  for (const item of items) {
+    quantities.set(item.barcode, (quantities.get(item.barcode) ?? 0) + item.quantity);
+  }
+  return Array.from(quantities, ([barcode, quantity]) => {
+    const location = findProductInPos(db.inventory, origin, barcode);
+    if (!location) {
+      throw new HttpError(404, `Producto con código de barras ${barcode} no encontrado en ${origin}.`);
+    }
+    return { barcode, productName: location.product.name, brandName: location.product.brand, quantity };
+  });
+}
+
+/**
+ * Crea un traspaso en borrador (`add_stock_transfer.php`) y lo anota en el registro de auditoría. No mueve stock.
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ origin, destination, items: [{ barcode, quantity }], notes? }`.
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @returns {SerializedStockTransfer} El traspaso creado.
+ * @throws {HttpError} 400 si los datos son inválidos, 401 sin sesión, 403 sin permiso en el origen, 404 si un PDV o producto no existe.
+ */
+export function createStockTransfer(db: Database, input: unknown, token: string | null): SerializedStockTransfer {
+  const { origin, destination, items, notes } = parseJsonBody(stockTransferFormSchema, input, TRANSFER_FIELDS_ERROR);
+  assertTransferRoute(db, origin, destination);
+  const actor = requireTransferAccess(db, token, origin);
+  const transfer: SerializedStockTransfer = {
+    id: generateId('transfer'),
+    origin,
+    destination,
+    status: 'draft',
+    items: buildTransferItems(db, origin, items),
+    notes: notes?.trim() || null,
+    createdAt: new Date().toISOString(),
+    createdBy: actor,
+    dispatchedAt: null,
+    dispatchedBy: null,
+    receivedAt: null,
+    receivedBy: null,
+  };
+  db.stockTransfers.push(transfer);
+  appendAuditEntry(db, actor, {
+    action: 'stock_transfer.create',
+    entityId: transfer.id,
+    pointOfSale: origin,
+    before: null,
+    after: transfer,
+  });
+  return transfer;
+}
+
+/**
+ * Modifica un traspaso en borrador (`update_stock_transfer.php`) o lo anula (`status: 'cancelled'`, sin mover stock):
+ * solo cambian los campos presentes.
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ id, origin?, destination?, items?, notes?, status? }`.
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @returns {SerializedStockTransfer} El traspaso actualizado.
+ * @throws {HttpError} 400 si los datos son inválidos, 401 sin sesión, 403 sin permiso en el origen,
+ * 404 si el traspaso, un PDV o un producto no existe, 409 si el traspaso ya se despachó o se anuló.
+ */
+export function updateStockTransfer(db: Database, input: unknown, token: string | null): SerializedStockTransfer {
+  const transfer = findStockTransfer(db, parseIdBody(input));
+  const changes = parseJsonBody(stockTransferUpdateSchema, input, TRANSFER_FIELDS_ERROR);
+  const actor = requireTransferAccess(db, token, transfer.origin);
+  if (transfer.status !== 'draft') {
+    throw new HttpError(409, 'Solo se pueden editar o anular los traspasos en borrador.');
+  }
+  const origin = changes.origin ?? transfer.origin;
+  const destination = changes.destination ?? transfer.destination;
+  assertTransferRoute(db, origin, destination);
+  if (origin !== transfer.origin) {
+    requireTransferAccess(db, token, origin);
+  }
+  const before = { ...transfer };
+  Object.assign(transfer, {
+    origin,
+    destination,
+    // Al cambiar el origen, las líneas se vuelven a validar contra su inventario.
+    items: buildTransferItems(db, origin, changes.items ?? transfer.items),
+    notes: changes.notes === undefined ? transfer.notes : changes.notes.trim() || null,
+    status: changes.status ?? transfer.status,
+  });
+  appendAuditEntry(db, actor, {
+    action: 'stock_transfer.update',
+    entityId: transfer.id,
+    pointOfSale: origin,
+    before,
+    after: transfer,
+  });
+  return transfer;
+}
+
+/**
+ * Despacha un traspaso en borrador (`dispatch_stock_transfer.php`): descuenta el stock de cada línea en el origen
+ * y lo deja en tránsito. El registro de auditoría guarda el stock del origen antes y después.
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ id }`.
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @returns {SerializedStockTransfer} El traspaso despachado.
+ * @throws {HttpError} 400 sin ID, 401 sin sesión, 403 sin permiso en el origen, 404 si el traspaso o un producto no existe,
+ * 409 si no está en borrador o el stock del origen no alcanza.
+ */
+export function dispatchStockTransfer(db: Database, input: unknown, token: string | null): SerializedStockTransfer {
+  const transfer = findStockTransfer(db, parseIdBody(input));
+  const actor = requireTransferAccess(db, token, transfer.origin);
+  if (transfer.status !== 'draft') {
+    throw new HttpError(409, `El traspaso ya está ${getStockTransferStatusLabel(transfer.status).toLowerCase()}.`);
+  }
+  const barcodes = transfer.items.map(item => item.barcode);
+  const stockBefore = getStockSnapshot(db.inventory, transfer.origin, barcodes);
+  for (const item of transfer.items) {
+    decrementStock(db.inventory, transfer.origin, item.barcode, item.quantity);
+  }
+  const before = { ...transfer };
+  Object.assign(transfer, {
+    status: 'in_transit',
+    dispatchedAt: new Date().toISOString(),
+    dispatchedBy: actor,
+  });
+  appendAuditEntry(db, actor, {
+    action: 'stock_transfer.dispatch',
+    entityId: transfer.id,
+    pointOfSale: transfer.origin,
+    before: { ...before, stock: stockBefore },
+    after: { ...transfer, stock: getStockSnapshot(db.inventory, transfer.origin, barcodes) },
+  });
+  return transfer;
+}
+
+/**
+ * Recibe un traspaso en tránsito (`receive_stock_transfer.php`): suma el stock de cada línea en el destino.
+ * Un producto que el destino no tenía se da de alta con los datos del origen (o de cualquier PDV, si el origen
+ * ya no lo tiene). El registro de auditoría guarda el stock del destino antes y después.
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ id }`.
+ * @param {string | null} token - El token de la cookie de sesión.
+ * @returns {SerializedStockTransfer} El traspaso recibido.
+ * @throws {HttpError} 400 sin ID, 401 sin sesión, 403 sin permiso en el destino, 404 si el traspaso o el destino no existe,
+ * 409 si el traspaso no está en tránsito.
+ */
+export function receiveStockTransfer(db: Database, input: unknown, token: string | null): SerializedStockTransfer {
+  const transfer = findStockTransfer(db, parseIdBody(input));
+  const actor = requireTransferAccess(db, token, transfer.destination);
+  if (transfer.status !== 'in_transit') {
+    throw new HttpError(409, transfer.status === 'draft'
+      ? 'El traspaso todavía no se despachó.'
+      : `El traspaso ya está ${getStockTransferStatusLabel(transfer.status).toLowerCase()}.`);
+  }
+  assertPointOfSale(db, transfer.destination);
+  const barcodes = transfer.items.map(item => item.barcode);
+  const stockBefore = getStockSnapshot(db.inventory, transfer.destination, barcodes);
+  for (const item of transfer.items) {
+    const location = findProductInPos(db.inventory, transfer.destination, item.barcode);
+    if (location) {
+      location.product.quantity += item.quantity;
+      continue;
+    }
+    const source = findProductInPos(db.inventory, transfer.origin, item.barcode)?.product ?? findProductAnywhere(db.inventory, item.barcode);
+    insertProduct(db.inventory, transfer.destination, {
+      name: item.productName,
+      brand: item.brandName,
+      barcode: item.barcode,
+      quantity: item.quantity,
+      price: source?.price ?? 0,
+      imageUrl: source?.imageUrl || 'https://placehold.co/100x100.png',
+      description: source?.description,
+      'data-ai-hint': source?.['data-ai-hint'],
+      priceTiers: source?.priceTiers,
+      lowStockThreshold: null,
+    });
+  }
+  const before = { ...transfer };
+  Object.assign(transfer, {
+    status: 'received',
+    receivedAt: new Date().toISOString(),
+    receivedBy: actor,
+  });
+  appendAuditEntry(db, actor, {
+    action: 'stock_transfer.receive',
+    entityId: transfer.id,
+    pointOfSale: transfer.destination,
+    before: { ...before, stock: stockBefore },
+    after: { ...transfer, stock: getStockSnapshot(db.inventory, transfer.destination, barcodes) },
+  });
+  return transfer;
+}
@@ -0,0 +1,157 @@
+import {
+  hasCapability,
+  MIN_PASSWORD_LENGTH,
+  roleSchema,
+  userPasswordResetSchema,
+  userPayloadSchema,
+  userUpdateSchema,
+  type SerializedManagedUser,
+} from '@/lib/domain';
+import { destroyUserSessions, toPublicUser } from './auth';
+import { HttpError, parseIdBody, parseJsonBody } from './http';
+import { hashPassword } from './passwords';
+import { generateId, type Database, type StoredUser } from './store';
+
+/**
+ * Convierte un usuario guardado en su forma para la pantalla de administración (sin credenciales).
+ * @param {StoredUser} user - El usuario guardado.
+ * @returns {SerializedManagedUser} El usuario con su estado y último acceso.
+ */
+function toManagedUser(user: StoredUser): SerializedManagedUser {
+  return { ...toPublicUser(user), active: user.active, lastLoginAt: user.lastLoginAt };
+}
+
+/** Error para un cuerpo de usuario al que le faltan campos o los trae con otro tipo. */
+const USER_FIELDS_ERROR = `Faltan campos requeridos o hay datos inválidos. Campos requeridos: name, username, password, role (${roleSchema.options.join(', ')}), allowedPOS (array de nombres de PDV).`;
+
+/** Error para una contraseña nueva que falta o es demasiado corta. */
+const NEW_PASSWORD_ERROR = `La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres.`;
+
+/**
+ * Busca un usuario por ID.
+ * @param {Database} db - La base de datos.
+ * @param {string} id - El ID recibido.
+ * @returns {StoredUser} El usuario.
+ * @throws {HttpError} 404 si el usuario no existe.
+ */
+function findUser(db: Database, id: string): StoredUser {
+  const user = db.users.find(u => u.id === id);
+  if (!user) {
+    throw new HttpError(404, `Usuario no encontrado: ${id}`);
+  }
+  return user;
+}
+
+/**
+ * Valida la lista de PDV de un usuario: '*' (todos) o nombres de PDV existentes.
+ * @param {Database} db - La base de datos.
+ * @param {string[]} value - Los PDV recibidos.
+ * @returns {string[]} Los PDV sin duplicados (`['*']` si se incluye '*').
+ * @throws {HttpError} 404 si algún PDV no existe.
+ */
+function parseAllowedPOS(db: Database, value: string[]): string[] {
+  if (value.includes('*')) {
+    return ['*'];
+  }
+  const unknownPos = value.find(pos => !db.pointsOfSale.includes(pos));
+  if (unknownPos !== undefined) {
+    throw new HttpError(404, `Punto de Venta no encontrado: ${unknownPos}`);
+  }
+  return Array.from(new Set(value));
+}
+
+/**
+ * Lista los usuarios para la pantalla de administración (`get_users.php`), ordenados por nombre.
+ * @param {Database} db - La base de datos.
+ * @returns {SerializedManagedUser[]} Los usuarios sin credenciales.
+ */
+export function listUsers(db: Database): SerializedManagedUser[] {
+  return db.users
+    .map(toManagedUser)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Crea un usuario (`add_user.php`).
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ name, username, password, role, allowedPOS }`.
+ * @returns {Promise<SerializedManagedUser>} El usuario creado.
+ * @throws {HttpError} 400 si los datos son inválidos, 404 si algún PDV no existe, 409 si el nombre de usuario ya existe.
+ */
+export async function createUser(db: Database, input: unknown): Promise<SerializedManagedUser> {
+  const values = parseJsonBody(userPayloadSchema, input, USER_FIELDS_ERROR);
+  const username = values.username.toLowerCase();
+  if (db.users.some(u => u.username === username)) {
+    throw new HttpError(409, `El nombre de usuario "${username}" ya existe.`);
+  }
+  const allowedPOS = parseAllowedPOS(db, values.allowedPOS);
+
+  const user: StoredUser = {
+    id: generateId('user'),
+    name: values.name,
+    username,
+    role: values.role,
+    allowedPOS,
+    active: true,
+    passwordHash: await hashPassword(values.password),
+    failedLoginAttempts: 0,
+    lockedUntil: null,
+    lastLoginAt: null,
+  };
+  db.users.push(user);
+  return toManagedUser(user);
+}
+
+/**
+ * Actualiza el nombre, el rol, los PDV o el estado de un usuario (`update_user.php`).
+ * Solo se cambian los campos presentes. Al desactivar un usuario se cierran sus sesiones.
+ * Un administrador no puede desactivarse ni quitarse a sí mismo la capacidad de gestionar usuarios,
+ * para que siempre quede alguien capaz de administrar las cuentas.
+ *
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ id, name?, role?, allowedPOS?, active? }`.
+ * @param {string} actingUserId - El ID del usuario que hace el cambio.
+ * @returns {SerializedManagedUser} El usuario actualizado.
+ * @throws {HttpError} 400 si los datos son inválidos, 404 si el usuario o algún PDV no existe, 409 si el cambio dejaría al administrador sin acceso.
+ */
+export function updateUser(db: Database, input: unknown, actingUserId: string): SerializedManagedUser {
+  const user = findUser(db, parseIdBody(input));
+  const changes = parseJsonBody(
+    userUpdateSchema,
+    input,
+    `Datos de usuario inválidos. role debe ser ${roleSchema.options.join(', ')}, allowedPOS un array de nombres de PDV y active verdadero o falso.`
+  );
+  const name = changes.name ?? user.name;
+  const role = changes.role ?? user.role;
+  const allowedPOS = changes.allowedPOS === undefined ? user.allowedPOS : parseAllowedPOS(db, changes.allowedPOS);
+  const active = changes.active ?? user.active;
+
+  if (user.id === actingUserId && (!active || !hasCapability({ role, allowedPOS }, 'manage_users'))) {
+    throw new HttpError(409, 'No puedes desactivar tu propia cuenta ni quitarte el permiso de gestionar usuarios.');
+  }
+
+  Object.assign(user, { name, role, allowedPOS, active });
+  if (!active) {
+    destroyUserSessions(db, user.id);
+  }
+  return toManagedUser(user);
+}
+
+/**
+ * Asigna una contraseña nueva a un usuario (`reset_user_password.php`). Desbloquea la cuenta
+ * y cierra sus sesiones abiertas, para que tenga que entrar con la contraseña nueva.
+ *
+ * @param {Database} db - La copia de la base de datos dentro de la transacción.
+ * @param {unknown} input - El cuerpo JSON recibido: `{ id, password }`.
+ * @returns {Promise<SerializedManagedUser>} El usuario actualizado.
+ * @throws {HttpError} 400 si la contraseña es demasiado corta, 404 si el usuario no existe.
+ */
+export async function resetUserPassword(db: Database, input: unknown): Promise<SerializedManagedUser> {
+  const user = findUser(db, parseIdBody(input));
+  const { password } = parseJsonBody(userPasswordResetSchema, input, NEW_PASSWORD_ERROR);
+  user.passwordHash = await hashPassword(password);
+  user.failedLoginAttempts = 0;
+  user.lockedUntil = null;
+  destroyUserSessions(db, user.id);
+  return toManagedUser(user);
+}
@@ -0,0 +1,39 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { ROLE_CAPABILITIES } from '@/lib/domain';
+import { FORBIDDEN_ROUTE, LOGIN_ROUTE, getRouteCapability, isPublicRoute } from '@/lib/routePermissions';
+import { ROLE_COOKIE_NAME, SESSION_COOKIE_NAME, verifyRoleCookie } from '@/lib/server/authCookies';
+
+/**
+ * Middleware de Next que aplica `ROUTE_PERMISSIONS` antes de enviar cualquier página:
+ * sin cookie de sesión redirige a la página de inicio de sesión, y si la cookie de rol firmada
+ * no tiene la capacidad que exige la ruta, responde 403 con la vista de acceso denegado.
+ * Si la cookie de rol falta o no es válida, decide `ProtectedRoutes` con la sesión del backend.
+ *
+ * @param {NextRequest} request - La petición entrante.
+ * @returns {Promise<NextResponse>} La respuesta: continuar, redirigir o la vista 403.
+ */
+export async function middleware(request: NextRequest): Promise<NextResponse> {
+  const { pathname } = request.nextUrl;
+  if (isPublicRoute(pathname) || pathname === FORBIDDEN_ROUTE) {
+    return NextResponse.next();
+  }
+
+  if (!request.cookies.has(SESSION_COOKIE_NAME)) {
+    return NextResponse.redirect(new URL(LOGIN_ROUTE, request.url));
+  }
+
+  const capability = getRouteCapability(pathname);
+  if (!capability) {
+    return NextResponse.next();
+  }
+  const role = await verifyRoleCookie(request.cookies.get(ROLE_COOKIE_NAME)?.value);
+  if (role && !ROLE_CAPABILITIES[role].includes(capability)) {
+    return NextResponse.rewrite(new URL(FORBIDDEN_ROUTE, request.url), { status: 403 });
+  }
+  return NextResponse.next();
+}
+
+export const config = {
+  // Solo páginas: las rutas de la API y los recursos estáticos no pasan por el middleware.
+  matcher: ['/((?!api|_next/static|_next/image|favicon.ico).*)'],
+};